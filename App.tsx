@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { 
   ProjectTask, 
   ViewState, 
@@ -13,8 +13,13 @@ import {
   SlideDeck
 } from './types';
 import AdminDashboard from './components/AdminDashboard'; // AdminDashboard を使う
-import { generateProjectPlan, initializeGemini } from './services/geminiService';
-import { ProjectService, ProjectData } from './services/projectService';
+import { streamProjectPlan, initializeLlm, AiServiceError } from './services/geminiService';
+import { LlmProviderId, LlmSettings, getLlmProviderInfo } from './services/llmProvider';
+import { LlmSettingsService, WorkspaceLlmSettings } from './services/llmSettingsService';
+import { AttachmentService, replaceAttachments } from './services/attachmentStorage';
+import { validateSchema, ganttItemsSchema } from './services/aiSchemas';
+import { ProjectService, ProjectData, ProjectConflictError } from './services/projectService';
+import { mergeProjectTasks, MergeSide } from './services/projectMerge';
 import { supabase } from './lib/supabase';
 import ProjectInputForm from './components/ProjectInputForm';
 import ProjectFlowDisplay from './components/ProjectFlowDisplay';
@@ -26,6 +31,15 @@ import SlideEditorView from './components/SlideEditorView';
 import ApiKeyModal from './components/ApiKeyModal';
 import AuthModal from './components/AuthModal';
 import ProjectListModal from './components/ProjectListModal';
+import PortfolioDashboard from './components/PortfolioDashboard';
+import ConflictResolutionModal from './components/ConflictResolutionModal';
+import PlanGenerationStatus from './components/PlanGenerationStatus';
+import PresentationAudienceView from './components/PresentationAudienceView';
+import SharedPresentationView from './components/SharedPresentationView';
+import { XIcon } from './components/icons';
+import { getAudienceChannelIdFromUrl } from './services/presentationSync';
+import { getSharedPresentationIdFromUrl } from './services/presentationService';
+import { localToday } from './services/dateUtils';
 
 const defaultExtendedDetails: ExtendedTaskDetails = {
   subSteps: [],
@@ -41,6 +55,27 @@ const defaultExtendedDetails: ExtendedTaskDetails = {
   subStepCanvasSize: { width: 1200, height: 800 },
 };
 
+// 以前はプロバイダー・モデルをこのブラウザに保存していた。ワークスペースの設定が無い場合の初期値として使い、保存したら消す
+const LEGACY_LLM_SETTINGS_STORAGE_KEY = 'llm-settings';
+
+// APIキーはプロバイダーごとにセッション中のみ保持する
+const llmApiKeyStorageKey = (provider: LlmProviderId) => `llm-api-key:${provider}`;
+
+const isSameLlmSettings = (a: Omit<LlmSettings, 'apiKey'>, b: Omit<LlmSettings, 'apiKey'>) =>
+  a.provider === b.provider && a.model === b.model && (a.baseUrl ?? '') === (b.baseUrl ?? '');
+
+const loadLegacyLlmSettings = (): WorkspaceLlmSettings['settings'] => {
+  try {
+    const stored = localStorage.getItem(LEGACY_LLM_SETTINGS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) as WorkspaceLlmSettings['settings'] : null;
+  } catch {
+    return null;
+  }
+};
+
+const withDefaultExtendedDetails = (tasks: ProjectTask[]): ProjectTask[] =>
+  tasks.map(t => ({ ...t, extendedDetails: { ...defaultExtendedDetails, ...(t.extendedDetails || {}) } }));
+
 const getDefaultSubStepPosition = (index: number): { x: number; y: number } => ({
   x: 10, 
   y: index * 90 + 10, 
@@ -105,26 +140,49 @@ const getEquipmentModificationTemplateTasks = (): ProjectTask[] => {
 
 const App: React.FC = () => {
   const [user, setUser] = useState<any>(null);
-  const [apiKey, setApiKey] = useState<string | null>(null);
+  const [llmSettings, setLlmSettings] = useState<LlmSettings | null>(null);
+  const [workspaceLlmSettings, setWorkspaceLlmSettings] = useState<WorkspaceLlmSettings['settings']>(null);
+  const [canEditLlmSettings, setCanEditLlmSettings] = useState(true);
+  // 別のワークスペースを開いたときの設定。使用中のプロバイダーはユーザーが切り替えるまでそのまま使う
+  const [pendingWorkspaceLlmSettings, setPendingWorkspaceLlmSettings] = useState<WorkspaceLlmSettings['settings']>(null);
+  const llmWorkspaceOwnerRef = useRef<string | null>(null);
+  const llmSettingsRef = useRef<LlmSettings | null>(null);
+  llmSettingsRef.current = llmSettings;
   const [projectGoal, setProjectGoal] = useState<string>('');
   const [targetDate, setTargetDate] = useState<string>('');
+  const [projectStartDate, setProjectStartDate] = useState<string>(localToday);
   const [tasks, setTasks] = useState<ProjectTask[]>([]);
   const [selectedTask, setSelectedTask] = useState<ProjectTask | null>(null);
   const [ganttData, setGanttData] = useState<GanttItem[] | null>(null);
   const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
+  // 楽観的排他制御: 最後にサーバーと同期した version と内容（三方向マージの基準）
+  const [projectVersion, setProjectVersion] = useState<number | null>(null);
+  const [syncedTasks, setSyncedTasks] = useState<ProjectTask[]>([]);
+  const [syncedGanttData, setSyncedGanttData] = useState<GanttItem[] | null>(null);
+  const [conflictingProject, setConflictingProject] = useState<ProjectData | null>(null);
+  // リアルタイム通知を受けて取得した他のメンバーの最新版。現在の編集内容への統合待ち
+  const [incomingProject, setIncomingProject] = useState<ProjectData | null>(null);
   
   const [isLoadingPlan, setIsLoadingPlan] = useState<boolean>(false);
+  // ストリーミング生成の中止用。途中で失敗した場合のエラーは生成済みのタスクを残したまま表示する
+  const planAbortControllerRef = useRef<AbortController | null>(null);
+  const [planGenerationError, setPlanGenerationError] = useState<string | null>(null);
   const [appError, setAppError] = useState<string | null>(null);
+  const [appErrorDetails, setAppErrorDetails] = useState<string[]>([]);
 
   const [currentView, setCurrentView] = useState<ViewState>(ViewState.INPUT_FORM);
   const [isAddTaskModalOpen, setIsAddTaskModalOpen] = useState<boolean>(false);
   const [isAuthModalOpen, setIsAuthModalOpen] = useState<boolean>(false);
   const [isProjectListOpen, setIsProjectListOpen] = useState<boolean>(false);
+  const [isPortfolioOpen, setIsPortfolioOpen] = useState<boolean>(false);
 
   const [history, setHistory] = useState<ProjectTask[][]>([]);
   const [redoHistory, setRedoHistory] = useState<ProjectTask[][]>([]);
   
   const [customReportDeck, setCustomReportDeck] = useState<SlideDeck | null>(null);
+  // 発表者ビューから開かれた聴衆用ウィンドウと、共有リンクから開いたプレゼンテーション
+  const [audienceChannelId] = useState(() => getAudienceChannelIdFromUrl(window.location.search));
+  const [sharedPresentationId, setSharedPresentationId] = useState(() => getSharedPresentationIdFromUrl(window.location.search));
 
 　const [isAdmin, setIsAdmin] = useState(false);
 　const [adminOpen, setAdminOpen] = useState(false);
@@ -150,11 +208,18 @@ useEffect(() => {
       if (!session?.user) {
         // ログアウト時の処理
         setCurrentProjectId(null);
+        setProjectVersion(null);
+        setConflictingProject(null);
         setTasks([]);
         setProjectGoal('');
         setTargetDate('');
+        setProjectStartDate(localToday());
         setGanttData(null);
         setCurrentView(ViewState.INPUT_FORM);
+        initializeLlm(null);
+        setLlmSettings(null);
+        setWorkspaceLlmSettings(null);
+        setPendingWorkspaceLlmSettings(null);
       }
     });
 
@@ -166,12 +231,40 @@ useEffect(() => {
     return () => subscription.unsubscribe();
   }, []);
 
+  // プロバイダーとモデルはワークスペース（開いているプロジェクトの所有者）ごとにサーバーへ保存し、
+  // APIキーはセッション中のみ保持する。読み込み直すのはワークスペースが変わったときのみで、
+  // 使用中のプロバイダーがあれば、新しいワークスペースの設定に切り替えるかはユーザーが決める
   useEffect(() => {
-    const storedKey = sessionStorage.getItem('gemini-api-key');
-    if (storedKey) {
-      handleSetApiKey(storedKey);
+    if (!user) {
+      llmWorkspaceOwnerRef.current = null;
+      return;
     }
-  }, []);
+    let cancelled = false;
+    LlmSettingsService.getWorkspaceSettings(currentProjectId)
+      .then(({ ownerId, settings, canEdit }) => {
+        if (cancelled || ownerId === llmWorkspaceOwnerRef.current) return;
+        llmWorkspaceOwnerRef.current = ownerId;
+        const nextSettings = settings ?? (canEdit ? loadLegacyLlmSettings() : null);
+        setWorkspaceLlmSettings(nextSettings);
+        setCanEditLlmSettings(canEdit);
+        setPendingWorkspaceLlmSettings(null);
+        if (!nextSettings) return;
+
+        const current = llmSettingsRef.current;
+        if (current) {
+          if (!isSameLlmSettings(current, nextSettings)) setPendingWorkspaceLlmSettings(nextSettings);
+          return;
+        }
+        // 使用中のプロバイダーが無い場合のみ自動で使う。APIキーが無ければ設定画面で入力してもらう
+        const apiKey = sessionStorage.getItem(llmApiKeyStorageKey(nextSettings.provider)) ?? undefined;
+        if (!getLlmProviderInfo(nextSettings.provider).requiresApiKey || apiKey) {
+          initializeLlm({ ...nextSettings, apiKey });
+          setLlmSettings({ ...nextSettings, apiKey });
+        }
+      })
+      .catch(err => console.error('AI の設定の取得に失敗しました:', err));
+    return () => { cancelled = true; };
+  }, [user?.id, currentProjectId]);
 
   const recordHistory = (currentTasks: ProjectTask[]) => {
     setHistory(prev => [...prev.slice(-10), currentTasks]); // Limit history size
@@ -295,37 +388,149 @@ useEffect(() => {
     }
   };
 
-  const handleSetApiKey = (key: string) => {
-    if (!key.trim()) return;
-    initializeGemini(key);
-    sessionStorage.setItem('gemini-api-key', key);
-    setApiKey(key);
+  const handleSetLlmSettings = (settings: LlmSettings) => {
+    const apiKey = settings.apiKey?.trim();
+    if (getLlmProviderInfo(settings.provider).requiresApiKey && !apiKey) return;
+    const { apiKey: _apiKey, ...storedSettings } = settings;
+    initializeLlm({ ...settings, apiKey });
+    if (apiKey) {
+      sessionStorage.setItem(llmApiKeyStorageKey(settings.provider), apiKey);
+    } else {
+      sessionStorage.removeItem(llmApiKeyStorageKey(settings.provider));
+    }
+    setLlmSettings({ ...settings, apiKey });
+    setPendingWorkspaceLlmSettings(null);
     setAppError(null);
+
+    // ワークスペースの設定を変えられるのは所有者のみ。メンバーが選んだ設定はこのセッションでのみ使う
+    if (canEditLlmSettings) {
+      setWorkspaceLlmSettings(storedSettings);
+      LlmSettingsService.saveWorkspaceSettings(storedSettings)
+        .then(() => localStorage.removeItem(LEGACY_LLM_SETTINGS_STORAGE_KEY))
+        .catch(err => console.error('AI の設定の保存に失敗しました:', err));
+    }
+  };
+
+  // ワークスペースの AI 設定に切り替える。このプロバイダーのAPIキーがまだ無ければ設定画面で入力してもらう
+  const handleSwitchToWorkspaceLlmSettings = () => {
+    if (!pendingWorkspaceLlmSettings) return;
+    const apiKey = sessionStorage.getItem(llmApiKeyStorageKey(pendingWorkspaceLlmSettings.provider)) ?? undefined;
+    setPendingWorkspaceLlmSettings(null);
+    if (!getLlmProviderInfo(pendingWorkspaceLlmSettings.provider).requiresApiKey || apiKey) {
+      initializeLlm({ ...pendingWorkspaceLlmSettings, apiKey });
+      setLlmSettings({ ...pendingWorkspaceLlmSettings, apiKey });
+    } else {
+      initializeLlm(null);
+      setLlmSettings(null);
+    }
   };
 
   const handleClearApiKey = () => {
-    sessionStorage.removeItem('gemini-api-key');
-    setApiKey(null);
-    initializeGemini(''); // De-initialize
+    if (llmSettings) sessionStorage.removeItem(llmApiKeyStorageKey(llmSettings.provider));
+    setLlmSettings(null);
+    initializeLlm(null); // De-initialize
   };
 
   const handleLogout = async () => {
     await supabase.auth.signOut();
   };
 
+  const markProjectSynced = (version: number, syncedContent: { tasks: ProjectTask[]; ganttData: GanttItem[] | null }) => {
+    setProjectVersion(version);
+    setSyncedTasks(syncedContent.tasks);
+    setSyncedGanttData(syncedContent.ganttData);
+  };
+
   const saveCurrentProject = async () => {
-    if (!user || !currentProjectId) return;
+    if (!user || !currentProjectId || conflictingProject) return;
+    if (JSON.stringify(tasks) === JSON.stringify(syncedTasks) && JSON.stringify(ganttData) === JSON.stringify(syncedGanttData)) return;
 
     try {
-      await ProjectService.updateProject(currentProjectId, {
+      const version = await ProjectService.updateProject(currentProjectId, {
         tasks,
         ganttData,
-      });
+      }, projectVersion ?? undefined, syncedTasks);
+      markProjectSynced(version, { tasks, ganttData });
     } catch (error) {
+      if (error instanceof ProjectConflictError) {
+        // 自動保存を止め、競合解決ダイアログで統合してもらう
+        setConflictingProject(error.remote);
+        return;
+      }
       console.error('プロジェクトの自動保存に失敗しました:', error);
     }
   };
 
+  // base64 のまま計画に含まれている添付ファイルを、プロジェクトを開いた（保存した）時点でストレージへ移す。
+  // 置き換えは通常の編集として自動保存される
+  useEffect(() => {
+    if (!currentProjectId) return;
+    let cancelled = false;
+    AttachmentService.moveInlineAttachments(currentProjectId, tasks).then(moved => {
+      if (!cancelled && moved.size > 0) setTasks(prev => replaceAttachments(prev, moved));
+    });
+    return () => { cancelled = true; };
+  }, [currentProjectId]);
+
+  // 他のメンバーの保存をリアルタイムで取り込む。通知には version しか含まれないため最新版を取得し、
+  // 統合は incomingProject の effect で現在の編集内容に対して行う
+  const handleRemoteProjectUpdate = async (change: { version: number; lastModifiedBy: string | null }) => {
+    if (!currentProjectId || conflictingProject) return;
+    if (projectVersion !== null && change.version <= projectVersion) return;
+    if (user && change.lastModifiedBy === user.id) return; // 自分の保存の通知
+
+    try {
+      setIncomingProject(await ProjectService.getProject(currentProjectId));
+    } catch (error) {
+      console.error('最新のプロジェクトの取得に失敗しました:', error);
+    }
+  };
+
+  // 重ならない変更はそのまま統合し、同じ箇所が編集されている場合のみ競合解決ダイアログを開く
+  useEffect(() => {
+    if (!incomingProject) return;
+    setIncomingProject(null);
+    if (incomingProject.id !== currentProjectId || conflictingProject) return;
+    if (projectVersion !== null && incomingProject.version <= projectVersion) return;
+
+    const remoteTasks = withDefaultExtendedDetails(incomingProject.tasks);
+    const remoteGanttData = incomingProject.ganttData || null;
+    const { tasks: mergedTasks, conflicts } = mergeProjectTasks(syncedTasks, tasks, remoteTasks);
+    if (conflicts.length > 0) {
+      setConflictingProject(incomingProject);
+      return;
+    }
+    const ganttChangedLocally = JSON.stringify(ganttData) !== JSON.stringify(syncedGanttData);
+
+    markProjectSynced(incomingProject.version, { tasks: remoteTasks, ganttData: remoteGanttData });
+    setTasks(mergedTasks); // 他のメンバーの変更は「元に戻す」の対象にしない
+    setGanttData(ganttChangedLocally ? ganttData : remoteGanttData);
+  }, [incomingProject]);
+
+  const handleResolveConflict = (resolutions: Record<string, MergeSide>) => {
+    if (!conflictingProject) return;
+    const remoteTasks = withDefaultExtendedDetails(conflictingProject.tasks);
+    const remoteGanttData = conflictingProject.ganttData || null;
+    const { tasks: mergedTasks } = mergeProjectTasks(syncedTasks, tasks, remoteTasks, resolutions);
+    const ganttChangedLocally = JSON.stringify(ganttData) !== JSON.stringify(syncedGanttData);
+
+    markProjectSynced(conflictingProject.version, { tasks: remoteTasks, ganttData: remoteGanttData });
+    setTasksWithHistory(mergedTasks);
+    setGanttData(ganttChangedLocally ? ganttData : remoteGanttData);
+    setConflictingProject(null);
+  };
+
+  const handleDiscardLocalChanges = () => {
+    if (!conflictingProject) return;
+    const remoteTasks = withDefaultExtendedDetails(conflictingProject.tasks);
+    const remoteGanttData = conflictingProject.ganttData || null;
+
+    markProjectSynced(conflictingProject.version, { tasks: remoteTasks, ganttData: remoteGanttData });
+    setTasksWithHistory(remoteTasks);
+    setGanttData(remoteGanttData);
+    setConflictingProject(null);
+  };
+
   // タスクが変更されたときに自動保存
   useEffect(() => {
     if (currentProjectId && tasks.length > 0) {
@@ -334,13 +539,24 @@ useEffect(() => {
     }
   }, [tasks, ganttData, currentProjectId]);
 
+  const cancelPlanGeneration = () => {
+    planAbortControllerRef.current?.abort();
+    planAbortControllerRef.current = null;
+    setIsLoadingPlan(false);
+    setPlanGenerationError(null);
+  };
+
   const handleStartNewProject = () => {
+    cancelPlanGeneration();
     setProjectGoal('');
     setTargetDate('');
+    setProjectStartDate(localToday());
     setTasks([]);
     setGanttData(null);
     setCustomReportDeck(null);
     setCurrentProjectId(null);
+    setProjectVersion(null);
+    setConflictingProject(null);
     setCurrentView(ViewState.INPUT_FORM);
     setAppError(null);
     setHistory([]);
@@ -348,7 +564,7 @@ useEffect(() => {
   };
 
   const handleExportProject = () => {
-    const content: ProjectFileContent = { projectGoal, targetDate, tasks, ganttData };
+    const content: ProjectFileContent = { projectGoal, targetDate, startDate: projectStartDate, tasks, ganttData };
     downloadJson(content, 'project-plan.json');
   };
 
@@ -356,15 +572,20 @@ useEffect(() => {
     try {
       const content = await readJsonFile<ProjectFileContent>(file);
       if (content.projectGoal && content.targetDate && Array.isArray(content.tasks)) {
+        cancelPlanGeneration();
         setProjectGoal(content.projectGoal);
         setTargetDate(content.targetDate);
+        setProjectStartDate(content.startDate || localToday());
         setTasks(content.tasks.map(t => ({
             ...t,
             extendedDetails: { ...defaultExtendedDetails, ...(t.extendedDetails || {}) }
         })));
-        setGanttData(content.ganttData || null);
+        // 保存された日程が壊れている場合は読み込まず、開いたときに再計算する
+        setGanttData(content.ganttData && validateSchema(ganttItemsSchema, content.ganttData).ok ? content.ganttData : null);
         setCustomReportDeck(null);
         setCurrentProjectId(null); // JSONインポートは新規プロジェクト扱い
+        setProjectVersion(null);
+        setConflictingProject(null);
         setCurrentView(ViewState.PROJECT_FLOW);
         setHistory([]);
         setRedoHistory([]);
@@ -372,6 +593,7 @@ useEffect(() => {
     } catch (e) { 
         const errorMessage = (e as Error).message;
         setAppError(errorMessage);
+        setAppErrorDetails([]);
         if (errorMessage.toLowerCase().includes('api key')) {
             handleClearApiKey();
         }
@@ -379,14 +601,16 @@ useEffect(() => {
   };
 
   const handleSelectProject = (project: ProjectData) => {
+    cancelPlanGeneration();
+    const loadedTasks = withDefaultExtendedDetails(project.tasks);
     setProjectGoal(project.goal);
     setTargetDate(project.targetDate);
-    setTasks(project.tasks.map(t => ({
-      ...t,
-      extendedDetails: { ...defaultExtendedDetails, ...(t.extendedDetails || {}) }
-    })));
+    setProjectStartDate(project.startDate);
+    setTasks(loadedTasks);
     setGanttData(project.ganttData || null);
     setCurrentProjectId(project.id);
+    markProjectSynced(project.version, { tasks: loadedTasks, ganttData: project.ganttData || null });
+    setConflictingProject(null);
     setCustomReportDeck(null);
     setCurrentView(ViewState.PROJECT_FLOW);
     setHistory([]);
@@ -454,12 +678,16 @@ useEffect(() => {
       case 'improvement-project': templateTasks = getImprovementTemplateTasks(); break;
       case 'equipment-modification': templateTasks = getEquipmentModificationTemplateTasks(); break;
     }
+    cancelPlanGeneration();
     setProjectGoal(goal);
     setTargetDate(date);
+    setProjectStartDate(localToday());
     setTasks(autoLayoutTasks(templateTasks));
     setGanttData(null);
     setCustomReportDeck(null);
     setCurrentProjectId(null); // テンプレートは新規プロジェクト扱い
+    setProjectVersion(null);
+    setConflictingProject(null);
     setCurrentView(ViewState.PROJECT_FLOW);
     setHistory([]);
     setRedoHistory([]);
@@ -467,46 +695,95 @@ useEffect(() => {
   };
 
   const handleSubmit = async (goal: string, date: string) => {
+    cancelPlanGeneration();
+    const controller = new AbortController();
+    planAbortControllerRef.current = controller;
     setIsLoadingPlan(true);
     setAppError(null);
+    setAppErrorDetails([]);
+    const startDate = localToday();
+
+    // 生成が始まったらすぐにキャンバスへ切り替え、受信したタスクから順に表示する
+    setProjectGoal(goal);
+    setTargetDate(date);
+    setProjectStartDate(startDate);
+    setTasks([]);
+    setGanttData(null);
+    setCustomReportDeck(null);
+    setCurrentProjectId(null); // AI生成は新規プロジェクト扱い
+    setProjectVersion(null);
+    setConflictingProject(null);
+    setCurrentView(ViewState.PROJECT_FLOW);
+    setHistory([]);
+    setRedoHistory([]);
+
+    // ログインしている場合、生成したタスクを自動的にプロジェクトとして保存する
+    const saveGeneratedProject = async (generatedTasks: ProjectTask[]) => {
+      if (!user) return;
+      const layoutedTasks = autoLayoutTasks(generatedTasks);
+      try {
+        const project = await ProjectService.createProject(
+          `AI生成プロジェクト - ${new Date().toLocaleDateString('ja-JP')}`,
+          goal,
+          date,
+          layoutedTasks,
+          null,
+          startDate
+        );
+        setCurrentProjectId(project.id);
+        markProjectSynced(project.version, { tasks: layoutedTasks, ganttData: null });
+      } catch (error) {
+        console.error('プロジェクトの自動保存に失敗しました:', error);
+      }
+    };
+
+    let receivedTasks: ProjectTask[] = [];
     try {
-      setProjectGoal(goal);
-      setTargetDate(date);
-      const initialTasks = await generateProjectPlan(goal, date);
-      const layoutedTasks = autoLayoutTasks(initialTasks.map(t => ({...t, extendedDetails: defaultExtendedDetails, status: TaskStatus.NOT_STARTED })));
-      setTasks(layoutedTasks);
-      setGanttData(null);
-      setCustomReportDeck(null);
-      setCurrentProjectId(null); // AI生成は新規プロジェクト扱い
-      setCurrentView(ViewState.PROJECT_FLOW);
-      setHistory([]);
-      setRedoHistory([]);
-
-      // ユーザーがログインしている場合、自動的にプロジェクトを保存
-      if (user) {
-        try {
-          const project = await ProjectService.createProject(
-            `AI生成プロジェクト - ${new Date().toLocaleDateString('ja-JP')}`,
-            goal,
-            date,
-            layoutedTasks
-          );
-          setCurrentProjectId(project.id);
-        } catch (error) {
-          console.error('プロジェクトの自動保存に失敗しました:', error);
+      await streamProjectPlan(goal, date, {
+        signal: controller.signal,
+        onTask: task => {
+          const newTask: ProjectTask = { ...task, extendedDetails: defaultExtendedDetails, status: TaskStatus.NOT_STARTED };
+          receivedTasks = [...receivedTasks, newTask];
+          setTasks(prev => autoLayoutTasks([...prev, newTask]));
+        },
+      });
+      await saveGeneratedProject(receivedTasks);
+    } catch (e) {
+      // 別の計画の生成・読み込みで中断された場合は、画面がもう別のプロジェクトになっているため保存しない
+      const isCurrentGeneration = planAbortControllerRef.current === controller;
+      if (e instanceof AiServiceError && e.kind === 'cancelled') {
+        // 中止までに受信したタスクはそのまま編集でき、プロジェクトとして保存する。1件もなければ入力画面に戻る
+        if (!isCurrentGeneration) return;
+        if (receivedTasks.length === 0) {
+          setCurrentView(ViewState.INPUT_FORM);
+        } else {
+          await saveGeneratedProject(receivedTasks);
         }
+        return;
       }
-    } catch (e) {
-      const errorMessage = (e as Error).message;
-      if (errorMessage.toLowerCase().includes('api key')) {
+      if (receivedTasks.length > 0) {
+        // 途中で失敗しても受信したタスクは失わないよう保存する
+        setPlanGenerationError((e as Error).message);
+        if (isCurrentGeneration) await saveGeneratedProject(receivedTasks);
+        return;
+      }
+      if (e instanceof AiServiceError && (e.kind === 'invalid_api_key' || e.kind === 'not_initialized')) {
         handleClearApiKey();
       }
-      setAppError(errorMessage);
+      setAppError((e as Error).message);
+      setAppErrorDetails(e instanceof AiServiceError ? e.issues : []);
     } finally {
-      setIsLoadingPlan(false);
+      if (planAbortControllerRef.current === controller) {
+        planAbortControllerRef.current = null;
+        setIsLoadingPlan(false);
+      }
     }
   };
 
+  const handleCancelPlanGeneration = () => {
+    planAbortControllerRef.current?.abort();
+  };
+
   const handleSelectTask = (task: ProjectTask) => {
     setSelectedTask(task);
     setCurrentView(ViewState.TASK_DETAIL);
@@ -521,20 +798,30 @@ useEffect(() => {
     setCustomReportDeck(deck);
   };
 
+  const handleCloseSharedPresentation = () => {
+    window.history.replaceState(null, '', window.location.pathname);
+    setSharedPresentationId(null);
+  };
+
   const renderContent = () => {
     if (!user) {
       return <AuthModal isOpen={true} onClose={() => {}} onSuccess={() => setIsAuthModalOpen(false)} />;
     }
 
-    if (!apiKey) {
-      return <ApiKeyModal onSetApiKey={handleSetApiKey} error={appError} />;
+    // 共有リンクの閲覧には AI の設定は不要。閲覧できるかどうかはプロジェクトのメンバーかで決まる
+    if (sharedPresentationId) {
+      return <SharedPresentationView presentationId={sharedPresentationId} onClose={handleCloseSharedPresentation} />;
+    }
+
+    if (!llmSettings) {
+      return <ApiKeyModal key={workspaceLlmSettings?.provider} initialSettings={workspaceLlmSettings} onSaveSettings={handleSetLlmSettings} error={appError} />;
     }
 
     if (appError) {
       return (
         <div className="p-4">
-          <ErrorMessage message={appError} />
-          <button onClick={() => { setAppError(null); if (!apiKey) { handleClearApiKey() } else { setCurrentView(ViewState.INPUT_FORM) } }}
+          <ErrorMessage message={appError} details={appErrorDetails} />
+          <button onClick={() => { setAppError(null); if (!llmSettings) { handleClearApiKey() } else { setCurrentView(ViewState.INPUT_FORM) } }}
             className="mt-4 px-4 py-2 bg-blue-600 text-white rounded">
             最初に戻る
           </button>
@@ -549,6 +836,7 @@ switch (currentView) {
         tasks={tasks}
         projectGoal={projectGoal}
         targetDate={targetDate}
+        projectStartDate={projectStartDate}
         onSelectTask={handleSelectTask}
         onUpdateTaskExtendedDetails={() => {}} // This is handled by opening the modal
         onUpdateTaskPosition={handleUpdateTaskPosition}
@@ -565,6 +853,7 @@ switch (currentView) {
         canRedo={redoHistory.length > 0}
         generateUniqueId={generateUniqueId}
         onUpdateTaskConnections={handleUpdateTaskConnections}
+        onUpdateTasks={setTasksWithHistory}
         ganttData={ganttData}
         setGanttData={setGanttData}
         onCustomReportGenerated={handleCustomReportGenerated}
@@ -572,7 +861,9 @@ switch (currentView) {
         onOpenProjectList={() => setIsProjectListOpen(true)}
         onLogout={handleLogout}
         currentProjectId={currentProjectId}
+        currentUserId={user?.id ?? null}
         onSaveProject={saveCurrentProject}
+        onRemoteProjectUpdate={handleRemoteProjectUpdate}
       />
     );
 
@@ -587,6 +878,10 @@ switch (currentView) {
           generateUniqueId={generateUniqueId}
           projectGoal={projectGoal}
           targetDate={targetDate}
+          projectStartDate={projectStartDate}
+          projectId={currentProjectId}
+          tasks={tasks}
+          currentUserId={user?.id ?? null}
         />
       )
     );
@@ -611,6 +906,11 @@ switch (currentView) {
     
   };
 
+// 聴衆用ウィンドウは発表者ビューから受け取った内容だけを映す
+if (audienceChannelId) {
+  return <PresentationAudienceView channelId={audienceChannelId} />;
+}
+
 return (
   <div className="h-full w-full relative">
     {/* ✅ 管理者用トグルボタン */}
@@ -640,6 +940,34 @@ return (
     {/* ✅ 既存の通常UI */}
     {renderContent()}
 
+    {currentView === ViewState.PROJECT_FLOW && (
+      <PlanGenerationStatus
+        isGenerating={isLoadingPlan}
+        taskCount={tasks.length}
+        error={planGenerationError}
+        onCancel={handleCancelPlanGeneration}
+        onDismiss={() => setPlanGenerationError(null)}
+      />
+    )}
+
+    {llmSettings && pendingWorkspaceLlmSettings && (
+      <div className="fixed top-4 left-1/2 -translate-x-1/2 z-[80] w-[calc(100%-2rem)] max-w-xl flex items-start gap-3 px-4 py-3 bg-blue-50 border border-blue-200 rounded-lg shadow-xl">
+        <p className="flex-grow text-sm text-slate-700">
+          このワークスペースの AI の設定は「{getLlmProviderInfo(pendingWorkspaceLlmSettings.provider).label} / {pendingWorkspaceLlmSettings.model}」です。
+          <span className="block mt-1 text-xs text-slate-500">現在は「{getLlmProviderInfo(llmSettings.provider).label} / {llmSettings.model}」を使用しています。</span>
+        </p>
+        <button
+          onClick={handleSwitchToWorkspaceLlmSettings}
+          className="px-3 py-1.5 text-sm font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 whitespace-nowrap"
+        >
+          切り替える
+        </button>
+        <button onClick={() => setPendingWorkspaceLlmSettings(null)} className="p-1 rounded-full hover:bg-blue-100" title="今の設定を使い続ける">
+          <XIcon className="w-4 h-4 text-slate-500" />
+        </button>
+      </div>
+    )}
+
     {isAddTaskModalOpen && (
       <AddTaskModal
         onClose={() => setIsAddTaskModalOpen(false)}
@@ -653,6 +981,29 @@ return (
         onClose={() => setIsProjectListOpen(false)}
         onSelectProject={handleSelectProject}
         onCreateNew={handleCreateNewProject}
+        onOpenPortfolio={() => {
+          setIsProjectListOpen(false);
+          setIsPortfolioOpen(true);
+        }}
+      />
+    )}
+
+    {isPortfolioOpen && (
+      <PortfolioDashboard
+        onClose={() => setIsPortfolioOpen(false)}
+        onSelectProject={project => {
+          setIsPortfolioOpen(false);
+          handleSelectProject(project);
+        }}
+      />
+    )}
+
+    {conflictingProject && (
+      <ConflictResolutionModal
+        conflicts={mergeProjectTasks(syncedTasks, tasks, withDefaultExtendedDetails(conflictingProject.tasks)).conflicts}
+        onResolve={handleResolveConflict}
+        onDiscardLocal={handleDiscardLocalChanges}
+        onClose={() => setConflictingProject(null)}
       />
     )}
 
@@ -664,11 +1015,14 @@ return (
         onClose={() => setCustomReportDeck(null)}
         projectGoal={projectGoal}
         targetDate={targetDate}
+        projectStartDate={projectStartDate}
         reportScope="project"
         generateUniqueId={generateUniqueId}
+        projectId={currentProjectId}
       />
     )}
   </div>
 );
+};
 
 export default App;
\ No newline at end of file
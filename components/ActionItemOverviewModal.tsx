@@ -1,6 +1,8 @@
 
-import React, { useState, useMemo } from 'react';
-import { ProjectTask, ActionItem, SubStep } from '../types';
+import React, { useState, useMemo, useEffect } from 'react';
+import { ProjectTask, ActionItem, SubStep, TimeEntry } from '../types';
+import { TimeTrackingService } from '../services/timeTrackingService';
+import { rollupEffort, summarizeProjectEffort, formatHours } from '../services/effortRollup';
 import { XIcon, CheckSquareIcon, SquareIcon, SortAscIcon, SortDescIcon, ArrowLeftIcon } from './icons';
 
 interface FlattenedActionItem {
@@ -13,10 +15,27 @@ type SortKeys = 'status' | 'actionItem' | 'responsible' | 'subStep' | 'task' | '
 type SortDirection = 'ascending' | 'descending';
 
 
-const ActionItemOverviewModal: React.FC<{ tasks: ProjectTask[]; onClose: () => void; }> = ({ tasks, onClose }) => {
+const formatHourCell = (hours: number | null) => (hours === null ? '—' : String(Math.round(hours * 10) / 10));
+
+const ActionItemOverviewModal: React.FC<{ tasks: ProjectTask[]; projectId?: string | null; onClose: () => void; }> = ({ tasks, projectId, onClose }) => {
   const [filter, setFilter] = useState<'all' | 'completed' | 'pending'>('all');
   const [searchTerm, setSearchTerm] = useState('');
   const [sortConfig, setSortConfig] = useState<{ key: SortKeys; direction: SortDirection } | null>(null);
+  const [timeEntries, setTimeEntries] = useState<TimeEntry[]>([]);
+  const [timeEntriesError, setTimeEntriesError] = useState<string | null>(null);
+
+  // 作業時間の実績は保存済みのプロジェクトのみ
+  useEffect(() => {
+    if (!projectId) return;
+    let cancelled = false;
+    TimeTrackingService.getTimeEntries(projectId)
+      .then(entries => { if (!cancelled) setTimeEntries(entries); })
+      .catch(err => { if (!cancelled) setTimeEntriesError(err instanceof Error ? err.message : '作業時間の記録の取得に失敗しました'); });
+    return () => { cancelled = true; };
+  }, [projectId]);
+
+  const effortById = useMemo(() => rollupEffort(tasks, timeEntries), [tasks, timeEntries]);
+  const effortSummary = useMemo(() => summarizeProjectEffort(tasks, timeEntries), [tasks, timeEntries]);
 
   const flattenedItems = useMemo(() => {
     const allItems: FlattenedActionItem[] = [];
@@ -150,6 +169,21 @@ const ActionItemOverviewModal: React.FC<{ tasks: ProjectTask[]; onClose: () => v
               <button onClick={() => setFilter('completed')} className={`px-3 py-1 text-sm rounded-md ${filter === 'completed' ? 'bg-white shadow' : 'hover:bg-slate-200'}`}>完了</button>
             </div>
           </div>
+          <div className="mt-3 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-slate-600">
+            <span>
+              作業時間: 見積もり <span className="font-semibold">{formatHours(effortSummary.estimatedHours)}</span> / 実績{' '}
+              <span className={`font-semibold ${effortSummary.estimatedHours !== null && effortSummary.actualHours > effortSummary.estimatedHours ? 'text-red-600' : ''}`}>
+                {formatHours(effortSummary.actualHours)}
+              </span>
+            </span>
+            {effortSummary.members.length > 0 && (
+              <span className="text-slate-500">
+                {effortSummary.members.map(member => `${member.userName} ${formatHours(member.actualHours)}`).join('・')}
+              </span>
+            )}
+            {!projectId && <span className="text-slate-400">プロジェクトを保存すると、作業時間の実績を記録できます。</span>}
+            {timeEntriesError && <span className="text-red-600">{timeEntriesError}</span>}
+          </div>
         </div>
 
         <div className="flex-grow overflow-y-auto bg-white rounded-b-lg border">
@@ -162,10 +196,15 @@ const ActionItemOverviewModal: React.FC<{ tasks: ProjectTask[]; onClose: () => v
                 <SortableHeader sortKey="subStep" label="所属サブステップ" />
                 <SortableHeader sortKey="task" label="所属タスク" />
                 <SortableHeader sortKey="dueDate" label="期日" />
+                <th scope="col" className="px-6 py-3 text-right" title="作業時間の見積もり（時間）">見積(h)</th>
+                <th scope="col" className="px-6 py-3 text-right" title="記録した作業時間（時間）">実績(h)</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-slate-200">
-              {sortedItems.map(({ actionItem, subStep, task }, index) => (
+              {sortedItems.map(({ actionItem, subStep, task }, index) => {
+                const effort = effortById.get(actionItem.id);
+                const isOverEstimate = !!effort && effort.estimatedHours !== null && effort.actualHours > effort.estimatedHours;
+                return (
                 <tr key={actionItem.id + index} className="hover:bg-slate-50">
                   <td className="px-6 py-3">
                     {actionItem.completed ? 
@@ -183,10 +222,13 @@ const ActionItemOverviewModal: React.FC<{ tasks: ProjectTask[]; onClose: () => v
                   <td className="px-6 py-3">{subStep.text}</td>
                   <td className="px-6 py-3">{task.title}</td>
                   <td className="px-6 py-3">{(actionItem.dueDate || subStep.dueDate) ? new Date((actionItem.dueDate || subStep.dueDate) + 'T00:00:00Z').toLocaleDateString('ja-JP', { year: 'numeric', month: 'long', day: 'numeric'}) : '未設定'}</td>
+                  <td className="px-6 py-3 text-right tabular-nums">{formatHourCell(effort?.estimatedHours ?? null)}</td>
+                  <td className={`px-6 py-3 text-right tabular-nums ${isOverEstimate ? 'text-red-600 font-semibold' : ''}`}>{effort?.actualHours ? formatHourCell(effort.actualHours) : '—'}</td>
                 </tr>
-              ))}
+                );
+              })}
               {sortedItems.length === 0 && (
-                  <tr><td colSpan={6} className="text-center py-8 text-slate-500">条件に一致するアイテムはありません。</td></tr>
+                  <tr><td colSpan={8} className="text-center py-8 text-slate-500">条件に一致するアイテムはありません。</td></tr>
               )}
             </tbody>
           </table>
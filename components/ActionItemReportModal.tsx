@@ -1,101 +1,39 @@
 
-import React, { useState, useRef, ChangeEvent, useCallback } from 'react';
-import * as XLSX from 'xlsx';
-import { ActionItem, ActionItemReport, Attachment, ChartType } from '../types';
+import React, { useState, useRef, ChangeEvent, useCallback, useMemo } from 'react';
+import { ActionItem, ActionItemReport, ChartType, MatrixData } from '../types';
+import { AttachmentService } from '../services/attachmentStorage';
+import { readSpreadsheet, SpreadsheetSheet } from '../services/spreadsheetImport';
 import { XIcon, PaperClipIcon, TrashIcon, TableCellsIcon, PresentationChartBarIcon, PlusIcon, UploadIcon } from './icons';
 import MatrixEditor from './MatrixEditor';
-
-// --- Chart Components ---
-const getCoordinatesForPercent = (percent: number) => {
-    const x = Math.cos(2 * Math.PI * percent);
-    const y = Math.sin(2 * Math.PI * percent);
-    return [x, y];
-};
-
-const PieChart: React.FC<{ data: { label: string; value: number }[], title: string }> = ({ data, title }) => {
-    const total = data.reduce((sum, d) => sum + d.value, 0);
-    if (total === 0) return <div className="flex items-center justify-center h-full text-xs text-slate-500">No data for chart</div>;
-    
-    let cumulativePercent = 0;
-    const colors = ['#4A90E2', '#50E3C2', '#F5A623', '#F8E71C', '#7ED321', '#9013FE', '#BD10E0', '#4A4A4A'];
-    
-    const slices = data.map((d, i) => {
-        const percent = d.value / total;
-        const [startX, startY] = getCoordinatesForPercent(cumulativePercent);
-        cumulativePercent += percent;
-        const [endX, endY] = getCoordinatesForPercent(cumulativePercent);
-        const largeArcFlag = percent > 0.5 ? 1 : 0;
-        
-        const pathData = `M ${startX} ${startY} A 1 1 0 ${largeArcFlag} 1 ${endX} ${endY} L 0 0`;
-        return { path: pathData, color: colors[i % colors.length], label: d.label, value: d.value };
-    });
-
-    return (
-        <div className="w-full h-full flex flex-col items-center justify-center bg-white p-2 border rounded-md">
-            <h5 className="font-bold text-sm mb-2">{title}</h5>
-            <svg viewBox="-1.2 -1.2 2.4 2.4" className="w-32 h-32 mb-2">
-                {slices.map((slice, i) => <path key={i} d={slice.path} fill={slice.color} />)}
-            </svg>
-            <div className="text-[10px] space-y-0.5 w-full">
-                {slices.map((slice, i) => (
-                    <div key={i} className="flex items-center justify-between">
-                        <div className="flex items-center"><span className="w-2 h-2 rounded-full mr-1.5" style={{ backgroundColor: slice.color }}></span><span>{slice.label}</span></div>
-                        <span>{slice.value} ({((slice.value/total)*100).toFixed(1)}%)</span>
-                    </div>
-                ))}
-            </div>
-        </div>
-    );
-};
-
-const LineChart: React.FC<{ data: { label: string; value: number }[], title: string }> = ({ data, title }) => {
-    if (data.length < 2) return <div className="flex items-center justify-center h-full text-xs text-slate-500">Need at least 2 data points for a line chart.</div>;
-    const maxValue = Math.max(...data.map(d => d.value), 0);
-    return (
-        <div className="w-full h-full bg-white p-2 border rounded-md">
-            <h5 className="text-center font-bold text-sm mb-2">{title}</h5>
-            <svg viewBox="0 0 100 50" className="w-full h-40">
-                {/* Y-axis lines */}
-                {[0, 0.25, 0.5, 0.75, 1].map(f => <line key={f} x1="0" y1={50 - f*45} x2="100" y2={50-f*45} stroke="#f0f0f0" strokeWidth="0.5"/>)}
-                {/* Data line */}
-                <polyline fill="none" stroke="#4a90e2" strokeWidth="1" points={data.map((d, i) => `${(i / (data.length - 1)) * 100},${50 - (d.value / maxValue) * 45}`).join(' ')} />
-                {/* Data points */}
-                {data.map((d, i) => <circle key={i} cx={`${(i / (data.length - 1)) * 100}`} cy={`${50 - (d.value / maxValue) * 45}`} r="1.5" fill="#4a90e2" />)}
-            </svg>
-        </div>
-    );
-};
-
-
-const BarChart: React.FC<{ data: { label: string; value: number }[], title: string }> = ({ data, title }) => {
-    const maxValue = Math.max(...data.map(d => d.value), 0);
-    if(maxValue === 0) return <div className="flex items-center justify-center h-full text-xs text-slate-500">No data for chart</div>;
-    return (<div className="w-full h-full bg-white p-2 border rounded-md">
-        <h5 className="text-center font-bold text-sm mb-2">{title}</h5>
-        <div className="space-y-1">{data.map(d => (<div key={d.label} className="flex items-center text-xs">
-            <div className="w-24 truncate pr-2 text-right text-slate-600">{d.label}</div>
-            <div className="flex-grow bg-slate-200 rounded-full h-4">
-                <div className="bg-blue-500 h-4 rounded-full text-white text-right pr-1" style={{ width: `${(d.value / maxValue) * 100}%` }}>
-                    <span className="text-[10px]">{d.value}</span>
-                </div>
-            </div>
-        </div>))}</div>
-    </div>);
-};
-// --- End Chart Components ---
+import SpreadsheetImportModal from './SpreadsheetImportModal';
+import { AttachmentThumbnail, downloadAttachment } from './AttachmentPreview';
+import { ChartView } from './Charts';
+import TimeEntryPanel from './TimeEntryPanel';
+import { buildChartModel } from '../services/chartModel';
+
+const PREVIEW_CHART_TYPES: { type: ChartType; label: string }[] = [
+  { type: 'bar', label: 'Bar' },
+  { type: 'line', label: 'Line' },
+  { type: 'area', label: 'Area' },
+  { type: 'pie', label: 'Pie' },
+  { type: 'scatter', label: 'Scatter' },
+];
 
 interface ActionItemReportModalProps {
   actionItem: ActionItem;
   onSave: (updatedItem: ActionItem) => void;
   onClose: () => void;
   generateUniqueId: (prefix: string) => string;
+  projectId: string | null;
 }
 
-const ActionItemReportModal: React.FC<ActionItemReportModalProps> = ({ actionItem, onSave, onClose, generateUniqueId }) => {
+const ActionItemReportModal: React.FC<ActionItemReportModalProps> = ({ actionItem, onSave, onClose, generateUniqueId, projectId }) => {
   const [report, setReport] = useState<ActionItemReport>(actionItem.report || { notes: '', attachments: [], matrixData: null });
   const [chartType, setChartType] = useState<ChartType>('bar');
   const attachmentInputRef = useRef<HTMLInputElement>(null);
+  const [isUploadingAttachment, setIsUploadingAttachment] = useState(false);
   const excelInputRef = useRef<HTMLInputElement>(null);
+  const [spreadsheetImport, setSpreadsheetImport] = useState<{ fileName: string; sheets: SpreadsheetSheet[] } | null>(null);
   
   const updateReport = (updates: Partial<ActionItemReport>) => {
     setReport(prev => ({...prev, ...updates}));
@@ -118,25 +56,18 @@ const ActionItemReportModal: React.FC<ActionItemReportModalProps> = ({ actionIte
         return;
     }
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-        if (typeof e.target?.result === 'string') {
-            const newAttachment: Attachment = {
-                id: generateUniqueId('attach'),
-                name: file.name,
-                type: file.type,
-                dataUrl: e.target.result,
-            };
-            updateReport({ attachments: [...(report.attachments || []), newAttachment]});
-        } else {
-            alert('ファイルの読み込みに失敗しました。');
-        }
-    };
-    reader.onerror = () => {
-        alert('ファイルの読み込み中にエラーが発生しました。');
-    };
-    reader.readAsDataURL(file);
+    const attachmentId = generateUniqueId('attach');
     if (event.target) event.target.value = '';
+    setIsUploadingAttachment(true);
+    AttachmentService.uploadAttachment(projectId, attachmentId, file)
+        .then(newAttachment => {
+            setReport(prev => ({ ...prev, attachments: [...(prev.attachments || []), newAttachment] }));
+        })
+        .catch(error => {
+            console.error(error);
+            alert(error instanceof Error ? error.message : 'ファイルのアップロードに失敗しました。');
+        })
+        .finally(() => setIsUploadingAttachment(false));
   };
 
   const handleRemoveAttachment = (id: string) => {
@@ -146,67 +77,33 @@ const ActionItemReportModal: React.FC<ActionItemReportModalProps> = ({ actionIte
   const handleExcelImport = (event: ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
+    if (event.target) event.target.value = '';
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-        try {
-            const data = e.target?.result;
-            const workbook = XLSX.read(data, { type: 'array' });
-            const sheetName = workbook.SheetNames[0];
-            const worksheet = workbook.Sheets[sheetName];
-            const jsonData: any[][] = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-
-            if (!Array.isArray(jsonData) || jsonData.length === 0) {
+    file.arrayBuffer()
+        .then(readSpreadsheet)
+        .then(sheets => {
+            if (sheets.length === 0) {
                 alert("Excelファイルが空か、有効なデータが含まれていません。");
-                if(event.target) event.target.value = '';
-                return;
-            }
-
-            const headerRow = jsonData[0];
-            if (!Array.isArray(headerRow)) {
-                alert("Excelファイルのヘッダー行が読み取れませんでした。");
-                if(event.target) event.target.value = '';
                 return;
             }
-            const headers: string[] = headerRow.map(String);
-
-            const rowsData = jsonData.slice(1);
-            const rows: string[][] = [];
-            for (const rowArray of rowsData) {
-              if (Array.isArray(rowArray)) {
-                  const newRow = Array(headers.length).fill('');
-                  for (let i = 0; i < headers.length; i++) {
-                      newRow[i] = rowArray[i] !== null && rowArray[i] !== undefined ? String(rowArray[i]) : '';
-                  }
-                  rows.push(newRow);
-              }
-            }
-            
-            updateReport({ matrixData: { headers, rows }});
-        } catch (error) {
+            setSpreadsheetImport({ fileName: file.name, sheets });
+        })
+        .catch(error => {
             console.error("Error parsing Excel file:", error);
             alert(`Excelファイルの解析中にエラーが発生しました: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        } finally {
-          if(event.target) event.target.value = '';
-        }
-    };
-    reader.readAsArrayBuffer(file);
+        });
   };
 
+  const handleSpreadsheetImported = (matrixData: MatrixData) => {
+    updateReport({ matrixData });
+    setSpreadsheetImport(null);
+  };
 
-  const chartData = (report.matrixData?.rows || [])
-    .map(row => ({ label: row[0], value: parseFloat(row[1]) || 0 }))
-    .filter(d => d.label && !isNaN(d.value));
+  const chartModel = useMemo(() => buildChartModel({ chartType }, report.matrixData), [chartType, report.matrixData]);
 
   const renderChart = () => {
-    if (!report.matrixData || chartData.length === 0) return null;
-    switch(chartType) {
-        case 'line': return <LineChart data={chartData} title="データチャート" />;
-        case 'pie': return <PieChart data={chartData} title="データチャート" />;
-        case 'bar':
-        default:
-            return <BarChart data={chartData} title="データチャート" />;
-    }
+    if (!chartModel) return null;
+    return <div className="h-56 border rounded-md p-1 bg-white"><ChartView model={chartModel} title="データチャート" /></div>;
   }
 
   return (
@@ -230,21 +127,15 @@ const ActionItemReportModal: React.FC<ActionItemReportModalProps> = ({ actionIte
             <div>
                 <h4 className="text-sm font-semibold text-slate-700 flex justify-between items-center mb-2">
                     添付ファイル
-                    <button onClick={() => attachmentInputRef.current?.click()} className="p-1 hover:bg-slate-200 rounded-full"><PaperClipIcon className="w-5 h-5"/></button>
+                    <button onClick={() => attachmentInputRef.current?.click()} disabled={isUploadingAttachment} className="p-1 hover:bg-slate-200 rounded-full disabled:opacity-50" title={isUploadingAttachment ? 'アップロード中...' : 'ファイルを添付'}><PaperClipIcon className="w-5 h-5"/></button>
                     <input type="file" ref={attachmentInputRef} onChange={handleAttachmentChange} className="hidden" multiple={false} />
                 </h4>
                 <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 max-h-48 overflow-y-auto border p-2 rounded-md bg-slate-50">
                     {(report.attachments || []).map(att => (
                         <div key={att.id} className="relative group border rounded-md overflow-hidden bg-white shadow-sm h-24">
-                            <a href={att.dataUrl} download={att.name} className="block w-full h-full" aria-label={`Download ${att.name}`}>
-                                {att.type.startsWith('image/') ? (
-                                    <img src={att.dataUrl} alt={att.name} className="w-full h-full object-cover"/>
-                                ) : (
-                                    <div className="w-full h-full bg-slate-100 flex flex-col items-center justify-center p-2 hover:bg-slate-200">
-                                      <PaperClipIcon className="w-8 h-8 text-slate-500"/>
-                                    </div>
-                                )}
-                            </a>
+                            <button onClick={() => downloadAttachment(att)} className="block w-full h-full hover:opacity-90" aria-label={`Download ${att.name}`}>
+                                <AttachmentThumbnail attachment={att} />
+                            </button>
                             <div className="absolute bottom-0 w-full bg-black bg-opacity-60 p-1 pointer-events-none">
                                <p className="text-white text-[10px] truncate" title={att.name}>{att.name}</p>
                             </div>
@@ -255,6 +146,7 @@ const ActionItemReportModal: React.FC<ActionItemReportModalProps> = ({ actionIte
                     ))}
                 </div>
             </div>
+            <TimeEntryPanel projectId={projectId} actionItemId={actionItem.id} estimatedHours={actionItem.estimatedHours} />
           </div>
           <div className="space-y-4">
               <h4 className="text-sm font-semibold text-slate-700 flex justify-between items-center">
@@ -264,11 +156,11 @@ const ActionItemReportModal: React.FC<ActionItemReportModalProps> = ({ actionIte
                         <UploadIcon className="w-5 h-5 text-green-600"/>
                       </button>
                       <input type="file" ref={excelInputRef} onChange={handleExcelImport} className="hidden" accept=".xlsx, .xls, .csv"/>
-                      {report.matrixData && chartData.length > 0 && 
+                      {report.matrixData && report.matrixData.rows.length > 0 && 
                         <div className="flex items-center gap-1 rounded-full bg-slate-200 p-0.5">
-                            <button onClick={() => setChartType('bar')} className={`px-2 py-0.5 rounded-full text-xs ${chartType === 'bar' ? 'bg-white shadow-sm text-blue-600' : 'text-slate-600'}`}>Bar</button>
-                            <button onClick={() => setChartType('line')} className={`px-2 py-0.5 rounded-full text-xs ${chartType === 'line' ? 'bg-white shadow-sm text-blue-600' : 'text-slate-600'}`}>Line</button>
-                            <button onClick={() => setChartType('pie')} className={`px-2 py-0.5 rounded-full text-xs ${chartType === 'pie' ? 'bg-white shadow-sm text-blue-600' : 'text-slate-600'}`}>Pie</button>
+                            {PREVIEW_CHART_TYPES.map(({ type, label }) => (
+                                <button key={type} onClick={() => setChartType(type)} className={`px-2 py-0.5 rounded-full text-xs ${chartType === type ? 'bg-white shadow-sm text-blue-600' : 'text-slate-600'}`}>{label}</button>
+                            ))}
                         </div>
                       }
                       <button onClick={() => updateReport({ matrixData: report.matrixData ? null : {headers: ['項目', '値'], rows: [['', '']]}})} 
@@ -287,6 +179,14 @@ const ActionItemReportModal: React.FC<ActionItemReportModalProps> = ({ actionIte
           <button onClick={handleSave} className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md shadow-sm hover:bg-blue-700">保存して閉じる</button>
         </footer>
       </div>
+      {spreadsheetImport && (
+        <SpreadsheetImportModal
+          fileName={spreadsheetImport.fileName}
+          sheets={spreadsheetImport.sheets}
+          onImport={handleSpreadsheetImported}
+          onClose={() => setSpreadsheetImport(null)}
+        />
+      )}
     </div>
   );
 };
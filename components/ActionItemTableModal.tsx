@@ -1,6 +1,9 @@
 import React, { useState, useMemo } from 'react';
 import { ActionItem, SubStep } from '../types';
 import { XIcon, SortAscIcon, SortDescIcon, CheckSquareIcon, SquareIcon, PaperClipIcon } from './icons';
+import { downloadAttachment } from './AttachmentPreview';
+import ResponsibleSelect from './ResponsibleSelect';
+import { ProjectMember } from '../services/projectCollaborationService';
 
 interface FlattenedItem {
   actionItem: ActionItem;
@@ -12,12 +15,13 @@ interface ActionItemTableModalProps {
   taskName: string;
   onClose: () => void;
   onUpdateActionItem: (subStepId: string, actionItemId: string, updates: Partial<ActionItem>) => void;
+  members?: ProjectMember[];
 }
 
 type SortKeys = 'status' | 'text' | 'subStep' | 'dueDate' | 'responsible' | 'completedDate';
 type SortDirection = 'ascending' | 'descending';
 
-const ActionItemTableModal: React.FC<ActionItemTableModalProps> = ({ items, taskName, onClose, onUpdateActionItem }) => {
+const ActionItemTableModal: React.FC<ActionItemTableModalProps> = ({ items, taskName, onClose, onUpdateActionItem, members = [] }) => {
   const [sortConfig, setSortConfig] = useState<{ key: SortKeys; direction: SortDirection } | null>(null);
   const [editingField, setEditingField] = useState<{ itemId: string; field: string } | null>(null);
 
@@ -197,17 +201,14 @@ const ActionItemTableModal: React.FC<ActionItemTableModalProps> = ({ items, task
                     {actionItem.report && Array.isArray(actionItem.report.attachments) && actionItem.report.attachments.length > 0 && (
                         <div className="mt-2 pt-2 border-t border-slate-200 space-y-1">
                             {actionItem.report.attachments.map(att => (
-                                <a 
+                                <button 
                                     key={att.id} 
-                                    href={att.dataUrl} 
-                                    target="_blank" 
-                                    rel="noopener noreferrer"
-                                    download={att.name}
+                                    onClick={() => downloadAttachment(att)}
                                     className="flex items-center gap-1.5 text-xs text-blue-600 hover:underline"
                                 >
                                     <PaperClipIcon className="w-3.5 h-3.5" />
                                     <span>{att.name}</span>
-                                </a>
+                                </button>
                             ))}
                         </div>
                     )}
@@ -215,14 +216,25 @@ const ActionItemTableModal: React.FC<ActionItemTableModalProps> = ({ items, task
                   </td>
                   {!onlyOneSubStep && <td className="p-2 border border-slate-300 align-top">{subStep.text}</td>}
                   <td className="p-2 border border-slate-300 align-top">
-                    <EditableField
-                      value={actionItem.responsible || ''}
-                      itemId={actionItem.id}
-                      field="responsible"
-                      subStepId={subStep.id}
-                      actionItemId={actionItem.id}
-                      placeholder="担当者を入力"
-                    />
+                    {members.length > 0 ? (
+                      <ResponsibleSelect
+                        responsible={actionItem.responsible}
+                        responsibleUserId={actionItem.responsibleUserId}
+                        members={members}
+                        onChange={(change) => onUpdateActionItem(subStep.id, actionItem.id, change)}
+                        className="px-1 py-0.5 text-xs border border-slate-300 rounded"
+                        placeholder="担当者を入力"
+                      />
+                    ) : (
+                      <EditableField
+                        value={actionItem.responsible || ''}
+                        itemId={actionItem.id}
+                        field="responsible"
+                        subStepId={subStep.id}
+                        actionItemId={actionItem.id}
+                        placeholder="担当者を入力"
+                      />
+                    )}
                   </td>
                   <td className="p-2 border border-slate-300 align-top">
                     <EditableField
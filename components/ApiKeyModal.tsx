@@ -1,20 +1,40 @@
-
 import React, { useState } from 'react';
 import { KeyIcon, SparklesIcon } from './icons';
 import LoadingSpinner from './LoadingSpinner';
+import { LLM_PROVIDERS, LlmProviderId, LlmSettings, getLlmProviderInfo } from '../services/llmProvider';
 
 interface ApiKeyModalProps {
-  onSetApiKey: (key: string) => void;
+  onSaveSettings: (settings: LlmSettings) => void;
+  initialSettings?: LlmSettings | null;
   error?: string | null;
   isLoading?: boolean;
 }
 
-const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ onSetApiKey, error, isLoading }) => {
+const inputClassName = "w-full px-4 py-3 bg-slate-100 border border-slate-300 rounded-lg shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition duration-150 ease-in-out text-base text-slate-800 placeholder-slate-400";
+
+const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ onSaveSettings, initialSettings, error, isLoading }) => {
+  const [provider, setProvider] = useState<LlmProviderId>(initialSettings?.provider ?? 'gemini');
+  const [model, setModel] = useState(initialSettings?.model ?? getLlmProviderInfo(provider).defaultModel);
+  const [baseUrl, setBaseUrl] = useState(initialSettings?.baseUrl ?? '');
   const [key, setKey] = useState('');
 
+  const providerInfo = getLlmProviderInfo(provider);
+  const canSubmit = !providerInfo.requiresApiKey || !!key.trim();
+
+  const handleProviderChange = (next: LlmProviderId) => {
+    setProvider(next);
+    setModel(getLlmProviderInfo(next).defaultModel);
+    setBaseUrl('');
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSetApiKey(key);
+    onSaveSettings({
+      provider,
+      model: model.trim() || providerInfo.defaultModel,
+      apiKey: providerInfo.requiresApiKey ? key.trim() : undefined,
+      baseUrl: providerInfo.defaultBaseUrl ? baseUrl.trim() || undefined : undefined,
+    });
   };
 
   return (
@@ -23,50 +43,98 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ onSetApiKey, error, isLoading
         <div className="text-center mb-8">
           <SparklesIcon className="w-12 h-12 mx-auto text-blue-600 mb-4" />
           <h1 className="text-3xl font-bold text-slate-800">AI Project Planner</h1>
-          <p className="text-slate-600 mt-2">始めるには、Google Gemini APIキーを入力してください。</p>
+          <p className="text-slate-600 mt-2">始めるには、使用するAIプロバイダーとモデルを選択してください。</p>
         </div>
-        
+
         <form onSubmit={handleSubmit} className="space-y-6">
           <div>
-            <label htmlFor="apiKey" className="block text-sm font-semibold text-slate-700 mb-2 flex items-center">
-              <KeyIcon className="w-5 h-5 mr-2 text-slate-500" />
-              Gemini API Key
-            </label>
+            <label htmlFor="llmProvider" className="block text-sm font-semibold text-slate-700 mb-2">AIプロバイダー</label>
+            <select
+              id="llmProvider"
+              value={provider}
+              onChange={(e) => handleProviderChange(e.target.value as LlmProviderId)}
+              className={inputClassName}
+            >
+              {LLM_PROVIDERS.map(info => (
+                <option key={info.id} value={info.id}>{info.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="llmModel" className="block text-sm font-semibold text-slate-700 mb-2">モデル</label>
             <input
-              id="apiKey"
-              type="password"
-              value={key}
-              onChange={(e) => setKey(e.target.value)}
-              placeholder="APIキーをここに貼り付け"
-              className="w-full px-4 py-3 bg-slate-100 border border-slate-300 rounded-lg shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition duration-150 ease-in-out text-base text-slate-800 placeholder-slate-400"
+              id="llmModel"
+              type="text"
+              list="llmModelSuggestions"
+              value={model}
+              onChange={(e) => setModel(e.target.value)}
+              placeholder={providerInfo.defaultModel}
+              className={inputClassName}
             />
+            <datalist id="llmModelSuggestions">
+              {providerInfo.suggestedModels.map(name => <option key={name} value={name} />)}
+            </datalist>
           </div>
-          
+
+          {providerInfo.defaultBaseUrl && (
+            <div>
+              <label htmlFor="llmBaseUrl" className="block text-sm font-semibold text-slate-700 mb-2">エンドポイント URL</label>
+              <input
+                id="llmBaseUrl"
+                type="url"
+                value={baseUrl}
+                onChange={(e) => setBaseUrl(e.target.value)}
+                placeholder={providerInfo.defaultBaseUrl}
+                className={inputClassName}
+              />
+            </div>
+          )}
+
+          {providerInfo.requiresApiKey && (
+            <div>
+              <label htmlFor="apiKey" className="block text-sm font-semibold text-slate-700 mb-2 flex items-center">
+                <KeyIcon className="w-5 h-5 mr-2 text-slate-500" />
+                {providerInfo.label} API Key
+              </label>
+              <input
+                id="apiKey"
+                type="password"
+                value={key}
+                onChange={(e) => setKey(e.target.value)}
+                placeholder="APIキーをここに貼り付け"
+                className={inputClassName}
+              />
+            </div>
+          )}
+
           {error && <p className="text-sm text-red-600 bg-red-100 p-3 rounded-md">{error}</p>}
-          
+
           <button
             type="submit"
-            disabled={isLoading || !key}
+            disabled={isLoading || !canSubmit}
             className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400 text-white font-semibold py-3 px-4 rounded-lg shadow-md hover:shadow-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition duration-150 ease-in-out flex items-center justify-center"
           >
             {isLoading ? <LoadingSpinner size="sm" /> : '保存して開始'}
           </button>
         </form>
          <div className="text-center mt-6">
-            <a 
-                href="https://aistudio.google.com/app/apikey" 
-                target="_blank" 
-                rel="noopener noreferrer"
-                className="text-sm text-blue-600 hover:underline"
-            >
-                APIキーの取得はこちら
-            </a>
-            <p className="text-xs text-slate-400 mt-2">APIキーはセッション中のみブラウザに保存されます。</p>
+            {provider === 'gemini' && (
+              <a
+                  href="https://aistudio.google.com/app/apikey"
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-sm text-blue-600 hover:underline"
+              >
+                  APIキーの取得はこちら
+              </a>
+            )}
+            <p className="text-xs text-slate-400 mt-2">プロバイダーとモデルはこのワークスペース（ブラウザ）に保存され、APIキーはセッション中のみ保存されます。</p>
         </div>
       </div>
       <footer className="mt-8 text-center">
         <p className="text-slate-400 text-sm">
-          Powered by Gemini API
+          Powered by {providerInfo.label}
         </p>
       </footer>
     </div>
@@ -0,0 +1,97 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Attachment } from '../types';
+import { AttachmentService, AttachmentVariant } from '../services/attachmentStorage';
+import { PaperClipIcon } from './icons';
+import LoadingSpinner from './LoadingSpinner';
+
+// 添付ファイルの URL を取得する。enabled が true になるまでは取得しない
+export const useAttachmentUrl = (attachment: Attachment | undefined, variant: AttachmentVariant, enabled: boolean = true) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    if (!attachment || !enabled) return;
+    let cancelled = false;
+    setError(false);
+    AttachmentService.getUrl(attachment, variant)
+      .then(result => { if (!cancelled) setUrl(result); })
+      .catch(err => {
+        console.error(err);
+        if (!cancelled) setError(true);
+      });
+    return () => { cancelled = true; };
+  }, [attachment?.id, attachment?.storageKey, attachment?.dataUrl, variant, enabled]);
+
+  return { url, error };
+};
+
+// ファイル本体を取得してダウンロードする
+export const downloadAttachment = async (attachment: Attachment) => {
+  try {
+    const url = await AttachmentService.getUrl(attachment, 'full');
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = attachment.name;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+  } catch (error) {
+    console.error(error);
+    alert('添付ファイルの取得に失敗しました。');
+  }
+};
+
+interface AttachmentThumbnailProps {
+  attachment: Attachment;
+  className?: string;
+}
+
+// 画面内に表示されたときにサムネイルを読み込む
+export const AttachmentThumbnail: React.FC<AttachmentThumbnailProps> = ({ attachment, className = '' }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  const isImage = attachment.type.startsWith('image/');
+  const { url, error } = useAttachmentUrl(attachment, 'thumbnail', isImage && isVisible);
+
+  useEffect(() => {
+    if (!isImage || !containerRef.current) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        setIsVisible(true);
+        observer.disconnect();
+      }
+    }, { rootMargin: '100px' });
+    observer.observe(containerRef.current);
+    return () => observer.disconnect();
+  }, [isImage]);
+
+  return (
+    <div ref={containerRef} className={`w-full h-full flex items-center justify-center bg-slate-100 ${className}`}>
+      {isImage && url && !error ? (
+        <img src={url} alt={attachment.name} className="w-full h-full object-cover" />
+      ) : isImage && isVisible && !error ? (
+        <LoadingSpinner size="sm" />
+      ) : (
+        <PaperClipIcon className="w-8 h-8 text-slate-500" />
+      )}
+    </div>
+  );
+};
+
+interface AttachmentImageProps {
+  attachment: Attachment;
+  className?: string;
+}
+
+// 画像の原寸ファイルを読み込んで表示する（スライド上の画像など）
+export const AttachmentImage: React.FC<AttachmentImageProps> = ({ attachment, className = '' }) => {
+  const { url, error } = useAttachmentUrl(attachment, 'full');
+
+  if (error) {
+    return <div className="w-full h-full bg-slate-200 flex items-center justify-center text-xs text-slate-500">画像を読み込めません</div>;
+  }
+  if (!url) {
+    return <div className="w-full h-full flex items-center justify-center"><LoadingSpinner size="sm" /></div>;
+  }
+  return <img src={url} className={className} alt={attachment.name} />;
+};
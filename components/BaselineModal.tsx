@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { ProjectBaseline, ScheduleVarianceSummary } from '../types';
+import { XIcon, TrashIcon } from './icons';
+import LoadingSpinner from './LoadingSpinner';
+import ScheduleVarianceReport from './ScheduleVarianceReport';
+
+interface BaselineModalProps {
+  baselines: ProjectBaseline[];
+  selectedBaselineId: string | null;
+  variance: ScheduleVarianceSummary | null;
+  canSave: boolean; // プロジェクトが保存済みの場合のみベースラインを保存できる
+  isSaving: boolean;
+  error?: string | null;
+  onSelect: (baselineId: string | null) => void;
+  onCreate: (name: string) => Promise<void>;
+  onDelete: (baselineId: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const BaselineModal: React.FC<BaselineModalProps> = ({
+  baselines, selectedBaselineId, variance, canSave, isSaving, error, onSelect, onCreate, onDelete, onClose,
+}) => {
+  const [name, setName] = useState('');
+
+  const handleCreate = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    await onCreate(trimmed);
+    setName('');
+  };
+
+  const handleDelete = async (baseline: ProjectBaseline) => {
+    if (!confirm(`ベースライン「${baseline.name}」を削除しますか？`)) return;
+    await onDelete(baseline.id);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 backdrop-blur-sm flex items-center justify-center p-4 z-[90]">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <header className="flex items-center justify-between p-5 border-b border-slate-200">
+          <h3 className="text-xl font-bold text-slate-800">ベースラインと差異</h3>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-100" title="閉じる"><XIcon className="w-6 h-6 text-slate-500" /></button>
+        </header>
+
+        <div className="flex-grow overflow-y-auto grid grid-cols-1 md:grid-cols-[280px_1fr]">
+          <aside className="p-5 border-b md:border-b-0 md:border-r border-slate-200 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">現在の計画を保存</label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={name}
+                  onChange={e => setName(e.target.value)}
+                  onKeyDown={e => { if (e.key === 'Enter') handleCreate(); }}
+                  placeholder="例: キックオフ承認版"
+                  disabled={!canSave || isSaving}
+                  className="flex-grow min-w-0 p-2 border border-slate-300 rounded-md text-sm"
+                />
+                <button
+                  onClick={handleCreate}
+                  disabled={!canSave || isSaving || !name.trim()}
+                  className="px-3 py-2 text-sm font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-slate-400"
+                >
+                  {isSaving ? <LoadingSpinner size="sm" color="border-white" /> : '保存'}
+                </button>
+              </div>
+              {!canSave && <p className="text-xs text-slate-500 mt-1">ベースラインを保存するには、先にプロジェクトを保存してください。</p>}
+              {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+            </div>
+
+            <div>
+              <p className="text-sm font-medium text-slate-700 mb-2">比較するベースライン</p>
+              {baselines.length === 0 ? (
+                <p className="text-sm text-slate-500">保存されたベースラインはありません。</p>
+              ) : (
+                <ul className="space-y-2">
+                  <li>
+                    <label className="flex items-center text-sm text-slate-600 cursor-pointer">
+                      <input type="radio" checked={selectedBaselineId === null} onChange={() => onSelect(null)} className="mr-2" />
+                      比較しない
+                    </label>
+                  </li>
+                  {[...baselines].reverse().map(baseline => (
+                    <li key={baseline.id} className={`flex items-center justify-between p-2 rounded-md border ${selectedBaselineId === baseline.id ? 'border-blue-500 bg-blue-50' : 'border-slate-200'}`}>
+                      <label className="flex items-center min-w-0 cursor-pointer">
+                        <input type="radio" checked={selectedBaselineId === baseline.id} onChange={() => onSelect(baseline.id)} className="mr-2 flex-shrink-0" />
+                        <span className="min-w-0">
+                          <span className="block text-sm font-semibold text-slate-800 truncate" title={baseline.name}>{baseline.name}</span>
+                          <span className="block text-[11px] text-slate-500">{new Date(baseline.createdAt).toLocaleString('ja-JP')}</span>
+                        </span>
+                      </label>
+                      <button onClick={() => handleDelete(baseline)} className="p-1 text-slate-400 hover:text-red-600" title="削除">
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </aside>
+
+          <section className="p-5">
+            {variance ? (
+              <>
+                <h4 className="text-lg font-semibold text-slate-700 mb-3">「{variance.baselineName}」との差異</h4>
+                <ScheduleVarianceReport variance={variance} />
+              </>
+            ) : (
+              <p className="text-sm text-slate-500">比較するベースラインを選択すると、遅延している項目と完了予定日の推移を表示します。</p>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BaselineModal;
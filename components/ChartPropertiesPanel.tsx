@@ -0,0 +1,173 @@
+import React from 'react';
+import { ChartAxisOptions, ChartElement, ChartLegendPosition, ChartSeries, ChartSeriesType, ChartType, MatrixData, NumericalTarget } from '../types';
+import {
+  CHART_LEGEND_POSITION_LABELS, CHART_SERIES_TYPE_LABELS, CHART_TYPE_LABELS, formatChartValue, getDefaultSeriesColumns,
+} from '../services/chartModel';
+import { SLIDE_THEMES } from '../services/slideDeckContent';
+
+interface ChartPropertiesPanelProps {
+  element: ChartElement;
+  matrixData: MatrixData | null | undefined;
+  numericalTarget?: NumericalTarget;
+  palette?: string[];
+  onChange: (updates: Partial<ChartElement>) => void;
+}
+
+const inputClass = 'w-full bg-slate-700 border border-slate-600 rounded px-2 py-1 text-xs text-white outline-none focus:border-blue-400';
+const labelClass = 'block text-[11px] text-slate-400 mb-1';
+
+const parseBound = (value: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return value.trim() === '' || isNaN(parsed) ? undefined : parsed;
+};
+
+const AxisFields: React.FC<{ label: string; axis: ChartAxisOptions | undefined; showBounds: boolean; onChange: (axis: ChartAxisOptions) => void }> = ({ label, axis, showBounds, onChange }) => {
+  const update = (updates: Partial<ChartAxisOptions>) => onChange({ ...axis, ...updates });
+  return (
+    <fieldset className="space-y-2">
+      <legend className="text-xs font-semibold text-slate-300 mb-1">{label}</legend>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className={labelClass}>タイトル</label>
+          <input type="text" value={axis?.title ?? ''} onChange={e => update({ title: e.target.value || undefined })} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>単位</label>
+          <input type="text" value={axis?.unit ?? ''} onChange={e => update({ unit: e.target.value || undefined })} className={inputClass} placeholder="例: %, 件" />
+        </div>
+        {showBounds && (
+          <>
+            <div>
+              <label className={labelClass}>最小値</label>
+              <input type="number" value={axis?.min ?? ''} onChange={e => update({ min: parseBound(e.target.value) })} className={inputClass} placeholder="自動" />
+            </div>
+            <div>
+              <label className={labelClass}>最大値</label>
+              <input type="number" value={axis?.max ?? ''} onChange={e => update({ max: parseBound(e.target.value) })} className={inputClass} placeholder="自動" />
+            </div>
+          </>
+        )}
+      </div>
+    </fieldset>
+  );
+};
+
+// スライドエディタのプロパティ欄に出すグラフの設定
+const ChartPropertiesPanel: React.FC<ChartPropertiesPanelProps> = ({ element, matrixData, numericalTarget, palette = SLIDE_THEMES.light.chartColors, onChange }) => {
+  if (!matrixData || matrixData.headers.length === 0) {
+    return <p className="text-xs text-slate-400">参照しているデータ・マトリクスが見つかりません。</p>;
+  }
+
+  const chartType = element.chartType;
+  const categoryColumn = Math.min(element.categoryColumn ?? 0, matrixData.headers.length - 1);
+  const series: ChartSeries[] = element.series?.length
+    ? element.series
+    : getDefaultSeriesColumns(matrixData, categoryColumn).map(column => ({ column }));
+  const canGroup = chartType === 'bar' || chartType === 'area' || chartType === 'combo';
+  const isPie = chartType === 'pie';
+
+  const updateSeries = (next: ChartSeries[]) => onChange({ series: next });
+  const toggleSeries = (column: number) => {
+    const exists = series.some(s => s.column === column);
+    updateSeries(exists ? series.filter(s => s.column !== column) : [...series, { column }].sort((a, b) => a.column - b.column));
+  };
+  const updateOneSeries = (column: number, updates: Partial<ChartSeries>) =>
+    updateSeries(series.map(s => s.column === column ? { ...s, ...updates } : s));
+  const handleCategoryChange = (column: number) =>
+    onChange({ categoryColumn: column, series: series.filter(s => s.column !== column) });
+
+  return (
+    <div className="space-y-4 text-xs">
+      <div>
+        <label className={labelClass}>グラフのタイトル</label>
+        <input type="text" value={element.title} onChange={e => onChange({ title: e.target.value })} className={inputClass} />
+      </div>
+      <div>
+        <label className={labelClass}>グラフの種類</label>
+        <select value={chartType} onChange={e => onChange({ chartType: e.target.value as ChartType })} className={inputClass}>
+          {(Object.keys(CHART_TYPE_LABELS) as ChartType[]).map(type => <option key={type} value={type}>{CHART_TYPE_LABELS[type]}</option>)}
+        </select>
+      </div>
+      <div>
+        <label className={labelClass}>{chartType === 'scatter' ? 'X 値の列' : 'ラベルの列'}</label>
+        <select value={categoryColumn} onChange={e => handleCategoryChange(Number(e.target.value))} className={inputClass}>
+          {matrixData.headers.map((header, index) => <option key={index} value={index}>{header || `列 ${index + 1}`}</option>)}
+        </select>
+      </div>
+
+      <fieldset>
+        <legend className="text-xs font-semibold text-slate-300 mb-1">{isPie ? '値の列（最初の1列）' : '系列'}</legend>
+        <div className="space-y-1">
+          {matrixData.headers.map((header, column) => {
+            if (column === categoryColumn) return null;
+            const current = series.find(s => s.column === column);
+            const seriesIndex = current ? series.indexOf(current) : -1;
+            return (
+              <div key={column} className="flex items-center gap-2">
+                <label className="flex items-center gap-1.5 flex-grow min-w-0 cursor-pointer">
+                  <input type="checkbox" checked={!!current} onChange={() => toggleSeries(column)} />
+                  <span className="truncate">{header || `列 ${column + 1}`}</span>
+                </label>
+                {current && chartType === 'combo' && (
+                  <select value={current.seriesType ?? 'bar'} onChange={e => updateOneSeries(column, { seriesType: e.target.value as ChartSeriesType })} className="bg-slate-700 border border-slate-600 rounded px-1 py-0.5 text-[11px]">
+                    {(Object.keys(CHART_SERIES_TYPE_LABELS) as ChartSeriesType[]).map(type => <option key={type} value={type}>{CHART_SERIES_TYPE_LABELS[type]}</option>)}
+                  </select>
+                )}
+                {current && !isPie && (
+                  <input
+                    type="color"
+                    value={`#${current.color ?? palette[seriesIndex % palette.length]}`}
+                    onChange={e => updateOneSeries(column, { color: e.target.value.slice(1).toUpperCase() })}
+                    className="w-5 h-5 p-0 border-0 bg-transparent cursor-pointer"
+                    title="系列の色"
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </fieldset>
+
+      {canGroup && (
+        <div>
+          <label className={labelClass}>複数系列の表示</label>
+          <select value={element.grouping ?? 'grouped'} onChange={e => onChange({ grouping: e.target.value as ChartElement['grouping'] })} className={inputClass}>
+            <option value="grouped">並べる</option>
+            <option value="stacked">積み上げる</option>
+          </select>
+        </div>
+      )}
+
+      {!isPie && (
+        <>
+          <AxisFields label="縦軸" axis={element.yAxis} showBounds onChange={yAxis => onChange({ yAxis })} />
+          <AxisFields label="横軸" axis={element.xAxis} showBounds={chartType === 'scatter'} onChange={xAxis => onChange({ xAxis })} />
+        </>
+      )}
+
+      <div>
+        <label className={labelClass}>凡例</label>
+        <select value={element.legendPosition ?? ''} onChange={e => onChange({ legendPosition: (e.target.value || undefined) as ChartLegendPosition | undefined })} className={inputClass}>
+          <option value="">自動</option>
+          {(Object.keys(CHART_LEGEND_POSITION_LABELS) as ChartLegendPosition[]).map(position => <option key={position} value={position}>{CHART_LEGEND_POSITION_LABELS[position]}</option>)}
+        </select>
+      </div>
+
+      {!isPie && (
+        <div>
+          <label className={`flex items-center gap-1.5 ${numericalTarget ? 'cursor-pointer' : 'text-slate-500'}`}>
+            <input type="checkbox" checked={!!element.showTargetLine} disabled={!numericalTarget} onChange={e => onChange({ showTargetLine: e.target.checked })} />
+            目標値の線を表示
+          </label>
+          <p className="text-[11px] text-slate-400 mt-1">
+            {numericalTarget
+              ? `タスクの数値目標: ${typeof numericalTarget.targetValue === 'number' ? formatChartValue(numericalTarget.targetValue, numericalTarget.unit) : `${numericalTarget.targetValue}${numericalTarget.unit}`}`
+              : 'このデータのタスクには数値目標が設定されていません。'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChartPropertiesPanel;
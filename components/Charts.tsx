@@ -0,0 +1,290 @@
+import React, { useId } from 'react';
+import { ChartAxisOptions, ChartLegendPosition } from '../types';
+import { ChartModel, ChartScale, formatChartValue, getChartLegendItems, getChartSeriesColor } from '../services/chartModel';
+import { SLIDE_THEMES } from '../services/slideDeckContent';
+
+// --- Chart Rendering Components ---
+// すべて SVG の viewBox 内の座標で描き、要素の大きさに合わせて拡大縮小する
+
+interface ChartProps {
+  model: ChartModel;
+  title?: string;
+  xAxis?: ChartAxisOptions;
+  yAxis?: ChartAxisOptions;
+  palette?: string[]; // '#' を除いた16進数
+}
+
+interface Box { x: number; y: number; w: number; h: number; }
+
+const WIDTH = 300;
+const HEIGHT = 170;
+const FONT_SIZE = 7;
+const TITLE_HEIGHT = 16;
+const LEGEND_ROW_HEIGHT = 11;
+const LEGEND_RIGHT_WIDTH = 80;
+const TEXT_COLOR = '#333';
+const MUTED_COLOR = '#666';
+const GRID_COLOR = '#e2e8f0';
+const TARGET_COLOR = '#dc2626';
+
+// 全角文字は文字サイズ、半角文字はその 0.6 倍の幅として見積もる
+const estimateWidth = (text: string, size = FONT_SIZE) =>
+  Array.from(text).reduce((width, char) => width + (char.charCodeAt(0) > 0xff ? size : size * 0.6), 0);
+
+const truncate = (text: string, maxWidth: number, size = FONT_SIZE) => {
+  if (estimateWidth(text, size) <= maxWidth) return text;
+  let result = '';
+  for (const char of Array.from(text)) {
+    if (estimateWidth(`${result}${char}…`, size) > maxWidth) break;
+    result += char;
+  }
+  return `${result}…`;
+};
+
+const toY = (scale: ChartScale, box: Box, value: number) => box.y + box.h - ((value - scale.min) / (scale.max - scale.min || 1)) * box.h;
+const toX = (scale: ChartScale, box: Box, value: number) => box.x + ((value - scale.min) / (scale.max - scale.min || 1)) * box.w;
+
+const EmptyChart: React.FC<{ message: string }> = ({ message }) => (
+  <div className="flex items-center justify-center w-full h-full text-xs text-slate-500 bg-white">{message}</div>
+);
+
+const ChartTitle: React.FC<{ title?: string }> = ({ title }) =>
+  title ? <text x={WIDTH / 2} y={TITLE_HEIGHT - 5} textAnchor="middle" fontSize="10" fontWeight="bold" fill={TEXT_COLOR}>{truncate(title, WIDTH - 20, 10)}</text> : null;
+
+// 凡例を配置し、グラフ本体に使える領域を返す
+const layoutLegend = (model: ChartModel, palette: string[], area: Box): { plotArea: Box; legend: React.ReactNode } => {
+  const items = getChartLegendItems(model, palette);
+  const position: ChartLegendPosition = items.length === 0 ? 'none' : model.legendPosition;
+  if (position === 'none') return { plotArea: area, legend: null };
+
+  if (position === 'right') {
+    const maxRows = Math.max(1, Math.floor(area.h / LEGEND_ROW_HEIGHT));
+    const shown = items.slice(0, maxRows);
+    const top = area.y + (area.h - shown.length * LEGEND_ROW_HEIGHT) / 2;
+    return {
+      plotArea: { ...area, w: area.w - LEGEND_RIGHT_WIDTH },
+      legend: shown.map((item, index) => (
+        <g key={index} transform={`translate(${area.x + area.w - LEGEND_RIGHT_WIDTH + 6}, ${top + index * LEGEND_ROW_HEIGHT})`}>
+          <rect width="6" height="6" y="1" fill={`#${item.color}`} />
+          <text x="9" y="6.5" fontSize={FONT_SIZE} fill={TEXT_COLOR}>{truncate(item.label, LEGEND_RIGHT_WIDTH - 16)}</text>
+        </g>
+      )),
+    };
+  }
+
+  const itemWidths = items.map(item => Math.min(estimateWidth(item.label), 90) + 16);
+  const totalWidth = itemWidths.reduce((sum, width) => sum + width, 0);
+  let x = area.x + Math.max(0, (area.w - totalWidth) / 2);
+  const y = position === 'top' ? area.y : area.y + area.h - LEGEND_ROW_HEIGHT + 2;
+  const legend = items.map((item, index) => {
+    const itemX = x;
+    x += itemWidths[index];
+    if (itemX + itemWidths[index] > area.x + area.w + 1) return null;
+    return (
+      <g key={index} transform={`translate(${itemX}, ${y})`}>
+        <rect width="6" height="6" y="1" fill={`#${item.color}`} />
+        <text x="9" y="6.5" fontSize={FONT_SIZE} fill={TEXT_COLOR}>{truncate(item.label, 90)}</text>
+      </g>
+    );
+  });
+  return {
+    plotArea: position === 'top' ? { ...area, y: area.y + LEGEND_ROW_HEIGHT, h: area.h - LEGEND_ROW_HEIGHT } : { ...area, h: area.h - LEGEND_ROW_HEIGHT },
+    legend,
+  };
+};
+
+// 軸タイトルと目盛りラベルの分だけ内側に縮めた描画領域
+const getPlotBox = (area: Box, scale: ChartScale, yAxis: ChartAxisOptions | undefined, xAxis: ChartAxisOptions | undefined): Box => {
+  const tickWidth = Math.max(...scale.ticks.map(tick => estimateWidth(formatChartValue(tick, yAxis?.unit)))) + 4;
+  const left = (yAxis?.title ? 10 : 0) + tickWidth;
+  const bottom = FONT_SIZE + 5 + (xAxis?.title ? 10 : 0);
+  return { x: area.x + left, y: area.y + 4, w: area.w - left - 6, h: area.h - bottom - 4 };
+};
+
+const AxisTitles: React.FC<{ area: Box; plot: Box; xAxis?: ChartAxisOptions; yAxis?: ChartAxisOptions }> = ({ area, plot, xAxis, yAxis }) => (
+  <>
+    {yAxis?.title && (
+      <text transform={`translate(${area.x + 6}, ${plot.y + plot.h / 2}) rotate(-90)`} textAnchor="middle" fontSize={FONT_SIZE} fill={MUTED_COLOR}>{truncate(yAxis.title, plot.h)}</text>
+    )}
+    {xAxis?.title && (
+      <text x={plot.x + plot.w / 2} y={area.y + area.h - 1} textAnchor="middle" fontSize={FONT_SIZE} fill={MUTED_COLOR}>{truncate(xAxis.title, plot.w)}</text>
+    )}
+  </>
+);
+
+const ValueGrid: React.FC<{ scale: ChartScale; plot: Box; unit?: string }> = ({ scale, plot, unit }) => (
+  <>
+    {scale.ticks.map(tick => {
+      const y = toY(scale, plot, tick);
+      return (
+        <g key={tick}>
+          <line x1={plot.x} y1={y} x2={plot.x + plot.w} y2={y} stroke={tick === 0 ? '#94a3b8' : GRID_COLOR} strokeWidth="0.5" />
+          <text x={plot.x - 3} y={y + 2.5} textAnchor="end" fontSize={FONT_SIZE} fill={MUTED_COLOR}>{formatChartValue(tick, unit)}</text>
+        </g>
+      );
+    })}
+    <line x1={plot.x} y1={plot.y} x2={plot.x} y2={plot.y + plot.h} stroke="#94a3b8" strokeWidth="0.5" />
+  </>
+);
+
+const TargetLine: React.FC<{ model: ChartModel; plot: Box }> = ({ model, plot }) => {
+  if (!model.target || model.target.value < model.valueScale.min || model.target.value > model.valueScale.max) return null;
+  const y = toY(model.valueScale, plot, model.target.value);
+  return (
+    <g>
+      <line x1={plot.x} y1={y} x2={plot.x + plot.w} y2={y} stroke={TARGET_COLOR} strokeWidth="1" strokeDasharray="4 2" />
+      <text x={plot.x + plot.w - 2} y={y - 2} textAnchor="end" fontSize={FONT_SIZE} fill={TARGET_COLOR}>{model.target.label}</text>
+    </g>
+  );
+};
+
+const ChartFrame: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-full bg-white">{children}</svg>
+);
+
+export const PieChart: React.FC<ChartProps> = ({ model, title, palette = SLIDE_THEMES.light.chartColors }) => {
+  const values = model.series[0]?.values.map(value => Math.max(0, value ?? 0)) ?? [];
+  const total = values.reduce((sum, value) => sum + value, 0);
+  const area = { x: 4, y: title ? TITLE_HEIGHT : 4, w: WIDTH - 8, h: HEIGHT - (title ? TITLE_HEIGHT : 4) - 4 };
+  const { plotArea, legend } = layoutLegend(model, palette, area);
+  if (total === 0) return <EmptyChart message="表示できるデータがありません" />;
+
+  const radius = Math.max(4, Math.min(plotArea.w, plotArea.h) / 2 - 4);
+  const cx = plotArea.x + plotArea.w / 2;
+  const cy = plotArea.y + plotArea.h / 2;
+  let angle = -Math.PI / 2;
+  const slices = values.map((value, index) => {
+    const share = value / total;
+    const start = angle;
+    angle += share * Math.PI * 2;
+    return { share, start, end: angle, color: `#${getChartSeriesColor(model, index, palette)}` };
+  });
+
+  return (
+    <ChartFrame>
+      <ChartTitle title={title} />
+      {slices.map((slice, index) => {
+        if (slice.share <= 0) return null;
+        if (slice.share >= 1) return <circle key={index} cx={cx} cy={cy} r={radius} fill={slice.color} />;
+        const largeArc = slice.share > 0.5 ? 1 : 0;
+        const path = `M ${cx} ${cy} L ${cx + radius * Math.cos(slice.start)} ${cy + radius * Math.sin(slice.start)} ` +
+          `A ${radius} ${radius} 0 ${largeArc} 1 ${cx + radius * Math.cos(slice.end)} ${cy + radius * Math.sin(slice.end)} Z`;
+        return <path key={index} d={path} fill={slice.color}><title>{`${model.categories[index]}: ${formatChartValue(values[index])} (${(slice.share * 100).toFixed(1)}%)`}</title></path>;
+      })}
+      {legend}
+    </ChartFrame>
+  );
+};
+
+// 棒・折れ線・面と、それらを組み合わせた複合グラフ
+export const CartesianChart: React.FC<ChartProps> = ({ model, title, xAxis, yAxis, palette = SLIDE_THEMES.light.chartColors }) => {
+  const clipId = useId();
+  const area = { x: 4, y: title ? TITLE_HEIGHT : 4, w: WIDTH - 8, h: HEIGHT - (title ? TITLE_HEIGHT : 4) - 4 };
+  const { plotArea, legend } = layoutLegend(model, palette, area);
+  const scale = model.valueScale;
+  const plot = getPlotBox(plotArea, scale, yAxis, xAxis);
+  const slot = plot.w / model.categories.length;
+  const barSeries = model.series.map((s, index) => ({ s, index })).filter(({ s }) => s.type === 'bar');
+  const barWidth = slot * 0.7 / (model.stacked ? 1 : Math.max(1, barSeries.length));
+  const labelStep = Math.max(1, Math.ceil(model.categories.length / Math.max(1, Math.floor(plot.w / 24))));
+  const center = (index: number) => plot.x + slot * index + slot / 2;
+  const colorOf = (index: number) => `#${getChartSeriesColor(model, index, palette)}`;
+
+  // 値の無い点で線を切る
+  const segments = (values: (number | null)[], bases: number[]) => {
+    const result: { x: number; top: number; base: number }[][] = [[]];
+    values.forEach((value, index) => {
+      if (value === null) {
+        result.push([]);
+        return;
+      }
+      result[result.length - 1].push({ x: center(index), top: toY(scale, plot, bases[index] + value), base: toY(scale, plot, bases[index]) });
+    });
+    return result.filter(points => points.length > 0);
+  };
+
+  return (
+    <ChartFrame>
+      <ChartTitle title={title} />
+      <defs><clipPath id={clipId}><rect x={plot.x} y={plot.y} width={plot.w} height={plot.h} /></clipPath></defs>
+      <ValueGrid scale={scale} plot={plot} unit={yAxis?.unit} />
+      {model.categories.map((label, index) => index % labelStep === 0 && (
+        <text key={index} x={center(index)} y={plot.y + plot.h + FONT_SIZE + 2} textAnchor="middle" fontSize={FONT_SIZE} fill={MUTED_COLOR}>
+          {truncate(`${label}${xAxis?.unit ?? ''}`, slot * labelStep - 2)}
+        </text>
+      ))}
+      <g clipPath={`url(#${clipId})`}>
+        {model.series.map((s, index) => s.type === 'area' && segments(s.values, s.bases).map((points, segment) => (
+          <polygon
+            key={`${index}-${segment}`}
+            points={[...points.map(p => `${p.x},${p.top}`), ...points.slice().reverse().map(p => `${p.x},${p.base}`)].join(' ')}
+            fill={colorOf(index)} fillOpacity="0.45" stroke={colorOf(index)} strokeWidth="1"
+          />
+        )))}
+        {barSeries.map(({ s, index }, barIndex) => s.values.map((value, category) => {
+          if (value === null) return null;
+          const top = toY(scale, plot, s.bases[category] + value);
+          const base = toY(scale, plot, s.bases[category]);
+          const x = plot.x + slot * category + slot * 0.15 + (model.stacked ? 0 : barIndex * barWidth);
+          return (
+            <rect key={`${index}-${category}`} x={x} y={Math.min(top, base)} width={barWidth} height={Math.abs(base - top)} fill={colorOf(index)}>
+              <title>{`${s.name} / ${model.categories[category]}: ${formatChartValue(value, yAxis?.unit)}`}</title>
+            </rect>
+          );
+        }))}
+        {model.series.map((s, index) => s.type === 'line' && segments(s.values, s.bases).map((points, segment) => (
+          <g key={`${index}-${segment}`}>
+            <polyline fill="none" stroke={colorOf(index)} strokeWidth="1.5" points={points.map(p => `${p.x},${p.top}`).join(' ')} />
+            {points.map((p, point) => <circle key={point} cx={p.x} cy={p.top} r="2" fill={colorOf(index)} />)}
+          </g>
+        )))}
+      </g>
+      <TargetLine model={model} plot={plot} />
+      <AxisTitles area={plotArea} plot={plot} xAxis={xAxis} yAxis={yAxis} />
+      {legend}
+    </ChartFrame>
+  );
+};
+
+export const ScatterChart: React.FC<ChartProps> = ({ model, title, xAxis, yAxis, palette = SLIDE_THEMES.light.chartColors }) => {
+  const area = { x: 4, y: title ? TITLE_HEIGHT : 4, w: WIDTH - 8, h: HEIGHT - (title ? TITLE_HEIGHT : 4) - 4 };
+  const { plotArea, legend } = layoutLegend(model, palette, area);
+  const xValues = model.xValues;
+  const xScale = model.xScale;
+  if (!xValues || !xScale) return <EmptyChart message="表示できるデータがありません" />;
+  const plot = getPlotBox(plotArea, model.valueScale, yAxis, xAxis);
+
+  return (
+    <ChartFrame>
+      <ChartTitle title={title} />
+      <ValueGrid scale={model.valueScale} plot={plot} unit={yAxis?.unit} />
+      <line x1={plot.x} y1={plot.y + plot.h} x2={plot.x + plot.w} y2={plot.y + plot.h} stroke="#94a3b8" strokeWidth="0.5" />
+      {xScale.ticks.map(tick => (
+        <text key={tick} x={toX(xScale, plot, tick)} y={plot.y + plot.h + FONT_SIZE + 2} textAnchor="middle" fontSize={FONT_SIZE} fill={MUTED_COLOR}>{formatChartValue(tick, xAxis?.unit)}</text>
+      ))}
+      {model.series.map((s, index) => s.values.map((value, point) => {
+        if (value === null || xValues[point] < xScale.min || xValues[point] > xScale.max || value < model.valueScale.min || value > model.valueScale.max) return null;
+        return (
+          <circle key={`${index}-${point}`} cx={toX(xScale, plot, xValues[point])} cy={toY(model.valueScale, plot, value)} r="2.5" fill={`#${getChartSeriesColor(model, index, palette)}`} fillOpacity="0.8">
+            <title>{`${s.name}: (${formatChartValue(xValues[point], xAxis?.unit)}, ${formatChartValue(value, yAxis?.unit)})`}</title>
+          </circle>
+        );
+      }))}
+      <TargetLine model={model} plot={plot} />
+      <AxisTitles area={plotArea} plot={plot} xAxis={xAxis} yAxis={yAxis} />
+      {legend}
+    </ChartFrame>
+  );
+};
+
+/**
+ * Renders a chart model with the component for its chart type.
+ */
+export const ChartView: React.FC<ChartProps> = (props) => {
+  switch (props.model.chartType) {
+    case 'pie': return <PieChart {...props} />;
+    case 'scatter': return <ScatterChart {...props} />;
+    default: return <CartesianChart {...props} />;
+  }
+};
+// --- End Chart Components ---
@@ -0,0 +1,282 @@
+import React, { useState, useRef, useMemo } from 'react';
+import { CommentTarget, ProjectComment } from '../types';
+import { ProjectMember } from '../services/projectCollaborationService';
+import { CommentService } from '../services/commentService';
+import {
+  CommentThread, COMMENT_TARGET_LABELS, MentionCandidate,
+  buildThreads, parseMentions, splitMentions, findMentionQuery, insertMention,
+} from '../services/commentThreads';
+import { XIcon, TrashIcon, CheckIcon, ChatBubbleIcon } from './icons';
+import ErrorMessage from './ErrorMessage';
+
+interface CommentThreadModalProps {
+  projectId: string | null;
+  target: CommentTarget;
+  comments: ProjectComment[];
+  members: ProjectMember[];
+  currentUserId: string | null;
+  onCommentsChange: (update: (prev: ProjectComment[]) => ProjectComment[]) => void;
+  onClose: () => void;
+}
+
+const formatPostedAt = (iso: string): string => {
+  const date = new Date(iso);
+  return `${date.getMonth() + 1}/${date.getDate()} ${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+};
+
+interface CommentComposerProps {
+  members: MentionCandidate[];
+  placeholder: string;
+  submitLabel: string;
+  disabled: boolean;
+  autoFocus?: boolean;
+  onSubmit: (body: string) => Promise<boolean>;
+  onCancel?: () => void;
+}
+
+// コメントの入力欄。「@」に続けて入力するとメンバーの候補を表示する
+const CommentComposer: React.FC<CommentComposerProps> = ({ members, placeholder, submitLabel, disabled, autoFocus, onSubmit, onCancel }) => {
+  const [body, setBody] = useState('');
+  const [mention, setMention] = useState<{ start: number; query: string } | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const candidates = useMemo(() => {
+    if (!mention) return [];
+    const query = mention.query.toLowerCase();
+    return members.filter(member => member.userName?.toLowerCase().startsWith(query)).slice(0, 6);
+  }, [mention, members]);
+
+  const updateMention = (text: string, caret: number) => {
+    setMention(findMentionQuery(text, caret));
+    setHighlighted(0);
+  };
+
+  const chooseCandidate = (member: MentionCandidate) => {
+    const textarea = textareaRef.current;
+    if (!mention || !textarea || !member.userName) return;
+    const next = insertMention(body, mention.start, textarea.selectionStart, member.userName);
+    setBody(next.text);
+    setMention(null);
+    // 挿入したメンションの直後にカーソルを移動
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(next.caret, next.caret);
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!body.trim()) return;
+    if (await onSubmit(body.trim())) {
+      setBody('');
+      setMention(null);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (candidates.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        setHighlighted(prev => (prev + (e.key === 'ArrowDown' ? 1 : candidates.length - 1)) % candidates.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        chooseCandidate(candidates[highlighted]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.stopPropagation();
+        setMention(null);
+        return;
+      }
+    }
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      handleSubmit();
+    }
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        value={body}
+        onChange={e => { setBody(e.target.value); updateMention(e.target.value, e.target.selectionStart); }}
+        onKeyDown={handleKeyDown}
+        onClick={e => updateMention(body, e.currentTarget.selectionStart)}
+        onBlur={() => setMention(null)}
+        rows={2}
+        autoFocus={autoFocus}
+        className="w-full px-2 py-1 text-sm border border-slate-300 rounded-md resize-y"
+        placeholder={placeholder}
+      />
+      {candidates.length > 0 && (
+        <ul className="absolute left-0 bottom-full mb-1 w-56 bg-white border border-slate-200 rounded-md shadow-lg z-10 text-sm">
+          {candidates.map((member, index) => (
+            <li key={member.userId}>
+              <button
+                // 入力欄のフォーカスを外さずに選択する
+                onMouseDown={e => { e.preventDefault(); chooseCandidate(member); }}
+                className={`w-full text-left px-3 py-1.5 ${index === highlighted ? 'bg-blue-50 text-blue-700' : 'hover:bg-slate-50'}`}
+              >
+                @{member.userName}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex justify-end gap-2 mt-1">
+        {onCancel && <button onClick={onCancel} className="px-3 py-1 text-xs font-semibold text-slate-700 bg-white border border-slate-300 rounded-md hover:bg-slate-50">キャンセル</button>}
+        <button onClick={handleSubmit} disabled={disabled || !body.trim()} className="px-3 py-1 text-xs font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-slate-400">{submitLabel}</button>
+      </div>
+    </div>
+  );
+};
+
+// タスク・サブステップ・アクションアイテム・決定事項・スライドのコメントスレッド。
+// 投稿はその場で保存し、ほかのメンバーにはリアルタイムで届く
+const CommentThreadModal: React.FC<CommentThreadModalProps> = ({ projectId, target, comments, members, currentUserId, onCommentsChange, onClose }) => {
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [showResolved, setShowResolved] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const threads = useMemo(() => buildThreads(comments, { type: target.type, id: target.id }), [comments, target.type, target.id]);
+  const resolvedCount = threads.filter(thread => thread.root.resolved).length;
+  const visibleThreads = showResolved ? threads : threads.filter(thread => !thread.root.resolved);
+
+  const run = async (action: () => Promise<void>): Promise<boolean> => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'コメントの保存に失敗しました');
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handlePost = (body: string, parentId?: string) => run(async () => {
+    if (!projectId) return;
+    const comment = await CommentService.addComment(projectId, target, { body, mentions: parseMentions(body, members), parentId });
+    // リアルタイム配信で先に届いている場合は重複させない
+    onCommentsChange(prev => (prev.some(existing => existing.id === comment.id) ? prev : [...prev, comment]));
+    setReplyingTo(null);
+  });
+
+  const handleToggleResolved = (thread: CommentThread) => run(async () => {
+    const updated = await CommentService.setResolved(thread.root.id, !thread.root.resolved);
+    onCommentsChange(prev => prev.map(comment => (comment.id === updated.id ? updated : comment)));
+  });
+
+  const handleDelete = (comment: ProjectComment) => {
+    const message = comment.parentId ? 'このコメントを削除しますか？' : 'このスレッドを削除しますか？返信もすべて削除されます。';
+    if (!window.confirm(message)) return;
+    return run(async () => {
+      await CommentService.deleteComment(comment.id);
+      onCommentsChange(prev => prev.filter(existing => existing.id !== comment.id && existing.parentId !== comment.id));
+    });
+  };
+
+  const renderBody = (body: string) => splitMentions(body, members).map((part, index) => (part.userId
+    ? <span key={index} className={`px-0.5 rounded ${part.userId === currentUserId ? 'bg-amber-100 text-amber-800 font-semibold' : 'bg-blue-50 text-blue-700'}`}>{part.text}</span>
+    : <React.Fragment key={index}>{part.text}</React.Fragment>));
+
+  const renderComment = (comment: ProjectComment) => (
+    <div className="group">
+      <div className="flex items-center gap-2 text-xs">
+        <span className="font-semibold text-slate-700">{comment.userName}</span>
+        <span className="text-slate-400">{formatPostedAt(comment.createdAt)}</span>
+        {comment.userId === currentUserId && (
+          <button onClick={() => handleDelete(comment)} disabled={isBusy} className="ml-auto p-0.5 text-slate-400 hover:text-red-500 opacity-0 group-hover:opacity-100" title="削除">
+            <TrashIcon className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-slate-800 whitespace-pre-wrap break-words mt-0.5">{renderBody(comment.body)}</p>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-[110]" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-2xl w-full max-w-xl max-h-[85vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <header className="flex-shrink-0 flex items-start justify-between gap-2 p-4 border-b border-slate-200">
+          <div className="min-w-0">
+            <p className="text-xs text-slate-500">{COMMENT_TARGET_LABELS[target.type]}へのコメント</p>
+            <h3 className="text-lg font-bold text-slate-800 truncate" title={target.label}>{target.label || '（無題）'}</h3>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-full hover:bg-slate-100">
+            <XIcon className="w-5 h-5 text-slate-500" />
+          </button>
+        </header>
+
+        {!projectId ? (
+          <p className="m-4 text-sm text-slate-500 bg-slate-50 border border-slate-200 rounded-md p-3">プロジェクトを保存すると、コメントできます。</p>
+        ) : (
+          <>
+            <main className="flex-grow overflow-y-auto p-4 space-y-3">
+              {error && <ErrorMessage message={error} />}
+              {visibleThreads.length === 0 && (
+                <div className="text-center text-sm text-slate-400 py-8">
+                  <ChatBubbleIcon className="w-8 h-8 mx-auto mb-2" />
+                  {threads.length === 0 ? 'まだコメントはありません。' : '未解決のスレッドはありません。'}
+                </div>
+              )}
+              {visibleThreads.map(thread => (
+                <div key={thread.root.id} className={`border rounded-md p-3 ${thread.root.resolved ? 'bg-slate-50 border-slate-200' : 'bg-white border-slate-300'}`}>
+                  {renderComment(thread.root)}
+                  {thread.replies.length > 0 && (
+                    <div className="mt-2 ml-3 pl-3 border-l-2 border-slate-200 space-y-2">
+                      {thread.replies.map(reply => <React.Fragment key={reply.id}>{renderComment(reply)}</React.Fragment>)}
+                    </div>
+                  )}
+                  {replyingTo === thread.root.id ? (
+                    <div className="mt-2 ml-3">
+                      <CommentComposer
+                        members={members}
+                        placeholder="返信（@でメンバーをメンション）"
+                        submitLabel="返信"
+                        disabled={isBusy}
+                        autoFocus
+                        onSubmit={body => handlePost(body, thread.root.id)}
+                        onCancel={() => setReplyingTo(null)}
+                      />
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-3 mt-2 text-xs">
+                      {!thread.root.resolved && <button onClick={() => setReplyingTo(thread.root.id)} className="font-semibold text-blue-600 hover:underline">返信</button>}
+                      <button onClick={() => handleToggleResolved(thread)} disabled={isBusy} className="flex items-center gap-1 font-semibold text-slate-600 hover:underline disabled:opacity-50">
+                        {thread.root.resolved ? '未解決に戻す' : <><CheckIcon className="w-3.5 h-3.5" />解決済みにする</>}
+                      </button>
+                      {thread.root.resolved && <span className="ml-auto text-green-700">解決済み{thread.root.resolvedAt && `（${formatPostedAt(thread.root.resolvedAt)}）`}</span>}
+                    </div>
+                  )}
+                </div>
+              ))}
+              {resolvedCount > 0 && (
+                <button onClick={() => setShowResolved(prev => !prev)} className="text-xs text-slate-500 hover:underline">
+                  {showResolved ? '解決済みのスレッドを隠す' : `解決済みのスレッドを表示（${resolvedCount}）`}
+                </button>
+              )}
+            </main>
+            <footer className="flex-shrink-0 p-4 border-t border-slate-200">
+              <CommentComposer
+                members={members}
+                placeholder="コメントを入力（@でメンバーをメンション、Ctrl+Enterで投稿）"
+                submitLabel="投稿"
+                disabled={isBusy}
+                onSubmit={body => handlePost(body)}
+              />
+            </footer>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CommentThreadModal;
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { MergeConflict, MergeSide } from '../services/projectMerge';
+import { XIcon, ExclamationTriangleIcon } from './icons';
+
+interface ConflictResolutionModalProps {
+  conflicts: MergeConflict[];
+  onResolve: (resolutions: Record<string, MergeSide>) => void;
+  onDiscardLocal: () => void;
+  onClose: () => void;
+}
+
+const entityTypeLabels: Record<MergeConflict['entityType'], string> = {
+  task: 'タスク',
+  subStep: 'サブステップ',
+  actionItem: 'アクションアイテム',
+};
+
+const fieldLabels: Record<string, string> = {
+  '*': '削除 / 変更',
+  title: 'タイトル',
+  description: '説明',
+  status: 'ステータス',
+  text: '内容',
+  notes: 'メモ',
+  responsible: '担当者',
+  responsibleUserId: '担当メンバー',
+  dueDate: '期日',
+  completed: '完了',
+  completedDate: '完了日',
+  position: '位置',
+  nextTaskIds: '接続',
+  nextSubStepIds: '接続',
+  report: 'レポート',
+  resources: 'リソース',
+  numericalTarget: '数値目標',
+  decisions: '決定事項',
+  costLines: '予算・コスト',
+  attachments: '添付ファイル',
+  reportDeck: 'レポート',
+  resourceMatrix: 'リソース表',
+  estimatedDays: '工数見積もり',
+  estimatedHours: '作業時間の見積もり',
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null) return '（削除）';
+  if (typeof value === 'string') return value || '（空）';
+  const json = JSON.stringify(value);
+  return json.length > 200 ? `${json.substring(0, 200)}...` : json;
+};
+
+const ConflictResolutionModal: React.FC<ConflictResolutionModalProps> = ({ conflicts, onResolve, onDiscardLocal, onClose }) => {
+  const [resolutions, setResolutions] = useState<Record<string, MergeSide>>(() => {
+    const initial: Record<string, MergeSide> = {};
+    conflicts.forEach(conflict => { initial[conflict.id] = 'local'; });
+    return initial;
+  });
+
+  const setAll = (side: MergeSide) => {
+    const next: Record<string, MergeSide> = {};
+    conflicts.forEach(conflict => { next[conflict.id] = side; });
+    setResolutions(next);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 backdrop-blur-sm flex items-center justify-center p-4 z-[70]">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <header className="flex items-center justify-between p-5 border-b border-slate-200">
+          <h3 className="text-xl font-bold text-slate-800 flex items-center">
+            <ExclamationTriangleIcon className="w-6 h-6 mr-2 text-yellow-500" />
+            保存の競合
+          </h3>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-100" title="閉じる"><XIcon className="w-6 h-6 text-slate-500" /></button>
+        </header>
+
+        <div className="flex-grow p-5 overflow-y-auto space-y-4">
+          <p className="text-sm text-slate-600">
+            編集中に他のメンバーがこのプロジェクトを保存しました。重ならない変更は自動的に統合されます。
+            {conflicts.length > 0
+              ? `以下の ${conflicts.length} 件は両方で変更されているため、残す内容を選択してください。`
+              : '競合する変更はありません。'}
+          </p>
+          {conflicts.length > 0 && (
+            <div className="flex gap-2">
+              <button onClick={() => setAll('local')} className="px-3 py-1 text-xs font-medium text-slate-700 bg-white border border-slate-300 rounded-md hover:bg-slate-50">すべて自分の変更</button>
+              <button onClick={() => setAll('remote')} className="px-3 py-1 text-xs font-medium text-slate-700 bg-white border border-slate-300 rounded-md hover:bg-slate-50">すべてサーバーの変更</button>
+            </div>
+          )}
+          {conflicts.map(conflict => (
+            <div key={conflict.id} className="p-4 border border-slate-200 rounded-lg bg-slate-50">
+              <p className="text-sm font-semibold text-slate-800">
+                <span className="text-xs font-medium text-slate-500 mr-2">{entityTypeLabels[conflict.entityType]}</span>
+                {conflict.label}
+                <span className="text-xs font-medium text-slate-500 ml-2">({fieldLabels[conflict.field] || conflict.field})</span>
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mt-3">
+                {(['local', 'remote'] as MergeSide[]).map(side => (
+                  <label
+                    key={side}
+                    className={`block p-3 rounded-md border cursor-pointer ${resolutions[conflict.id] === side ? 'border-blue-500 bg-blue-50' : 'border-slate-300 bg-white'}`}
+                  >
+                    <input
+                      type="radio"
+                      name={conflict.id}
+                      className="mr-2"
+                      checked={resolutions[conflict.id] === side}
+                      onChange={() => setResolutions(prev => ({ ...prev, [conflict.id]: side }))}
+                    />
+                    <span className="text-xs font-semibold text-slate-600">{side === 'local' ? '自分の変更' : 'サーバーの変更'}</span>
+                    <p className="text-sm text-slate-700 mt-1 break-all whitespace-pre-wrap">{formatValue(side === 'local' ? conflict.local : conflict.remote)}</p>
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <footer className="p-4 bg-slate-50 border-t border-slate-200 flex flex-col sm:flex-row justify-end gap-3 rounded-b-xl">
+          <button
+            onClick={onDiscardLocal}
+            className="px-4 py-2 text-sm font-medium text-red-700 bg-red-100 rounded-md hover:bg-red-200"
+          >
+            自分の変更を破棄
+          </button>
+          <button
+            onClick={() => onResolve(resolutions)}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+          >
+            統合して保存
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default ConflictResolutionModal;
@@ -0,0 +1,239 @@
+import React, { useState, useMemo } from 'react';
+import { GanttItem, ProjectTask, CostApprovalStatus } from '../types';
+import {
+  EarnedValuePoint, COST_CATEGORY_LABELS, COST_LINE_KIND_LABELS, DEFAULT_CURRENCY,
+  computeEarnedValue, collectCostLines, getCostCurrencies, formatCost,
+} from '../services/costTracking';
+import { localToday } from '../services/dateUtils';
+import { XIcon, CheckIcon } from './icons';
+
+interface CostDashboardModalProps {
+  tasks: ProjectTask[];
+  items: GanttItem[]; // scheduleProject の結果
+  canApprove: boolean; // 所有者・管理者のみ承認・却下できる
+  onUpdateApproval: (taskId: string, costLineId: string, status: CostApprovalStatus) => void;
+  onClose: () => void;
+}
+
+const CURVE_WIDTH = 640;
+const CURVE_HEIGHT = 180;
+const CURVE_PADDING = 32;
+
+const formatIndex = (value: number | null) => (value === null ? '—' : value.toFixed(2));
+
+// 1.0 を下回る（予算超過・遅れ）指数は赤で示す
+const indexClass = (value: number | null) => (value === null ? 'text-slate-400' : value < 1 ? 'text-red-700' : 'text-green-700');
+
+const varianceClass = (value: number) => (value < 0 ? 'text-red-700' : 'text-slate-800');
+
+// 出来高計画（PV）と実コスト（AC）の累計の推移。基準日の出来高（EV）は点で示す
+const CostCurveChart: React.FC<{ curve: EarnedValuePoint[]; ev: number; statusDate: string }> = ({ curve, ev, statusDate }) => {
+  if (curve.length < 2) return null;
+
+  const max = Math.max(...curve.map(point => Math.max(point.pv, point.ac ?? 0)), ev) || 1;
+  const x = (index: number) => CURVE_PADDING + (index * (CURVE_WIDTH - CURVE_PADDING * 2)) / (curve.length - 1);
+  const y = (value: number) => CURVE_PADDING / 2 + ((max - value) * (CURVE_HEIGHT - CURVE_PADDING * 1.5)) / max;
+  const pvPoints = curve.map((point, index) => `${x(index)},${y(point.pv)}`).join(' ');
+  const acPoints = curve.flatMap((point, index) => (point.ac === null ? [] : [`${x(index)},${y(point.ac)}`])).join(' ');
+  // 基準日の位置（曲線の点の間は線形に補間）
+  const statusIndex = (() => {
+    const next = curve.findIndex(point => point.date >= statusDate);
+    if (next <= 0) return next === 0 ? 0 : curve.length - 1;
+    const from = Date.parse(curve[next - 1].date);
+    const to = Date.parse(curve[next].date);
+    return next - 1 + (Date.parse(statusDate) - from) / (to - from);
+  })();
+  const labelEvery = Math.ceil(curve.length / 8);
+
+  return (
+    <svg viewBox={`0 0 ${CURVE_WIDTH} ${CURVE_HEIGHT}`} className="w-full h-auto bg-slate-50 rounded-md border border-slate-200">
+      <line x1={CURVE_PADDING} x2={CURVE_WIDTH - CURVE_PADDING} y1={y(0)} y2={y(0)} stroke="#CBD5E1" />
+      <line x1={x(statusIndex)} x2={x(statusIndex)} y1={CURVE_PADDING / 2} y2={y(0)} stroke="#94A3B8" strokeDasharray="4 3" />
+      <polyline points={pvPoints} fill="none" stroke="#2563EB" strokeWidth={2} />
+      {acPoints && <polyline points={acPoints} fill="none" stroke="#DC2626" strokeWidth={2} />}
+      <circle cx={x(statusIndex)} cy={y(ev)} r={5} fill="#16A34A"><title>{`出来高（EV）: ${ev.toLocaleString('ja-JP')}`}</title></circle>
+      {curve.map((point, index) => index % labelEvery === 0 || index === curve.length - 1 ? (
+        <text key={point.date} x={x(index)} y={CURVE_HEIGHT - 6} textAnchor="middle" fontSize={10} fill="#64748B">{point.date.slice(5)}</text>
+      ) : null)}
+    </svg>
+  );
+};
+
+// プロジェクト全体の予算と実コスト、アーンドバリューの指標
+const CostDashboardModal: React.FC<CostDashboardModalProps> = ({ tasks, items, canApprove, onUpdateApproval, onClose }) => {
+  const currencies = useMemo(() => getCostCurrencies(tasks), [tasks]);
+  const [selectedCurrency, setSelectedCurrency] = useState<string | null>(null);
+  const [statusDate, setStatusDate] = useState(localToday);
+  const currency = selectedCurrency && currencies.includes(selectedCurrency) ? selectedCurrency : currencies[0] ?? DEFAULT_CURRENCY;
+
+  const summary = useMemo(() => computeEarnedValue(tasks, items, { currency, statusDate }), [tasks, items, currency, statusDate]);
+  const pendingLines = useMemo(() => collectCostLines(tasks).filter(({ line }) => line.approvalStatus === 'pending'), [tasks]);
+  const { project } = summary;
+  const money = (amount: number | null) => (amount === null ? '—' : formatCost(amount, currency));
+
+  const cards: { label: string; value: string; className?: string; note: string }[] = [
+    { label: '完成時総予算（BAC）', value: money(project.bac), note: '計画コストの合計' },
+    { label: '出来高計画（PV）', value: money(project.pv), note: '基準日までに消化する予定のコスト' },
+    { label: '出来高（EV）', value: money(project.ev), note: '完了した作業に相当するコスト' },
+    { label: '実コスト（AC）', value: money(project.ac), note: '基準日までの実績' },
+    { label: 'コスト効率（CPI）', value: formatIndex(project.cpi), className: indexClass(project.cpi), note: 'EV ÷ AC。1未満は予算超過' },
+    { label: 'スケジュール効率（SPI）', value: formatIndex(project.spi), className: indexClass(project.spi), note: 'EV ÷ PV。1未満は遅れ' },
+    { label: 'コスト差異（CV）', value: money(project.cv), className: varianceClass(project.cv), note: 'EV − AC' },
+    { label: '完成時総コスト見積もり（EAC）', value: money(project.eac), className: project.vac !== null && project.vac < 0 ? 'text-red-700' : undefined, note: 'BAC ÷ CPI' },
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 backdrop-blur-sm flex items-center justify-center p-4 z-[90]">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-6xl max-h-[90vh] flex flex-col">
+        <header className="flex items-center justify-between p-5 border-b border-slate-200">
+          <h3 className="text-xl font-bold text-slate-800">予算・コスト</h3>
+          <div className="flex items-center gap-3">
+            <label className="text-sm text-slate-600 flex items-center gap-1">
+              基準日
+              <input type="date" value={statusDate} onChange={e => e.target.value && setStatusDate(e.target.value)} className="px-2 py-1 border border-slate-300 rounded-md text-sm" />
+            </label>
+            {currencies.length > 1 && (
+              <select value={currency} onChange={e => setSelectedCurrency(e.target.value)} className="px-2 py-1 border border-slate-300 rounded-md text-sm" title="集計する通貨">
+                {currencies.map(code => <option key={code} value={code}>{code}</option>)}
+              </select>
+            )}
+            <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-100" title="閉じる"><XIcon className="w-6 h-6 text-slate-500" /></button>
+          </div>
+        </header>
+
+        <div className="flex-grow overflow-y-auto p-5 space-y-5">
+          <p className="text-xs text-slate-500">
+            計画コストはガントチャートの日程に沿って均等に消化する前提で出来高計画（PV）を求め、完了状況から求めた進捗率で出来高（EV）を計算します。
+            却下されたコストは含みません。{currencies.length > 1 ? `${currency} 以外の通貨のコストは、通貨を切り替えて確認してください。` : ''}
+          </p>
+
+          {currencies.length === 0 ? (
+            <p className="text-center text-slate-500 py-8">コストが登録されていません。タスク詳細の「予算・コストの管理」から計画コストと実コストを登録してください。</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {cards.map(card => (
+                  <div key={card.label} className="p-3 rounded-lg bg-slate-50" title={card.note}>
+                    <p className="text-xs text-slate-500">{card.label}</p>
+                    <p className={`text-xl font-bold tabular-nums ${card.className ?? 'text-slate-800'}`}>{card.value}</p>
+                    <p className="text-[11px] text-slate-400">{card.note}</p>
+                  </div>
+                ))}
+              </div>
+
+              {summary.awaitingApprovalCount > 0 && (
+                <p className="text-xs text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-md px-3 py-2">
+                  未承認（下書き・承認待ち）のコストが {summary.awaitingApprovalCount}件あります。集計には含めています。
+                </p>
+              )}
+
+              {summary.curve.length >= 2 && (
+                <section>
+                  <h4 className="text-sm font-semibold text-slate-700 mb-2 flex items-center gap-4">
+                    コストの推移（累計）
+                    <span className="flex items-center gap-3 text-xs font-normal text-slate-500">
+                      <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-blue-600 inline-block" />出来高計画（PV）</span>
+                      <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-red-600 inline-block" />実コスト（AC）</span>
+                      <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-green-600 inline-block" />出来高（EV）</span>
+                    </span>
+                  </h4>
+                  <CostCurveChart curve={summary.curve} ev={project.ev} statusDate={statusDate} />
+                </section>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <section className="border border-slate-200 rounded-lg md:col-span-2 overflow-x-auto">
+                  <h4 className="text-sm font-semibold text-slate-700 px-3 py-2 border-b border-slate-200">タスク別</h4>
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-slate-500 bg-slate-50">
+                        <th className="text-left font-semibold px-3 py-1.5">タスク</th>
+                        <th className="text-right font-semibold px-2 py-1.5">予算</th>
+                        <th className="text-right font-semibold px-2 py-1.5">PV</th>
+                        <th className="text-right font-semibold px-2 py-1.5">EV</th>
+                        <th className="text-right font-semibold px-2 py-1.5">AC</th>
+                        <th className="text-right font-semibold px-2 py-1.5">CPI</th>
+                        <th className="text-right font-semibold px-2 py-1.5">SPI</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {summary.tasks.map(task => (
+                        <tr key={task.taskId}>
+                          <td className="px-3 py-1.5 text-slate-800 max-w-[14rem] truncate" title={task.title}>{task.title}</td>
+                          <td className="px-2 py-1.5 text-right tabular-nums">{money(task.bac)}</td>
+                          <td className="px-2 py-1.5 text-right tabular-nums">{money(task.pv)}</td>
+                          <td className="px-2 py-1.5 text-right tabular-nums">{money(task.ev)}</td>
+                          <td className={`px-2 py-1.5 text-right tabular-nums ${task.ac > task.bac ? 'text-red-700 font-semibold' : ''}`}>{money(task.ac)}</td>
+                          <td className={`px-2 py-1.5 text-right tabular-nums ${indexClass(task.cpi)}`}>{formatIndex(task.cpi)}</td>
+                          <td className={`px-2 py-1.5 text-right tabular-nums ${indexClass(task.spi)}`}>{formatIndex(task.spi)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </section>
+
+                <section className="border border-slate-200 rounded-lg">
+                  <h4 className="text-sm font-semibold text-slate-700 px-3 py-2 border-b border-slate-200">区分別</h4>
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-slate-500 bg-slate-50">
+                        <th className="text-left font-semibold px-3 py-1.5">区分</th>
+                        <th className="text-right font-semibold px-2 py-1.5">計画</th>
+                        <th className="text-right font-semibold px-3 py-1.5">実績</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {summary.categories.map(total => (
+                        <tr key={total.category}>
+                          <td className="px-3 py-1.5 text-slate-800">{COST_CATEGORY_LABELS[total.category]}</td>
+                          <td className="px-2 py-1.5 text-right tabular-nums">{money(total.planned)}</td>
+                          <td className={`px-3 py-1.5 text-right tabular-nums ${total.actual > total.planned ? 'text-red-700 font-semibold' : ''}`}>{money(total.actual)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </section>
+              </div>
+            </>
+          )}
+
+          <section className="border border-slate-200 rounded-lg">
+            <h4 className="text-sm font-semibold text-slate-700 px-3 py-2 border-b border-slate-200">承認待ちのコスト（{pendingLines.length}件）</h4>
+            {pendingLines.length === 0 ? (
+              <p className="text-xs text-slate-400 p-3">承認待ちのコストはありません。</p>
+            ) : (
+              <ul className="divide-y divide-slate-100 max-h-64 overflow-y-auto">
+                {pendingLines.map(({ line, taskId, taskTitle, subStepText }) => (
+                  <li key={line.id} className="px-3 py-2 text-xs flex items-center gap-3">
+                    <div className="min-w-0 flex-grow">
+                      <p className="text-slate-800 truncate">
+                        <span className="font-semibold">{formatCost(line.amount, line.currency)}</span>
+                        （{COST_LINE_KIND_LABELS[line.kind]}・{COST_CATEGORY_LABELS[line.category]}）{line.description}
+                      </p>
+                      <p className="text-slate-500 truncate">{taskTitle}{subStepText ? ` › ${subStepText}` : ''}{line.date ? `・${line.date}` : ''}</p>
+                    </div>
+                    {canApprove && (
+                      <div className="flex items-center gap-1 flex-shrink-0">
+                        <button onClick={() => onUpdateApproval(taskId, line.id, 'approved')} className="flex items-center gap-1 px-3 py-1 text-xs font-semibold text-white bg-green-600 rounded-md hover:bg-green-700">
+                          <CheckIcon className="w-3 h-3" />承認
+                        </button>
+                        <button onClick={() => onUpdateApproval(taskId, line.id, 'rejected')} className="px-3 py-1 text-xs font-semibold text-red-700 bg-white border border-red-300 rounded-md hover:bg-red-50">
+                          却下
+                        </button>
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {!canApprove && pendingLines.length > 0 && (
+              <p className="text-[11px] text-slate-400 px-3 py-2 border-t border-slate-100">承認・却下はプロジェクトの所有者と管理者が行います。</p>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CostDashboardModal;
@@ -0,0 +1,229 @@
+import React, { useState, useMemo } from 'react';
+import { CostLine, CostCategory, CostLineKind, CostApprovalStatus, MatrixData, SubStep } from '../types';
+import {
+  COST_CATEGORY_LABELS, COST_LINE_KIND_LABELS, COST_APPROVAL_STATUS_LABELS, DEFAULT_CURRENCY,
+  costLinesFromResourceMatrix, formatCost, isCountedCostLine,
+} from '../services/costTracking';
+import { localToday } from '../services/dateUtils';
+import { XIcon, TrashIcon, PlusCircleIcon, UploadIcon } from './icons';
+
+interface CostLinesModalProps {
+  costLines: CostLine[];
+  subSteps: SubStep[];
+  resourceMatrix?: MatrixData | null;
+  canApprove: boolean; // 承認・却下は所有者・管理者のみ
+  onSave: (costLines: CostLine[]) => void;
+  onClose: () => void;
+  generateUniqueId: (prefix: string) => string;
+}
+
+const approvalStyles: Record<CostApprovalStatus, string> = {
+  draft: 'bg-slate-100 text-slate-700 border-slate-200',
+  pending: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  approved: 'bg-green-100 text-green-800 border-green-200',
+  rejected: 'bg-red-100 text-red-800 border-red-200',
+};
+
+const cellClass = 'w-full bg-transparent outline-none p-1 text-sm rounded-sm focus:ring-1 focus:ring-blue-500 focus:bg-blue-50 text-slate-800';
+
+// タスクとサブステップの予算（計画コスト）と実コストの明細
+const CostLinesModal: React.FC<CostLinesModalProps> = ({
+  costLines: initialCostLines, subSteps, resourceMatrix, canApprove, onSave, onClose, generateUniqueId,
+}) => {
+  const [costLines, setCostLines] = useState<CostLine[]>(initialCostLines);
+
+  const defaultCurrency = costLines[0]?.currency ?? DEFAULT_CURRENCY;
+
+  const totals = useMemo(() => {
+    const byCurrency = new Map<string, { planned: number; actual: number }>();
+    costLines.filter(isCountedCostLine).forEach(line => {
+      const total = byCurrency.get(line.currency) ?? { planned: 0, actual: 0 };
+      total[line.kind] += line.amount;
+      byCurrency.set(line.currency, total);
+    });
+    return [...byCurrency];
+  }, [costLines]);
+
+  const handleAdd = (kind: CostLineKind) => {
+    setCostLines(prev => [...prev, {
+      id: generateUniqueId('cost'),
+      kind,
+      category: 'labor',
+      description: '',
+      amount: 0,
+      currency: defaultCurrency,
+      date: kind === 'actual' ? localToday() : undefined,
+      approvalStatus: 'draft',
+    }]);
+  };
+
+  // 承認権限のないメンバーが承認済み・却下の行の金額などを変えた場合は、承認待ちに戻す
+  const handleUpdate = (id: string, updates: Partial<CostLine>) => {
+    setCostLines(prev => prev.map(line => {
+      if (line.id !== id) return line;
+      const needsReapproval = !canApprove
+        && (line.approvalStatus === 'approved' || line.approvalStatus === 'rejected')
+        && (['kind', 'amount', 'currency', 'subStepId'] as const).some(key => key in updates && updates[key] !== line[key]);
+      return { ...line, ...updates, ...(needsReapproval ? { approvalStatus: 'pending' as const } : {}) };
+    }));
+  };
+
+  const handleRemove = (id: string) => {
+    setCostLines(prev => prev.filter(line => line.id !== id));
+  };
+
+  const handleImportResourceMatrix = () => {
+    if (!resourceMatrix) return;
+    const imported = costLinesFromResourceMatrix(resourceMatrix, generateUniqueId, defaultCurrency);
+    if (imported.length === 0) {
+      alert('リソース表に金額として読み取れる列がありません。「金額」「費用」「単価」と「数量」などの列を用意してください。');
+      return;
+    }
+    setCostLines(prev => [...prev, ...imported]);
+  };
+
+  const handleSaveAndClose = () => {
+    onSave(costLines.map(line => ({ ...line, currency: line.currency.trim().toUpperCase() || DEFAULT_CURRENCY })));
+  };
+
+  const approvalOptions = (line: CostLine): CostApprovalStatus[] =>
+    canApprove ? ['draft', 'pending', 'approved', 'rejected'] : line.approvalStatus === 'draft' || line.approvalStatus === 'pending' ? ['draft', 'pending'] : [line.approvalStatus];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 backdrop-blur-sm flex flex-col p-4 sm:p-6 md:p-8 z-[50]">
+      <div className="bg-slate-100 rounded-xl shadow-2xl w-full h-full flex flex-col">
+        <header className="flex-shrink-0 flex items-center justify-between p-4 border-b border-slate-200 bg-white rounded-t-xl">
+          <h3 className="text-xl font-bold text-slate-800">予算・コストの管理</h3>
+          <div className="flex items-center gap-2 sm:gap-4">
+            {resourceMatrix && resourceMatrix.rows.length > 0 && (
+              <button onClick={handleImportResourceMatrix} className="flex items-center gap-2 px-3 py-1.5 text-sm font-semibold text-slate-700 bg-slate-200 rounded-md hover:bg-slate-300" title="リソース表の行を計画コストとして追加">
+                <UploadIcon className="w-5 h-5" />
+                <span>リソース表から取り込む</span>
+              </button>
+            )}
+            <button onClick={() => handleAdd('planned')} className="flex items-center gap-2 px-3 py-1.5 text-sm font-semibold text-slate-700 bg-slate-200 rounded-md hover:bg-slate-300">
+              <PlusCircleIcon className="w-5 h-5" />
+              <span>計画コストを追加</span>
+            </button>
+            <button onClick={() => handleAdd('actual')} className="flex items-center gap-2 px-3 py-1.5 text-sm font-semibold text-slate-700 bg-slate-200 rounded-md hover:bg-slate-300">
+              <PlusCircleIcon className="w-5 h-5" />
+              <span>実コストを追加</span>
+            </button>
+            <button onClick={onClose} className="p-1.5 rounded-full hover:bg-slate-100">
+              <XIcon className="w-6 h-6 text-slate-500" />
+            </button>
+          </div>
+        </header>
+
+        <div className="flex-shrink-0 px-4 pt-3 flex flex-wrap items-center gap-x-6 gap-y-1 text-sm text-slate-700">
+          {totals.length === 0 ? (
+            <span className="text-slate-500">まだコストは登録されていません。</span>
+          ) : totals.map(([currency, total]) => (
+            <span key={currency}>
+              計画 <span className="font-semibold">{formatCost(total.planned, currency)}</span> / 実績{' '}
+              <span className={`font-semibold ${total.actual > total.planned ? 'text-red-600' : ''}`}>{formatCost(total.actual, currency)}</span>
+            </span>
+          ))}
+          <span className="text-xs text-slate-500">
+            却下された行は集計に含みません。{canApprove ? '' : '承認・却下はプロジェクトの所有者と管理者が行います。'}
+          </span>
+        </div>
+
+        <main className="flex-grow p-4 overflow-auto">
+          <table className="w-full min-w-[1100px] border-collapse text-sm">
+            <thead className="sticky top-0 bg-slate-200 z-10">
+              <tr className="text-left text-slate-700">
+                <th className="p-2 border border-slate-300 w-20">種別</th>
+                <th className="p-2 border border-slate-300 w-48">対象</th>
+                <th className="p-2 border border-slate-300 w-28">区分</th>
+                <th className="p-2 border border-slate-300">内容</th>
+                <th className="p-2 border border-slate-300 w-36 text-right">金額</th>
+                <th className="p-2 border border-slate-300 w-20">通貨</th>
+                <th className="p-2 border border-slate-300 w-36">発生日</th>
+                <th className="p-2 border border-slate-300 w-32">承認</th>
+                <th className="p-2 border border-slate-300 w-16">削除</th>
+              </tr>
+            </thead>
+            <tbody>
+              {costLines.map(line => (
+                <tr key={line.id} className={`bg-white hover:bg-slate-50 ${line.approvalStatus === 'rejected' ? 'opacity-60' : ''}`}>
+                  <td className="border border-slate-300 p-1">
+                    <select value={line.kind} onChange={e => handleUpdate(line.id, { kind: e.target.value as CostLineKind })} className={cellClass}>
+                      {(Object.keys(COST_LINE_KIND_LABELS) as CostLineKind[]).map(kind => <option key={kind} value={kind}>{COST_LINE_KIND_LABELS[kind]}</option>)}
+                    </select>
+                  </td>
+                  <td className="border border-slate-300 p-1">
+                    <select value={line.subStepId ?? ''} onChange={e => handleUpdate(line.id, { subStepId: e.target.value || undefined })} className={cellClass}>
+                      <option value="">タスク全体</option>
+                      {subSteps.map(subStep => <option key={subStep.id} value={subStep.id}>{subStep.text || '（無題のサブステップ）'}</option>)}
+                    </select>
+                  </td>
+                  <td className="border border-slate-300 p-1">
+                    <select value={line.category} onChange={e => handleUpdate(line.id, { category: e.target.value as CostCategory })} className={cellClass}>
+                      {(Object.keys(COST_CATEGORY_LABELS) as CostCategory[]).map(category => <option key={category} value={category}>{COST_CATEGORY_LABELS[category]}</option>)}
+                    </select>
+                  </td>
+                  <td className="border border-slate-300 p-1">
+                    <input type="text" value={line.description} onChange={e => handleUpdate(line.id, { description: e.target.value })} className={cellClass} placeholder="例：外部デザイナー費用" />
+                  </td>
+                  <td className="border border-slate-300 p-1">
+                    <input
+                      type="number"
+                      min={0}
+                      value={line.amount}
+                      onChange={e => handleUpdate(line.id, { amount: Math.max(parseFloat(e.target.value) || 0, 0) })}
+                      className={`${cellClass} text-right tabular-nums`}
+                    />
+                  </td>
+                  <td className="border border-slate-300 p-1">
+                    <input type="text" value={line.currency} maxLength={3} onChange={e => handleUpdate(line.id, { currency: e.target.value.toUpperCase() })} className={`${cellClass} uppercase`} />
+                  </td>
+                  <td className="border border-slate-300 p-1">
+                    {line.kind === 'actual' ? (
+                      <input type="date" value={line.date || ''} onChange={e => handleUpdate(line.id, { date: e.target.value || undefined })} className={cellClass} />
+                    ) : (
+                      <span className="text-xs text-slate-400 px-1">日程に沿って配分</span>
+                    )}
+                  </td>
+                  <td className="border border-slate-300 p-1">
+                    <select
+                      value={line.approvalStatus}
+                      onChange={e => handleUpdate(line.id, { approvalStatus: e.target.value as CostApprovalStatus })}
+                      disabled={approvalOptions(line).length === 1}
+                      className={`w-full p-1 rounded-md font-semibold text-xs border ${approvalStyles[line.approvalStatus]}`}
+                    >
+                      {approvalOptions(line).map(status => <option key={status} value={status}>{COST_APPROVAL_STATUS_LABELS[status]}</option>)}
+                    </select>
+                  </td>
+                  <td className="border border-slate-300 text-center align-middle">
+                    <button onClick={() => handleRemove(line.id)} className="text-red-400 hover:text-red-700 p-1 rounded-full hover:bg-red-100 transition-colors" title="この行を削除">
+                      <TrashIcon className="w-5 h-5" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {costLines.length === 0 && (
+                <tr>
+                  <td colSpan={9} className="text-center py-12 text-slate-500 bg-white border border-slate-300">
+                    コストはありません。「計画コストを追加」「実コストを追加」から登録してください。
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </main>
+
+        <footer className="flex-shrink-0 p-4 bg-white border-t flex justify-end gap-3 rounded-b-xl">
+          <button onClick={onClose} className="px-5 py-2 text-sm font-medium text-slate-700 bg-slate-100 border border-slate-300 rounded-md shadow-sm hover:bg-slate-200">
+            キャンセル
+          </button>
+          <button onClick={handleSaveAndClose} className="px-5 py-2 text-sm font-medium text-white bg-blue-600 rounded-md shadow-sm hover:bg-blue-700">
+            変更を保存
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default CostLinesModal;
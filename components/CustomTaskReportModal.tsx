@@ -1,7 +1,8 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { ProjectTask, SlideDeck } from '../types';
+import { ProjectTask, SlideDeck, Attachment } from '../types';
 import { generateCustomSlideDeck, CustomSource } from '../services/geminiService';
+import { AttachmentService } from '../services/attachmentStorage';
 import { XIcon, SparklesIcon, FolderIcon, PaperClipIcon, TableCellsIcon } from './icons';
 import LoadingSpinner from './LoadingSpinner';
 import ErrorMessage from './ErrorMessage';
@@ -11,6 +12,7 @@ interface DocumentSource {
     name: string;
     type: 'Task Data' | 'Attachment' | 'Data Matrix';
     source: CustomSource;
+    attachment?: Attachment;
 }
 
 interface CustomTaskReportModalProps {
@@ -41,7 +43,8 @@ const CustomTaskReportModal: React.FC<CustomTaskReportModalProps> = ({ task, isO
                 id: att.id,
                 name: `添付: ${att.name}`,
                 type: 'Attachment',
-                source: { name: att.name, type: att.type.startsWith('image/') ? 'image' : 'text', content: att.dataUrl }
+                source: { name: att.name, type: att.type.startsWith('image/') ? 'image' : 'text', content: null },
+                attachment: att,
             });
         });
         
@@ -60,7 +63,8 @@ const CustomTaskReportModal: React.FC<CustomTaskReportModalProps> = ({ task, isO
                         id: att.id,
                         name: `添付: ${att.name} (${ai.text})`,
                         type: 'Attachment',
-                        source: { name: att.name, type: att.type.startsWith('image/') ? 'image' : 'text', content: att.dataUrl }
+                        source: { name: att.name, type: att.type.startsWith('image/') ? 'image' : 'text', content: null },
+                        attachment: att,
                     });
                 });
             });
@@ -116,9 +120,11 @@ const CustomTaskReportModal: React.FC<CustomTaskReportModalProps> = ({ task, isO
         setError(null);
 
         try {
-            const sourcesToUse = availableSources
+            const sourcesToUse = await Promise.all(availableSources
                 .filter(s => selectedSources.has(s.id))
-                .map(s => s.source);
+                .map(async s => s.attachment
+                    ? { ...s.source, content: await AttachmentService.getDataUrl(s.attachment) }
+                    : s.source));
             
             const deck = await generateCustomSlideDeck(sourcesToUse, prompt);
             onReportGenerated(deck);
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { DataElement, FlowchartElement, ProjectTask, SlideDataBinding } from '../types';
+import { SLIDE_DATA_BINDING_LABELS } from '../services/slideDataBinding';
+
+const inputClass = 'w-full bg-slate-700 border border-slate-600 rounded px-2 py-1 text-xs text-white outline-none focus:border-blue-400';
+const labelClass = 'block text-[11px] text-slate-400 mb-1';
+
+export type InsertableDataKind = SlideDataBinding | 'flowchart';
+
+const DATA_KIND_LABELS: Record<InsertableDataKind, string> = {
+  ...SLIDE_DATA_BINDING_LABELS,
+  flowchart: 'サブステップのフローチャート',
+};
+
+const formatSnapshotDate = (takenAt: string) => new Date(takenAt).toLocaleString('ja-JP', { dateStyle: 'medium', timeStyle: 'short' });
+
+const TaskSelect: React.FC<{ tasks: ProjectTask[]; value: string | undefined; allowProject: boolean; onChange: (taskId: string | undefined) => void }> = ({ tasks, value, allowProject, onChange }) => (
+  <div>
+    <label className={labelClass}>対象</label>
+    <select value={value ?? ''} onChange={e => onChange(e.target.value || undefined)} className={inputClass}>
+      {allowProject ? <option value="">プロジェクト全体</option> : !value && <option value="">タスクを選択</option>}
+      {tasks.map(task => <option key={task.id} value={task.id}>{task.title}</option>)}
+    </select>
+  </div>
+);
+
+interface DataBindingPanelProps {
+  element: DataElement | FlowchartElement;
+  tasks: ProjectTask[];
+  onChange: (updates: Partial<DataElement> | Partial<FlowchartElement>) => void;
+  onSnapshot: () => void;
+  onRelease: () => void;
+}
+
+// 計画に連動する要素（データ要素・フローチャート）の参照先と、値の固定
+const DataBindingPanel: React.FC<DataBindingPanelProps> = ({ element, tasks, onChange, onSnapshot, onRelease }) => {
+  const snapshotAt = element.type === 'data' ? element.snapshot?.takenAt : element.snapshotAt;
+  return (
+    <div className="space-y-3">
+      {element.type === 'data' && (
+        <div>
+          <label className={labelClass}>表示するデータ</label>
+          <select value={element.binding} onChange={e => onChange({ binding: e.target.value as SlideDataBinding })} disabled={!!snapshotAt} className={inputClass}>
+            {(Object.keys(SLIDE_DATA_BINDING_LABELS) as SlideDataBinding[]).map(b => <option key={b} value={b}>{SLIDE_DATA_BINDING_LABELS[b]}</option>)}
+          </select>
+        </div>
+      )}
+      {!snapshotAt && <TaskSelect tasks={tasks} value={element.taskId} allowProject={element.type === 'data'} onChange={taskId => onChange({ taskId })} />}
+      <div className="border-t border-slate-600 pt-3 space-y-2">
+        {snapshotAt ? (
+          <>
+            <p className="text-xs text-amber-300">{formatSnapshotDate(snapshotAt)} の値で固定しています。</p>
+            <button onClick={onRelease} className="w-full px-2 py-1 text-xs font-semibold bg-slate-600 rounded hover:bg-slate-500">固定を解除して最新の値を表示</button>
+          </>
+        ) : (
+          <>
+            <p className="text-xs text-slate-400">デッキを開くたびに最新の計画から表示します。</p>
+            <button onClick={onSnapshot} className="w-full px-2 py-1 text-xs font-semibold bg-amber-600 rounded hover:bg-amber-700">現在の値で固定</button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// 何も選択していないときに出す、計画と連動する要素の追加欄
+export const InsertDataElementPanel: React.FC<{ tasks: ProjectTask[]; onInsert: (kind: InsertableDataKind, taskId: string | undefined) => void }> = ({ tasks, onInsert }) => {
+  const [kind, setKind] = useState<InsertableDataKind>('progress');
+  const [taskId, setTaskId] = useState<string | undefined>(undefined);
+  const needsTask = kind === 'flowchart';
+  return (
+    <div className="space-y-2">
+      <h4 className="text-xs font-semibold text-slate-300">計画と連動する要素を追加</h4>
+      <div>
+        <label className={labelClass}>表示するデータ</label>
+        <select value={kind} onChange={e => setKind(e.target.value as InsertableDataKind)} className={inputClass}>
+          {(Object.keys(DATA_KIND_LABELS) as InsertableDataKind[]).map(k => <option key={k} value={k}>{DATA_KIND_LABELS[k]}</option>)}
+        </select>
+      </div>
+      <TaskSelect tasks={tasks} value={taskId} allowProject={!needsTask} onChange={setTaskId} />
+      <button onClick={() => onInsert(kind, taskId)} disabled={needsTask && !taskId} className="w-full px-2 py-1 text-xs font-semibold bg-blue-600 rounded hover:bg-blue-700 disabled:bg-slate-600 disabled:text-slate-400">
+        スライドに追加
+      </button>
+    </div>
+  );
+};
+
+export default DataBindingPanel;
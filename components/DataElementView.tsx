@@ -0,0 +1,94 @@
+import React from 'react';
+import { SlideDataView } from '../types';
+import { getTimelineBarFraction } from '../services/slideDataBinding';
+import { GANTT_CRITICAL_COLOR } from '../services/ganttTimeline';
+import { SlideTheme } from '../services/slideDeckContent';
+
+// --- Data Element Rendering ---
+// 計画から求めた値（または固定した値）を、エクスポートと同じ構成で描く
+
+const clampPercent = (percent: number) => Math.min(Math.max(percent, 0), 100);
+
+const DataElementView: React.FC<{ view: SlideDataView, theme: SlideTheme }> = ({ view, theme }) => {
+    const track = { backgroundColor: `#${theme.tableHeaderFill}` };
+
+    const renderBody = () => {
+        switch (view.kind) {
+            case 'metric':
+                return (
+                    <div className="flex-grow flex flex-col items-center justify-center gap-1 min-h-0">
+                        <p className="text-3xl font-bold" style={{ color: `#${theme.accent}` }}>{view.value}</p>
+                        {view.percent !== null && (
+                            <div className="w-full h-2 rounded-full overflow-hidden" style={track}>
+                                <div className="h-full" style={{ width: `${clampPercent(view.percent)}%`, backgroundColor: `#${theme.accent}` }} />
+                            </div>
+                        )}
+                        {view.caption && <p className="text-[10px]" style={{ color: `#${theme.mutedText}` }}>{view.caption}</p>}
+                    </div>
+                );
+            case 'breakdown': {
+                const total = view.items.reduce((sum, item) => sum + item.count, 0);
+                return (
+                    <div className="flex-grow flex flex-col justify-center gap-1 min-h-0">
+                        {view.items.map(item => (
+                            <div key={item.label} className="flex items-center gap-2 text-[10px]">
+                                <span className="w-2/5 truncate">{item.label}</span>
+                                <div className="flex-grow h-2 rounded-sm overflow-hidden" style={track}>
+                                    <div className="h-full" style={{ width: total > 0 ? `${(item.count / total) * 100}%` : 0, backgroundColor: `#${item.color}` }} />
+                                </div>
+                                <span className="w-6 text-right font-bold">{item.count}</span>
+                            </div>
+                        ))}
+                    </div>
+                );
+            }
+            case 'table':
+                return (
+                    <div className="flex-grow overflow-auto min-h-0">
+                        <table className="w-full text-[8px] border-collapse">
+                            <thead>
+                                <tr style={{ backgroundColor: `#${theme.tableHeaderFill}`, color: `#${theme.tableHeaderText}` }}>
+                                    {view.headers.map((h, i) => <th key={i} className="border p-1 font-semibold text-left" style={{ borderColor: `#${theme.tableBorder}` }}>{h}</th>)}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {view.rows.map((r, i) => (
+                                    <tr key={i}>{view.headers.map((_, j) => <td key={j} className="border p-1" style={{ borderColor: `#${theme.tableBorder}` }}>{r[j]}</td>)}</tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                );
+            case 'timeline':
+                return (
+                    <div className="flex-grow flex flex-col min-h-0 text-[9px]">
+                        {view.items.map((item, index) => {
+                            const { left, width } = getTimelineBarFraction(view, item);
+                            const color = item.isCritical ? GANTT_CRITICAL_COLOR : `#${theme.accent}`;
+                            return (
+                                <div key={index} className="flex items-center gap-1 flex-1 min-h-0">
+                                    <span className="w-[30%] truncate">{item.name}</span>
+                                    <div className="relative flex-grow h-3/5">
+                                        <div className="absolute inset-y-0" style={{ left: `${left * 100}%`, width: `${width * 100}%`, backgroundColor: color, opacity: 0.35 }} />
+                                        <div className="absolute inset-y-0" style={{ left: `${left * 100}%`, width: `${(width * clampPercent(item.progress))}%`, backgroundColor: color }} />
+                                    </div>
+                                </div>
+                            );
+                        })}
+                        <div className="flex justify-between pl-[30%] text-[8px]" style={{ color: `#${theme.mutedText}` }}>
+                            <span>{view.start}</span><span>{view.end}</span>
+                        </div>
+                    </div>
+                );
+        }
+    };
+
+    return (
+        <div className="w-full h-full flex flex-col p-2 overflow-hidden" style={{ color: `#${theme.text}` }}>
+            <p className="text-xs font-bold truncate mb-1">{view.title}</p>
+            {renderBody()}
+        </div>
+    );
+};
+
+export default DataElementView;
@@ -0,0 +1,236 @@
+import React, { useState, useMemo } from 'react';
+import { Decision, ProjectTask } from '../types';
+import {
+  DecisionApprovalState, DECISION_APPROVAL_STATE_LABELS, DECISION_APPROVAL_STATUS_LABELS, DECISION_STATUS_LABELS,
+  collectDecisionLog, isAwaitingApprovalFrom,
+} from '../services/decisionLog';
+import { XIcon, DownloadIcon, SparklesIcon } from './icons';
+import LoadingSpinner from './LoadingSpinner';
+
+interface DecisionLogModalProps {
+  tasks: ProjectTask[];
+  projectGoal: string;
+  targetDate: string;
+  currentUserId: string | null;
+  onRespond: (taskId: string, decisionId: string, status: 'approved' | 'rejected', comment: string) => void;
+  onOpenTask: (task: ProjectTask) => void;
+  onClose: () => void;
+}
+
+type LogFilter = 'all' | 'undecided' | 'awaiting_me' | 'pending' | 'rejected' | 'proposals';
+
+const FILTER_LABELS: Record<LogFilter, string> = {
+  all: 'すべて',
+  undecided: '未決定',
+  awaiting_me: '自分の承認待ち',
+  pending: '承認待ち',
+  rejected: '却下',
+  proposals: 'AIの提案',
+};
+
+const approvalStateStyles: Record<DecisionApprovalState, string> = {
+  not_required: 'bg-slate-100 text-slate-600',
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+};
+
+// プロジェクト全体の決定ログ。承認者は自分の承認待ちにここから回答できる
+const DecisionLogModal: React.FC<DecisionLogModalProps> = ({ tasks, projectGoal, targetDate, currentUserId, onRespond, onOpenTask, onClose }) => {
+  const [filter, setFilter] = useState<LogFilter>('all');
+  const [taskFilter, setTaskFilter] = useState('');
+  const [query, setQuery] = useState('');
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+  const [comment, setComment] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const entries = useMemo(() => collectDecisionLog(tasks), [tasks]);
+  const taskTitles = useMemo(() => new Map(tasks.map(task => [task.id, task.title])), [tasks]);
+  const subStepTitles = useMemo(
+    () => new Map(tasks.flatMap(task => (task.extendedDetails?.subSteps || []).map(subStep => [subStep.id, subStep.text] as const))),
+    [tasks]
+  );
+
+  const matchesFilter = (decision: Decision, approvalState: DecisionApprovalState) => {
+    switch (filter) {
+      case 'undecided': return decision.status === 'undecided';
+      case 'awaiting_me': return isAwaitingApprovalFrom(decision, currentUserId);
+      case 'pending': return approvalState === 'pending';
+      case 'rejected': return approvalState === 'rejected';
+      case 'proposals': return !!decision.aiProposal;
+      default: return true;
+    }
+  };
+
+  const normalizedQuery = query.trim().toLowerCase();
+  const visibleEntries = entries.filter(({ task, decision, approvalState }) =>
+    matchesFilter(decision, approvalState)
+    && (!taskFilter || task.id === taskFilter || (decision.affectedTaskIds || []).includes(taskFilter))
+    && (!normalizedQuery || [decision.question, decision.decision, decision.reasoning, decision.decider].some(text => text?.toLowerCase().includes(normalizedQuery))));
+
+  const awaitingMeCount = entries.filter(entry => isAwaitingApprovalFrom(entry.decision, currentUserId)).length;
+
+  const handleRespond = (taskId: string, decisionId: string, status: 'approved' | 'rejected') => {
+    if (status === 'rejected' && !comment.trim()) {
+      alert('却下する場合は理由をコメントに入力してください。');
+      return;
+    }
+    onRespond(taskId, decisionId, status, comment);
+    setRespondingId(null);
+    setComment('');
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const { downloadDecisionLogPdf } = await import('../services/pdfExport');
+      await downloadDecisionLogPdf(tasks, { projectGoal, targetDate }, `決定ログ_${new Date().toISOString().split('T')[0]}`);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'PDFの作成に失敗しました');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 backdrop-blur-sm flex flex-col p-4 sm:p-6 md:p-8 z-[50]">
+      <div className="bg-slate-100 rounded-xl shadow-2xl w-full h-full flex flex-col">
+        <header className="flex-shrink-0 flex items-center justify-between p-4 border-b border-slate-200 bg-white rounded-t-xl">
+          <h3 className="text-xl font-bold text-slate-800">決定ログ</h3>
+          <div className="flex items-center gap-2 sm:gap-4">
+            <button
+              onClick={handleExport}
+              disabled={isExporting || entries.length === 0}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm font-semibold text-slate-700 bg-slate-200 rounded-md hover:bg-slate-300 disabled:opacity-50"
+            >
+              {isExporting ? <LoadingSpinner size="sm" /> : <DownloadIcon className="w-5 h-5" />}
+              <span>PDFで出力</span>
+            </button>
+            <button onClick={onClose} className="p-1.5 rounded-full hover:bg-slate-100">
+              <XIcon className="w-6 h-6 text-slate-500" />
+            </button>
+          </div>
+        </header>
+
+        <div className="flex-shrink-0 px-4 pt-3 flex flex-wrap items-center gap-2 text-sm">
+          {(Object.keys(FILTER_LABELS) as LogFilter[]).map(key => (
+            <button
+              key={key}
+              onClick={() => setFilter(key)}
+              className={`px-3 py-1 rounded-full border ${filter === key ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-600 border-slate-300 hover:bg-slate-50'}`}
+            >
+              {FILTER_LABELS[key]}{key === 'awaiting_me' && awaitingMeCount > 0 && `（${awaitingMeCount}）`}
+            </button>
+          ))}
+          <select value={taskFilter} onChange={e => setTaskFilter(e.target.value)} className="ml-auto px-2 py-1 border border-slate-300 rounded-md bg-white">
+            <option value="">すべてのタスク</option>
+            {tasks.map(task => <option key={task.id} value={task.id}>{task.title}</option>)}
+          </select>
+          <input
+            type="text"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            className="px-2 py-1 border border-slate-300 rounded-md w-48"
+            placeholder="キーワードで絞り込み"
+          />
+        </div>
+
+        <main className="flex-grow p-4 overflow-auto">
+          <table className="w-full min-w-[1100px] border-collapse text-sm bg-white">
+            <thead className="sticky top-0 bg-slate-200 z-10">
+              <tr className="text-left text-slate-700">
+                <th className="p-2 border border-slate-300 w-40">タスク</th>
+                <th className="p-2 border border-slate-300">決定すべき項目</th>
+                <th className="p-2 border border-slate-300">決定内容</th>
+                <th className="p-2 border border-slate-300 w-32">決定者</th>
+                <th className="p-2 border border-slate-300 w-48">承認</th>
+                <th className="p-2 border border-slate-300 w-48">影響範囲</th>
+                <th className="p-2 border border-slate-300 w-28">日付</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleEntries.map(({ task, decision, approvalState }) => {
+                const approvals = decision.approvals || [];
+                const affected = [
+                  ...(decision.affectedTaskIds || []).map(id => taskTitles.get(id)),
+                  ...(decision.affectedSubStepIds || []).map(id => subStepTitles.get(id)),
+                ].filter(Boolean);
+                const isAwaitingMe = isAwaitingApprovalFrom(decision, currentUserId);
+                return (
+                  <React.Fragment key={decision.id}>
+                    <tr className="hover:bg-slate-50 align-top">
+                      <td className="border border-slate-300 p-2">
+                        <button onClick={() => onOpenTask(task)} className="text-left text-blue-600 hover:underline" title="タスクを開く">{task.title}</button>
+                      </td>
+                      <td className="border border-slate-300 p-2">
+                        <p className="text-slate-800">{decision.question || <span className="text-slate-400">（無題）</span>}</p>
+                        {decision.aiProposal && (
+                          <span className="inline-flex items-center gap-1 mt-1 px-2 py-0.5 rounded-full text-xs bg-purple-100 text-purple-800">
+                            <SparklesIcon className="w-3 h-3" />AIの提案（採用待ち）
+                          </span>
+                        )}
+                      </td>
+                      <td className="border border-slate-300 p-2">
+                        <span className={`inline-block mb-1 px-2 py-0.5 rounded-full text-xs font-semibold ${decision.status === 'decided' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}`}>
+                          {DECISION_STATUS_LABELS[decision.status]}
+                        </span>
+                        {decision.decision && <p className="text-slate-700">{decision.decision}</p>}
+                        {decision.reasoning && <p className="text-xs text-slate-500 mt-0.5">{decision.reasoning}</p>}
+                      </td>
+                      <td className="border border-slate-300 p-2 text-slate-700">{decision.decider || <span className="text-slate-400">未設定</span>}</td>
+                      <td className="border border-slate-300 p-2">
+                        <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-semibold ${approvalStateStyles[approvalState]}`}>{DECISION_APPROVAL_STATE_LABELS[approvalState]}</span>
+                        {approvals.length > 0 && (
+                          <ul className="mt-1 space-y-0.5 text-xs text-slate-600">
+                            {approvals.map(approval => (
+                              <li key={approval.userId}>
+                                {approval.userName}: {DECISION_APPROVAL_STATUS_LABELS[approval.status]}
+                                {approval.comment && <span className="text-slate-500">「{approval.comment}」</span>}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                        {isAwaitingMe && respondingId !== decision.id && (
+                          <button onClick={() => { setRespondingId(decision.id); setComment(''); }} className="mt-1 text-xs font-semibold text-blue-600 hover:underline">回答する</button>
+                        )}
+                      </td>
+                      <td className="border border-slate-300 p-2 text-xs text-slate-600">{affected.length > 0 ? affected.join('、') : <span className="text-slate-400">—</span>}</td>
+                      <td className="border border-slate-300 p-2 text-xs text-slate-600">{decision.date || '—'}</td>
+                    </tr>
+                    {respondingId === decision.id && (
+                      <tr className="bg-blue-50">
+                        <td colSpan={7} className="border border-slate-300 p-3">
+                          <div className="flex items-start gap-2">
+                            <textarea
+                              value={comment}
+                              onChange={e => setComment(e.target.value)}
+                              rows={2}
+                              className="flex-grow px-2 py-1 border border-slate-300 rounded-md text-sm"
+                              placeholder="コメント（却下する場合は必須）"
+                            />
+                            <button onClick={() => setRespondingId(null)} className="px-3 py-1 text-xs font-semibold text-slate-700 bg-white border border-slate-300 rounded-md hover:bg-slate-50">キャンセル</button>
+                            <button onClick={() => handleRespond(task.id, decision.id, 'rejected')} className="px-3 py-1 text-xs font-semibold text-red-700 bg-red-50 border border-red-200 rounded-md hover:bg-red-100">却下</button>
+                            <button onClick={() => handleRespond(task.id, decision.id, 'approved')} className="px-3 py-1 text-xs font-semibold text-white bg-green-600 rounded-md hover:bg-green-700">承認</button>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+              {visibleEntries.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="text-center py-12 text-slate-500 border border-slate-300">
+                    {entries.length === 0 ? '決定事項はありません。各タスクの「決定事項の管理」から登録してください。' : '条件に合う決定事項はありません。'}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default DecisionLogModal;
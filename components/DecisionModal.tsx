@@ -1,8 +1,14 @@
-
 import React, { useState, useEffect, useMemo } from 'react';
-import { Decision, ProjectTask } from '../types';
-import { XIcon, TrashIcon, SparklesIcon, PlusCircleIcon, SortAscIcon, SortDescIcon } from './icons';
+import { Decision, DecisionApproval, DecisionOption, ProjectTask } from '../types';
+import { XIcon, TrashIcon, SparklesIcon, PlusCircleIcon, SortAscIcon, SortDescIcon, ChevronDownIcon, ChevronRightIcon, CheckIcon, ChatBubbleIcon } from './icons';
 import { generateDecisions } from '../services/geminiService';
+import { DecisionApprovalService } from '../services/decisionApprovalService';
+import { ProjectMember } from '../services/projectCollaborationService';
+import {
+  DecisionApprovalState, DECISION_APPROVAL_STATE_LABELS, DECISION_APPROVAL_STATUS_LABELS, DECISION_STATUS_LABELS,
+  acceptDecisionProposal, getDecisionApprovalState, mergeGeneratedDecisions, rejectDecisionProposal, respondToDecision, updateDecision,
+} from '../services/decisionLog';
+import ResponsibleSelect from './ResponsibleSelect';
 import LoadingSpinner from './LoadingSpinner';
 import ErrorMessage from './ErrorMessage';
 
@@ -11,7 +17,14 @@ interface DecisionModalProps {
   onClose: () => void;
   onSave: (decisions: Decision[]) => void;
   task: ProjectTask;
+  tasks: ProjectTask[]; // 影響するタスク・サブステップの選択肢
+  members: ProjectMember[];
+  currentUserId: string | null;
+  projectId: string | null; // 承認者と回答はプロジェクトの保存とは別に記録する
+  canApprove: boolean; // AI の提案の採用は所有者・管理者（または決定者）のみ
   generateUniqueId: (prefix: string) => string;
+  decisionCommentCounts?: Record<string, number>; // 決定事項ごとの未解決のコメント数
+  onOpenDecisionComments?: (decision: Decision) => void; // 指定すると決定事項にコメントできる
 }
 
 const EditableCell: React.FC<{ value: string; onChange: (value: string) => void; placeholder: string; }> = ({ value, onChange, placeholder }) => (
@@ -24,14 +37,214 @@ const EditableCell: React.FC<{ value: string; onChange: (value: string) => void;
   />
 );
 
+const approvalStateStyles: Record<DecisionApprovalState, string> = {
+  not_required: 'bg-slate-100 text-slate-600',
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+};
+
+const approvalStatusStyles: Record<DecisionApproval['status'], string> = {
+  pending: 'text-slate-500',
+  approved: 'text-green-700',
+  rejected: 'text-red-700',
+};
+
 type SortKeys = 'status' | 'question' | 'decision' | 'reasoning' | 'date';
 type SortDirection = 'ascending' | 'descending';
 
-const DecisionModal: React.FC<DecisionModalProps> = ({ isOpen, onClose, onSave, task, generateUniqueId }) => {
+interface DecisionDetailsProps {
+  decision: Decision;
+  task: ProjectTask;
+  tasks: ProjectTask[];
+  members: ProjectMember[];
+  currentUserId: string | null;
+  onUpdate: (updates: Partial<Decision>) => void;
+  onRespond: (status: 'approved' | 'rejected', comment: string) => void;
+  generateUniqueId: (prefix: string) => string;
+}
+
+// 決定事項の詳細（検討した選択肢・承認者・影響範囲）
+const DecisionDetails: React.FC<DecisionDetailsProps> = ({ decision, task, tasks, members, currentUserId, onUpdate, onRespond, generateUniqueId }) => {
+  const [comment, setComment] = useState('');
+  const options = decision.options || [];
+  const approvals = decision.approvals || [];
+  const affectedTaskIds = decision.affectedTaskIds || [];
+  const affectedSubStepIds = decision.affectedSubStepIds || [];
+  const activeMembers = members.filter(member => member.status === 'active');
+  const myApproval = approvals.find(approval => approval.userId === currentUserId);
+
+  const updateOption = (id: string, updates: Partial<DecisionOption>) =>
+    onUpdate({ options: options.map(option => (option.id === id ? { ...option, ...updates } : option)) });
+
+  const removeOption = (id: string) =>
+    onUpdate({ options: options.filter(option => option.id !== id), ...(decision.chosenOptionId === id ? { chosenOptionId: undefined } : {}) });
+
+  // 選択肢を採用したとき、決定内容が空なら選択肢の内容で埋める
+  const chooseOption = (option: DecisionOption) =>
+    onUpdate({ chosenOptionId: option.id, ...(decision.decision?.trim() ? {} : { decision: option.text }) });
+
+  const toggleApprover = (member: ProjectMember) => {
+    const isApprover = approvals.some(approval => approval.userId === member.userId);
+    onUpdate({
+      approvals: isApprover
+        ? approvals.filter(approval => approval.userId !== member.userId)
+        : [...approvals, { userId: member.userId, userName: member.userName || member.userEmail || 'メンバー', status: 'pending' }],
+    });
+  };
+
+  const toggleId = (ids: string[], id: string) => (ids.includes(id) ? ids.filter(candidate => candidate !== id) : [...ids, id]);
+
+  // 影響するサブステップは、このタスクと影響するタスクのものから選ぶ
+  const subStepSources = [task, ...tasks.filter(candidate => affectedTaskIds.includes(candidate.id))];
+
+  const handleRespond = (status: 'approved' | 'rejected') => {
+    if (status === 'rejected' && !comment.trim()) {
+      alert('却下する場合は理由をコメントに入力してください。');
+      return;
+    }
+    onRespond(status, comment);
+    setComment('');
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 p-4 bg-slate-50 text-sm">
+      <section>
+        <h5 className="text-xs font-semibold text-slate-600 mb-2">検討した選択肢</h5>
+        <div className="space-y-2">
+          {options.map(option => (
+            <div key={option.id} className={`border rounded-md p-2 bg-white ${decision.chosenOptionId === option.id ? 'border-green-400 ring-1 ring-green-300' : 'border-slate-200'}`}>
+              <div className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name={`chosen-${decision.id}`}
+                  checked={decision.chosenOptionId === option.id}
+                  onChange={() => chooseOption(option)}
+                  title="この選択肢を採用"
+                />
+                <input
+                  type="text"
+                  value={option.text}
+                  onChange={e => updateOption(option.id, { text: e.target.value })}
+                  className="flex-grow px-2 py-1 border border-slate-300 rounded-md"
+                  placeholder="選択肢"
+                />
+                <button onClick={() => removeOption(option.id)} className="p-1 text-slate-400 hover:text-red-500" title="選択肢を削除"><TrashIcon className="w-4 h-4" /></button>
+              </div>
+              <div className="grid grid-cols-2 gap-2 mt-1">
+                <input type="text" value={option.pros || ''} onChange={e => updateOption(option.id, { pros: e.target.value || undefined })} className="px-2 py-1 border border-slate-200 rounded-md text-xs" placeholder="利点" />
+                <input type="text" value={option.cons || ''} onChange={e => updateOption(option.id, { cons: e.target.value || undefined })} className="px-2 py-1 border border-slate-200 rounded-md text-xs" placeholder="欠点" />
+              </div>
+            </div>
+          ))}
+          <button
+            onClick={() => onUpdate({ options: [...options, { id: generateUniqueId('option'), text: '' }] })}
+            className="flex items-center gap-1 text-xs text-blue-600 hover:underline"
+          >
+            <PlusCircleIcon className="w-4 h-4" />選択肢を追加
+          </button>
+        </div>
+      </section>
+
+      <section>
+        <h5 className="text-xs font-semibold text-slate-600 mb-2">決定者と承認者</h5>
+        <div className="mb-3">
+          <ResponsibleSelect
+            responsible={decision.decider}
+            responsibleUserId={decision.deciderUserId}
+            members={activeMembers}
+            onChange={change => onUpdate({ decider: change.responsible || undefined, deciderUserId: change.responsibleUserId })}
+            className="px-2 py-1 border border-slate-300 rounded-md text-sm bg-white"
+            placeholder="決定者"
+          />
+        </div>
+        {activeMembers.length === 0 ? (
+          <p className="text-xs text-slate-500">承認者を指定するには、プロジェクトを保存してメンバーを招待してください。</p>
+        ) : (
+          <div className="space-y-1">
+            {activeMembers.map(member => {
+              const approval = approvals.find(candidate => candidate.userId === member.userId);
+              return (
+                <div key={member.userId} className="bg-white border border-slate-200 rounded-md px-2 py-1">
+                  <label className="flex items-center gap-2">
+                    <input type="checkbox" checked={!!approval} onChange={() => toggleApprover(member)} />
+                    <span className="flex-grow truncate">{member.userName || member.userEmail}</span>
+                    {approval && <span className={`text-xs font-semibold ${approvalStatusStyles[approval.status]}`}>{DECISION_APPROVAL_STATUS_LABELS[approval.status]}</span>}
+                  </label>
+                  {approval?.comment && <p className="text-xs text-slate-600 ml-6 mt-0.5">「{approval.comment}」</p>}
+                </div>
+              );
+            })}
+          </div>
+        )}
+        {myApproval && (
+          <div className="mt-3 border-t border-slate-200 pt-3">
+            <p className="text-xs font-semibold text-slate-600 mb-1">
+              あなたの回答{myApproval.status !== 'pending' && `（現在: ${DECISION_APPROVAL_STATUS_LABELS[myApproval.status]}）`}
+            </p>
+            <textarea
+              value={comment}
+              onChange={e => setComment(e.target.value)}
+              rows={2}
+              className="w-full px-2 py-1 border border-slate-300 rounded-md text-sm"
+              placeholder="コメント（却下する場合は必須）"
+            />
+            <div className="flex justify-end gap-2 mt-1">
+              <button onClick={() => handleRespond('rejected')} className="px-3 py-1 text-xs font-semibold text-red-700 bg-red-50 border border-red-200 rounded-md hover:bg-red-100">却下</button>
+              <button onClick={() => handleRespond('approved')} className="px-3 py-1 text-xs font-semibold text-white bg-green-600 rounded-md hover:bg-green-700">承認</button>
+            </div>
+          </div>
+        )}
+      </section>
+
+      <section>
+        <h5 className="text-xs font-semibold text-slate-600 mb-2">影響するタスク</h5>
+        <div className="flex flex-wrap gap-1 mb-3">
+          {tasks.filter(candidate => candidate.id !== task.id).map(candidate => (
+            <button
+              key={candidate.id}
+              onClick={() => onUpdate({ affectedTaskIds: toggleId(affectedTaskIds, candidate.id) })}
+              className={`px-2 py-0.5 rounded-full text-xs border ${affectedTaskIds.includes(candidate.id) ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-600 border-slate-300 hover:bg-slate-50'}`}
+            >
+              {candidate.title}
+            </button>
+          ))}
+          {tasks.length <= 1 && <span className="text-xs text-slate-400">ほかのタスクはありません。</span>}
+        </div>
+        <h5 className="text-xs font-semibold text-slate-600 mb-2">影響するサブステップ</h5>
+        <div className="space-y-2">
+          {subStepSources.map(source => {
+            const subSteps = source.extendedDetails?.subSteps || [];
+            if (subSteps.length === 0) return null;
+            return (
+              <div key={source.id}>
+                {source.id !== task.id && <p className="text-[11px] text-slate-500 mb-0.5">{source.title}</p>}
+                <div className="flex flex-wrap gap-1">
+                  {subSteps.map(subStep => (
+                    <button
+                      key={subStep.id}
+                      onClick={() => onUpdate({ affectedSubStepIds: toggleId(affectedSubStepIds, subStep.id) })}
+                      className={`px-2 py-0.5 rounded-full text-xs border ${affectedSubStepIds.includes(subStep.id) ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-300 hover:bg-slate-50'}`}
+                    >
+                      {subStep.text || '（無題のサブステップ）'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </section>
+    </div>
+  );
+};
+
+const DecisionModal: React.FC<DecisionModalProps> = ({ isOpen, onClose, onSave, task, tasks, members, currentUserId, projectId, canApprove, generateUniqueId, decisionCommentCounts = {}, onOpenDecisionComments }) => {
   const [decisions, setDecisions] = useState<Decision[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [sortConfig, setSortConfig] = useState<{ key: SortKeys; direction: SortDirection } | null>({ key: 'status', direction: 'ascending' });
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
 
   useEffect(() => {
     if (isOpen) {
@@ -96,18 +309,13 @@ const DecisionModal: React.FC<DecisionModalProps> = ({ isOpen, onClose, onSave,
     </th>
   );
 
+  // AI の結果はそのまま反映せず、採用待ちの提案として各決定事項に付ける
   const handleGenerate = async () => {
     setIsLoading(true);
     setError(null);
     try {
       const results = await generateDecisions(task, decisions);
-      const newDecisions = results.map(aiDecision => {
-        if (aiDecision.id === 'NEW') {
-          return { ...aiDecision, id: generateUniqueId('dec_ai') };
-        }
-        return aiDecision;
-      });
-      setDecisions(newDecisions);
+      setDecisions(prev => mergeGeneratedDecisions(prev, results, generateUniqueId, new Date().toISOString()));
     } catch (err) {
       setError(err instanceof Error ? err.message : '決定事項の抽出に失敗しました。');
     } finally {
@@ -116,10 +324,10 @@ const DecisionModal: React.FC<DecisionModalProps> = ({ isOpen, onClose, onSave,
   };
 
   const handleUpdate = (id: string, updates: Partial<Decision>) => {
-    setDecisions((prev) => prev.map((d) => (d.id === id ? { ...d, ...updates } : d)));
+    setDecisions((prev) => prev.map((d) => (d.id === id ? updateDecision(d, updates) : d)));
   };
 
-  const handleStatusChange = (id: string, newStatus: 'decided' | 'undecided') => {
+  const handleStatusChange = (id: string, newStatus: Decision['status']) => {
     const decision = decisions.find((d) => d.id === id);
     if (!decision) return;
 
@@ -132,6 +340,30 @@ const DecisionModal: React.FC<DecisionModalProps> = ({ isOpen, onClose, onSave,
     handleUpdate(id, updates);
   };
 
+  // 回答はサーバーで本人の行に記録し、記録された日時を表示に反映する
+  const handleRespond = async (id: string, status: 'approved' | 'rejected', comment: string) => {
+    if (!currentUserId || !projectId) return;
+    setError(null);
+    try {
+      const approval = await DecisionApprovalService.respond(projectId, id, status, comment);
+      setDecisions(prev => prev.map(d => (d.id === id ? respondToDecision(d, currentUserId, status, approval.comment || '', approval.respondedAt!) : d)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '承認の回答に失敗しました。');
+    }
+  };
+
+  const handleAcceptProposal = (id: string) => {
+    setDecisions(prev => prev.map(d => (d.id === id ? acceptDecisionProposal(d) : d)));
+  };
+
+  const handleRejectProposal = (id: string) => {
+    setDecisions(prev => prev.flatMap(d => {
+      if (d.id !== id) return [d];
+      const rest = rejectDecisionProposal(d);
+      return rest ? [rest] : [];
+    }));
+  };
+
   const handleRemove = (id: string) => {
     setDecisions((prev) => prev.filter((d) => d.id !== id));
   };
@@ -143,12 +375,34 @@ const DecisionModal: React.FC<DecisionModalProps> = ({ isOpen, onClose, onSave,
       status: 'undecided',
     };
     setDecisions((prev) => [newDecision, ...prev]);
+    setExpandedIds(prev => new Set(prev).add(newDecision.id));
+  };
+
+  const toggleExpanded = (id: string) => {
+    setExpandedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
   };
 
-  const handleSaveAndClose = () => {
+  // 承認者の追加・削除は保存時にまとめて記録する
+  const handleSaveAndClose = async () => {
+    if (projectId) {
+      setError(null);
+      try {
+        await DecisionApprovalService.syncApprovers(projectId, task.extendedDetails?.decisions || [], decisions);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : '承認者の保存に失敗しました。');
+        return;
+      }
+    }
     onSave(decisions);
   };
 
+  const canReviewProposal = (decision: Decision) => canApprove || (!!currentUserId && decision.deciderUserId === currentUserId);
+  const proposalCount = decisions.filter(d => d.aiProposal).length;
+
   if (!isOpen) return null;
 
   return (
@@ -159,7 +413,7 @@ const DecisionModal: React.FC<DecisionModalProps> = ({ isOpen, onClose, onSave,
           <div className="flex items-center gap-2 sm:gap-4">
             <button onClick={handleGenerate} disabled={isLoading} className="flex items-center gap-2 px-3 py-1.5 text-sm font-semibold text-white bg-cyan-600 rounded-md hover:bg-cyan-700 disabled:bg-slate-400">
               {isLoading ? <LoadingSpinner size="sm" color="border-white" /> : <SparklesIcon className="w-5 h-5" />}
-              <span>AIでリストを更新</span>
+              <span>AIで提案を作成</span>
             </button>
             <button onClick={handleAdd} disabled={isLoading} className="flex items-center gap-2 px-3 py-1.5 text-sm font-semibold text-slate-700 bg-slate-200 rounded-md hover:bg-slate-300 disabled:bg-slate-400">
               <PlusCircleIcon className="w-5 h-5" />
@@ -172,59 +426,140 @@ const DecisionModal: React.FC<DecisionModalProps> = ({ isOpen, onClose, onSave,
         </header>
 
         {error && <div className="p-4"><ErrorMessage message={error} /></div>}
+        {proposalCount > 0 && (
+          <p className="flex-shrink-0 mx-4 mt-3 px-3 py-2 text-sm text-purple-800 bg-purple-50 border border-purple-200 rounded-md">
+            AIの提案が{proposalCount}件あります。採用するまで決定事項には反映されません。
+            {canApprove ? '' : '採用・却下はプロジェクトの所有者・管理者と、各決定事項の決定者が行います。'}
+          </p>
+        )}
 
         <main className="flex-grow p-4 overflow-auto">
-          <table className="w-full min-w-[1000px] border-collapse text-sm">
+          <table className="w-full min-w-[1200px] border-collapse text-sm">
             <thead className="sticky top-0 bg-slate-200 z-10">
               <tr>
                 <SortableHeader sortKey="status" label="ステータス" className="w-32" />
-                <SortableHeader sortKey="question" label="決定すべき項目 (Question)" className="w-[25%]" />
-                <SortableHeader sortKey="decision" label="決定した内容 (Decision)" className="w-[25%]" />
-                <SortableHeader sortKey="reasoning" label="理由/重要性" className="w-[25%]" />
+                <SortableHeader sortKey="question" label="決定すべき項目 (Question)" className="w-[22%]" />
+                <SortableHeader sortKey="decision" label="決定した内容 (Decision)" className="w-[22%]" />
+                <SortableHeader sortKey="reasoning" label="理由/重要性" className="w-[22%]" />
+                <th className="p-2 border border-slate-300 w-36 text-left font-semibold text-slate-700">決定者・承認</th>
                 <SortableHeader sortKey="date" label="日付" className="w-36" />
-                <th className="p-2 border border-slate-300 w-16">アクション</th>
+                <th className="p-2 border border-slate-300 w-24">アクション</th>
               </tr>
             </thead>
             <tbody>
-              {sortedDecisions.map((decision) => (
-                <tr key={decision.id} className="bg-white hover:bg-slate-50 transition-colors">
-                  <td className="border border-slate-300 align-top p-2">
-                    <select
-                      value={decision.status}
-                      onChange={(e) => handleStatusChange(decision.id, e.target.value as 'decided' | 'undecided')}
-                      className={`w-full p-2 rounded-md font-semibold text-xs border ${decision.status === 'decided' ? 'bg-green-100 text-green-800 border-green-200' : 'bg-yellow-100 text-yellow-800 border-yellow-200'}`}
-                    >
-                      <option value="undecided">未決定</option>
-                      <option value="decided">決定済み</option>
-                    </select>
-                  </td>
-                  <td className="border border-slate-300"><EditableCell value={decision.question || ''} onChange={(val) => handleUpdate(decision.id, { question: val })} placeholder="例：どのクラウドプロバイダーを利用するか？" /></td>
-                  <td className="border border-slate-300"><EditableCell value={decision.decision || ''} onChange={(val) => handleUpdate(decision.id, { decision: val })} placeholder="決定内容..." /></td>
-                  <td className="border border-slate-300"><EditableCell value={decision.reasoning || ''} onChange={(val) => handleUpdate(decision.id, { reasoning: val })} placeholder="理由や背景..." /></td>
-                  <td className="border border-slate-300 align-top p-2">
-                    <input
-                      type="date"
-                      value={decision.date || ''}
-                      onChange={(e) => handleUpdate(decision.id, { date: e.target.value })}
-                      className="w-full bg-transparent border-b border-dotted border-slate-400 outline-none p-1 text-xs text-slate-600 focus:border-solid focus:border-blue-500 disabled:border-none disabled:bg-slate-100"
-                      disabled={decision.status === 'undecided'}
-                    />
-                  </td>
-                  <td className="border border-slate-300 text-center align-middle">
-                    <button
-                      onClick={() => handleRemove(decision.id)}
-                      className="text-red-400 hover:text-red-700 p-1 rounded-full hover:bg-red-100 transition-colors"
-                      title="この項目を削除"
-                    >
-                      <TrashIcon className="w-5 h-5" />
-                    </button>
-                  </td>
-                </tr>
-              ))}
+              {sortedDecisions.map((decision) => {
+                const approvalState = getDecisionApprovalState(decision);
+                const approvals = decision.approvals || [];
+                const isExpanded = expandedIds.has(decision.id);
+                const proposal = decision.aiProposal;
+                return (
+                  <React.Fragment key={decision.id}>
+                    <tr className={`bg-white hover:bg-slate-50 transition-colors ${proposal?.isNew ? 'opacity-70' : ''}`}>
+                      <td className="border border-slate-300 align-top p-2">
+                        <select
+                          value={decision.status}
+                          onChange={(e) => handleStatusChange(decision.id, e.target.value as Decision['status'])}
+                          className={`w-full p-2 rounded-md font-semibold text-xs border ${decision.status === 'decided' ? 'bg-green-100 text-green-800 border-green-200' : 'bg-yellow-100 text-yellow-800 border-yellow-200'}`}
+                        >
+                          <option value="undecided">{DECISION_STATUS_LABELS.undecided}</option>
+                          <option value="decided">{DECISION_STATUS_LABELS.decided}</option>
+                        </select>
+                      </td>
+                      <td className="border border-slate-300"><EditableCell value={decision.question || ''} onChange={(val) => handleUpdate(decision.id, { question: val })} placeholder="例：どのクラウドプロバイダーを利用するか？" /></td>
+                      <td className="border border-slate-300"><EditableCell value={decision.decision || ''} onChange={(val) => handleUpdate(decision.id, { decision: val })} placeholder="決定内容..." /></td>
+                      <td className="border border-slate-300"><EditableCell value={decision.reasoning || ''} onChange={(val) => handleUpdate(decision.id, { reasoning: val })} placeholder="理由や背景..." /></td>
+                      <td className="border border-slate-300 align-top p-2 text-xs">
+                        <p className="text-slate-700 truncate" title={decision.decider}>{decision.decider || <span className="text-slate-400">決定者未設定</span>}</p>
+                        <span className={`inline-block mt-1 px-2 py-0.5 rounded-full font-semibold ${approvalStateStyles[approvalState]}`}>
+                          {DECISION_APPROVAL_STATE_LABELS[approvalState]}
+                          {approvalState === 'pending' && ` ${approvals.filter(approval => approval.status === 'approved').length}/${approvals.length}`}
+                        </span>
+                      </td>
+                      <td className="border border-slate-300 align-top p-2">
+                        <input
+                          type="date"
+                          value={decision.date || ''}
+                          onChange={(e) => handleUpdate(decision.id, { date: e.target.value })}
+                          className="w-full bg-transparent border-b border-dotted border-slate-400 outline-none p-1 text-xs text-slate-600 focus:border-solid focus:border-blue-500 disabled:border-none disabled:bg-slate-100"
+                          disabled={decision.status === 'undecided'}
+                        />
+                      </td>
+                      <td className="border border-slate-300 text-center align-middle">
+                        <button
+                          onClick={() => toggleExpanded(decision.id)}
+                          className="text-slate-500 hover:text-blue-600 p-1 rounded-full hover:bg-blue-50 transition-colors"
+                          title={isExpanded ? '詳細を閉じる' : '選択肢・承認・影響範囲'}
+                        >
+                          {isExpanded ? <ChevronDownIcon className="w-5 h-5" /> : <ChevronRightIcon className="w-5 h-5" />}
+                        </button>
+                        {onOpenDecisionComments && (
+                          <button
+                            onClick={() => onOpenDecisionComments(decision)}
+                            className={`relative p-1 rounded-full hover:bg-blue-50 transition-colors ${decisionCommentCounts[decision.id] ? 'text-blue-600' : 'text-slate-500 hover:text-blue-600'}`}
+                            title="コメント"
+                          >
+                            <ChatBubbleIcon className="w-5 h-5" />
+                            {decisionCommentCounts[decision.id] > 0 && (
+                              <span className="absolute -top-1 -right-1 min-w-[1rem] px-1 rounded-full bg-blue-600 text-white text-[10px] leading-4">{decisionCommentCounts[decision.id]}</span>
+                            )}
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleRemove(decision.id)}
+                          className="text-red-400 hover:text-red-700 p-1 rounded-full hover:bg-red-100 transition-colors"
+                          title="この項目を削除"
+                        >
+                          <TrashIcon className="w-5 h-5" />
+                        </button>
+                      </td>
+                    </tr>
+                    {proposal && (
+                      <tr className="bg-purple-50">
+                        <td colSpan={7} className="border border-slate-300 p-3">
+                          <div className="flex items-start gap-3">
+                            <SparklesIcon className="w-5 h-5 text-purple-500 flex-shrink-0 mt-0.5" />
+                            <div className="flex-grow text-sm text-purple-900 space-y-0.5">
+                              <p className="font-semibold">{proposal.isNew ? 'AIの提案: 新しい決定事項' : 'AIの提案: 内容の更新'}</p>
+                              {(proposal.isNew || proposal.question !== decision.question) && <p>項目: {proposal.question}</p>}
+                              <p>状態: {DECISION_STATUS_LABELS[proposal.status]}{proposal.date ? `（${proposal.date}）` : ''}</p>
+                              {proposal.decision && <p>決定内容: {proposal.decision}</p>}
+                              {proposal.reasoning && <p className="text-purple-700">理由: {proposal.reasoning}</p>}
+                            </div>
+                            {canReviewProposal(decision) ? (
+                              <div className="flex gap-2 flex-shrink-0">
+                                <button onClick={() => handleRejectProposal(decision.id)} className="px-3 py-1 text-xs font-semibold text-slate-700 bg-white border border-slate-300 rounded-md hover:bg-slate-50">却下</button>
+                                <button onClick={() => handleAcceptProposal(decision.id)} className="flex items-center gap-1 px-3 py-1 text-xs font-semibold text-white bg-purple-600 rounded-md hover:bg-purple-700"><CheckIcon className="w-3 h-3" />採用</button>
+                              </div>
+                            ) : (
+                              <span className="text-xs text-purple-700 flex-shrink-0">採用待ち</span>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                    {isExpanded && (
+                      <tr>
+                        <td colSpan={7} className="border border-slate-300 p-0">
+                          <DecisionDetails
+                            decision={decision}
+                            task={task}
+                            tasks={tasks}
+                            members={members}
+                            currentUserId={currentUserId}
+                            onUpdate={updates => handleUpdate(decision.id, updates)}
+                            onRespond={(status, comment) => handleRespond(decision.id, status, comment)}
+                            generateUniqueId={generateUniqueId}
+                          />
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
                {decisions.length === 0 && (
                  <tr>
-                   <td colSpan={6} className="text-center py-12 text-slate-500 bg-white border border-slate-300">
-                     決定事項はありません。「手動で追加」するか、「AIでリストを更新」してください。
+                   <td colSpan={7} className="text-center py-12 text-slate-500 bg-white border border-slate-300">
+                     決定事項はありません。「手動で追加」するか、「AIで提案を作成」してください。
                    </td>
                  </tr>
                )}
@@ -2,9 +2,11 @@
 import React, { useState, useMemo, useCallback } from 'react';
 import { ProjectTask, GanttItem, SlideDeck, Attachment } from '../types';
 import { generateCustomSlideDeck, CustomSource, generateCustomTextReport } from '../services/geminiService';
+import { AttachmentService } from '../services/attachmentStorage';
 import { XIcon, SparklesIcon, SortAscIcon, SortDescIcon, FolderIcon, ArrowLeftIcon, GanttChartIcon, PresentationChartBarIcon, PaperClipIcon, TableCellsIcon } from './icons';
 import LoadingSpinner from './LoadingSpinner';
 import ErrorMessage from './ErrorMessage';
+import { downloadAttachment } from './AttachmentPreview';
 
 interface DocumentReference {
     id: string;
@@ -13,7 +15,8 @@ interface DocumentReference {
     taskName: string;
     subStepName: string;
     actionItemName: string;
-    source: CustomSource & { dataUrl?: string };
+    source: CustomSource;
+    attachment?: Attachment; // 添付ファイルの中身はダウンロード・レポート生成時に取得する
 }
 
 interface DocumentCenterModalProps {
@@ -81,7 +84,8 @@ const DocumentCenterModal: React.FC<DocumentCenterModalProps> = ({
                 docs.push({
                     id: att.id, name: att.name, type: 'Attachment',
                     taskName: task.title, subStepName: '', actionItemName: '',
-                    source: { name: att.name, type: att.type.startsWith('image/') ? 'image' : 'text', content: att.dataUrl, dataUrl: att.dataUrl }
+                    source: { name: att.name, type: att.type.startsWith('image/') ? 'image' : 'text', content: null },
+                    attachment: att,
                 });
             });
             task.extendedDetails?.subSteps?.forEach(ss => {
@@ -89,7 +93,8 @@ const DocumentCenterModal: React.FC<DocumentCenterModalProps> = ({
                     docs.push({
                         id: att.id, name: att.name, type: 'Attachment',
                         taskName: task.title, subStepName: ss.text, actionItemName: '',
-                        source: { name: att.name, type: att.type.startsWith('image/') ? 'image' : 'text', content: att.dataUrl, dataUrl: att.dataUrl }
+                        source: { name: att.name, type: att.type.startsWith('image/') ? 'image' : 'text', content: null },
+                        attachment: att,
                     });
                 });
                 ss.actionItems?.forEach(ai => {
@@ -97,7 +102,8 @@ const DocumentCenterModal: React.FC<DocumentCenterModalProps> = ({
                          docs.push({
                             id: att.id, name: att.name, type: 'Attachment',
                             taskName: task.title, subStepName: ss.text, actionItemName: ai.text,
-                            source: { name: att.name, type: att.type.startsWith('image/') ? 'image' : 'text', content: att.dataUrl, dataUrl: att.dataUrl }
+                            source: { name: att.name, type: att.type.startsWith('image/') ? 'image' : 'text', content: null },
+                            attachment: att,
                         });
                     });
                     if (ai.report?.matrixData) {
@@ -175,11 +181,13 @@ const DocumentCenterModal: React.FC<DocumentCenterModalProps> = ({
         setError(null);
         setGeneratedText(null);
 
-        const sourcesToUse = allDocuments
-            .filter(doc => selectedDocs.has(doc.id))
-            .map(doc => doc.source);
-        
         try {
+            const sourcesToUse = await Promise.all(allDocuments
+                .filter(doc => selectedDocs.has(doc.id))
+                .map(async doc => doc.attachment
+                    ? { ...doc.source, content: await AttachmentService.getDataUrl(doc.attachment) }
+                    : doc.source));
+
             if (reportFormat === 'slides') {
                 const deck = await generateCustomSlideDeck(sourcesToUse, customPrompt);
                 onReportGenerated(deck);
@@ -205,10 +213,7 @@ const DocumentCenterModal: React.FC<DocumentCenterModalProps> = ({
       }
     };
     
-    const getLinkForSource = (source: CustomSource & { dataUrl?: string }): string | undefined => {
-        if (source.dataUrl) {
-            return source.dataUrl;
-        }
+    const getLinkForSource = (source: CustomSource): string | undefined => {
         if (source.type === 'json') {
             try {
                 const jsonString = JSON.stringify(source.content, null, 2);
@@ -219,7 +224,13 @@ const DocumentCenterModal: React.FC<DocumentCenterModalProps> = ({
         return undefined;
     };
     
-    const downloadFile = (source: CustomSource & { dataUrl?: string }, fileName: string) => {
+    const downloadFile = (doc: DocumentReference) => {
+        if (doc.attachment) {
+            downloadAttachment(doc.attachment);
+            return;
+        }
+        const { source } = doc;
+        const fileName = doc.name;
         const link = getLinkForSource(source);
         if (link) {
             const a = document.createElement('a');
@@ -254,14 +265,14 @@ const DocumentCenterModal: React.FC<DocumentCenterModalProps> = ({
                     </thead>
                     <tbody>
                         {sortedDocuments.map(doc => {
-                             const link = getLinkForSource(doc.source);
+                             const isDownloadable = !!doc.attachment || doc.source.type === 'json';
                              return (
                                 <tr key={doc.id} className="bg-white hover:bg-slate-50 transition-colors">
                                     <td className="border border-slate-300 align-middle text-center p-2"><input type="checkbox" checked={selectedDocs.has(doc.id)} onChange={() => handleToggleSelection(doc.id)} className="w-4 h-4 accent-blue-600" /></td>
                                     <td className="border border-slate-300 p-2 font-medium text-slate-800">
-                                        {link ? (
+                                        {isDownloadable ? (
                                             <button 
-                                                onClick={() => downloadFile(doc.source, doc.name)}
+                                                onClick={() => downloadFile(doc)}
                                                 className="hover:underline text-blue-600 text-left"
                                             >
                                                 {doc.name}
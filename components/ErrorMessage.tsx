@@ -3,17 +3,26 @@ import React from 'react';
 
 interface ErrorMessageProps {
   message: string | null;
+  details?: string[]; // 検証エラーなどの詳細（折りたたんで表示）
 }
 
-const ErrorMessage: React.FC<ErrorMessageProps> = ({ message }) => {
+const ErrorMessage: React.FC<ErrorMessageProps> = ({ message, details }) => {
   if (!message) return null;
 
   return (
     <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-md relative" role="alert">
       <strong className="font-bold">Error: </strong>
       <span className="block sm:inline">{message}</span>
+      {details && details.length > 0 && (
+        <details className="mt-2 text-xs">
+          <summary className="cursor-pointer">詳細 ({details.length}件)</summary>
+          <ul className="list-disc list-inside mt-1 space-y-0.5 break-all">
+            {details.map((detail, index) => <li key={index}>{detail}</li>)}
+          </ul>
+        </details>
+      )}
     </div>
   );
 };
 
-export default ErrorMessage;
\ No newline at end of file
+export default ErrorMessage;
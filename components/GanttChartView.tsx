@@ -1,67 +1,78 @@
 import React, { useMemo, useState, useEffect, useCallback, useRef } from 'react';
 import * as htmlToImage from 'html-to-image';
-import { GanttItem } from '../types';
-import { XIcon, RefreshIcon, ChevronDownIcon, CheckSquareIcon, SquareIcon, DownloadIcon } from './icons';
+import { GanttItem, ProjectBaseline } from '../types';
+import { GanttChange, canLinkGanttItems } from '../services/projectScheduler';
+import {
+  GanttZoomLevel, GANTT_DAY_WIDTHS, GANTT_CRITICAL_COLOR, GANTT_BASELINE_COLOR,
+  buildTimelineHeaders, createGanttColorResolver, getGanttRootTaskId,
+} from '../services/ganttTimeline';
+import { XIcon, SparklesIcon, ChevronDownIcon, CheckSquareIcon, SquareIcon, DownloadIcon, UndoIcon, RedoIcon } from './icons';
 import LoadingSpinner from './LoadingSpinner';
 
 interface GanttChartViewProps {
   data: GanttItem[];
   onClose: () => void;
   onItemClick?: (item: GanttItem) => void;
-  onRegenerate: () => Promise<void>;
-  isRegenerating: boolean;
+  onSuggestDurations: () => Promise<void>;
+  isSuggestingDurations: boolean;
+  error?: string | null;
+  onChange?: (change: GanttChange) => void;
+  onUndo?: () => void;
+  canUndo?: boolean;
+  onRedo?: () => void;
+  canRedo?: boolean;
+  baseline?: ProjectBaseline | null;
+  onOpenBaselines?: () => void;
 }
 
 const ROW_HEIGHT = 40;
 const HEADER_HEIGHT = 64;
 const TASK_LIST_WIDTH = 320;
-const TASK_COLORS = ['#3B82F6', '#F59E0B', '#10B981', '#EF4444', '#6B7280', '#6366F1', '#EC4899', '#8B5CF6'];
-type ZoomLevel = 'day' | 'week' | 'month';
+const CRITICAL_COLOR = GANTT_CRITICAL_COLOR;
+const BASELINE_COLOR = GANTT_BASELINE_COLOR;
+type ZoomLevel = GanttZoomLevel;
+type DragMode = 'move' | 'resize-start' | 'resize-end' | 'link';
+
+interface DragState {
+  item: GanttItem;
+  mode: DragMode;
+  originX: number;
+  deltaX: number;
+  pointer: { x: number; y: number } | null; // 依存関係を追加中のポインタ位置（タイムライン基準）
+}
 
-const GanttChartView: React.FC<GanttChartViewProps> = ({ data, onClose, onItemClick, onRegenerate, isRegenerating }) => {
+const GanttChartView: React.FC<GanttChartViewProps> = ({
+  data, onClose, onItemClick, onSuggestDurations, isSuggestingDurations, error,
+  onChange, onUndo, canUndo = false, onRedo, canRedo = false, baseline, onOpenBaselines,
+}) => {
   const [showDependencies, setShowDependencies] = useState(true);
+  const [showCriticalPath, setShowCriticalPath] = useState(true);
   const [expandedItems, setExpandedItems] = useState<Set<string>>(new Set());
   const [actionFilter, setActionFilter] = useState<'all' | 'completed' | 'pending'>('all');
   const ganttContentRef = useRef<HTMLDivElement>(null);
   const [isDownloading, setIsDownloading] = useState(false);
+  const timelineRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const dragRef = useRef<DragState | null>(null);
   
   const [zoomLevel, setZoomLevel] = useState<ZoomLevel>('day');
   const [dateRange, setDateRange] = useState({ start: '', end: '' });
 
-  const dayWidths: Record<ZoomLevel, number> = { day: 40, week: 15, month: 5 };
-  const dayWidth = dayWidths[zoomLevel];
-
-  const taskColorMap = useMemo(() => {
-    const map = new Map<string, string>();
-    data.filter(i => i.type === 'task').forEach((task, index) => {
-        map.set(task.id, TASK_COLORS[index % TASK_COLORS.length]);
-    });
-    return map;
-  }, [data]);
-
-  const getRootTaskId = useCallback((item: GanttItem, dataMap: Map<string, GanttItem>): string | null => {
-      if (item.type === 'task') return item.id;
-      let current = item;
-      while (current.parentId) {
-          const parent = dataMap.get(current.parentId);
-          if (!parent) return null;
-          if (parent.type === 'task') return parent.id;
-          current = parent;
-      }
-      return null;
-  }, []);
+  const dayWidth = GANTT_DAY_WIDTHS[zoomLevel];
 
+  const getRootTaskId = getGanttRootTaskId;
   const dataMap = useMemo(() => new Map(data.map(item => [item.id, item])), [data]);
-
-  const getItemColor = useCallback((item: GanttItem): string => {
-      const rootId = getRootTaskId(item, dataMap);
-      return rootId ? taskColorMap.get(rootId) || '#9CA3AF' : '#9CA3AF';
-  }, [dataMap, taskColorMap, getRootTaskId]);
+  const baselineMap = useMemo(() => new Map((baseline?.items || []).map(item => [item.id, item])), [baseline]);
+  const getItemColor = useMemo(() => createGanttColorResolver(data), [data]);
 
 
+  // 新しく現れたタスクだけを展開する（編集のたびに開閉状態が戻らないように）
+  const knownTaskIdsRef = useRef<Set<string>>(new Set());
   useEffect(() => {
-    const taskIds = new Set(data.filter(item => item.type === 'task').map(item => item.id));
-    setExpandedItems(taskIds);
+    const newTaskIds = data.filter(item => item.type === 'task' && !knownTaskIdsRef.current.has(item.id)).map(item => item.id);
+    if (newTaskIds.length === 0) return;
+    newTaskIds.forEach(id => knownTaskIdsRef.current.add(id));
+    setExpandedItems(prev => new Set([...prev, ...newTaskIds]));
   }, [data]);
   
   const toggleExpand = (itemId: string) => {
@@ -107,8 +118,10 @@ const GanttChartView: React.FC<GanttChartViewProps> = ({ data, onClose, onItemCl
       const today = new Date();
       return { timelineStart: today, totalDays: 30 };
     }
-    const startDates = data.map(d => new Date(d.start)).filter(d => !isNaN(d.getTime()));
-    const endDates = data.map(d => new Date(d.end)).filter(d => !isNaN(d.getTime()));
+    // ベースラインの表示中は、基準の日程も表示範囲に含める
+    const rangeItems = [...data, ...(baseline?.items || [])];
+    const startDates = rangeItems.map(d => new Date(d.start)).filter(d => !isNaN(d.getTime()));
+    const endDates = rangeItems.map(d => new Date(d.end)).filter(d => !isNaN(d.getTime()));
 
     let projectMinDate: Date, projectMaxDate: Date;
 
@@ -133,58 +146,9 @@ const GanttChartView: React.FC<GanttChartViewProps> = ({ data, onClose, onItemCl
 
     const totalDaysValue = (viewEndDate.getTime() - viewStartDate.getTime()) / (1000 * 3600 * 24);
     return { timelineStart: viewStartDate, totalDays: Math.ceil(totalDaysValue) };
-  }, [data, dateRange]);
-
-  const timelineHeaders = useMemo(() => {
-    const getWeekNumber = (d: Date) => {
-        d = new Date(Date.UTC(d.getFullYear(), d.getMonth(), d.getDate()));
-        d.setUTCDate(d.getUTCDate() + 4 - (d.getUTCDay()||7));
-        const yearStart = new Date(Date.UTC(d.getUTCFullYear(),0,1));
-        return Math.ceil((((d.getTime() - yearStart.getTime()) / 86400000) + 1)/7);
-    }
+  }, [data, dateRange, baseline]);
 
-    const headers: { label: string, secondaryLabel?: string, width: number }[] = [];
-    let currentDate = new Date(timelineStart);
-    
-    if (zoomLevel === 'day') {
-        for (let i = 0; i < totalDays; i++) {
-            headers.push({
-                secondaryLabel: currentDate.toLocaleDateString('ja-JP', { weekday: 'short' }),
-                label: String(currentDate.getDate()),
-                width: dayWidth
-            });
-            currentDate.setDate(currentDate.getDate() + 1);
-        }
-    } else if (zoomLevel === 'week') {
-        for (let i = 0; i < totalDays; i++) {
-            const dayOfWeek = currentDate.getDay();
-            if (dayOfWeek === 1 || headers.length === 0) { // Monday or first day
-                headers.push({
-                    label: `W${getWeekNumber(currentDate)}`,
-                    secondaryLabel: currentDate.toLocaleDateString('ja-JP', { month: 'short' }),
-                    width: 0
-                });
-            }
-            headers[headers.length - 1].width += dayWidth;
-            currentDate.setDate(currentDate.getDate() + 1);
-        }
-    } else if (zoomLevel === 'month') {
-        let currentMonth = -1;
-        for (let i = 0; i < totalDays; i++) {
-            const month = currentDate.getMonth();
-            if (month !== currentMonth) {
-                currentMonth = month;
-                headers.push({
-                    label: currentDate.toLocaleDateString('ja-JP', { month: 'long', year: 'numeric' }),
-                    width: 0
-                });
-            }
-            headers[headers.length - 1].width += dayWidth;
-            currentDate.setDate(currentDate.getDate() + 1);
-        }
-    }
-    return headers;
-  }, [timelineStart, totalDays, zoomLevel, dayWidth]);
+  const timelineHeaders = useMemo(() => buildTimelineHeaders(timelineStart, totalDays, zoomLevel), [timelineStart, totalDays, zoomLevel]);
 
   const getDaysFromStart = (dateStr: string) => {
     const date = new Date(dateStr);
@@ -203,6 +167,93 @@ const GanttChartView: React.FC<GanttChartViewProps> = ({ data, onClose, onItemCl
 
   const hasChildren = (itemId: string) => data.some(item => item.parentId === itemId);
 
+  const updateDrag = (next: DragState | null) => {
+    dragRef.current = next;
+    setDrag(next);
+  };
+
+  const startDrag = (e: React.PointerEvent, item: GanttItem, mode: DragMode) => {
+    if (!onChange || e.button !== 0) return;
+    e.stopPropagation();
+    e.preventDefault();
+    updateDrag({ item, mode, originX: e.clientX, deltaX: 0, pointer: null });
+  };
+
+  // ドラッグ中はウィンドウ全体でポインタを追跡し、離した時点で日数単位の変更として確定する
+  const isDragging = drag !== null;
+  useEffect(() => {
+    if (!isDragging) return;
+
+    const toTimelinePoint = (e: PointerEvent) => {
+      const rect = timelineRef.current?.getBoundingClientRect();
+      return rect ? { x: e.clientX - rect.left, y: e.clientY - rect.top } : null;
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      const current = dragRef.current;
+      if (!current) return;
+      updateDrag({ ...current, deltaX: e.clientX - current.originX, pointer: toTimelinePoint(e) });
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      const current = dragRef.current;
+      updateDrag(null);
+      if (!current || !onChange) return;
+
+      if (current.mode === 'link') {
+        const target = (document.elementFromPoint(e.clientX, e.clientY) as HTMLElement | null)?.closest('[data-gantt-item-id]');
+        const targetId = target?.getAttribute('data-gantt-item-id');
+        if (targetId && canLinkGanttItems(data, current.item.id, targetId)) {
+          onChange({ type: 'link', fromId: current.item.id, toId: targetId });
+        }
+        return;
+      }
+
+      const days = Math.round((e.clientX - current.originX) / dayWidth);
+      if (current.mode === 'move') {
+        // 動かさずに離した場合はクリックとして扱う
+        if (days === 0) onItemClick?.(current.item);
+        else onChange({ type: 'move', itemId: current.item.id, days });
+      } else if (days !== 0) {
+        onChange({ type: 'resize', itemId: current.item.id, edge: current.mode === 'resize-start' ? 'start' : 'end', days });
+      }
+    };
+
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+    };
+  }, [isDragging, data, dayWidth, onChange, onItemClick]);
+
+  const previewDays = drag && drag.mode !== 'link' ? Math.round(drag.deltaX / dayWidth) : 0;
+
+  // 子を持つバーを移動している場合は、その配下のバーも一緒に動かして表示する
+  const isMovedWithDrag = (item: GanttItem): boolean => {
+    if (!drag || drag.mode !== 'move') return false;
+    let current: GanttItem | undefined = item;
+    while (current) {
+      if (current.id === drag.item.id) return true;
+      current = current.parentId ? dataMap.get(current.parentId) : undefined;
+    }
+    return false;
+  };
+
+  const linkTargetIds = useMemo(() => {
+    if (!drag || drag.mode !== 'link') return null;
+    return new Set(data.filter(item => canLinkGanttItems(data, drag.item.id, item.id)).map(item => item.id));
+  }, [drag?.item.id, drag?.mode, data]);
+
+  const handleUnlink = (fromId: string, toId: string) => {
+    if (!onChange) return;
+    const fromName = dataMap.get(fromId)?.name ?? '';
+    const toName = dataMap.get(toId)?.name ?? '';
+    if (confirm(`「${fromName}」→「${toName}」の依存関係を削除しますか？`)) {
+      onChange({ type: 'unlink', fromId, toId });
+    }
+  };
+
   const handleDownloadPng = useCallback(() => {
     if (ganttContentRef.current === null) {
         alert('チャート要素が見つかりません。');
@@ -231,6 +282,28 @@ const GanttChartView: React.FC<GanttChartViewProps> = ({ data, onClose, onItemCl
     });
   }, []);
 
+  // 画面と同じ表示単位・範囲・表示中の行で、ページに分割したベクター PDF を出力する
+  const handleDownloadPdf = async () => {
+    setIsDownloading(true);
+    try {
+      const { downloadGanttPdf } = await import('../services/pdfExport');
+      await downloadGanttPdf({
+        items: visibleItems,
+        timelineStart,
+        totalDays,
+        zoomLevel,
+        showDependencies,
+        showCriticalPath,
+        baseline,
+      }, 'gantt-chart');
+    } catch (err) {
+      console.error('ガントチャートのPDF出力に失敗しました。', err);
+      alert(err instanceof Error ? err.message : 'PDFの作成に失敗しました。');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
   const totalTimelineWidth = useMemo(() => timelineHeaders.reduce((sum, h) => sum + h.width, 0), [timelineHeaders]);
 
   return (
@@ -256,6 +329,19 @@ const GanttChartView: React.FC<GanttChartViewProps> = ({ data, onClose, onItemCl
                 <button onClick={() => setDateRange({start: '', end: ''})} className="text-xs px-2 py-1 bg-slate-200 rounded-md hover:bg-slate-300">リセット</button>
             </div>
             
+            {onChange && (
+                <div className="flex items-center gap-1">
+                    <button onClick={onUndo} disabled={!canUndo} title="元に戻す" className="p-1.5 rounded-md text-slate-600 hover:bg-slate-100 disabled:text-slate-300 disabled:hover:bg-transparent"><UndoIcon className="w-5 h-5" /></button>
+                    <button onClick={onRedo} disabled={!canRedo} title="やり直す" className="p-1.5 rounded-md text-slate-600 hover:bg-slate-100 disabled:text-slate-300 disabled:hover:bg-transparent"><RedoIcon className="w-5 h-5" /></button>
+                </div>
+            )}
+
+            {onOpenBaselines && (
+                <button onClick={onOpenBaselines} className="inline-flex items-center gap-2 px-3 py-1.5 text-sm font-semibold text-slate-700 bg-slate-100 rounded-md hover:bg-slate-200">
+                    ベースライン{baseline ? `: ${baseline.name}` : ''}
+                </button>
+            )}
+
             <button
                 onClick={handleDownloadPng}
                 disabled={isDownloading}
@@ -264,6 +350,14 @@ const GanttChartView: React.FC<GanttChartViewProps> = ({ data, onClose, onItemCl
                 {isDownloading ? <LoadingSpinner size="sm" color="border-white" /> : <DownloadIcon className="w-4 h-4" />}
                 PNG
             </button>
+            <button
+                onClick={handleDownloadPdf}
+                disabled={isDownloading}
+                className="inline-flex items-center gap-2 px-3 py-1.5 text-sm font-semibold text-white bg-green-600 rounded-md hover:bg-green-700 disabled:bg-slate-400"
+            >
+                {isDownloading ? <LoadingSpinner size="sm" color="border-white" /> : <DownloadIcon className="w-4 h-4" />}
+                PDF
+            </button>
             <button onClick={onClose} className="inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold text-slate-700 bg-slate-100 rounded-md hover:bg-slate-200">
                 <XIcon className="w-5 h-5"/>
                 閉じる
@@ -277,14 +371,20 @@ const GanttChartView: React.FC<GanttChartViewProps> = ({ data, onClose, onItemCl
                 <button onClick={() => setActionFilter('completed')} className={`px-3 py-1 text-xs rounded-full ${actionFilter === 'completed' ? 'bg-white shadow-sm' : ''}`}>完了</button>
             </div>
              <div className="flex items-center gap-4">
+                 {error && <span className="text-sm text-red-600">{error}</span>}
                  <button
-                    onClick={onRegenerate}
-                    disabled={isRegenerating}
+                    onClick={onSuggestDurations}
+                    disabled={isSuggestingDurations}
+                    title="工数が未入力の項目について、AIが見積もりを提案して計画に書き込みます"
                     className="inline-flex items-center gap-2 px-3 py-1.5 text-sm font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-slate-400"
                 >
-                    {isRegenerating ? <LoadingSpinner size="sm" color="border-white" /> : <RefreshIcon className="w-4 h-4" />}
-                    AIで再生成
+                    {isSuggestingDurations ? <LoadingSpinner size="sm" color="border-white" /> : <SparklesIcon className="w-4 h-4" />}
+                    AIで工数を提案
                 </button>
+                 <label className="flex items-center text-sm text-slate-600 cursor-pointer">
+                  <input type="checkbox" checked={showCriticalPath} onChange={() => setShowCriticalPath(p => !p)} className="w-4 h-4 mr-2 accent-red-600" />
+                  クリティカルパス
+                </label>
                  <label className="flex items-center text-sm text-slate-600 cursor-pointer">
                   <input type="checkbox" checked={showDependencies} onChange={() => setShowDependencies(p => !p)} className="w-4 h-4 mr-2 accent-blue-600" />
                   依存関係
@@ -328,8 +428,28 @@ const GanttChartView: React.FC<GanttChartViewProps> = ({ data, onClose, onItemCl
 
                     const startDays = getDaysFromStart(item.start);
                     const durationDays = Math.max(0.2, getDaysFromStart(item.end) - startDays + 1);
-                    const barLeft = startDays * dayWidth;
-                    const barWidth = durationDays * dayWidth;
+                    let barLeft = startDays * dayWidth;
+                    let barWidth = durationDays * dayWidth;
+                    if (isMovedWithDrag(item)) {
+                        barLeft += previewDays * dayWidth;
+                    } else if (drag?.item.id === item.id && drag.mode === 'resize-start') {
+                        const days = Math.min(previewDays, Math.floor(durationDays) - 1);
+                        barLeft += days * dayWidth;
+                        barWidth -= days * dayWidth;
+                    } else if (drag?.item.id === item.id && drag.mode === 'resize-end') {
+                        barWidth += Math.max(previewDays, 1 - Math.floor(durationDays)) * dayWidth;
+                    }
+                    const isResizable = !!onChange && !hasChildren(item.id);
+                    const isLinkable = !!onChange && item.type !== 'actionitem';
+
+                    const isCriticalShown = showCriticalPath && !!item.isCritical;
+                    const floatLabel = item.totalFloat !== undefined ? ` / 余裕 ${item.totalFloat}日` : '';
+
+                    const baselineItem = baselineMap.get(item.id);
+                    const baselineStartDays = baselineItem ? getDaysFromStart(baselineItem.start) : -1;
+                    const baselineWidth = baselineItem ? Math.max(0.2, getDaysFromStart(baselineItem.end) - baselineStartDays + 1) * dayWidth : 0;
+                    const slipDays = baselineItem ? Math.round(getDaysFromStart(item.end) - getDaysFromStart(baselineItem.end)) : 0;
+                    const slipLabel = baselineItem ? ` / 基準 ${baselineItem.start}〜${baselineItem.end}${slipDays !== 0 ? `（${slipDays > 0 ? '+' : ''}${slipDays}日）` : ''}` : '';
 
                     const barStyles = {
                         task: { height: '24px' },
@@ -360,16 +480,42 @@ const GanttChartView: React.FC<GanttChartViewProps> = ({ data, onClose, onItemCl
                             </div>
                             {/* Timeline Cell */}
                             <div className="relative" style={{ gridColumn: 2, gridRow: index + 2, borderBottom: isLastItemOfGroup ? `2px solid ${itemColor}` : '1px solid #e5e7eb' }}>
+                               {baselineItem && baselineStartDays >= 0 && (
+                                  <div
+                                    className="absolute rounded-sm pointer-events-none"
+                                    style={{ left: baselineStartDays * dayWidth, width: baselineWidth, bottom: 3, height: 4, backgroundColor: BASELINE_COLOR }}
+                                  />
+                               )}
                                {startDays >= 0 && (
                                   <div
-                                    title={`${item.name} (${item.progress}%)`}
-                                    onClick={() => onItemClick?.(item)}
-                                    className="absolute h-full flex items-center group"
-                                    style={{ left: barLeft, width: barWidth, cursor: onItemClick ? 'pointer' : 'default' }}
+                                    data-gantt-item-id={item.id}
+                                    title={`${item.name} (${item.progress}%${floatLabel}${slipLabel})${isCriticalShown ? ' - クリティカルパス' : ''}`}
+                                    onClick={onChange ? undefined : () => onItemClick?.(item)}
+                                    onPointerDown={e => startDrag(e, item, 'move')}
+                                    className="absolute h-full flex items-center group select-none"
+                                    style={{
+                                        left: barLeft,
+                                        width: barWidth,
+                                        cursor: onChange ? (drag ? 'grabbing' : 'grab') : onItemClick ? 'pointer' : 'default',
+                                        opacity: linkTargetIds && item.id !== drag?.item.id && !linkTargetIds.has(item.id) ? 0.35 : 1,
+                                    }}
                                   >
-                                    <div className="w-full rounded" style={{...barStyles[item.type], backgroundColor: itemColor}}>
+                                    <div className="w-full rounded" style={{
+                                        ...barStyles[item.type],
+                                        backgroundColor: itemColor,
+                                        boxShadow: isCriticalShown ? `0 0 0 2px ${CRITICAL_COLOR}` : undefined,
+                                    }}>
                                         <div className="bg-black bg-opacity-30 h-full rounded" style={{width: `${item.progress}%`}} />
                                     </div>
+                                    {isResizable && (
+                                        <>
+                                            <div onPointerDown={e => startDrag(e, item, 'resize-start')} title="ドラッグして開始日を変更" className="absolute left-0 top-1/4 h-1/2 w-1.5 rounded-l bg-black bg-opacity-30 cursor-ew-resize opacity-0 group-hover:opacity-100" />
+                                            <div onPointerDown={e => startDrag(e, item, 'resize-end')} title="ドラッグして終了日を変更" className="absolute right-0 top-1/4 h-1/2 w-1.5 rounded-r bg-black bg-opacity-30 cursor-ew-resize opacity-0 group-hover:opacity-100" />
+                                        </>
+                                    )}
+                                    {isLinkable && (
+                                        <div onPointerDown={e => startDrag(e, item, 'link')} title="ドラッグして後続の項目に依存関係を追加" className="absolute -right-4 w-3 h-3 rounded-full bg-white border-2 border-slate-500 cursor-crosshair opacity-0 group-hover:opacity-100" />
+                                    )}
                                   </div>
                                 )}
                             </div>
@@ -378,13 +524,24 @@ const GanttChartView: React.FC<GanttChartViewProps> = ({ data, onClose, onItemCl
                 })}
                 
                 {/* Dependency Lines Wrapper */}
-                <div style={{
+                <div ref={timelineRef} style={{
                     gridColumn: 2,
                     gridRow: `2 / span ${visibleItems.length}`,
                     position: 'relative',
                     pointerEvents: 'none'
                 }}>
-                  {showDependencies && <DependencyLines items={visibleItems} getDaysFromStart={getDaysFromStart} dayWidth={dayWidth} />}
+                  {showDependencies && <DependencyLines items={visibleItems} getDaysFromStart={getDaysFromStart} dayWidth={dayWidth} showCriticalPath={showCriticalPath} onLineClick={onChange ? handleUnlink : undefined} />}
+                  {drag?.mode === 'link' && drag.pointer && (() => {
+                      const fromIndex = visibleItems.findIndex(item => item.id === drag.item.id);
+                      if (fromIndex < 0) return null;
+                      const fromX = (getDaysFromStart(drag.item.end) + 1) * dayWidth;
+                      const fromY = fromIndex * ROW_HEIGHT + ROW_HEIGHT / 2;
+                      return (
+                          <svg className="absolute top-0 left-0 w-full h-full pointer-events-none" overflow="visible">
+                              <line x1={fromX} y1={fromY} x2={drag.pointer.x} y2={drag.pointer.y} stroke="#2563EB" strokeWidth={2} strokeDasharray="4 3" />
+                          </svg>
+                      );
+                  })()}
                 </div>
             </div>
         </div>
@@ -393,9 +550,9 @@ const GanttChartView: React.FC<GanttChartViewProps> = ({ data, onClose, onItemCl
   );
 };
 
-const DependencyLines: React.FC<{ items: GanttItem[], getDaysFromStart: (date: string) => number, dayWidth: number }> = ({ items, getDaysFromStart, dayWidth }) => {
+const DependencyLines: React.FC<{ items: GanttItem[], getDaysFromStart: (date: string) => number, dayWidth: number, showCriticalPath: boolean, onLineClick?: (fromId: string, toId: string) => void }> = ({ items, getDaysFromStart, dayWidth, showCriticalPath, onLineClick }) => {
     const lines = useMemo(() => {
-        const newLines: { key: string, d: string }[] = [];
+        const newLines: { key: string, d: string, isCritical: boolean, fromId: string, toId: string }[] = [];
         const itemIndexMap = new Map<string, number>(items.map((item, index) => [item.id, index]));
 
         items.forEach((item, index) => {
@@ -418,12 +575,13 @@ const DependencyLines: React.FC<{ items: GanttItem[], getDaysFromStart: (date: s
                     const midX2 = toX - 20;
 
                     const d = `M ${fromX} ${fromY} C ${midX1} ${fromY}, ${midX2} ${toY}, ${toX} ${toY}`;
-                    newLines.push({ key: `${depId}-${item.id}`, d });
+                    const isCritical = showCriticalPath && !!fromItem.isCritical && !!item.isCritical;
+                    newLines.push({ key: `${depId}-${item.id}`, d, isCritical, fromId: depId, toId: item.id });
                 }
             });
         });
         return newLines;
-    }, [items, getDaysFromStart, dayWidth]);
+    }, [items, getDaysFromStart, dayWidth, showCriticalPath]);
 
     return (
         <svg className="absolute top-0 left-0 w-full h-full pointer-events-none" overflow="visible">
@@ -431,9 +589,33 @@ const DependencyLines: React.FC<{ items: GanttItem[], getDaysFromStart: (date: s
                 <marker id="gantt_arrowhead" markerWidth="5" markerHeight="4" refX="5" refY="2" orient="auto">
                     <polygon points="0 0, 5 2, 0 4" fill="#4b5563" />
                 </marker>
+                <marker id="gantt_arrowhead_critical" markerWidth="5" markerHeight="4" refX="5" refY="2" orient="auto">
+                    <polygon points="0 0, 5 2, 0 4" fill={CRITICAL_COLOR} />
+                </marker>
             </defs>
             {lines.map(line => (
-                <path key={line.key} d={line.d} stroke="#4b5563" strokeWidth="1" fill="none" markerEnd="url(#gantt_arrowhead)"/>
+                <g key={line.key}>
+                    <path
+                        d={line.d}
+                        stroke={line.isCritical ? CRITICAL_COLOR : '#4b5563'}
+                        strokeWidth={line.isCritical ? 2 : 1}
+                        fill="none"
+                        markerEnd={line.isCritical ? 'url(#gantt_arrowhead_critical)' : 'url(#gantt_arrowhead)'}
+                    />
+                    {onLineClick && (
+                        // クリックしやすいよう、透明な太い線を重ねる
+                        <path
+                            d={line.d}
+                            stroke="transparent"
+                            strokeWidth={10}
+                            fill="none"
+                            style={{ pointerEvents: 'stroke', cursor: 'pointer' }}
+                            onClick={() => onLineClick(line.fromId, line.toId)}
+                        >
+                            <title>クリックして依存関係を削除</title>
+                        </path>
+                    )}
+                </g>
             ))}
         </svg>
     );
@@ -1,13 +1,23 @@
 
-import React from 'react';
+import React, { useMemo } from 'react';
+import { MatrixColumnType, MatrixData } from '../types';
+import { inferColumnTypes, matchesColumnType, MATRIX_COLUMN_TYPE_LABELS } from '../services/spreadsheetImport';
 import { TrashIcon, PlusIcon } from './icons';
 
 interface MatrixEditorProps {
-    matrixData: { headers: string[]; rows: string[][] };
-    onUpdate: (newData: { headers: string[]; rows: string[][] }) => void;
+    matrixData: MatrixData;
+    onUpdate: (newData: MatrixData) => void;
 }
 
+const COLUMN_TYPE_PLACEHOLDERS: Partial<Record<MatrixColumnType, string>> = { number: '0', percent: '0%', date: 'YYYY-MM-DD', boolean: 'TRUE / FALSE' };
+
 const MatrixEditor: React.FC<MatrixEditorProps> = ({ matrixData, onUpdate }) => {
+  // 列の型が保存されていなければ値から推定する
+  const columnTypes = useMemo(
+    () => matrixData.columnTypes?.length === matrixData.headers.length ? matrixData.columnTypes : inferColumnTypes(matrixData.rows, matrixData.headers.length),
+    [matrixData]
+  );
+  const handleTypeChange = (index: number, type: MatrixColumnType) => onUpdate({ ...matrixData, columnTypes: columnTypes.map((t, i) => i === index ? type : t) });
   const handleHeaderChange = (index: number, value: string) => onUpdate({ ...matrixData, headers: matrixData.headers.map((h, i) => i === index ? value : h) });
   const handleCellChange = (rI: number, cI: number, value: string) => onUpdate({ ...matrixData, rows: matrixData.rows.map((r, i) => i === rI ? r.map((c, j) => j === cI ? value : c) : r) });
   
@@ -18,7 +28,8 @@ const MatrixEditor: React.FC<MatrixEditorProps> = ({ matrixData, onUpdate }) =>
     const newHeader = `列 ${matrixData.headers.length + 1}`;
     onUpdate({
       headers: [...matrixData.headers, newHeader],
-      rows: matrixData.rows.map(row => [...row, ''])
+      rows: matrixData.rows.map(row => [...row, '']),
+      columnTypes: matrixData.columnTypes ? [...columnTypes, 'text'] : undefined,
     });
   };
 
@@ -26,7 +37,8 @@ const MatrixEditor: React.FC<MatrixEditorProps> = ({ matrixData, onUpdate }) =>
     if (matrixData.headers.length <= 1) return; // Don't remove the last column
     onUpdate({
       headers: matrixData.headers.filter((_, i) => i !== index),
-      rows: matrixData.rows.map(row => row.filter((_, i) => i !== index))
+      rows: matrixData.rows.map(row => row.filter((_, i) => i !== index)),
+      columnTypes: matrixData.columnTypes ? columnTypes.filter((_, i) => i !== index) : undefined,
     });
   };
 
@@ -41,6 +53,9 @@ const MatrixEditor: React.FC<MatrixEditorProps> = ({ matrixData, onUpdate }) =>
                                 <input type="text" value={h} onChange={(e) => handleHeaderChange(i, e.target.value)} className="w-full bg-transparent outline-none text-center font-semibold text-slate-800"/>
                                 <button onClick={() => removeColumn(i)} className="text-red-500 hover:text-red-700 opacity-30 hover:opacity-100" title="列を削除"><TrashIcon className="w-3 h-3" /></button>
                             </div>
+                            <select value={columnTypes[i]} onChange={(e) => handleTypeChange(i, e.target.value as MatrixColumnType)} className="w-full bg-transparent text-[10px] font-normal text-blue-600 text-center outline-none cursor-pointer" title="列の型">
+                                {(Object.keys(MATRIX_COLUMN_TYPE_LABELS) as MatrixColumnType[]).map(type => <option key={type} value={type}>{MATRIX_COLUMN_TYPE_LABELS[type]}</option>)}
+                            </select>
                         </th>
                     ))}
                     <th className="border border-slate-300 p-1 w-10"></th>
@@ -49,11 +64,22 @@ const MatrixEditor: React.FC<MatrixEditorProps> = ({ matrixData, onUpdate }) =>
             <tbody>
                 {matrixData.rows.map((row, rI) => (
                     <tr key={rI}>
-                        {row.map((cell, cI) => (
-                            <td key={cI} className="border border-slate-300 p-0">
-                                <input type="text" value={cell} onChange={(e) => handleCellChange(rI, cI, e.target.value)} className="w-full bg-white text-slate-900 outline-none p-1 focus:bg-blue-50"/>
-                            </td>
-                        ))}
+                        {row.map((cell, cI) => {
+                            const type = columnTypes[cI] ?? 'text';
+                            const isValid = matchesColumnType(cell, type);
+                            return (
+                                <td key={cI} className="border border-slate-300 p-0">
+                                    <input
+                                        type="text"
+                                        value={cell}
+                                        onChange={(e) => handleCellChange(rI, cI, e.target.value)}
+                                        placeholder={COLUMN_TYPE_PLACEHOLDERS[type]}
+                                        title={isValid ? undefined : `「${MATRIX_COLUMN_TYPE_LABELS[type]}」として読み取れない値です`}
+                                        className={`w-full text-slate-900 outline-none p-1 focus:bg-blue-50 ${isValid ? 'bg-white' : 'bg-red-50'} ${type === 'number' || type === 'percent' ? 'text-right' : ''}`}
+                                    />
+                                </td>
+                            );
+                        })}
                         <td className="border border-slate-300 p-1 text-center">
                             <button onClick={() => removeRow(rI)} className="text-red-500 hover:text-red-700" title="行を削除"><TrashIcon className="w-3 h-3" /></button>
                         </td>
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { CommentMentionNotification } from '../types';
+import { XIcon, CheckIcon } from './icons';
+import ErrorMessage from './ErrorMessage';
+
+interface MentionNotificationsModalProps {
+  notifications: CommentMentionNotification[];
+  currentProjectId: string | null;
+  onOpenComment: (notification: CommentMentionNotification) => void; // 開いているプロジェクトのコメントのみ
+  onMarkRead: (ids: string[]) => Promise<void>;
+  onClose: () => void;
+}
+
+// 自分がメンションされたコメントの通知。開いているプロジェクトのコメントはタスクを開いて確認できる
+const MentionNotificationsModal: React.FC<MentionNotificationsModalProps> = ({
+  notifications, currentProjectId, onOpenComment, onMarkRead, onClose,
+}) => {
+  const [error, setError] = useState<string | null>(null);
+
+  const markRead = async (ids: string[]) => {
+    setError(null);
+    try {
+      await onMarkRead(ids);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '通知の既読の記録に失敗しました');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 backdrop-blur-sm flex items-center justify-center p-4 z-[100]">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col">
+        <header className="flex items-center justify-between p-6 border-b border-slate-200">
+          <h3 className="text-xl font-bold text-slate-800">メンション</h3>
+          <button
+            onClick={onClose}
+            className="text-slate-500 hover:text-slate-700 transition-colors p-1 rounded-full hover:bg-slate-100"
+          >
+            <XIcon className="w-6 h-6" />
+          </button>
+        </header>
+
+        <div className="flex-grow p-6 overflow-y-auto">
+          {error && <ErrorMessage message={error} />}
+
+          {notifications.length === 0 ? (
+            <p className="text-center py-12 text-slate-500">未読のメンションはありません</p>
+          ) : (
+            <div className="space-y-3">
+              {notifications.map(notification => (
+                <div key={notification.id} className="p-4 border border-slate-200 rounded-lg bg-slate-50">
+                  <p className="text-xs text-slate-500 mb-1">
+                    {notification.projectTitle || '（タイトルなし）'} | {notification.authorName}さん | {new Date(notification.createdAt).toLocaleString('ja-JP')}
+                  </p>
+                  <p className="text-sm text-slate-800 whitespace-pre-wrap line-clamp-3">{notification.body}</p>
+                  <div className="flex gap-2 mt-3">
+                    {notification.projectId === currentProjectId ? (
+                      <button
+                        onClick={() => onOpenComment(notification)}
+                        className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                      >
+                        タスクを開く
+                      </button>
+                    ) : (
+                      <span className="text-xs text-slate-500 self-center">プロジェクト一覧からこのプロジェクトを開くと確認できます</span>
+                    )}
+                    <button
+                      onClick={() => markRead([notification.id])}
+                      className="ml-auto flex items-center gap-1 px-3 py-1.5 text-sm text-slate-700 border border-slate-300 rounded-md hover:bg-white"
+                    >
+                      <CheckIcon className="w-4 h-4" />
+                      既読にする
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <footer className="p-6 bg-slate-50 border-t flex justify-end gap-2">
+          {notifications.length > 0 && (
+            <button
+              onClick={() => markRead(notifications.map(notification => notification.id))}
+              className="px-4 py-2 text-slate-700 border border-slate-300 rounded-md hover:bg-white"
+            >
+              すべて既読にする
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="px-6 py-2 bg-slate-600 text-white rounded-md hover:bg-slate-700"
+          >
+            閉じる
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default MentionNotificationsModal;
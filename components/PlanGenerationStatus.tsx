@@ -0,0 +1,48 @@
+import React from 'react';
+import LoadingSpinner from './LoadingSpinner';
+import { XIcon } from './icons';
+
+interface PlanGenerationStatusProps {
+  isGenerating: boolean;
+  taskCount: number;
+  error?: string | null;
+  onCancel: () => void;
+  onDismiss: () => void;
+}
+
+// ストリーミング生成中の進捗と中止ボタン。生成が途中で失敗した場合は、残ったタスクが使えることを伝える
+const PlanGenerationStatus: React.FC<PlanGenerationStatusProps> = ({ isGenerating, taskCount, error, onCancel, onDismiss }) => {
+  if (!isGenerating && !error) return null;
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[80] w-[calc(100%-2rem)] max-w-xl">
+      {isGenerating ? (
+        <div className="flex items-center gap-3 px-4 py-3 bg-white border border-blue-200 rounded-lg shadow-xl">
+          <LoadingSpinner size="sm" />
+          <p className="flex-grow text-sm text-slate-700">
+            AIが計画を作成しています…
+            <span className="ml-1 font-semibold text-blue-700">{taskCount}件のタスクを受信</span>
+          </p>
+          <button
+            onClick={onCancel}
+            className="px-3 py-1.5 text-sm font-semibold text-red-700 bg-red-50 border border-red-200 rounded-md hover:bg-red-100"
+          >
+            中止
+          </button>
+        </div>
+      ) : (
+        <div className="flex items-start gap-3 px-4 py-3 bg-amber-50 border border-amber-300 rounded-lg shadow-xl">
+          <p className="flex-grow text-sm text-amber-900">
+            計画の生成が途中で止まりました: {error}
+            <span className="block mt-1 text-xs text-amber-800">生成済みの{taskCount}件のタスクはそのまま編集・保存できます。</span>
+          </p>
+          <button onClick={onDismiss} className="p-1 rounded-full hover:bg-amber-100" title="閉じる">
+            <XIcon className="w-4 h-4 text-amber-700" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlanGenerationStatus;
@@ -0,0 +1,314 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { TaskStatus } from '../types';
+import { ProjectData } from '../services/projectService';
+import { PortfolioService } from '../services/portfolioService';
+import {
+  HEALTH_STATUS_LABELS, PORTFOLIO_ROLE_LABELS, PORTFOLIO_UPCOMING_DAYS,
+  PortfolioDueItem, PortfolioMemberRole, ProjectHealthStatus, ProjectPortfolioEntry,
+  filterPortfolio, listPortfolioMembers, summarizePortfolio,
+} from '../services/portfolio';
+import { TASK_STATUS_LABELS } from '../services/slideDataBinding';
+import { localToday } from '../services/dateUtils';
+import { XIcon, RefreshIcon } from './icons';
+import LoadingSpinner from './LoadingSpinner';
+import ErrorMessage from './ErrorMessage';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const STATUS_ORDER: TaskStatus[] = [TaskStatus.COMPLETED, TaskStatus.IN_PROGRESS, TaskStatus.BLOCKED, TaskStatus.NOT_STARTED];
+
+const STATUS_BAR_CLASSES: Record<TaskStatus, string> = {
+  [TaskStatus.NOT_STARTED]: 'bg-slate-300',
+  [TaskStatus.IN_PROGRESS]: 'bg-blue-500',
+  [TaskStatus.COMPLETED]: 'bg-green-500',
+  [TaskStatus.BLOCKED]: 'bg-red-500',
+};
+
+const HEALTH_BADGE_CLASSES: Record<ProjectHealthStatus, string> = {
+  'On Track': 'bg-green-100 text-green-800',
+  'At Risk': 'bg-yellow-100 text-yellow-800',
+  'Off Track': 'bg-red-100 text-red-800',
+  'Unknown': 'bg-slate-100 text-slate-600',
+};
+
+const HEALTH_BAR_CLASSES: Record<ProjectHealthStatus, string> = {
+  'On Track': 'bg-green-500',
+  'At Risk': 'bg-yellow-500',
+  'Off Track': 'bg-red-500',
+  'Unknown': 'bg-slate-400',
+};
+
+const DUE_ITEM_KIND_LABELS: Record<PortfolioDueItem['kind'], string> = {
+  task: 'タスク',
+  substep: 'サブステップ',
+  actionitem: 'アクション',
+};
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00Z`).toLocaleDateString('ja-JP', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+const toDay = (date: string) => Date.parse(`${date}T00:00:00Z`) / MS_PER_DAY;
+
+// タスク数の内訳を積み上げ棒で表示する
+const StatusBar: React.FC<{ counts: Record<TaskStatus, number> }> = ({ counts }) => {
+  const total = STATUS_ORDER.reduce((sum, status) => sum + counts[status], 0);
+  if (total === 0) return <div className="h-2 rounded-full bg-slate-100" />;
+  return (
+    <div className="flex h-2 rounded-full overflow-hidden bg-slate-100" title={STATUS_ORDER.map(status => `${TASK_STATUS_LABELS[status]}: ${counts[status]}`).join(' / ')}>
+      {STATUS_ORDER.map(status => counts[status] > 0 && (
+        <div key={status} className={STATUS_BAR_CLASSES[status]} style={{ width: `${(counts[status] / total) * 100}%` }} />
+      ))}
+    </div>
+  );
+};
+
+const HealthBadge: React.FC<{ entry: ProjectPortfolioEntry }> = ({ entry }) => {
+  const status = entry.health?.status ?? 'Unknown';
+  const title = entry.health
+    ? `${new Date(entry.health.checkedAt).toLocaleDateString('ja-JP')} の診断: ${entry.health.summary}`
+    : 'まだ診断していません（プロジェクトを開いて「AIプロジェクト診断」を実行すると表示されます）';
+  return <span className={`px-2 py-0.5 text-xs font-semibold rounded-full whitespace-nowrap ${HEALTH_BADGE_CLASSES[status]}`} title={title}>{entry.health ? HEALTH_STATUS_LABELS[status] : '未診断'}</span>;
+};
+
+const SummaryCard: React.FC<{ label: string, children: React.ReactNode }> = ({ label, children }) => (
+  <div className="bg-slate-50 border border-slate-200 rounded-lg p-3">
+    <p className="text-xs font-semibold text-slate-500 mb-1">{label}</p>
+    {children}
+  </div>
+);
+
+const DueItemList: React.FC<{ title: string, items: PortfolioDueItem[], emptyText: string, tone: 'overdue' | 'upcoming' }> = ({ title, items, emptyText, tone }) => (
+  <section className="border border-slate-200 rounded-lg flex flex-col min-h-0">
+    <h4 className="text-sm font-semibold text-slate-700 px-3 py-2 border-b border-slate-200">{title}（{items.length}件）</h4>
+    {items.length === 0 ? (
+      <p className="text-xs text-slate-400 p-3">{emptyText}</p>
+    ) : (
+      <ul className="divide-y divide-slate-100 max-h-72 overflow-y-auto">
+        {items.map((item, index) => (
+          <li key={`${item.projectId}-${item.kind}-${index}`} className="px-3 py-2 text-xs flex gap-3">
+            <span className={`font-semibold whitespace-nowrap w-14 ${tone === 'overdue' ? 'text-red-600' : 'text-slate-700'}`}>{formatDate(item.dueDate)}</span>
+            <div className="min-w-0 flex-grow">
+              <p className="text-slate-800 truncate"><span className="text-slate-400 mr-1">[{DUE_ITEM_KIND_LABELS[item.kind]}]</span>{item.text}</p>
+              <p className="text-slate-500 truncate">{item.projectTitle} / {item.taskTitle}{item.responsible ? ` ・ 担当: ${item.responsible}` : ''}</p>
+            </div>
+          </li>
+        ))}
+      </ul>
+    )}
+  </section>
+);
+
+// プロジェクトごとの期間を同じ時間軸に並べる。バーの色は診断結果、塗りつぶしは進捗
+const PortfolioTimeline: React.FC<{ entries: ProjectPortfolioEntry[], today: string, onSelectProject: (project: ProjectData) => void }> = ({ entries, today, onSelectProject }) => {
+  const range = useMemo(() => {
+    const starts = entries.map(entry => entry.timeline.start);
+    const ends = entries.map(entry => entry.timeline.end);
+    const start = [...starts, today].reduce((a, b) => (a < b ? a : b));
+    const end = [...ends, today].reduce((a, b) => (a > b ? a : b));
+    return { startDay: toDay(start), totalDays: Math.max(toDay(end) - toDay(start) + 1, 1), start };
+  }, [entries, today]);
+
+  const percentOf = (date: string) => ((toDay(date) - range.startDay) / range.totalDays) * 100;
+
+  const monthTicks = useMemo(() => {
+    const ticks: { label: string; left: number }[] = [];
+    const cursor = new Date(`${range.start.slice(0, 7)}-01T00:00:00Z`);
+    const endTime = (range.startDay + range.totalDays) * MS_PER_DAY;
+    while (cursor.getTime() < endTime) {
+      const date = cursor.toISOString().slice(0, 10);
+      if (toDay(date) >= range.startDay) {
+        ticks.push({ label: cursor.toLocaleDateString('ja-JP', { year: '2-digit', month: 'short', timeZone: 'UTC' }), left: ((toDay(date) - range.startDay) / range.totalDays) * 100 });
+      }
+      cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+    }
+    return ticks;
+  }, [range]);
+
+  return (
+    <div className="border border-slate-200 rounded-lg p-3">
+      <div className="flex">
+        <div className="w-48 flex-shrink-0" />
+        <div className="relative flex-grow h-5 text-[10px] text-slate-400">
+          {monthTicks.map(tick => <span key={tick.left} className="absolute top-0 whitespace-nowrap" style={{ left: `${tick.left}%` }}>{tick.label}</span>)}
+        </div>
+      </div>
+      <div className="relative">
+        {entries.map(entry => {
+          const left = percentOf(entry.timeline.start);
+          const width = Math.max(percentOf(entry.timeline.end) + 100 / range.totalDays - left, 0.5);
+          const status = entry.health?.status ?? 'Unknown';
+          return (
+            <div key={entry.project.id} className="flex items-center h-7 hover:bg-slate-50 cursor-pointer" onClick={() => onSelectProject(entry.project)}>
+              <span className="w-48 flex-shrink-0 pr-2 text-xs text-slate-700 truncate" title={entry.project.title}>{entry.project.title}</span>
+              <div className="relative flex-grow h-full">
+                {monthTicks.map(tick => <div key={tick.left} className="absolute inset-y-0 w-px bg-slate-100" style={{ left: `${tick.left}%` }} />)}
+                <div className="absolute top-1.5 bottom-1.5 rounded overflow-hidden bg-slate-200" style={{ left: `${left}%`, width: `${width}%` }}
+                  title={`${formatDate(entry.timeline.start)} 〜 ${formatDate(entry.timeline.end)}（進捗 ${entry.progress}%）`}>
+                  <div className={`h-full ${HEALTH_BAR_CLASSES[status]}`} style={{ width: `${entry.progress}%` }} />
+                </div>
+                {entry.project.targetDate && (
+                  <div className="absolute top-1 w-2 h-2 rotate-45 bg-slate-700" style={{ left: `calc(${percentOf(entry.project.targetDate.slice(0, 10))}% - 4px)` }} title={`期限: ${formatDate(entry.project.targetDate.slice(0, 10))}`} />
+                )}
+              </div>
+            </div>
+          );
+        })}
+        <div className="absolute inset-y-0 pointer-events-none" style={{ left: `calc(12rem + (100% - 12rem) * ${percentOf(today) / 100})` }}>
+          <div className="w-px h-full bg-red-500" title="今日" />
+        </div>
+      </div>
+      <p className="text-[10px] text-slate-400 mt-2">バーの色は最新の診断結果、塗りつぶしは進捗、◆はプロジェクトの期限、赤線は今日です。</p>
+    </div>
+  );
+};
+
+interface PortfolioDashboardProps {
+  onClose: () => void;
+  onSelectProject: (project: ProjectData) => void;
+}
+
+// 参加しているすべてのプロジェクトの状況をまとめて表示する
+const PortfolioDashboard: React.FC<PortfolioDashboardProps> = ({ onClose, onSelectProject }) => {
+  const [entries, setEntries] = useState<ProjectPortfolioEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [memberFilter, setMemberFilter] = useState('');
+  const [roleFilter, setRoleFilter] = useState<PortfolioMemberRole | ''>('');
+
+  const loadPortfolio = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setEntries(await PortfolioService.getPortfolio());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'ポートフォリオの読み込みに失敗しました');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadPortfolio();
+  }, []);
+
+  const today = localToday();
+  const members = useMemo(() => listPortfolioMembers(entries), [entries]);
+  const filtered = useMemo(
+    () => filterPortfolio(entries, { userId: memberFilter || undefined, role: roleFilter || undefined }),
+    [entries, memberFilter, roleFilter]
+  );
+  const summary = useMemo(() => summarizePortfolio(filtered), [filtered]);
+  const overdueItems = useMemo(() => filtered.flatMap(entry => entry.overdueActionItems).sort((a, b) => a.dueDate.localeCompare(b.dueDate)), [filtered]);
+  const upcomingItems = useMemo(() => filtered.flatMap(entry => entry.upcomingDueItems).sort((a, b) => a.dueDate.localeCompare(b.dueDate)), [filtered]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 backdrop-blur-sm flex items-center justify-center p-4 z-[100]">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-7xl max-h-[94vh] flex flex-col">
+        <header className="flex items-center justify-between gap-4 p-5 border-b border-slate-200">
+          <h3 className="text-xl font-bold text-slate-800">ポートフォリオ</h3>
+          <div className="flex items-center gap-2">
+            <select value={memberFilter} onChange={e => setMemberFilter(e.target.value)} className="px-2 py-1.5 text-sm border border-slate-300 rounded-md" title="メンバーで絞り込む">
+              <option value="">すべてのメンバー</option>
+              {members.map(member => <option key={member.userId} value={member.userId}>{member.userName}</option>)}
+            </select>
+            <select value={roleFilter} onChange={e => setRoleFilter(e.target.value as PortfolioMemberRole | '')} className="px-2 py-1.5 text-sm border border-slate-300 rounded-md" title="ロールで絞り込む（メンバーと併用すると、そのメンバーのロール）">
+              <option value="">すべてのロール</option>
+              {(Object.keys(PORTFOLIO_ROLE_LABELS) as PortfolioMemberRole[]).map(role => <option key={role} value={role}>{PORTFOLIO_ROLE_LABELS[role]}</option>)}
+            </select>
+            <button onClick={loadPortfolio} disabled={isLoading} className="p-2 text-slate-500 hover:text-slate-700 rounded-md hover:bg-slate-100 disabled:text-slate-300" title="再読み込み">
+              <RefreshIcon className="w-5 h-5" />
+            </button>
+            <button onClick={onClose} className="text-slate-500 hover:text-slate-700 transition-colors p-1 rounded-full hover:bg-slate-100">
+              <XIcon className="w-6 h-6" />
+            </button>
+          </div>
+        </header>
+
+        <div className="flex-grow p-5 overflow-y-auto space-y-5">
+          {error && <ErrorMessage message={error} />}
+
+          {isLoading && entries.length === 0 ? (
+            <div className="flex items-center justify-center py-12">
+              <LoadingSpinner size="lg" text="ポートフォリオを集計中..." />
+            </div>
+          ) : filtered.length === 0 ? (
+            <p className="text-center text-slate-500 py-12">{entries.length === 0 ? 'プロジェクトがありません' : '条件に合うプロジェクトがありません'}</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                <SummaryCard label="プロジェクト">
+                  <p className="text-2xl font-bold text-slate-800">{summary.projectCount}</p>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {(Object.keys(summary.healthCounts) as ProjectHealthStatus[]).filter(status => summary.healthCounts[status] > 0).map(status => (
+                      <span key={status} className={`px-1.5 text-[10px] font-semibold rounded-full ${HEALTH_BADGE_CLASSES[status]}`}>{status === 'Unknown' ? '未診断' : HEALTH_STATUS_LABELS[status]} {summary.healthCounts[status]}</span>
+                    ))}
+                  </div>
+                </SummaryCard>
+                <SummaryCard label="タスクの状況">
+                  <StatusBar counts={summary.statusCounts} />
+                  <ul className="mt-2 grid grid-cols-2 gap-x-2 text-[11px] text-slate-600">
+                    {STATUS_ORDER.map(status => (
+                      <li key={status} className="flex items-center gap-1"><span className={`w-2 h-2 rounded-full ${STATUS_BAR_CLASSES[status]}`} />{TASK_STATUS_LABELS[status]} {summary.statusCounts[status]}</li>
+                    ))}
+                  </ul>
+                </SummaryCard>
+                <SummaryCard label="期限切れのアクションアイテム">
+                  <p className={`text-2xl font-bold ${summary.overdueActionItemCount > 0 ? 'text-red-600' : 'text-slate-800'}`}>{summary.overdueActionItemCount}</p>
+                </SummaryCard>
+                <SummaryCard label={`${PORTFOLIO_UPCOMING_DAYS}日以内の期日`}>
+                  <p className="text-2xl font-bold text-slate-800">{summary.upcomingDueItemCount}</p>
+                </SummaryCard>
+                <SummaryCard label="数値目標の達成">
+                  <p className="text-2xl font-bold text-slate-800">{summary.targets.achieved}<span className="text-sm text-slate-500"> / {summary.targets.total}</span></p>
+                  <p className="text-[11px] text-slate-500">未達 {summary.targets.missed} ・ 評価待ち {summary.targets.pending}</p>
+                </SummaryCard>
+              </div>
+
+              <div className="border border-slate-200 rounded-lg overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-50 text-xs text-slate-500">
+                    <tr>
+                      <th className="text-left font-semibold px-3 py-2">プロジェクト</th>
+                      <th className="text-left font-semibold px-3 py-2">健全性</th>
+                      <th className="text-left font-semibold px-3 py-2 w-40">タスク</th>
+                      <th className="text-right font-semibold px-3 py-2">進捗</th>
+                      <th className="text-right font-semibold px-3 py-2">期限切れ</th>
+                      <th className="text-right font-semibold px-3 py-2">近い期日</th>
+                      <th className="text-right font-semibold px-3 py-2">数値目標</th>
+                      <th className="text-right font-semibold px-3 py-2">期限</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {filtered.map(entry => (
+                      <tr key={entry.project.id} onClick={() => onSelectProject(entry.project)} className="hover:bg-blue-50 cursor-pointer">
+                        <td className="px-3 py-2 max-w-xs">
+                          <p className="font-semibold text-slate-800 truncate">{entry.project.title}</p>
+                          <p className="text-xs text-slate-500 truncate">{entry.members.map(member => member.userName).join('、')}</p>
+                        </td>
+                        <td className="px-3 py-2"><HealthBadge entry={entry} /></td>
+                        <td className="px-3 py-2"><StatusBar counts={entry.statusCounts} /></td>
+                        <td className="px-3 py-2 text-right tabular-nums">{entry.progress}%</td>
+                        <td className={`px-3 py-2 text-right tabular-nums ${entry.overdueActionItems.length > 0 ? 'text-red-600 font-semibold' : 'text-slate-400'}`}>{entry.overdueActionItems.length}</td>
+                        <td className="px-3 py-2 text-right tabular-nums">{entry.upcomingDueItems.length}</td>
+                        <td className="px-3 py-2 text-right tabular-nums">{entry.targets.total > 0 ? `${entry.targets.achieved} / ${entry.targets.total}` : '—'}</td>
+                        <td className="px-3 py-2 text-right whitespace-nowrap">{entry.project.targetDate ? formatDate(entry.project.targetDate.slice(0, 10)) : '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <PortfolioTimeline entries={filtered} today={today} onSelectProject={onSelectProject} />
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <DueItemList title="期限切れのアクションアイテム" items={overdueItems} emptyText="期限切れのアクションアイテムはありません。" tone="overdue" />
+                <DueItemList title={`${PORTFOLIO_UPCOMING_DAYS}日以内の期日`} items={upcomingItems} emptyText="近づいている期日はありません。" tone="upcoming" />
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PortfolioDashboard;
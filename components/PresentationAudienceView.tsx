@@ -0,0 +1,82 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ProjectTask, SlideDeck } from '../types';
+import { SlideView } from './SlideRenderer';
+import { isPresentationKeyHandledByTarget, useFullscreen } from './PresenterView';
+import { getSlideTheme } from '../services/slideDeckContent';
+import { PresentationAction, PresentationChannel, getPresentationKeyAction, openPresentationChannel } from '../services/presentationSync';
+
+// 聴衆用ウィンドウ。発表者ビューから届いたデッキと表示位置のとおりに、現在のスライドだけを映す。
+// キー操作やクリックは発表者ビューに送り、発表者ビュー側の操作として反映する
+const PresentationAudienceView: React.FC<{ channelId: string }> = ({ channelId }) => {
+    const [content, setContent] = useState<{ deck: SlideDeck; tasks: ProjectTask[] } | null>(null);
+    const [position, setPosition] = useState({ slideIndex: 0, isBlackout: false });
+    const [hasEnded, setHasEnded] = useState(false);
+    const channelRef = useRef<PresentationChannel | null>(null);
+    const { isFullscreen, toggleFullscreen } = useFullscreen();
+
+    useEffect(() => {
+        const channel = openPresentationChannel(channelId, message => {
+            switch (message.type) {
+                case 'deck':
+                    setContent({ deck: message.deck, tasks: message.tasks });
+                    setHasEnded(false);
+                    break;
+                case 'position':
+                    setPosition({ slideIndex: message.slideIndex, isBlackout: message.isBlackout });
+                    break;
+                case 'end':
+                    setHasEnded(true);
+                    break;
+            }
+        });
+        channelRef.current = channel;
+        channel.post({ type: 'hello' });
+        return () => {
+            channel.close();
+            channelRef.current = null;
+        };
+    }, [channelId]);
+
+    const sendAction = (action: PresentationAction) => channelRef.current?.post({ type: 'action', action });
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (isPresentationKeyHandledByTarget(e)) return;
+            if (e.key === 'f' || e.key === 'F') {
+                toggleFullscreen();
+                return;
+            }
+            const action = getPresentationKeyAction(e.key);
+            if (!action || e.ctrlKey || e.metaKey || e.altKey) return;
+            e.preventDefault();
+            channelRef.current?.post({ type: 'action', action });
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [toggleFullscreen]);
+
+    const slide = content?.deck.slides[position.slideIndex];
+
+    return (
+        <div className="fixed inset-0 bg-black text-white flex items-center justify-center cursor-pointer" onClick={() => sendAction('next')}>
+            {hasEnded ? (
+                <p className="text-sm text-slate-400">発表者がプレゼンテーションを終了しました。このウィンドウは閉じてかまいません。</p>
+            ) : !content || !slide ? (
+                <p className="text-sm text-slate-400">発表者ビューからの接続を待っています…</p>
+            ) : !position.isBlackout && (
+                <SlideView slide={slide} slideNumber={position.slideIndex + 1} tasks={content.tasks} theme={getSlideTheme(content.deck)} />
+            )}
+            {!isFullscreen && (
+                <button
+                    onClick={e => { e.stopPropagation(); toggleFullscreen(); }}
+                    className="absolute top-3 right-3 px-3 py-1.5 text-xs font-semibold bg-slate-800/80 rounded-md hover:bg-slate-700"
+                    title="全画面表示 (F)"
+                >
+                    全画面表示
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default PresentationAudienceView;
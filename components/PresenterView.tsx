@@ -0,0 +1,207 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { ProjectTask, SlideDeck } from '../types';
+import { XIcon } from './icons';
+import { SlideView } from './SlideRenderer';
+import { getSlideTheme } from '../services/slideDeckContent';
+import {
+    PresentationAction, PresentationChannel,
+    buildAudienceWindowUrl, getPresentationKeyAction, navigatePresentation, openPresentationChannel,
+} from '../services/presentationSync';
+
+// 全画面表示の状態。Esc キーなどブラウザ側で解除された場合にも追従する
+export const useFullscreen = () => {
+    const [isFullscreen, setIsFullscreen] = useState(() => !!document.fullscreenElement);
+
+    useEffect(() => {
+        const handleChange = () => setIsFullscreen(!!document.fullscreenElement);
+        document.addEventListener('fullscreenchange', handleChange);
+        return () => document.removeEventListener('fullscreenchange', handleChange);
+    }, []);
+
+    const toggleFullscreen = useCallback(() => {
+        // 全画面にできないブラウザや、操作の直後でない場合はウィンドウ内の表示のまま続ける
+        const request = document.fullscreenElement ? document.exitFullscreen() : document.documentElement.requestFullscreen?.();
+        request?.catch(err => console.warn('Failed to toggle fullscreen:', err));
+    }, []);
+
+    return { isFullscreen, toggleFullscreen };
+};
+
+// 入力欄での入力や、フォーカスのあるボタンの Space・Enter はそのまま要素に任せる
+export const isPresentationKeyHandledByTarget = (e: KeyboardEvent) => {
+    const target = e.target as HTMLElement | null;
+    if (!target) return false;
+    if (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable) return true;
+    return target.tagName === 'BUTTON' && (e.key === ' ' || e.key === 'Enter');
+};
+
+const formatElapsed = (seconds: number) => {
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    const s = seconds % 60;
+    const mmss = `${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+    return h > 0 ? `${h}:${mmss}` : mmss;
+};
+
+const HeaderButton: React.FC<{ title: string, onClick: () => void, active?: boolean, children: React.ReactNode }> = ({ title, onClick, active, children }) => (
+    <button onClick={onClick} title={title} className={`px-3 py-1.5 text-xs font-semibold text-white rounded-md ${active ? 'bg-amber-600 hover:bg-amber-700' : 'bg-slate-700 hover:bg-slate-600'}`}>
+        {children}
+    </button>
+);
+
+interface PresenterViewProps {
+    deck: SlideDeck;
+    tasks: ProjectTask[];
+    title: string;
+    initialSlideIndex?: number;
+    onClose: () => void;
+}
+
+// 発表者ビュー。現在のスライド・次のスライド・スピーカーノート・経過時間を表示し、
+// 聴衆用ウィンドウ（別ウィンドウ）には現在のスライドだけを映す
+const PresenterView: React.FC<PresenterViewProps> = ({ deck, tasks, title, initialSlideIndex = 0, onClose }) => {
+    const [slideIndex, setSlideIndex] = useState(() => Math.min(Math.max(initialSlideIndex, 0), Math.max(deck.slides.length - 1, 0)));
+    const [isBlackout, setIsBlackout] = useState(false);
+    const [elapsedSeconds, setElapsedSeconds] = useState(0);
+    const [isTimerRunning, setIsTimerRunning] = useState(true);
+    const [now, setNow] = useState(() => new Date());
+    const [channelId] = useState(() => crypto.randomUUID());
+    const channelRef = useRef<PresentationChannel | null>(null);
+    const { isFullscreen, toggleFullscreen } = useFullscreen();
+
+    // チャンネルのメッセージ処理からは常に最新の状態を参照する
+    const stateRef = useRef({ deck, tasks, slideIndex, isBlackout });
+    stateRef.current = { deck, tasks, slideIndex, isBlackout };
+
+    const applyAction = useCallback((action: PresentationAction) => {
+        if (action === 'blackout') {
+            setIsBlackout(prev => !prev);
+            return;
+        }
+        setSlideIndex(prev => navigatePresentation(prev, stateRef.current.deck.slides.length, action));
+        setIsBlackout(false);
+    }, []);
+
+    useEffect(() => {
+        const channel = openPresentationChannel(channelId, message => {
+            if (message.type === 'hello') {
+                const { deck, tasks, slideIndex, isBlackout } = stateRef.current;
+                channel.post({ type: 'deck', deck, tasks });
+                channel.post({ type: 'position', slideIndex, isBlackout });
+            } else if (message.type === 'action') {
+                applyAction(message.action);
+            }
+        });
+        channelRef.current = channel;
+        return () => {
+            channel.post({ type: 'end' });
+            channel.close();
+            channelRef.current = null;
+        };
+    }, [channelId, applyAction]);
+
+    useEffect(() => {
+        channelRef.current?.post({ type: 'deck', deck, tasks });
+    }, [deck, tasks]);
+
+    useEffect(() => {
+        channelRef.current?.post({ type: 'position', slideIndex, isBlackout });
+    }, [slideIndex, isBlackout]);
+
+    useEffect(() => {
+        const timerId = setInterval(() => {
+            setNow(new Date());
+            if (isTimerRunning) setElapsedSeconds(prev => prev + 1);
+        }, 1000);
+        return () => clearInterval(timerId);
+    }, [isTimerRunning]);
+
+    // 開いた操作の続きとして全画面にし、閉じるときに元に戻す
+    useEffect(() => {
+        if (!document.fullscreenElement) toggleFullscreen();
+        return () => {
+            if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+        };
+    }, [toggleFullscreen]);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (isPresentationKeyHandledByTarget(e)) return;
+            if (e.key === 'Escape' && !document.fullscreenElement) {
+                onClose();
+                return;
+            }
+            const action = getPresentationKeyAction(e.key);
+            if (!action || e.ctrlKey || e.metaKey || e.altKey) return;
+            e.preventDefault();
+            applyAction(action);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [applyAction, onClose]);
+
+    const handleOpenAudienceWindow = () => {
+        const audienceWindow = window.open(buildAudienceWindowUrl(channelId), `presentation-audience-${channelId}`, 'popup,width=1280,height=720');
+        if (!audienceWindow) {
+            alert('聴衆用ウィンドウを開けませんでした。ブラウザのポップアップのブロックを解除してください。');
+        }
+    };
+
+    const theme = getSlideTheme(deck);
+    const currentSlide = deck.slides[slideIndex];
+    const nextSlide = deck.slides[slideIndex + 1];
+
+    return (
+        <div className="fixed inset-0 z-[200] bg-slate-950 text-white flex flex-col p-4 gap-4">
+            <header className="flex items-center gap-4 flex-shrink-0">
+                <h2 className="text-lg font-bold truncate flex-grow">{title}</h2>
+                <span className="text-sm text-slate-300 tabular-nums">{now.toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit' })}</span>
+                <div className="flex items-center gap-1">
+                    <span className="text-2xl font-mono tabular-nums w-24 text-right" title="経過時間">{formatElapsed(elapsedSeconds)}</span>
+                    <HeaderButton title={isTimerRunning ? 'タイマーを一時停止' : 'タイマーを再開'} onClick={() => setIsTimerRunning(prev => !prev)}>{isTimerRunning ? '一時停止' : '再開'}</HeaderButton>
+                    <HeaderButton title="タイマーをリセット" onClick={() => setElapsedSeconds(0)}>リセット</HeaderButton>
+                </div>
+                <HeaderButton title="現在のスライドだけを映すウィンドウを開きます。プロジェクターや外部ディスプレイに移動して全画面にしてください" onClick={handleOpenAudienceWindow}>聴衆用ウィンドウを開く</HeaderButton>
+                <HeaderButton title="聴衆の画面を黒くします (B)" onClick={() => applyAction('blackout')} active={isBlackout}>ブラックアウト</HeaderButton>
+                <HeaderButton title="全画面表示の切り替え" onClick={toggleFullscreen}>{isFullscreen ? '全画面を解除' : '全画面'}</HeaderButton>
+                <button onClick={onClose} className="p-2 bg-slate-700 rounded-md hover:bg-slate-600" title="発表を終了"><XIcon className="w-5 h-5" /></button>
+            </header>
+
+            <div className="flex-grow flex gap-4 min-h-0">
+                <main className="flex-[3] flex flex-col gap-3 min-w-0">
+                    <div className="flex-grow min-h-0 relative cursor-pointer" onClick={() => applyAction('next')} title="クリックで次のスライドへ">
+                        {currentSlide && <SlideView slide={currentSlide} slideNumber={slideIndex + 1} tasks={tasks} theme={theme} />}
+                        {isBlackout && (
+                            <div className="absolute inset-0 bg-black/80 flex items-center justify-center text-slate-300 text-sm">聴衆の画面はブラックアウト中です（B キーで解除）</div>
+                        )}
+                    </div>
+                    <div className="flex items-center justify-center gap-4 flex-shrink-0">
+                        <button onClick={() => applyAction('previous')} disabled={slideIndex === 0} className="px-4 py-2 text-sm font-semibold bg-slate-700 rounded-md hover:bg-slate-600 disabled:text-slate-500 disabled:hover:bg-slate-700">← 前へ</button>
+                        <span className="text-sm tabular-nums w-20 text-center">{slideIndex + 1} / {deck.slides.length}</span>
+                        <button onClick={() => applyAction('next')} disabled={slideIndex >= deck.slides.length - 1} className="px-4 py-2 text-sm font-semibold bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-slate-700 disabled:text-slate-500">次へ →</button>
+                    </div>
+                </main>
+
+                <aside className="flex-[2] flex flex-col gap-4 min-w-0">
+                    <section className="flex-shrink-0">
+                        <h3 className="text-xs font-semibold text-slate-400 mb-1">次のスライド</h3>
+                        <div className="aspect-video bg-slate-900 rounded">
+                            {nextSlide
+                                ? <SlideView slide={nextSlide} slideNumber={slideIndex + 2} tasks={tasks} theme={theme} />
+                                : <div className="w-full h-full flex items-center justify-center text-sm text-slate-500">最後のスライドです</div>}
+                        </div>
+                    </section>
+                    <section className="flex-grow flex flex-col min-h-0">
+                        <h3 className="text-xs font-semibold text-slate-400 mb-1">スピーカーノート</h3>
+                        <div className="flex-grow overflow-y-auto bg-slate-900 rounded p-4 text-lg leading-relaxed whitespace-pre-wrap">
+                            {currentSlide?.notes || <span className="text-sm text-slate-500">このスライドにはノートがありません。</span>}
+                        </div>
+                    </section>
+                    <p className="text-[11px] text-slate-500 flex-shrink-0">→ / Space: 次へ　← : 前へ　Home / End: 最初・最後　B: ブラックアウト　Esc: 終了</p>
+                </aside>
+            </div>
+        </div>
+    );
+};
+
+export default PresenterView;
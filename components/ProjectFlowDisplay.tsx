@@ -1,25 +1,46 @@
-import React, { useRef, useEffect, useState, createRef, useCallback } from 'react';
-import { ProjectTask, EditableExtendedTaskDetails, ProjectHealthReport, SlideDeck, TaskStatus, GanttItem } from '../types';
+import React, { useRef, useEffect, useState, createRef, useCallback, useMemo } from 'react';
+import { ProjectTask, EditableExtendedTaskDetails, ProjectHealthReport, SlideDeck, TaskStatus, GanttItem, ProjectBaseline, CostApprovalStatus, ProjectRisk, ProposedRisk, ProjectComment, CommentMentionNotification } from '../types';
 import TaskCard from './TaskCard';
-import { TargetIcon, CalendarIcon, DownloadIcon, PlusCircleIcon, UploadIcon, RefreshIcon, UndoIcon, RedoIcon, ClipboardDocumentListIcon, SparklesIcon, PresentationChartBarIcon, PlusIcon as NewProjectIcon, GanttChartIcon, FolderIcon, KeyIcon, UserIcon } from './icons';
+import { TargetIcon, CalendarIcon, DownloadIcon, PlusCircleIcon, UploadIcon, RefreshIcon, UndoIcon, RedoIcon, ClipboardDocumentListIcon, SparklesIcon, PresentationChartBarIcon, PlusIcon as NewProjectIcon, GanttChartIcon, FolderIcon, KeyIcon, UserIcon, ResourcesIcon, TableCellsIcon, ShieldIcon, NotesIcon } from './icons';
 import FlowConnector from './FlowConnector';
 import ActionItemOverviewModal from './ActionItemOverviewModal';
 import ProjectHealthReportModal from './ProjectHealthReportModal';
-import { generateProjectHealthReport, generateProjectReportDeck, generateGanttData } from '../services/geminiService';
+import { generateProjectHealthReport, generateProjectReportDeck, suggestDurationEstimates } from '../services/geminiService';
+import { scheduleProject, applyDurationEstimates, applyGanttChange, GanttChange } from '../services/projectScheduler';
+import { createBaselineItems, computeScheduleVariance, scheduleForBaseline, scheduleStatusFromVariance, worseHealthStatus } from '../services/scheduleVariance';
 import { ProjectService } from '../services/projectService';
-import { ProjectCollaborationService } from '../services/projectCollaborationService';
+import { BaselineService } from '../services/baselineService';
+import { PortfolioService } from '../services/portfolioService';
+import { TimeTrackingService } from '../services/timeTrackingService';
+import { summarizeProjectEffort } from '../services/effortRollup';
+import { RiskService, RiskInput } from '../services/riskService';
+import { findDuplicateRisk, proposedRiskToInput } from '../services/riskRegister';
+import { respondToDecision } from '../services/decisionLog';
+import { DecisionApprovalService } from '../services/decisionApprovalService';
+import { CommentService } from '../services/commentService';
+import { countUnreadByTask } from '../services/commentThreads';
+import { SlideMasterService } from '../services/slideMasterService';
+import { ProjectCollaborationService, CanvasPresence, CanvasPresenceConnection, RemoteCursor, ProjectMember } from '../services/projectCollaborationService';
+import { LevelingSuggestion } from '../services/resourceWorkload';
 import LoadingSpinner from './LoadingSpinner';
 import SlideEditorView from './SlideEditorView';
 import ConfirmNewProjectModal from './ConfirmNewProjectModal';
 import GanttChartView from './GanttChartView';
+import BaselineModal from './BaselineModal';
+import ResourceWorkloadModal from './ResourceWorkloadModal';
+import CostDashboardModal from './CostDashboardModal';
+import RiskRegisterModal from './RiskRegisterModal';
+import DecisionLogModal from './DecisionLogModal';
 import DocumentCenterModal from './DocumentCenterModal';
 import ProjectMembersModal from './ProjectMembersModal';
 import InvitationNotificationModal from './InvitationNotificationModal';
+import MentionNotificationsModal from './MentionNotificationsModal';
 
 interface ProjectFlowDisplayProps {
   tasks: ProjectTask[];
   projectGoal: string;
   targetDate: string;
+  projectStartDate: string;
   onSelectTask: (task: ProjectTask) => void;
   onUpdateTaskExtendedDetails: (taskId: string, updates: EditableExtendedTaskDetails) => void; 
   onUpdateTaskPosition: (taskId: string, position: { x: number; y: number }) => void;
@@ -36,6 +57,7 @@ interface ProjectFlowDisplayProps {
   canRedo: boolean;
   generateUniqueId: (prefix: string) => string;
   onUpdateTaskConnections: (sourceTaskId: string, nextTaskIds: string[]) => void;
+  onUpdateTasks: (updater: (tasks: ProjectTask[]) => ProjectTask[]) => void;
   ganttData: GanttItem[] | null;
   setGanttData: (data: GanttItem[] | null) => void;
   onCustomReportGenerated: (deck: SlideDeck) => void;
@@ -43,9 +65,13 @@ interface ProjectFlowDisplayProps {
   onOpenProjectList: () => void;
   onLogout: () => void;
   currentProjectId: string | null;
+  currentUserId: string | null;
   onSaveProject: () => Promise<void>;
+  onRemoteProjectUpdate: (change: { version: number; lastModifiedBy: string | null }) => void;
 }
 
+const CURSOR_THROTTLE_MS = 50;
+
 interface ConnectorInfo {
   id: string;
   from: { x: number; y: number };
@@ -55,12 +81,12 @@ interface ConnectorInfo {
 }
 
 const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({ 
-  tasks, projectGoal, targetDate, onSelectTask, onUpdateTaskExtendedDetails, onUpdateTaskPosition, 
+  tasks, projectGoal, targetDate, projectStartDate, onSelectTask, onUpdateTaskExtendedDetails, onUpdateTaskPosition, 
   onUpdateTaskStatus, onStartNewProject, onExportProject, onAddTask, onRemoveTask, onImportSingleTask, 
   onAutoLayout, onUndo, canUndo, onRedo, canRedo,
-  generateUniqueId, onUpdateTaskConnections,
+  generateUniqueId, onUpdateTaskConnections, onUpdateTasks,
   ganttData, setGanttData, onCustomReportGenerated, onClearApiKey,
-  onOpenProjectList, onLogout, currentProjectId, onSaveProject
+  onOpenProjectList, onLogout, currentProjectId, currentUserId, onSaveProject, onRemoteProjectUpdate
 }) => {
   const singleTaskFileInputRef = useRef<HTMLInputElement>(null);
   const flowContainerRef = useRef<HTMLDivElement>(null);
@@ -82,9 +108,35 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
   const [projectReportError, setProjectReportError] = useState<string | null>(null);
   
   const [isGanttOpen, setIsGanttOpen] = useState(false);
-  const [isGeneratingGantt, setIsGeneratingGantt] = useState(false);
+  const [isSuggestingDurations, setIsSuggestingDurations] = useState(false);
   const [ganttError, setGanttError] = useState<string | null>(null);
 
+  const [baselines, setBaselines] = useState<ProjectBaseline[]>([]);
+  const [selectedBaselineId, setSelectedBaselineId] = useState<string | null>(null);
+  const [isBaselineModalOpen, setIsBaselineModalOpen] = useState(false);
+  const [isSavingBaseline, setIsSavingBaseline] = useState(false);
+  const [baselineError, setBaselineError] = useState<string | null>(null);
+
+  const [isWorkloadOpen, setIsWorkloadOpen] = useState(false);
+  const [workloadMembers, setWorkloadMembers] = useState<ProjectMember[]>([]);
+  const [workloadError, setWorkloadError] = useState<string | null>(null);
+
+  const [isCostDashboardOpen, setIsCostDashboardOpen] = useState(false);
+
+  const [isRiskRegisterOpen, setIsRiskRegisterOpen] = useState(false);
+  const [risks, setRisks] = useState<ProjectRisk[]>([]);
+  const [riskMembers, setRiskMembers] = useState<ProjectMember[]>([]);
+  const [isLoadingRisks, setIsLoadingRisks] = useState(false);
+  const [riskError, setRiskError] = useState<string | null>(null);
+
+  const [isDecisionLogOpen, setIsDecisionLogOpen] = useState(false);
+
+  const [comments, setComments] = useState<ProjectComment[]>([]);
+  const [commentReadMarkers, setCommentReadMarkers] = useState<Record<string, string>>({});
+  const [commentsRefreshKey, setCommentsRefreshKey] = useState(0);
+  const [mentionNotifications, setMentionNotifications] = useState<CommentMentionNotification[]>([]);
+  const [isMentionNotificationsOpen, setIsMentionNotificationsOpen] = useState(false);
+
   const [isConfirmNewProjectOpen, setIsConfirmNewProjectOpen] = useState(false);
   const [isDocumentCenterOpen, setIsDocumentCenterOpen] = useState(false);
   const [isProjectMembersOpen, setIsProjectMembersOpen] = useState(false);
@@ -97,6 +149,15 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
 
   const [isSaving, setIsSaving] = useState(false);
 
+  const presenceRef = useRef<CanvasPresenceConnection | null>(null);
+  const lastCursorSentRef = useRef(0);
+  const [otherPresences, setOtherPresences] = useState<CanvasPresence[]>([]);
+  const [remoteCursors, setRemoteCursors] = useState<Record<string, RemoteCursor>>({});
+
+  // 購読は currentProjectId ごとに1回なので、最新のコールバックを参照する
+  const onRemoteProjectUpdateRef = useRef(onRemoteProjectUpdate);
+  onRemoteProjectUpdateRef.current = onRemoteProjectUpdate;
+
   // ユーザーの役割とプロジェクト権限を確認
   useEffect(() => {
     if (currentProjectId) {
@@ -104,6 +165,22 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
     }
   }, [currentProjectId]);
 
+  // プロジェクトのベースラインを読み込み、最新のものを比較対象にする
+  useEffect(() => {
+    setBaselines([]);
+    setSelectedBaselineId(null);
+    if (!currentProjectId) return;
+    let cancelled = false;
+    BaselineService.getBaselines(currentProjectId)
+      .then(loaded => {
+        if (cancelled) return;
+        setBaselines(loaded);
+        setSelectedBaselineId(loaded.length > 0 ? loaded[loaded.length - 1].id : null);
+      })
+      .catch(err => console.error(err));
+    return () => { cancelled = true; };
+  }, [currentProjectId]);
+
   // 招待通知をチェック
   useEffect(() => {
     const checkInvitations = async () => {
@@ -117,6 +194,55 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
     checkInvitations();
   }, []);
 
+  // タスクカードの未読バッジ用のコメントと既読の状態。コメントの投稿・解決はリアルタイムで届く
+  useEffect(() => {
+    setComments([]);
+    if (!currentProjectId) return;
+    let cancelled = false;
+    Promise.all([CommentService.getComments(currentProjectId), CommentService.getReadMarkers(currentProjectId)])
+      .then(([loaded, markers]) => {
+        if (cancelled) return;
+        setComments(loaded);
+        setCommentReadMarkers(markers);
+      })
+      .catch(err => console.error(err));
+    return () => { cancelled = true; };
+  }, [currentProjectId, commentsRefreshKey]);
+
+  // 自分宛てのメンションの通知（すべてのプロジェクト）。メンションされるとリアルタイムで届く
+  useEffect(() => {
+    if (!currentUserId) return;
+    let cancelled = false;
+    const loadMentions = () => {
+      CommentService.getUnreadMentions()
+        .then(loaded => { if (!cancelled) setMentionNotifications(loaded); })
+        .catch(err => console.error(err));
+    };
+    loadMentions();
+    const subscription = CommentService.subscribeToMentions(currentUserId, loadMentions);
+    return () => {
+      cancelled = true;
+      subscription.unsubscribe();
+    };
+  }, [currentUserId]);
+
+  const handleMarkMentionsRead = async (ids: string[]) => {
+    await CommentService.markMentionsRead(ids);
+    setMentionNotifications(prev => prev.filter(notification => !ids.includes(notification.id)));
+  };
+
+  const handleOpenMentionedComment = (notification: CommentMentionNotification) => {
+    const task = tasks.find(candidate => candidate.id === notification.taskId);
+    setIsMentionNotificationsOpen(false);
+    handleMarkMentionsRead([notification.id]).catch(err => console.error(err));
+    if (task) onSelectTask(task);
+  };
+
+  const unreadComments = useMemo(
+    () => countUnreadByTask(comments, commentReadMarkers, currentUserId),
+    [comments, commentReadMarkers, currentUserId]
+  );
+
   // リアルタイム更新の購読
   useEffect(() => {
     if (!currentProjectId) return;
@@ -124,9 +250,16 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
     const subscription = ProjectCollaborationService.subscribeToProjectUpdates(
       currentProjectId,
       (payload) => {
-        // プロジェクトデータが更新された場合の処理
-        console.log('Project updated:', payload);
-        // 必要に応じてプロジェクトデータを再読み込み
+        // 他のメンバーによるプロジェクト更新をローカルの状態に統合
+        if (payload.table === 'projects' && payload.eventType === 'UPDATE' && payload.new) {
+          onRemoteProjectUpdateRef.current({
+            version: payload.new.version,
+            lastModifiedBy: payload.new.last_modified_by ?? null,
+          });
+        }
+        if (payload.table === 'project_comments') {
+          setCommentsRefreshKey(prev => prev + 1);
+        }
       }
     );
 
@@ -135,6 +268,35 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
     };
   }, [currentProjectId]);
 
+  // キャンバスのプレゼンスとリモートカーソル
+  useEffect(() => {
+    if (!currentProjectId) return;
+    let cancelled = false;
+
+    ProjectCollaborationService.joinCanvasPresence(currentProjectId, {
+      onPresenceChange: setOtherPresences,
+      onCursor: (cursor, userId) => {
+        setRemoteCursors(prev => {
+          const next = { ...prev };
+          if (cursor) next[userId] = cursor;
+          else delete next[userId];
+          return next;
+        });
+      },
+    }).then(connection => {
+      if (cancelled) connection?.leave();
+      else presenceRef.current = connection;
+    }).catch(error => console.error('プレゼンス接続エラー:', error));
+
+    return () => {
+      cancelled = true;
+      presenceRef.current?.leave();
+      presenceRef.current = null;
+      setOtherPresences([]);
+      setRemoteCursors({});
+    };
+  }, [currentProjectId]);
+
   useEffect(() => {
     const newRefs = new Map<string, React.RefObject<HTMLDivElement>>();
     tasks.forEach(task => {
@@ -218,6 +380,7 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
 
   const handleDragCardStart = (event: React.DragEvent<HTMLDivElement>, taskId: string) => {
     draggedTaskIdRef.current = taskId;
+    presenceRef.current?.updatePresence({ activeTaskId: taskId, activity: 'dragging' });
     const task = tasks.find(t => t.id === taskId);
     if (flowContainerRef.current) {
         const containerRect = flowContainerRef.current.getBoundingClientRect();
@@ -253,16 +416,229 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
 
     onUpdateTaskPosition(draggedTaskIdRef.current, { x: newX, y: newY });
     draggedTaskIdRef.current = null;
+    presenceRef.current?.updatePresence({ activeTaskId: null, activity: null });
     setTimeout(calculateConnectors, 0); 
   };
   
+  const handleDragEnd = () => {
+    // キャンバス外でドロップされた場合もドラッグ状態を解除する
+    if (draggedTaskIdRef.current) {
+      draggedTaskIdRef.current = null;
+      presenceRef.current?.updatePresence({ activeTaskId: null, activity: null });
+    }
+  };
+
+  const handleCardHoverChange = (taskId: string | null) => {
+    if (draggedTaskIdRef.current) return;
+    presenceRef.current?.updatePresence({ activeTaskId: taskId, activity: taskId ? 'viewing' : null });
+  };
+
+  const selectedBaseline = baselines.find(baseline => baseline.id === selectedBaselineId) ?? null;
+
+  const baselineVariance = useMemo(() => {
+    if (!selectedBaseline || !isBaselineModalOpen) return null;
+    return computeScheduleVariance(selectedBaseline, scheduleForBaseline(tasks, selectedBaseline, targetDate), baselines);
+  }, [selectedBaseline, isBaselineModalOpen, tasks, targetDate, baselines]);
+
+  // リソース負荷はガントチャートと同じ日程から集計する
+  const workloadItems = useMemo(
+    () => (isWorkloadOpen ? scheduleProject(tasks, { startDate: projectStartDate, targetDate }) : []),
+    [isWorkloadOpen, tasks, projectStartDate, targetDate]
+  );
+
+  useEffect(() => {
+    if (!isWorkloadOpen || !currentProjectId) return;
+    let cancelled = false;
+    setWorkloadError(null);
+    ProjectCollaborationService.getProjectMembers(currentProjectId)
+      .then(members => { if (!cancelled) setWorkloadMembers(members); })
+      .catch(err => { if (!cancelled) setWorkloadError(err instanceof Error ? err.message : 'メンバー情報の取得に失敗しました'); });
+    return () => { cancelled = true; };
+  }, [isWorkloadOpen, currentProjectId]);
+
+  const handleUpdateMemberCapacity = async (userId: string, weeklyCapacityHours: number) => {
+    if (!currentProjectId) return;
+    setWorkloadError(null);
+    try {
+      await ProjectCollaborationService.updateMemberCapacity(currentProjectId, userId, weeklyCapacityHours);
+      setWorkloadMembers(prev => prev.map(member => (member.userId === userId ? { ...member, weeklyCapacityHours } : member)));
+    } catch (err) {
+      setWorkloadError(err instanceof Error ? err.message : '稼働可能時間の更新に失敗しました');
+    }
+  };
+
+  // 平準化の提案はガントチャートでバーを移動したのと同じ編集として反映する
+  const handleApplyLevelingSuggestion = (suggestion: LevelingSuggestion) => {
+    onUpdateTasks(prevTasks => applyGanttChange(prevTasks, { type: 'move', itemId: suggestion.itemId, days: suggestion.days }, workloadItems));
+  };
+
+  // 出来高計画（PV）もガントチャートと同じ日程から求める
+  const costItems = useMemo(
+    () => (isCostDashboardOpen ? scheduleProject(tasks, { startDate: projectStartDate, targetDate }) : []),
+    [isCostDashboardOpen, tasks, projectStartDate, targetDate]
+  );
+
+  const handleUpdateCostApproval = (taskId: string, costLineId: string, approvalStatus: CostApprovalStatus) => {
+    onUpdateTasks(prevTasks => prevTasks.map(task => (task.id === taskId && task.extendedDetails
+      ? {
+          ...task,
+          extendedDetails: {
+            ...task.extendedDetails,
+            costLines: (task.extendedDetails.costLines || []).map(line => (line.id === costLineId ? { ...line, approvalStatus } : line)),
+          },
+        }
+      : task)));
+  };
+
+  useEffect(() => {
+    if (!isRiskRegisterOpen || !currentProjectId) return;
+    let cancelled = false;
+    setIsLoadingRisks(true);
+    setRiskError(null);
+    Promise.all([RiskService.getRisks(currentProjectId), ProjectCollaborationService.getProjectMembers(currentProjectId)])
+      .then(([loadedRisks, members]) => {
+        if (cancelled) return;
+        setRisks(loadedRisks);
+        setRiskMembers(members);
+      })
+      .catch(err => { if (!cancelled) setRiskError(err instanceof Error ? err.message : 'リスクの取得に失敗しました'); })
+      .finally(() => { if (!cancelled) setIsLoadingRisks(false); });
+    return () => { cancelled = true; };
+  }, [isRiskRegisterOpen, currentProjectId]);
+
+  // プロジェクトを切り替えたら前のプロジェクトのリスクを残さない
+  useEffect(() => {
+    setRisks([]);
+  }, [currentProjectId]);
+
+  const handleCreateRisk = async (risk: RiskInput): Promise<boolean> => {
+    if (!currentProjectId) return false;
+    setRiskError(null);
+    try {
+      const created = await RiskService.createRisk(currentProjectId, risk);
+      setRisks(prev => [...prev, created]);
+      return true;
+    } catch (err) {
+      setRiskError(err instanceof Error ? err.message : 'リスクの登録に失敗しました');
+      return false;
+    }
+  };
+
+  const handleUpdateRisk = async (riskId: string, updates: Partial<RiskInput>): Promise<boolean> => {
+    setRiskError(null);
+    try {
+      const updated = await RiskService.updateRisk(riskId, updates);
+      setRisks(prev => prev.map(risk => (risk.id === riskId ? updated : risk)));
+      return true;
+    } catch (err) {
+      setRiskError(err instanceof Error ? err.message : 'リスクの更新に失敗しました');
+      return false;
+    }
+  };
+
+  const handleDeleteRisk = async (riskId: string) => {
+    setRiskError(null);
+    try {
+      await RiskService.deleteRisk(riskId);
+      setRisks(prev => prev.filter(risk => risk.id !== riskId));
+    } catch (err) {
+      setRiskError(err instanceof Error ? err.message : 'リスクの削除に失敗しました');
+    }
+  };
+
+  // 診断で提案されたリスクを登録簿に加える。同じ名前のリスクが既にあれば登録しない
+  const handleRegisterProposedRisk = async (proposal: ProposedRisk): Promise<boolean> => {
+    if (!currentProjectId) return false;
+    if (findDuplicateRisk(proposal.title, risks)) return true;
+    try {
+      const created = await RiskService.createRisk(currentProjectId, proposedRiskToInput(proposal, tasks.map(task => task.id), generateUniqueId));
+      setRisks(prev => [...prev, created]);
+      return true;
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'リスクの登録に失敗しました');
+      return false;
+    }
+  };
+
+  // 承認者の回答はサーバーで本人の行に記録し、記録された内容を計画の表示に反映する
+  const handleRespondToDecision = async (taskId: string, decisionId: string, status: 'approved' | 'rejected', comment: string) => {
+    if (!currentUserId || !currentProjectId) return;
+    let respondedAt: string;
+    try {
+      const approval = await DecisionApprovalService.respond(currentProjectId, decisionId, status, comment);
+      respondedAt = approval.respondedAt!;
+    } catch (err) {
+      alert(err instanceof Error ? err.message : '承認の回答に失敗しました');
+      return;
+    }
+    onUpdateTasks(prevTasks => prevTasks.map(task => (task.id === taskId && task.extendedDetails
+      ? {
+          ...task,
+          extendedDetails: {
+            ...task.extendedDetails,
+            decisions: (task.extendedDetails.decisions || []).map(decision => (decision.id === decisionId
+              ? respondToDecision(decision, currentUserId, status, comment, respondedAt)
+              : decision)),
+          },
+        }
+      : task)));
+  };
+
+  const handleCreateBaseline = async (name: string) => {
+    if (!currentProjectId) return;
+    setIsSavingBaseline(true);
+    setBaselineError(null);
+    try {
+      const items = createBaselineItems(tasks, scheduleProject(tasks, { startDate: projectStartDate, targetDate }));
+      const baseline = await BaselineService.createBaseline(currentProjectId, name, targetDate, projectStartDate, items);
+      setBaselines(prev => [...prev, baseline]);
+      setSelectedBaselineId(baseline.id);
+    } catch (err) {
+      setBaselineError(err instanceof Error ? err.message : "ベースラインの保存に失敗しました。");
+    } finally {
+      setIsSavingBaseline(false);
+    }
+  };
+
+  const handleDeleteBaseline = async (baselineId: string) => {
+    setBaselineError(null);
+    try {
+      await BaselineService.deleteBaseline(baselineId);
+      setBaselines(prev => prev.filter(baseline => baseline.id !== baselineId));
+      if (selectedBaselineId === baselineId) setSelectedBaselineId(null);
+    } catch (err) {
+      setBaselineError(err instanceof Error ? err.message : "ベースラインの削除に失敗しました。");
+    }
+  };
+
   const handleGenerateHealthReport = async () => {
     setIsDiagnosing(true);
     setDiagnosisError(null);
     try {
-        const report = await generateProjectHealthReport(tasks, projectGoal, targetDate);
+        // ベースラインがある場合は計算した遅延状況を AI に渡し、ステータスもその実績値より楽観的にはしない
+        const variance = selectedBaseline
+          ? computeScheduleVariance(selectedBaseline, scheduleForBaseline(tasks, selectedBaseline, targetDate), baselines)
+          : undefined;
+        // 登録済みのリスクは提案から除くために渡す。取得できなくても診断は行う
+        const existingRisks = currentProjectId
+          ? await RiskService.getRisks(currentProjectId).catch(err => { console.error(err); return risks; })
+          : [];
+        setRisks(existingRisks);
+        const aiReport = await generateProjectHealthReport(tasks, projectGoal, targetDate, variance, existingRisks);
+        const scheduledReport: ProjectHealthReport = variance
+          ? { ...aiReport, overallStatus: worseHealthStatus(aiReport.overallStatus, scheduleStatusFromVariance(variance)), scheduleVariance: variance }
+          : aiReport;
+        // 作業時間の見積もりと実績を添える。記録を取得できなくても診断結果は表示する
+        const timeEntries = currentProjectId
+          ? await TimeTrackingService.getTimeEntries(currentProjectId).catch(err => { console.error(err); return []; })
+          : [];
+        const report: ProjectHealthReport = { ...scheduledReport, effortSummary: summarizeProjectEffort(tasks, timeEntries) };
         setHealthReport(report);
         setIsHealthReportOpen(true);
+        // ポートフォリオに最新の診断として表示するために記録する。記録に失敗しても診断結果は表示する
+        if (currentProjectId) {
+          PortfolioService.saveHealthReport(currentProjectId, report).catch(err => console.error(err));
+        }
     } catch (err) {
         setDiagnosisError(err instanceof Error ? err.message : "プロジェクト診断レポートの生成に失敗しました。");
     } finally {
@@ -278,7 +654,8 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
     setIsGeneratingProjectReport(true);
     setProjectReportError(null);
     try {
-      const deck = await generateProjectReportDeck(tasks, projectGoal, targetDate);
+      const master = await SlideMasterService.getDefaultSlideMaster(currentProjectId);
+      const deck = await generateProjectReportDeck(tasks, projectGoal, targetDate, master);
       setProjectReportDeck(deck);
       setIsProjectReportEditorOpen(true);
     } catch (err) {
@@ -288,37 +665,37 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
     }
   };
 
-  const handleOpenGantt = async () => {
-    if (ganttData) {
-      setIsGanttOpen(true);
-      return;
-    }
-    setIsGeneratingGantt(true);
+  const handleOpenGantt = () => {
     setGanttError(null);
-    try {
-      const data = await generateGanttData(tasks, projectGoal, targetDate);
-      setGanttData(data);
-      setIsGanttOpen(true);
-    } catch (err) {
-      setGanttError(err instanceof Error ? err.message : "ガントチャートのデータ生成に失敗しました。");
-    } finally {
-      setIsGeneratingGantt(false);
-    }
+    setIsGanttOpen(true);
   };
 
-  const handleRegenerateGantt = async () => {
-    setIsGeneratingGantt(true);
+  // 日程はタスクの依存関係・工数見積もり・期日からローカルで計算する（同じ入力なら常に同じ結果）。
+  // 表示中は計画の変更に合わせて再計算する
+  useEffect(() => {
+    if (isGanttOpen) setGanttData(scheduleProject(tasks, { startDate: projectStartDate, targetDate }));
+  }, [tasks, projectStartDate, targetDate, isGanttOpen]);
+
+  // 見積もりのない項目の工数を AI に提案させ、計画に書き込む
+  const handleSuggestDurations = async () => {
+    setIsSuggestingDurations(true);
     setGanttError(null);
     try {
-      const data = await generateGanttData(tasks, projectGoal, targetDate);
-      setGanttData(data);
+      const estimates = await suggestDurationEstimates(tasks, projectGoal);
+      onUpdateTasks(prevTasks => applyDurationEstimates(prevTasks, estimates));
     } catch (err) {
-      setGanttError(err instanceof Error ? err.message : "ガントチャートのデータ再生成に失敗しました。");
+      setGanttError(err instanceof Error ? err.message : "工数見積もりの提案に失敗しました。");
     } finally {
-      setIsGeneratingGantt(false);
+      setIsSuggestingDurations(false);
     }
   };
 
+  // ガントチャート上の編集を計画に書き戻す（元に戻す履歴にも記録される）
+  const handleGanttChange = (change: GanttChange) => {
+    if (!ganttData) return;
+    onUpdateTasks(prevTasks => applyGanttChange(prevTasks, change, ganttData));
+  };
+
   const handleSaveProject = async () => {
     if (!currentProjectId) {
       // 新規プロジェクトの場合、保存ダイアログを表示
@@ -327,7 +704,7 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
 
       setIsSaving(true);
       try {
-        const project = await ProjectService.createProject(title, projectGoal, targetDate, tasks, ganttData);
+        const project = await ProjectService.createProject(title, projectGoal, targetDate, tasks, ganttData, projectStartDate);
         // アクティビティログを記録
         await ProjectCollaborationService.logActivity(project.id, 'project_created', { title });
         alert('プロジェクトが保存されました！');
@@ -385,12 +762,24 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
   };
 
   const handleMouseMove = (event: React.MouseEvent<HTMLDivElement>) => {
-    if (!connectingState || !flowContainerRef.current) return;
+    if (!flowContainerRef.current) return;
     const containerRect = flowContainerRef.current.getBoundingClientRect();
-    setMousePos({
+    const canvasPos = {
       x: event.clientX - containerRect.left + flowContainerRef.current.scrollLeft,
       y: event.clientY - containerRect.top + flowContainerRef.current.scrollTop,
-    });
+    };
+
+    const now = Date.now();
+    if (presenceRef.current && now - lastCursorSentRef.current > CURSOR_THROTTLE_MS) {
+      lastCursorSentRef.current = now;
+      presenceRef.current.sendCursor(canvasPos);
+    }
+
+    if (connectingState) setMousePos(canvasPos);
+  };
+
+  const handleMouseLeave = () => {
+    presenceRef.current?.sendCursor(null);
   };
 
   const handleMouseUp = () => {
@@ -425,8 +814,10 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
         onClose={() => setIsProjectReportEditorOpen(false)}
         projectGoal={projectGoal}
         targetDate={targetDate}
+        projectStartDate={projectStartDate}
         reportScope="project"
         generateUniqueId={generateUniqueId}
+        projectId={currentProjectId}
      />
   }
 
@@ -443,6 +834,15 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
             新規プロジェクト
           </button>
           <div className="flex flex-wrap gap-2">
+            {mentionNotifications.length > 0 && (
+              <button
+                onClick={() => setIsMentionNotificationsOpen(true)}
+                className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-semibold rounded-md shadow-sm text-amber-900 bg-amber-100 ring-1 ring-amber-400 hover:bg-amber-200"
+                title={`未読のメンション ${mentionNotifications.length}件`}
+              >
+                @{mentionNotifications.length}
+              </button>
+            )}
             {hasInvitations && (
               <button
                 onClick={() => setIsInvitationModalOpen(true)}
@@ -486,7 +886,7 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
             ><RedoIcon className="w-5 h-5" /></button>
             <button
                 onClick={onClearApiKey}
-                className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-slate-800 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-slate-400" title="APIキーを変更"
+                className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-slate-800 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-slate-400" title="AIプロバイダー・APIキーを変更"
             >
                 <KeyIcon className="w-5 h-5 text-yellow-600" />
             </button>
@@ -520,6 +920,16 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
                   <p className="flex items-start"><TargetIcon className="w-5 h-5 mr-2 text-blue-600 flex-shrink-0 mt-1" /><strong>目的:</strong>&nbsp;<span className="break-all">{projectGoal}</span></p>
                   <p className="flex items-center"><CalendarIcon className="w-5 h-5 mr-2 text-blue-600 flex-shrink-0" /><strong>目標日:</strong>&nbsp;{formattedDate}</p>
                   {currentProjectId && <p className="text-sm text-green-600">✓ Supabaseに保存済み</p>}
+                  {otherPresences.length > 0 && (
+                    <div className="flex items-center gap-1 text-sm text-slate-600">
+                      <span>同時編集中:</span>
+                      {otherPresences.map(p => (
+                        <span key={p.userId} className="px-2 py-0.5 rounded-full text-xs font-semibold text-white" style={{ backgroundColor: p.color }}>
+                          {p.userName}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
               <div className="flex flex-col sm:flex-row gap-2 flex-shrink-0">
@@ -539,12 +949,39 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
                  </button>
                  <button
                     onClick={handleOpenGantt}
-                    disabled={isGeneratingGantt}
                     className="inline-flex items-center justify-center px-4 py-2 border border-amber-300 text-sm font-medium rounded-md shadow-sm text-amber-800 bg-amber-100 hover:bg-amber-200 disabled:bg-slate-400"
                  >
-                    {isGeneratingGantt ? <LoadingSpinner size="sm" /> : <GanttChartIcon className="w-5 h-5 mr-2" />}
+                    <GanttChartIcon className="w-5 h-5 mr-2" />
                     ガントチャート
                  </button>
+                 <button
+                    onClick={() => setIsWorkloadOpen(true)}
+                    className="inline-flex items-center justify-center px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50"
+                 >
+                    <ResourcesIcon className="w-5 h-5 mr-2" />
+                    リソース負荷
+                 </button>
+                 <button
+                    onClick={() => setIsCostDashboardOpen(true)}
+                    className="inline-flex items-center justify-center px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50"
+                 >
+                    <TableCellsIcon className="w-5 h-5 mr-2" />
+                    予算・コスト
+                 </button>
+                 <button
+                    onClick={() => setIsRiskRegisterOpen(true)}
+                    className="inline-flex items-center justify-center px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50"
+                 >
+                    <ShieldIcon className="w-5 h-5 mr-2" />
+                    リスク登録簿
+                 </button>
+                 <button
+                    onClick={() => setIsDecisionLogOpen(true)}
+                    className="inline-flex items-center justify-center px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50"
+                 >
+                    <NotesIcon className="w-5 h-5 mr-2" />
+                    決定ログ
+                 </button>
                  <button
                     onClick={handleGenerateHealthReport}
                     disabled={isDiagnosing}
@@ -574,8 +1011,10 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
         className="flex-grow overflow-auto pb-8 relative min-h-[600px] border border-slate-300 rounded-lg bg-slate-50 p-4 shadow-inner"
         onDragOver={handleDragOver}
         onDrop={handleDrop}
+        onDragEnd={handleDragEnd}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
+        onMouseLeave={handleMouseLeave}
       >
         <div className="relative w-full h-full min-w-[1200px] min-h-[800px]">
             {tasks.map((task, index) => (
@@ -589,6 +1028,9 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
                 onDragCardStart={handleDragCardStart}
                 onStartConnection={handleStartConnection}
                 onEndConnection={handleEndConnection}
+                onHoverChange={handleCardHoverChange}
+                presences={otherPresences.filter(p => p.activeTaskId === task.id)}
+                unreadComments={unreadComments[task.id]}
                 index={index}
               />
             ))}
@@ -598,6 +1040,20 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
             {connectingState && (
                 <FlowConnector from={connectingState.fromPos} to={mousePos} id="preview-connector" />
             )}
+            {Object.values(remoteCursors).map(cursor => (
+              <div
+                key={cursor.userId}
+                className="absolute pointer-events-none z-30 transition-transform duration-75"
+                style={{ left: 0, top: 0, transform: `translate(${cursor.x}px, ${cursor.y}px)` }}
+              >
+                <svg width="16" height="16" viewBox="0 0 16 16" style={{ color: cursor.color }}>
+                  <path d="M0 0 L0 14 L4 10 L7 16 L9 15 L6 9 L12 9 Z" fill="currentColor" stroke="white" strokeWidth="1" />
+                </svg>
+                <span className="ml-3 px-1.5 py-0.5 rounded text-[10px] font-semibold text-white whitespace-nowrap" style={{ backgroundColor: cursor.color }}>
+                  {cursor.userName}
+                </span>
+              </div>
+            ))}
         </div>
         {tasks.length === 0 && (
           <div className="text-center py-10 flex-grow flex items-center justify-center">
@@ -611,8 +1067,77 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
         data={ganttData} 
         onClose={() => setIsGanttOpen(false)} 
         onItemClick={handleGanttItemClick} 
-        onRegenerate={handleRegenerateGantt}
-        isRegenerating={isGeneratingGantt}
+        onSuggestDurations={handleSuggestDurations}
+        isSuggestingDurations={isSuggestingDurations}
+        error={ganttError}
+        onChange={handleGanttChange}
+        onUndo={onUndo}
+        canUndo={canUndo}
+        onRedo={onRedo}
+        canRedo={canRedo}
+        baseline={selectedBaseline}
+        onOpenBaselines={() => { setBaselineError(null); setIsBaselineModalOpen(true); }}
+      />
+    }
+    {isBaselineModalOpen &&
+      <BaselineModal
+        baselines={baselines}
+        selectedBaselineId={selectedBaselineId}
+        variance={baselineVariance}
+        canSave={!!currentProjectId}
+        isSaving={isSavingBaseline}
+        error={baselineError}
+        onSelect={setSelectedBaselineId}
+        onCreate={handleCreateBaseline}
+        onDelete={handleDeleteBaseline}
+        onClose={() => setIsBaselineModalOpen(false)}
+      />
+    }
+    {isWorkloadOpen &&
+      <ResourceWorkloadModal
+        tasks={tasks}
+        items={workloadItems}
+        members={currentProjectId ? workloadMembers : []}
+        canEditCapacity={userRole === 'owner' || userRole === 'admin'}
+        error={workloadError}
+        onUpdateCapacity={handleUpdateMemberCapacity}
+        onApplySuggestion={handleApplyLevelingSuggestion}
+        onClose={() => setIsWorkloadOpen(false)}
+      />
+    }
+    {isCostDashboardOpen &&
+      <CostDashboardModal
+        tasks={tasks}
+        items={costItems}
+        canApprove={!currentProjectId || userRole === 'owner' || userRole === 'admin'}
+        onUpdateApproval={handleUpdateCostApproval}
+        onClose={() => setIsCostDashboardOpen(false)}
+      />
+    }
+    {isRiskRegisterOpen &&
+      <RiskRegisterModal
+        risks={risks}
+        tasks={tasks}
+        members={currentProjectId ? riskMembers : []}
+        canEdit={!!currentProjectId}
+        isLoading={isLoadingRisks}
+        error={riskError}
+        onCreate={handleCreateRisk}
+        onUpdate={handleUpdateRisk}
+        onDelete={handleDeleteRisk}
+        generateUniqueId={generateUniqueId}
+        onClose={() => setIsRiskRegisterOpen(false)}
+      />
+    }
+    {isDecisionLogOpen &&
+      <DecisionLogModal
+        tasks={tasks}
+        projectGoal={projectGoal}
+        targetDate={targetDate}
+        currentUserId={currentUserId}
+        onRespond={handleRespondToDecision}
+        onOpenTask={task => { setIsDecisionLogOpen(false); onSelectTask(task); }}
+        onClose={() => setIsDecisionLogOpen(false)}
       />
     }
     {isDocumentCenterOpen && 
@@ -646,8 +1171,25 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
         }}
       />
     )}
-    {isActionItemOverviewOpen && <ActionItemOverviewModal tasks={tasks} onClose={() => setIsActionItemOverviewOpen(false)} />}
-    {isHealthReportOpen && <ProjectHealthReportModal report={healthReport} onClose={() => setIsHealthReportOpen(false)} />}
+    {isMentionNotificationsOpen && (
+      <MentionNotificationsModal
+        notifications={mentionNotifications}
+        currentProjectId={currentProjectId}
+        onOpenComment={handleOpenMentionedComment}
+        onMarkRead={handleMarkMentionsRead}
+        onClose={() => setIsMentionNotificationsOpen(false)}
+      />
+    )}
+    {isActionItemOverviewOpen && <ActionItemOverviewModal tasks={tasks} projectId={currentProjectId} onClose={() => setIsActionItemOverviewOpen(false)} />}
+    {isHealthReportOpen &&
+      <ProjectHealthReportModal
+        report={healthReport}
+        registeredRisks={risks}
+        canRegisterRisks={!!currentProjectId}
+        onRegisterRisk={handleRegisterProposedRisk}
+        onClose={() => setIsHealthReportOpen(false)}
+      />
+    }
     {isConfirmNewProjectOpen && (
         <ConfirmNewProjectModal
             onClose={() => setIsConfirmNewProjectOpen(false)}
@@ -1,13 +1,26 @@
 
-import React from 'react';
-import { ProjectHealthReport } from '../types';
-import { XIcon, CheckCircleIcon, ExclamationTriangleIcon, LightBulbIcon } from './icons';
+import React, { useState } from 'react';
+import { ProjectHealthReport, ProjectRisk, ProposedRisk } from '../types';
+import { XIcon, CheckCircleIcon, ExclamationTriangleIcon, LightBulbIcon, CalendarIcon, ClockIcon, ShieldIcon, PlusIcon } from './icons';
+import ScheduleVarianceReport from './ScheduleVarianceReport';
+import { formatHours, getEffortRatio } from '../services/effortRollup';
+import { RISK_SEVERITY_LABELS, findDuplicateRisk, getRiskScore, getRiskSeverity } from '../services/riskRegister';
 
 interface ProjectHealthReportModalProps {
   report: ProjectHealthReport | null;
+  registeredRisks?: ProjectRisk[];
+  canRegisterRisks?: boolean; // 保存済みのプロジェクトのみリスク登録簿に登録できる
+  onRegisterRisk?: (risk: ProposedRisk) => Promise<boolean>;
   onClose: () => void;
 }
 
+const severityStyles = {
+  low: 'bg-green-100 text-green-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  high: 'bg-orange-200 text-orange-900',
+  critical: 'bg-red-500 text-white',
+};
+
 const statusStyles = {
     'On Track': {
         bgColor: 'bg-green-100',
@@ -32,10 +45,24 @@ const statusStyles = {
 };
 
 
-const ProjectHealthReportModal: React.FC<ProjectHealthReportModalProps> = ({ report, onClose }) => {
+const ProjectHealthReportModal: React.FC<ProjectHealthReportModalProps> = ({ report, registeredRisks = [], canRegisterRisks = false, onRegisterRisk, onClose }) => {
+  const [registeringIndex, setRegisteringIndex] = useState<number | null>(null);
+
   if (!report) return null;
 
+  const proposedRisks = report.proposedRisks ?? [];
+
+  const handleRegisterRisk = async (risk: ProposedRisk, index: number) => {
+    if (!onRegisterRisk) return;
+    setRegisteringIndex(index);
+    await onRegisterRisk(risk);
+    setRegisteringIndex(null);
+  };
+
   const currentStatus = statusStyles[report.overallStatus] || statusStyles['Unknown'];
+  const effort = report.effortSummary;
+  const hasEffort = !!effort && (effort.estimatedHours !== null || effort.actualHours > 0);
+  const projectEffortRatio = effort ? getEffortRatio(effort) : null;
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-70 backdrop-blur-sm flex items-center justify-center p-4 z-[60]">
@@ -54,6 +81,64 @@ const ProjectHealthReportModal: React.FC<ProjectHealthReportModalProps> = ({ rep
             </div>
           </section>
 
+          {report.scheduleVariance && (
+            <section>
+              <h5 className="text-lg font-semibold text-slate-700 mb-1 flex items-center"><CalendarIcon className="w-5 h-5 mr-2 text-slate-500"/>スケジュール実績（ベースライン「{report.scheduleVariance.baselineName}」比）</h5>
+              <p className="text-xs text-slate-500 mb-3">AIの判断ではなく、保存したベースラインと現在の日程から計算した値です。</p>
+              <ScheduleVarianceReport variance={report.scheduleVariance} maxItems={5} />
+            </section>
+          )}
+
+          {effort && hasEffort && (
+            <section>
+              <h5 className="text-lg font-semibold text-slate-700 mb-1 flex items-center"><ClockIcon className="w-5 h-5 mr-2 text-slate-500"/>工数（見積もり vs 実績）</h5>
+              <p className="text-xs text-slate-500 mb-3">AIの判断ではなく、作業時間の見積もりと記録から計算した値です。</p>
+              <div className="flex flex-wrap gap-3 mb-3 text-sm">
+                <div className="bg-slate-50 border border-slate-200 rounded-lg px-4 py-2">
+                  <p className="text-xs text-slate-500">見積もり</p>
+                  <p className="font-semibold text-slate-800">{formatHours(effort.estimatedHours)}</p>
+                </div>
+                <div className="bg-slate-50 border border-slate-200 rounded-lg px-4 py-2">
+                  <p className="text-xs text-slate-500">実績</p>
+                  <p className={`font-semibold ${projectEffortRatio !== null && projectEffortRatio > 100 ? 'text-red-600' : 'text-slate-800'}`}>
+                    {formatHours(effort.actualHours)}{projectEffortRatio !== null && <span className="text-xs font-normal text-slate-500">（見積もりの{projectEffortRatio}%）</span>}
+                  </p>
+                </div>
+              </div>
+              {effort.tasks.length > 0 && (
+                <table className="w-full text-sm mb-3">
+                  <thead>
+                    <tr className="text-xs text-slate-500 border-b border-slate-200">
+                      <th className="text-left font-semibold py-1">タスク</th>
+                      <th className="text-right font-semibold py-1">見積もり</th>
+                      <th className="text-right font-semibold py-1">実績</th>
+                      <th className="text-right font-semibold py-1">消化率</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {effort.tasks.map(task => {
+                      const ratio = getEffortRatio(task);
+                      const isOver = task.estimatedHours !== null && task.actualHours > task.estimatedHours;
+                      return (
+                        <tr key={task.taskId} className={isOver ? 'bg-red-50' : ''}>
+                          <td className="py-1 text-slate-700">{task.title}</td>
+                          <td className="py-1 text-right tabular-nums">{formatHours(task.estimatedHours)}</td>
+                          <td className={`py-1 text-right tabular-nums ${isOver ? 'text-red-600 font-semibold' : ''}`}>{formatHours(task.actualHours)}</td>
+                          <td className="py-1 text-right tabular-nums text-slate-500">{ratio === null ? '—' : `${ratio}%`}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+              {effort.members.length > 0 && (
+                <p className="text-xs text-slate-600">
+                  メンバー別の実績: {effort.members.map(member => `${member.userName} ${formatHours(member.actualHours)}`).join('、')}
+                </p>
+              )}
+            </section>
+          )}
+
           <section>
             <h5 className="text-lg font-semibold text-slate-700 mb-3 flex items-center"><CheckCircleIcon className="w-5 h-5 mr-2 text-green-500"/>うまくいっている点</h5>
             <ul className="list-disc list-inside space-y-2 text-slate-600 pl-2">
@@ -75,6 +160,50 @@ const ProjectHealthReportModal: React.FC<ProjectHealthReportModalProps> = ({ rep
             </div>
           </section>
           
+          {proposedRisks.length > 0 && (
+            <section>
+              <h5 className="text-lg font-semibold text-slate-700 mb-1 flex items-center"><ShieldIcon className="w-5 h-5 mr-2 text-slate-500"/>リスク登録簿への提案</h5>
+              <p className="text-xs text-slate-500 mb-3">
+                {canRegisterRisks ? '登録したリスクは、リスク登録簿で担当者や対策の進み具合を管理できます。' : 'リスク登録簿に登録するには、先にプロジェクトを保存してください。'}
+              </p>
+              <div className="space-y-3">
+                {proposedRisks.map((risk, index) => {
+                  const score = getRiskScore(risk);
+                  const severity = getRiskSeverity(score);
+                  const isRegistered = !!findDuplicateRisk(risk.title, registeredRisks);
+                  return (
+                    <div key={index} className="border border-slate-200 rounded-lg p-4 flex items-start gap-3">
+                      <span className={`flex-shrink-0 w-10 text-center py-1 rounded text-sm font-bold ${severityStyles[severity]}`} title={`発生確率 ${risk.probability} × 影響度 ${risk.impact}（${RISK_SEVERITY_LABELS[severity]}）`}>{score}</span>
+                      <div className="min-w-0 flex-grow">
+                        <p className="font-semibold text-slate-800">{risk.title}</p>
+                        <p className="text-sm text-slate-600 mt-0.5">{risk.description}</p>
+                        {risk.mitigations.length > 0 && (
+                          <ul className="list-disc list-inside text-xs text-slate-600 mt-1">
+                            {risk.mitigations.map((mitigation, mitigationIndex) => <li key={mitigationIndex}>{mitigation}</li>)}
+                          </ul>
+                        )}
+                        {risk.relatedTaskIds.length > 0 && <p className="text-xs text-slate-500 mt-1">関連タスクID: {risk.relatedTaskIds.join(', ')}</p>}
+                      </div>
+                      {onRegisterRisk && canRegisterRisks && (
+                        isRegistered ? (
+                          <span className="flex-shrink-0 px-3 py-1.5 text-xs font-semibold text-green-700 bg-green-50 rounded-md">登録済み</span>
+                        ) : (
+                          <button
+                            onClick={() => handleRegisterRisk(risk, index)}
+                            disabled={registeringIndex !== null}
+                            className="flex-shrink-0 flex items-center gap-1 px-3 py-1.5 text-xs font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-slate-400"
+                          >
+                            <PlusIcon className="w-3 h-3" />{registeringIndex === index ? '登録中...' : '登録'}
+                          </button>
+                        )
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </section>
+          )}
+
           <section>
             <h5 className="text-lg font-semibold text-slate-700 mb-3 flex items-center"><LightBulbIcon className="w-5 h-5 mr-2 text-blue-500"/>AIからの提案</h5>
              <div className="space-y-3">
@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { ProjectService, ProjectData } from '../services/projectService';
-import { XIcon, PlusIcon, TrashIcon, CalendarIcon, TargetIcon, DownloadIcon } from './icons';
+import { XIcon, PlusIcon, TrashIcon, CalendarIcon, TargetIcon, DownloadIcon, GaugeIcon } from './icons';
 import LoadingSpinner from './LoadingSpinner';
 import ErrorMessage from './ErrorMessage';
 
@@ -9,6 +9,7 @@ interface ProjectListModalProps {
   onClose: () => void;
   onSelectProject: (project: ProjectData) => void;
   onCreateNew: () => void;
+  onOpenPortfolio?: () => void;
 }
 
 const ProjectListModal: React.FC<ProjectListModalProps> = ({
@@ -16,6 +17,7 @@ const ProjectListModal: React.FC<ProjectListModalProps> = ({
   onClose,
   onSelectProject,
   onCreateNew,
+  onOpenPortfolio,
 }) => {
   const [projects, setProjects] = useState<ProjectData[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -81,6 +83,15 @@ const ProjectListModal: React.FC<ProjectListModalProps> = ({
         <header className="flex items-center justify-between p-6 border-b border-slate-200">
           <h3 className="text-xl font-bold text-slate-800">プロジェクト一覧</h3>
           <div className="flex items-center gap-3">
+            {onOpenPortfolio && (
+              <button
+                onClick={onOpenPortfolio}
+                className="flex items-center gap-2 px-4 py-2 text-slate-700 bg-slate-100 rounded-md hover:bg-slate-200"
+              >
+                <GaugeIcon className="w-5 h-5" />
+                ポートフォリオ
+              </button>
+            )}
             <button
               onClick={onCreateNew}
               className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
@@ -0,0 +1,221 @@
+import React, { useState, useMemo } from 'react';
+import { GanttItem, ProjectTask } from '../types';
+import { ProjectMember } from '../services/projectCollaborationService';
+import { LevelingSuggestion, WorkloadCell, computeResourceWorkload } from '../services/resourceWorkload';
+import { XIcon, ExclamationTriangleIcon } from './icons';
+import ErrorMessage from './ErrorMessage';
+
+interface ResourceWorkloadModalProps {
+  tasks: ProjectTask[];
+  items: GanttItem[]; // scheduleProject の結果
+  members: ProjectMember[];
+  canEditCapacity: boolean; // 所有者・管理者のみ稼働可能時間を変更できる
+  error?: string | null;
+  onUpdateCapacity: (userId: string, weeklyCapacityHours: number) => Promise<void>;
+  onApplySuggestion: (suggestion: LevelingSuggestion) => void;
+  onClose: () => void;
+}
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00Z`).toLocaleDateString('ja-JP', { month: 'numeric', day: 'numeric', timeZone: 'UTC' });
+
+const formatPercent = (utilization: number) => (Number.isFinite(utilization) ? `${Math.round(utilization * 100)}%` : '—');
+
+// 稼働率に応じたセルの色。100% を超えると過負荷
+const cellClass = (cell: WorkloadCell, isUnassigned: boolean): string => {
+  if (cell.hours === 0) return 'bg-white text-slate-300';
+  if (isUnassigned) return 'bg-slate-200 text-slate-700';
+  if (cell.utilization > 1.5) return 'bg-red-500 text-white';
+  if (cell.utilization > 1) return 'bg-orange-300 text-orange-900';
+  if (cell.utilization > 0.8) return 'bg-emerald-400 text-emerald-950';
+  if (cell.utilization > 0.5) return 'bg-emerald-200 text-emerald-900';
+  return 'bg-emerald-100 text-emerald-800';
+};
+
+// 担当者ごとの週単位の作業負荷（ヒートマップ）、過負荷の警告、余裕日数の範囲での平準化の提案
+const ResourceWorkloadModal: React.FC<ResourceWorkloadModalProps> = ({
+  tasks, items, members, canEditCapacity, error, onUpdateCapacity, onApplySuggestion, onClose,
+}) => {
+  const [capacityDrafts, setCapacityDrafts] = useState<Record<string, string>>({});
+  const [savingUserId, setSavingUserId] = useState<string | null>(null);
+
+  const workload = useMemo(() => computeResourceWorkload(tasks, items, members), [tasks, items, members]);
+  const assignmentNames = useMemo(() => new Map(workload.assignments.map(assignment => [assignment.itemId, assignment.name])), [workload]);
+
+  // 名前だけが入力され、メンバーに紐付いていない担当者
+  const unlinkedNames = useMemo(() => {
+    const counts = new Map<string, number>();
+    workload.assignments
+      .filter(assignment => assignment.userId === null && assignment.responsible)
+      .forEach(assignment => counts.set(assignment.responsible, (counts.get(assignment.responsible) ?? 0) + 1));
+    return [...counts];
+  }, [workload]);
+
+  const commitCapacity = async (member: ProjectMember) => {
+    const draft = capacityDrafts[member.userId];
+    if (draft === undefined) return;
+    const hours = parseFloat(draft);
+    setCapacityDrafts(prev => {
+      const next = { ...prev };
+      delete next[member.userId];
+      return next;
+    });
+    if (isNaN(hours) || hours < 0 || hours === member.weeklyCapacityHours) return;
+    setSavingUserId(member.userId);
+    try {
+      await onUpdateCapacity(member.userId, hours);
+    } finally {
+      setSavingUserId(null);
+    }
+  };
+
+  const cellTitle = (cell: WorkloadCell, isUnassigned: boolean) => [
+    `${formatDate(cell.weekStart)} の週: ${cell.hours}時間${isUnassigned ? '' : ` / ${cell.capacityHours}時間（${formatPercent(cell.utilization)}）`}`,
+    ...cell.itemIds.map(id => `・${assignmentNames.get(id) ?? id}`),
+  ].join('\n');
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 backdrop-blur-sm flex items-center justify-center p-4 z-[90]">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-6xl max-h-[90vh] flex flex-col">
+        <header className="flex items-center justify-between p-5 border-b border-slate-200">
+          <h3 className="text-xl font-bold text-slate-800">リソース負荷</h3>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-100" title="閉じる"><XIcon className="w-6 h-6 text-slate-500" /></button>
+        </header>
+
+        <div className="flex-grow overflow-y-auto p-5 space-y-5">
+          {error && <ErrorMessage message={error} />}
+          <p className="text-xs text-slate-500">
+            ガントチャートの日程から、完了していない作業を担当者ごとに週単位で集計します。日程の1日はフルタイム（週40時間）の1日分の作業として換算します。
+            担当者が未設定の項目は、親のサブステップ・タスクの担当者の作業として数えます。
+          </p>
+
+          {members.length === 0 && (
+            <p className="text-sm text-slate-500 bg-slate-50 border border-slate-200 rounded-md p-3">
+              プロジェクトを保存してメンバーを招待すると、担当者をメンバーに紐付けて負荷を確認できます。
+            </p>
+          )}
+
+          {workload.weeks.length === 0 ? (
+            <p className="text-center text-slate-500 py-8">集計する作業がありません。</p>
+          ) : (
+            <div className="border border-slate-200 rounded-lg overflow-x-auto">
+              <table className="text-xs border-collapse">
+                <thead>
+                  <tr className="bg-slate-50 text-slate-500">
+                    <th className="sticky left-0 bg-slate-50 text-left font-semibold px-3 py-2 min-w-[10rem]">担当者</th>
+                    <th className="text-right font-semibold px-2 py-2 whitespace-nowrap">稼働可能（時間/週）</th>
+                    {workload.weeks.map(week => (
+                      <th key={week} className="font-normal px-1 py-2 min-w-[3.25rem] whitespace-nowrap">{formatDate(week)}〜</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {workload.rows.map(row => {
+                    const member = members.find(candidate => candidate.userId === row.userId);
+                    const isUnassigned = row.userId === null;
+                    return (
+                      <tr key={row.userId ?? 'unassigned'} className="border-t border-slate-100">
+                        <td className={`sticky left-0 bg-white px-3 py-1.5 font-medium ${isUnassigned ? 'text-slate-500 italic' : 'text-slate-800'}`}>{row.userName}</td>
+                        <td className="px-2 py-1.5 text-right">
+                          {member && canEditCapacity ? (
+                            <input
+                              type="number"
+                              min={0}
+                              step={1}
+                              value={capacityDrafts[member.userId] ?? String(member.weeklyCapacityHours)}
+                              onChange={e => setCapacityDrafts(prev => ({ ...prev, [member.userId]: e.target.value }))}
+                              onBlur={() => commitCapacity(member)}
+                              onKeyDown={e => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+                              disabled={savingUserId === member.userId}
+                              className="w-16 px-1 py-0.5 border border-slate-300 rounded text-right"
+                            />
+                          ) : (
+                            <span className="tabular-nums">{isUnassigned ? '—' : row.weeklyCapacityHours}</span>
+                          )}
+                        </td>
+                        {row.cells.map(cell => (
+                          <td key={cell.weekStart} className="p-0.5">
+                            <div className={`h-7 rounded flex items-center justify-center tabular-nums ${cellClass(cell, isUnassigned)}`} title={cellTitle(cell, isUnassigned)}>
+                              {cell.hours > 0 ? (isUnassigned ? `${Math.round(cell.hours)}h` : formatPercent(cell.utilization)) : '·'}
+                            </div>
+                          </td>
+                        ))}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {unlinkedNames.length > 0 && (
+            <p className="text-xs text-slate-500">
+              メンバーに紐付いていない担当者: {unlinkedNames.map(([name, count]) => `${name}（${count}件）`).join('、')}。
+              タスク詳細で担当者をメンバーから選び直すと、負荷に含まれます。
+            </p>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <section className="border border-slate-200 rounded-lg">
+              <h4 className="text-sm font-semibold text-slate-700 px-3 py-2 border-b border-slate-200 flex items-center gap-1">
+                <ExclamationTriangleIcon className="w-4 h-4 text-orange-500" />
+                過負荷の週（{workload.overAllocations.length}件）
+              </h4>
+              {workload.overAllocations.length === 0 ? (
+                <p className="text-xs text-slate-400 p-3">稼働可能時間を超える週はありません。</p>
+              ) : (
+                <ul className="divide-y divide-slate-100 max-h-64 overflow-y-auto">
+                  {workload.overAllocations.map(over => (
+                    <li key={`${over.userId}-${over.weekStart}`} className="px-3 py-2 text-xs">
+                      <p className="text-slate-800">
+                        <span className="font-semibold">{over.userName}</span>・{formatDate(over.weekStart)} の週:
+                        <span className="text-red-600 font-semibold"> {over.hours}時間</span> / {over.capacityHours}時間
+                      </p>
+                      <p className="text-slate-500 truncate">{over.itemIds.map(id => assignmentNames.get(id) ?? id).join('、')}</p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            <section className="border border-slate-200 rounded-lg">
+              <h4 className="text-sm font-semibold text-slate-700 px-3 py-2 border-b border-slate-200">平準化の提案（{workload.suggestions.length}件）</h4>
+              {workload.suggestions.length === 0 ? (
+                <p className="text-xs text-slate-400 p-3">
+                  {workload.overAllocations.length > 0
+                    ? '余裕日数の範囲でずらして解消できる作業はありません。稼働可能時間や担当者の見直しを検討してください。'
+                    : '提案はありません。'}
+                </p>
+              ) : (
+                <ul className="divide-y divide-slate-100 max-h-64 overflow-y-auto">
+                  {workload.suggestions.map(suggestion => (
+                    <li key={suggestion.itemId} className="px-3 py-2 text-xs flex items-center gap-3">
+                      <div className="min-w-0 flex-grow">
+                        <p className="text-slate-800 truncate">
+                          <span className="font-semibold">{suggestion.name}</span>（{suggestion.userName}）を {suggestion.days}日後ろへ
+                        </p>
+                        <p className="text-slate-500">
+                          {formatDate(suggestion.from.start)}〜{formatDate(suggestion.from.end)} → {formatDate(suggestion.to.start)}〜{formatDate(suggestion.to.end)}（余裕 {suggestion.totalFloat}日）
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => onApplySuggestion(suggestion)}
+                        className="px-3 py-1 text-xs font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 flex-shrink-0"
+                      >
+                        適用
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <p className="text-[11px] text-slate-400 px-3 py-2 border-t border-slate-100">
+                クリティカルパス上にない作業だけを、プロジェクトや期日を遅らせない範囲でずらします。適用するたびに日程と提案を再計算します。
+              </p>
+            </section>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResourceWorkloadModal;
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { ProjectMember } from '../services/projectCollaborationService';
+import { resolveResponsibleUserId } from '../services/resourceWorkload';
+
+export interface ResponsibleChange {
+  responsible: string;
+  responsibleUserId: string | undefined;
+}
+
+interface ResponsibleSelectProps {
+  responsible?: string;
+  responsibleUserId?: string;
+  members: Pick<ProjectMember, 'userId' | 'userName' | 'userEmail'>[];
+  onChange: (change: ResponsibleChange) => void;
+  className?: string;
+  placeholder?: string;
+}
+
+const OTHER_VALUE = '__other__';
+
+// 担当者をプロジェクトメンバーから選ぶ。メンバー以外の担当者は名前を入力できる（負荷の集計には含まれない）。
+// メンバーがいない（未保存のプロジェクトなど）場合は名前の入力欄だけを表示する
+const ResponsibleSelect: React.FC<ResponsibleSelectProps> = ({
+  responsible = '', responsibleUserId, members, onChange, className = '', placeholder = '担当者名',
+}) => {
+  const resolvedUserId = resolveResponsibleUserId(responsible, responsibleUserId, members);
+  const [isFreeText, setIsFreeText] = useState(() => !!responsible.trim() && !resolvedUserId);
+
+  if (members.length === 0 || isFreeText) {
+    return (
+      <div className="flex items-center gap-1">
+        <input
+          type="text"
+          value={responsible}
+          onChange={e => onChange({ responsible: e.target.value, responsibleUserId: undefined })}
+          className={`flex-grow min-w-0 ${className}`}
+          placeholder={placeholder}
+        />
+        {members.length > 0 && (
+          <button
+            type="button"
+            onClick={() => setIsFreeText(false)}
+            className="text-xs text-blue-600 hover:underline whitespace-nowrap"
+            title="プロジェクトメンバーから選ぶ"
+          >
+            メンバー
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  const handleSelect = (value: string) => {
+    if (value === OTHER_VALUE) {
+      setIsFreeText(true);
+      onChange({ responsible: '', responsibleUserId: undefined });
+      return;
+    }
+    const member = members.find(candidate => candidate.userId === value);
+    onChange({ responsible: member?.userName || '', responsibleUserId: member?.userId });
+  };
+
+  return (
+    <select value={resolvedUserId ?? ''} onChange={e => handleSelect(e.target.value)} className={`w-full ${className}`}>
+      <option value="">未設定</option>
+      {members.map(member => <option key={member.userId} value={member.userId}>{member.userName}</option>)}
+      <option value={OTHER_VALUE}>メンバー以外（名前を入力）</option>
+    </select>
+  );
+};
+
+export default ResponsibleSelect;
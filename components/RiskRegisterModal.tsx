@@ -0,0 +1,384 @@
+import React, { useState, useMemo } from 'react';
+import { ProjectRisk, ProjectTask, RiskLevel, RiskStatus, RiskMitigationAction } from '../types';
+import { ProjectMember } from '../services/projectCollaborationService';
+import { RiskInput } from '../services/riskService';
+import {
+  RiskSeverity, RISK_LEVELS, RISK_LEVEL_LABELS, RISK_STATUS_LABELS, RISK_SEVERITY_LABELS,
+  buildRiskMatrix, getRiskScore, getRiskSeverity, sortRisks,
+} from '../services/riskRegister';
+import { XIcon, PlusIcon, TrashIcon, CheckSquareIcon, SquareIcon, ShieldIcon } from './icons';
+import ResponsibleSelect from './ResponsibleSelect';
+import ErrorMessage from './ErrorMessage';
+import LoadingSpinner from './LoadingSpinner';
+
+interface RiskRegisterModalProps {
+  risks: ProjectRisk[];
+  tasks: ProjectTask[];
+  members: ProjectMember[];
+  canEdit: boolean; // 保存済みのプロジェクトのみ登録できる
+  isLoading: boolean;
+  error?: string | null;
+  onCreate: (risk: RiskInput) => Promise<boolean>; // 保存できたら true（失敗時は error に表示される）
+  onUpdate: (id: string, updates: Partial<RiskInput>) => Promise<boolean>;
+  onDelete: (id: string) => Promise<void>;
+  generateUniqueId: (prefix: string) => string;
+  onClose: () => void;
+}
+
+const severityStyles: Record<RiskSeverity, string> = {
+  low: 'bg-green-100 text-green-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  high: 'bg-orange-200 text-orange-900',
+  critical: 'bg-red-500 text-white',
+};
+
+const statusStyles: Record<RiskStatus, string> = {
+  open: 'bg-slate-100 text-slate-700',
+  mitigating: 'bg-blue-100 text-blue-800',
+  occurred: 'bg-red-100 text-red-800',
+  closed: 'bg-green-100 text-green-800',
+};
+
+const emptyRisk = (): RiskInput => ({
+  title: '',
+  description: '',
+  probability: 3,
+  impact: 3,
+  owner: '',
+  mitigationActions: [],
+  status: 'open',
+  relatedTaskIds: [],
+  source: 'manual',
+});
+
+const toInput = ({ id, projectId, createdAt, updatedAt, ...input }: ProjectRisk): RiskInput => input;
+
+interface RiskEditorProps {
+  initial: RiskInput;
+  tasks: ProjectTask[];
+  members: ProjectMember[];
+  generateUniqueId: (prefix: string) => string;
+  onSave: (risk: RiskInput) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+// リスク1件の編集フォーム
+const RiskEditor: React.FC<RiskEditorProps> = ({ initial, tasks, members, generateUniqueId, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<RiskInput>(initial);
+  const [isSaving, setIsSaving] = useState(false);
+  const update = (updates: Partial<RiskInput>) => setDraft(prev => ({ ...prev, ...updates }));
+
+  const updateAction = (id: string, updates: Partial<RiskMitigationAction>) =>
+    update({ mitigationActions: draft.mitigationActions.map(action => (action.id === id ? { ...action, ...updates } : action)) });
+
+  const toggleTask = (taskId: string) =>
+    update({ relatedTaskIds: draft.relatedTaskIds.includes(taskId) ? draft.relatedTaskIds.filter(id => id !== taskId) : [...draft.relatedTaskIds, taskId] });
+
+  const handleSave = async () => {
+    if (!draft.title.trim()) {
+      alert('リスクの名前を入力してください。');
+      return;
+    }
+    setIsSaving(true);
+    const saved = await onSave({ ...draft, title: draft.title.trim(), mitigationActions: draft.mitigationActions.filter(action => action.text.trim()) });
+    // 保存できた場合はフォームごと閉じられる
+    if (!saved) setIsSaving(false);
+  };
+
+  const score = getRiskScore(draft);
+
+  return (
+    <div className="border border-blue-300 rounded-lg p-4 bg-blue-50/40 space-y-3">
+      <input
+        type="text"
+        value={draft.title}
+        onChange={e => update({ title: e.target.value })}
+        className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm font-semibold"
+        placeholder="リスクの名前（例：主要サプライヤーの納期遅延）"
+      />
+      <textarea
+        value={draft.description}
+        onChange={e => update({ description: e.target.value })}
+        rows={2}
+        className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm"
+        placeholder="どのような事象が起きうるか、起きた場合の影響"
+      />
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+        <label className="block">
+          <span className="text-xs font-semibold text-slate-600">発生確率</span>
+          <select value={draft.probability} onChange={e => update({ probability: Number(e.target.value) as RiskLevel })} className="w-full mt-1 px-2 py-1 border border-slate-300 rounded-md">
+            {RISK_LEVELS.map(level => <option key={level} value={level}>{level} - {RISK_LEVEL_LABELS[level]}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-xs font-semibold text-slate-600">影響度</span>
+          <select value={draft.impact} onChange={e => update({ impact: Number(e.target.value) as RiskLevel })} className="w-full mt-1 px-2 py-1 border border-slate-300 rounded-md">
+            {RISK_LEVELS.map(level => <option key={level} value={level}>{level} - {RISK_LEVEL_LABELS[level]}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-xs font-semibold text-slate-600">状態</span>
+          <select value={draft.status} onChange={e => update({ status: e.target.value as RiskStatus })} className="w-full mt-1 px-2 py-1 border border-slate-300 rounded-md">
+            {(Object.keys(RISK_STATUS_LABELS) as RiskStatus[]).map(status => <option key={status} value={status}>{RISK_STATUS_LABELS[status]}</option>)}
+          </select>
+        </label>
+        <div>
+          <span className="text-xs font-semibold text-slate-600">担当者</span>
+          <div className="mt-1">
+            <ResponsibleSelect
+              responsible={draft.owner}
+              responsibleUserId={draft.ownerUserId}
+              members={members}
+              onChange={change => update({ owner: change.responsible, ownerUserId: change.responsibleUserId })}
+              className="px-2 py-1 border border-slate-300 rounded-md text-sm"
+            />
+          </div>
+        </div>
+      </div>
+      <p className="text-xs text-slate-500">
+        評価: <span className={`px-2 py-0.5 rounded-full font-semibold ${severityStyles[getRiskSeverity(score)]}`}>{RISK_SEVERITY_LABELS[getRiskSeverity(score)]}（{score}）</span>
+      </p>
+
+      <div>
+        <p className="text-xs font-semibold text-slate-600 mb-1">対策のアクションアイテム</p>
+        <div className="space-y-1">
+          {draft.mitigationActions.map(action => (
+            <div key={action.id} className="flex items-center gap-2 text-sm">
+              <button onClick={() => updateAction(action.id, { completed: !action.completed })} className="flex-shrink-0" title={action.completed ? '未完了に戻す' : '完了にする'}>
+                {action.completed ? <CheckSquareIcon className="w-4 h-4 text-green-600" /> : <SquareIcon className="w-4 h-4 text-slate-400" />}
+              </button>
+              <input
+                type="text"
+                value={action.text}
+                onChange={e => updateAction(action.id, { text: e.target.value })}
+                className={`flex-grow px-2 py-1 border border-slate-300 rounded-md ${action.completed ? 'line-through text-slate-400' : ''}`}
+                placeholder="対策の内容"
+              />
+              <input type="date" value={action.dueDate || ''} onChange={e => updateAction(action.id, { dueDate: e.target.value || undefined })} className="px-2 py-1 border border-slate-300 rounded-md text-xs" />
+              <button onClick={() => update({ mitigationActions: draft.mitigationActions.filter(candidate => candidate.id !== action.id) })} className="p-1 text-slate-400 hover:text-red-500" title="削除">
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => update({ mitigationActions: [...draft.mitigationActions, { id: generateUniqueId('mitigation'), text: '', completed: false }] })}
+            className="flex items-center gap-1 text-xs text-blue-600 hover:underline"
+          >
+            <PlusIcon className="w-3 h-3" />対策を追加
+          </button>
+        </div>
+      </div>
+
+      {tasks.length > 0 && (
+        <div>
+          <p className="text-xs font-semibold text-slate-600 mb-1">関連タスク</p>
+          <div className="flex flex-wrap gap-1">
+            {tasks.map(task => (
+              <button
+                key={task.id}
+                onClick={() => toggleTask(task.id)}
+                className={`px-2 py-0.5 rounded-full text-xs border ${draft.relatedTaskIds.includes(task.id) ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-600 border-slate-300 hover:bg-slate-50'}`}
+              >
+                {task.title}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="px-4 py-1.5 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-md hover:bg-slate-50">キャンセル</button>
+        <button onClick={handleSave} disabled={isSaving} className="px-4 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-slate-400">
+          {isSaving ? '保存中...' : '保存'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// プロジェクトのリスク登録簿。発生確率 × 影響度のマトリクスと一覧
+const RiskRegisterModal: React.FC<RiskRegisterModalProps> = ({
+  risks, tasks, members, canEdit, isLoading, error, onCreate, onUpdate, onDelete, generateUniqueId, onClose,
+}) => {
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+  const [selectedCell, setSelectedCell] = useState<{ probability: RiskLevel; impact: RiskLevel } | null>(null);
+  const [showClosed, setShowClosed] = useState(false);
+
+  const matrix = useMemo(() => buildRiskMatrix(risks), [risks]);
+  const taskTitles = useMemo(() => new Map(tasks.map(task => [task.id, task.title])), [tasks]);
+
+  const visibleRisks = useMemo(() => sortRisks(risks).filter(risk => {
+    if (selectedCell) return risk.probability === selectedCell.probability && risk.impact === selectedCell.impact && risk.status !== 'closed';
+    return showClosed || risk.status !== 'closed';
+  }), [risks, selectedCell, showClosed]);
+
+  const closedCount = risks.filter(risk => risk.status === 'closed').length;
+
+  const handleDelete = async (risk: ProjectRisk) => {
+    if (!window.confirm(`リスク「${risk.title}」を削除しますか？`)) return;
+    await onDelete(risk.id);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 backdrop-blur-sm flex items-center justify-center p-4 z-[90]">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-6xl max-h-[90vh] flex flex-col">
+        <header className="flex items-center justify-between p-5 border-b border-slate-200">
+          <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2"><ShieldIcon className="w-6 h-6 text-slate-500" />リスク登録簿</h3>
+          <div className="flex items-center gap-3">
+            {canEdit && (
+              <button
+                onClick={() => { setEditingId('new'); setSelectedCell(null); }}
+                disabled={editingId === 'new'}
+                className="flex items-center gap-1 px-3 py-1.5 text-sm font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-slate-400"
+              >
+                <PlusIcon className="w-4 h-4" />リスクを追加
+              </button>
+            )}
+            <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-100" title="閉じる"><XIcon className="w-6 h-6 text-slate-500" /></button>
+          </div>
+        </header>
+
+        <div className="flex-grow overflow-y-auto p-5">
+          {error && <div className="mb-4"><ErrorMessage message={error} /></div>}
+          {!canEdit && (
+            <p className="text-sm text-slate-500 bg-slate-50 border border-slate-200 rounded-md p-3 mb-4">
+              リスク登録簿を使うには、先にプロジェクトを保存してください。
+            </p>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-[auto_1fr] gap-6">
+            <section>
+              <h4 className="text-sm font-semibold text-slate-700 mb-2">発生確率 × 影響度</h4>
+              <div className="flex">
+                <div className="flex items-center mr-1">
+                  <span className="text-xs text-slate-500 [writing-mode:vertical-rl] rotate-180">発生確率 →</span>
+                </div>
+                <div>
+                  <div className="grid grid-cols-5 gap-1">
+                    {matrix.map(cell => {
+                      const isSelected = selectedCell?.probability === cell.probability && selectedCell?.impact === cell.impact;
+                      return (
+                        <button
+                          key={`${cell.probability}-${cell.impact}`}
+                          onClick={() => setSelectedCell(isSelected ? null : { probability: cell.probability, impact: cell.impact })}
+                          className={`w-12 h-12 rounded text-sm font-bold ${severityStyles[cell.severity]} ${cell.risks.length === 0 ? 'opacity-40' : ''} ${isSelected ? 'ring-2 ring-blue-600 ring-offset-1' : ''}`}
+                          title={`発生確率 ${cell.probability}・影響度 ${cell.impact}（${cell.risks.length}件）${cell.risks.map(risk => `\n・${risk.title}`).join('')}`}
+                        >
+                          {cell.risks.length > 0 ? cell.risks.length : ''}
+                        </button>
+                      );
+                    })}
+                  </div>
+                  <p className="text-xs text-slate-500 text-center mt-1">影響度 →</p>
+                </div>
+              </div>
+              <p className="text-[11px] text-slate-400 mt-2 max-w-[17rem]">クローズしたリスクは含みません。セルを選ぶと、そのリスクだけを一覧に表示します。</p>
+            </section>
+
+            <section className="min-w-0 space-y-3">
+              <div className="flex items-center justify-between">
+                <h4 className="text-sm font-semibold text-slate-700">
+                  {selectedCell ? `発生確率 ${selectedCell.probability}・影響度 ${selectedCell.impact} のリスク` : 'リスク一覧'}（{visibleRisks.length}件）
+                </h4>
+                {selectedCell ? (
+                  <button onClick={() => setSelectedCell(null)} className="text-xs text-blue-600 hover:underline">すべて表示</button>
+                ) : closedCount > 0 && (
+                  <label className="text-xs text-slate-600 flex items-center gap-1">
+                    <input type="checkbox" checked={showClosed} onChange={e => setShowClosed(e.target.checked)} />
+                    クローズ済みも表示（{closedCount}件）
+                  </label>
+                )}
+              </div>
+
+              {editingId === 'new' && (
+                <RiskEditor
+                  initial={emptyRisk()}
+                  tasks={tasks}
+                  members={members}
+                  generateUniqueId={generateUniqueId}
+                  onSave={async risk => { const saved = await onCreate(risk); if (saved) setEditingId(null); return saved; }}
+                  onCancel={() => setEditingId(null)}
+                />
+              )}
+
+              {isLoading ? (
+                <div className="flex justify-center py-8"><LoadingSpinner /></div>
+              ) : visibleRisks.length === 0 && editingId !== 'new' ? (
+                <p className="text-center text-slate-500 py-8">
+                  {canEdit ? '登録されたリスクはありません。「リスクを追加」するか、AIプロジェクト診断の提案から登録してください。' : '登録されたリスクはありません。'}
+                </p>
+              ) : (
+                <ul className="space-y-2">
+                  {visibleRisks.map(risk => {
+                    if (editingId === risk.id) {
+                      return (
+                        <li key={risk.id}>
+                          <RiskEditor
+                            initial={toInput(risk)}
+                            tasks={tasks}
+                            members={members}
+                            generateUniqueId={generateUniqueId}
+                            onSave={async updates => { const saved = await onUpdate(risk.id, updates); if (saved) setEditingId(null); return saved; }}
+                            onCancel={() => setEditingId(null)}
+                          />
+                        </li>
+                      );
+                    }
+                    const score = getRiskScore(risk);
+                    const severity = getRiskSeverity(score);
+                    const completedActions = risk.mitigationActions.filter(action => action.completed).length;
+                    return (
+                      <li key={risk.id} className={`border border-slate-200 rounded-lg p-3 ${risk.status === 'closed' ? 'opacity-60' : ''}`}>
+                        <div className="flex items-start gap-3">
+                          <span className={`flex-shrink-0 w-10 text-center py-1 rounded text-sm font-bold ${severityStyles[severity]}`} title={`発生確率 ${risk.probability} × 影響度 ${risk.impact}`}>{score}</span>
+                          <div className="min-w-0 flex-grow">
+                            <p className="font-semibold text-slate-800 flex items-center gap-2 flex-wrap">
+                              {risk.title}
+                              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusStyles[risk.status]}`}>{RISK_STATUS_LABELS[risk.status]}</span>
+                              {risk.source === 'health_report' && <span className="px-2 py-0.5 rounded-full text-xs bg-purple-100 text-purple-800">AI診断の提案</span>}
+                            </p>
+                            {risk.description && <p className="text-sm text-slate-600 mt-0.5">{risk.description}</p>}
+                            <p className="text-xs text-slate-500 mt-1">
+                              担当者: {risk.owner || '未設定'}
+                              {risk.mitigationActions.length > 0 && `・対策 ${completedActions}/${risk.mitigationActions.length} 完了`}
+                              {risk.relatedTaskIds.length > 0 && `・関連タスク: ${risk.relatedTaskIds.map(id => taskTitles.get(id) ?? id).join('、')}`}
+                            </p>
+                            {risk.mitigationActions.length > 0 && (
+                              <ul className="mt-1 space-y-0.5">
+                                {risk.mitigationActions.map(action => (
+                                  <li key={action.id} className="flex items-center gap-1 text-xs text-slate-600">
+                                    <button
+                                      onClick={() => onUpdate(risk.id, { mitigationActions: risk.mitigationActions.map(candidate => (candidate.id === action.id ? { ...candidate, completed: !candidate.completed } : candidate)) })}
+                                      disabled={!canEdit}
+                                      className="flex-shrink-0"
+                                    >
+                                      {action.completed ? <CheckSquareIcon className="w-3.5 h-3.5 text-green-600" /> : <SquareIcon className="w-3.5 h-3.5 text-slate-400" />}
+                                    </button>
+                                    <span className={action.completed ? 'line-through text-slate-400' : ''}>{action.text}</span>
+                                    {action.dueDate && <span className="text-slate-400">（{action.dueDate}）</span>}
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                          </div>
+                          {canEdit && (
+                            <div className="flex items-center gap-1 flex-shrink-0">
+                              <button onClick={() => setEditingId(risk.id)} className="px-2 py-1 text-xs text-blue-600 hover:bg-blue-50 rounded">編集</button>
+                              <button onClick={() => handleDelete(risk)} className="p-1 text-slate-400 hover:text-red-500" title="削除"><TrashIcon className="w-4 h-4" /></button>
+                            </div>
+                          )}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </section>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RiskRegisterModal;
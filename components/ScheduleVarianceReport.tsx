@@ -0,0 +1,120 @@
+import React from 'react';
+import { GanttItem, ScheduleVarianceSummary } from '../types';
+
+interface ScheduleVarianceReportProps {
+  variance: ScheduleVarianceSummary;
+  maxItems?: number;
+}
+
+const typeLabels: Record<GanttItem['type'], string> = {
+  task: 'タスク',
+  substep: 'サブステップ',
+  actionitem: 'アクション',
+};
+
+const TREND_WIDTH = 560;
+const TREND_HEIGHT = 140;
+const TREND_PADDING = 28;
+
+const formatSlip = (days: number) => (days > 0 ? `+${days}日` : `${days}日`);
+
+// 完了予定日の推移（比較対象のベースラインからのずれ）を折れ線で表示
+const VarianceTrendChart: React.FC<{ trend: ScheduleVarianceSummary['trend'] }> = ({ trend }) => {
+  if (trend.length < 2) return null;
+
+  const values = trend.map(point => point.slipDays);
+  const min = Math.min(0, ...values);
+  const max = Math.max(0, ...values);
+  const range = max - min || 1;
+  const x = (index: number) => TREND_PADDING + (index * (TREND_WIDTH - TREND_PADDING * 2)) / (trend.length - 1);
+  const y = (value: number) => TREND_PADDING + ((max - value) * (TREND_HEIGHT - TREND_PADDING * 2)) / range;
+  const points = trend.map((point, index) => `${x(index)},${y(point.slipDays)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${TREND_WIDTH} ${TREND_HEIGHT}`} className="w-full h-auto bg-slate-50 rounded-md border border-slate-200">
+      <line x1={TREND_PADDING} x2={TREND_WIDTH - TREND_PADDING} y1={y(0)} y2={y(0)} stroke="#94A3B8" strokeDasharray="4 3" />
+      <polyline points={points} fill="none" stroke="#DC2626" strokeWidth={2} />
+      {trend.map((point, index) => (
+        <g key={`${point.label}-${index}`}>
+          <circle cx={x(index)} cy={y(point.slipDays)} r={4} fill={point.slipDays > 0 ? '#DC2626' : '#16A34A'}>
+            <title>{`${point.label} (${point.date}): 完了予定 ${point.plannedFinish}`}</title>
+          </circle>
+          <text x={x(index)} y={y(point.slipDays) - 8} textAnchor="middle" fontSize={10} fill="#334155">{formatSlip(point.slipDays)}</text>
+          <text x={x(index)} y={TREND_HEIGHT - 8} textAnchor="middle" fontSize={10} fill="#64748B">{point.label.length > 10 ? `${point.label.slice(0, 10)}…` : point.label}</text>
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+const ScheduleVarianceReport: React.FC<ScheduleVarianceReportProps> = ({ variance, maxItems }) => {
+  const items = maxItems !== undefined ? variance.slippedItems.slice(0, maxItems) : variance.slippedItems;
+  const isLate = variance.projectSlipDays > 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className={`p-3 rounded-lg ${isLate ? 'bg-red-50' : 'bg-green-50'}`}>
+          <p className="text-xs text-slate-500">完了予定のずれ</p>
+          <p className={`text-2xl font-bold ${isLate ? 'text-red-700' : 'text-green-700'}`}>{formatSlip(variance.projectSlipDays)}</p>
+          <p className="text-[11px] text-slate-500">{variance.baselineFinish} → {variance.currentFinish}</p>
+        </div>
+        <div className="p-3 rounded-lg bg-slate-50">
+          <p className="text-xs text-slate-500">遅延している項目</p>
+          <p className="text-2xl font-bold text-slate-800">{variance.slippedItems.length}<span className="text-sm font-normal text-slate-500"> / {variance.comparedItemCount}</span></p>
+        </div>
+        <div className="p-3 rounded-lg bg-slate-50">
+          <p className="text-xs text-slate-500">追加された項目</p>
+          <p className="text-2xl font-bold text-slate-800">{variance.addedItemCount}</p>
+        </div>
+        <div className="p-3 rounded-lg bg-slate-50">
+          <p className="text-xs text-slate-500">削除された項目</p>
+          <p className="text-2xl font-bold text-slate-800">{variance.removedItemCount}</p>
+        </div>
+      </div>
+
+      <div>
+        <h6 className="text-sm font-semibold text-slate-700 mb-2">完了予定日の推移</h6>
+        <VarianceTrendChart trend={variance.trend} />
+      </div>
+
+      <div>
+        <h6 className="text-sm font-semibold text-slate-700 mb-2">遅延している項目</h6>
+        {items.length === 0 ? (
+          <p className="text-sm text-slate-500">ベースラインより遅れている項目はありません。</p>
+        ) : (
+          <table className="w-full text-sm border border-slate-200">
+            <thead className="bg-slate-100 text-slate-600 text-xs">
+              <tr>
+                <th className="p-2 text-left">項目</th>
+                <th className="p-2 text-left">種別</th>
+                <th className="p-2 text-left">基準の終了日</th>
+                <th className="p-2 text-left">現在の終了日</th>
+                <th className="p-2 text-right">遅延</th>
+              </tr>
+            </thead>
+            <tbody>
+              {items.map(item => (
+                <tr key={item.id} className="border-t border-slate-200">
+                  <td className="p-2 text-slate-800">
+                    {item.name}
+                    {item.isCritical && <span className="ml-2 text-[10px] font-semibold text-red-600">クリティカル</span>}
+                  </td>
+                  <td className="p-2 text-slate-500">{typeLabels[item.type]}</td>
+                  <td className="p-2 text-slate-500">{item.baselineEnd}</td>
+                  <td className="p-2 text-slate-700">{item.currentEnd}</td>
+                  <td className="p-2 text-right font-semibold text-red-600">{formatSlip(item.finishSlipDays)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {maxItems !== undefined && variance.slippedItems.length > maxItems && (
+          <p className="text-xs text-slate-500 mt-1">ほか {variance.slippedItems.length - maxItems} 件</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleVarianceReport;
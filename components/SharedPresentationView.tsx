@@ -0,0 +1,103 @@
+import React, { useState, useEffect } from 'react';
+import { ProjectTask, SharedPresentation } from '../types';
+import { XIcon } from './icons';
+import LoadingSpinner from './LoadingSpinner';
+import ErrorMessage from './ErrorMessage';
+import PresenterView, { isPresentationKeyHandledByTarget } from './PresenterView';
+import { SlideView } from './SlideRenderer';
+import { getSlideTheme } from '../services/slideDeckContent';
+import { getPresentationKeyAction, navigatePresentation } from '../services/presentationSync';
+import { PresentationService } from '../services/presentationService';
+import { ProjectService } from '../services/projectService';
+
+interface SharedPresentationViewProps {
+    presentationId: string;
+    onClose: () => void;
+}
+
+// 共有リンクから開いた読み取り専用のプレゼンテーション。
+// 計画と連動する要素は、閲覧時点のプロジェクトの計画から表示する
+const SharedPresentationView: React.FC<SharedPresentationViewProps> = ({ presentationId, onClose }) => {
+    const [presentation, setPresentation] = useState<SharedPresentation | null>(null);
+    const [tasks, setTasks] = useState<ProjectTask[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [slideIndex, setSlideIndex] = useState(0);
+    const [isPresenting, setIsPresenting] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        const load = async () => {
+            try {
+                const shared = await PresentationService.getSharedPresentation(presentationId);
+                const project = await ProjectService.getProject(shared.projectId);
+                if (cancelled) return;
+                setTasks(shared.taskId ? project.tasks.filter(t => t.id === shared.taskId) : project.tasks);
+                setPresentation(shared);
+            } catch (err) {
+                if (!cancelled) setError(err instanceof Error ? err.message : 'プレゼンテーションを開けませんでした。');
+            }
+        };
+        load();
+        return () => { cancelled = true; };
+    }, [presentationId]);
+
+    const slideCount = presentation?.deck.slides.length ?? 0;
+
+    useEffect(() => {
+        if (!presentation || isPresenting) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (isPresentationKeyHandledByTarget(e)) return;
+            const action = getPresentationKeyAction(e.key);
+            if (!action || action === 'blackout' || e.ctrlKey || e.metaKey || e.altKey) return;
+            e.preventDefault();
+            setSlideIndex(prev => navigatePresentation(prev, slideCount, action));
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [presentation, isPresenting, slideCount]);
+
+    if (error) {
+        return (
+            <div className="p-4">
+                <ErrorMessage message={error} />
+                <button onClick={onClose} className="mt-4 px-4 py-2 bg-blue-600 text-white rounded">最初に戻る</button>
+            </div>
+        );
+    }
+
+    if (!presentation) {
+        return <div className="h-full flex items-center justify-center"><LoadingSpinner text="プレゼンテーションを読み込んでいます..." /></div>;
+    }
+
+    const slide = presentation.deck.slides[slideIndex];
+
+    return (
+        <div className="fixed inset-0 bg-slate-900 text-white flex flex-col p-4 gap-3">
+            <header className="flex items-center gap-3 flex-shrink-0">
+                <h2 className="text-lg font-bold truncate flex-grow">{presentation.title}</h2>
+                <span className="px-2 py-0.5 text-[11px] font-semibold bg-slate-700 rounded" title={`最終更新: ${new Date(presentation.updatedAt).toLocaleString('ja-JP')}`}>閲覧のみ</span>
+                <button onClick={() => setIsPresenting(true)} className="px-3 py-1.5 text-xs font-semibold bg-blue-600 rounded-md hover:bg-blue-700">発表者モードで開始</button>
+                <button onClick={onClose} className="p-2 bg-slate-700 rounded-md hover:bg-slate-600" title="閉じる"><XIcon className="w-5 h-5" /></button>
+            </header>
+            <main className="flex-grow min-h-0">
+                {slide && <SlideView slide={slide} slideNumber={slideIndex + 1} tasks={tasks} theme={getSlideTheme(presentation.deck)} />}
+            </main>
+            <footer className="flex items-center justify-center gap-4 flex-shrink-0">
+                <button onClick={() => setSlideIndex(prev => navigatePresentation(prev, slideCount, 'previous'))} disabled={slideIndex === 0} className="px-4 py-2 text-sm font-semibold bg-slate-700 rounded-md hover:bg-slate-600 disabled:text-slate-500 disabled:hover:bg-slate-700">← 前へ</button>
+                <span className="text-sm tabular-nums w-20 text-center">{slideIndex + 1} / {slideCount}</span>
+                <button onClick={() => setSlideIndex(prev => navigatePresentation(prev, slideCount, 'next'))} disabled={slideIndex >= slideCount - 1} className="px-4 py-2 text-sm font-semibold bg-slate-700 rounded-md hover:bg-slate-600 disabled:text-slate-500 disabled:hover:bg-slate-700">次へ →</button>
+            </footer>
+            {isPresenting && (
+                <PresenterView
+                    deck={presentation.deck}
+                    tasks={tasks}
+                    title={presentation.title}
+                    initialSlideIndex={slideIndex}
+                    onClose={() => setIsPresenting(false)}
+                />
+            )}
+        </div>
+    );
+};
+
+export default SharedPresentationView;
@@ -1,240 +1,148 @@
-
-import React, { useState, useEffect, useCallback, useRef, ChangeEvent, useMemo } from 'react';
-import { ProjectTask, SlideDeck, Slide, SlideElement, TextboxElement, ChartElement, ChartType, SubStep, ActionItem, ImageElement, TableElement, FlowchartElement, SubStepStatus } from '../types';
-import { XIcon, PrinterIcon, LightBulbIcon, DownloadIcon, RefreshIcon, LockClosedIcon, LockOpenIcon } from './icons';
+import React, { useState, useEffect, useCallback, useRef, ChangeEvent } from 'react';
+import { ProjectTask, SlideDeck, Slide, SlideElement, SlideElementPosition, ActionItem, WorkspaceSlideMasters } from '../types';
+import { XIcon, PrinterIcon, LightBulbIcon, DownloadIcon, RefreshIcon, LockClosedIcon, LockOpenIcon, UndoIcon, RedoIcon, ChatBubbleIcon } from './icons';
 import { regenerateSlideDeck, optimizeSlideLayout, regenerateProjectReportDeck } from '../services/geminiService';
 import LoadingSpinner from './LoadingSpinner';
-import FlowConnector from './FlowConnector';
+import { findReportActionItem, findReportTask, getSlideTheme, SLIDE_THEME_LABELS } from '../services/slideDeckContent';
+import { applySlideMasterLayout } from '../services/slideMaster';
+import { SlideMasterService } from '../services/slideMasterService';
+import {
+    AlignMode, DistributeAxis, DragResult, ResizeHandle, ZOrderMove,
+    alignElements, cloneElements, computeMove, computeResize, distributeElements, expandToGroups,
+    groupElements, nudgeElements, reorderElements, ungroupElements,
+} from '../services/slideLayoutEditing';
+import {
+    isLiveBoundElement, refreshSlideDeckBindings, releaseSlideDeckSnapshots, releaseSlideElementSnapshot,
+    snapshotSlideDeck, snapshotSlideElement,
+} from '../services/slideDataBinding';
+import SlideMasterManagerModal from './SlideMasterManagerModal';
+import ChartPropertiesPanel from './ChartPropertiesPanel';
+import DataBindingPanel, { InsertDataElementPanel, InsertableDataKind } from './DataBindingPanel';
+import { SlideElementContent, SlideMasterOverlay, positionStyle } from './SlideRenderer';
+import PresenterView from './PresenterView';
+import { PresentationService, buildSharedPresentationUrl } from '../services/presentationService';
 
-// --- Chart Rendering Components ---
-const getCoordinatesForPercent = (percent: number) => {
-    const x = Math.cos(2 * Math.PI * percent);
-    const y = Math.sin(2 * Math.PI * percent);
-    return [x, y];
-};
+// --- Slide Element Frame ---
+const RESIZE_HANDLES: ResizeHandle[] = ['nw', 'n', 'ne', 'e', 'se', 's', 'sw', 'w'];
 
-const PieChart: React.FC<{ data: { label: string; value: number }[], title: string }> = ({ data, title }) => {
-    const total = data.reduce((sum, d) => sum + d.value, 0);
-    if (total === 0) return <div className="flex items-center justify-center h-full text-xs text-slate-500">No data to display</div>;
-    
-    let cumulativePercent = 0;
-    const colors = ['#4a90e2', '#50e3c2', '#f5a623', '#f8e71c', '#7ed321', '#9013fe'];
-    
-    const slices = data.map((d, i) => {
-        const percent = d.value / total;
-        const [startX, startY] = getCoordinatesForPercent(cumulativePercent);
-        cumulativePercent += percent;
-        const [endX, endY] = getCoordinatesForPercent(cumulativePercent);
-        const largeArcFlag = percent > 0.5 ? 1 : 0;
-        
-        const pathData = [
-            `M ${startX} ${startY}`, // Move
-            `A 1 1 0 ${largeArcFlag} 1 ${endX} ${endY}`, // Arc
-            `L 0 0`, // Line to center
-        ].join(' ');
-
-        return { path: pathData, color: colors[i % colors.length], label: d.label };
-    });
+const resizeHandleStyle = (handle: ResizeHandle): React.CSSProperties => ({
+    left: handle.includes('w') ? '0%' : handle.includes('e') ? '100%' : '50%',
+    top: handle.includes('n') ? '0%' : handle.includes('s') ? '100%' : '50%',
+    cursor: `${handle}-resize`,
+});
 
-    return (
-        <div className="w-full h-full flex flex-col bg-white p-2">
-            <text x="50%" y="10" textAnchor="middle" fontSize="10" fontWeight="bold" fill="#333" className="block text-center">{title}</text>
-            <div className="flex-grow flex items-center">
-                <svg viewBox="-1 -1 2 2" className="w-2/3 h-full">
-                    {slices.map((slice, i) => <path key={i} d={slice.path} fill={slice.color} />)}
-                </svg>
-                <div className="w-1/3 text-[8px] space-y-1">
-                    {slices.map((slice, i) => (
-                        <div key={i} className="flex items-center">
-                            <span className="w-2 h-2 rounded-full mr-1" style={{ backgroundColor: slice.color }}></span>
-                            <span className="truncate">{slice.label}</span>
-                        </div>
-                    ))}
-                </div>
-            </div>
-        </div>
-    );
-};
+const SlideElementFrame: React.FC<{ position: SlideElementPosition, isSelected: boolean, isGrouped: boolean, showHandles: boolean, onPointerDown: (e: React.PointerEvent, mode: 'move' | ResizeHandle) => void, onDoubleClick: () => void, children: React.ReactNode }> =
+({ position, isSelected, isGrouped, showHandles, onPointerDown, onDoubleClick, children }) => (
+    <div
+        onPointerDown={e => onPointerDown(e, 'move')}
+        onClick={e => e.stopPropagation()}
+        onDoubleClick={e => { e.stopPropagation(); onDoubleClick(); }}
+        style={{
+            ...positionStyle(position),
+            outline: isSelected ? `2px ${isGrouped ? 'dashed' : 'solid'} #3b82f6` : undefined,
+            cursor: 'move',
+        }}
+        className="hover:outline-dashed hover:outline-1 hover:outline-slate-400"
+    >
+        {children}
+        {showHandles && RESIZE_HANDLES.map(handle => (
+            <div key={handle} onPointerDown={e => onPointerDown(e, handle)} style={resizeHandleStyle(handle)}
+                className="absolute z-10 w-2.5 h-2.5 -translate-x-1/2 -translate-y-1/2 bg-white border border-blue-500 rounded-sm" />
+        ))}
+    </div>
+);
 
-const LineChart: React.FC<{ data: { label: string; value: number }[], title: string }> = ({ data, title }) => {
-    const maxValue = Math.max(...data.map(d => d.value), 0);
-    const width = 300, height = 150, margin = { top: 20, right: 10, bottom: 30, left: 30 };
-    const chartWidth = width - margin.left - margin.right;
-    const chartHeight = height - margin.top - margin.bottom;
-    
-    const points = data.map((d, i) => {
-        const x = (i / (data.length - 1)) * chartWidth;
-        const y = chartHeight - (d.value / maxValue) * chartHeight;
-        return `${x},${y}`;
-    }).join(' ');
+const ToolbarButton: React.FC<{ title: string, onClick: () => void, disabled?: boolean, children: React.ReactNode }> = ({ title, onClick, disabled, children }) => (
+    <button onClick={onClick} disabled={disabled} title={title} className="flex items-center px-2 py-1 text-xs text-white bg-slate-700 rounded hover:bg-slate-600 disabled:text-slate-500 disabled:hover:bg-slate-700">
+        {children}
+    </button>
+);
 
-    return (
-      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-full bg-white">
-        <text x={width / 2} y={margin.top / 2 + 5} textAnchor="middle" fontSize="10" fontWeight="bold" fill="#333">{title}</text>
-        <g transform={`translate(${margin.left}, ${margin.top})`}>
-          <line x1="0" y1="0" x2="0" y2={chartHeight} stroke="#ddd" strokeWidth="0.5" />
-          <line x1="0" y1={chartHeight} x2={chartWidth} y2={chartHeight} stroke="#ddd" strokeWidth="0.5" />
-          <polyline fill="none" stroke="#4a90e2" strokeWidth="1.5" points={points} />
-          {data.map((d, i) => {
-            const x = (i / (data.length - 1)) * chartWidth;
-            const y = chartHeight - (d.value / maxValue) * chartHeight;
-            return <circle key={i} cx={x} cy={y} r="2" fill="#4a90e2" />;
-          })}
-        </g>
-      </svg>
-    );
+const ALIGN_BUTTONS: { mode: AlignMode, label: string }[] = [
+    { mode: 'left', label: '左揃え' },
+    { mode: 'center', label: '左右中央' },
+    { mode: 'right', label: '右揃え' },
+    { mode: 'top', label: '上揃え' },
+    { mode: 'middle', label: '上下中央' },
+    { mode: 'bottom', label: '下揃え' },
+];
+
+const Z_ORDER_BUTTONS: { move: ZOrderMove, label: string }[] = [
+    { move: 'front', label: '最前面' },
+    { move: 'forward', label: '前面へ' },
+    { move: 'backward', label: '背面へ' },
+    { move: 'back', label: '最背面' },
+];
+
+// --- Deck History ---
+// 元に戻す・やり直しはエディタを開いている間だけ保持する。
+// 同じキーで続けて行った変更（文字入力・矢印キーでの移動）は1回の操作としてまとめる
+const HISTORY_LIMIT = 100;
+
+interface DeckHistory {
+    past: SlideDeck[];
+    present: SlideDeck;
+    future: SlideDeck[];
+    coalesceKey?: string;
 }
 
-const BarChart: React.FC<{ data: { label: string; value: number }[], title: string }> = ({ data, title }) => {
-    const maxValue = Math.max(...data.map(d => d.value), 0);
-    const width = 300, height = 150, margin = { top: 20, right: 10, bottom: 30, left: 30 };
-    const chartWidth = width - margin.left - margin.right;
-    const chartHeight = height - margin.top - margin.bottom;
-    const barWidth = data.length > 0 ? chartWidth / data.length * 0.8 : 0;
-  
-    return (
-      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-full bg-white">
-        <text x={width / 2} y={margin.top / 2 + 5} textAnchor="middle" fontSize="10" fontWeight="bold" fill="#333">{title}</text>
-        <g transform={`translate(${margin.left}, ${margin.top})`}>
-          <line x1="0" y1="0" x2="0" y2={chartHeight} stroke="#999" strokeWidth="0.5" />
-          {[0, maxValue / 2, maxValue].map(tick => (
-             <g key={tick} transform={`translate(0, ${chartHeight - (tick / maxValue) * chartHeight})`}>
-              <line x1="-3" y1="0" x2="0" y2="0" stroke="#999" strokeWidth="0.5"/>
-              <text x="-5" y="3" textAnchor="end" fontSize="6" fill="#666">{tick.toFixed(0)}</text>
-            </g>
-          ))}
-          {data.map((d, i) => (
-            <g key={d.label} transform={`translate(${(i * chartWidth / data.length) + (chartWidth / data.length * 0.1)}, 0)`}>
-              <rect x="0" y={chartHeight - (d.value / maxValue) * chartHeight} width={barWidth} height={(d.value / maxValue) * chartHeight} fill="#4a90e2" />
-              <text x={barWidth / 2} y={chartHeight + 8} textAnchor="middle" fontSize="6" fill="#666" transform={`rotate(-45, ${barWidth / 2}, ${chartHeight + 8})`}>{d.label}</text>
-            </g>
-          ))}
-        </g>
-      </svg>
-    );
-};
-// --- End Chart Components ---
-
-// --- Sub-step Flowchart Renderer ---
-const SubStepFlowchartCard: React.FC<{ subStep: SubStep, statusColor: string }> = ({ subStep, statusColor }) => (
-    <div style={{
-        position: 'absolute',
-        left: subStep.position?.x || 0,
-        top: subStep.position?.y || 0,
-        width: 192,
-        minHeight: 76,
-        padding: '8px',
-        borderRadius: '8px',
-        backgroundColor: 'white',
-        borderLeft: `4px solid ${statusColor}`,
-        boxShadow: '0 2px 4px rgba(0,0,0,0.1)',
-        fontSize: '12px',
-        fontFamily: 'sans-serif',
-        color: '#333',
-        display: 'flex',
-        flexDirection: 'column',
-        justifyContent: 'center'
-    }}>
-        <p className={`font-bold break-words ${subStep.status === SubStepStatus.COMPLETED ? 'line-through text-slate-500' : ''}`}>{subStep.text}</p>
-    </div>
-);
+const useDeckHistory = (createInitialDeck: () => SlideDeck) => {
+    const [history, setHistory] = useState<DeckHistory>(() => ({ past: [], present: createInitialDeck(), future: [] }));
 
-const SubStepFlowchartRenderer: React.FC<{ subSteps: SubStep[] }> = ({ subSteps }) => {
-    if (!subSteps || subSteps.length === 0) {
-        return <div className="w-full h-full flex items-center justify-center bg-slate-100 text-slate-500 text-sm">No sub-steps to display.</div>;
-    }
+    const commit = useCallback((updater: (prev: SlideDeck) => SlideDeck, coalesceKey?: string) => {
+        setHistory(prev => {
+            const next = updater(prev.present);
+            if (next === prev.present) return prev;
+            const merge = coalesceKey !== undefined && coalesceKey === prev.coalesceKey;
+            return { past: merge ? prev.past : [...prev.past, prev.present].slice(-HISTORY_LIMIT), present: next, future: [], coalesceKey };
+        });
+    }, []);
 
-    const getStatusColor = (status?: SubStepStatus) => {
-        switch(status) {
-            case SubStepStatus.COMPLETED: return '#22c55e'; // green-500
-            case SubStepStatus.IN_PROGRESS: return '#3b82f6'; // blue-500
-            default: return '#94a3b8'; // slate-400
-        }
-    };
-    
-    const cardWidth = 192;
-    const cardHeight = 76;
-
-    const connectors = useMemo(() => {
-        const newConnectors: Array<{id: string, from: {x:number, y:number}, to: {x:number, y:number}, sourceId: string, targetId: string}> = [];
-        (subSteps || []).forEach(sourceSS => {
-            if (sourceSS?.nextSubStepIds?.length && sourceSS.position) {
-                const sourcePos = { x: sourceSS.position.x + cardWidth, y: sourceSS.position.y + cardHeight / 2 };
-                sourceSS.nextSubStepIds.forEach(targetId => {
-                    const targetSS = subSteps.find(t => t.id === targetId);
-                    if (targetSS && targetSS.position) {
-                        const targetPos = { x: targetSS.position.x, y: targetSS.position.y + cardHeight / 2 };
-                        newConnectors.push({ id: `fc-render-${sourceSS.id}-${targetId}`, from: sourcePos, to: targetPos, sourceId: sourceSS.id, targetId: targetId });
-                    }
-                });
-            }
+    const undo = useCallback(() => {
+        setHistory(prev => prev.past.length === 0 ? prev : {
+            past: prev.past.slice(0, -1), present: prev.past[prev.past.length - 1], future: [prev.present, ...prev.future],
         });
-        return newConnectors;
-    }, [subSteps, cardWidth, cardHeight]);
-
-    const boundingBox = useMemo(() => {
-        if (!subSteps || subSteps.length === 0) return { minX: 0, minY: 0, width: 400, height: 300 };
-        let maxX = 0, maxY = 0;
-        subSteps.forEach(ss => {
-            if (ss.position) {
-                maxX = Math.max(maxX, ss.position.x + cardWidth);
-                maxY = Math.max(maxY, ss.position.y + cardHeight);
-            }
+    }, []);
+
+    const redo = useCallback(() => {
+        setHistory(prev => prev.future.length === 0 ? prev : {
+            past: [...prev.past, prev.present], present: prev.future[0], future: prev.future.slice(1),
         });
-        return { minX: 0, minY: 0, width: maxX + 20, height: maxY + 20 };
-    }, [subSteps, cardWidth, cardHeight]);
+    }, []);
 
-    return (
-        <div className="w-full h-full bg-slate-50 overflow-hidden" style={{fontFamily: 'Inter, sans-serif'}}>
-            <svg width="100%" height="100%" viewBox={`${boundingBox.minX} ${boundingBox.minY} ${boundingBox.width} ${boundingBox.height}`}>
-                <style>
-                    {`
-                    .flowchart-card-container {
-                        position: relative;
-                        width: 100%;
-                        height: 100%;
-                        font-family: Inter, sans-serif;
-                    }
-                    `}
-                </style>
-                <foreignObject x="0" y="0" width={boundingBox.width} height={boundingBox.height}>
-                    <div className="flowchart-card-container">
-                        {(subSteps || []).map(ss => (
-                            <SubStepFlowchartCard key={ss.id} subStep={ss} statusColor={getStatusColor(ss.status)} />
-                        ))}
-                    </div>
-                </foreignObject>
-                {/* Render connectors on top */}
-                {connectors.map(conn => (
-                    <FlowConnector key={conn.id} from={conn.from} to={conn.to} id={conn.id} />
-                ))}
-            </svg>
-        </div>
-    );
+    return { deck: history.present, commit, undo, redo, canUndo: history.past.length > 0, canRedo: history.future.length > 0 };
 };
-// --- End Flowchart Renderer ---
 
-// --- Draggable & Resizable Element Wrapper ---
-const DraggableElement: React.FC<{ el: SlideElement, onUpdate: (pos: any) => void, children: React.ReactNode, isSelected: boolean, onClick: () => void }> = 
-({ el, onUpdate, children, isSelected, onClick }) => {
-    return (
-        <div
-            onClick={(e) => { e.stopPropagation(); onClick(); }}
-            style={{ 
-                position: 'absolute', 
-                left: `${el.position.x}%`, top: `${el.position.y}%`, 
-                width: `${el.position.width}%`, height: `${el.position.height}%`,
-                outline: isSelected ? '2px solid #3b82f6' : '1px dashed transparent',
-                cursor: 'move',
-            }}
-            className="transition-all duration-150 hover:outline-dashed hover:outline-slate-400"
-        >
-            {children}
-        </div>
-    );
-}
+const updateSlideElements = (deck: SlideDeck, slideId: string, transform: (elements: SlideElement[]) => SlideElement[]): SlideDeck => {
+    const slide = deck.slides.find(s => s.id === slideId);
+    if (!slide) return deck;
+    const elements = transform(slide.elements);
+    return elements === slide.elements ? deck : { ...deck, slides: deck.slides.map(s => s === slide ? { ...s, elements } : s) };
+};
 
 // --- Main Slide Editor View ---
+interface ElementDrag {
+    mode: 'move' | ResizeHandle;
+    slideId: string;
+    elementId: string; // ポインタを押した要素
+    originX: number;
+    originY: number;
+    elements: SlideElement[]; // 開始時のスライドの要素（吸着先の計算に使う）
+    startPositions: Record<string, SlideElementPosition>;
+    result: DragResult | null; // しきい値を超えて動かすまでは null
+}
+
+interface SlideClipboard {
+    elements: SlideElement[];
+    sourceSlideId: string | null; // 切り取りの場合は null（元の位置に貼り付ける）
+    pasteCount: number;
+}
+
+const DRAG_THRESHOLD = 3; // px。これ未満の移動はクリックとして扱う
+const NUDGE_STEP = 0.5; // %
+const NUDGE_STEP_LARGE = 5; // %（Shift 押下時）
+const PASTE_OFFSET = 2; // %
+
 interface SlideEditorViewProps {
   tasks: ProjectTask[]; // Can be a single task in an array, or all tasks
   initialDeck: SlideDeck;
@@ -243,22 +151,66 @@ interface SlideEditorViewProps {
   generateUniqueId: (prefix: string) => string;
   projectGoal: string;
   targetDate: string;
+  projectStartDate: string; // ガントチャートのデータ要素の日程の起点
   reportScope: 'task' | 'project';
+  projectId: string | null; // スライドマスターを読み込むワークスペースの判定に使う
+  slideCommentCounts?: Record<string, number>; // スライドごとの未解決のコメント数
+  onOpenSlideComments?: (slide: Slide, index: number) => void; // 指定するとスライドにコメントできる
 }
 
-const SlideEditorView: React.FC<SlideEditorViewProps> = ({ 
-  tasks, initialDeck, onSave, onClose, generateUniqueId, projectGoal, targetDate, reportScope 
+const SlideEditorView: React.FC<SlideEditorViewProps> = ({
+  tasks, initialDeck, onSave, onClose, generateUniqueId, projectGoal, targetDate, projectStartDate, reportScope, projectId,
+  slideCommentCounts = {}, onOpenSlideComments
 }) => {
-    const [deck, setDeck] = useState(initialDeck);
+    // 計画と連動するフローチャートは、開いた時点の最新のサブステップに差し替える
+    const { deck, commit, undo, redo, canUndo, canRedo } = useDeckHistory(() => refreshSlideDeckBindings(initialDeck, tasks, projectStartDate));
     const [selectedSlideIndex, setSelectedSlideIndex] = useState(0);
-    const [selectedElementId, setSelectedElementId] = useState<string | null>(null);
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [editingElementId, setEditingElementId] = useState<string | null>(null);
+    const [clipboard, setClipboard] = useState<SlideClipboard | null>(null);
+    const [drag, setDrag] = useState<ElementDrag | null>(null);
+    const dragRef = useRef<ElementDrag | null>(null);
+    const slideCanvasRef = useRef<HTMLDivElement>(null);
+    const editingTextRef = useRef<HTMLTextAreaElement>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string|null>(null);
     const [isDownloadMenuOpen, setDownloadMenuOpen] = useState(false);
     const downloadButtonRef = useRef<HTMLDivElement>(null);
+    const [workspaceMasters, setWorkspaceMasters] = useState<WorkspaceSlideMasters>({ masters: [], defaultMasterId: null, canEdit: false });
+    const [isMasterManagerOpen, setIsMasterManagerOpen] = useState(false);
+    const [isPresenting, setIsPresenting] = useState(false);
+    const [shareUrl, setShareUrl] = useState<string | null>(null);
+
+    useEffect(() => {
+        SlideMasterService.getSlideMasters(projectId)
+            .then(setWorkspaceMasters)
+            .catch(err => console.warn('Failed to load slide masters:', err));
+    }, [projectId]);
+
+    // 再生成や元に戻す操作でスライド数が減っても、範囲内のスライドを表示する
+    const slideIndex = Math.min(selectedSlideIndex, Math.max(deck.slides.length - 1, 0));
+    const currentSlide = deck.slides[slideIndex];
+    const selection = selectedIds.filter(id => currentSlide?.elements.some(el => el.id === id));
+    const selectedElements = currentSlide?.elements.filter(el => selection.includes(el.id)) ?? [];
+    const selectedUnitCount = new Set(selectedElements.map(el => el.groupId ?? el.id)).size;
+
+    useEffect(() => {
+        if (editingElementId) editingTextRef.current?.focus();
+    }, [editingElementId]);
+
+    const selectSlide = (index: number) => {
+        setSelectedSlideIndex(index);
+        setSelectedIds([]);
+        setEditingElementId(null);
+    };
 
-    const updateSlide = (slideId: string, updates: Partial<Slide> | ((s:Slide) => Partial<Slide>)) => {
-        setDeck(prev => ({ ...prev, slides: prev.slides.map(s => s.id === slideId ? {...s, ...(typeof updates === 'function' ? updates(s) : s)} : s) }));
+    const clearSelection = () => {
+        setSelectedIds([]);
+        setEditingElementId(null);
+    };
+
+    const updateSlide = (slideId: string, updates: Partial<Slide> | ((s:Slide) => Partial<Slide>), coalesceKey?: string) => {
+        commit(prev => ({ ...prev, slides: prev.slides.map(s => s.id === slideId ? {...s, ...(typeof updates === 'function' ? updates(s) : updates)} : s) }), coalesceKey);
     };
 
     const toggleSlideLock = (index: number) => {
@@ -266,8 +218,189 @@ const SlideEditorView: React.FC<SlideEditorViewProps> = ({
         updateSlide(slide.id, { isLocked: !slide.isLocked });
     };
 
-    const updateElement = (slideId: string, elementId: string, updates: Partial<SlideElement>) => {
-        updateSlide(slideId, s => ({ elements: s.elements.map(el => el.id === elementId ? {...el, ...updates} as SlideElement : el)}));
+    const updateElement = (slideId: string, elementId: string, updates: Partial<SlideElement>, coalesceKey?: string) => {
+        commit(prev => updateSlideElements(prev, slideId, elements => elements.map(el => el.id === elementId ? {...el, ...updates} as SlideElement : el)), coalesceKey);
+    };
+
+    const updateCurrentElements = (transform: (elements: SlideElement[]) => SlideElement[], coalesceKey?: string) => {
+        if (!currentSlide) return;
+        commit(prev => updateSlideElements(prev, currentSlide.id, transform), coalesceKey);
+    };
+
+    // --- 直接操作 ---
+    const updateDrag = (next: ElementDrag | null) => {
+        dragRef.current = next;
+        setDrag(next);
+    };
+
+    const handleElementPointerDown = (e: React.PointerEvent, el: SlideElement, mode: 'move' | ResizeHandle) => {
+        if (e.button !== 0 || !currentSlide) return;
+        e.stopPropagation();
+        // 文字を編集中のテキストボックスでは、テキストの選択を優先する
+        if (mode === 'move' && editingElementId === el.id) return;
+        e.preventDefault();
+        (document.activeElement as HTMLElement | null)?.blur();
+        setEditingElementId(null);
+
+        const group = expandToGroups(currentSlide.elements, [el.id]);
+        if (mode === 'move' && (e.shiftKey || e.ctrlKey || e.metaKey)) {
+            setSelectedIds(group.every(id => selection.includes(id))
+                ? selection.filter(id => !group.includes(id))
+                : [...selection, ...group.filter(id => !selection.includes(id))]);
+            return;
+        }
+
+        const ids = mode !== 'move' ? [el.id] : selection.includes(el.id) ? selection : group;
+        if (!selection.includes(el.id)) setSelectedIds(ids);
+        updateDrag({
+            mode, slideId: currentSlide.id, elementId: el.id,
+            originX: e.clientX, originY: e.clientY,
+            elements: currentSlide.elements,
+            startPositions: Object.fromEntries(currentSlide.elements.filter(item => ids.includes(item.id)).map(item => [item.id, item.position])),
+            result: null,
+        });
+    };
+
+    // ドラッグ中はウィンドウ全体でポインタを追跡し、離した時点で位置を確定する（Alt 押下中は吸着しない）
+    const isDragging = drag !== null;
+    useEffect(() => {
+        if (!isDragging) return;
+
+        const handlePointerMove = (e: PointerEvent) => {
+            const current = dragRef.current;
+            const rect = slideCanvasRef.current?.getBoundingClientRect();
+            if (!current || !rect) return;
+            const dx = e.clientX - current.originX;
+            const dy = e.clientY - current.originY;
+            if (!current.result && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+            const dxPercent = dx / rect.width * 100;
+            const dyPercent = dy / rect.height * 100;
+            const result = current.mode === 'move'
+                ? computeMove(current.elements, current.startPositions, dxPercent, dyPercent, !e.altKey)
+                : computeResize(current.elements, current.elementId, current.startPositions[current.elementId], current.mode, dxPercent, dyPercent, !e.altKey);
+            updateDrag({ ...current, result });
+        };
+
+        const handlePointerUp = () => {
+            const current = dragRef.current;
+            updateDrag(null);
+            if (!current) return;
+            if (!current.result) {
+                // 動かさずに離した場合は、押した要素（グループ）だけを選択し直す
+                if (current.mode === 'move') setSelectedIds(expandToGroups(current.elements, [current.elementId]));
+                return;
+            }
+            const { positions } = current.result;
+            commit(prev => updateSlideElements(prev, current.slideId, elements => elements.map(el => positions[el.id] ? { ...el, position: positions[el.id] } : el)));
+        };
+
+        window.addEventListener('pointermove', handlePointerMove);
+        window.addEventListener('pointerup', handlePointerUp);
+        return () => {
+            window.removeEventListener('pointermove', handlePointerMove);
+            window.removeEventListener('pointerup', handlePointerUp);
+        };
+    }, [isDragging, commit]);
+
+    const previewPositions = drag && drag.slideId === currentSlide?.id ? drag.result?.positions : undefined;
+    const snapGuides = drag && drag.slideId === currentSlide?.id ? drag.result?.guides : undefined;
+
+    const handleAlign = (mode: AlignMode) => updateCurrentElements(elements => alignElements(elements, selection, mode));
+    const handleDistribute = (axis: DistributeAxis) => updateCurrentElements(elements => distributeElements(elements, selection, axis));
+    const handleReorder = (move: ZOrderMove) => updateCurrentElements(elements => reorderElements(elements, selection, move));
+
+    const handleGroup = () => {
+        if (selectedUnitCount < 2) return;
+        updateCurrentElements(elements => groupElements(elements, selection, generateUniqueId('group')));
+    };
+
+    const handleUngroup = () => updateCurrentElements(elements => ungroupElements(elements, selection));
+
+    const handleDelete = () => {
+        if (selection.length === 0) return;
+        updateCurrentElements(elements => elements.filter(el => !selection.includes(el.id)));
+        clearSelection();
+    };
+
+    const handleCopy = () => {
+        if (!currentSlide || selectedElements.length === 0) return;
+        setClipboard({ elements: selectedElements, sourceSlideId: currentSlide.id, pasteCount: 0 });
+    };
+
+    const handleCut = () => {
+        if (selectedElements.length === 0) return;
+        setClipboard({ elements: selectedElements, sourceSlideId: null, pasteCount: 0 });
+        handleDelete();
+    };
+
+    // 同じスライドに貼り付けるときは、元の要素や前回の貼り付けと重ならないように少しずつずらす
+    const handlePaste = () => {
+        if (!currentSlide || !clipboard) return;
+        const cascade = clipboard.pasteCount + (clipboard.sourceSlideId === currentSlide.id ? 1 : 0);
+        const copies = cloneElements(clipboard.elements, generateUniqueId, PASTE_OFFSET * cascade);
+        updateCurrentElements(elements => [...elements, ...copies]);
+        setClipboard({ ...clipboard, pasteCount: clipboard.pasteCount + 1 });
+        setSelectedIds(copies.map(el => el.id));
+        setEditingElementId(null);
+    };
+
+    const handleNudge = (dx: number, dy: number) => {
+        if (selection.length === 0) return;
+        updateCurrentElements(elements => nudgeElements(elements, selection, dx, dy), 'nudge');
+    };
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (isMasterManagerOpen || isPresenting) return;
+            const target = e.target as HTMLElement | null;
+            if (target && (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable)) {
+                if (e.key === 'Escape' && editingElementId) {
+                    target.blur();
+                    setEditingElementId(null);
+                }
+                return;
+            }
+
+            const isModifier = e.ctrlKey || e.metaKey;
+            const key = e.key.toLowerCase();
+            const step = e.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP;
+            if (isModifier && key === 'z') e.shiftKey ? redo() : undo();
+            else if (isModifier && key === 'y') redo();
+            else if (isModifier && key === 'a') setSelectedIds(currentSlide?.elements.map(el => el.id) ?? []);
+            else if (isModifier && key === 'c') handleCopy();
+            else if (isModifier && key === 'x') handleCut();
+            else if (isModifier && key === 'v') handlePaste();
+            else if (isModifier && key === 'g') e.shiftKey ? handleUngroup() : handleGroup();
+            else if (e.key === 'ArrowLeft') handleNudge(-step, 0);
+            else if (e.key === 'ArrowRight') handleNudge(step, 0);
+            else if (e.key === 'ArrowUp') handleNudge(0, -step);
+            else if (e.key === 'ArrowDown') handleNudge(0, step);
+            else if (e.key === 'Delete' || e.key === 'Backspace') handleDelete();
+            else if (e.key === 'Escape') clearSelection();
+            else return;
+            e.preventDefault();
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    });
+
+    // --- 計画と連動する要素 ---
+    const hasLiveElements = deck.slides.some(slide => slide.elements.some(isLiveBoundElement));
+    const hasSnapshots = deck.slides.some(slide => slide.elements.some(el => (el.type === 'data' || el.type === 'flowchart') && !isLiveBoundElement(el)));
+
+    const handleSnapshotDeck = () => commit(prev => snapshotSlideDeck(prev, tasks, new Date().toISOString()));
+    const handleReleaseDeck = () => commit(releaseSlideDeckSnapshots);
+
+    const handleInsertDataElement = (kind: InsertableDataKind, taskId: string | undefined) => {
+        if (!currentSlide) return;
+        const id = generateUniqueId('el');
+        const position = { x: 20, y: 25, width: 60, height: 50 };
+        const element: SlideElement = kind === 'flowchart'
+            ? { id, type: 'flowchart', position, taskId, data: { subSteps: tasks.find(t => t.id === taskId)?.extendedDetails?.subSteps || [] } }
+            : { id, type: 'data', position, binding: kind, taskId, scheduleStart: kind === 'gantt' ? projectStartDate : undefined };
+        updateCurrentElements(elements => [...elements, element]);
+        setSelectedIds([id]);
     };
 
     const handleOptimize = async () => {
@@ -277,15 +410,15 @@ const SlideEditorView: React.FC<SlideEditorViewProps> = ({
             const deckToOptimize = { ...deck, slides: deck.slides.map(s => s.isLocked ? s : ({...s, isLocked: undefined})) }; // Don't send lock status for optimization
             const optimized = await optimizeSlideLayout(deckToOptimize);
             // Re-apply lock status from original deck
-            const finalDeck = { ...optimized, slides: optimized.slides.map((s, i) => ({ ...s, isLocked: deck.slides[i].isLocked }))};
-            setDeck(finalDeck);
+            const finalDeck = { ...optimized, slides: optimized.slides.map((s, i) => ({ ...s, isLocked: deck.slides[i].isLocked })), sharedPresentationId: deck.sharedPresentationId };
+            commit(() => finalDeck);
         } catch (err) {
             setError(err instanceof Error ? err.message : "最適化に失敗しました。");
         } finally {
             setIsLoading(false);
         }
     };
-    
+
     const handleRegenerate = async () => {
         setIsLoading(true);
         setError(null);
@@ -296,7 +429,7 @@ const SlideEditorView: React.FC<SlideEditorViewProps> = ({
             } else {
                 regenerated = await regenerateSlideDeck(deck, tasks[0], projectGoal);
             }
-            setDeck(regenerated);
+            commit(prev => ({ ...regenerated, sharedPresentationId: prev.sharedPresentationId }));
         } catch (err) {
             setError(err instanceof Error ? err.message : "レポートの再生成に失敗しました。");
         } finally {
@@ -304,64 +437,49 @@ const SlideEditorView: React.FC<SlideEditorViewProps> = ({
         }
     };
 
-    const findActionItem = (subStepId: string, actionItemId: string): ActionItem | undefined => {
-      for (const task of tasks) {
-        const subStep = task.extendedDetails?.subSteps?.find(ss => ss.id === subStepId);
-        if (subStep) {
-          const actionItem = subStep?.actionItems?.find(ai => ai.id === actionItemId);
-          if (actionItem) return actionItem;
+    const theme = getSlideTheme(deck);
+    // 選択肢の値は "theme:<組み込みテーマ>" または "master:<マスターID>"
+    const themeValue = deck.master ? `master:${deck.master.id}` : `theme:${deck.theme ?? 'light'}`;
+    const isDeckMasterListed = !deck.master || workspaceMasters.masters.some(m => m.id === deck.master!.id);
+
+    const handleThemeChange = (value: string) => {
+        const [kind, id] = value.split(':');
+        if (kind === 'theme') {
+            commit(prev => ({ ...prev, theme: id as NonNullable<SlideDeck['theme']>, master: undefined }));
+            return;
         }
-      }
-      return undefined;
+        const master = workspaceMasters.masters.find(m => m.id === id);
+        if (master) commit(prev => ({ ...prev, master }));
     };
 
-    const renderElement = (el: SlideElement) => {
-        switch(el.type) {
-            case 'textbox': 
-                const tb = el as TextboxElement;
-                return <textarea value={tb.content} 
-                    onChange={e => updateElement(deck.slides[selectedSlideIndex].id, el.id, {content: e.target.value})}
-                    className="w-full h-full bg-transparent resize-none border-none outline-none p-2"
-                    style={{fontSize: tb.fontSize, fontWeight: tb.fontWeight, textAlign: tb.textAlign, color: '#333'}}
-                />;
-            case 'image': {
-                const imgEl = el as ImageElement;
-                const actionItem = findActionItem(imgEl.subStepId, imgEl.actionItemId);
-                const imgAttachment = actionItem?.report?.attachments?.find(a => a.id === imgEl.attachmentId);
-                return imgAttachment ? <img src={imgAttachment.dataUrl} className="w-full h-full object-contain" alt={imgAttachment.name} /> : <div className="bg-slate-200 flex items-center justify-center text-xs text-slate-500">画像が見つかりません</div>;
-            }
-            case 'table': {
-                const tblEl = el as TableElement;
-                const actionItem = findActionItem(tblEl.subStepId, tblEl.actionItemId);
-                const matrixData = actionItem?.report?.matrixData;
-                return matrixData ? <div className="p-2 overflow-auto h-full"><table className="w-full text-[8px] border-collapse bg-white"><thead><tr className="bg-slate-200">{matrixData.headers.map((h, i) => <th key={i} className="border border-slate-300 p-1 font-semibold">{h}</th>)}</tr></thead><tbody>{matrixData.rows.map((r, i) => <tr key={i}>{r.map((c, j) => <td key={`${i}-${j}`} className="border border-slate-300 p-1">{c}</td>)}</tr>)}</tbody></table></div> : <div className="bg-slate-200 flex items-center justify-center text-xs text-slate-500">データなし</div>;
-            }
-            case 'chart': {
-                const chartEl = el as ChartElement;
-                const actionItem = findActionItem(chartEl.subStepId, chartEl.actionItemId);
-                const chartData = (actionItem?.report?.matrixData?.rows || []).map(row => ({ label: row[0], value: parseFloat(row[1]) || 0 })).filter(d => d.label && !isNaN(d.value));
-                if (chartData.length === 0) return <div className="bg-slate-200 flex items-center justify-center text-xs text-slate-500">チャートデータなし</div>;
-                
-                switch(chartEl.chartType) {
-                    case 'line': return <LineChart data={chartData} title={chartEl.title} />;
-                    case 'pie': return <PieChart data={chartData} title={chartEl.title} />;
-                    case 'bar':
-                    default:
-                        return <BarChart data={chartData} title={chartEl.title} />;
-                }
-            }
-            case 'flowchart': {
-              const flowchartEl = el as FlowchartElement;
-              if (flowchartEl.data && flowchartEl.data.subSteps) {
-                  return <SubStepFlowchartRenderer subSteps={flowchartEl.data.subSteps} />;
-              }
-              return <div className="bg-slate-200 flex items-center justify-center text-xs text-slate-500">フローチャートのデータが見つかりません。</div>;
-            }
-            default: return null;
-        }
+    const handleApplyMasterLayout = () => {
+        commit(prev => ({ ...prev, slides: applySlideMasterLayout(prev.slides, getSlideTheme(prev)) }));
+    };
+
+    // 編集したマスターを使っているデッキは、保存された内容に差し替える
+    const handleMastersChange = (next: WorkspaceSlideMasters) => {
+        setWorkspaceMasters(next);
+        commit(prev => {
+            const updated = prev.master && next.masters.find(m => m.id === prev.master!.id);
+            return updated ? { ...prev, master: updated } : prev;
+        });
     };
 
-    const handlePrint = () => window.print();
+    const findActionItem = (subStepId: string, actionItemId: string): ActionItem | undefined =>
+      findReportActionItem(tasks, subStepId, actionItemId);
+
+    const renderElement = (el: SlideElement) => {
+        if (el.type !== 'textbox') return <SlideElementContent element={el} tasks={tasks} theme={theme} />;
+        const isEditing = editingElementId === el.id;
+        // ダブルクリックで編集を始めるまでは、ドラッグの邪魔にならないよう入力を受け付けない
+        return <textarea value={el.content}
+            ref={isEditing ? editingTextRef : undefined}
+            readOnly={!isEditing}
+            onChange={e => updateElement(currentSlide.id, el.id, {content: e.target.value}, `text:${el.id}`)}
+            className="w-full h-full bg-transparent resize-none border-none outline-none p-2"
+            style={{fontSize: el.fontSize, fontWeight: el.fontWeight, textAlign: el.textAlign, color: `#${theme.text}`, fontFamily: 'inherit', pointerEvents: isEditing ? 'auto' : 'none'}}
+        />;
+    };
 
     const downloadJson = (data: unknown, filename: string) => {
         const jsonString = JSON.stringify(data, null, 2);
@@ -376,26 +494,105 @@ const SlideEditorView: React.FC<SlideEditorViewProps> = ({
         URL.revokeObjectURL(url);
     };
 
-    const handleDownload = (format: 'pdf' | 'json') => {
-        if (format === 'pdf') {
-            handlePrint();
-        } else {
+    const handleDownload = async (format: 'pdf' | 'pptx' | 'json') => {
+        setDownloadMenuOpen(false);
+        if (format === 'json') {
             downloadJson(deck, 'report-deck.json');
+            return;
+        }
+        setIsLoading(true);
+        setError(null);
+        try {
+            // 出力用のライブラリは必要になった形式の分だけ読み込む
+            if (format === 'pdf') await (await import('../services/pdfExport')).downloadSlideDeckPdf(deck, tasks, 'report-deck');
+            else await (await import('../services/pptxExport')).downloadSlideDeckAsPptx(deck, tasks, 'report-deck');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "ファイルの作成に失敗しました。");
+        } finally {
+            setIsLoading(false);
         }
-        setDownloadMenuOpen(false);
     };
 
     const handleSaveAndClose = () => { onSave(deck); onClose(); };
-    const currentSlide = deck.slides[selectedSlideIndex];
+    const selectedElement = selectedElements.length === 1 ? selectedElements[0] : undefined;
     const editorTitle = reportScope === 'project' ? `プロジェクト全体レポート: ${projectGoal}` : `タスクレポート: ${tasks[0].title}`;
 
+    // --- 発表と共有 ---
+    // 共有リンクはプロジェクトのメンバーだけが開ける。共有済みのデッキは同じリンクのまま内容を更新する
+    const handleShare = async () => {
+        if (!projectId) return;
+        setIsLoading(true);
+        setError(null);
+        try {
+            const shared = await PresentationService.shareDeck(projectId, reportScope === 'task' ? tasks[0].id : undefined, editorTitle, deck);
+            if (shared.id !== deck.sharedPresentationId) commit(prev => ({ ...prev, sharedPresentationId: shared.id }));
+            setShareUrl(buildSharedPresentationUrl(shared.id));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "プレゼンテーションの共有に失敗しました。");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleUnshare = async () => {
+        if (!deck.sharedPresentationId || !window.confirm('共有を取り消しますか？このリンクは開けなくなります。')) return;
+        setIsLoading(true);
+        setError(null);
+        try {
+            await PresentationService.deleteSharedPresentation(deck.sharedPresentationId);
+            commit(prev => ({ ...prev, sharedPresentationId: undefined }));
+            setShareUrl(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "共有の取り消しに失敗しました。");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleCopyShareUrl = () => {
+        if (!shareUrl) return;
+        navigator.clipboard.writeText(shareUrl).catch(err => console.warn('Failed to copy the share link:', err));
+    };
+
     return (
-        <>
-        <style>{`@media print { body { -webkit-print-color-adjust: exact; print-color-adjust: exact; } .no-print { display: none !important; } .slide-print-page { page-break-after: always; width: 100vw; height: 56.25vw; /* 16:9 aspect ratio */ box-shadow: none !important; border: none; } }`}</style>
-        <div className="fixed inset-0 bg-slate-900 bg-opacity-80 z-[100] flex flex-col p-4 no-print" onClick={() => setSelectedElementId(null)}>
+        <div className="fixed inset-0 bg-slate-900 bg-opacity-80 z-[100] flex flex-col p-4" onClick={clearSelection}>
             <header className="flex items-center justify-between pb-4 flex-shrink-0">
                 <h2 className="text-xl font-bold text-white truncate pr-4">{editorTitle}</h2>
                 <div className="flex items-center space-x-2">
+                    <select value={themeValue} onChange={e => handleThemeChange(e.target.value)} className="px-2 py-1.5 text-xs bg-slate-700 text-white border border-slate-600 rounded-md" title="テーマ">
+                        <optgroup label="組み込みテーマ">
+                            {(Object.keys(SLIDE_THEME_LABELS) as NonNullable<SlideDeck['theme']>[]).map(t => <option key={t} value={`theme:${t}`}>{SLIDE_THEME_LABELS[t]}</option>)}
+                        </optgroup>
+                        {(workspaceMasters.masters.length > 0 || !isDeckMasterListed) && (
+                            <optgroup label="スライドマスター">
+                                {!isDeckMasterListed && deck.master && <option value={themeValue}>{deck.master.name}</option>}
+                                {workspaceMasters.masters.map(m => <option key={m.id} value={`master:${m.id}`}>{m.name}</option>)}
+                            </optgroup>
+                        )}
+                    </select>
+                    <button onClick={() => setIsMasterManagerOpen(true)} className="px-3 py-1.5 text-xs font-semibold text-white bg-slate-600 rounded-md hover:bg-slate-500">マスター管理</button>
+                    <button onClick={handleSnapshotDeck} disabled={!hasLiveElements} className="px-3 py-1.5 text-xs font-semibold text-white bg-amber-600 rounded-md hover:bg-amber-700 disabled:bg-slate-400" title="計画と連動する要素を現在の値で固定します（正式な報告用）">
+                        値を固定
+                    </button>
+                    {hasSnapshots && (
+                        <button onClick={handleReleaseDeck} className="px-3 py-1.5 text-xs font-semibold text-white bg-slate-600 rounded-md hover:bg-slate-500" title="固定した要素を最新の計画に連動させます">
+                            固定を解除
+                        </button>
+                    )}
+                    {onOpenSlideComments && (
+                        <button onClick={() => currentSlide && onOpenSlideComments(currentSlide, slideIndex)} disabled={!currentSlide} className="flex items-center gap-1 px-3 py-1.5 text-xs font-semibold text-white bg-slate-600 rounded-md hover:bg-slate-500 disabled:bg-slate-400" title="表示中のスライドへのコメント">
+                            <ChatBubbleIcon className="w-4 h-4"/> コメント{currentSlide && slideCommentCounts[currentSlide.id] ? `（${slideCommentCounts[currentSlide.id]}）` : ''}
+                        </button>
+                    )}
+                    <button onClick={() => setIsPresenting(true)} disabled={deck.slides.length === 0} className="px-3 py-1.5 text-xs font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-slate-400" title="表示中のスライドから発表者モードで発表します">
+                        発表
+                    </button>
+                    <button onClick={handleShare} disabled={!projectId || isLoading} className="px-3 py-1.5 text-xs font-semibold text-white bg-slate-600 rounded-md hover:bg-slate-500 disabled:bg-slate-400" title={projectId ? 'プロジェクトのメンバーが閲覧できる読み取り専用のリンクを作成します' : 'プロジェクトを保存すると共有できます'}>
+                        {deck.sharedPresentationId ? '共有を更新' : '共有リンク'}
+                    </button>
+                    <button onClick={handleApplyMasterLayout} disabled={isLoading} className="px-3 py-1.5 text-xs font-semibold text-white bg-slate-600 rounded-md hover:bg-slate-500 disabled:bg-slate-400" title="ロックされていないスライドの要素をプレースホルダーに合わせて配置します">
+                        マスターに合わせて配置
+                    </button>
                     <button onClick={handleRegenerate} disabled={isLoading} className="flex items-center gap-2 px-3 py-1.5 text-xs font-semibold text-white bg-green-600 rounded-md hover:bg-green-700 disabled:bg-slate-400">
                         <RefreshIcon className="w-4 h-4"/> {isLoading ? "処理中..." : "レポート再生成"}
                     </button>
@@ -404,8 +601,9 @@ const SlideEditorView: React.FC<SlideEditorViewProps> = ({
                     </button>
                     <div className="relative" ref={downloadButtonRef}>
                       <button onClick={() => setDownloadMenuOpen(prev => !prev)} className="p-2 bg-slate-600 text-white rounded-md hover:bg-slate-500" title="ダウンロード"><DownloadIcon className="w-5 h-5"/></button>
-                      {isDownloadMenuOpen && <div className="absolute right-0 mt-2 w-32 bg-white rounded-md shadow-lg z-10">
-                        <button onClick={() => handleDownload('pdf')} className="block w-full text-left px-4 py-2 text-sm text-slate-700 hover:bg-slate-100">PDFとして保存</button>
+                      {isDownloadMenuOpen && <div className="absolute right-0 mt-2 w-48 bg-white rounded-md shadow-lg z-10">
+                        <button onClick={() => handleDownload('pdf')} disabled={isLoading} className="block w-full text-left px-4 py-2 text-sm text-slate-700 hover:bg-slate-100 disabled:text-slate-400">PDFとして保存</button>
+                        <button onClick={() => handleDownload('pptx')} disabled={isLoading} className="block w-full text-left px-4 py-2 text-sm text-slate-700 hover:bg-slate-100 disabled:text-slate-400">PowerPointとして保存</button>
                         <button onClick={() => handleDownload('json')} className="block w-full text-left px-4 py-2 text-sm text-slate-700 hover:bg-slate-100">JSONとして保存</button>
                       </div>}
                     </div>
@@ -414,12 +612,22 @@ const SlideEditorView: React.FC<SlideEditorViewProps> = ({
                 </div>
             </header>
             {error && <div className="text-red-400 text-sm mb-2 bg-red-100 border border-red-400 p-2 rounded-md">{error}</div>}
+            {shareUrl && (
+                <div className="flex items-center gap-2 mb-2 bg-slate-800 text-white text-xs p-2 rounded-md" onClick={e => e.stopPropagation()}>
+                    <span className="flex-shrink-0">共有リンク（プロジェクトのメンバーのみ閲覧できます。デッキを変更したら「共有を更新」で反映してください）</span>
+                    <input value={shareUrl} readOnly onFocus={e => e.target.select()} className="flex-grow min-w-0 bg-slate-700 border border-slate-600 rounded px-2 py-1" />
+                    <button onClick={handleCopyShareUrl} className="px-2 py-1 font-semibold bg-blue-600 rounded hover:bg-blue-700">コピー</button>
+                    <button onClick={handleUnshare} disabled={isLoading} className="px-2 py-1 font-semibold bg-slate-600 rounded hover:bg-slate-500 disabled:text-slate-400">共有を取り消す</button>
+                    <button onClick={() => setShareUrl(null)} className="p-1 rounded hover:bg-slate-700" title="閉じる"><XIcon className="w-4 h-4" /></button>
+                </div>
+            )}
 
             <div className="flex-grow flex gap-4 min-h-0">
                 <aside className="w-40 bg-slate-800 rounded-lg p-2 flex flex-col gap-2 overflow-y-auto">
                     {deck.slides.map((slide, index) => (
-                        <div key={slide.id} onClick={() => setSelectedSlideIndex(index)} 
-                            className={`relative group aspect-video bg-white rounded cursor-pointer transition-all p-1 ${selectedSlideIndex === index ? 'ring-4 ring-blue-500' : 'hover:ring-2 ring-blue-400'}`}>
+                        <div key={slide.id} onClick={() => selectSlide(index)}
+                            style={{ backgroundColor: `#${theme.background}` }}
+                            className={`relative group aspect-video rounded cursor-pointer transition-all p-1 ${slideIndex === index ? 'ring-4 ring-blue-500' : 'hover:ring-2 ring-blue-400'}`}>
                             <div className="absolute top-1 right-1 z-10 opacity-50 group-hover:opacity-100 transition-opacity">
                                 <button onClick={(e) => { e.stopPropagation(); toggleSlideLock(index); }} title={slide.isLocked ? "スライドのロック解除" : "スライドをロック"} className={`p-1 rounded-full ${slide.isLocked ? 'bg-blue-600 text-white' : 'bg-slate-500 text-white'}`}>
                                     {slide.isLocked ? <LockClosedIcon className="w-3 h-3"/> : <LockOpenIcon className="w-3 h-3"/>}
@@ -428,44 +636,116 @@ const SlideEditorView: React.FC<SlideEditorViewProps> = ({
                             <div className="w-full h-full transform scale-[0.1] origin-top-left overflow-hidden relative">
                                 {slide.elements.map(el => <div key={el.id} style={{position:'absolute', left:`${el.position.x}%`, top:`${el.position.y}%`, width:`${el.position.width}%`, height:`${el.position.height}%`, backgroundColor: '#ccc'}}></div>)}
                             </div>
+                            {slideCommentCounts[slide.id] > 0 && (
+                                <span className="absolute top-1 left-1 z-10 flex items-center gap-0.5 px-1 rounded-full bg-blue-600 text-white text-[10px]" title="未解決のコメント">
+                                    <ChatBubbleIcon className="w-2.5 h-2.5"/>{slideCommentCounts[slide.id]}
+                                </span>
+                            )}
                             <span className="text-white text-xs block text-center -mt-2">{index + 1}</span>
                         </div>
                     ))}
                 </aside>
-                
-                <main className="flex-grow flex items-center justify-center">
+
+                <main className="flex-grow flex flex-col items-center justify-center gap-2 min-w-0">
+                    <div className="flex flex-wrap items-center gap-1 w-full max-w-[100vh]" onClick={e => e.stopPropagation()}>
+                        <ToolbarButton title="元に戻す (Ctrl+Z)" onClick={undo} disabled={!canUndo}><UndoIcon className="w-4 h-4" /></ToolbarButton>
+                        <ToolbarButton title="やり直し (Ctrl+Shift+Z)" onClick={redo} disabled={!canRedo}><RedoIcon className="w-4 h-4" /></ToolbarButton>
+                        <span className="w-px h-5 bg-slate-600 mx-1" />
+                        {ALIGN_BUTTONS.map(({ mode, label }) => (
+                            <ToolbarButton key={mode} title={`${label}（1つだけ選択した場合はスライドに揃えます）`} onClick={() => handleAlign(mode)} disabled={selection.length === 0}>{label}</ToolbarButton>
+                        ))}
+                        <ToolbarButton title="横方向に等間隔に並べる（3つ以上選択）" onClick={() => handleDistribute('horizontal')} disabled={selectedUnitCount < 3}>横に等間隔</ToolbarButton>
+                        <ToolbarButton title="縦方向に等間隔に並べる（3つ以上選択）" onClick={() => handleDistribute('vertical')} disabled={selectedUnitCount < 3}>縦に等間隔</ToolbarButton>
+                        <span className="w-px h-5 bg-slate-600 mx-1" />
+                        <ToolbarButton title="グループ化 (Ctrl+G)" onClick={handleGroup} disabled={selectedUnitCount < 2}>グループ化</ToolbarButton>
+                        <ToolbarButton title="グループ解除 (Ctrl+Shift+G)" onClick={handleUngroup} disabled={!selectedElements.some(el => el.groupId)}>グループ解除</ToolbarButton>
+                        <span className="w-px h-5 bg-slate-600 mx-1" />
+                        {Z_ORDER_BUTTONS.map(({ move, label }) => (
+                            <ToolbarButton key={move} title={label} onClick={() => handleReorder(move)} disabled={selection.length === 0}>{label}</ToolbarButton>
+                        ))}
+                        <span className="w-px h-5 bg-slate-600 mx-1" />
+                        <ToolbarButton title="コピー (Ctrl+C)" onClick={handleCopy} disabled={selection.length === 0}>コピー</ToolbarButton>
+                        <ToolbarButton title="貼り付け (Ctrl+V)。別のスライドにも貼り付けられます" onClick={handlePaste} disabled={!clipboard}>貼り付け</ToolbarButton>
+                        <ToolbarButton title="削除 (Delete)" onClick={handleDelete} disabled={selection.length === 0}>削除</ToolbarButton>
+                    </div>
                     {currentSlide && (
-                        <div className="aspect-video w-full max-w-[100vh] bg-white shadow-2xl rounded-lg relative overflow-hidden">
+                        <div ref={slideCanvasRef} className="aspect-video w-full max-w-[100vh] shadow-2xl rounded-lg relative overflow-hidden select-none" style={{ backgroundColor: `#${theme.background}`, fontFamily: theme.fontFace }}>
+                            <SlideMasterOverlay theme={theme} slideNumber={slideIndex + 1} />
                             {currentSlide.elements.map(el => (
-                                <DraggableElement key={el.id} el={el} onUpdate={()=>{}} isSelected={selectedElementId === el.id} onClick={() => setSelectedElementId(el.id)}>
+                                <SlideElementFrame key={el.id}
+                                    position={previewPositions?.[el.id] ?? el.position}
+                                    isSelected={selection.includes(el.id)}
+                                    isGrouped={!!el.groupId}
+                                    showHandles={selection.length === 1 && selection[0] === el.id && editingElementId !== el.id}
+                                    onPointerDown={(e, mode) => handleElementPointerDown(e, el, mode)}
+                                    onDoubleClick={() => { if (el.type === 'textbox') { setSelectedIds([el.id]); setEditingElementId(el.id); } }}
+                                >
                                     {renderElement(el)}
-                                </DraggableElement>
+                                    {(el.type === 'data' || el.type === 'flowchart') && (
+                                        <span className={`absolute top-0.5 right-0.5 px-1 rounded text-[8px] font-semibold pointer-events-none ${isLiveBoundElement(el) ? 'bg-green-600 text-white' : 'bg-amber-500 text-white'}`}>
+                                            {isLiveBoundElement(el) ? 'ライブ' : '固定'}
+                                        </span>
+                                    )}
+                                </SlideElementFrame>
                             ))}
+                            {snapGuides?.vertical.map(x => <div key={`v-${x}`} className="absolute top-0 bottom-0 w-px bg-pink-500 pointer-events-none" style={{ left: `${x}%` }} />)}
+                            {snapGuides?.horizontal.map(y => <div key={`h-${y}`} className="absolute left-0 right-0 h-px bg-pink-500 pointer-events-none" style={{ top: `${y}%` }} />)}
                         </div>
                     )}
+                    {currentSlide && (
+                        <textarea
+                            value={currentSlide.notes ?? ''}
+                            onChange={e => updateSlide(currentSlide.id, { notes: e.target.value || undefined }, `notes:${currentSlide.id}`)}
+                            onClick={e => e.stopPropagation()}
+                            placeholder="スピーカーノート（発表者モードで表示されます）"
+                            className="w-full max-w-[100vh] h-20 flex-shrink-0 bg-slate-800 text-white text-xs border border-slate-600 rounded-md p-2 resize-none outline-none focus:border-blue-400"
+                        />
+                    )}
                 </main>
-                
-                <aside className="w-64 bg-slate-800 rounded-lg p-3 text-white overflow-y-auto">
+
+                <aside className="w-64 bg-slate-800 rounded-lg p-3 text-white overflow-y-auto" onClick={e => e.stopPropagation()}>
                      <h3 className="font-bold border-b border-slate-600 pb-2 mb-3">プロパティ</h3>
-                     <p className="text-xs text-slate-400">要素を選択してプロパティを編集します。</p>
+                     {selectedElement?.type === 'chart' ? (
+                        <ChartPropertiesPanel
+                            element={selectedElement}
+                            matrixData={findActionItem(selectedElement.subStepId, selectedElement.actionItemId)?.report?.matrixData}
+                            numericalTarget={findReportTask(tasks, selectedElement.subStepId, selectedElement.actionItemId)?.extendedDetails?.numericalTarget}
+                            palette={theme.chartColors}
+                            onChange={updates => updateElement(currentSlide.id, selectedElement.id, updates)}
+                        />
+                     ) : selectedElement?.type === 'data' || selectedElement?.type === 'flowchart' ? (
+                        <DataBindingPanel
+                            element={selectedElement}
+                            tasks={tasks}
+                            onChange={updates => updateElement(currentSlide.id, selectedElement.id, updates as Partial<SlideElement>)}
+                            onSnapshot={() => updateCurrentElements(elements => elements.map(el => el.id === selectedElement.id ? snapshotSlideElement(el, tasks, new Date().toISOString()) : el))}
+                            onRelease={() => updateCurrentElements(elements => elements.map(el => el.id === selectedElement.id ? releaseSlideElementSnapshot(el) : el))}
+                        />
+                     ) : (
+                        <div className="space-y-2 text-xs text-slate-400">
+                            <p>{selection.length > 1 ? `${selection.length}個の要素を選択中` : '要素を選択してプロパティを編集します。'}</p>
+                            <ul className="list-disc pl-4 space-y-1">
+                                <li>Shift+クリックで複数選択</li>
+                                <li>ダブルクリックで文字を編集</li>
+                                <li>矢印キーで移動（Shift で大きく）</li>
+                                <li>Alt を押しながらドラッグで吸着なし</li>
+                            </ul>
+                            {selection.length === 0 && currentSlide && (
+                                <div className="border-t border-slate-600 pt-3 mt-3">
+                                    <InsertDataElementPanel tasks={tasks} onInsert={handleInsertDataElement} />
+                                </div>
+                            )}
+                        </div>
+                     )}
                 </aside>
             </div>
+            {isPresenting && (
+                <PresenterView deck={deck} tasks={tasks} title={editorTitle} initialSlideIndex={slideIndex} onClose={() => setIsPresenting(false)} />
+            )}
+            {isMasterManagerOpen && (
+                <SlideMasterManagerModal workspace={workspaceMasters} onChange={handleMastersChange} onClose={() => setIsMasterManagerOpen(false)} />
+            )}
         </div>
-
-        <div className="hidden print:block">
-            {deck.slides.map((slide, index) => (
-                <div key={slide.id} className="slide-print-page bg-white relative">
-                   <div className="w-full h-full relative">
-                    {slide.elements.map(el => (
-                        <div key={el.id} style={{position: 'absolute', left:`${el.position.x}%`, top:`${el.position.y}%`, width:`${el.position.width}%`, height:`${el.position.height}%`}}>
-                            {renderElement(el)}
-                        </div>
-                    ))}
-                    </div>
-                </div>
-            ))}
-        </div>
-        </>
     );
 };
 
@@ -0,0 +1,348 @@
+import React, { useState } from 'react';
+import { SlideDeck, SlideElementPosition, SlideLayoutType, SlideMaster, SlidePlaceholderRole, WorkspaceSlideMasters } from '../types';
+import { XIcon, TrashIcon } from './icons';
+import LoadingSpinner from './LoadingSpinner';
+import { SLIDE_THEMES, SLIDE_THEME_LABELS } from '../services/slideDeckContent';
+import {
+  DEFAULT_SLIDE_PLACEHOLDERS, SLIDE_FOOTER_POSITION, SLIDE_LAYOUTS, SLIDE_LAYOUT_LABELS, SLIDE_NUMBER_POSITION,
+  SLIDE_PLACEHOLDER_ROLE_LABELS, getSlidePlaceholders,
+} from '../services/slideMaster';
+import { SlideMasterService } from '../services/slideMasterService';
+
+interface SlideMasterManagerModalProps {
+  workspace: WorkspaceSlideMasters;
+  onChange: (workspace: WorkspaceSlideMasters) => void;
+  onClose: () => void;
+}
+
+type ColorKey = 'background' | 'text' | 'mutedText' | 'accent' | 'tableHeaderFill' | 'tableHeaderText' | 'tableBorder';
+
+const COLOR_LABELS: Record<ColorKey, string> = {
+  background: '背景',
+  text: '文字',
+  mutedText: '補助の文字',
+  accent: 'アクセント',
+  tableHeaderFill: '表の見出し背景',
+  tableHeaderText: '表の見出し文字',
+  tableBorder: '表の罫線',
+};
+
+const POSITION_FIELDS: { key: keyof SlideElementPosition; label: string }[] = [
+  { key: 'x', label: '左' },
+  { key: 'y', label: '上' },
+  { key: 'width', label: '幅' },
+  { key: 'height', label: '高さ' },
+];
+
+const ROLES: SlidePlaceholderRole[] = ['title', 'subtitle', 'body', 'left', 'right'];
+const DEFAULT_LOGO_POSITION: SlideElementPosition = { x: 85, y: 3, width: 12, height: 10 };
+const NEW_PLACEHOLDER_POSITION: SlideElementPosition = { x: 10, y: 25, width: 80, height: 60 };
+
+const inputClass = 'w-full p-1.5 border border-slate-300 rounded-md text-sm';
+
+const createDraft = (base: NonNullable<SlideDeck['theme']>): SlideMaster => ({
+  ...SLIDE_THEMES[base],
+  id: '',
+  name: `新しいマスター（${SLIDE_THEME_LABELS[base]}）`,
+  chartColors: [...SLIDE_THEMES[base].chartColors],
+  placeholders: {},
+});
+
+const readFileAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('ファイルの読み込みに失敗しました'));
+    reader.readAsDataURL(file);
+  });
+
+const PositionFields: React.FC<{ value: SlideElementPosition; onChange: (value: SlideElementPosition) => void }> = ({ value, onChange }) => (
+  <div className="grid grid-cols-4 gap-1">
+    {POSITION_FIELDS.map(({ key, label }) => (
+      <label key={key} className="text-[11px] text-slate-500">
+        {label}
+        <input
+          type="number"
+          min={0}
+          max={100}
+          value={value[key]}
+          onChange={e => onChange({ ...value, [key]: Math.min(100, Math.max(0, Number(e.target.value) || 0)) })}
+          className={inputClass}
+        />
+      </label>
+    ))}
+  </div>
+);
+
+const boxStyle = (position: SlideElementPosition): React.CSSProperties => ({
+  position: 'absolute',
+  left: `${position.x}%`, top: `${position.y}%`, width: `${position.width}%`, height: `${position.height}%`,
+});
+
+// 選択中のレイアウトに、プレースホルダーとロゴ・フッター・スライド番号を重ねて表示する
+const MasterPreview: React.FC<{ master: SlideMaster; layout: SlideLayoutType }> = ({ master, layout }) => {
+  const placeholders = getSlidePlaceholders(master, layout);
+  return (
+    <div className="aspect-video w-full relative overflow-hidden rounded-md border border-slate-300" style={{ backgroundColor: `#${master.background}`, fontFamily: master.fontFace }}>
+      {(Object.entries(placeholders) as [SlidePlaceholderRole, SlideElementPosition][]).map(([role, position]) => (
+        <div key={role} style={{ ...boxStyle(position), borderColor: `#${master.accent}`, color: `#${master.mutedText}` }} className="border border-dashed flex items-center justify-center text-xs">
+          {SLIDE_PLACEHOLDER_ROLE_LABELS[role]}
+        </div>
+      ))}
+      {master.logo && <img src={master.logo.dataUrl} alt="ロゴ" style={boxStyle(master.logo.position)} className="object-contain" />}
+      {master.footerText && (
+        <div style={{ ...boxStyle(SLIDE_FOOTER_POSITION), color: `#${master.mutedText}` }} className="flex items-center text-[10px] truncate">{master.footerText}</div>
+      )}
+      {master.showSlideNumbers && (
+        <div style={{ ...boxStyle(SLIDE_NUMBER_POSITION), color: `#${master.mutedText}` }} className="flex items-center justify-end text-[10px]">1</div>
+      )}
+    </div>
+  );
+};
+
+// ワークスペースのスライドマスター（色・フォント・ロゴ・フッター・プレースホルダー）の作成と編集
+const SlideMasterManagerModal: React.FC<SlideMasterManagerModalProps> = ({ workspace, onChange, onClose }) => {
+  const [draft, setDraft] = useState<SlideMaster | null>(workspace.masters[0] ?? null);
+  const [baseTheme, setBaseTheme] = useState<NonNullable<SlideDeck['theme']>>('light');
+  const [layout, setLayout] = useState<SlideLayoutType>('title_and_content');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { canEdit } = workspace;
+
+  const update = (updates: Partial<SlideMaster>) => setDraft(prev => prev ? { ...prev, ...updates } : prev);
+
+  const updatePlaceholder = (role: SlidePlaceholderRole, position: SlideElementPosition | undefined) => {
+    if (!draft) return;
+    const current = { ...getSlidePlaceholders(draft, layout) };
+    if (position) current[role] = position;
+    else delete current[role];
+    update({ placeholders: { ...draft.placeholders, [layout]: current } });
+  };
+
+  const resetLayout = () => {
+    if (!draft) return;
+    const { [layout]: _removed, ...rest } = draft.placeholders;
+    update({ placeholders: rest });
+  };
+
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (file.type !== 'image/png' && file.type !== 'image/jpeg') {
+      alert('ロゴには PNG または JPEG の画像を選択してください。');
+      return;
+    }
+    try {
+      update({ logo: { dataUrl: await readFileAsDataUrl(file), position: draft?.logo?.position ?? DEFAULT_LOGO_POSITION } });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'ロゴの読み込みに失敗しました。');
+    }
+  };
+
+  const run = async (action: () => Promise<WorkspaceSlideMasters>) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      onChange(await action());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'スライドマスターの保存に失敗しました。');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!draft || !draft.name.trim()) return;
+    run(async () => {
+      const saved = draft.id
+        ? await SlideMasterService.updateSlideMaster(draft)
+        : await SlideMasterService.createSlideMaster(draft);
+      setDraft(saved);
+      const masters = draft.id
+        ? workspace.masters.map(master => master.id === saved.id ? saved : master)
+        : [...workspace.masters, saved];
+      return { ...workspace, masters };
+    });
+  };
+
+  const handleDelete = (master: SlideMaster) => {
+    if (!confirm(`スライドマスター「${master.name}」を削除しますか？\n作成済みのレポートには影響しません。`)) return;
+    run(async () => {
+      await SlideMasterService.deleteSlideMaster(master.id);
+      if (draft?.id === master.id) setDraft(null);
+      return {
+        ...workspace,
+        masters: workspace.masters.filter(m => m.id !== master.id),
+        defaultMasterId: workspace.defaultMasterId === master.id ? null : workspace.defaultMasterId,
+      };
+    });
+  };
+
+  const handleSetDefault = (id: string | null) => {
+    run(async () => {
+      await SlideMasterService.setDefaultSlideMaster(id);
+      return { ...workspace, defaultMasterId: id };
+    });
+  };
+
+  const placeholders = draft ? getSlidePlaceholders(draft, layout) : {};
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 backdrop-blur-sm flex items-center justify-center p-4 z-[110]" onClick={e => e.stopPropagation()}>
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-6xl max-h-[90vh] flex flex-col">
+        <header className="flex items-center justify-between p-5 border-b border-slate-200">
+          <h3 className="text-xl font-bold text-slate-800">スライドマスター</h3>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-100" title="閉じる"><XIcon className="w-6 h-6 text-slate-500" /></button>
+        </header>
+
+        <div className="flex-grow overflow-y-auto grid grid-cols-1 md:grid-cols-[260px_1fr]">
+          <aside className="p-5 border-b md:border-b-0 md:border-r border-slate-200 space-y-4">
+            {!canEdit && <p className="text-xs text-slate-500">スライドマスターを編集できるのはワークスペースの所有者のみです。</p>}
+            <div>
+              <p className="text-sm font-medium text-slate-700 mb-2">レポート生成に使うマスター</p>
+              <ul className="space-y-2">
+                <li>
+                  <label className="flex items-center text-sm text-slate-600 cursor-pointer">
+                    <input type="radio" checked={workspace.defaultMasterId === null} disabled={!canEdit || isSaving} onChange={() => handleSetDefault(null)} className="mr-2" />
+                    組み込みテーマ
+                  </label>
+                </li>
+                {workspace.masters.map(master => (
+                  <li key={master.id} className={`flex items-center justify-between p-2 rounded-md border ${draft?.id === master.id ? 'border-blue-500 bg-blue-50' : 'border-slate-200'}`}>
+                    <label className="flex items-center min-w-0 cursor-pointer">
+                      <input type="radio" checked={workspace.defaultMasterId === master.id} disabled={!canEdit || isSaving} onChange={() => handleSetDefault(master.id)} className="mr-2 flex-shrink-0" title="既定にする" />
+                    </label>
+                    <button onClick={() => setDraft(master)} className="flex-grow min-w-0 text-left text-sm font-semibold text-slate-800 truncate" title={master.name}>{master.name}</button>
+                    {canEdit && (
+                      <button onClick={() => handleDelete(master)} disabled={isSaving} className="p-1 text-slate-400 hover:text-red-600" title="削除">
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+            {canEdit && (
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">新しいマスター</label>
+                <div className="flex gap-2">
+                  <select value={baseTheme} onChange={e => setBaseTheme(e.target.value as NonNullable<SlideDeck['theme']>)} className={inputClass}>
+                    {(Object.keys(SLIDE_THEME_LABELS) as NonNullable<SlideDeck['theme']>[]).map(theme => <option key={theme} value={theme}>{SLIDE_THEME_LABELS[theme]}から作成</option>)}
+                  </select>
+                  <button onClick={() => setDraft(createDraft(baseTheme))} className="px-3 py-1.5 text-sm font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700">作成</button>
+                </div>
+              </div>
+            )}
+            {error && <p className="text-xs text-red-600">{error}</p>}
+          </aside>
+
+          <section className="p-5">
+            {!draft ? (
+              <p className="text-sm text-slate-500">マスターを選択するか、新しいマスターを作成してください。</p>
+            ) : (
+              <fieldset disabled={!canEdit} className="grid grid-cols-1 lg:grid-cols-2 gap-5">
+                <div className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">名前</label>
+                    <input type="text" value={draft.name} onChange={e => update({ name: e.target.value })} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">フォント</label>
+                    <input type="text" value={draft.fontFace} onChange={e => update({ fontFace: e.target.value })} className={inputClass} placeholder="例: Meiryo" />
+                    <p className="text-[11px] text-slate-500 mt-1">PowerPoint とエディタで使います。PDF には日本語フォントを埋め込みます。</p>
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-slate-700 mb-1">配色</p>
+                    <div className="grid grid-cols-2 gap-2">
+                      {(Object.keys(COLOR_LABELS) as ColorKey[]).map(key => (
+                        <label key={key} className="flex items-center gap-2 text-xs text-slate-600">
+                          <input type="color" value={`#${draft[key]}`} onChange={e => update({ [key]: e.target.value.slice(1).toUpperCase() })} className="w-6 h-6 p-0 border-0 bg-transparent cursor-pointer" />
+                          {COLOR_LABELS[key]}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-slate-700 mb-1">グラフの色</p>
+                    <div className="flex gap-1">
+                      {draft.chartColors.map((color, index) => (
+                        <input
+                          key={index}
+                          type="color"
+                          value={`#${color}`}
+                          onChange={e => update({ chartColors: draft.chartColors.map((c, i) => i === index ? e.target.value.slice(1).toUpperCase() : c) })}
+                          className="w-6 h-6 p-0 border-0 bg-transparent cursor-pointer"
+                        />
+                      ))}
+                    </div>
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-slate-700 mb-1">ロゴ</p>
+                    <div className="flex items-center gap-2 mb-1">
+                      <input type="file" accept="image/png,image/jpeg" onChange={handleLogoChange} className="text-xs flex-grow min-w-0" />
+                      {draft.logo && <button onClick={() => update({ logo: undefined })} className="text-xs text-red-600 hover:underline">削除</button>}
+                    </div>
+                    {draft.logo && <PositionFields value={draft.logo.position} onChange={position => update({ logo: { ...draft.logo!, position } })} />}
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">フッター</label>
+                    <input type="text" value={draft.footerText ?? ''} onChange={e => update({ footerText: e.target.value || undefined })} className={inputClass} placeholder="例: © Example Inc. 社外秘" />
+                    <label className="flex items-center gap-2 text-sm text-slate-600 mt-2">
+                      <input type="checkbox" checked={!!draft.showSlideNumbers} onChange={e => update({ showSlideNumbers: e.target.checked })} />
+                      スライド番号を表示
+                    </label>
+                  </div>
+                </div>
+
+                <div className="space-y-4">
+                  <div>
+                    <div className="flex items-center justify-between mb-1">
+                      <label className="text-sm font-medium text-slate-700">プレースホルダー（スライドに対する %）</label>
+                      <button onClick={resetLayout} className="text-xs text-blue-600 hover:underline">既定に戻す</button>
+                    </div>
+                    <select value={layout} onChange={e => setLayout(e.target.value as SlideLayoutType)} className={`${inputClass} mb-2`}>
+                      {SLIDE_LAYOUTS.map(l => <option key={l} value={l}>{SLIDE_LAYOUT_LABELS[l]}</option>)}
+                    </select>
+                    <div className="space-y-2">
+                      {ROLES.map(role => {
+                        const position = placeholders[role];
+                        return (
+                          <div key={role}>
+                            <label className="flex items-center gap-2 text-xs font-semibold text-slate-600 mb-0.5">
+                              <input
+                                type="checkbox"
+                                checked={!!position}
+                                onChange={e => updatePlaceholder(role, e.target.checked ? DEFAULT_SLIDE_PLACEHOLDERS[layout][role] ?? NEW_PLACEHOLDER_POSITION : undefined)}
+                              />
+                              {SLIDE_PLACEHOLDER_ROLE_LABELS[role]}
+                            </label>
+                            {position && <PositionFields value={position} onChange={value => updatePlaceholder(role, value)} />}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                  <MasterPreview master={draft} layout={layout} />
+                  {canEdit && (
+                    <div className="flex justify-end">
+                      <button
+                        onClick={handleSave}
+                        disabled={isSaving || !draft.name.trim()}
+                        className="px-4 py-2 text-sm font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-slate-400"
+                      >
+                        {isSaving ? <LoadingSpinner size="sm" color="border-white" /> : '保存'}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </fieldset>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SlideMasterManagerModal;
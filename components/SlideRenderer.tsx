@@ -0,0 +1,203 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ProjectTask, Slide, SlideElement, SubStep, SubStepStatus } from '../types';
+import FlowConnector from './FlowConnector';
+import { AttachmentImage } from './AttachmentPreview';
+import { ChartView } from './Charts';
+import DataElementView from './DataElementView';
+import { findReportActionItem, resolveChartModel, SlideTheme } from '../services/slideDeckContent';
+import { SLIDE_FOOTER_POSITION, SLIDE_NUMBER_POSITION } from '../services/slideMaster';
+import { resolveFlowchartSubSteps, resolveSlideDataView } from '../services/slideDataBinding';
+
+// スライドの表示のみを行う部品。エディタ・発表者ビュー・聴衆用ウィンドウ・共有リンクの閲覧で共通に使う
+
+// --- Sub-step Flowchart Renderer ---
+const SubStepFlowchartCard: React.FC<{ subStep: SubStep, statusColor: string }> = ({ subStep, statusColor }) => (
+    <div style={{
+        position: 'absolute',
+        left: subStep.position?.x || 0,
+        top: subStep.position?.y || 0,
+        width: 192,
+        minHeight: 76,
+        padding: '8px',
+        borderRadius: '8px',
+        backgroundColor: 'white',
+        borderLeft: `4px solid ${statusColor}`,
+        boxShadow: '0 2px 4px rgba(0,0,0,0.1)',
+        fontSize: '12px',
+        fontFamily: 'sans-serif',
+        color: '#333',
+        display: 'flex',
+        flexDirection: 'column',
+        justifyContent: 'center'
+    }}>
+        <p className={`font-bold break-words ${subStep.status === SubStepStatus.COMPLETED ? 'line-through text-slate-500' : ''}`}>{subStep.text}</p>
+    </div>
+);
+
+export const SubStepFlowchartRenderer: React.FC<{ subSteps: SubStep[] }> = ({ subSteps }) => {
+    if (!subSteps || subSteps.length === 0) {
+        return <div className="w-full h-full flex items-center justify-center bg-slate-100 text-slate-500 text-sm">No sub-steps to display.</div>;
+    }
+
+    const getStatusColor = (status?: SubStepStatus) => {
+        switch(status) {
+            case SubStepStatus.COMPLETED: return '#22c55e'; // green-500
+            case SubStepStatus.IN_PROGRESS: return '#3b82f6'; // blue-500
+            default: return '#94a3b8'; // slate-400
+        }
+    };
+    
+    const cardWidth = 192;
+    const cardHeight = 76;
+
+    const connectors = useMemo(() => {
+        const newConnectors: Array<{id: string, from: {x:number, y:number}, to: {x:number, y:number}, sourceId: string, targetId: string}> = [];
+        (subSteps || []).forEach(sourceSS => {
+            if (sourceSS?.nextSubStepIds?.length && sourceSS.position) {
+                const sourcePos = { x: sourceSS.position.x + cardWidth, y: sourceSS.position.y + cardHeight / 2 };
+                sourceSS.nextSubStepIds.forEach(targetId => {
+                    const targetSS = subSteps.find(t => t.id === targetId);
+                    if (targetSS && targetSS.position) {
+                        const targetPos = { x: targetSS.position.x, y: targetSS.position.y + cardHeight / 2 };
+                        newConnectors.push({ id: `fc-render-${sourceSS.id}-${targetId}`, from: sourcePos, to: targetPos, sourceId: sourceSS.id, targetId: targetId });
+                    }
+                });
+            }
+        });
+        return newConnectors;
+    }, [subSteps, cardWidth, cardHeight]);
+
+    const boundingBox = useMemo(() => {
+        if (!subSteps || subSteps.length === 0) return { minX: 0, minY: 0, width: 400, height: 300 };
+        let maxX = 0, maxY = 0;
+        subSteps.forEach(ss => {
+            if (ss.position) {
+                maxX = Math.max(maxX, ss.position.x + cardWidth);
+                maxY = Math.max(maxY, ss.position.y + cardHeight);
+            }
+        });
+        return { minX: 0, minY: 0, width: maxX + 20, height: maxY + 20 };
+    }, [subSteps, cardWidth, cardHeight]);
+
+    return (
+        <div className="w-full h-full bg-slate-50 overflow-hidden" style={{fontFamily: 'Inter, sans-serif'}}>
+            <svg width="100%" height="100%" viewBox={`${boundingBox.minX} ${boundingBox.minY} ${boundingBox.width} ${boundingBox.height}`}>
+                <style>
+                    {`
+                    .flowchart-card-container {
+                        position: relative;
+                        width: 100%;
+                        height: 100%;
+                        font-family: Inter, sans-serif;
+                    }
+                    `}
+                </style>
+                <foreignObject x="0" y="0" width={boundingBox.width} height={boundingBox.height}>
+                    <div className="flowchart-card-container">
+                        {(subSteps || []).map(ss => (
+                            <SubStepFlowchartCard key={ss.id} subStep={ss} statusColor={getStatusColor(ss.status)} />
+                        ))}
+                    </div>
+                </foreignObject>
+                {/* Render connectors on top */}
+                {connectors.map(conn => (
+                    <FlowConnector key={conn.id} from={conn.from} to={conn.to} id={conn.id} />
+                ))}
+            </svg>
+        </div>
+    );
+};
+// --- End Flowchart Renderer ---
+
+// --- Slide Element Layout ---
+export const positionStyle = (position: { x: number; y: number; width: number; height: number }): React.CSSProperties => ({
+    position: 'absolute',
+    left: `${position.x}%`, top: `${position.y}%`, width: `${position.width}%`, height: `${position.height}%`,
+});
+
+// --- Slide Master Overlay ---
+// ロゴ・フッター・スライド番号。エクスポートと同じ位置に、編集できない飾りとして重ねる
+export const SlideMasterOverlay: React.FC<{ theme: SlideTheme, slideNumber: number }> = ({ theme, slideNumber }) => (
+    <div className="absolute inset-0 pointer-events-none">
+        {theme.logo && <img src={theme.logo.dataUrl} alt="ロゴ" style={positionStyle(theme.logo.position)} className="object-contain" />}
+        {theme.footerText && <div style={{ ...positionStyle(SLIDE_FOOTER_POSITION), color: `#${theme.mutedText}` }} className="flex items-center text-[10px] truncate">{theme.footerText}</div>}
+        {theme.showSlideNumbers && <div style={{ ...positionStyle(SLIDE_NUMBER_POSITION), color: `#${theme.mutedText}` }} className="flex items-center justify-end text-[10px]">{slideNumber}</div>}
+    </div>
+);
+
+const placeholderClass = 'w-full h-full bg-slate-200 flex items-center justify-center text-xs text-slate-500';
+
+// --- Slide Element Content ---
+// 要素の中身を描く。テキストボックスはエディタでは入力欄に置き換える
+export const SlideElementContent: React.FC<{ element: SlideElement, tasks: ProjectTask[], theme: SlideTheme }> = ({ element: el, tasks, theme }) => {
+    switch (el.type) {
+        case 'textbox':
+            return (
+                <div className="w-full h-full p-2 overflow-hidden whitespace-pre-wrap break-words"
+                    style={{ fontSize: el.fontSize, fontWeight: el.fontWeight, textAlign: el.textAlign, color: `#${theme.text}` }}>
+                    {el.content}
+                </div>
+            );
+        case 'image': {
+            const actionItem = findReportActionItem(tasks, el.subStepId, el.actionItemId);
+            const attachment = actionItem?.report?.attachments?.find(a => a.id === el.attachmentId);
+            return attachment ? <AttachmentImage attachment={attachment} className="w-full h-full object-contain pointer-events-none" /> : <div className={placeholderClass}>画像が見つかりません</div>;
+        }
+        case 'table': {
+            const matrixData = findReportActionItem(tasks, el.subStepId, el.actionItemId)?.report?.matrixData;
+            return matrixData ? <div className="p-2 overflow-auto h-full"><table className="w-full text-[8px] border-collapse bg-white"><thead><tr className="bg-slate-200">{matrixData.headers.map((h, i) => <th key={i} className="border border-slate-300 p-1 font-semibold">{h}</th>)}</tr></thead><tbody>{matrixData.rows.map((r, i) => <tr key={i}>{r.map((c, j) => <td key={`${i}-${j}`} className="border border-slate-300 p-1">{c}</td>)}</tr>)}</tbody></table></div> : <div className={placeholderClass}>データなし</div>;
+        }
+        case 'chart': {
+            const model = resolveChartModel(tasks, el);
+            if (!model) return <div className={placeholderClass}>チャートデータなし</div>;
+            return <ChartView model={model} title={el.title} xAxis={el.xAxis} yAxis={el.yAxis} palette={theme.chartColors} />;
+        }
+        case 'flowchart': {
+            const subSteps = resolveFlowchartSubSteps(tasks, el);
+            if (subSteps.length > 0) return <SubStepFlowchartRenderer subSteps={subSteps} />;
+            return <div className={placeholderClass}>フローチャートのデータが見つかりません。</div>;
+        }
+        case 'data': {
+            const view = resolveSlideDataView(tasks, el);
+            if (!view) return <div className={placeholderClass}>データが見つかりません</div>;
+            return <DataElementView view={view} theme={theme} />;
+        }
+        default: return null;
+    }
+};
+
+// --- Read-only Slide ---
+// 文字の大きさがエディタと揃うよう一定の大きさで描き、表示領域に収まるよう縮尺を合わせる
+const SLIDE_RENDER_WIDTH = 960;
+const SLIDE_RENDER_HEIGHT = 540;
+
+export const SlideView: React.FC<{ slide: Slide, slideNumber: number, tasks: ProjectTask[], theme: SlideTheme }> = ({ slide, slideNumber, tasks, theme }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [scale, setScale] = useState(0);
+
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const observer = new ResizeObserver(([entry]) => {
+            setScale(Math.min(entry.contentRect.width / SLIDE_RENDER_WIDTH, entry.contentRect.height / SLIDE_RENDER_HEIGHT));
+        });
+        observer.observe(container);
+        return () => observer.disconnect();
+    }, []);
+
+    return (
+        <div ref={containerRef} className="w-full h-full flex items-center justify-center overflow-hidden">
+            <div className="relative flex-shrink-0 overflow-hidden" style={{ width: SLIDE_RENDER_WIDTH * scale, height: SLIDE_RENDER_HEIGHT * scale }}>
+                <div className="absolute top-0 left-0 select-none"
+                    style={{ width: SLIDE_RENDER_WIDTH, height: SLIDE_RENDER_HEIGHT, transform: `scale(${scale})`, transformOrigin: 'top left', backgroundColor: `#${theme.background}`, fontFamily: theme.fontFace }}>
+                    <SlideMasterOverlay theme={theme} slideNumber={slideNumber} />
+                    {slide.elements.map(el => (
+                        <div key={el.id} style={positionStyle(el.position)}>
+                            <SlideElementContent element={el} tasks={tasks} theme={theme} />
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
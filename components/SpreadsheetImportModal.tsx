@@ -0,0 +1,122 @@
+import React, { useMemo, useState } from 'react';
+import { MatrixData } from '../types';
+import { SpreadsheetSheet, toMatrixData, MATRIX_COLUMN_TYPE_LABELS } from '../services/spreadsheetImport';
+import { XIcon } from './icons';
+
+interface SpreadsheetImportModalProps {
+  fileName: string;
+  sheets: SpreadsheetSheet[];
+  onImport: (matrixData: MatrixData) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 8;
+
+// 取り込むシートと見出し行を選び、変換結果を確認してからマトリクスに反映する
+const SpreadsheetImportModal: React.FC<SpreadsheetImportModalProps> = ({ fileName, sheets, onImport, onClose }) => {
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [headerRowIndex, setHeaderRowIndex] = useState(sheets[0]?.headerRowIndex ?? 0);
+  const sheet = sheets[sheetIndex];
+  const matrix = useMemo(() => sheet ? toMatrixData(sheet, headerRowIndex) : null, [sheet, headerRowIndex]);
+
+  const handleSelectSheet = (index: number) => {
+    setSheetIndex(index);
+    setHeaderRowIndex(sheets[index].headerRowIndex);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 backdrop-blur-sm flex items-center justify-center p-4 z-[90]">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <header className="flex items-center justify-between p-5 border-b border-slate-200">
+          <div className="min-w-0">
+            <h3 className="text-xl font-bold text-slate-800">表データの取り込み</h3>
+            <p className="text-sm text-slate-500 truncate">{fileName}</p>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-100" title="閉じる"><XIcon className="w-6 h-6 text-slate-500" /></button>
+        </header>
+
+        <div className="flex-grow overflow-y-auto p-5 space-y-4">
+          {sheets.length > 1 && (
+            <div>
+              <p className="text-sm font-medium text-slate-700 mb-2">シート</p>
+              <div className="flex flex-wrap gap-2">
+                {sheets.map((s, index) => (
+                  <button
+                    key={s.name}
+                    onClick={() => handleSelectSheet(index)}
+                    className={`px-3 py-1 text-sm rounded-md border ${index === sheetIndex ? 'border-blue-500 bg-blue-50 text-blue-700 font-semibold' : 'border-slate-300 text-slate-600 hover:bg-slate-50'}`}
+                  >
+                    {s.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {sheet && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">見出し行</label>
+              <select
+                value={headerRowIndex}
+                onChange={e => setHeaderRowIndex(Number(e.target.value))}
+                className="w-full p-2 border border-slate-300 rounded-md text-sm bg-white"
+              >
+                {sheet.cells.slice(0, Math.max(1, sheet.cells.length - 1)).map((row, index) => (
+                  <option key={index} value={index}>
+                    {index + 1}行目: {row.filter(Boolean).join(' / ').slice(0, 80)}{index === sheet.headerRowIndex ? '（自動判定）' : ''}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-slate-500 mt-1">見出し行より上の行（タイトルや注記）は取り込みません。結合セルは各セルに同じ値を入れて取り込みます。</p>
+            </div>
+          )}
+
+          {matrix && (
+            <div>
+              <p className="text-sm font-medium text-slate-700 mb-2">
+                プレビュー <span className="text-xs font-normal text-slate-500">（{matrix.headers.length}列 × {matrix.rows.length}行）</span>
+              </p>
+              <div className="overflow-x-auto border rounded-md">
+                <table className="w-full text-xs border-collapse">
+                  <thead>
+                    <tr className="bg-slate-100">
+                      {matrix.headers.map((header, index) => (
+                        <th key={index} className="border border-slate-200 px-2 py-1 text-left font-semibold text-slate-700 whitespace-nowrap">
+                          {header}
+                          <span className="block text-[10px] font-normal text-blue-600">{MATRIX_COLUMN_TYPE_LABELS[matrix.columnTypes?.[index] ?? 'text']}</span>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {matrix.rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                      <tr key={rowIndex}>
+                        {row.map((cell, cellIndex) => (
+                          <td key={cellIndex} className={`border border-slate-200 px-2 py-1 text-slate-800 whitespace-nowrap ${matrix.columnTypes?.[cellIndex] === 'number' || matrix.columnTypes?.[cellIndex] === 'percent' ? 'text-right' : ''}`}>{cell}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {matrix.rows.length > PREVIEW_ROWS && <p className="text-xs text-slate-500 mt-1">ほか {matrix.rows.length - PREVIEW_ROWS} 行</p>}
+            </div>
+          )}
+        </div>
+
+        <footer className="p-5 bg-slate-100 border-t flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-md shadow-sm hover:bg-slate-50">キャンセル</button>
+          <button
+            onClick={() => matrix && onImport(matrix)}
+            disabled={!matrix || matrix.headers.length === 0}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md shadow-sm hover:bg-blue-700 disabled:bg-slate-400"
+          >
+            取り込む
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default SpreadsheetImportModal;
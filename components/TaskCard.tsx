@@ -1,7 +1,9 @@
 
 import React, { memo, useState, useRef, useEffect } from 'react';
 import { ProjectTask, NumericalTargetStatus, TaskStatus } from '../types';
-import { InfoIcon, TrashIcon, GaugeIcon, ClockIcon, CircleIcon, PlayCircleIcon, CheckCircleIcon as CompletedIcon, XCircleIcon } from './icons';
+import { CanvasPresence } from '../services/projectCollaborationService';
+import { UnreadCommentSummary } from '../services/commentThreads';
+import { InfoIcon, TrashIcon, GaugeIcon, ClockIcon, CircleIcon, PlayCircleIcon, CheckCircleIcon as CompletedIcon, XCircleIcon, ChatBubbleIcon } from './icons';
 
 interface TaskCardProps {
   task: ProjectTask;
@@ -13,6 +15,9 @@ interface TaskCardProps {
   cardRef?: React.RefObject<HTMLDivElement>;
   onStartConnection: (taskId: string, event: React.MouseEvent<HTMLDivElement>) => void;
   onEndConnection: (taskId: string) => void;
+  onHoverChange?: (taskId: string | null) => void;
+  presences?: CanvasPresence[]; // このカードを見ている/ドラッグしている他のメンバー
+  unreadComments?: UnreadCommentSummary; // このタスクの未読のコメント
 }
 
 const getStatusStyles = (status?: TaskStatus): { icon: JSX.Element, color: string, text: string, bgColor: string } => {
@@ -40,6 +45,9 @@ const TaskCard: React.FC<TaskCardProps> = ({
   cardRef,
   onStartConnection,
   onEndConnection,
+  onHoverChange,
+  presences = [],
+  unreadComments,
 }) => {
   const [isStatusDropdownOpen, setIsStatusDropdownOpen] = useState(false);
   const statusRef = useRef<HTMLDivElement>(null);
@@ -76,6 +84,7 @@ const TaskCard: React.FC<TaskCardProps> = ({
   const isInProgress = task.status === TaskStatus.IN_PROGRESS;
   const cardBaseClasses = "task-card-in-flow bg-white rounded-xl shadow-lg hover:shadow-2xl transition-all duration-300 ease-in-out overflow-hidden flex-shrink-0 w-80 md:w-96 m-1 cursor-grab active:cursor-grabbing";
   const highlightClass = isInProgress ? "border-4 border-blue-500 ring-2 ring-blue-500 ring-offset-1" : "border border-transparent";
+  const draggingPresence = presences.find(p => p.activity === 'dragging');
 
   const handleMouseDownOnConnector = (event: React.MouseEvent<HTMLDivElement>) => {
     event.stopPropagation();
@@ -89,14 +98,31 @@ const TaskCard: React.FC<TaskCardProps> = ({
       draggable="true"
       onDragStart={(e) => onDragCardStart(e, task.id)}
       onMouseUp={() => onEndConnection(task.id)}
+      onMouseEnter={() => onHoverChange?.(task.id)}
+      onMouseLeave={() => onHoverChange?.(null)}
       className={`${cardBaseClasses} ${highlightClass}`}
       style={{ 
         position: 'absolute', 
         left: task.position?.x || 0, 
         top: task.position?.y || 0,
         touchAction: 'none', 
+        boxShadow: draggingPresence ? `0 0 0 3px ${draggingPresence.color}` : undefined,
       }}
     >
+      {presences.length > 0 && (
+        <div className="absolute top-1 left-1/2 -translate-x-1/2 flex gap-1 z-10">
+          {presences.map(p => (
+            <span
+              key={p.userId}
+              className="px-1.5 py-0.5 rounded-full text-[10px] font-semibold text-white shadow"
+              style={{ backgroundColor: p.color }}
+              title={p.activity === 'dragging' ? `${p.userName} が移動中` : `${p.userName} が閲覧中`}
+            >
+              {p.userName}{p.activity === 'dragging' ? ' ✥' : ''}
+            </span>
+          ))}
+        </div>
+      )}
       <div className="p-5 relative">
         <div 
             onMouseDown={handleMouseDownOnConnector}
@@ -116,6 +142,19 @@ const TaskCard: React.FC<TaskCardProps> = ({
             </div>
           </div>
           <div className="flex space-x-1 flex-shrink-0 items-center">
+            {unreadComments && unreadComments.count > 0 && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onSelectTask(task);
+                }}
+                className={`flex items-center gap-0.5 px-1.5 py-0.5 rounded-full text-xs font-semibold ${unreadComments.mentioned ? 'bg-amber-100 text-amber-800 ring-1 ring-amber-400' : 'bg-blue-100 text-blue-700'}`}
+                title={`未読のコメント ${unreadComments.count}件${unreadComments.mentioned ? '（あなたへのメンションあり）' : ''}`}
+              >
+                <ChatBubbleIcon className="w-4 h-4" />
+                {unreadComments.mentioned && '@'}{unreadComments.count}
+              </button>
+            )}
             {numericalTarget && (
               <GaugeIcon className={`w-5 h-5 ${targetColorClass}`} title={`数値目標: ${numericalTarget.description} (${numericalTarget.status})`} />
             )}
@@ -1,15 +1,33 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { ProjectTask, SubStep, ActionItem, EditableExtendedTaskDetails, TaskStatus, SubStepStatus, Attachment, Decision, SlideDeck } from '../types';
-import { XIcon, PlusIcon, TrashIcon, SubtaskIcon, NotesIcon, ResourcesIcon, ResponsibleIcon, PresentationChartBarIcon, SparklesIcon, ClipboardDocumentListIcon, LockClosedIcon, LockOpenIcon, ArrowsPointingOutIcon, ArrowsPointingInIcon, CheckSquareIcon, SquareIcon, PaperClipIcon, TableCellsIcon } from './icons';
+import { ProjectTask, SubStep, ActionItem, EditableExtendedTaskDetails, TaskStatus, SubStepStatus, Decision, SlideDeck, ProjectRisk, ProjectComment, CommentTarget } from '../types';
+import { XIcon, PlusIcon, TrashIcon, SubtaskIcon, NotesIcon, ResourcesIcon, ResponsibleIcon, PresentationChartBarIcon, SparklesIcon, ClipboardDocumentListIcon, LockClosedIcon, LockOpenIcon, ArrowsPointingOutIcon, ArrowsPointingInIcon, CheckSquareIcon, SquareIcon, PaperClipIcon, TableCellsIcon, DownloadIcon, UploadIcon, ShieldIcon, ChatBubbleIcon } from './icons';
 import { generateStepProposals, generateInitialSlideDeck } from '../services/geminiService';
+import { AttachmentService } from '../services/attachmentStorage';
+import { SlideMasterService } from '../services/slideMasterService';
+import { ProjectCollaborationService, ProjectMember } from '../services/projectCollaborationService';
+import { RiskService } from '../services/riskService';
+import { RISK_STATUS_LABELS, RISK_SEVERITY_LABELS, getRiskScore, getRiskSeverity, sortRisks } from '../services/riskRegister';
+import { CommentService } from '../services/commentService';
+import { countOpenCommentsByTarget } from '../services/commentThreads';
 import ProposalReviewModal from './ProposalReviewModal';
 import SlideEditorView from './SlideEditorView';
 import ActionItemReportModal from './ActionItemReportModal';
 import ActionItemTableModal from './ActionItemTableModal';
 import CustomTaskReportModal from './CustomTaskReportModal';
 import DecisionModal from './DecisionModal';
+import CostLinesModal from './CostLinesModal';
+import CommentThreadModal from './CommentThreadModal';
+import ResponsibleSelect from './ResponsibleSelect';
 import LoadingSpinner from './LoadingSpinner';
 import ErrorMessage from './ErrorMessage';
+import { downloadAttachment } from './AttachmentPreview';
+import { parsePptx, buildImportedDeck } from '../services/pptxImport';
+
+// 空欄は「見積もりなし」として扱う（日数・時間の見積もり共通）
+const parseEstimate = (value: string): number | undefined => {
+  const estimate = parseFloat(value);
+  return isNaN(estimate) || estimate < 0 ? undefined : estimate;
+};
 
 interface TaskDetailModalProps {
   task: ProjectTask;
@@ -19,6 +37,10 @@ interface TaskDetailModalProps {
   generateUniqueId: (prefix: string) => string;
   projectGoal: string;
   targetDate: string;
+  projectStartDate: string;
+  projectId: string | null;
+  tasks: ProjectTask[]; // プロジェクトの全タスク（決定事項の影響範囲の選択肢）
+  currentUserId: string | null;
 }
 
 const TaskDetailModal: React.FC<TaskDetailModalProps> = ({ 
@@ -28,7 +50,11 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({
   onUpdateExtendedDetails, 
   generateUniqueId,
   projectGoal,
-  targetDate
+  targetDate,
+  projectStartDate,
+  projectId,
+  tasks,
+  currentUserId
 }) => {
   const [title, setTitle] = useState(task.title);
   const [description, setDescription] = useState(task.description);
@@ -62,6 +88,7 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({
   const [isActionItemTableOpen, setIsActionItemTableOpen] = useState(false);
   const [isCustomReportModalOpen, setIsCustomReportModalOpen] = useState(false);
   const [isDecisionModalOpen, setIsDecisionModalOpen] = useState(false);
+  const [isCostLinesModalOpen, setIsCostLinesModalOpen] = useState(false);
 
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [draggedSubStep, setDraggedSubStep] = useState<string | null>(null);
@@ -71,6 +98,78 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({
 
   const canvasRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isUploadingAttachment, setIsUploadingAttachment] = useState(false);
+  const [isExportingDossier, setIsExportingDossier] = useState(false);
+  const [isImportingSlides, setIsImportingSlides] = useState(false);
+  const pptxInputRef = useRef<HTMLInputElement>(null);
+  const [members, setMembers] = useState<ProjectMember[]>([]);
+  const [userRole, setUserRole] = useState<string | null>(null);
+  const [taskRisks, setTaskRisks] = useState<ProjectRisk[]>([]);
+  const [taskComments, setTaskComments] = useState<ProjectComment[]>([]);
+  const [commentTarget, setCommentTarget] = useState<CommentTarget | null>(null);
+
+  // 担当者の選択肢。保存前のプロジェクトではメンバーがいないため名前の入力になる
+  useEffect(() => {
+    if (!projectId) return;
+    let cancelled = false;
+    ProjectCollaborationService.getProjectMembers(projectId)
+      .then(loaded => { if (!cancelled) setMembers(loaded); })
+      .catch(err => console.error(err));
+    ProjectCollaborationService.getUserProjectRole(projectId)
+      .then(role => { if (!cancelled) setUserRole(role); });
+    return () => { cancelled = true; };
+  }, [projectId]);
+
+  // リスク登録簿でこのタスクに関連付けられたリスク（編集はリスク登録簿で行う）
+  useEffect(() => {
+    if (!projectId) return;
+    let cancelled = false;
+    RiskService.getRisks(projectId)
+      .then(risks => { if (!cancelled) setTaskRisks(sortRisks(risks.filter(risk => risk.relatedTaskIds.includes(task.id)))); })
+      .catch(err => console.error(err));
+    return () => { cancelled = true; };
+  }, [projectId, task.id]);
+
+  // このタスク（とサブステップ・アクションアイテム・決定事項・スライド）へのコメント。
+  // ほかのメンバーの投稿はリアルタイムで届き、開いている間に届いたコメントも既読にする
+  useEffect(() => {
+    if (!projectId) return;
+    let cancelled = false;
+    const loadComments = () => {
+      CommentService.getComments(projectId, task.id)
+        .then(loaded => {
+          if (cancelled) return;
+          setTaskComments(loaded);
+          return CommentService.markTaskRead(projectId, task.id);
+        })
+        .catch(err => console.error(err));
+    };
+    loadComments();
+
+    const subscription = ProjectCollaborationService.subscribeToProjectUpdates(projectId, (payload) => {
+      // 削除の通知には task_id が含まれないため、削除は常に読み直す
+      if (payload.table === 'project_comments' && (payload.eventType === 'DELETE' || payload.new?.task_id === task.id)) {
+        loadComments();
+      }
+    });
+    return () => {
+      cancelled = true;
+      subscription.unsubscribe();
+    };
+  }, [projectId, task.id]);
+
+  const commentCounts = useMemo(() => ({
+    task: countOpenCommentsByTarget(taskComments, 'task')[task.id] || 0,
+    subSteps: countOpenCommentsByTarget(taskComments, 'sub_step'),
+    actionItems: countOpenCommentsByTarget(taskComments, 'action_item'),
+    decisions: countOpenCommentsByTarget(taskComments, 'decision'),
+    slides: countOpenCommentsByTarget(taskComments, 'slide'),
+  }), [taskComments, task.id]);
+
+  const openComments = (type: CommentTarget['type'], id: string, label: string) => setCommentTarget({ taskId: task.id, type, id, label });
+
+  // 保存前のプロジェクトは自分だけのものなので、コストの承認や AI の提案の採用もできる
+  const canApprove = !projectId || userRole === 'owner' || userRole === 'admin';
 
   const getDefaultSubStepPosition = (index: number): { x: number; y: number } => ({
     x: 10, 
@@ -204,7 +303,8 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({
     setSlideError(null);
     try {
       const currentTask = { ...task, title, description, extendedDetails };
-      const deck = await generateInitialSlideDeck(currentTask, projectGoal);
+      const master = await SlideMasterService.getDefaultSlideMaster(projectId);
+      const deck = await generateInitialSlideDeck(currentTask, projectGoal, master);
       updateExtendedDetailsState({ reportDeck: deck });
       setIsSlideEditorOpen(true);
     } catch (error) {
@@ -214,6 +314,20 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({
     }
   };
 
+  // 保存前の編集内容も含めて、タスクの詳細資料を PDF にする
+  const handleDownloadDossier = async () => {
+    setIsExportingDossier(true);
+    try {
+      const currentTask = { ...task, title, description, status, extendedDetails };
+      const { downloadTaskDossierPdf } = await import('../services/pdfExport');
+      await downloadTaskDossierPdf(currentTask, { projectGoal, targetDate }, title || 'task-dossier');
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'PDFの作成に失敗しました。');
+    } finally {
+      setIsExportingDossier(false);
+    }
+  };
+
   const handleOpenSlideEditor = () => {
     if (extendedDetails.reportDeck) {
       setIsSlideEditorOpen(true);
@@ -222,6 +336,36 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({
     }
   };
 
+  // 取り込んだスライドは既存のレポートの後ろに追加する。画像・表・グラフのデータは新しいサブステップに入る
+  const handleImportPptx = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    if (event.target) event.target.value = '';
+
+    setIsImportingSlides(true);
+    setSlideError(null);
+    try {
+      const slides = await parsePptx(await file.arrayBuffer());
+      if (slides.length === 0) throw new Error('取り込めるスライドがありませんでした。');
+      const { deck, subStep } = await buildImportedDeck(slides, {
+        fileName: file.name,
+        generateUniqueId,
+        uploadImage: (attachmentId, image) => AttachmentService.uploadAttachment(projectId, attachmentId, image),
+        subStepPosition: getDefaultSubStepPosition(extendedDetails.subSteps.length),
+      });
+      const currentDeck = extendedDetails.reportDeck;
+      updateExtendedDetailsState({
+        subSteps: subStep ? [...extendedDetails.subSteps, subStep] : extendedDetails.subSteps,
+        reportDeck: currentDeck ? { ...currentDeck, slides: [...currentDeck.slides, ...deck.slides] } : deck,
+      });
+      setIsSlideEditorOpen(true);
+    } catch (error) {
+      setSlideError(error instanceof Error ? error.message : 'PowerPointファイルの取り込みに失敗しました。');
+    } finally {
+      setIsImportingSlides(false);
+    }
+  };
+
   const handleSaveSlides = (deck: SlideDeck) => {
     updateExtendedDetailsState({ reportDeck: deck });
   };
@@ -239,22 +383,21 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({
         return;
     }
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-        if (typeof e.target?.result === 'string') {
-            const newAttachment: Attachment = {
-                id: generateUniqueId('attach'),
-                name: file.name,
-                type: file.type,
-                dataUrl: e.target.result,
-            };
-            updateExtendedDetailsState({ 
-              attachments: [...(extendedDetails.attachments || []), newAttachment]
-            });
-        }
-    };
-    reader.readAsDataURL(file);
+    const attachmentId = generateUniqueId('attach');
     if (event.target) event.target.value = '';
+    setIsUploadingAttachment(true);
+    AttachmentService.uploadAttachment(projectId, attachmentId, file)
+      .then(newAttachment => {
+        setExtendedDetails(prev => ({
+          ...prev,
+          attachments: [...(prev.attachments || []), newAttachment]
+        }));
+      })
+      .catch(error => {
+        console.error(error);
+        alert(error instanceof Error ? error.message : 'ファイルのアップロードに失敗しました。');
+      })
+      .finally(() => setIsUploadingAttachment(false));
   };
 
   const handleRemoveAttachment = (id: string) => {
@@ -355,18 +498,37 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({
     return newConnectors;
   }, [extendedDetails.subSteps]);
 
+  const commentThreadModal = commentTarget && (
+    <CommentThreadModal
+      projectId={projectId}
+      target={commentTarget}
+      comments={taskComments}
+      members={members}
+      currentUserId={currentUserId}
+      onCommentsChange={setTaskComments}
+      onClose={() => setCommentTarget(null)}
+    />
+  );
+
   if (isSlideEditorOpen && extendedDetails.reportDeck) {
     return (
-      <SlideEditorView
-        tasks={[{ ...task, title, description, extendedDetails }]}
-        initialDeck={extendedDetails.reportDeck}
-        onSave={handleSaveSlides}
-        onClose={() => setIsSlideEditorOpen(false)}
-        projectGoal={projectGoal}
-        targetDate={targetDate}
-        reportScope="task"
-        generateUniqueId={generateUniqueId}
-      />
+      <>
+        <SlideEditorView
+          tasks={[{ ...task, title, description, extendedDetails }]}
+          initialDeck={extendedDetails.reportDeck}
+          onSave={handleSaveSlides}
+          onClose={() => setIsSlideEditorOpen(false)}
+          projectGoal={projectGoal}
+          targetDate={targetDate}
+          projectStartDate={projectStartDate}
+          reportScope="task"
+          generateUniqueId={generateUniqueId}
+          projectId={projectId}
+          slideCommentCounts={commentCounts.slides}
+          onOpenSlideComments={(slide, index) => openComments('slide', slide.id, `スライド ${index + 1}`)}
+        />
+        {commentThreadModal}
+      </>
     );
   }
 
@@ -377,6 +539,15 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({
           <header className="flex items-center justify-between p-4 border-b border-slate-200 flex-shrink-0">
             <h3 className="text-xl font-bold text-slate-800 truncate mr-4">タスク詳細: {title}</h3>
             <div className="flex items-center gap-2">
+              <button
+                onClick={handleDownloadDossier}
+                disabled={isExportingDossier}
+                className="inline-flex items-center gap-2 px-3 py-1.5 text-sm font-semibold text-slate-700 bg-slate-100 rounded-md hover:bg-slate-200 disabled:text-slate-400"
+                title="サブステップ・アクションアイテム・レポート・決定事項をまとめたPDFを保存"
+              >
+                {isExportingDossier ? <LoadingSpinner size="sm" /> : <DownloadIcon className="w-4 h-4" />}
+                PDF資料
+              </button>
               <button
                 onClick={() => setIsFullscreen(!isFullscreen)}
                 className="p-2 text-slate-500 hover:text-slate-700 rounded-full hover:bg-slate-100"
@@ -435,12 +606,12 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({
                     <ResponsibleIcon className="w-4 h-4 mr-1" />
                     担当者
                   </label>
-                  <input
-                    type="text"
-                    value={extendedDetails.responsible}
-                    onChange={(e) => updateExtendedDetailsState({ responsible: e.target.value })}
-                    className="w-full px-3 py-2 border border-slate-300 rounded-md focus:ring-blue-500 focus:border-blue-500 text-sm"
-                    placeholder="担当者名"
+                  <ResponsibleSelect
+                    responsible={extendedDetails.responsible}
+                    responsibleUserId={extendedDetails.responsibleUserId}
+                    members={members}
+                    onChange={updateExtendedDetailsState}
+                    className="px-3 py-2 border border-slate-300 rounded-md focus:ring-blue-500 focus:border-blue-500 text-sm"
                   />
                 </div>
 
@@ -454,6 +625,31 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({
                   />
                 </div>
 
+                <div>
+                  <label className="block text-sm font-semibold text-slate-700 mb-1">工数見積もり（日）</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={extendedDetails.estimatedDays ?? ''}
+                    onChange={(e) => updateExtendedDetailsState({ estimatedDays: parseEstimate(e.target.value) })}
+                    className="w-full px-3 py-2 border border-slate-300 rounded-md focus:ring-blue-500 focus:border-blue-500 text-sm"
+                    placeholder="サブステップがある場合はその日程から計算"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-semibold text-slate-700 mb-1">作業時間の見積もり（時間）</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={extendedDetails.estimatedHours ?? ''}
+                    onChange={(e) => updateExtendedDetailsState({ estimatedHours: parseEstimate(e.target.value) })}
+                    className="w-full px-3 py-2 border border-slate-300 rounded-md focus:ring-blue-500 focus:border-blue-500 text-sm"
+                    placeholder="空欄ならサブステップの見積もりを合計"
+                  />
+                </div>
+
                 <div>
                   <label className="block text-sm font-semibold text-slate-700 mb-1 flex items-center">
                     <ResourcesIcon className="w-4 h-4 mr-1" />
@@ -482,13 +678,41 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({
                   />
                 </div>
 
+                {taskRisks.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-semibold text-slate-700 mb-1 flex items-center">
+                      <ShieldIcon className="w-4 h-4 mr-1" />
+                      このタスクのリスク
+                    </label>
+                    <ul className="space-y-1">
+                      {taskRisks.map(risk => {
+                        const score = getRiskScore(risk);
+                        const severity = getRiskSeverity(score);
+                        return (
+                          <li key={risk.id} className={`flex items-center gap-2 p-2 bg-white rounded border text-xs ${risk.status === 'closed' ? 'opacity-60' : ''}`}>
+                            <span
+                              className={`flex-shrink-0 w-7 text-center py-0.5 rounded font-bold ${severity === 'critical' ? 'bg-red-500 text-white' : severity === 'high' ? 'bg-orange-200 text-orange-900' : severity === 'medium' ? 'bg-yellow-100 text-yellow-800' : 'bg-green-100 text-green-800'}`}
+                              title={`発生確率 ${risk.probability} × 影響度 ${risk.impact}（${RISK_SEVERITY_LABELS[severity]}）`}
+                            >
+                              {score}
+                            </span>
+                            <span className="flex-grow truncate text-slate-700" title={risk.description}>{risk.title}</span>
+                            <span className="flex-shrink-0 text-slate-500">{RISK_STATUS_LABELS[risk.status]}</span>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </div>
+                )}
+
                 <div>
                   <label className="block text-sm font-semibold text-slate-700 mb-2">添付ファイル</label>
                   <button
                     onClick={() => fileInputRef.current?.click()}
-                    className="w-full p-2 border-2 border-dashed border-slate-300 rounded-md hover:border-blue-400 text-sm text-slate-600 hover:text-blue-600"
+                    disabled={isUploadingAttachment}
+                    className="w-full p-2 border-2 border-dashed border-slate-300 rounded-md hover:border-blue-400 text-sm text-slate-600 hover:text-blue-600 disabled:opacity-50"
                   >
-                    ファイルを追加
+                    {isUploadingAttachment ? 'アップロード中...' : 'ファイルを追加'}
                   </button>
                   <input
                     type="file"
@@ -501,7 +725,13 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({
                     <div className="mt-2 space-y-1">
                       {extendedDetails.attachments.map(att => (
                         <div key={att.id} className="flex items-center justify-between p-2 bg-white rounded border text-xs">
-                          <span className="truncate">{att.name}</span>
+                          <button
+                            onClick={() => downloadAttachment(att)}
+                            className="truncate text-left text-blue-600 hover:underline"
+                            title={`${att.name} をダウンロード`}
+                          >
+                            {att.name}
+                          </button>
                           <button
                             onClick={() => handleRemoveAttachment(att.id)}
                             className="text-red-500 hover:text-red-700 ml-2"
@@ -534,6 +764,16 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({
                   {extendedDetails.reportDeck ? 'レポート編集' : 'レポート作成'}
                 </button>
 
+                <button
+                  onClick={() => pptxInputRef.current?.click()}
+                  disabled={isImportingSlides}
+                  className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-white text-teal-700 border border-teal-600 rounded-md hover:bg-teal-50 disabled:text-slate-400 disabled:border-slate-300 text-sm"
+                >
+                  {isImportingSlides ? <LoadingSpinner size="sm" /> : <UploadIcon className="w-4 h-4" />}
+                  PowerPointから取り込む
+                </button>
+                <input type="file" ref={pptxInputRef} onChange={handleImportPptx} className="hidden" accept=".pptx,application/vnd.openxmlformats-officedocument.presentationml.presentation" />
+
                 <button
                   onClick={() => setIsActionItemTableOpen(true)}
                   className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 text-sm"
@@ -557,6 +797,22 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({
                   <TableCellsIcon className="w-4 h-4" />
                   決定事項の管理
                 </button>
+
+                <button
+                  onClick={() => setIsCostLinesModalOpen(true)}
+                  className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-emerald-600 text-white rounded-md hover:bg-emerald-700 text-sm"
+                >
+                  <ResourcesIcon className="w-4 h-4" />
+                  予算・コストの管理{extendedDetails.costLines?.length ? `（${extendedDetails.costLines.length}）` : ''}
+                </button>
+
+                <button
+                  onClick={() => openComments('task', task.id, title)}
+                  className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-white text-slate-700 border border-slate-300 rounded-md hover:bg-slate-50 text-sm"
+                >
+                  <ChatBubbleIcon className="w-4 h-4" />
+                  タスクへのコメント{commentCounts.task ? `（${commentCounts.task}）` : ''}
+                </button>
               </div>
             </aside>
 
@@ -608,6 +864,14 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({
                         placeholder="サブステップ名"
                       />
                       <div className="flex items-center gap-1">
+                        <button
+                          onClick={() => openComments('sub_step', subStep.id, subStep.text)}
+                          className={`flex items-center text-xs ${commentCounts.subSteps[subStep.id] ? 'text-blue-600' : 'text-slate-400'} hover:text-blue-700`}
+                          title="コメント"
+                        >
+                          <ChatBubbleIcon className="w-3 h-3" />
+                          {commentCounts.subSteps[subStep.id] > 0 && <span className="ml-0.5">{commentCounts.subSteps[subStep.id]}</span>}
+                        </button>
                         <button
                           onMouseDown={(e) => handleStartConnection(subStep.id, e)}
                           className="w-3 h-3 bg-blue-500 rounded-full hover:bg-blue-600"
@@ -623,15 +887,47 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({
                       </div>
                     </div>
 
-                    <select
-                      value={subStep.status || SubStepStatus.NOT_STARTED}
-                      onChange={(e) => handleUpdateSubStep(subStep.id, { status: e.target.value as SubStepStatus })}
-                      className="text-xs mb-2 w-full border border-slate-300 rounded px-1 py-0.5"
-                    >
-                      {Object.values(SubStepStatus).map(s => (
-                        <option key={s} value={s}>{s}</option>
-                      ))}
-                    </select>
+                    <div className="flex gap-1 mb-2">
+                      <select
+                        value={subStep.status || SubStepStatus.NOT_STARTED}
+                        onChange={(e) => handleUpdateSubStep(subStep.id, { status: e.target.value as SubStepStatus })}
+                        className="text-xs flex-grow border border-slate-300 rounded px-1 py-0.5"
+                      >
+                        {Object.values(SubStepStatus).map(s => (
+                          <option key={s} value={s}>{s}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        min={0}
+                        value={subStep.estimatedDays ?? ''}
+                        onChange={(e) => handleUpdateSubStep(subStep.id, { estimatedDays: parseEstimate(e.target.value) })}
+                        className="text-xs w-14 border border-slate-300 rounded px-1 py-0.5"
+                        placeholder="日数"
+                        title="工数見積もり（日）"
+                      />
+                      <input
+                        type="number"
+                        min={0}
+                        step={0.5}
+                        value={subStep.estimatedHours ?? ''}
+                        onChange={(e) => handleUpdateSubStep(subStep.id, { estimatedHours: parseEstimate(e.target.value) })}
+                        className="text-xs w-14 border border-slate-300 rounded px-1 py-0.5"
+                        placeholder="時間"
+                        title="作業時間の見積もり（時間）"
+                      />
+                    </div>
+
+                    <div className="mb-2">
+                      <ResponsibleSelect
+                        responsible={subStep.responsible}
+                        responsibleUserId={subStep.responsibleUserId}
+                        members={members}
+                        onChange={(change) => handleUpdateSubStep(subStep.id, change)}
+                        className="text-xs border border-slate-300 rounded px-1 py-0.5"
+                        placeholder="担当者"
+                      />
+                    </div>
 
                     <div className="space-y-1">
                       {(subStep.actionItems || []).map((actionItem) => (
@@ -652,6 +948,33 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({
                             className="flex-grow bg-transparent border-none outline-none text-xs"
                             placeholder="アクションアイテム"
                           />
+                          <input
+                            type="number"
+                            min={0}
+                            value={actionItem.estimatedDays ?? ''}
+                            onChange={(e) => handleUpdateActionItem(subStep.id, actionItem.id, { estimatedDays: parseEstimate(e.target.value) })}
+                            className="w-10 border border-slate-200 rounded px-1 text-xs"
+                            placeholder="日"
+                            title="工数見積もり（日）"
+                          />
+                          <input
+                            type="number"
+                            min={0}
+                            step={0.5}
+                            value={actionItem.estimatedHours ?? ''}
+                            onChange={(e) => handleUpdateActionItem(subStep.id, actionItem.id, { estimatedHours: parseEstimate(e.target.value) })}
+                            className="w-10 border border-slate-200 rounded px-1 text-xs"
+                            placeholder="h"
+                            title="作業時間の見積もり（時間）"
+                          />
+                          <button
+                            onClick={() => openComments('action_item', actionItem.id, actionItem.text)}
+                            className={`flex items-center ${commentCounts.actionItems[actionItem.id] ? 'text-blue-600' : 'text-slate-400'} hover:text-blue-700`}
+                            title="コメント"
+                          >
+                            <ChatBubbleIcon className="w-3 h-3" />
+                            {commentCounts.actionItems[actionItem.id] > 0 && <span className="ml-0.5">{commentCounts.actionItems[actionItem.id]}</span>}
+                          </button>
                           <button
                             onClick={() => setSelectedActionItem({ subStepId: subStep.id, actionItem })}
                             className="text-blue-500 hover:text-blue-700"
@@ -758,6 +1081,7 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({
           }}
           onClose={() => setSelectedActionItem(null)}
           generateUniqueId={generateUniqueId}
+          projectId={projectId}
         />
       )}
 
@@ -767,6 +1091,7 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({
           taskName={title}
           onClose={() => setIsActionItemTableOpen(false)}
           onUpdateActionItem={handleUpdateActionItem}
+          members={members}
         />
       )}
 
@@ -792,9 +1117,33 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({
             setIsDecisionModalOpen(false);
           }}
           task={{ ...task, title, description, extendedDetails }}
+          tasks={tasks}
+          members={members}
+          currentUserId={currentUserId}
+          projectId={projectId}
+          canApprove={canApprove}
           generateUniqueId={generateUniqueId}
+          decisionCommentCounts={commentCounts.decisions}
+          onOpenDecisionComments={(decision) => openComments('decision', decision.id, decision.question)}
         />
       )}
+
+      {isCostLinesModalOpen && (
+        <CostLinesModal
+          costLines={extendedDetails.costLines || []}
+          subSteps={extendedDetails.subSteps}
+          resourceMatrix={extendedDetails.resourceMatrix}
+          canApprove={canApprove}
+          onSave={(costLines) => {
+            updateExtendedDetailsState({ costLines });
+            setIsCostLinesModalOpen(false);
+          }}
+          onClose={() => setIsCostLinesModalOpen(false)}
+          generateUniqueId={generateUniqueId}
+        />
+      )}
+
+      {commentThreadModal}
     </>
   );
 };
@@ -0,0 +1,180 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { TimeEntry } from '../types';
+import { TimeTrackingService } from '../services/timeTrackingService';
+import { isTimeEntryFinished, formatHours } from '../services/effortRollup';
+import { localToday } from '../services/dateUtils';
+import { ClockIcon, PlayCircleIcon, TrashIcon } from './icons';
+import ErrorMessage from './ErrorMessage';
+
+interface TimeEntryPanelProps {
+  projectId: string | null;
+  actionItemId: string;
+  estimatedHours?: number;
+}
+
+const formatElapsed = (ms: number): string => {
+  const totalSeconds = Math.max(Math.floor(ms / 1000), 0);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+};
+
+const formatMinutes = (minutes: number): string =>
+  minutes < 60 ? `${minutes}分` : `${Math.floor(minutes / 60)}時間${minutes % 60 ? `${minutes % 60}分` : ''}`;
+
+// アクションアイテムの作業時間（タイマーと手入力）の記録。
+// 記録はその場で保存し、レポートの「保存して閉じる」とは独立している
+const TimeEntryPanel: React.FC<TimeEntryPanelProps> = ({ projectId, actionItemId, estimatedHours }) => {
+  const [entries, setEntries] = useState<TimeEntry[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const [form, setForm] = useState({ entryDate: localToday(), hours: '', note: '' });
+
+  useEffect(() => {
+    if (!projectId) return;
+    let cancelled = false;
+    Promise.all([TimeTrackingService.getTimeEntries(projectId, actionItemId), TimeTrackingService.getCurrentUserId()])
+      .then(([loaded, userId]) => {
+        if (cancelled) return;
+        setEntries(loaded);
+        setCurrentUserId(userId);
+      })
+      .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : '作業時間の記録の取得に失敗しました'); });
+    return () => { cancelled = true; };
+  }, [projectId, actionItemId]);
+
+  const runningEntry = useMemo(
+    () => entries.find(entry => entry.userId === currentUserId && !isTimeEntryFinished(entry)),
+    [entries, currentUserId]
+  );
+
+  // タイマーの経過時間を1秒ごとに更新
+  useEffect(() => {
+    if (!runningEntry) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [runningEntry]);
+
+  const actualMinutes = entries.filter(isTimeEntryFinished).reduce((sum, entry) => sum + entry.minutes, 0);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '作業時間の記録に失敗しました');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (!projectId) {
+    return (
+      <div>
+        <h4 className="text-sm font-semibold text-slate-700 mb-2">作業時間</h4>
+        <p className="text-xs text-slate-500 bg-slate-50 border border-slate-200 rounded-md p-3">プロジェクトを保存すると、作業時間を記録できます。</p>
+      </div>
+    );
+  }
+
+  const handleStart = () => run(async () => {
+    const entry = await TimeTrackingService.startTimer(projectId, actionItemId);
+    setNow(Date.now());
+    setEntries(prev => [entry, ...prev]);
+  });
+
+  const handleStop = () => run(async () => {
+    if (!runningEntry) return;
+    const stopped = await TimeTrackingService.stopTimer(runningEntry);
+    setEntries(prev => prev.map(entry => (entry.id === stopped.id ? stopped : entry)));
+  });
+
+  const handleAdd = () => {
+    const hours = parseFloat(form.hours);
+    if (isNaN(hours) || hours <= 0) {
+      setError('作業時間は0より大きい数値で入力してください。');
+      return;
+    }
+    return run(async () => {
+      const entry = await TimeTrackingService.addTimeEntry(projectId, actionItemId, {
+        entryDate: form.entryDate,
+        minutes: Math.round(hours * 60),
+        note: form.note.trim(),
+      });
+      setEntries(prev => [entry, ...prev].sort((a, b) => b.entryDate.localeCompare(a.entryDate)));
+      setForm(prev => ({ ...prev, hours: '', note: '' }));
+    });
+  };
+
+  const handleDelete = (entry: TimeEntry) => {
+    if (!window.confirm('この作業時間の記録を削除しますか？')) return;
+    return run(async () => {
+      await TimeTrackingService.deleteTimeEntry(entry.id);
+      setEntries(prev => prev.filter(candidate => candidate.id !== entry.id));
+    });
+  };
+
+  const isOverEstimate = estimatedHours !== undefined && actualMinutes / 60 > estimatedHours;
+
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-slate-700 flex justify-between items-center mb-2">
+        作業時間
+        <span className="text-xs font-normal text-slate-500">
+          見積もり {formatHours(estimatedHours ?? null)} / 実績 <span className={isOverEstimate ? 'text-red-600 font-semibold' : ''}>{formatHours(actualMinutes / 60)}</span>
+        </span>
+      </h4>
+      {error && <div className="mb-2"><ErrorMessage message={error} /></div>}
+
+      <div className="border rounded-md bg-slate-50 p-2 space-y-2">
+        <div className="flex items-center gap-2">
+          {runningEntry ? (
+            <button onClick={handleStop} disabled={isBusy} className="flex items-center gap-1 px-3 py-1 text-xs font-semibold text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50">
+              <ClockIcon className="w-4 h-4" />停止
+            </button>
+          ) : (
+            <button onClick={handleStart} disabled={isBusy} className="flex items-center gap-1 px-3 py-1 text-xs font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50">
+              <PlayCircleIcon className="w-4 h-4" />タイマー開始
+            </button>
+          )}
+          {runningEntry?.startedAt && (
+            <span className="text-sm font-mono tabular-nums text-slate-700">{formatElapsed(now - Date.parse(runningEntry.startedAt))}</span>
+          )}
+        </div>
+
+        <div className="flex items-center gap-1">
+          <input type="date" value={form.entryDate} onChange={e => setForm(prev => ({ ...prev, entryDate: e.target.value }))} className="px-1 py-0.5 text-xs border border-slate-300 rounded" />
+          <input type="number" min={0} step={0.25} value={form.hours} onChange={e => setForm(prev => ({ ...prev, hours: e.target.value }))} placeholder="時間" className="w-16 px-1 py-0.5 text-xs border border-slate-300 rounded" />
+          <input type="text" value={form.note} onChange={e => setForm(prev => ({ ...prev, note: e.target.value }))} placeholder="メモ（任意）" className="flex-grow min-w-0 px-1 py-0.5 text-xs border border-slate-300 rounded" />
+          <button onClick={handleAdd} disabled={isBusy || !form.hours} className="px-2 py-0.5 text-xs font-semibold text-blue-600 border border-blue-300 rounded hover:bg-blue-50 disabled:opacity-50">記録</button>
+        </div>
+
+        {entries.length === 0 ? (
+          <p className="text-xs text-slate-400">まだ記録はありません。</p>
+        ) : (
+          <ul className="divide-y divide-slate-200 max-h-40 overflow-y-auto text-xs">
+            {entries.map(entry => (
+              <li key={entry.id} className="flex items-center gap-2 py-1">
+                <span className="text-slate-500 w-20 flex-shrink-0">{entry.entryDate}</span>
+                <span className="text-slate-700 w-20 flex-shrink-0 truncate" title={entry.userName}>{entry.userName}</span>
+                <span className="tabular-nums w-16 flex-shrink-0">{isTimeEntryFinished(entry) ? formatMinutes(entry.minutes) : '計測中'}</span>
+                <span className="text-slate-500 truncate flex-grow" title={entry.note}>{entry.note}</span>
+                {entry.userId === currentUserId && isTimeEntryFinished(entry) && (
+                  <button onClick={() => handleDelete(entry)} disabled={isBusy} className="p-0.5 text-slate-400 hover:text-red-500" title="削除">
+                    <TrashIcon className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TimeEntryPanel;
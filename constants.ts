@@ -1,2 +1,8 @@
 
-export const GEMINI_MODEL_TEXT = 'gemini-2.5-flash-preview-04-17';
\ No newline at end of file
+export const GEMINI_MODEL_TEXT = 'gemini-2.5-flash-preview-04-17';
+
+// AI プロバイダーごとの既定値
+export const OPENAI_DEFAULT_MODEL = 'gpt-4o-mini';
+export const OPENAI_DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+export const LOCAL_LLM_DEFAULT_MODEL = 'llama3.1';
+export const LOCAL_LLM_DEFAULT_BASE_URL = 'http://localhost:11434';
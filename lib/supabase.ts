@@ -23,6 +23,8 @@ export type Database = {
           gantt_data: any;
           created_at: string;
           updated_at: string;
+          version: number;
+          last_modified_by: string | null;
         };
         Insert: {
           id?: string;
@@ -34,6 +36,8 @@ export type Database = {
           gantt_data?: any;
           created_at?: string;
           updated_at?: string;
+          version?: number;
+          last_modified_by?: string | null;
         };
         Update: {
           id?: string;
@@ -45,6 +49,8 @@ export type Database = {
           gantt_data?: any;
           created_at?: string;
           updated_at?: string;
+          version?: number;
+          last_modified_by?: string | null;
         };
       };
     };
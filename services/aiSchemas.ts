@@ -0,0 +1,272 @@
+import { ProjectTask, SlideDeck, GeneratedDecision, ProjectHealthReport, GanttItem, ProposedRisk, RiskLevel } from '../types';
+
+// AI の応答などの外部データを実行時に検証するための最小限のスキーマ定義。
+// 問題点は「パス: 内容」の形式で集め、AI への修正依頼にもそのまま使う
+type Validator = (value: unknown, path: string, issues: string[]) => void;
+
+export interface Schema<T> {
+  validate: Validator;
+  optional?: boolean;
+  readonly _type?: T; // 型推論用（実行時には使わない）
+}
+
+export type SchemaResult<T> = { ok: true; value: T } | { ok: false; issues: string[] };
+
+const MAX_ISSUES = 20;
+
+const define = <T,>(validate: Validator): Schema<T> => ({ validate });
+
+const describe = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const child = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const string = (options: { nonEmpty?: boolean; pattern?: RegExp; patternLabel?: string } = {}) =>
+  define<string>((value, path, issues) => {
+    if (typeof value !== 'string') {
+      issues.push(`${path}: expected string, got ${describe(value)}`);
+    } else if (options.nonEmpty && !value.trim()) {
+      issues.push(`${path}: must not be empty`);
+    } else if (options.pattern && !options.pattern.test(value)) {
+      issues.push(`${path}: expected ${options.patternLabel ?? options.pattern.source}, got "${value}"`);
+    }
+  });
+
+const number = (options: { min?: number; max?: number } = {}) =>
+  define<number>((value, path, issues) => {
+    if (typeof value !== 'number' || isNaN(value)) {
+      issues.push(`${path}: expected number, got ${describe(value)}`);
+    } else if ((options.min !== undefined && value < options.min) || (options.max !== undefined && value > options.max)) {
+      issues.push(`${path}: expected a number between ${options.min ?? '-∞'} and ${options.max ?? '∞'}, got ${value}`);
+    }
+  });
+
+const boolean = () =>
+  define<boolean>((value, path, issues) => {
+    if (typeof value !== 'boolean') issues.push(`${path}: expected boolean, got ${describe(value)}`);
+  });
+
+const oneOf = <T extends string>(values: readonly T[]) =>
+  define<T>((value, path, issues) => {
+    if (!values.includes(value as T)) {
+      issues.push(`${path}: expected one of ${values.map(v => `"${v}"`).join(', ')}, got ${JSON.stringify(value)}`);
+    }
+  });
+
+const optional = <T,>(schema: Schema<T>): Schema<T | undefined> => ({
+  optional: true,
+  validate: (value, path, issues) => {
+    if (value !== undefined && value !== null) schema.validate(value, path, issues);
+  },
+});
+
+const nullable = <T,>(schema: Schema<T>) =>
+  define<T | null>((value, path, issues) => {
+    if (value !== null) schema.validate(value, path, issues);
+  });
+
+const array = <T,>(item: Schema<T>, options: { minLength?: number } = {}) =>
+  define<T[]>((value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push(`${path || '(root)'}: expected array, got ${describe(value)}`);
+      return;
+    }
+    if (options.minLength !== undefined && value.length < options.minLength) {
+      issues.push(`${path || '(root)'}: expected at least ${options.minLength} item(s), got ${value.length}`);
+    }
+    value.forEach((entry, index) => item.validate(entry, child(path, index), issues));
+  });
+
+// 余分なキーは許容する（AI が補足情報を付けても失敗にはしない）
+const object = <T,>(shape: { [K in keyof T]-?: Schema<any> }) =>
+  define<T>((value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      issues.push(`${path || '(root)'}: expected object, got ${describe(value)}`);
+      return;
+    }
+    Object.entries(shape).forEach(([key, schema]) => {
+      const fieldValue = (value as Record<string, unknown>)[key];
+      const fieldSchema = schema as Schema<unknown>;
+      if (fieldValue === undefined && !fieldSchema.optional) {
+        issues.push(`${child(path, key)}: required field is missing`);
+        return;
+      }
+      fieldSchema.validate(fieldValue, child(path, key), issues);
+    });
+  });
+
+const record = <T,>(valueSchema: Schema<T>) =>
+  define<Record<string, T>>((value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      issues.push(`${path || '(root)'}: expected object, got ${describe(value)}`);
+      return;
+    }
+    Object.entries(value).forEach(([key, entry]) => valueSchema.validate(entry, child(path, key), issues));
+  });
+
+// type などの判別キーの値で、適用するスキーマを切り替える
+const discriminated = <T,>(key: string, variants: Record<string, Schema<any>>) =>
+  define<T>((value, path, issues) => {
+    const tag = typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined;
+    const variant = typeof tag === 'string' ? variants[tag] : undefined;
+    if (!variant) {
+      issues.push(`${child(path, key)}: expected one of ${Object.keys(variants).map(v => `"${v}"`).join(', ')}, got ${JSON.stringify(tag)}`);
+      return;
+    }
+    variant.validate(value, path, issues);
+  });
+
+/**
+ * Validates a value against a schema.
+ * @param schema The schema to check against.
+ * @param value The value to check (e.g. parsed AI output).
+ * @returns The value typed as T, or the list of issues found (capped at 20).
+ */
+export const validateSchema = <T,>(schema: Schema<T>, value: unknown): SchemaResult<T> => {
+  const issues: string[] = [];
+  schema.validate(value, '', issues);
+  return issues.length === 0 ? { ok: true, value: value as T } : { ok: false, issues: issues.slice(0, MAX_ISSUES) };
+};
+
+// --- スキーマ ---
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const date = () => string({ pattern: DATE_PATTERN, patternLabel: 'a YYYY-MM-DD date' });
+
+// リスクの発生確率・影響度（1〜5の整数）
+const riskLevel = () =>
+  define<RiskLevel>((value, path, issues) => {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > 5) {
+      issues.push(`${path}: expected an integer between 1 and 5, got ${JSON.stringify(value)}`);
+    }
+  });
+
+// ストリーミング生成ではタスクを1件ずつ検証する
+export const projectTaskSchema: Schema<ProjectTask> = object<Pick<ProjectTask, 'id' | 'title' | 'description'>>({
+  id: string({ nonEmpty: true }),
+  title: string({ nonEmpty: true }),
+  description: string({ nonEmpty: true }),
+});
+
+export const projectTasksSchema: Schema<ProjectTask[]> = array(projectTaskSchema, { minLength: 1 });
+
+export const stepProposalsSchema: Schema<{ title: string; description: string }[]> = array(object<{ title: string; description: string }>({
+  title: string({ nonEmpty: true }),
+  description: string({ nonEmpty: true }),
+}), { minLength: 1 });
+
+export const decisionsSchema: Schema<GeneratedDecision[]> = array(object<GeneratedDecision>({
+  id: string({ nonEmpty: true }),
+  question: string({ nonEmpty: true }),
+  decision: optional(string()),
+  reasoning: optional(string()),
+  date: optional(string()),
+  status: oneOf(['decided', 'undecided'] as const),
+}));
+
+const positionSchema = object<{ x: number; y: number; width: number; height: number }>({
+  x: number(),
+  y: number(),
+  width: number({ min: 0 }),
+  height: number({ min: 0 }),
+});
+
+const elementBase = {
+  id: string({ nonEmpty: true }),
+  type: string(),
+  position: positionSchema,
+};
+
+const chartAxisSchema = object({
+  title: optional(string()),
+  unit: optional(string()),
+  min: optional(number()),
+  max: optional(number()),
+});
+
+const slideElementSchema = discriminated('type', {
+  textbox: object({
+    ...elementBase,
+    content: string(),
+    fontSize: optional(oneOf(['small', 'medium', 'large', 'title'] as const)),
+    fontWeight: optional(oneOf(['normal', 'bold'] as const)),
+    textAlign: optional(oneOf(['left', 'center', 'right'] as const)),
+  }),
+  image: object({ ...elementBase, subStepId: string(), actionItemId: string(), attachmentId: string() }),
+  table: object({ ...elementBase, subStepId: string(), actionItemId: string() }),
+  chart: object({
+    ...elementBase,
+    subStepId: string(),
+    actionItemId: string(),
+    chartType: oneOf(['bar', 'pie', 'line', 'area', 'scatter', 'combo'] as const),
+    title: string(),
+    categoryColumn: optional(number({ min: 0 })),
+    series: optional(array(object({
+      column: number({ min: 0 }),
+      name: optional(string()),
+      seriesType: optional(oneOf(['bar', 'line', 'area'] as const)),
+      color: optional(string({ pattern: /^[0-9a-fA-F]{6}$/, patternLabel: 'a hex color without "#"' })),
+    }))),
+    grouping: optional(oneOf(['grouped', 'stacked'] as const)),
+    xAxis: optional(chartAxisSchema),
+    yAxis: optional(chartAxisSchema),
+    legendPosition: optional(oneOf(['none', 'top', 'bottom', 'right'] as const)),
+    showTargetLine: optional(boolean()),
+  }),
+  flowchart: object({
+    ...elementBase,
+    taskId: optional(string()),
+    data: object({ subSteps: array(object({ id: string({ nonEmpty: true }), text: string() })) }),
+  }),
+  data: object({
+    ...elementBase,
+    binding: oneOf(['status_summary', 'progress', 'numerical_target', 'decisions', 'gantt'] as const),
+    taskId: optional(string()),
+  }),
+});
+
+// スライドマスターは AI に生成させず、呼び出し側で元のデッキや選択中のマスターから設定する
+export const slideDeckSchema: Schema<SlideDeck> = object<Omit<SlideDeck, 'master' | 'sharedPresentationId'>>({
+  slides: array(object({
+    id: string({ nonEmpty: true }),
+    layout: oneOf(['title_slide', 'title_and_content', 'section_header', 'two_column', 'blank'] as const),
+    elements: array(slideElementSchema),
+    notes: optional(string()),
+    isLocked: optional(boolean()),
+  }), { minLength: 1 }),
+  theme: optional(oneOf(['light', 'dark', 'business'] as const)),
+});
+
+export const projectHealthReportSchema: Schema<ProjectHealthReport> = object<ProjectHealthReport>({
+  overallStatus: oneOf(['On Track', 'At Risk', 'Off Track', 'Unknown'] as const),
+  summary: string({ nonEmpty: true }),
+  positivePoints: array(string()),
+  areasOfConcern: array(object({ description: string({ nonEmpty: true }), relatedTaskIds: array(string()) })),
+  suggestions: array(string()),
+  scheduleVariance: optional(define(() => {})), // 計算値のため AI の応答には含まれない
+  effortSummary: optional(define(() => {})), // 作業時間の記録から計算するため AI の応答には含まれない
+  proposedRisks: optional(array(object<ProposedRisk>({
+    title: string({ nonEmpty: true }),
+    description: string(),
+    probability: riskLevel(),
+    impact: riskLevel(),
+    relatedTaskIds: array(string()),
+    mitigations: array(string()),
+  }))),
+});
+
+export const ganttItemsSchema: Schema<GanttItem[]> = array(object<GanttItem>({
+  id: string({ nonEmpty: true }),
+  name: string(),
+  start: date(),
+  end: date(),
+  progress: number({ min: 0, max: 100 }),
+  dependencies: array(string()),
+  type: oneOf(['task', 'substep', 'actionitem'] as const),
+  parentId: nullable(string()),
+  totalFloat: optional(number()),
+  isCritical: optional(boolean()),
+}));
+
+export const durationEstimatesSchema: Schema<Record<string, number>> = record(number({ min: 0 }));
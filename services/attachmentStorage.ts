@@ -0,0 +1,214 @@
+import { supabase } from '../lib/supabase';
+import { Attachment, ProjectTask } from '../types';
+
+// 添付ファイルの保存先。Supabase Storage のほか、テストやオフライン確認用のメモリ上の実装に差し替えられる
+export interface AttachmentStorageAdapter {
+  upload(key: string, data: Blob): Promise<void>;
+  download(key: string): Promise<Blob>;
+}
+
+export type AttachmentVariant = 'thumbnail' | 'full';
+
+const ATTACHMENT_BUCKET = 'attachments';
+const THUMBNAIL_MAX_SIZE = 320;
+
+// Supabase Storage のバケットに保存する
+export class SupabaseStorageAdapter implements AttachmentStorageAdapter {
+  constructor(private bucket: string = ATTACHMENT_BUCKET) {}
+
+  async upload(key: string, data: Blob): Promise<void> {
+    const { error } = await supabase.storage
+      .from(this.bucket)
+      .upload(key, data, { contentType: data.type || undefined, upsert: true });
+
+    if (error) {
+      throw new Error(`添付ファイルのアップロードに失敗しました: ${error.message}`);
+    }
+  }
+
+  async download(key: string): Promise<Blob> {
+    const { data, error } = await supabase.storage
+      .from(this.bucket)
+      .download(key);
+
+    if (error || !data) {
+      throw new Error(`添付ファイルの取得に失敗しました: ${error?.message ?? key}`);
+    }
+
+    return data;
+  }
+}
+
+// メモリ上に保存する。Supabase を使わないテストや開発時の代替で、ブラウザ以外（Node）でも動く。
+// 同じキーへのアップロードは Supabase の upsert と同じく上書きになる
+export class InMemoryStorageAdapter implements AttachmentStorageAdapter {
+  private files = new Map<string, Blob>();
+
+  async upload(key: string, data: Blob): Promise<void> {
+    this.files.set(key, data);
+  }
+
+  async download(key: string): Promise<Blob> {
+    const data = this.files.get(key);
+    if (!data) {
+      throw new Error(`添付ファイルの取得に失敗しました: ${key}`);
+    }
+    return data;
+  }
+
+  // 保存されているキーの一覧（テストでの確認用）
+  keys(): string[] {
+    return [...this.files.keys()];
+  }
+}
+
+const readAsDataUrl = (data: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('ファイルの読み込み中にエラーが発生しました。'));
+    reader.readAsDataURL(data);
+  });
+
+// 画像を縮小した JPEG を作成する。読み込めない形式の場合は null
+const createThumbnail = async (file: Blob): Promise<Blob | null> => {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, THUMBNAIL_MAX_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return await new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+  } catch {
+    return null;
+  }
+};
+
+// data URL をファイルに戻す
+const dataUrlToFile = async (attachment: Attachment): Promise<File> => {
+  const blob = await (await fetch(attachment.dataUrl!)).blob();
+  return new File([blob], attachment.name, { type: attachment.type || blob.type });
+};
+
+// 計画に含まれるすべての添付ファイル（タスク・サブステップ・アクションアイテムの報告）
+const collectAttachments = (tasks: ProjectTask[]): Attachment[] =>
+  tasks.flatMap(task => [
+    ...(task.extendedDetails?.attachments || []),
+    ...(task.extendedDetails?.subSteps || []).flatMap(subStep => [
+      ...(subStep.attachments || []),
+      ...(subStep.actionItems || []).flatMap(item => item.report?.attachments || []),
+    ]),
+  ]);
+
+/**
+ * Swaps attachments in the plan for new versions, e.g. after they have been moved to storage.
+ * @param tasks The project's tasks.
+ * @param replacements The new attachments keyed by attachment ID.
+ * @returns The tasks with the attachments replaced; other attachments are kept as they are.
+ */
+export const replaceAttachments = (tasks: ProjectTask[], replacements: Map<string, Attachment>): ProjectTask[] => {
+  if (replacements.size === 0) return tasks;
+  const replace = (attachments: Attachment[]) => attachments.map(attachment => replacements.get(attachment.id) ?? attachment);
+  return tasks.map(task => {
+    if (!task.extendedDetails) return task;
+    const details = task.extendedDetails;
+    return {
+      ...task,
+      extendedDetails: {
+        ...details,
+        attachments: replace(details.attachments || []),
+        subSteps: details.subSteps.map(subStep => ({
+          ...subStep,
+          ...(subStep.attachments ? { attachments: replace(subStep.attachments) } : {}),
+          ...(subStep.actionItems ? {
+            actionItems: subStep.actionItems.map(item => (item.report
+              ? { ...item, report: { ...item.report, attachments: replace(item.report.attachments || []) } }
+              : item)),
+          } : {}),
+        })),
+      },
+    };
+  });
+};
+
+// ストレージのキーに使えない文字を置き換える
+const toSafeFileName = (name: string) => name.replace(/[^\w.\-]+/g, '_') || 'file';
+
+export class AttachmentService {
+  // VITE_ATTACHMENT_STORAGE=local の場合はメモリ上に保存する（再読み込みすると消える）
+  private static adapter: AttachmentStorageAdapter = import.meta.env.VITE_ATTACHMENT_STORAGE === 'local'
+    ? new InMemoryStorageAdapter()
+    : new SupabaseStorageAdapter();
+  // storageKey ごとの Object URL。同じファイルを何度も取得しない
+  private static urlCache = new Map<string, Promise<string>>();
+
+  static setAdapter(adapter: AttachmentStorageAdapter) {
+    AttachmentService.adapter = adapter;
+    AttachmentService.urlCache.forEach(url => url.then(URL.revokeObjectURL, () => {}));
+    AttachmentService.urlCache.clear();
+  }
+
+  // ファイルをアップロードし、キーで参照する Attachment を返す
+  // プロジェクトが未保存（projectId が null）の場合は従来どおり dataUrl に保持する
+  static async uploadAttachment(projectId: string | null, id: string, file: File): Promise<Attachment> {
+    const attachment: Attachment = { id, name: file.name, type: file.type, size: file.size };
+
+    if (!projectId) {
+      return { ...attachment, dataUrl: await readAsDataUrl(file) };
+    }
+
+    const folder = `${projectId}/${id}`;
+    attachment.storageKey = `${folder}/${toSafeFileName(file.name)}`;
+    await AttachmentService.adapter.upload(attachment.storageKey, file);
+
+    if (file.type.startsWith('image/')) {
+      const thumbnail = await createThumbnail(file);
+      if (thumbnail) {
+        attachment.thumbnailKey = `${folder}/thumbnail.jpg`;
+        await AttachmentService.adapter.upload(attachment.thumbnailKey, thumbnail);
+      }
+    }
+
+    return attachment;
+  }
+
+  // 未保存のうちに追加した添付ファイルや、ストレージ化以前の添付ファイルは base64 の dataUrl のまま計画に含まれている。
+  // 保存済みのプロジェクトを開いたときにストレージへ移し、移した添付ファイルを ID ごとに返す（失敗したものは dataUrl のまま残す）
+  static async moveInlineAttachments(projectId: string, tasks: ProjectTask[]): Promise<Map<string, Attachment>> {
+    const moved = new Map<string, Attachment>();
+    const inline = collectAttachments(tasks).filter(attachment => attachment.dataUrl && !attachment.storageKey);
+    for (const attachment of inline) {
+      try {
+        moved.set(attachment.id, await AttachmentService.uploadAttachment(projectId, attachment.id, await dataUrlToFile(attachment)));
+      } catch (error) {
+        console.warn(`Failed to move attachment ${attachment.id} to storage:`, error);
+      }
+    }
+    return moved;
+  }
+
+  // 表示・ダウンロード用の URL を必要になった時点で取得する
+  static getUrl(attachment: Attachment, variant: AttachmentVariant = 'full'): Promise<string> {
+    if (attachment.dataUrl) return Promise.resolve(attachment.dataUrl);
+
+    const key = variant === 'thumbnail' ? attachment.thumbnailKey ?? attachment.storageKey : attachment.storageKey;
+    if (!key) return Promise.reject(new Error('添付ファイルの保存先が見つかりません'));
+
+    let url = AttachmentService.urlCache.get(key);
+    if (!url) {
+      url = AttachmentService.adapter.download(key).then(blob => URL.createObjectURL(blob));
+      url.catch(() => AttachmentService.urlCache.delete(key));
+      AttachmentService.urlCache.set(key, url);
+    }
+    return url;
+  }
+
+  // AI へ渡すためにファイル全体を base64 の data URL として取得
+  static async getDataUrl(attachment: Attachment): Promise<string> {
+    if (attachment.dataUrl) return attachment.dataUrl;
+    if (!attachment.storageKey) throw new Error('添付ファイルの保存先が見つかりません');
+    return readAsDataUrl(await AttachmentService.adapter.download(attachment.storageKey));
+  }
+}
@@ -0,0 +1,69 @@
+import { supabase } from '../lib/supabase';
+import { BaselineItem, ProjectBaseline } from '../types';
+
+const toProjectBaseline = (row: any): ProjectBaseline => ({
+  id: row.id,
+  projectId: row.project_id,
+  name: row.name,
+  targetDate: row.target_date ?? undefined,
+  scheduleStart: row.schedule_start,
+  items: row.items || [],
+  createdAt: row.created_at,
+  createdBy: row.created_by ?? undefined,
+});
+
+export class BaselineService {
+  // プロジェクトのベースラインを保存日時の古い順に取得
+  static async getBaselines(projectId: string): Promise<ProjectBaseline[]> {
+    const { data, error } = await supabase
+      .from('project_baselines')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`ベースラインの取得に失敗しました: ${error.message}`);
+    }
+
+    return data.map(toProjectBaseline);
+  }
+
+  // 現在の日程を名前を付けてベースラインとして保存
+  static async createBaseline(
+    projectId: string,
+    name: string,
+    targetDate: string | undefined,
+    scheduleStart: string,
+    items: BaselineItem[]
+  ): Promise<ProjectBaseline> {
+    const { data, error } = await supabase
+      .from('project_baselines')
+      .insert({
+        project_id: projectId,
+        name,
+        target_date: targetDate || null,
+        schedule_start: scheduleStart,
+        items,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`ベースラインの保存に失敗しました: ${error.message}`);
+    }
+
+    return toProjectBaseline(data);
+  }
+
+  // ベースラインを削除
+  static async deleteBaseline(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('project_baselines')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`ベースラインの削除に失敗しました: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,233 @@
+import { ChartElement, ChartLegendPosition, ChartSeries, ChartSeriesType, ChartType, MatrixData, NumericalTarget } from '../types';
+import { inferColumnTypes } from './spreadsheetImport';
+
+// グラフ要素の設定とマトリクスから、描画に必要な値（系列・積み上げの基準値・目盛り）を求める。
+// エディタ・レポート画面・PowerPoint・PDF のすべてがこの結果を使って描画する
+
+export type ChartSpec = Pick<ChartElement, 'chartType' | 'categoryColumn' | 'series' | 'grouping' | 'xAxis' | 'yAxis' | 'legendPosition' | 'showTargetLine'>;
+
+export const CHART_TYPE_LABELS: Record<ChartType, string> = {
+  bar: '棒グラフ',
+  line: '折れ線グラフ',
+  area: '面グラフ',
+  pie: '円グラフ',
+  scatter: '散布図',
+  combo: '複合グラフ',
+};
+
+export const CHART_SERIES_TYPE_LABELS: Record<ChartSeriesType, string> = {
+  bar: '棒',
+  line: '折れ線',
+  area: '面',
+};
+
+export const CHART_LEGEND_POSITION_LABELS: Record<ChartLegendPosition, string> = {
+  none: '表示しない',
+  top: '上',
+  bottom: '下',
+  right: '右',
+};
+
+export interface ChartModelSeries {
+  name: string;
+  type: ChartSeriesType; // 円グラフ・散布図では描画側が無視する
+  color?: string; // 未指定ならテーマの色を順に使う
+  values: (number | null)[];
+  bases: number[]; // 積み上げたときの下端（積み上げない系列は 0）
+}
+
+export interface ChartScale {
+  min: number;
+  max: number;
+  ticks: number[];
+}
+
+export interface ChartModel {
+  chartType: ChartType;
+  categories: string[];
+  xValues?: number[]; // 散布図の X 値
+  series: ChartModelSeries[];
+  valueScale: ChartScale;
+  xScale?: ChartScale; // 散布図のみ
+  target?: { value: number; label: string };
+  legendPosition: ChartLegendPosition;
+  stacked: boolean;
+}
+
+const TICK_COUNT = 5;
+
+/**
+ * Reads a matrix cell as a chart value. Thousands separators, percent signs and currency marks are ignored.
+ * @param value The cell value.
+ * @returns The number, or null when the cell is empty or not numeric.
+ */
+export const parseChartValue = (value: string | undefined): number | null => {
+  const cleaned = (value ?? '').replace(/[,\s¥$€円%]/g, '');
+  if (cleaned === '' || !/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(cleaned)) return null;
+  return parseFloat(cleaned);
+};
+
+/**
+ * Formats a value for tick labels and data labels.
+ * @param value The value.
+ * @param unit An optional unit appended to the number.
+ * @returns The formatted value.
+ */
+export const formatChartValue = (value: number, unit?: string): string =>
+  `${value.toLocaleString('ja-JP', { maximumFractionDigits: 2 })}${unit ?? ''}`;
+
+const niceStep = (range: number): number => {
+  const rough = range / (TICK_COUNT - 1);
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const fraction = rough / magnitude;
+  return (fraction <= 1 ? 1 : fraction <= 2 ? 2 : fraction <= 2.5 ? 2.5 : fraction <= 5 ? 5 : 10) * magnitude;
+};
+
+/**
+ * Computes an axis scale with round tick values covering the data.
+ * @param dataMin The smallest value to show; not finite when there are no values.
+ * @param dataMax The largest value to show; not finite when there are no values.
+ * @param fixed Axis bounds set by the user; these are used as is, swapped when given in reverse order.
+ * @returns The scale. Without values or bounds it spans 0 to 1.
+ */
+export const computeChartScale = (dataMin: number, dataMax: number, fixed: { min?: number; max?: number } = {}): ChartScale => {
+  // 値が無い（空欄だけの系列など）場合は 0〜1 の軸にする
+  if (!Number.isFinite(dataMin) || !Number.isFinite(dataMax)) [dataMin, dataMax] = [0, 1];
+  // 上限と下限が逆に指定された場合は入れ替え、同じ値の場合は下限のみ使う
+  const bounds = fixed.min !== undefined && fixed.max !== undefined && fixed.max <= fixed.min
+    ? (fixed.max < fixed.min ? { min: fixed.max, max: fixed.min } : { min: fixed.min })
+    : fixed;
+  let low = bounds.min ?? dataMin;
+  let high = bounds.max ?? dataMax;
+  if (high < low) {
+    // 片方だけ指定された境界を越えるデータは、もう一方の境界を合わせて範囲を作る
+    if (bounds.min !== undefined) high = low;
+    else if (bounds.max !== undefined) low = high;
+    else [low, high] = [high, low];
+  }
+  if (high === low) {
+    const padding = low === 0 ? 1 : Math.abs(low) * 0.5;
+    if (bounds.max === undefined) high = low + padding;
+    if (bounds.min === undefined && (low !== 0 || bounds.max !== undefined)) low = low - padding;
+  }
+  const step = niceStep(high - low);
+  const min = bounds.min ?? Math.floor(low / step) * step;
+  const max = bounds.max ?? Math.ceil(high / step) * step;
+  const ticks: number[] = [];
+  for (let tick = Math.ceil(min / step) * step; tick <= max + step * 1e-9; tick += step) {
+    ticks.push(parseFloat(tick.toPrecision(12)));
+  }
+  return { min, max, ticks };
+};
+
+/**
+ * Lists the columns a chart plots when no series were chosen: every number or percent column except the category column.
+ * Falls back to the column after the category column so that free-form matrices still produce a chart.
+ * @param matrixData The matrix.
+ * @param categoryColumn The label column.
+ * @returns The column indexes.
+ */
+export const getDefaultSeriesColumns = (matrixData: MatrixData, categoryColumn: number): number[] => {
+  const types = matrixData.columnTypes?.length === matrixData.headers.length
+    ? matrixData.columnTypes
+    : inferColumnTypes(matrixData.rows, matrixData.headers.length);
+  const numeric = types
+    .map((type, index) => (type === 'number' || type === 'percent') && index !== categoryColumn ? index : -1)
+    .filter(index => index >= 0);
+  if (numeric.length > 0) return numeric;
+  const fallback = categoryColumn === 0 ? 1 : 0;
+  return fallback < matrixData.headers.length ? [fallback] : [];
+};
+
+const targetFrom = (target: NumericalTarget | undefined): ChartModel['target'] => {
+  const value = typeof target?.targetValue === 'number' ? target.targetValue : parseChartValue(target?.targetValue);
+  if (value === null || value === undefined || !target) return undefined;
+  return { value, label: `目標 ${formatChartValue(value, target.unit)}` };
+};
+
+const defaultLegendPosition = (chartType: ChartType, seriesCount: number): ChartLegendPosition =>
+  chartType === 'pie' ? 'right' : seriesCount > 1 ? 'bottom' : 'none';
+
+/**
+ * Builds the drawable model of a chart.
+ * @param spec The chart settings.
+ * @param matrixData The matrix the chart reads.
+ * @param numericalTarget The target of the task that owns the data, used when the target line is on.
+ * @returns The model, or null when there is nothing to plot.
+ */
+export const buildChartModel = (spec: ChartSpec, matrixData: MatrixData | null | undefined, numericalTarget?: NumericalTarget): ChartModel | null => {
+  if (!matrixData || matrixData.headers.length === 0) return null;
+  const categoryColumn = Math.min(Math.max(spec.categoryColumn ?? 0, 0), matrixData.headers.length - 1);
+  const seriesSpecs = (spec.series?.length ? spec.series : getDefaultSeriesColumns(matrixData, categoryColumn).map((column): ChartSeries => ({ column })))
+    .filter(s => s.column >= 0 && s.column < matrixData.headers.length && s.column !== categoryColumn);
+  if (seriesSpecs.length === 0) return null;
+
+  // ラベル（散布図では X 値）が無い行は描かない
+  const isScatter = spec.chartType === 'scatter';
+  const rows = matrixData.rows.filter(row => isScatter ? parseChartValue(row[categoryColumn]) !== null : (row[categoryColumn] ?? '').trim() !== '');
+  if (rows.length === 0) return null;
+
+  const defaultType: ChartSeriesType = spec.chartType === 'line' || spec.chartType === 'area' ? spec.chartType : 'bar';
+  const stacked = spec.grouping === 'stacked' && (spec.chartType === 'bar' || spec.chartType === 'area' || spec.chartType === 'combo');
+  const positiveTops: Record<string, number[]> = {};
+  const negativeTops: Record<string, number[]> = {};
+
+  const series: ChartModelSeries[] = (spec.chartType === 'pie' ? seriesSpecs.slice(0, 1) : seriesSpecs).map(s => {
+    const type: ChartSeriesType = spec.chartType === 'combo' ? s.seriesType ?? 'bar' : defaultType;
+    const canStack = stacked && type !== 'line';
+    // 積み上げた面は空欄を 0 として扱い、面が途切れないようにする
+    const values = rows.map(row => parseChartValue(row[s.column]) ?? (canStack && type === 'area' ? 0 : null));
+    const positive = positiveTops[type] ??= rows.map(() => 0);
+    const negative = negativeTops[type] ??= rows.map(() => 0);
+    const bases = values.map((value, index) => {
+      if (!canStack || value === null) return 0;
+      const tops = value >= 0 ? positive : negative;
+      const base = tops[index];
+      tops[index] += value;
+      return base;
+    });
+    return { name: s.name || matrixData.headers[s.column] || `列 ${s.column + 1}`, type, color: s.color, values, bases };
+  });
+
+  const target = spec.showTargetLine && spec.chartType !== 'pie' ? targetFrom(numericalTarget) : undefined;
+  const extents = series.flatMap(s => s.values.flatMap((value, index) => value === null ? [] : [s.bases[index], s.bases[index] + value]));
+  const includesZero = spec.chartType !== 'scatter' && series.some(s => s.type !== 'line');
+  const valueExtents = [...extents, ...(includesZero ? [0] : []), ...(target ? [target.value] : [])];
+  const valueScale = computeChartScale(Math.min(...valueExtents), Math.max(...valueExtents), spec.yAxis);
+
+  const model: ChartModel = {
+    chartType: spec.chartType,
+    categories: rows.map(row => row[categoryColumn] ?? ''),
+    series,
+    valueScale,
+    target,
+    legendPosition: spec.legendPosition ?? defaultLegendPosition(spec.chartType, series.length),
+    stacked,
+  };
+  if (isScatter) {
+    model.xValues = rows.map(row => parseChartValue(row[categoryColumn]) ?? 0);
+    model.xScale = computeChartScale(Math.min(...model.xValues), Math.max(...model.xValues), spec.xAxis);
+  }
+  return model;
+};
+
+/**
+ * Picks the color of a series (or of a pie slice).
+ * @param model The chart model.
+ * @param index The series index, or the category index for pie charts.
+ * @param palette The theme colors.
+ * @returns A hex color without '#'.
+ */
+export const getChartSeriesColor = (model: ChartModel, index: number, palette: string[]): string =>
+  (model.chartType === 'pie' ? undefined : model.series[index]?.color) || palette[index % palette.length];
+
+/**
+ * Lists the legend entries of a chart.
+ * @param model The chart model.
+ * @param palette The theme colors.
+ * @returns Label and color pairs.
+ */
+export const getChartLegendItems = (model: ChartModel, palette: string[]): { label: string; color: string }[] =>
+  model.chartType === 'pie'
+    ? model.categories.map((label, index) => ({ label, color: getChartSeriesColor(model, index, palette) }))
+    : model.series.map((s, index) => ({ label: s.name, color: getChartSeriesColor(model, index, palette) }));
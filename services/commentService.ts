@@ -0,0 +1,174 @@
+import { supabase } from '../lib/supabase';
+import { CommentMentionNotification, CommentTarget, ProjectComment } from '../types';
+
+// タスク・サブステップ・アクションアイテム・決定事項・スライドへのコメントと、メンションの通知。
+// スレッドの解決・既読・通知の作成はサーバー側の関数とトリガーが行い、日時もサーバーの時刻で記録する
+
+const toProjectComment = (row: any): ProjectComment => ({
+  id: row.id,
+  projectId: row.project_id,
+  taskId: row.task_id,
+  targetType: row.target_type,
+  targetId: row.target_id,
+  parentId: row.parent_id ?? undefined,
+  userId: row.user_id,
+  userName: row.users?.email?.split('@')[0] || 'Unknown',
+  body: row.body,
+  mentions: row.mentions || [],
+  resolved: row.resolved,
+  resolvedBy: row.resolved_by ?? undefined,
+  resolvedAt: row.resolved_at ?? undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const toMentionNotification = (row: any): CommentMentionNotification => ({
+  id: row.id,
+  projectId: row.project_id,
+  projectTitle: row.projects?.title ?? '',
+  commentId: row.comment_id,
+  taskId: row.project_comments?.task_id ?? '',
+  authorName: row.project_comments?.users?.email?.split('@')[0] || 'Unknown',
+  body: row.project_comments?.body ?? '',
+  createdAt: row.created_at,
+});
+
+export class CommentService {
+  // プロジェクト（またはタスク）のコメントを投稿の古い順に取得
+  static async getComments(projectId: string, taskId?: string): Promise<ProjectComment[]> {
+    let query = supabase
+      .from('project_comments')
+      .select('*, users!user_id(email)')
+      .eq('project_id', projectId);
+    if (taskId) query = query.eq('task_id', taskId);
+
+    const { data, error } = await query.order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`コメントの取得に失敗しました: ${error.message}`);
+    }
+
+    return data.map(toProjectComment);
+  }
+
+  // コメントを投稿（parentId を指定するとスレッドへの返信）
+  static async addComment(
+    projectId: string,
+    target: Pick<CommentTarget, 'taskId' | 'type' | 'id'>,
+    comment: { body: string; mentions: string[]; parentId?: string }
+  ): Promise<ProjectComment> {
+    const { data, error } = await supabase
+      .from('project_comments')
+      .insert({
+        project_id: projectId,
+        task_id: target.taskId,
+        target_type: target.type,
+        target_id: target.id,
+        parent_id: comment.parentId || null,
+        body: comment.body,
+        mentions: comment.mentions,
+      })
+      .select('*, users!user_id(email)')
+      .single();
+
+    if (error) {
+      throw new Error(`コメントの投稿に失敗しました: ${error.message}`);
+    }
+
+    return toProjectComment(data);
+  }
+
+  // スレッドを解決済み・未解決にする（解決したユーザーと日時はサーバーが記録する）
+  static async setResolved(threadId: string, resolved: boolean): Promise<ProjectComment> {
+    const { data, error } = await supabase
+      .rpc('set_comment_thread_resolved', { p_comment_id: threadId, p_resolved: resolved })
+      .select('*, users!user_id(email)')
+      .single();
+
+    if (error) {
+      throw new Error(`スレッドの状態の更新に失敗しました: ${error.message}`);
+    }
+
+    return toProjectComment(data);
+  }
+
+  // コメントを削除（スレッドの最初のコメントを削除すると返信も削除される）
+  static async deleteComment(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('project_comments')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`コメントの削除に失敗しました: ${error.message}`);
+    }
+  }
+
+  // 自分がタスクごとにコメントを最後に読んだ日時を取得
+  static async getReadMarkers(projectId: string): Promise<Record<string, string>> {
+    const { data, error } = await supabase
+      .from('project_comment_reads')
+      .select('task_id, last_read_at')
+      .eq('project_id', projectId);
+
+    if (error) {
+      throw new Error(`既読の状態の取得に失敗しました: ${error.message}`);
+    }
+
+    return Object.fromEntries(data.map(row => [row.task_id, row.last_read_at]));
+  }
+
+  // タスクのコメントを既読にする（既読の日時はコメントの投稿日時と同じくサーバーの時刻）
+  static async markTaskRead(projectId: string, taskId: string): Promise<void> {
+    const { error } = await supabase.rpc('mark_task_comments_read', {
+      p_project_id: projectId,
+      p_task_id: taskId,
+    });
+
+    if (error) {
+      throw new Error(`既読の記録に失敗しました: ${error.message}`);
+    }
+  }
+
+  // 自分宛ての未読のメンション通知を新しい順に取得（すべてのプロジェクト）
+  static async getUnreadMentions(): Promise<CommentMentionNotification[]> {
+    const { data, error } = await supabase
+      .from('comment_mention_notifications')
+      .select('id, project_id, comment_id, created_at, projects(title), project_comments(task_id, body, users!user_id(email))')
+      .is('read_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`メンションの通知の取得に失敗しました: ${error.message}`);
+    }
+
+    return data.map(toMentionNotification);
+  }
+
+  // メンションの通知を既読にする
+  static async markMentionsRead(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const { error } = await supabase.rpc('mark_comment_mentions_read', { p_ids: ids });
+
+    if (error) {
+      throw new Error(`通知の既読の記録に失敗しました: ${error.message}`);
+    }
+  }
+
+  // 自分宛てのメンションの通知の追加・既読をリアルタイムで受け取る
+  static subscribeToMentions(userId: string, onChange: () => void) {
+    return supabase
+      .channel(`comment-mentions-${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'comment_mention_notifications',
+          filter: `user_id=eq.${userId}`,
+        },
+        onChange
+      )
+      .subscribe();
+  }
+}
@@ -0,0 +1,142 @@
+import { CommentTargetType, ProjectComment } from '../types';
+
+// コメントのスレッド化、@メンションの解析と入力補完、タスクごとの未読数の集計
+
+export const COMMENT_TARGET_LABELS: Record<CommentTargetType, string> = {
+  task: 'タスク',
+  sub_step: 'サブステップ',
+  action_item: 'アクションアイテム',
+  decision: '決定事項',
+  slide: 'スライド',
+};
+
+export interface CommentThread {
+  root: ProjectComment;
+  replies: ProjectComment[];
+}
+
+export interface UnreadCommentSummary {
+  count: number;
+  mentioned: boolean; // Whether an unread comment mentions the user
+}
+
+export interface MentionCandidate {
+  userId: string;
+  userName?: string;
+}
+
+// メンションに使える文字（メールアドレスのローカル部）
+const MENTION_NAME_CHARS = '[\\w.+-]';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Groups comments into threads.
+ * @param comments Comments in posting order.
+ * @param target Only threads on this target when given.
+ * @returns Threads with their replies in posting order; unresolved threads first, then the oldest first.
+ */
+export const buildThreads = (comments: ProjectComment[], target?: { type: CommentTargetType; id: string }): CommentThread[] => {
+  const roots = comments.filter(comment => !comment.parentId
+    && (!target || (comment.targetType === target.type && comment.targetId === target.id)));
+  return roots
+    .map(root => ({ root, replies: comments.filter(comment => comment.parentId === root.id) }))
+    .sort((a, b) => Number(a.root.resolved) - Number(b.root.resolved) || a.root.createdAt.localeCompare(b.root.createdAt));
+};
+
+/**
+ * Counts the comments on each target, for the badges next to sub-steps, action items and so on.
+ * @param comments The comments of a task.
+ * @param type The kind of target.
+ * @returns The number of comments in unresolved threads per target ID.
+ */
+export const countOpenCommentsByTarget = (comments: ProjectComment[], type: CommentTargetType): Record<string, number> => {
+  const resolvedThreads = new Set(comments.filter(comment => !comment.parentId && comment.resolved).map(comment => comment.id));
+  const counts: Record<string, number> = {};
+  comments
+    .filter(comment => comment.targetType === type && !resolvedThreads.has(comment.parentId || comment.id))
+    .forEach(comment => { counts[comment.targetId] = (counts[comment.targetId] || 0) + 1; });
+  return counts;
+};
+
+/**
+ * Finds the project members mentioned in a comment as "@name".
+ * @param body The comment text.
+ * @param members The project members.
+ * @returns The user IDs of the mentioned members, without duplicates.
+ */
+export const parseMentions = (body: string, members: MentionCandidate[]): string[] => {
+  const mentioned = members.filter(member => member.userName
+    && new RegExp(`(^|\\s)@${escapeRegExp(member.userName)}(?!${MENTION_NAME_CHARS})`, 'u').test(body));
+  return [...new Set(mentioned.map(member => member.userId))];
+};
+
+/**
+ * Splits a comment into plain text and mentions so the mentions can be highlighted.
+ * @param body The comment text.
+ * @param members The project members.
+ * @returns The parts in order; mentions of members carry their user ID.
+ */
+export const splitMentions = (body: string, members: MentionCandidate[]): { text: string; userId?: string }[] => {
+  const pattern = new RegExp(`@${MENTION_NAME_CHARS}+`, 'gu');
+  const parts: { text: string; userId?: string }[] = [];
+  let lastIndex = 0;
+  for (const match of body.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    const member = members.find(candidate => candidate.userName && `@${candidate.userName}` === match[0]);
+    if (!member || (index > 0 && !/\s/.test(body[index - 1]))) continue;
+    if (index > lastIndex) parts.push({ text: body.slice(lastIndex, index) });
+    parts.push({ text: match[0], userId: member.userId });
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < body.length) parts.push({ text: body.slice(lastIndex) });
+  return parts;
+};
+
+/**
+ * Looks for a mention being typed just before the caret, for the autocomplete.
+ * @param text The text being typed.
+ * @param caret The caret position.
+ * @returns Where the "@" is and what has been typed after it, or null when no mention is being typed.
+ */
+export const findMentionQuery = (text: string, caret: number): { start: number; query: string } | null => {
+  const match = new RegExp(`(^|\\s)@(${MENTION_NAME_CHARS}*)$`, 'u').exec(text.slice(0, caret));
+  return match ? { start: caret - match[2].length - 1, query: match[2] } : null;
+};
+
+/**
+ * Replaces the mention being typed with the chosen member.
+ * @param text The text being typed.
+ * @param start Where the "@" is, as returned by findMentionQuery.
+ * @param caret The caret position.
+ * @param userName The chosen member's name.
+ * @returns The new text and the caret position after the inserted mention.
+ */
+export const insertMention = (text: string, start: number, caret: number, userName: string): { text: string; caret: number } => {
+  const rest = text.slice(caret);
+  const mention = /^\s/.test(rest) ? `@${userName}` : `@${userName} `;
+  return { text: text.slice(0, start) + mention + rest, caret: start + mention.length };
+};
+
+/**
+ * Counts the comments each task has that the user has not read yet.
+ * @param comments The project's comments.
+ * @param readMarkers When the user last read each task's comments (ISO timestamp per task ID).
+ * @param currentUserId The user; their own comments never count as unread.
+ * @returns The unread count per task ID; tasks without unread comments are left out.
+ */
+export const countUnreadByTask = (
+  comments: ProjectComment[],
+  readMarkers: Record<string, string>,
+  currentUserId: string | null
+): Record<string, UnreadCommentSummary> => {
+  const unread: Record<string, UnreadCommentSummary> = {};
+  if (!currentUserId) return unread;
+  comments
+    .filter(comment => comment.userId !== currentUserId && (!readMarkers[comment.taskId] || Date.parse(comment.createdAt) > Date.parse(readMarkers[comment.taskId])))
+    .forEach(comment => {
+      const summary = unread[comment.taskId] || { count: 0, mentioned: false };
+      unread[comment.taskId] = { count: summary.count + 1, mentioned: summary.mentioned || comment.mentions.includes(currentUserId) };
+    });
+  return unread;
+};
@@ -0,0 +1,310 @@
+import { ProjectTask, GanttItem, CostLine, CostCategory, CostLineKind, CostApprovalStatus, MatrixData } from '../types';
+import { parseChartValue } from './chartModel';
+
+// 予算とコストの集計、アーンドバリュー（EV）の計算。
+// 計画コストはガントチャートと同じ日程に沿って線形に消化する前提で出来高計画（PV）を求め、
+// 出来高（EV）は完了状況から求めた進捗率、実コスト（AC）は実績のコストから求める
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const CURVE_STEP_DAYS = 7;
+
+export const DEFAULT_CURRENCY = 'JPY';
+
+export const COST_CATEGORY_LABELS: Record<CostCategory, string> = {
+  labor: '人件費',
+  material: '材料費',
+  equipment: '設備費',
+};
+
+export const COST_LINE_KIND_LABELS: Record<CostLineKind, string> = {
+  planned: '計画',
+  actual: '実績',
+};
+
+export const COST_APPROVAL_STATUS_LABELS: Record<CostApprovalStatus, string> = {
+  draft: '下書き',
+  pending: '承認待ち',
+  approved: '承認済み',
+  rejected: '却下',
+};
+
+export interface CostLineEntry {
+  line: CostLine;
+  taskId: string;
+  taskTitle: string;
+  subStepText?: string; // サブステップのコストの場合
+}
+
+export interface EarnedValueMetrics {
+  bac: number; // 完成時総予算（計画コストの合計）
+  pv: number;
+  ev: number;
+  ac: number;
+  cv: number; // EV - AC。マイナスは予算超過
+  sv: number; // EV - PV。マイナスは遅れ
+  cpi: number | null; // EV / AC。実コストがなければ null
+  spi: number | null; // EV / PV。出来高計画がなければ null
+  eac: number | null; // 完成時総コスト見積もり（BAC / CPI）
+  vac: number | null; // BAC - EAC
+}
+
+export interface TaskEarnedValue extends EarnedValueMetrics {
+  taskId: string;
+  title: string;
+}
+
+export interface CostCategoryTotal {
+  category: CostCategory;
+  planned: number;
+  actual: number;
+}
+
+export interface EarnedValuePoint {
+  date: string; // YYYY-MM-DD
+  pv: number; // その日までの累計
+  ac: number | null; // 基準日より後は null
+}
+
+export interface EarnedValueSummary {
+  currency: string;
+  statusDate: string;
+  project: EarnedValueMetrics;
+  tasks: TaskEarnedValue[]; // 計画・実績のコストがあるタスク（計画の順）
+  categories: CostCategoryTotal[];
+  awaitingApprovalCount: number; // 下書き・承認待ちの行（集計には含まれる）
+  curve: EarnedValuePoint[];
+}
+
+const toEpochDay = (date: string): number => Math.round(Date.parse(`${date.slice(0, 10)}T00:00:00Z`) / MS_PER_DAY);
+
+const fromEpochDay = (day: number): string => new Date(day * MS_PER_DAY).toISOString().slice(0, 10);
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+const roundRatio = (ratio: number) => Math.round(ratio * 100) / 100;
+
+/**
+ * Tells whether a cost line counts towards the budget and actuals. Only rejected lines are left out.
+ * @param line The cost line.
+ * @returns False for rejected lines.
+ */
+export const isCountedCostLine = (line: CostLine): boolean => line.approvalStatus !== 'rejected';
+
+/**
+ * Lists the cost lines of every task with the task and sub-step they belong to.
+ * @param tasks The project's tasks.
+ * @returns The cost lines in plan order.
+ */
+export const collectCostLines = (tasks: ProjectTask[]): CostLineEntry[] =>
+  tasks.flatMap(task => (task.extendedDetails?.costLines || []).map(line => ({
+    line,
+    taskId: task.id,
+    taskTitle: task.title,
+    subStepText: line.subStepId ? task.extendedDetails?.subSteps.find(subStep => subStep.id === line.subStepId)?.text : undefined,
+  })));
+
+/**
+ * Lists the currencies used by the project's cost lines.
+ * @param tasks The project's tasks.
+ * @returns Currency codes, the most used first.
+ */
+export const getCostCurrencies = (tasks: ProjectTask[]): string[] => {
+  const counts = new Map<string, number>();
+  collectCostLines(tasks).forEach(({ line }) => counts.set(line.currency, (counts.get(line.currency) ?? 0) + 1));
+  return [...counts].sort((a, b) => b[1] - a[1]).map(([currency]) => currency);
+};
+
+/**
+ * Formats an amount in its currency, e.g. "￥120,000".
+ * @param amount The amount.
+ * @param currency The ISO 4217 currency code.
+ * @returns The formatted amount. Unknown currency codes are appended to the number instead.
+ */
+export const formatCost = (amount: number, currency: string): string => {
+  try {
+    return new Intl.NumberFormat('ja-JP', { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toLocaleString('ja-JP', { maximumFractionDigits: 2 })} ${currency}`;
+  }
+};
+
+const computeMetrics = (bac: number, pv: number, ev: number, ac: number): EarnedValueMetrics => {
+  const cpi = ac > 0 ? ev / ac : null;
+  const spi = pv > 0 ? ev / pv : null;
+  const eac = cpi ? bac / cpi : null;
+  return {
+    bac: roundAmount(bac),
+    pv: roundAmount(pv),
+    ev: roundAmount(ev),
+    ac: roundAmount(ac),
+    cv: roundAmount(ev - ac),
+    sv: roundAmount(ev - pv),
+    cpi: cpi === null ? null : roundRatio(cpi),
+    spi: spi === null ? null : roundRatio(spi),
+    eac: eac === null ? null : roundAmount(eac),
+    vac: eac === null ? null : roundAmount(bac - eac),
+  };
+};
+
+// 日程の開始日から終了日まで（両端を含む）のうち、その日までに消化する割合
+const plannedFraction = (item: GanttItem, day: number): number => {
+  const start = toEpochDay(item.start);
+  const end = toEpochDay(item.end);
+  return Math.min(Math.max((day - start + 1) / (end - start + 1), 0), 1);
+};
+
+/**
+ * Computes earned-value metrics from the cost lines, the scheduled plan and the completion of the work.
+ * A planned cost is spread evenly over the scheduled days of its sub-step (or task) for the planned value,
+ * and earned in proportion to that item's progress. Actual costs dated after the status date are left out.
+ * @param tasks The project's tasks with their cost lines.
+ * @param items The Gantt items from `scheduleProject`.
+ * @param options The currency to report in (lines in other currencies are left out) and the status date (YYYY-MM-DD).
+ * @returns Project and per-task metrics, totals per category and the cumulative cost curve.
+ */
+export const computeEarnedValue = (
+  tasks: ProjectTask[],
+  items: GanttItem[],
+  options: { currency: string; statusDate: string }
+): EarnedValueSummary => {
+  const { currency, statusDate } = options;
+  const statusDay = toEpochDay(statusDate);
+  const itemMap = new Map(items.map(item => [item.id, item]));
+  const entries = collectCostLines(tasks).filter(({ line }) => line.currency === currency && isCountedCostLine(line));
+  const scheduleOf = ({ line, taskId }: CostLineEntry) => (line.subStepId && itemMap.get(line.subStepId)) || itemMap.get(taskId);
+
+  const planned = entries.filter(entry => entry.line.kind === 'planned');
+  const actual = entries.filter(entry => entry.line.kind === 'actual');
+  const isActualToDate = ({ line }: CostLineEntry) => !line.date || toEpochDay(line.date) <= statusDay;
+
+  const metricsFor = (planned: CostLineEntry[], actual: CostLineEntry[]) => {
+    let bac = 0, pv = 0, ev = 0;
+    planned.forEach(entry => {
+      const item = scheduleOf(entry);
+      bac += entry.line.amount;
+      pv += entry.line.amount * (item ? plannedFraction(item, statusDay) : 1);
+      ev += entry.line.amount * ((item?.progress ?? 0) / 100);
+    });
+    const ac = actual.filter(isActualToDate).reduce((sum, { line }) => sum + line.amount, 0);
+    return computeMetrics(bac, pv, ev, ac);
+  };
+
+  const taskMetrics = tasks
+    .filter(task => entries.some(entry => entry.taskId === task.id))
+    .map(task => ({
+      taskId: task.id,
+      title: task.title,
+      ...metricsFor(planned.filter(entry => entry.taskId === task.id), actual.filter(entry => entry.taskId === task.id)),
+    }));
+
+  const categories = (Object.keys(COST_CATEGORY_LABELS) as CostCategory[]).map(category => ({
+    category,
+    planned: roundAmount(planned.filter(({ line }) => line.category === category).reduce((sum, { line }) => sum + line.amount, 0)),
+    actual: roundAmount(actual.filter(entry => entry.line.category === category && isActualToDate(entry)).reduce((sum, { line }) => sum + line.amount, 0)),
+  }));
+
+  // 累計の出来高計画と実コストの推移（週ごと）
+  const plannedItems = planned.map(entry => ({ amount: entry.line.amount, item: scheduleOf(entry) }));
+  const days = [
+    ...plannedItems.flatMap(({ item }) => (item ? [toEpochDay(item.start), toEpochDay(item.end)] : [])),
+    ...actual.flatMap(({ line }) => (line.date ? [toEpochDay(line.date)] : [])),
+  ];
+  const curve: EarnedValuePoint[] = [];
+  if (days.length > 0) {
+    const first = Math.min(...days);
+    const last = Math.max(...days);
+    const curveDays: number[] = [];
+    for (let day = first; day < last; day += CURVE_STEP_DAYS) curveDays.push(day);
+    curveDays.push(last);
+    curveDays.forEach(day => curve.push({
+      date: fromEpochDay(day),
+      pv: roundAmount(plannedItems.reduce((sum, { amount, item }) => sum + amount * (item ? plannedFraction(item, day) : 1), 0)),
+      ac: day > statusDay ? null : roundAmount(actual
+        .filter(({ line }) => !line.date || toEpochDay(line.date) <= day)
+        .reduce((sum, { line }) => sum + line.amount, 0)),
+    }));
+  }
+
+  return {
+    currency,
+    statusDate,
+    project: metricsFor(planned, actual),
+    tasks: taskMetrics,
+    categories,
+    awaitingApprovalCount: entries.filter(({ line }) => line.approvalStatus === 'draft' || line.approvalStatus === 'pending').length,
+    curve,
+  };
+};
+
+const AMOUNT_HEADER = /金額|費用|コスト|予算|合計|小計|cost|amount|total|budget/i;
+const UNIT_PRICE_HEADER = /単価|価格|price|rate/i;
+const QUANTITY_HEADER = /数量|個数|人数|工数|時間|qty|quantity|hours/i;
+const CATEGORY_HEADER = /種別|区分|分類|カテゴリ|category|type/i;
+// 合計・小計の行。明細と二重に数えないよう取り込まない
+const TOTAL_ROW_LABEL = /^(総?合計|小計|総計|(grand\s*|sub-?\s*)?total)/i;
+
+const CATEGORY_KEYWORDS: { category: CostCategory; pattern: RegExp }[] = [
+  { category: 'labor', pattern: /人件|人員|作業|労務|外注|labor|labour|staff/i },
+  { category: 'equipment', pattern: /設備|機材|機器|装置|備品|equipment|machine|tool/i },
+  { category: 'material', pattern: /材料|資材|部品|消耗|material|supply|parts/i },
+];
+
+const guessCategory = (text: string): CostCategory =>
+  CATEGORY_KEYWORDS.find(({ pattern }) => pattern.test(text))?.category ?? 'material';
+
+/**
+ * Converts the rows of a task's resource table into planned cost lines.
+ * The amount is read from an amount column (金額, 費用, cost ...), from unit price × quantity,
+ * or from the first numeric column; rows without an amount and total or subtotal rows (合計, 小計, total ...) are skipped.
+ * @param matrix The task's resource table.
+ * @param generateUniqueId Creates IDs for the new lines.
+ * @param currency The currency of the amounts.
+ * @returns Draft planned cost lines, or an empty array when no amount column is found.
+ */
+export const costLinesFromResourceMatrix = (
+  matrix: MatrixData,
+  generateUniqueId: (prefix: string) => string,
+  currency: string = DEFAULT_CURRENCY
+): CostLine[] => {
+  const findColumn = (pattern: RegExp) => matrix.headers.findIndex(header => pattern.test(header));
+  const isNumericColumn = (column: number) =>
+    matrix.rows.some(row => parseChartValue(row[column]) !== null)
+    && matrix.rows.every(row => !row[column]?.trim() || parseChartValue(row[column]) !== null);
+
+  const amountColumn = findColumn(AMOUNT_HEADER);
+  const unitPriceColumn = findColumn(UNIT_PRICE_HEADER);
+  const quantityColumn = findColumn(QUANTITY_HEADER);
+  const firstNumericColumn = matrix.headers.findIndex((_, column) => isNumericColumn(column));
+  const categoryColumn = findColumn(CATEGORY_HEADER);
+  const descriptionColumn = matrix.headers.findIndex((_, column) =>
+    column !== amountColumn && column !== categoryColumn && !isNumericColumn(column));
+
+  const amountOf = (row: string[]): number | null => {
+    if (amountColumn >= 0) return parseChartValue(row[amountColumn]);
+    if (unitPriceColumn >= 0 && quantityColumn >= 0) {
+      const unitPrice = parseChartValue(row[unitPriceColumn]);
+      const quantity = parseChartValue(row[quantityColumn]);
+      return unitPrice !== null && quantity !== null ? unitPrice * quantity : null;
+    }
+    return firstNumericColumn >= 0 ? parseChartValue(row[firstNumericColumn]) : null;
+  };
+
+  const isTotalRow = (row: string[]) =>
+    row.some(cell => parseChartValue(cell) === null && TOTAL_ROW_LABEL.test(cell?.trim() ?? ''));
+
+  return matrix.rows.flatMap(row => {
+    const amount = amountOf(row);
+    if (amount === null || amount < 0 || isTotalRow(row)) return [];
+    const description = descriptionColumn >= 0 ? row[descriptionColumn]?.trim() ?? '' : '';
+    const categoryText = categoryColumn >= 0 ? row[categoryColumn] ?? '' : description;
+    return [{
+      id: generateUniqueId('cost'),
+      kind: 'planned' as const,
+      category: guessCategory(categoryText),
+      description,
+      amount,
+      currency,
+      approvalStatus: 'draft' as const,
+    }];
+  });
+};
@@ -0,0 +1,10 @@
+// 日付の共通処理
+
+/**
+ * Returns today's date in the user's time zone, the form used for due dates, entry dates and schedule start dates.
+ * @returns Today as YYYY-MM-DD.
+ */
+export const localToday = (): string => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
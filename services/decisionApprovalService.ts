@@ -0,0 +1,90 @@
+import { supabase } from '../lib/supabase';
+import { DecisionApproval } from '../types';
+import { toDecisionApproval } from './projectRows';
+
+// 決定事項の承認者と回答。プロジェクトの保存（save_project_changes）には含めず、このテーブルに直接書き込む。
+// 回答は respond_to_decision 関数で本人の行にのみ記録され、回答日時もサーバーが設定する
+
+export class DecisionApprovalService {
+  // 承認者を追加（未回答の状態で追加される）
+  static async addApprover(
+    projectId: string,
+    decisionId: string,
+    approver: Pick<DecisionApproval, 'userId' | 'userName'>
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('project_decision_approvals')
+      .insert({
+        project_id: projectId,
+        decision_id: decisionId,
+        user_id: approver.userId,
+        user_name: approver.userName,
+      });
+
+    if (error) {
+      throw new Error(`承認者の追加に失敗しました: ${error.message}`);
+    }
+  }
+
+  // 承認者を外す
+  static async removeApprover(projectId: string, decisionId: string, userId: string): Promise<void> {
+    const { error } = await supabase
+      .from('project_decision_approvals')
+      .delete()
+      .eq('project_id', projectId)
+      .eq('decision_id', decisionId)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new Error(`承認者の削除に失敗しました: ${error.message}`);
+    }
+  }
+
+  // ログイン中のユーザーとして承認・却下を記録し、記録された回答を返す
+  static async respond(
+    projectId: string,
+    decisionId: string,
+    status: Exclude<DecisionApproval['status'], 'pending'>,
+    comment: string
+  ): Promise<DecisionApproval> {
+    const { data, error } = await supabase.rpc('respond_to_decision', {
+      p_project_id: projectId,
+      p_decision_id: decisionId,
+      p_status: status,
+      p_comment: comment,
+    });
+
+    if (error) {
+      throw new Error(`承認の回答に失敗しました: ${error.message}`);
+    }
+
+    return toDecisionApproval(data);
+  }
+
+  /**
+   * Adds and removes approvers so that the stored approvers match the edited decisions.
+   * Responses are never written here; a newly added approver starts as pending.
+   * @param projectId The project.
+   * @param before The decisions as they were before editing.
+   * @param after The edited decisions. Decisions missing here lose all their approvers.
+   */
+  static async syncApprovers(
+    projectId: string,
+    before: { id: string; approvals?: DecisionApproval[] }[],
+    after: { id: string; approvals?: DecisionApproval[] }[]
+  ): Promise<void> {
+    const userIdsOf = (decisions: typeof before) =>
+      new Map(decisions.map(decision => [decision.id, new Set((decision.approvals || []).map(approval => approval.userId))]));
+    const beforeIds = userIdsOf(before);
+    const afterIds = userIdsOf(after);
+
+    const removals = before.flatMap(decision => (decision.approvals || [])
+      .filter(approval => !afterIds.get(decision.id)?.has(approval.userId))
+      .map(approval => DecisionApprovalService.removeApprover(projectId, decision.id, approval.userId)));
+    const additions = after.flatMap(decision => (decision.approvals || [])
+      .filter(approval => !beforeIds.get(decision.id)?.has(approval.userId))
+      .map(approval => DecisionApprovalService.addApprover(projectId, decision.id, approval)));
+
+    await Promise.all([...removals, ...additions]);
+  }
+}
@@ -0,0 +1,171 @@
+import { Decision, DecisionApproval, DecisionApprovalStatus, DecisionStatus, GeneratedDecision, ProjectTask } from '../types';
+
+// 決定事項の承認フロー、AI の提案の取り込み、プロジェクト全体の決定ログの集計
+
+export type DecisionApprovalState = 'not_required' | 'pending' | 'approved' | 'rejected';
+
+export const DECISION_STATUS_LABELS: Record<DecisionStatus, string> = {
+  undecided: '未決定',
+  decided: '決定済み',
+};
+
+export const DECISION_APPROVAL_STATUS_LABELS: Record<DecisionApprovalStatus, string> = {
+  pending: '未回答',
+  approved: '承認',
+  rejected: '却下',
+};
+
+export const DECISION_APPROVAL_STATE_LABELS: Record<DecisionApprovalState, string> = {
+  not_required: '承認不要',
+  pending: '承認待ち',
+  approved: '承認済み',
+  rejected: '却下',
+};
+
+export interface DecisionLogEntry {
+  task: ProjectTask;
+  decision: Decision;
+  approvalState: DecisionApprovalState;
+}
+
+/**
+ * Summarizes the approvers' responses to a decision.
+ * @param decision The decision.
+ * @returns Rejected if anyone rejected it, approved once everyone approved, pending otherwise; not_required without approvers.
+ */
+export const getDecisionApprovalState = (decision: Decision): DecisionApprovalState => {
+  const approvals = decision.approvals || [];
+  if (approvals.length === 0) return 'not_required';
+  if (approvals.some(approval => approval.status === 'rejected')) return 'rejected';
+  return approvals.every(approval => approval.status === 'approved') ? 'approved' : 'pending';
+};
+
+// 結論に関わる項目。これが変わったら承認をやり直す
+const OUTCOME_FIELDS = ['question', 'decision', 'status', 'chosenOptionId'] as const;
+
+const resetApprovals = (approvals: DecisionApproval[] | undefined): DecisionApproval[] | undefined =>
+  approvals?.map(({ userId, userName }) => ({ userId, userName, status: 'pending' as const }));
+
+/**
+ * Applies an edit to a decision; approvals already given are asked again when the outcome changes.
+ * @param decision The decision before the edit.
+ * @param updates The edited fields.
+ * @returns The updated decision.
+ */
+export const updateDecision = (decision: Decision, updates: Partial<Decision>): Decision => {
+  const next = { ...decision, ...updates };
+  const outcomeChanged = OUTCOME_FIELDS.some(key => key in updates && (updates[key] || undefined) !== (decision[key] || undefined));
+  const hasResponses = (decision.approvals || []).some(approval => approval.status !== 'pending');
+  return outcomeChanged && hasResponses && !('approvals' in updates) ? { ...next, approvals: resetApprovals(decision.approvals) } : next;
+};
+
+/**
+ * Records an approver's response.
+ * @param decision The decision.
+ * @param userId The approver.
+ * @param status Approved or rejected.
+ * @param comment The approver's comment, if any.
+ * @param respondedAt When the response was given (ISO timestamp).
+ * @returns The updated decision; unchanged if the user is not one of its approvers.
+ */
+export const respondToDecision = (
+  decision: Decision,
+  userId: string,
+  status: Exclude<DecisionApprovalStatus, 'pending'>,
+  comment: string,
+  respondedAt: string
+): Decision => ({
+  ...decision,
+  approvals: decision.approvals?.map(approval => (approval.userId === userId
+    ? { ...approval, status, comment: comment.trim() || undefined, respondedAt }
+    : approval)),
+});
+
+/**
+ * Accepts the AI's proposal for a decision.
+ * @param decision The decision with a pending proposal.
+ * @returns The decision with the proposed question and outcome applied.
+ */
+export const acceptDecisionProposal = (decision: Decision): Decision => {
+  const proposal = decision.aiProposal;
+  if (!proposal) return decision;
+  const { aiProposal, ...rest } = decision;
+  return updateDecision(rest, {
+    question: proposal.question,
+    decision: proposal.decision || undefined,
+    reasoning: proposal.reasoning || undefined,
+    date: proposal.status === 'decided' ? proposal.date || undefined : undefined,
+    status: proposal.status,
+  });
+};
+
+/**
+ * Dismisses the AI's proposal for a decision.
+ * @param decision The decision with a pending proposal.
+ * @returns The decision without the proposal, or null when the AI had proposed the decision itself.
+ */
+export const rejectDecisionProposal = (decision: Decision): Decision | null => {
+  if (decision.aiProposal?.isNew) return null;
+  const { aiProposal, ...rest } = decision;
+  return rest;
+};
+
+const isSameOutcome = (decision: Decision, generated: GeneratedDecision) =>
+  (['question', 'decision', 'reasoning', 'date', 'status'] as const).every(key => (decision[key] || '') === (generated[key] || ''));
+
+/**
+ * Turns the AI's updated decision list into proposals, leaving the decisions themselves unchanged.
+ * @param decisions The task's decisions.
+ * @param generated The list returned by generateDecisions; new items have the ID "NEW".
+ * @param generateUniqueId Creates IDs for new decisions.
+ * @param proposedAt When the proposals were made (ISO timestamp).
+ * @returns The decisions, with changed ones carrying a proposal and new ones appended as proposals.
+ */
+export const mergeGeneratedDecisions = (
+  decisions: Decision[],
+  generated: GeneratedDecision[],
+  generateUniqueId: (prefix: string) => string,
+  proposedAt: string
+): Decision[] => {
+  const toProposal = (item: GeneratedDecision, isNew: boolean) => ({
+    question: item.question,
+    decision: item.decision || undefined,
+    reasoning: item.reasoning || undefined,
+    date: item.date || undefined,
+    status: item.status,
+    isNew,
+    proposedAt,
+  });
+
+  const updates = new Map(generated.filter(item => decisions.some(decision => decision.id === item.id)).map(item => [item.id, item]));
+  const merged = decisions.map(decision => {
+    const item = updates.get(decision.id);
+    return item && !isSameOutcome(decision, item) ? { ...decision, aiProposal: toProposal(item, false) } : decision;
+  });
+  const added: Decision[] = generated
+    .filter(item => !updates.has(item.id))
+    .map(item => ({ id: generateUniqueId('dec_ai'), question: item.question, status: 'undecided', aiProposal: toProposal(item, true) }));
+  return [...merged, ...added];
+};
+
+/**
+ * Lists every decision of the project for the decision log.
+ * @param tasks The project's tasks.
+ * @returns The decisions with their task, undecided and awaiting approval first, then by date.
+ */
+export const collectDecisionLog = (tasks: ProjectTask[]): DecisionLogEntry[] => {
+  const priority = (entry: DecisionLogEntry) =>
+    entry.decision.aiProposal ? 0 : entry.approvalState === 'pending' || entry.approvalState === 'rejected' ? 1 : entry.decision.status === 'undecided' ? 2 : 3;
+  return tasks
+    .flatMap(task => (task.extendedDetails?.decisions || []).map(decision => ({ task, decision, approvalState: getDecisionApprovalState(decision) })))
+    .sort((a, b) => priority(a) - priority(b) || (b.decision.date || '').localeCompare(a.decision.date || ''));
+};
+
+/**
+ * Tells whether a decision is waiting for the given user's approval.
+ * @param decision The decision.
+ * @param userId The user.
+ * @returns True if the user is an approver who has not responded yet.
+ */
+export const isAwaitingApprovalFrom = (decision: Decision, userId: string | null): boolean =>
+  !!userId && (decision.approvals || []).some(approval => approval.userId === userId && approval.status === 'pending');
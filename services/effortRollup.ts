@@ -0,0 +1,118 @@
+import { ProjectTask, SubStep, ActionItem, TimeEntry, EffortComparison, ProjectEffortSummary } from '../types';
+
+// 作業時間の見積もりと実績（タイマー・手入力の記録）の集計。
+// 見積もりはアクションアイテム › サブステップ › タスクの順に積み上げ、上位で直接入力した見積もりはそれを優先する
+
+/**
+ * Tells whether a time entry has finished, i.e. it was entered by hand or its timer was stopped.
+ * @param entry The time entry.
+ * @returns False while the entry's timer is still running.
+ */
+export const isTimeEntryFinished = (entry: TimeEntry): boolean => !entry.startedAt || !!entry.endedAt;
+
+const roundHours = (hours: number) => Math.round(hours * 100) / 100;
+
+const sumEstimates = (estimates: (number | null)[]): number | null =>
+  estimates.some(estimate => estimate !== null) ? estimates.reduce<number>((sum, estimate) => sum + (estimate ?? 0), 0) : null;
+
+/**
+ * Totals the finished time entries per action item.
+ * @param entries The project's time entries.
+ * @returns Logged hours keyed by action item ID.
+ */
+export const getActualHoursByActionItem = (entries: TimeEntry[]): Map<string, number> => {
+  const hours = new Map<string, number>();
+  entries.filter(isTimeEntryFinished).forEach(entry => {
+    hours.set(entry.actionItemId, (hours.get(entry.actionItemId) ?? 0) + entry.minutes / 60);
+  });
+  return hours;
+};
+
+const actionItemEffort = (item: ActionItem, actuals: Map<string, number>): EffortComparison => ({
+  estimatedHours: item.estimatedHours ?? null,
+  actualHours: actuals.get(item.id) ?? 0,
+});
+
+const subStepEffort = (subStep: SubStep, actuals: Map<string, number>): EffortComparison => {
+  const items = (subStep.actionItems || []).map(item => actionItemEffort(item, actuals));
+  return {
+    estimatedHours: subStep.estimatedHours ?? sumEstimates(items.map(item => item.estimatedHours)),
+    actualHours: items.reduce((sum, item) => sum + item.actualHours, 0),
+  };
+};
+
+const taskEffort = (task: ProjectTask, actuals: Map<string, number>): EffortComparison => {
+  const subSteps = (task.extendedDetails?.subSteps || []).map(subStep => subStepEffort(subStep, actuals));
+  return {
+    estimatedHours: task.extendedDetails?.estimatedHours ?? sumEstimates(subSteps.map(subStep => subStep.estimatedHours)),
+    actualHours: subSteps.reduce((sum, subStep) => sum + subStep.actualHours, 0),
+  };
+};
+
+/**
+ * Rolls up estimated and logged hours for every task, sub-step and action item.
+ * @param tasks The project's tasks.
+ * @param entries The project's time entries. Entries whose timer is still running are not counted.
+ * @returns Estimate and actual hours keyed by task, sub-step or action item ID.
+ */
+export const rollupEffort = (tasks: ProjectTask[], entries: TimeEntry[]): Map<string, EffortComparison> => {
+  const actuals = getActualHoursByActionItem(entries);
+  const rollup = new Map<string, EffortComparison>();
+  tasks.forEach(task => {
+    rollup.set(task.id, taskEffort(task, actuals));
+    task.extendedDetails?.subSteps.forEach(subStep => {
+      rollup.set(subStep.id, subStepEffort(subStep, actuals));
+      subStep.actionItems?.forEach(item => rollup.set(item.id, actionItemEffort(item, actuals)));
+    });
+  });
+  return rollup;
+};
+
+/**
+ * Summarizes estimate against actual hours for the whole project, per task and per member.
+ * Time logged on action items that are no longer in the plan is left out.
+ * @param tasks The project's tasks.
+ * @param entries The project's time entries.
+ * @returns Project totals, the tasks with an estimate or logged time (largest overrun first) and hours per member.
+ */
+export const summarizeProjectEffort = (tasks: ProjectTask[], entries: TimeEntry[]): ProjectEffortSummary => {
+  const actuals = getActualHoursByActionItem(entries);
+  const taskSummaries = tasks
+    .map(task => ({ taskId: task.id, title: task.title, ...taskEffort(task, actuals) }))
+    .filter(task => task.estimatedHours !== null || task.actualHours > 0)
+    .map(task => ({ ...task, actualHours: roundHours(task.actualHours) }))
+    .sort((a, b) => (b.actualHours - (b.estimatedHours ?? 0)) - (a.actualHours - (a.estimatedHours ?? 0)));
+
+  const planItemIds = new Set(tasks.flatMap(task => (task.extendedDetails?.subSteps || []).flatMap(subStep => (subStep.actionItems || []).map(item => item.id))));
+  const members = new Map<string, { userId: string; userName: string; actualHours: number }>();
+  entries.filter(entry => isTimeEntryFinished(entry) && planItemIds.has(entry.actionItemId)).forEach(entry => {
+    const member = members.get(entry.userId) ?? { userId: entry.userId, userName: entry.userName || 'Unknown', actualHours: 0 };
+    member.actualHours += entry.minutes / 60;
+    members.set(entry.userId, member);
+  });
+
+  return {
+    estimatedHours: sumEstimates(tasks.map(task => taskEffort(task, actuals).estimatedHours)),
+    actualHours: roundHours(taskSummaries.reduce((sum, task) => sum + task.actualHours, 0)),
+    tasks: taskSummaries,
+    members: [...members.values()]
+      .map(member => ({ ...member, actualHours: roundHours(member.actualHours) }))
+      .sort((a, b) => b.actualHours - a.actualHours),
+  };
+};
+
+/**
+ * Formats hours for display, e.g. "12.5時間".
+ * @param hours The hours, or null when there is no estimate.
+ * @returns The formatted hours, or "—" when null.
+ */
+export const formatHours = (hours: number | null): string =>
+  hours === null ? '—' : `${Math.round(hours * 10) / 10}時間`;
+
+/**
+ * Describes how far the logged time is from the estimate.
+ * @param effort The estimate and actual hours.
+ * @returns The actual hours as a percentage of the estimate, or null without an estimate.
+ */
+export const getEffortRatio = (effort: EffortComparison): number | null =>
+  effort.estimatedHours ? Math.round((effort.actualHours / effort.estimatedHours) * 100) : null;
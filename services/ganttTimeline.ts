@@ -0,0 +1,112 @@
+import { GanttItem } from '../types';
+
+// ガントチャートの時間軸。画面表示と PDF 出力で同じ目盛り・色になるよう共通化している
+
+export type GanttZoomLevel = 'day' | 'week' | 'month';
+
+// 1日あたりの幅（px）
+export const GANTT_DAY_WIDTHS: Record<GanttZoomLevel, number> = { day: 40, week: 15, month: 5 };
+
+export const GANTT_TASK_COLORS = ['#3B82F6', '#F59E0B', '#10B981', '#EF4444', '#6B7280', '#6366F1', '#EC4899', '#8B5CF6'];
+export const GANTT_CRITICAL_COLOR = '#DC2626';
+export const GANTT_BASELINE_COLOR = '#94A3B8';
+export const GANTT_FALLBACK_COLOR = '#9CA3AF';
+
+export interface TimelineHeader {
+  label: string;
+  secondaryLabel?: string;
+  width: number; // px
+}
+
+const getWeekNumber = (date: Date) => {
+  const d = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+  d.setUTCDate(d.getUTCDate() + 4 - (d.getUTCDay() || 7));
+  const yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
+  return Math.ceil((((d.getTime() - yearStart.getTime()) / 86400000) + 1) / 7);
+};
+
+/**
+ * Builds the header cells of the timeline: one per day, per ISO week (starting on Monday) or per month.
+ * @param timelineStart The first day shown.
+ * @param totalDays The number of days shown.
+ * @param zoomLevel The zoom level.
+ * @returns The header cells in order, with widths in px.
+ */
+export const buildTimelineHeaders = (timelineStart: Date, totalDays: number, zoomLevel: GanttZoomLevel): TimelineHeader[] => {
+  const dayWidth = GANTT_DAY_WIDTHS[zoomLevel];
+  const headers: TimelineHeader[] = [];
+  const currentDate = new Date(timelineStart);
+
+  if (zoomLevel === 'day') {
+    for (let i = 0; i < totalDays; i++) {
+      headers.push({
+        secondaryLabel: currentDate.toLocaleDateString('ja-JP', { weekday: 'short' }),
+        label: String(currentDate.getDate()),
+        width: dayWidth,
+      });
+      currentDate.setDate(currentDate.getDate() + 1);
+    }
+  } else if (zoomLevel === 'week') {
+    for (let i = 0; i < totalDays; i++) {
+      if (currentDate.getDay() === 1 || headers.length === 0) { // Monday or first day
+        headers.push({
+          label: `W${getWeekNumber(currentDate)}`,
+          secondaryLabel: currentDate.toLocaleDateString('ja-JP', { month: 'short' }),
+          width: 0,
+        });
+      }
+      headers[headers.length - 1].width += dayWidth;
+      currentDate.setDate(currentDate.getDate() + 1);
+    }
+  } else {
+    let currentMonth = -1;
+    for (let i = 0; i < totalDays; i++) {
+      const month = currentDate.getMonth();
+      if (month !== currentMonth) {
+        currentMonth = month;
+        headers.push({
+          label: currentDate.toLocaleDateString('ja-JP', { month: 'long', year: 'numeric' }),
+          width: 0,
+        });
+      }
+      headers[headers.length - 1].width += dayWidth;
+      currentDate.setDate(currentDate.getDate() + 1);
+    }
+  }
+  return headers;
+};
+
+/**
+ * Finds the top-level task an item belongs to by following its parents.
+ * @param item The Gantt item.
+ * @param dataMap All items by id.
+ * @returns The task id, or null when the chain is broken.
+ */
+export const getGanttRootTaskId = (item: GanttItem, dataMap: Map<string, GanttItem>): string | null => {
+  if (item.type === 'task') return item.id;
+  let current = item;
+  while (current.parentId) {
+    const parent = dataMap.get(current.parentId);
+    if (!parent) return null;
+    if (parent.type === 'task') return parent.id;
+    current = parent;
+  }
+  return null;
+};
+
+/**
+ * Assigns each item the color of its top-level task (tasks take the palette colors in order).
+ * @param items The Gantt items.
+ * @returns A function returning the color of an item.
+ */
+export const createGanttColorResolver = (items: GanttItem[]) => {
+  const dataMap = new Map(items.map(item => [item.id, item]));
+  const taskColors = new Map<string, string>();
+  items.filter(item => item.type === 'task').forEach((task, index) => {
+    taskColors.set(task.id, GANTT_TASK_COLORS[index % GANTT_TASK_COLORS.length]);
+  });
+  return (item: GanttItem): string => {
+    const rootId = getGanttRootTaskId(item, dataMap);
+    return rootId ? taskColors.get(rootId) || GANTT_FALLBACK_COLOR : GANTT_FALLBACK_COLOR;
+  };
+};
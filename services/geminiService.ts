@@ -1,23 +1,36 @@
 
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
-import { ProjectTask, SubStep, SlideDeck, ActionItem, TextboxElement, Slide, ProjectHealthReport, GanttItem, FlowchartElement, Decision } from '../types';
-import { GEMINI_MODEL_TEXT } from '../constants';
-
-let ai: GoogleGenAI | null = null;
-
-export const initializeGemini = (apiKey: string) => {
-  if (!apiKey) {
-    ai = null;
+import { ProjectTask, SubStep, SlideDeck, SlideMaster, ActionItem, Slide, ProjectHealthReport, FlowchartElement, Decision, GeneratedDecision, ScheduleVarianceSummary, ProjectRisk } from '../types';
+import { LlmProvider, LlmSettings, LlmPart, LlmInput, createLlmProvider } from './llmProvider';
+import {
+  Schema, validateSchema, projectTaskSchema, projectTasksSchema, stepProposalsSchema, decisionsSchema, slideDeckSchema,
+  projectHealthReportSchema, durationEstimatesSchema,
+} from './aiSchemas';
+import { JsonArrayStreamParser } from './jsonArrayStream';
+import { getSlideTheme } from './slideDeckContent';
+import { applySlideMasterLayout, describeSlideMasterForPrompt } from './slideMaster';
+import { refreshSlideDeckBindings } from './slideDataBinding';
+
+let provider: LlmProvider | null = null;
+
+// 選択されたプロバイダーとモデルで AI を初期化する。null を渡すと解除
+export const initializeLlm = (settings: LlmSettings | null) => {
+  if (!settings) {
+    provider = null;
     return;
   }
   try {
-    ai = new GoogleGenAI({ apiKey });
+    provider = createLlmProvider(settings);
   } catch (error) {
-    console.error("Failed to initialize Gemini AI:", error);
-    ai = null;
+    console.error("Failed to initialize AI provider:", error);
+    provider = null;
   }
 };
 
+// テストなどでプロバイダーを直接差し替える
+export const setLlmProvider = (next: LlmProvider | null) => {
+  provider = next;
+};
+
 
 // --- NEW DATA PRUNING HELPERS to avoid token limits ---
 
@@ -107,6 +120,7 @@ const pruneDataForAI = (data: ProjectTask | ProjectTask[]): any => {
 const pruneSlideDeckForAI = (deck: SlideDeck): any => {
     return {
         ...deck,
+        master: undefined, // ロゴの画像データは送らない
         slides: deck.slides.map(slide => {
             if (slide.isLocked) {
                  return {
@@ -130,6 +144,10 @@ const pruneSlideDeckForAI = (deck: SlideDeck): any => {
                             }
                         };
                     }
+                    if (el.type === 'data' && el.snapshot) {
+                        const { snapshot, ...restOfElement } = el;
+                        return restOfElement; // 固定した値は送らず、最適化後に元に戻す
+                    }
                     return el;
                 })
             };
@@ -140,118 +158,208 @@ const pruneSlideDeckForAI = (deck: SlideDeck): any => {
 // --- END DATA PRUNING HELPERS ---
 
 
-/**
- * Sanitizes "dependencies" arrays in a JSON string, which are prone to AI hallucinations.
- * It extracts all valid string literals from the array and reconstructs it.
- * @param jsonStr The raw JSON string.
- * @returns A sanitized JSON string.
- */
-const sanitizeDependencyArrays = (jsonStr: string): string => {
-  // This regex finds all "dependencies" arrays and captures their content.
-  // The 'g' flag ensures all occurrences are replaced.
-  const dependenciesRegex = /"dependencies"\s*:\s*\[([\s\S]*?)\]/g;
-
-  return jsonStr.replace(dependenciesRegex, (match, content) => {
-    // Inside the array content, find all valid string literals ("...").
-    const stringLiterals = content.match(/"[^"]*"/g);
-    
-    // Reconstruct the array content by joining the found literals with commas.
-    // If no valid literals are found, create an empty array.
-    const sanitizedContent = stringLiterals ? stringLiterals.join(', ') : '';
-    
-    // Return the reconstructed "dependencies" array.
-    return `"dependencies": [${sanitizedContent}]`;
-  });
-};
+// --- RESPONSE VALIDATION ---
+
+export type AiErrorKind = 'not_initialized' | 'invalid_api_key' | 'quota' | 'invalid_response' | 'request_failed' | 'cancelled';
 
+// AI 呼び出しの失敗。kind で原因を判別でき、invalid_response の場合は検証で見つかった問題を保持する
+export class AiServiceError extends Error {
+  kind: AiErrorKind;
+  context: string;
+  issues: string[];
+  rawResponse?: string;
+
+  constructor(kind: AiErrorKind, message: string, context: string, issues: string[] = [], rawResponse?: string) {
+    super(message);
+    this.name = 'AiServiceError';
+    this.kind = kind;
+    this.context = context;
+    this.issues = issues;
+    this.rawResponse = rawResponse;
+  }
+}
+
+// 検証に失敗した応答を AI に修正させる回数の上限
+const MAX_REPAIR_ATTEMPTS = 2;
+
+const requireProvider = (context: string): LlmProvider => {
+  if (!provider) {
+    throw new AiServiceError('not_initialized', 'AIサービスが初期化されていません。APIキーを設定してください。', context);
+  }
+  return provider;
+};
 
 /**
- * Parses a JSON object from a string, attempting to clean it up first.
+ * Parses the JSON value contained in a model response.
+ * Only strips markdown fences and surrounding prose; malformed JSON is left for the repair loop.
  * @param text The raw string response from the AI.
- * @returns A parsed object of type T, or null if parsing fails.
+ * @returns The parsed value.
  */
-const parseJsonFromText = <T,>(text: string): T | null => {
+const parseJsonFromText = (text: string): unknown => {
   let jsonStr = text.trim();
-  
-  // 1. Extract content from markdown fences if they exist.
-  const fenceRegex = /^```(?:json)?\s*\n?(.*?)\n?\s*```$/s;
-  const match = jsonStr.match(fenceRegex);
-  if (match && match[1]) {
-    jsonStr = match[1].trim();
-  }
 
-  // 2. Sanitize "dependencies" arrays. This is specific and seems safe.
-  jsonStr = sanitizeDependencyArrays(jsonStr);
-
-  // 3. A safer method to handle "Bad control character" errors.
-  // This error is almost always caused by an unescaped newline or tab inside a string value.
-  // This replacement ONLY affects characters within double quotes.
-  // It finds string literals ("...") and for each one, runs a function to escape internal control characters.
-  jsonStr = jsonStr.replace(/"((?:\\.|[^"\\])*)"/g, (match, content) => {
-    const sanitizedContent = content
-      .replace(/\n/g, '\\n') // escape newlines
-      .replace(/\r/g, '\\r') // escape carriage returns
-      .replace(/\t/g, '\\t'); // escape tabs
-    return `"${sanitizedContent}"`;
-  });
-  
-  // 4. If no markdown fence was found, try to crudely extract the JSON block.
-  if (!match) {
-    const firstBrace = jsonStr.indexOf('{');
-    const firstBracket = jsonStr.indexOf('[');
-    
-    if (firstBrace === -1 && firstBracket === -1) {
-      console.error("No JSON object or array found in the response string.", text);
-      throw new Error(`AI response did not contain a valid JSON structure. Raw response: ${text.substring(0, 500)}...`);
-    }
-
-    const start = firstBrace === -1 ? firstBracket : (firstBracket === -1 ? firstBrace : Math.min(firstBrace, firstBracket));
-    const lastBrace = jsonStr.lastIndexOf('}');
-    const lastBracket = jsonStr.lastIndexOf(']');
-    const end = Math.max(lastBrace, lastBracket);
-    
-    if (start > -1 && end > start) {
-      jsonStr = jsonStr.substring(start, end + 1);
-    }
+  const fenceMatch = jsonStr.match(/^```(?:json)?\s*\n?(.*?)\n?\s*```$/s);
+  if (fenceMatch) {
+    jsonStr = fenceMatch[1].trim();
+  } else {
+    const starts = [jsonStr.indexOf('{'), jsonStr.indexOf('[')].filter(index => index !== -1);
+    if (starts.length === 0) throw new Error('The response does not contain a JSON object or array.');
+    const end = Math.max(jsonStr.lastIndexOf('}'), jsonStr.lastIndexOf(']'));
+    jsonStr = jsonStr.substring(Math.min(...starts), end + 1);
   }
 
-  // 5. Attempt to parse the cleaned JSON.
   try {
-    return JSON.parse(jsonStr) as T;
+    return JSON.parse(jsonStr);
   } catch (e) {
-    console.error("Failed to parse JSON response:", e, "\nOriginal text:", text, "\nProcessed string:", jsonStr);
-    throw new Error(`Failed to parse AI response as JSON. Raw response: ${text.substring(0, 500)}...`);
+    throw new Error(`The response is not valid JSON: ${(e as Error).message}`);
+  }
+};
+
+const buildRepairPrompt = (issues: string[], responseText: string): string => `
+
+      Your previous response could not be used because it does not match the required JSON structure.
+      PROBLEMS FOUND:
+${issues.map(issue => `      - ${issue}`).join('\n')}
+
+      YOUR PREVIOUS RESPONSE (truncated):
+      ${responseText.substring(0, 4000)}
+
+      Return the complete, corrected JSON now. Follow the original instructions and structure exactly. Do not include markdown or explanations.
+`;
+
+/**
+ * Generates JSON, validates it against a schema and asks the model to repair it when it does not match.
+ * @param input The prompt or multimodal parts.
+ * @param schema The schema the response must satisfy.
+ * @param context A string describing the call, used in errors.
+ * @param normalize Optional clean-up applied to the parsed value before validation (e.g. renaming legacy fields).
+ * @returns The validated response.
+ */
+const generateValidatedJson = async <T,>(
+  input: LlmInput,
+  schema: Schema<T>,
+  context: string,
+  normalize?: (value: any) => unknown
+): Promise<T> => {
+  const activeProvider = requireProvider(context);
+  const baseParts: LlmPart[] = typeof input === 'string' ? [{ text: input }] : input;
+  let parts = baseParts;
+  let issues: string[] = [];
+  let responseText = '';
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    responseText = await activeProvider.generateJson(parts);
+    try {
+      const parsed = parseJsonFromText(responseText);
+      const result = validateSchema(schema, normalize ? normalize(parsed) : parsed);
+      if (result.ok) return result.value;
+      issues = result.issues;
+    } catch (e) {
+      issues = [(e as Error).message];
+    }
+    console.warn(`AI response for ${context} failed validation (attempt ${attempt + 1}):`, issues);
+    parts = [...baseParts, { text: buildRepairPrompt(issues, responseText) }];
   }
+
+  throw new AiServiceError(
+    'invalid_response',
+    `AIの応答が期待した形式ではありませんでした（${context}、${MAX_REPAIR_ATTEMPTS + 1}回試行）。主な問題: ${issues.slice(0, 3).join(' / ')}`,
+    context,
+    issues,
+    responseText
+  );
 };
 
 /**
- * Centralized error handler for Gemini API calls.
+ * Centralized error handler for AI provider calls.
  * @param error The error object caught from the API call.
  * @param context A string describing the context of the call (e.g., 'project plan generation').
  */
 const handleGeminiError = (error: unknown, context: string): never => {
-    console.error(`Error in Gemini API call during ${context}:`, error);
-    
-    let finalMessage = `AIとの通信中に不明なエラーが発生しました (${context})。`;
-    
+    console.error(`Error in AI provider call during ${context}:`, error);
+
+    if (error instanceof AiServiceError) throw error;
+
     if (error instanceof Error) {
         const errorMessage = error.message.toLowerCase();
-        if (errorMessage.includes('api key not valid') || errorMessage.includes('api key is invalid')) {
-            finalMessage = 'APIキーが無効です。キーを確認して再度設定してください。(API key not valid. Please pass a valid API key.)';
-        } else if (errorMessage.includes('quota')) {
-            finalMessage = "API利用上限に達しました。Google AI Platformのプランと請求情報を確認してください。(You have exceeded your API quota.)";
-        } else {
-            finalMessage = `AIとの通信に失敗しました (${context}): ${error.message}`;
+        if (errorMessage.includes('api key not valid') || errorMessage.includes('api key is invalid') || errorMessage.includes('http 401')) {
+            throw new AiServiceError('invalid_api_key', 'APIキーが無効です。キーを確認して再度設定してください。(API key not valid. Please pass a valid API key.)', context);
         }
+        if (errorMessage.includes('quota') || errorMessage.includes('http 429')) {
+            throw new AiServiceError('quota', "API利用上限に達しました。利用しているAIプロバイダーのプランと請求情報を確認してください。(You have exceeded your API quota.)", context);
+        }
+        throw new AiServiceError('request_failed', `AIとの通信に失敗しました (${context}): ${error.message}`, context);
     }
 
-    throw new Error(finalMessage);
+    throw new AiServiceError('request_failed', `AIとの通信中に不明なエラーが発生しました (${context})。`, context);
 };
 
+// 旧形式の textbox（content ではなく text を使う）を直す
+const normalizeSlideDeck = (deck: any): unknown => {
+    deck?.slides?.forEach?.((slide: any) => {
+        slide?.elements?.forEach?.((el: any) => {
+            if (el?.type === 'textbox' && el.content === undefined && typeof el.text === 'string') {
+                el.content = el.text;
+                delete el.text;
+            }
+            // 計画と連動するフローチャートはサブステップを AI に書かせず、生成後に計画から埋める
+            if (el?.type === 'flowchart' && el.data === undefined) {
+                el.data = { subSteps: [] };
+            }
+        });
+    });
+    return deck;
+};
 
-export const generateProjectPlan = async (goal: string, date: string): Promise<ProjectTask[]> => {
-  if (!ai) throw new Error("AI Service not initialized. Please set an API Key.");
-  const prompt = `
+// ロックされたスライドは要素を省いて AI に渡しているため、元のスライドに置き換える
+const restoreLockedSlides = (existingDeck: SlideDeck) => (deck: any): unknown => {
+    const lockedSlides = new Map(existingDeck.slides.filter(slide => slide.isLocked).map(slide => [slide.id, slide]));
+    if (Array.isArray(deck?.slides)) {
+        deck.slides = deck.slides.map((slide: any) => lockedSlides.get(slide?.id) ?? slide);
+    }
+    return normalizeSlideDeck(deck);
+};
+
+// 最適化ではサブステップや固定した値を省いて渡すため、同じ ID の要素に元の参照先と値を戻す
+const restoreBoundElements = (existingDeck: SlideDeck, deck: SlideDeck): SlideDeck => {
+    const originals = new Map(existingDeck.slides.flatMap(slide => slide.elements).map(el => [el.id, el]));
+    return {
+        ...deck,
+        slides: deck.slides.map(slide => ({
+            ...slide,
+            elements: slide.elements.map(el => {
+                const original = originals.get(el.id);
+                if (el.type === 'data' && original?.type === 'data') {
+                    return { ...el, binding: original.binding, taskId: original.taskId, snapshot: original.snapshot };
+                }
+                if (el.type === 'flowchart' && original?.type === 'flowchart') {
+                    return { ...el, taskId: original.taskId, snapshotAt: original.snapshotAt, data: original.data };
+                }
+                return el;
+            }),
+        })),
+    };
+};
+
+const LIVE_DATA_INSTRUCTION = `
+    LIVE DATA: Facts that change as the plan progresses (statuses, progress, numerical targets, decisions, schedules, sub-step workflows) MUST use elements that are redrawn from the current plan whenever the deck is opened, instead of being written into textboxes. Use textboxes only for titles, analysis and commentary.
+    - Sub-step workflow: \`{"id": "...", "type": "flowchart", "taskId": "<task id>", "position": {...}}\`. The sub-steps are filled in automatically; do NOT copy them.
+    - Data element: \`{"id": "...", "type": "data", "binding": "...", "taskId": "<task id; omit for the whole project>", "position": {...}}\` where "binding" is 'status_summary' (counts by status), 'progress' (progress percentage), 'numerical_target' (current vs. target value), 'decisions' (decision log table) or 'gantt' (schedule bars).
+`;
+
+// 生成したデッキの要素をスライドマスターのプレースホルダーに配置し、マスターをデッキに記録する
+const layoutOnSlideMaster = (deck: SlideDeck, master: SlideMaster | undefined, theme = deck.theme): SlideDeck => {
+    const themed: SlideDeck = master ? { ...deck, theme, master } : { ...deck, theme };
+    return { ...themed, slides: applySlideMasterLayout(themed.slides, getSlideTheme(themed)) };
+};
+
+const buildPlaceholderInstruction = (deck: Pick<SlideDeck, 'theme' | 'master'>): string => `
+    SLIDE MASTER: Lay out each slide on the placeholders of its layout (positions are percentages of the slide). Put the slide title in "title", a subtitle in "subtitle", and the other elements in "body" (or "left" and "right" for 'two_column'), one below the other when a placeholder holds several elements. Use 'fontSize': 'title' for slide titles.
+${describeSlideMasterForPrompt(getSlideTheme({ slides: [], ...deck }))}
+`;
+
+
+const buildProjectPlanPrompt = (goal: string, date: string): string => `
     You are an expert project planner. Your task is to break down a high-level project goal into a sequence of actionable tasks.
     CONTEXT:
     - Project Goal: "${goal}"
@@ -264,22 +372,64 @@ export const generateProjectPlan = async (goal: string, date: string): Promise<P
     5.  Each object MUST have this structure: { "id": "unique_string_id", "title": "Task Title", "description": "Task Description" }
   `;
 
+export const generateProjectPlan = async (goal: string, date: string): Promise<ProjectTask[]> => {
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: GEMINI_MODEL_TEXT, contents: prompt, config: { responseMimeType: "application/json" },
-    });
-    const tasks = parseJsonFromText<ProjectTask[]>(response.text);
-    if (!tasks || !Array.isArray(tasks) || tasks.some(task => !task.id || !task.title || !task.description)) {
-        throw new Error("AI returned an unexpected format for project tasks.");
+    return await generateValidatedJson(buildProjectPlanPrompt(goal, date), projectTasksSchema, 'project plan generation');
+  } catch (error) {
+    handleGeminiError(error, 'project plan generation');
+  }
+};
+
+export interface ProjectPlanStreamOptions {
+  signal?: AbortSignal;
+  // 検証を通過したタスクを受信した順に通知する
+  onTask: (task: ProjectTask) => void;
+}
+
+/**
+ * Generates the project plan as a stream, reporting each task as soon as it has been received and validated.
+ * Falls back to the non-streamed generation (with repair retries) when the stream yields no usable task.
+ * @param goal The project goal.
+ * @param date The target completion date.
+ * @param options The abort signal and the per-task callback.
+ * @returns All tasks that were generated.
+ * @throws AiServiceError with kind 'cancelled' when the signal is aborted; tasks already reported stay valid.
+ */
+export const streamProjectPlan = async (goal: string, date: string, { signal, onTask }: ProjectPlanStreamOptions): Promise<ProjectTask[]> => {
+  const context = 'project plan generation';
+  const prompt = buildProjectPlanPrompt(goal, date);
+  const tasks: ProjectTask[] = [];
+
+  const accept = (task: ProjectTask) => {
+    if (signal?.aborted) return;
+    tasks.push(task);
+    onTask(task);
+  };
+
+  try {
+    const parser = new JsonArrayStreamParser();
+    for await (const chunk of requireProvider(context).streamJson(prompt, signal)) {
+      parser.push(chunk).forEach(value => {
+        const result = validateSchema(projectTaskSchema, value);
+        if (result.ok) accept(result.value);
+        else console.warn('Skipping invalid task in streamed project plan:', result.issues);
+      });
+    }
+
+    if (tasks.length === 0) {
+      (await generateValidatedJson(prompt, projectTasksSchema, context)).forEach(accept);
     }
+    if (signal?.aborted) throw new DOMException('The operation was aborted.', 'AbortError');
     return tasks;
   } catch (error) {
-    handleGeminiError(error, 'project plan generation');
+    if (signal?.aborted) {
+      throw new AiServiceError('cancelled', '計画の生成を中止しました。', context);
+    }
+    return handleGeminiError(error, context);
   }
 };
 
 export const generateStepProposals = async (task: ProjectTask): Promise<{ title: string; description: string; }[]> => {
-  if (!ai) throw new Error("AI Service not initialized. Please set an API Key.");
   const prompt = `
     You are a project management expert. Analyze the given task and propose a list of concrete next steps to accomplish it.
     CONTEXT:
@@ -295,30 +445,21 @@ export const generateStepProposals = async (task: ProjectTask): Promise<{ title:
     6.  The JSON structure for each item must be: { "title": "...", "description": "..." }
   `;
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: GEMINI_MODEL_TEXT, contents: prompt, config: { responseMimeType: "application/json" },
-    });
-    const proposals = parseJsonFromText<{ title: string; description: string; }[]>(response.text);
-    if (!proposals || !Array.isArray(proposals) || proposals.some(p => !p.title || !p.description)) {
-        throw new Error("AI returned an unexpected format for step proposals.");
-    }
-    if (proposals.length === 0) {
-        throw new Error("AI did not generate any proposals. The task might be too abstract.");
-    }
-    return proposals;
+    return await generateValidatedJson(prompt, stepProposalsSchema, 'step proposal generation');
   } catch (error) {
     handleGeminiError(error, 'step proposal generation');
   }
 };
 
-export const generateDecisions = async (task: ProjectTask, existingDecisions: Decision[]): Promise<Decision[]> => {
-    if (!ai) throw new Error("AI Service not initialized. Please set an API Key.");
+export const generateDecisions = async (task: ProjectTask, existingDecisions: Decision[]): Promise<GeneratedDecision[]> => {
+    // 承認や選択肢は AI の判断対象ではないため、論点と結論だけを渡す
+    const decisionSummaries: GeneratedDecision[] = existingDecisions.map(({ id, question, decision, reasoning, date, status }) => ({ id, question, decision, reasoning, date, status }));
     const prompt = `
         You are a senior project analyst AI. Your task is to intelligently update a list of critical project decisions based on the latest task data. You will merge new findings with an existing list.
 
         CONTEXT:
         - Full Task Data (JSON, pruned for brevity): ${JSON.stringify(pruneDataForAI(task))}
-        - Existing Decisions List: ${JSON.stringify(existingDecisions)}
+        - Existing Decisions List: ${JSON.stringify(decisionSummaries)}
         - Today's Date: ${new Date().toISOString().split('T')[0]}
 
         INSTRUCTIONS:
@@ -347,22 +488,14 @@ export const generateDecisions = async (task: ProjectTask, existingDecisions: De
     `;
 
     try {
-        const response: GenerateContentResponse = await ai.models.generateContent({
-            model: GEMINI_MODEL_TEXT, contents: prompt, config: { responseMimeType: "application/json" },
-        });
-        const decisions = parseJsonFromText<Decision[]>(response.text);
-        if (!decisions || !Array.isArray(decisions) || decisions.some(d => !d.question || !d.status || !d.id)) {
-            throw new Error("AI returned an unexpected format for decisions. Expected fields: id, question, status.");
-        }
-        return decisions;
+        return await generateValidatedJson(prompt, decisionsSchema, 'decision generation');
     } catch (error) {
         handleGeminiError(error, 'decision generation');
     }
 };
 
 
-export const generateInitialSlideDeck = async (task: ProjectTask, projectGoal: string): Promise<SlideDeck> => {
-    if (!ai) throw new Error("AI Service not initialized. Please set an API Key.");
+export const generateInitialSlideDeck = async (task: ProjectTask, projectGoal: string, master?: SlideMaster): Promise<SlideDeck> => {
     const prompt = `
         You are a professional presentation designer and project analyst. Your task is to create a project status report slide deck based on ALL the provided data.
         CONTEXT:
@@ -371,43 +504,31 @@ export const generateInitialSlideDeck = async (task: ProjectTask, projectGoal: s
         INSTRUCTIONS:
         1.  Generate a comprehensive slide deck (5-8 slides).
         2.  The response MUST be a single, valid JSON object. Do NOT use markdown.
-        3.  The JSON must follow this structure: { "slides": [ { "id": "...", "layout": "...", "isLocked": false, "elements": [ ... ] } ] }.
-        4.  Available element types: 'textbox', 'image', 'table', 'chart', 'flowchart'.
+        3.  The JSON must follow this structure: { "slides": [ { "id": "...", "layout": "...", "isLocked": false, "elements": [ ... ], "notes": "..." } ] }. "notes" holds short speaker notes in Japanese (what to say on the slide), shown to the presenter only.
+        4.  Available element types: 'textbox', 'image', 'table', 'chart', 'flowchart', 'data'.
         5.  For 'textbox' elements, you MUST use a "content" field for the text.
         6.  **CRITICAL SYNTHESIS**:
             - Create a title slide and an overview slide.
-            - **Flowchart Slide**: If the task has sub-steps, create one slide dedicated to visualizing the workflow. This slide should have a 'textbox' title (e.g., "サブステップのワークフロー") and a 'flowchart' element. The 'flowchart' element must have this structure: \`{"id": "...", "type": "flowchart", "position": {"x": 5, "y": 15, "width": 90, "height": 75}, "data": {"subSteps": [...]}}\`. You MUST copy the entire 'subSteps' array from the input JSON into the \`data.subSteps\` field.
-            - **Decision Log Slide**: If the task's 'extendedDetails.decisions' array is present and not empty, create a dedicated slide titled "決定事項ログ". Use textboxes to create a clear summary. For each 'decided' item, show the question and decision. For 'undecided' items, list the question and why it's important.
+            - **Flowchart Slide**: If the task has sub-steps, create one slide dedicated to visualizing the workflow. This slide should have a 'textbox' title (e.g., "サブステップのワークフロー") and a 'flowchart' element with the task's id in "taskId".
+            - **Status Slide**: Show the task's progress with 'data' elements ('progress', 'status_summary', and 'numerical_target' when the task has a numerical target).
+            - **Decision Log Slide**: If the task's 'extendedDetails.decisions' array is present and not empty, create a dedicated slide titled "決定事項ログ" with a 'data' element whose binding is 'decisions', plus a short textbox on why the undecided items matter.
             - **ACTION ITEM FOCUS**: For significant Sub-Steps, create additional summary slides. Analyze 'actionItems' and report on completion status.
             - Create slides for key challenges and a final summary.
         7.  Write concise, professional text in the same language as the input task.
         8.  Position elements logically. Do not let them overlap.
+        9.  'chart' elements plot an action item's 'report.matrixData' referenced by "subStepId" and "actionItemId". Set "chartType" ('bar', 'line', 'area', 'pie', 'scatter' or 'combo') and "title". Optionally set "series" (e.g. \`[{"column": 1}, {"column": 2, "seriesType": "line"}]\`, column indexes of matrixData), "grouping" ('grouped' or 'stacked'), "yAxis" (\`{"title": "...", "unit": "..."}\`) and "showTargetLine": true when the task has a numerical target in the same unit.
+        ${LIVE_DATA_INSTRUCTION}
+        ${buildPlaceholderInstruction({ master })}
     `;
     try {
-        const response: GenerateContentResponse = await ai.models.generateContent({
-            model: GEMINI_MODEL_TEXT, contents: prompt, config: { responseMimeType: "application/json" },
-        });
-        const deck = parseJsonFromText<SlideDeck>(response.text);
-        if (!deck || !Array.isArray(deck.slides)) {
-            throw new Error("AI returned an invalid format for the slide deck.");
-        }
-        // Validate that textboxes use 'content', not 'text'
-        deck.slides.forEach(slide => {
-          slide.elements.forEach(el => {
-            if (el.type === 'textbox' && typeof (el as any).text !== 'undefined') {
-              (el as TextboxElement).content = (el as any).text;
-              delete (el as any).text;
-            }
-          })
-        });
-        return deck;
+        const deck = await generateValidatedJson(prompt, slideDeckSchema, 'initial slide deck generation', normalizeSlideDeck);
+        return layoutOnSlideMaster(refreshSlideDeckBindings(deck, [task]), master);
     } catch (error) {
         handleGeminiError(error, 'initial slide deck generation');
     }
 };
 
 export const regenerateSlideDeck = async (existingDeck: SlideDeck, task: ProjectTask, projectGoal: string): Promise<SlideDeck> => {
-    if (!ai) throw new Error("AI Service not initialized. Please set an API Key.");
     const prompt = `
       You are a presentation designer and project analyst. Your task is to update a project status report slide deck based on new data, while preserving slides that have been manually locked by the user.
       CONTEXT:
@@ -418,20 +539,16 @@ export const regenerateSlideDeck = async (existingDeck: SlideDeck, task: Project
       INSTRUCTIONS:
       1.  Analyze 'existingDeck'. Slides with '"isLocked": true' have been summarized and their 'elements' are empty. You MUST NOT change these slides. Return them exactly as they are in the input (id, isLocked, summary, empty elements array).
       2.  For all other slides (unlocked), REGENERATE their content from scratch based on the 'updatedTaskData'.
-      3.  This includes regenerating 'flowchart' slides to reflect the latest sub-step data.
+      3.  This includes regenerating 'flowchart' and 'data' elements, which follow the LIVE DATA rules below.
       4.  **ACTION ITEM FOCUS**: When regenerating, pay close attention to the progress and reports within each sub-step's 'actionItems'.
       5.  The final output MUST be a single, valid JSON object representing the complete slide deck, with all slides (locked and regenerated) in their original order.
       6.  Follow the same JSON structure and rules as the initial generation.
+      ${LIVE_DATA_INSTRUCTION}
+      ${buildPlaceholderInstruction(existingDeck)}
     `;
     try {
-        const response: GenerateContentResponse = await ai.models.generateContent({
-            model: GEMINI_MODEL_TEXT, contents: prompt, config: { responseMimeType: "application/json" },
-        });
-        const deck = parseJsonFromText<SlideDeck>(response.text);
-        if (!deck || !Array.isArray(deck.slides)) {
-            throw new Error("AI returned an invalid format for the regenerated slide deck.");
-        }
-        return deck;
+        const deck = await generateValidatedJson(prompt, slideDeckSchema, 'slide deck regeneration', restoreLockedSlides(existingDeck));
+        return layoutOnSlideMaster(refreshSlideDeckBindings(deck, [task]), existingDeck.master, existingDeck.theme);
     } catch (error) {
         handleGeminiError(error, 'slide deck regeneration');
     }
@@ -439,50 +556,67 @@ export const regenerateSlideDeck = async (existingDeck: SlideDeck, task: Project
 
 
 export const optimizeSlideLayout = async (deck: SlideDeck): Promise<SlideDeck> => {
-    if (!ai) throw new Error("AI Service not initialized. Please set an API Key.");
     const prompt = `
         You are an expert presentation designer. The following JSON represents a slide deck.
         Analyze its content and structure. Your task is to improve the layout, wording, and visual hierarchy for maximum clarity and impact.
         You can rephrase text for conciseness, change element positions and sizes, and adjust font properties. Do not change element types or IDs.
         Return the updated slide deck as a valid JSON object with the exact same structure as the input. Do not use markdown.
         CRITICAL: Textbox elements use a "content" field, NOT a "text" field.
+        Keep elements inside the placeholders of the slide master below and keep its reserved areas empty.
+${describeSlideMasterForPrompt(getSlideTheme(deck))}
         
         Input Deck (pruned for brevity):
         ${JSON.stringify(pruneSlideDeckForAI(deck))}
     `;
     try {
-        const response: GenerateContentResponse = await ai.models.generateContent({
-            model: GEMINI_MODEL_TEXT, contents: prompt, config: { responseMimeType: "application/json" },
-        });
-        const optimizedDeck = parseJsonFromText<SlideDeck>(response.text);
-        if (!optimizedDeck || !Array.isArray(optimizedDeck.slides)) {
-            throw new Error("AI returned an invalid format for the optimized slide deck.");
-        }
-        return optimizedDeck;
+        const optimized = await generateValidatedJson(prompt, slideDeckSchema, 'slide layout optimization', restoreLockedSlides(deck));
+        return { ...restoreBoundElements(deck, optimized), theme: deck.theme, master: deck.master };
     } catch (error) {
         handleGeminiError(error, 'slide layout optimization');
     }
 };
 
-export const generateProjectHealthReport = async (tasks: ProjectTask[], projectGoal: string, targetDate: string): Promise<ProjectHealthReport> => {
-    if (!ai) throw new Error("AI Service not initialized. Please set an API Key.");
+export const generateProjectHealthReport = async (
+    tasks: ProjectTask[],
+    projectGoal: string,
+    targetDate: string,
+    scheduleVariance?: ScheduleVarianceSummary,
+    existingRisks: ProjectRisk[] = []
+): Promise<ProjectHealthReport> => {
+    // ベースラインとの差異は計算済みの事実として渡す（上位の遅延項目のみ）
+    const varianceContext = scheduleVariance ? `
+      - Schedule Variance vs. Baseline "${scheduleVariance.baselineName}" (computed facts, NOT estimates): ${JSON.stringify({
+          baselineFinish: scheduleVariance.baselineFinish,
+          currentFinish: scheduleVariance.currentFinish,
+          projectSlipDays: scheduleVariance.projectSlipDays,
+          slippedItemCount: scheduleVariance.slippedItems.length,
+          comparedItemCount: scheduleVariance.comparedItemCount,
+          topSlippedItems: scheduleVariance.slippedItems.slice(0, 10).map(item => ({ id: item.id, name: item.name, type: item.type, slipDays: item.finishSlipDays, isCritical: item.isCritical })),
+          finishDateTrend: scheduleVariance.trend.map(point => ({ label: point.label, date: point.date, plannedFinish: point.plannedFinish, slipDays: point.slipDays })),
+      })}` : '';
+    // 登録済みのリスクを渡し、重複しない新しいリスクだけを提案させる
+    const riskContext = `
+      - Risk Register (already tracked; do NOT propose these again): ${JSON.stringify(existingRisks.map(risk => ({
+          title: risk.title, probability: risk.probability, impact: risk.impact, status: risk.status, relatedTaskIds: risk.relatedTaskIds,
+      })))}`;
     const prompt = `
       You are a senior project manager AI. Your task is to conduct a holistic health check of the entire project.
       CONTEXT:
       - Overall Project Goal: "${projectGoal}"
       - Final Target Date: "${targetDate}"
       - Current Date: "${new Date().toISOString().split('T')[0]}"
-      - Full Project Data (JSON, pruned for brevity): ${JSON.stringify(pruneDataForAI(tasks), null, 2)}
+      - Full Project Data (JSON, pruned for brevity): ${JSON.stringify(pruneDataForAI(tasks), null, 2)}${varianceContext}${riskContext}
 
       INSTRUCTIONS:
-      1.  **Holistic Analysis**: Review ALL provided data. Compare task/sub-step due dates with the current date. Analyze dependencies, blockers, and the completion rate of action items.
+      1.  **Holistic Analysis**: Review ALL provided data. Compare task/sub-step due dates with the current date. Analyze dependencies, blockers, and the completion rate of action items. If schedule variance data is provided, treat it as ground truth: base your status and concerns on the actual days of slip and the finish-date trend, and cite the numbers.
       2.  **Determine Overall Status**: Categorize the project's health as 'On Track', 'At Risk', or 'Off Track'.
       3.  **Identify Positives**: List 2-3 key accomplishments or areas that are progressing well.
       4.  **Identify Concerns**: List the most critical risks or issues. For each, explain WHY it's a concern (e.g., "Task 'X' is 2 weeks overdue and blocking 3 other tasks"). Note the related task IDs.
       5.  **Propose Solutions**: For each major concern, provide concrete, actionable suggestions for improvement. (e.g., "Re-allocate resources from Task Y to Task X", "Hold a risk mitigation meeting for Z").
-      6.  **Summarize**: Write a concise, executive-level summary of the project's current state.
-      7.  **JSON Output**: Your response MUST be a single, valid JSON object following the ProjectHealthReport structure. Do not include markdown or explanations.
-      8.  **The output language MUST be Japanese.**
+      6.  **Propose Risks**: Propose up to 5 NEW risks for the project's risk register — uncertain future events that could harm the schedule, cost or goal, not issues that have already happened. Skip any risk already in the Risk Register. Rate "probability" and "impact" as integers from 1 (very low) to 5 (very high), link the related task IDs, and give 1-3 concrete mitigation actions for each.
+      7.  **Summarize**: Write a concise, executive-level summary of the project's current state.
+      8.  **JSON Output**: Your response MUST be a single, valid JSON object following the ProjectHealthReport structure. Do not include markdown or explanations.
+      9.  **The output language MUST be Japanese.**
 
       JSON Structure to follow:
       {
@@ -490,26 +624,19 @@ export const generateProjectHealthReport = async (tasks: ProjectTask[], projectG
         "summary": "string",
         "positivePoints": ["string"],
         "areasOfConcern": [{ "description": "string", "relatedTaskIds": ["string"] }],
-        "suggestions": ["string"]
+        "suggestions": ["string"],
+        "proposedRisks": [{ "title": "string", "description": "string", "probability": 1, "impact": 1, "relatedTaskIds": ["string"], "mitigations": ["string"] }]
       }
     `;
 
     try {
-        const response: GenerateContentResponse = await ai.models.generateContent({
-            model: GEMINI_MODEL_TEXT, contents: prompt, config: { responseMimeType: "application/json" },
-        });
-        const report = parseJsonFromText<ProjectHealthReport>(response.text);
-        if (!report || !report.overallStatus || !report.summary) {
-            throw new Error("AI returned an invalid format for the project health report.");
-        }
-        return report;
+        return await generateValidatedJson(prompt, projectHealthReportSchema, 'project health report generation');
     } catch (error) {
         handleGeminiError(error, 'project health report generation');
     }
 };
 
-export const generateProjectReportDeck = async (tasks: ProjectTask[], projectGoal: string, targetDate: string): Promise<SlideDeck> => {
-    if (!ai) throw new Error("AI Service not initialized. Please set an API Key.");
+export const generateProjectReportDeck = async (tasks: ProjectTask[], projectGoal: string, targetDate: string, master?: SlideMaster): Promise<SlideDeck> => {
     const prompt = `
         You are a senior project analyst AI. Your task is to create a comprehensive slide deck summarizing the ENTIRE project status.
         CONTEXT:
@@ -519,24 +646,21 @@ export const generateProjectReportDeck = async (tasks: ProjectTask[], projectGoa
         INSTRUCTIONS:
         1.  Synthesize a comprehensive slide deck (6-10 slides) summarizing the entire project.
         2.  The response MUST be a single, valid JSON object following the SlideDeck structure. Do NOT use markdown.
-        3.  The output language MUST be Japanese.
+        3.  The output language MUST be Japanese. Give each slide short speaker notes in "notes" (what to say on the slide), shown to the presenter only.
         4.  **CRITICAL SYNTHESIS**:
             - **Title & Overview**: Create a title slide and a project overview slide.
-            - **Task Summary & Flowchart**: For each major task in the 'tasks' array, create one or two summary slides. One slide should show a \`flowchart\` of its sub-steps if they exist, following the structure \`{"type": "flowchart", "data": {"subSteps": [...]}}\`. You MUST copy the task's specific \`subSteps\` array from the input JSON into the \`data.subSteps\` field. Another slide can summarize the task's status and outcomes.
-            - **Key Project Decisions**: Analyze the 'decisions' data from all tasks. Create a dedicated slide titled "主要なプロジェクト決定事項". List the top 3-5 most important 'decided' items and their outcomes. Separately, list any critical 'undecided' questions that pose a risk to the project timeline or goals.
+            - **Project Status**: Create a slide with 'data' elements for the whole project: 'progress', 'status_summary' and 'gantt'.
+            - **Task Summary & Flowchart**: For each major task in the 'tasks' array, create one or two summary slides. One slide should show a 'flowchart' of its sub-steps if they exist, with the task's id in "taskId". Another slide can summarize the task's status and outcomes with 'data' elements for that task.
+            - **Key Project Decisions**: Create a dedicated slide titled "主要なプロジェクト決定事項" with a 'data' element whose binding is 'decisions' for the whole project, and a textbox that names any critical 'undecided' questions that pose a risk to the project timeline or goals.
             - **Key Achievements & Risks**: Create dedicated slides for significant achievements and project-level risks.
             - **Conclusion**: A final slide summarizing the project's outlook and next steps.
         5.  Use the standard JSON format for slides and elements. Remember "content" for textboxes.
+        ${LIVE_DATA_INSTRUCTION}
+        ${buildPlaceholderInstruction({ master })}
     `;
     try {
-        const response: GenerateContentResponse = await ai.models.generateContent({
-            model: GEMINI_MODEL_TEXT, contents: prompt, config: { responseMimeType: "application/json" },
-        });
-        const deck = parseJsonFromText<SlideDeck>(response.text);
-        if (!deck || !Array.isArray(deck.slides)) {
-            throw new Error("AI returned an invalid format for the project slide deck.");
-        }
-        return deck;
+        const deck = await generateValidatedJson(prompt, slideDeckSchema, 'project report deck generation', normalizeSlideDeck);
+        return layoutOnSlideMaster(refreshSlideDeckBindings(deck, tasks), master);
     } catch (error) {
         handleGeminiError(error, 'project report deck generation');
     }
@@ -544,7 +668,6 @@ export const generateProjectReportDeck = async (tasks: ProjectTask[], projectGoa
 
 
 export const regenerateProjectReportDeck = async (existingDeck: SlideDeck, tasks: ProjectTask[], projectGoal: string, targetDate: string): Promise<SlideDeck> => {
-    if (!ai) throw new Error("AI Service not initialized. Please set an API Key.");
     const prompt = `
       You are a senior project analyst AI. Your task is to update a project-wide status report slide deck based on new data, while preserving slides that have been manually locked by the user.
       CONTEXT:
@@ -556,20 +679,16 @@ export const regenerateProjectReportDeck = async (existingDeck: SlideDeck, tasks
       INSTRUCTIONS:
       1.  Analyze 'existingDeck'. Slides with '"isLocked": true' have been summarized and their 'elements' are empty. You MUST NOT change these slides. Return them exactly as they are in the input (id, isLocked, summary, empty elements array).
       2.  For all other slides (unlocked slides), REGENERATE their content from scratch based on the updated project data.
-      3.  This includes regenerating any 'flowchart' elements on unlocked slides to show the latest sub-step data.
+      3.  This includes regenerating any 'flowchart' and 'data' elements on unlocked slides, following the LIVE DATA rules below.
       4.  Synthesize information across all tasks to provide a holistic project view in the regenerated slides.
       5.  The final output MUST be a single, valid JSON object for the complete slide deck, in the original slide order.
       6.  The output language MUST be Japanese.
+      ${LIVE_DATA_INSTRUCTION}
+      ${buildPlaceholderInstruction(existingDeck)}
     `;
     try {
-        const response: GenerateContentResponse = await ai.models.generateContent({
-            model: GEMINI_MODEL_TEXT, contents: prompt, config: { responseMimeType: "application/json" },
-        });
-        const deck = parseJsonFromText<SlideDeck>(response.text);
-        if (!deck || !Array.isArray(deck.slides)) {
-            throw new Error("AI returned an invalid format for the regenerated project slide deck.");
-        }
-        return deck;
+        const deck = await generateValidatedJson(prompt, slideDeckSchema, 'project report deck regeneration', restoreLockedSlides(existingDeck));
+        return layoutOnSlideMaster(refreshSlideDeckBindings(deck, tasks), existingDeck.master, existingDeck.theme);
     } catch (error) {
         handleGeminiError(error, 'project report deck regeneration');
     }
@@ -590,9 +709,8 @@ export interface CustomSource {
   content: any;
 }
 
-const buildSourceParts = (sources: CustomSource[]): any[] => {
-    if (!ai) throw new Error("AI Service not initialized. Please set an API Key.");
-    const parts: any[] = [];
+const buildSourceParts = (sources: CustomSource[]): LlmPart[] => {
+    const parts: LlmPart[] = [];
     for (const source of sources) {
         parts.push({ text: `\n--- START OF SOURCE: ${source.name} ---\n` });
         if (source.type === 'image' && typeof source.content === 'string') {
@@ -619,7 +737,6 @@ const buildSourceParts = (sources: CustomSource[]): any[] => {
 };
 
 export const generateCustomSlideDeck = async (sources: CustomSource[], userPrompt: string): Promise<SlideDeck> => {
-    if (!ai) throw new Error("AI Service not initialized. Please set an API Key.");
     const promptHeader = `
         You are a professional presentation designer AI. Your task is to create a slide deck based on a user's objective and provided source materials.
 
@@ -689,21 +806,11 @@ export const generateCustomSlideDeck = async (sources: CustomSource[], userPromp
         **SOURCE MATERIALS FOLLOW**:
     `;
 
-    const parts: any[] = [{ text: promptHeader }, ...buildSourceParts(sources)];    
+    const parts: LlmPart[] = [{ text: promptHeader }, ...buildSourceParts(sources)];    
     parts.push({ text: `\nReminder: Create the slide deck now based on the objective and all the sources provided above. The response must be only the JSON object.`});
 
     try {
-        const response = await ai.models.generateContent({
-            model: GEMINI_MODEL_TEXT,
-            contents: { parts },
-            config: { responseMimeType: "application/json" }
-        });
-
-        const deck = parseJsonFromText<SlideDeck>(response.text);
-        if (!deck || !Array.isArray(deck.slides)) {
-            throw new Error("AI returned an invalid format for the custom slide deck.");
-        }
-        return deck;
+        return await generateValidatedJson(parts, slideDeckSchema, 'custom slide deck generation', normalizeSlideDeck);
     } catch (error) {
         handleGeminiError(error, 'custom slide deck generation');
     }
@@ -711,7 +818,6 @@ export const generateCustomSlideDeck = async (sources: CustomSource[], userPromp
 
 
 export const generateCustomTextReport = async (sources: CustomSource[], userPrompt: string): Promise<string> => {
-    if (!ai) throw new Error("AI Service not initialized. Please set an API Key.");
     const promptHeader = `
         You are an expert project analyst. Your task is to write a text-based report based on a specific user objective and a collection of source materials.
         USER OBJECTIVE:
@@ -726,63 +832,46 @@ export const generateCustomTextReport = async (sources: CustomSource[], userProm
         SOURCE MATERIALS FOLLOW:
     `;
 
-    const parts: any[] = [{ text: promptHeader }, ...buildSourceParts(sources)];
+    const parts: LlmPart[] = [{ text: promptHeader }, ...buildSourceParts(sources)];
     parts.push({ text: `\nReminder: Write the report now based on the objective and all the sources provided above. The response must be only the text report.`});
     
     try {
-        const response = await ai.models.generateContent({
-            model: GEMINI_MODEL_TEXT,
-            contents: { parts },
-        });
-        return response.text;
+        return await requireProvider('custom text report generation').generateText(parts);
     } catch (error) {
         handleGeminiError(error, 'custom text report generation');
     }
 };
 
 
-export const generateGanttData = async (tasks: ProjectTask[], projectGoal: string, targetDate: string): Promise<GanttItem[]> => {
-    if (!ai) throw new Error("AI Service not initialized. Please set an API Key.");
+/**
+ * Asks the AI for effort estimates (in days) for items that have none.
+ * The schedule itself is computed locally by the project scheduler; this only supplies durations.
+ * @param tasks The project's tasks.
+ * @param projectGoal The overall goal of the project.
+ * @returns Estimated days keyed by task, sub-step or action item ID.
+ */
+export const suggestDurationEstimates = async (tasks: ProjectTask[], projectGoal: string): Promise<Record<string, number>> => {
     const prompt = `
-      You are a project management assistant AI. Your task is to convert a project structure into data for a Gantt chart.
+      You are a project management assistant AI. Estimate the effort needed for the items of a project.
       CONTEXT:
       - Project Goal: "${projectGoal}"
-      - Project Start Date: "${new Date().toISOString().split('T')[0]}"
-      - Project Target End Date: "${targetDate}"
       - Full Project Data (JSON, pruned for brevity): ${JSON.stringify(pruneDataForAI(tasks), null, 2)}
 
       INSTRUCTIONS:
-      1.  Create a flat list of items for the Gantt chart. Include every ProjectTask, every SubStep, and every ActionItem from all tasks.
-      2.  For each item, generate a JSON object with this exact structure:
-          { "id": "string", "name": "string", "start": "YYYY-MM-DD", "end": "YYYY-MM-DD", "progress": number, "dependencies": ["string"], "type": "'task' | 'substep' | 'actionitem'", "parentId": "string | null" }
-      3.  **Date Estimation**:
-          - The project must fit between the start and target dates.
-          - Use an item's \`dueDate\` as its 'end' date if available for tasks and sub-steps.
-          - Estimate 'start' and 'end' dates logically. An item must start after its dependencies end.
-          - For 'actionitem', estimate a short duration (e.g., 1-2 days) within the parent sub-step's timeframe.
-      4.  **Progress Calculation**:
-          - For a 'task': 'Completed' is 100, 'Not Started' is 0. For 'In Progress' or 'Blocked', average the progress of its sub-steps. If no sub-steps, 'In Progress' is 50.
-          - For a 'substep': Calculate progress from its \`actionItems\` (% of completed items). If no action items, use its \`status\`: 'Completed' is 100, 'In Progress' is 50, 'Not Started' is 0.
-          - For an 'actionitem': 'completed: true' is 100, 'completed: false' is 0.
-      5.  **Dependencies & Parent ID**:
-          - **Rule**: The 'dependencies' array models the sequential workflow. A dependency can ONLY exist between items of the SAME \`type\` AND with the SAME \`parentId\`.
-          - **Tasks**: A task's 'parentId' is ALWAYS null. Use \`nextTaskIds\` to establish dependencies between tasks.
-          - **Sub-steps**: A sub-step's 'parentId' MUST BE the ID of its parent ProjectTask. Use \`nextSubStepIds\` to establish dependencies ONLY between sub-steps within the same task.
-          - **Action Items**: An action item's 'parentId' MUST BE the ID of its parent SubStep. Create sequential dependencies ONLY between action items within the same sub-step (item 2 depends on item 1, etc.).
-          - **CRITICAL**: Do NOT create dependencies across different parents (e.g., from a sub-step in Task A to one in Task B) or across different types (e.g., from a task to a sub-step).
-      6.  Your response MUST be a single, valid JSON array of GanttItem objects. Do not use markdown.
+      1.  Estimate a duration in whole calendar days for every ActionItem, every SubStep, and every ProjectTask that has no sub-steps.
+      2.  Skip items that already have an \`estimatedDays\` value.
+      3.  A sub-step's estimate should cover its action items, which are carried out one after another.
+      4.  Your response MUST be a single, valid JSON object mapping item IDs to numbers, e.g. { "task-1": 5, "substep-2": 3 }. Do not use markdown.
     `;
 
     try {
-        const response: GenerateContentResponse = await ai.models.generateContent({
-            model: GEMINI_MODEL_TEXT, contents: prompt, config: { responseMimeType: "application/json" },
+        const estimates = await generateValidatedJson(prompt, durationEstimatesSchema, 'duration estimation');
+        const validEstimates: Record<string, number> = {};
+        Object.entries(estimates).forEach(([id, days]) => {
+            if (typeof days === 'number' && days > 0) validEstimates[id] = days;
         });
-        const ganttData = parseJsonFromText<GanttItem[]>(response.text);
-        if (!ganttData || !Array.isArray(ganttData)) {
-            throw new Error("AI returned an invalid format for the Gantt chart data.");
-        }
-        return ganttData;
+        return validEstimates;
     } catch (error) {
-        handleGeminiError(error, 'Gantt chart data generation');
+        handleGeminiError(error, 'duration estimation');
     }
 };
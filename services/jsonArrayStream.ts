@@ -0,0 +1,75 @@
+// ストリーミングで届く JSON 配列から、完成した要素を順に取り出すためのパーサー。
+// 最初に現れる '[' をトップレベルの配列とみなすため、前後の説明文やコードフェンスは無視される
+export class JsonArrayStreamParser {
+  private buffer = '';
+  private position = 0;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private elementStart = -1;
+  private started = false;
+  private finished = false;
+
+  /**
+   * Feeds the next chunk of streamed text.
+   * @param chunk The text received since the previous call.
+   * @returns The object or array elements completed by this chunk, parsed. Elements that are not valid JSON are skipped.
+   */
+  push(chunk: string): unknown[] {
+    if (this.finished) return [];
+    this.buffer += chunk;
+    const completed: unknown[] = [];
+
+    for (; this.position < this.buffer.length && !this.finished; this.position++) {
+      const char = this.buffer[this.position];
+
+      if (!this.started) {
+        if (char === '[') {
+          this.started = true;
+          this.depth = 1;
+        }
+        continue;
+      }
+
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (char === '\\') this.escaped = true;
+        else if (char === '"') this.inString = false;
+        continue;
+      }
+
+      if (char === '"') {
+        this.inString = true;
+      } else if (char === '{' || char === '[') {
+        if (this.depth === 1) this.elementStart = this.position;
+        this.depth++;
+      } else if (char === '}' || char === ']') {
+        this.depth--;
+        if (this.depth === 1 && this.elementStart !== -1) {
+          const elementText = this.buffer.slice(this.elementStart, this.position + 1);
+          try {
+            completed.push(JSON.parse(elementText));
+          } catch (e) {
+            console.warn('Skipping malformed element in streamed JSON array:', elementText.substring(0, 200));
+          }
+          this.elementStart = -1;
+        } else if (this.depth === 0) {
+          this.finished = true;
+        }
+      }
+    }
+
+    // 取り出し済みの部分は保持しない
+    const keepFrom = this.elementStart !== -1 ? this.elementStart : this.position;
+    this.buffer = this.buffer.slice(keepFrom);
+    this.position -= keepFrom;
+    if (this.elementStart !== -1) this.elementStart = 0;
+
+    return completed;
+  }
+
+  // 配列の閉じ括弧まで受信したか
+  get isComplete(): boolean {
+    return this.finished;
+  }
+}
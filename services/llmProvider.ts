@@ -0,0 +1,263 @@
+import { GoogleGenAI } from "@google/genai";
+import {
+  GEMINI_MODEL_TEXT, OPENAI_DEFAULT_MODEL, OPENAI_DEFAULT_BASE_URL, LOCAL_LLM_DEFAULT_MODEL, LOCAL_LLM_DEFAULT_BASE_URL,
+} from '../constants';
+
+// プロンプトの構成要素。画像などは base64 のインラインデータとして渡す
+export type LlmPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } };
+
+export type LlmInput = string | LlmPart[];
+
+// AI 呼び出しの共通インターフェース。geminiService の各機能はこれを通して生成する
+export interface LlmProvider {
+  generateText(input: LlmInput): Promise<string>;
+  // JSON を返すよう指示して生成し、応答の文字列をそのまま返す（解析は呼び出し側）
+  generateJson(input: LlmInput): Promise<string>;
+  // generateJson のストリーミング版。受信した断片を順に返し、signal で中断できる
+  streamJson(input: LlmInput, signal?: AbortSignal): AsyncIterable<string>;
+}
+
+export type LlmProviderId = 'gemini' | 'openai' | 'local';
+
+export interface LlmSettings {
+  provider: LlmProviderId;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string; // OpenAI 互換・ローカルのエンドポイント
+}
+
+export interface LlmProviderInfo {
+  id: LlmProviderId;
+  label: string;
+  defaultModel: string;
+  suggestedModels: string[];
+  requiresApiKey: boolean;
+  defaultBaseUrl?: string;
+}
+
+// 設定画面で選べるプロバイダー
+export const LLM_PROVIDERS: LlmProviderInfo[] = [
+  {
+    id: 'gemini',
+    label: 'Google Gemini',
+    defaultModel: GEMINI_MODEL_TEXT,
+    suggestedModels: [GEMINI_MODEL_TEXT, 'gemini-2.5-pro', 'gemini-2.5-flash'],
+    requiresApiKey: true,
+  },
+  {
+    id: 'openai',
+    label: 'OpenAI 互換 API',
+    defaultModel: OPENAI_DEFAULT_MODEL,
+    suggestedModels: [OPENAI_DEFAULT_MODEL, 'gpt-4o', 'gpt-4.1-mini'],
+    requiresApiKey: true,
+    defaultBaseUrl: OPENAI_DEFAULT_BASE_URL,
+  },
+  {
+    id: 'local',
+    label: 'ローカル (Ollama 互換)',
+    defaultModel: LOCAL_LLM_DEFAULT_MODEL,
+    suggestedModels: [LOCAL_LLM_DEFAULT_MODEL, 'qwen2.5', 'gemma2'],
+    requiresApiKey: false,
+    defaultBaseUrl: LOCAL_LLM_DEFAULT_BASE_URL,
+  },
+];
+
+export const getLlmProviderInfo = (id: LlmProviderId): LlmProviderInfo =>
+  LLM_PROVIDERS.find(info => info.id === id) ?? LLM_PROVIDERS[0];
+
+const toParts = (input: LlmInput): LlmPart[] => (typeof input === 'string' ? [{ text: input }] : input);
+
+// HTTP エラーを本文付きの Error に変換する
+const readJsonResponse = async (response: Response): Promise<any> => {
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    throw new Error(`HTTP ${response.status}: ${body.substring(0, 300)}`);
+  }
+  return response.json();
+};
+
+// ストリーミング応答の本文を1行ずつ返す（SSE と NDJSON の両方で使う）
+async function* readResponseLines(response: Response): AsyncGenerator<string> {
+  if (!response.ok || !response.body) {
+    await readJsonResponse(response);
+    return;
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) yield line.trim();
+    }
+  }
+  if (buffer.trim()) yield buffer.trim();
+}
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('The operation was aborted.', 'AbortError');
+};
+
+export class GeminiProvider implements LlmProvider {
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string, private model: string = GEMINI_MODEL_TEXT) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  private async generate(input: LlmInput, json: boolean): Promise<string> {
+    const response = await this.ai.models.generateContent({
+      model: this.model,
+      contents: typeof input === 'string' ? input : { parts: input },
+      config: json ? { responseMimeType: "application/json" } : undefined,
+    });
+    return response.text ?? '';
+  }
+
+  generateText(input: LlmInput): Promise<string> {
+    return this.generate(input, false);
+  }
+
+  generateJson(input: LlmInput): Promise<string> {
+    return this.generate(input, true);
+  }
+
+  async *streamJson(input: LlmInput, signal?: AbortSignal): AsyncGenerator<string> {
+    const stream = await this.ai.models.generateContentStream({
+      model: this.model,
+      contents: typeof input === 'string' ? input : { parts: input },
+      config: { responseMimeType: "application/json", abortSignal: signal },
+    });
+    for await (const chunk of stream) {
+      throwIfAborted(signal);
+      if (chunk.text) yield chunk.text;
+    }
+  }
+}
+
+// Chat Completions 形式の API（OpenAI、Azure OpenAI、各種互換サーバー）
+export class OpenAiCompatibleProvider implements LlmProvider {
+  constructor(
+    private apiKey: string,
+    private model: string = OPENAI_DEFAULT_MODEL,
+    private baseUrl: string = OPENAI_DEFAULT_BASE_URL
+  ) {}
+
+  private request(input: LlmInput, json: boolean, stream: boolean, signal?: AbortSignal): Promise<Response> {
+    const content = toParts(input).map(part =>
+      'text' in part
+        ? { type: 'text', text: part.text }
+        : { type: 'image_url', image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } }
+    );
+    // response_format の json_object はトップレベルが配列の応答を許さないため、JSON はプロンプトの指示に任せる
+    const messages = [
+      ...(json ? [{ role: 'system', content: 'Respond with valid JSON only. Do not wrap it in markdown.' }] : []),
+      { role: 'user', content },
+    ];
+    return fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${this.apiKey}` },
+      body: JSON.stringify({ model: this.model, messages, ...(stream ? { stream: true } : {}) }),
+      signal,
+    });
+  }
+
+  private async generate(input: LlmInput, json: boolean): Promise<string> {
+    const data = await readJsonResponse(await this.request(input, json, false));
+    return data.choices?.[0]?.message?.content ?? '';
+  }
+
+  generateText(input: LlmInput): Promise<string> {
+    return this.generate(input, false);
+  }
+
+  generateJson(input: LlmInput): Promise<string> {
+    return this.generate(input, true);
+  }
+
+  // Server-Sent Events の各 data 行に差分（delta）が入る
+  async *streamJson(input: LlmInput, signal?: AbortSignal): AsyncGenerator<string> {
+    for await (const line of readResponseLines(await this.request(input, true, true, signal))) {
+      if (!line.startsWith('data:')) continue;
+      const payload = line.slice('data:'.length).trim();
+      if (payload === '[DONE]') return;
+      const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+      if (delta) yield delta;
+    }
+  }
+}
+
+// Ollama 形式の HTTP API（/api/chat）で動くローカルモデル
+export class LocalLlmProvider implements LlmProvider {
+  constructor(
+    private model: string = LOCAL_LLM_DEFAULT_MODEL,
+    private baseUrl: string = LOCAL_LLM_DEFAULT_BASE_URL
+  ) {}
+
+  private request(input: LlmInput, json: boolean, stream: boolean, signal?: AbortSignal): Promise<Response> {
+    const parts = toParts(input);
+    const message = {
+      role: 'user',
+      content: parts.filter((part): part is { text: string } => 'text' in part).map(part => part.text).join(''),
+      images: parts.filter(part => 'inlineData' in part).map(part => (part as { inlineData: { data: string } }).inlineData.data),
+    };
+    return fetch(`${this.baseUrl.replace(/\/$/, '')}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: this.model, messages: [message], stream, ...(json ? { format: 'json' } : {}) }),
+      signal,
+    });
+  }
+
+  private async generate(input: LlmInput, json: boolean): Promise<string> {
+    const data = await readJsonResponse(await this.request(input, json, false));
+    return data.message?.content ?? '';
+  }
+
+  generateText(input: LlmInput): Promise<string> {
+    return this.generate(input, false);
+  }
+
+  generateJson(input: LlmInput): Promise<string> {
+    return this.generate(input, true);
+  }
+
+  // ストリーミング時は1行に1つの JSON（NDJSON）で断片が届く
+  async *streamJson(input: LlmInput, signal?: AbortSignal): AsyncGenerator<string> {
+    for await (const line of readResponseLines(await this.request(input, true, true, signal))) {
+      const data = JSON.parse(line);
+      if (data.message?.content) yield data.message.content;
+      if (data.done) return;
+    }
+  }
+}
+
+/**
+ * Creates the provider described by the settings.
+ * @param settings The provider, model and credentials chosen by the user.
+ * @returns The provider instance.
+ */
+export const createLlmProvider = (settings: LlmSettings): LlmProvider => {
+  const info = getLlmProviderInfo(settings.provider);
+  const model = settings.model.trim() || info.defaultModel;
+  const baseUrl = settings.baseUrl?.trim() || info.defaultBaseUrl;
+
+  if (info.requiresApiKey && !settings.apiKey) {
+    throw new Error(`${info.label} を使うには API キーが必要です。`);
+  }
+
+  switch (settings.provider) {
+    case 'gemini':
+      return new GeminiProvider(settings.apiKey!, model);
+    case 'openai':
+      return new OpenAiCompatibleProvider(settings.apiKey!, model, baseUrl);
+    case 'local':
+      return new LocalLlmProvider(model, baseUrl);
+  }
+};
@@ -0,0 +1,57 @@
+import { supabase } from '../lib/supabase';
+import { LlmSettings } from './llmProvider';
+import { WorkspaceService } from './workspaceService';
+
+// AI のプロバイダー・モデルはワークスペース（プロジェクトの所有者）ごとに保存する。
+// APIキーはサーバーに保存せず、ブラウザのセッション中のみ保持する
+
+export interface WorkspaceLlmSettings {
+  ownerId: string | null; // The workspace the settings belong to; null when signed out
+  settings: Omit<LlmSettings, 'apiKey'> | null; // null when the workspace has not chosen a provider yet
+  canEdit: boolean; // Only the workspace owner can change the settings
+}
+
+export class LlmSettingsService {
+  // ワークスペースの AI 設定を取得
+  static async getWorkspaceSettings(projectId: string | null): Promise<WorkspaceLlmSettings> {
+    const { ownerId, userId } = await WorkspaceService.getWorkspaceOwnerId(projectId);
+    if (!ownerId) return { ownerId: null, settings: null, canEdit: false };
+
+    const { data, error } = await supabase
+      .from('workspace_llm_settings')
+      .select('*')
+      .eq('owner_id', ownerId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`AI の設定の取得に失敗しました: ${error.message}`);
+    }
+
+    return {
+      ownerId,
+      settings: data ? { provider: data.provider, model: data.model, baseUrl: data.base_url ?? undefined } : null,
+      canEdit: ownerId === userId,
+    };
+  }
+
+  // 自分のワークスペースの AI 設定を保存（APIキーは保存しない）
+  static async saveWorkspaceSettings(settings: Omit<LlmSettings, 'apiKey'>): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('ログインが必要です');
+    }
+
+    const { error } = await supabase
+      .from('workspace_llm_settings')
+      .upsert({
+        owner_id: user.id,
+        provider: settings.provider,
+        model: settings.model,
+        base_url: settings.baseUrl ?? null,
+      });
+
+    if (error) {
+      throw new Error(`AI の設定の保存に失敗しました: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,155 @@
+import { Attachment, ProjectTask, SlideDeck } from '../types';
+import { AttachmentService } from './attachmentStorage';
+import {
+  PdfFonts, PdfImageData, PdfRenderOptions, GanttPdfInput,
+  renderSlideDeckPdf, renderGanttPdf, renderTaskDossierPdf, renderDecisionLogPdf,
+} from './pdfRenderer';
+
+// ブラウザから PDF レンダラーを使うための準備（フォントと添付画像の読み込み）とダウンロード。
+// pdf-lib を含むため、画面側からは出力するときに import() で読み込む
+
+let fontsPromise: Promise<PdfFonts> | null = null;
+
+const fetchBytes = async (url: string): Promise<ArrayBuffer> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`${url} の取得に失敗しました (${response.status})`);
+  return response.arrayBuffer();
+};
+
+// 日本語フォントは大きいため、最初の出力時に一度だけ読み込む
+const loadFonts = (): Promise<PdfFonts> => {
+  if (!fontsPromise) {
+    fontsPromise = Promise.all([
+      import('@expo-google-fonts/noto-sans-jp/400Regular/NotoSansJP_400Regular.ttf?url'),
+      import('@expo-google-fonts/noto-sans-jp/700Bold/NotoSansJP_700Bold.ttf?url'),
+    ])
+      .then(([regularUrl, boldUrl]) => Promise.all([fetchBytes(regularUrl.default), fetchBytes(boldUrl.default)]))
+      .then(([regular, bold]) => ({ regular, bold }))
+      .catch(error => {
+        fontsPromise = null;
+        throw error;
+      });
+  }
+  return fontsPromise;
+};
+
+const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+// PDF に埋め込めるのは PNG と JPEG だけなので、それ以外（WebP、GIF、SVG など）は PNG に描き直す
+const convertToPng = (dataUrl: string): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = image.naturalWidth || 800;
+      canvas.height = image.naturalHeight || 600;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('画像の変換に失敗しました'));
+        return;
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/png'));
+    };
+    image.onerror = () => reject(new Error('画像の読み込みに失敗しました'));
+    image.src = dataUrl;
+  });
+
+const loadImage = async (attachment: Attachment): Promise<PdfImageData | null> => {
+  const dataUrl = await AttachmentService.getDataUrl(attachment);
+  const mimeType = dataUrl.slice(5, dataUrl.indexOf(';'));
+  if (mimeType === 'image/png') return { bytes: dataUrlToBytes(dataUrl), type: 'png' };
+  if (mimeType === 'image/jpeg') return { bytes: dataUrlToBytes(dataUrl), type: 'jpg' };
+  if (!mimeType.startsWith('image/')) return null;
+  return { bytes: dataUrlToBytes(await convertToPng(dataUrl)), type: 'png' };
+};
+
+const createOptions = async (title: string): Promise<PdfRenderOptions> => ({
+  fonts: await loadFonts(),
+  loadImage,
+  title,
+});
+
+const downloadPdf = (bytes: Uint8Array, fileName: string) => {
+  const blob = new Blob([bytes as BlobPart], { type: 'application/pdf' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${fileName}.pdf`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Exports a slide deck as a vector PDF and starts the download.
+ * @param deck The slide deck to export.
+ * @param tasks The tasks the deck refers to.
+ * @param fileName The file name, without extension.
+ */
+export const downloadSlideDeckPdf = async (deck: SlideDeck, tasks: ProjectTask[], fileName: string): Promise<void> => {
+  try {
+    downloadPdf(await renderSlideDeckPdf(deck, tasks, await createOptions(fileName)), fileName);
+  } catch (error) {
+    console.error('PDF export failed:', error);
+    throw new Error(`PDFの作成に失敗しました: ${(error as Error).message}`);
+  }
+};
+
+/**
+ * Exports the Gantt timeline as a PDF tiled across pages and starts the download.
+ * @param input The rows, time range and display options of the Gantt view.
+ * @param fileName The file name, without extension.
+ */
+export const downloadGanttPdf = async (input: GanttPdfInput, fileName: string): Promise<void> => {
+  try {
+    downloadPdf(await renderGanttPdf(input, await createOptions(fileName)), fileName);
+  } catch (error) {
+    console.error('PDF export failed:', error);
+    throw new Error(`PDFの作成に失敗しました: ${(error as Error).message}`);
+  }
+};
+
+/**
+ * Exports a task dossier as a PDF and starts the download.
+ * @param task The task, including its extended details.
+ * @param context The project the task belongs to.
+ * @param fileName The file name, without extension.
+ */
+export const downloadTaskDossierPdf = async (
+  task: ProjectTask,
+  context: { projectGoal?: string; targetDate?: string },
+  fileName: string
+): Promise<void> => {
+  try {
+    downloadPdf(await renderTaskDossierPdf(task, context, await createOptions(fileName)), fileName);
+  } catch (error) {
+    console.error('PDF export failed:', error);
+    throw new Error(`PDFの作成に失敗しました: ${(error as Error).message}`);
+  }
+};
+
+/**
+ * Exports the project's decision log as a PDF and starts the download.
+ * @param tasks The project's tasks.
+ * @param context The project the decisions belong to.
+ * @param fileName The file name, without extension.
+ */
+export const downloadDecisionLogPdf = async (
+  tasks: ProjectTask[],
+  context: { projectGoal?: string; targetDate?: string },
+  fileName: string
+): Promise<void> => {
+  try {
+    downloadPdf(await renderDecisionLogPdf(tasks, context, await createOptions(fileName)), fileName);
+  } catch (error) {
+    console.error('PDF export failed:', error);
+    throw new Error(`PDFの作成に失敗しました: ${(error as Error).message}`);
+  }
+};
@@ -0,0 +1,1305 @@
+import {
+  PDFDocument, PDFFont, PDFImage, PDFPage, RGB, rgb,
+  pushGraphicsState, popGraphicsState, rectangle, clip, endPath,
+} from 'pdf-lib';
+import fontkit from '@pdf-lib/fontkit';
+import {
+  Attachment, ProjectTask, SlideDeck, Slide, SlideElement, SlideElementPosition, TextboxElement, ImageElement,
+  TableElement, ChartElement, FlowchartElement, DataElement, SubStep, SubStepStatus, TaskStatus, GanttItem, ProjectBaseline,
+  ActionItem,
+} from '../types';
+import {
+  findReportActionItem, resolveChartModel, getSlideTheme, SlideTheme, TEXTBOX_FONT_SIZES,
+  FLOWCHART_CARD_WIDTH, FLOWCHART_CARD_HEIGHT, FLOWCHART_STATUS_COLORS,
+} from './slideDeckContent';
+import { SLIDE_FOOTER_FONT_SIZE, SLIDE_FOOTER_POSITION, SLIDE_NUMBER_POSITION } from './slideMaster';
+import {
+  GanttZoomLevel, GANTT_DAY_WIDTHS, GANTT_CRITICAL_COLOR, GANTT_BASELINE_COLOR,
+  buildTimelineHeaders, createGanttColorResolver,
+} from './ganttTimeline';
+import { ChartModel, ChartScale, formatChartValue, getChartLegendItems, getChartSeriesColor } from './chartModel';
+import {
+  resolveSlideDataView, resolveFlowchartSubSteps, getTimelineBarFraction,
+  TASK_STATUS_LABELS, SUB_STEP_STATUS_LABELS, TARGET_STATUS_LABELS,
+} from './slideDataBinding';
+import { COST_CATEGORY_LABELS, COST_LINE_KIND_LABELS, COST_APPROVAL_STATUS_LABELS, formatCost } from './costTracking';
+import {
+  DECISION_STATUS_LABELS, DECISION_APPROVAL_STATUS_LABELS, DECISION_APPROVAL_STATE_LABELS, collectDecisionLog, getDecisionApprovalState,
+} from './decisionLog';
+
+// ブラウザの印刷機能に頼らず、pdf-lib でベクターの PDF を組み立てる。
+// フォントと画像は呼び出し側から渡すため、ブラウザでも Node でも同じ出力になる
+
+export interface PdfFonts {
+  regular: Uint8Array | ArrayBuffer;
+  bold?: Uint8Array | ArrayBuffer; // 省略時は regular で代用
+}
+
+export interface PdfImageData {
+  bytes: Uint8Array | ArrayBuffer;
+  type: 'png' | 'jpg';
+}
+
+export interface PdfRenderOptions {
+  fonts: PdfFonts;
+  // 添付画像のデータを返す。省略した場合や null を返した場合は画像の代わりに枠を描く
+  loadImage?: (attachment: Attachment) => Promise<PdfImageData | null>;
+  // 文書情報に記録する日時。固定すると同じ入力から同じファイルが得られる
+  creationDate?: Date;
+  title?: string;
+}
+
+interface Box {
+  x: number;
+  y: number; // ページ上端からの距離
+  w: number;
+  h: number;
+}
+
+interface PdfFontSet {
+  regular: PDFFont;
+  bold: PDFFont;
+}
+
+type TextAlign = 'left' | 'center' | 'right';
+
+interface TextStyle {
+  size: number;
+  bold?: boolean;
+  color?: string;
+}
+
+interface TextBlockStyle extends TextStyle {
+  align?: TextAlign;
+  valign?: 'top' | 'middle' | 'bottom';
+  lineHeight?: number; // 文字サイズに対する倍率
+  shrink?: boolean; // 収まらない場合に文字を小さくする
+}
+
+const A4_PORTRAIT: [number, number] = [595.28, 841.89];
+const A4_LANDSCAPE: [number, number] = [841.89, 595.28];
+// PowerPoint 出力と同じ 10 x 5.625 インチ。文字サイズ（pt）が同じ見え方になる
+const SLIDE_PAGE: [number, number] = [720, 405];
+const MIN_FONT_SIZE = 5;
+const PT_PER_PX = 0.75;
+
+const toRgb = (hex: string): RGB => {
+  const value = hex.replace('#', '');
+  return rgb(
+    parseInt(value.slice(0, 2), 16) / 255,
+    parseInt(value.slice(2, 4), 16) / 255,
+    parseInt(value.slice(4, 6), 16) / 255,
+  );
+};
+
+// ASCII の連続は単語として、それ以外（和文など）は1文字ずつ折り返し位置の候補にする
+const TOKEN_PATTERN = /[\x21-\x7E]+|[^\S\n]+|[^\x21-\x7E\s]/gu;
+
+const wrapText = (text: string, font: PDFFont, size: number, maxWidth: number): string[] => {
+  const fits = (value: string) => font.widthOfTextAtSize(value, size) <= maxWidth;
+  const lines: string[] = [];
+
+  text.replace(/\r/g, '').replace(/\t/g, '    ').split('\n').forEach(paragraph => {
+    let line = '';
+    for (const token of paragraph.match(TOKEN_PATTERN) ?? []) {
+      if (fits(line + token)) {
+        line += token;
+        continue;
+      }
+      if (line.trim()) lines.push(line.trimEnd());
+      line = '';
+      if (!token.trim()) continue;
+      if (fits(token)) {
+        line = token;
+        continue;
+      }
+      // 1語が1行に収まらない場合は文字単位で折り返す
+      for (const char of token) {
+        if (line && !fits(line + char)) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    }
+    lines.push(line.trimEnd());
+  });
+  return lines;
+};
+
+const truncateText = (text: string, font: PDFFont, size: number, maxWidth: number): string => {
+  const singleLine = text.replace(/\s+/g, ' ');
+  if (font.widthOfTextAtSize(singleLine, size) <= maxWidth) return singleLine;
+  let result = '';
+  for (const char of singleLine) {
+    if (font.widthOfTextAtSize(`${result}${char}…`, size) > maxWidth) break;
+    result += char;
+  }
+  return `${result}…`;
+};
+
+// 左上を原点とする座標で描画するためのページのラッパー
+class PdfCanvas {
+  constructor(readonly page: PDFPage, readonly fonts: PdfFontSet) {}
+
+  get width() {
+    return this.page.getWidth();
+  }
+
+  get height() {
+    return this.page.getHeight();
+  }
+
+  font(bold?: boolean) {
+    return bold ? this.fonts.bold : this.fonts.regular;
+  }
+
+  measure(text: string, style: TextStyle) {
+    return this.font(style.bold).widthOfTextAtSize(text, style.size);
+  }
+
+  rect(box: Box, style: { fill?: string; stroke?: string; lineWidth?: number; dash?: number[]; opacity?: number }) {
+    this.page.drawRectangle({
+      x: box.x,
+      y: this.height - box.y - box.h,
+      width: box.w,
+      height: box.h,
+      color: style.fill ? toRgb(style.fill) : undefined,
+      borderColor: style.stroke ? toRgb(style.stroke) : undefined,
+      borderWidth: style.stroke ? style.lineWidth ?? 1 : 0,
+      borderDashArray: style.dash,
+      opacity: style.opacity,
+    });
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, style: { color: string; width?: number; dash?: number[] }) {
+    this.page.drawLine({
+      start: { x: x1, y: this.height - y1 },
+      end: { x: x2, y: this.height - y2 },
+      thickness: style.width ?? 1,
+      color: toRgb(style.color),
+      dashArray: style.dash,
+    });
+  }
+
+  circle(cx: number, cy: number, radius: number, fill: string) {
+    this.page.drawEllipse({ x: cx, y: this.height - cy, xScale: radius, yScale: radius, color: toRgb(fill) });
+  }
+
+  // SVG のパス（左上原点・y 軸は下向き）をそのまま描く
+  path(d: string, style: { fill?: string; stroke?: string; lineWidth?: number; opacity?: number; dash?: number[] }) {
+    this.page.drawSvgPath(d, {
+      x: 0,
+      y: this.height,
+      color: style.fill ? toRgb(style.fill) : undefined,
+      borderColor: style.stroke ? toRgb(style.stroke) : undefined,
+      borderWidth: style.stroke ? style.lineWidth ?? 1 : 0,
+      borderDashArray: style.dash,
+      opacity: style.opacity,
+    });
+  }
+
+  arrowHead(fromX: number, fromY: number, toX: number, toY: number, color: string, size = 5) {
+    const length = Math.hypot(toX - fromX, toY - fromY) || 1;
+    const ux = (toX - fromX) / length;
+    const uy = (toY - fromY) / length;
+    const baseX = toX - ux * size;
+    const baseY = toY - uy * size;
+    this.path(
+      `M ${toX} ${toY} L ${baseX - uy * size / 2} ${baseY + ux * size / 2} L ${baseX + uy * size / 2} ${baseY - ux * size / 2} Z`,
+      { fill: color },
+    );
+  }
+
+  // 1行のテキスト。top はその行の上端
+  text(text: string, x: number, top: number, style: TextStyle) {
+    if (!text) return;
+    const font = this.font(style.bold);
+    this.page.drawText(text, {
+      x,
+      y: this.height - top - font.heightAtSize(style.size, { descender: false }),
+      size: style.size,
+      font,
+      color: toRgb(style.color ?? '333333'),
+    });
+  }
+
+  // 枠内で折り返して描く。収まらない行は描かない
+  textBlock(text: string, box: Box, style: TextBlockStyle) {
+    const lineHeight = style.lineHeight ?? 1.3;
+    const font = this.font(style.bold);
+    let size = style.size;
+    let lines = wrapText(text, font, size, box.w);
+    while (style.shrink && size > MIN_FONT_SIZE && lines.length * size * lineHeight > box.h) {
+      size = Math.max(MIN_FONT_SIZE, size - 1);
+      lines = wrapText(text, font, size, box.w);
+    }
+
+    const visibleLines = lines.slice(0, Math.max(1, Math.floor(box.h / (size * lineHeight))));
+    const blockHeight = visibleLines.length * size * lineHeight;
+    const offsetY = style.valign === 'middle' ? (box.h - blockHeight) / 2 : style.valign === 'bottom' ? box.h - blockHeight : 0;
+
+    visibleLines.forEach((line, index) => {
+      const width = font.widthOfTextAtSize(line, size);
+      const x = style.align === 'center' ? box.x + (box.w - width) / 2 : style.align === 'right' ? box.x + box.w - width : box.x;
+      this.text(line, x, box.y + offsetY + index * size * lineHeight + (size * (lineHeight - 1)) / 2, { ...style, size });
+    });
+  }
+
+  // object-contain と同じく、縦横比を保って枠の中央に配置する
+  image(image: PDFImage, box: Box) {
+    const scale = Math.min(box.w / image.width, box.h / image.height);
+    const width = image.width * scale;
+    const height = image.height * scale;
+    this.page.drawImage(image, {
+      x: box.x + (box.w - width) / 2,
+      y: this.height - box.y - (box.h + height) / 2,
+      width,
+      height,
+    });
+  }
+
+  withClip(box: Box, draw: () => void) {
+    this.page.pushOperators(pushGraphicsState(), rectangle(box.x, this.height - box.y - box.h, box.w, box.h), clip(), endPath());
+    draw();
+    this.page.pushOperators(popGraphicsState());
+  }
+}
+
+// @pdf-lib/fontkit のサブセット化はグリフを2バイト境界に揃えないまま短い loca 形式で書き出すことがあり、
+// 奇数長のグリフ（Noto Sans JP に多い）が欠ける。埋め込む前に各グリフを偶数長に揃えておく
+const alignGlyphs = (fontBytes: Uint8Array | ArrayBuffer): Uint8Array => {
+  const source = fontBytes instanceof Uint8Array ? fontBytes : new Uint8Array(fontBytes);
+  const view = new DataView(source.buffer, source.byteOffset, source.byteLength);
+  const tables = new Map<string, { entry: number; offset: number }>();
+  for (let i = 0; i < view.getUint16(4); i++) {
+    const entry = 12 + i * 16;
+    tables.set(String.fromCharCode(...source.subarray(entry, entry + 4)), { entry, offset: view.getUint32(entry + 8) });
+  }
+  const head = tables.get('head');
+  const maxp = tables.get('maxp');
+  const loca = tables.get('loca');
+  const glyf = tables.get('glyf');
+  if (!head || !maxp || !loca || !glyf) return source; // CFF のフォントには glyf がない
+
+  const isLongFormat = view.getInt16(head.offset + 50) === 1;
+  const glyphCount = view.getUint16(maxp.offset + 4);
+  const offsetAt = (index: number) => isLongFormat ? view.getUint32(loca.offset + index * 4) : view.getUint16(loca.offset + index * 2) * 2;
+  const lengths = Array.from({ length: glyphCount }, (_, index) => offsetAt(index + 1) - offsetAt(index));
+  if (lengths.every(length => length % 2 === 0)) return source;
+
+  // 新しい loca と glyf を末尾に追加し、テーブルの参照先を差し替える（元のデータは使われなくなるだけ）
+  const locaStart = Math.ceil(source.length / 4) * 4;
+  const glyfStart = locaStart + (glyphCount + 1) * 4;
+  const glyfLength = lengths.reduce((sum, length) => sum + length + (length % 2), 0);
+  const result = new Uint8Array(glyfStart + glyfLength);
+  result.set(source);
+  const out = new DataView(result.buffer);
+  let position = 0;
+  lengths.forEach((length, index) => {
+    out.setUint32(locaStart + index * 4, position);
+    const start = glyf.offset + offsetAt(index);
+    result.set(source.subarray(start, start + length), glyfStart + position);
+    position += length + (length % 2);
+  });
+  out.setUint32(locaStart + glyphCount * 4, position);
+  out.setInt16(head.offset + 50, 1);
+  out.setUint32(loca.entry + 8, locaStart);
+  out.setUint32(loca.entry + 12, (glyphCount + 1) * 4);
+  out.setUint32(glyf.entry + 8, glyfStart);
+  out.setUint32(glyf.entry + 12, glyfLength);
+  return result;
+};
+
+const createDocument = async (options: PdfRenderOptions) => {
+  const doc = await PDFDocument.create();
+  doc.registerFontkit(fontkit);
+  // 名前を固定し、サブセットフォント名にランダムな接尾辞が付かないようにする
+  const regular = await doc.embedFont(alignGlyphs(options.fonts.regular), { subset: true, customName: 'NotoSansJP-Regular' });
+  const bold = options.fonts.bold
+    ? await doc.embedFont(alignGlyphs(options.fonts.bold), { subset: true, customName: 'NotoSansJP-Bold' })
+    : regular;
+
+  const date = options.creationDate ?? new Date();
+  doc.setCreationDate(date);
+  doc.setModificationDate(date);
+  doc.setProducer('AI Project Planner');
+  doc.setCreator('AI Project Planner');
+  if (options.title) doc.setTitle(options.title);
+
+  return { doc, fonts: { regular, bold } };
+};
+
+// 同じ添付画像は一度だけ埋め込む
+const createImageCache = (doc: PDFDocument, options: PdfRenderOptions) => {
+  const cache = new Map<string, Promise<PDFImage | null>>();
+  return (attachment: Attachment): Promise<PDFImage | null> => {
+    let image = cache.get(attachment.id);
+    if (!image) {
+      image = (async () => {
+        if (!options.loadImage) return null;
+        try {
+          const data = await options.loadImage(attachment);
+          if (!data) return null;
+          return data.type === 'png' ? await doc.embedPng(data.bytes) : await doc.embedJpg(data.bytes);
+        } catch (error) {
+          console.error(`Failed to embed image ${attachment.name}:`, error);
+          return null;
+        }
+      })();
+      cache.set(attachment.id, image);
+    }
+    return image;
+  };
+};
+
+const drawPageNumbers = (doc: PDFDocument, fonts: PdfFontSet, margin: number) => {
+  const pages = doc.getPages();
+  pages.forEach((page, index) => {
+    const canvas = new PdfCanvas(page, fonts);
+    const label = `${index + 1} / ${pages.length}`;
+    const size = 8;
+    canvas.text(label, canvas.width - margin - canvas.measure(label, { size }), canvas.height - margin / 2 - size, { size, color: '94A3B8' });
+  });
+};
+
+// --- スライドデッキ ---
+
+const toBox = (position: SlideElementPosition): Box => ({
+  x: (position.x / 100) * SLIDE_PAGE[0],
+  y: (position.y / 100) * SLIDE_PAGE[1],
+  w: (position.width / 100) * SLIDE_PAGE[0],
+  h: (position.height / 100) * SLIDE_PAGE[1],
+});
+
+const drawPlaceholder = (canvas: PdfCanvas, box: Box, message: string, theme: SlideTheme) => {
+  canvas.rect(box, { fill: theme.tableHeaderFill, stroke: theme.tableBorder, lineWidth: 0.75, dash: [3, 2] });
+  canvas.textBlock(message, { ...box, x: box.x + 4, w: box.w - 8 }, { size: 9, color: theme.mutedText, align: 'center', valign: 'middle' });
+};
+
+const drawTextbox = (canvas: PdfCanvas, el: TextboxElement, theme: SlideTheme) => {
+  const box = toBox(el.position);
+  canvas.textBlock(el.content, { x: box.x + 4, y: box.y + 4, w: box.w - 8, h: box.h - 8 }, {
+    size: TEXTBOX_FONT_SIZES[el.fontSize ?? 'medium'],
+    bold: el.fontWeight === 'bold',
+    align: el.textAlign ?? 'left',
+    color: theme.text,
+    shrink: true,
+  });
+};
+
+const drawMatrixTable = (canvas: PdfCanvas, box: Box, matrix: { headers: string[]; rows: string[][] }, theme: SlideTheme) => {
+  const columnCount = Math.max(1, matrix.headers.length);
+  const rowCount = matrix.rows.length + 1;
+  const rowHeight = Math.min(box.h / rowCount, 22);
+  const columnWidth = box.w / columnCount;
+  const size = Math.max(MIN_FONT_SIZE, Math.min(10, rowHeight * 0.45));
+
+  [matrix.headers, ...matrix.rows].forEach((row, rowIndex) => {
+    const y = box.y + rowIndex * rowHeight;
+    if (rowIndex === 0) canvas.rect({ x: box.x, y, w: box.w, h: rowHeight }, { fill: theme.tableHeaderFill });
+    matrix.headers.forEach((_, columnIndex) => {
+      const cell = { x: box.x + columnIndex * columnWidth, y, w: columnWidth, h: rowHeight };
+      canvas.rect(cell, { stroke: theme.tableBorder, lineWidth: 0.5 });
+      const value = truncateText(row[columnIndex] ?? '', canvas.font(rowIndex === 0), size, cell.w - 6);
+      canvas.textBlock(value, { x: cell.x + 3, y: cell.y, w: cell.w - 6, h: cell.h }, {
+        size, bold: rowIndex === 0, color: rowIndex === 0 ? theme.tableHeaderText : theme.text, valign: 'middle',
+      });
+    });
+  });
+};
+
+const drawTable = (canvas: PdfCanvas, el: TableElement, tasks: ProjectTask[], theme: SlideTheme) => {
+  const matrixData = findReportActionItem(tasks, el.subStepId, el.actionItemId)?.report?.matrixData;
+  if (!matrixData) {
+    drawPlaceholder(canvas, toBox(el.position), 'データなし', theme);
+    return;
+  }
+  drawMatrixTable(canvas, toBox(el.position), matrixData, theme);
+};
+
+const CHART_FONT_SIZE = 7;
+const CHART_TARGET_COLOR = 'DC2626';
+
+// 凡例を描き、グラフ本体に使える領域を返す
+const drawChartLegend = (canvas: PdfCanvas, area: Box, model: ChartModel, theme: SlideTheme): Box => {
+  const items = getChartLegendItems(model, theme.chartColors);
+  if (items.length === 0 || model.legendPosition === 'none') return area;
+  const size = CHART_FONT_SIZE;
+  const rowHeight = size * 1.6;
+
+  if (model.legendPosition === 'right') {
+    const legendWidth = Math.min(area.w * 0.35, 110);
+    const shown = items.slice(0, Math.max(1, Math.floor(area.h / rowHeight)));
+    const top = area.y + (area.h - shown.length * rowHeight) / 2;
+    shown.forEach((item, index) => {
+      const y = top + index * rowHeight;
+      canvas.rect({ x: area.x + area.w - legendWidth + 4, y: y + 1.5, w: 6, h: 6 }, { fill: item.color });
+      canvas.text(truncateText(item.label, canvas.font(), size, legendWidth - 14), area.x + area.w - legendWidth + 13, y, { size, color: theme.text });
+    });
+    return { ...area, w: area.w - legendWidth };
+  }
+
+  const labels = items.map(item => truncateText(item.label, canvas.font(), size, 90));
+  const widths = labels.map(label => canvas.measure(label, { size }) + 18);
+  let x = area.x + Math.max(0, (area.w - widths.reduce((sum, width) => sum + width, 0)) / 2);
+  const y = model.legendPosition === 'top' ? area.y : area.y + area.h - rowHeight;
+  items.forEach((item, index) => {
+    if (x + widths[index] > area.x + area.w + 1) return;
+    canvas.rect({ x, y: y + 1.5, w: 6, h: 6 }, { fill: item.color });
+    canvas.text(labels[index], x + 9, y, { size, color: theme.text });
+    x += widths[index];
+  });
+  return model.legendPosition === 'top' ? { ...area, y: area.y + rowHeight, h: area.h - rowHeight } : { ...area, h: area.h - rowHeight };
+};
+
+const drawPieChart = (canvas: PdfCanvas, box: Box, model: ChartModel, theme: SlideTheme) => {
+  const values = model.series[0].values.map(value => Math.max(0, value ?? 0));
+  const total = values.reduce((sum, value) => sum + value, 0);
+  if (total <= 0) {
+    drawPlaceholder(canvas, box, '表示できるデータがありません', theme);
+    return;
+  }
+  const radius = Math.max(4, Math.min(box.w, box.h) / 2 - 4);
+  const cx = box.x + box.w / 2;
+  const cy = box.y + box.h / 2;
+
+  let angle = -Math.PI / 2;
+  values.forEach((value, index) => {
+    const share = value / total;
+    const color = getChartSeriesColor(model, index, theme.chartColors);
+    if (share <= 0) return;
+    if (share >= 1) {
+      canvas.circle(cx, cy, radius, color);
+      return;
+    }
+    const end = angle + share * Math.PI * 2;
+    const largeArc = share > 0.5 ? 1 : 0;
+    canvas.path(
+      `M ${cx} ${cy} L ${cx + radius * Math.cos(angle)} ${cy + radius * Math.sin(angle)} ` +
+      `A ${radius} ${radius} 0 ${largeArc} 1 ${cx + radius * Math.cos(end)} ${cy + radius * Math.sin(end)} Z`,
+      { fill: color },
+    );
+    angle = end;
+  });
+};
+
+const scaleY = (scale: ChartScale, plot: Box, value: number) => plot.y + plot.h - ((value - scale.min) / (scale.max - scale.min || 1)) * plot.h;
+const scaleX = (scale: ChartScale, plot: Box, value: number) => plot.x + ((value - scale.min) / (scale.max - scale.min || 1)) * plot.w;
+
+// 目盛り・軸タイトルを描き、データを描く領域を返す
+const drawValueAxis = (canvas: PdfCanvas, area: Box, model: ChartModel, el: ChartElement, theme: SlideTheme): Box => {
+  const size = CHART_FONT_SIZE;
+  const scale = model.valueScale;
+  const tickLabels = scale.ticks.map(tick => formatChartValue(tick, el.yAxis?.unit));
+  const left = Math.max(...tickLabels.map(label => canvas.measure(label, { size }))) + 4;
+  const top = el.yAxis?.title ? size * 1.8 : 4;
+  const bottom = size * 1.6 + (el.xAxis?.title ? size * 1.6 : 0);
+  const plot = { x: area.x + left, y: area.y + top, w: area.w - left - 6, h: area.h - top - bottom };
+
+  scale.ticks.forEach((tick, index) => {
+    const y = scaleY(scale, plot, tick);
+    canvas.line(plot.x, y, plot.x + plot.w, y, { color: tick === 0 ? theme.mutedText : theme.tableBorder, width: 0.5 });
+    canvas.text(tickLabels[index], plot.x - 3 - canvas.measure(tickLabels[index], { size }), y - size / 2, { size, color: theme.mutedText });
+  });
+  canvas.line(plot.x, plot.y, plot.x, plot.y + plot.h, { color: theme.mutedText, width: 0.5 });
+
+  if (el.yAxis?.title) {
+    // 縦軸のタイトルは回転させず、軸の上に置く
+    canvas.text(truncateText(el.yAxis.title, canvas.font(), size, area.w / 2), area.x, area.y, { size, color: theme.mutedText });
+  }
+  if (el.xAxis?.title) {
+    const title = truncateText(el.xAxis.title, canvas.font(), size, plot.w);
+    canvas.text(title, plot.x + (plot.w - canvas.measure(title, { size })) / 2, area.y + area.h - size * 1.3, { size, color: theme.mutedText });
+  }
+  return plot;
+};
+
+const drawTargetLine = (canvas: PdfCanvas, plot: Box, model: ChartModel) => {
+  if (!model.target || model.target.value < model.valueScale.min || model.target.value > model.valueScale.max) return;
+  const y = scaleY(model.valueScale, plot, model.target.value);
+  const size = CHART_FONT_SIZE;
+  canvas.line(plot.x, y, plot.x + plot.w, y, { color: CHART_TARGET_COLOR, width: 1, dash: [4, 2] });
+  canvas.text(model.target.label, plot.x + plot.w - 2 - canvas.measure(model.target.label, { size }), y - size - 2, { size, color: CHART_TARGET_COLOR });
+};
+
+// 棒・折れ線・面と複合グラフ
+const drawCartesianChart = (canvas: PdfCanvas, area: Box, model: ChartModel, el: ChartElement, theme: SlideTheme) => {
+  const plot = drawValueAxis(canvas, area, model, el, theme);
+  const scale = model.valueScale;
+  const slot = plot.w / model.categories.length;
+  const size = CHART_FONT_SIZE;
+  const colorOf = (index: number) => getChartSeriesColor(model, index, theme.chartColors);
+  const center = (index: number) => plot.x + slot * index + slot / 2;
+
+  const labelStep = Math.max(1, Math.ceil(model.categories.length / Math.max(1, Math.floor(plot.w / 30))));
+  model.categories.forEach((category, index) => {
+    if (index % labelStep !== 0) return;
+    const label = truncateText(`${category}${el.xAxis?.unit ?? ''}`, canvas.font(), size, slot * labelStep - 2);
+    canvas.text(label, center(index) - canvas.measure(label, { size }) / 2, plot.y + plot.h + 3, { size, color: theme.mutedText });
+  });
+
+  // 値の無い点で線を切る
+  const segments = (values: (number | null)[], bases: number[]) => {
+    const result: { x: number; top: number; base: number }[][] = [[]];
+    values.forEach((value, index) => {
+      if (value === null) {
+        result.push([]);
+        return;
+      }
+      result[result.length - 1].push({ x: center(index), top: scaleY(scale, plot, bases[index] + value), base: scaleY(scale, plot, bases[index]) });
+    });
+    return result.filter(points => points.length > 0);
+  };
+
+  const barSeries = model.series.map((s, index) => ({ s, index })).filter(({ s }) => s.type === 'bar');
+  const barWidth = slot * 0.7 / (model.stacked ? 1 : Math.max(1, barSeries.length));
+
+  canvas.withClip(plot, () => {
+    model.series.forEach((s, index) => {
+      if (s.type !== 'area') return;
+      segments(s.values, s.bases).forEach(points => {
+        const d = [...points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.top}`), ...points.slice().reverse().map(p => `L ${p.x} ${p.base}`), 'Z'].join(' ');
+        canvas.path(d, { fill: colorOf(index), opacity: 0.45 });
+        canvas.path(points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.top}`).join(' '), { stroke: colorOf(index), lineWidth: 1 });
+      });
+    });
+    barSeries.forEach(({ s, index }, barIndex) => {
+      s.values.forEach((value, category) => {
+        if (value === null) return;
+        const top = scaleY(scale, plot, s.bases[category] + value);
+        const base = scaleY(scale, plot, s.bases[category]);
+        const x = plot.x + slot * category + slot * 0.15 + (model.stacked ? 0 : barIndex * barWidth);
+        canvas.rect({ x, y: Math.min(top, base), w: barWidth, h: Math.abs(base - top) }, { fill: colorOf(index) });
+      });
+    });
+    model.series.forEach((s, index) => {
+      if (s.type !== 'line') return;
+      segments(s.values, s.bases).forEach(points => {
+        if (points.length > 1) {
+          canvas.path(points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.top}`).join(' '), { stroke: colorOf(index), lineWidth: 1.5 });
+        }
+        points.forEach(p => canvas.circle(p.x, p.top, 2, colorOf(index)));
+      });
+    });
+  });
+  drawTargetLine(canvas, plot, model);
+};
+
+const drawScatterChart = (canvas: PdfCanvas, area: Box, model: ChartModel, el: ChartElement, theme: SlideTheme) => {
+  const { xValues, xScale } = model;
+  if (!xValues || !xScale) return;
+  const plot = drawValueAxis(canvas, area, model, el, theme);
+  const size = CHART_FONT_SIZE;
+
+  canvas.line(plot.x, plot.y + plot.h, plot.x + plot.w, plot.y + plot.h, { color: theme.mutedText, width: 0.5 });
+  xScale.ticks.forEach(tick => {
+    const label = formatChartValue(tick, el.xAxis?.unit);
+    canvas.text(label, scaleX(xScale, plot, tick) - canvas.measure(label, { size }) / 2, plot.y + plot.h + 3, { size, color: theme.mutedText });
+  });
+  canvas.withClip(plot, () => {
+    model.series.forEach((s, index) => {
+      s.values.forEach((value, point) => {
+        if (value === null) return;
+        canvas.circle(scaleX(xScale, plot, xValues[point]), scaleY(model.valueScale, plot, value), 2.5, getChartSeriesColor(model, index, theme.chartColors));
+      });
+    });
+  });
+  drawTargetLine(canvas, plot, model);
+};
+
+const drawChart = (canvas: PdfCanvas, el: ChartElement, tasks: ProjectTask[], theme: SlideTheme) => {
+  const box = toBox(el.position);
+  const model = resolveChartModel(tasks, el);
+  if (!model) {
+    drawPlaceholder(canvas, box, 'チャートデータなし', theme);
+    return;
+  }
+
+  let area = box;
+  if (el.title) {
+    const titleHeight = 16;
+    canvas.textBlock(el.title, { ...box, h: titleHeight }, { size: 10, bold: true, color: theme.text, align: 'center', valign: 'middle' });
+    area = { ...box, y: box.y + titleHeight, h: box.h - titleHeight };
+  }
+  const plotArea = drawChartLegend(canvas, area, model, theme);
+  if (model.chartType === 'pie') drawPieChart(canvas, plotArea, model, theme);
+  else if (model.chartType === 'scatter') drawScatterChart(canvas, plotArea, model, el, theme);
+  else drawCartesianChart(canvas, plotArea, model, el, theme);
+};
+
+const drawFlowchart = (canvas: PdfCanvas, el: FlowchartElement, tasks: ProjectTask[], theme: SlideTheme) => {
+  const box = toBox(el.position);
+  const subSteps = resolveFlowchartSubSteps(tasks, el).filter((ss): ss is SubStep & { position: { x: number; y: number } } => !!ss.position);
+  if (subSteps.length === 0) {
+    drawPlaceholder(canvas, box, 'フローチャートのデータが見つかりません。', theme);
+    return;
+  }
+
+  const contentWidth = Math.max(...subSteps.map(ss => ss.position.x + FLOWCHART_CARD_WIDTH)) + 20;
+  const contentHeight = Math.max(...subSteps.map(ss => ss.position.y + FLOWCHART_CARD_HEIGHT)) + 20;
+  const scale = Math.min(box.w / contentWidth, box.h / contentHeight);
+  const offsetX = box.x + (box.w - contentWidth * scale) / 2;
+  const offsetY = box.y + (box.h - contentHeight * scale) / 2;
+  const toX = (px: number) => offsetX + px * scale;
+  const toY = (px: number) => offsetY + px * scale;
+
+  const byId = new Map(subSteps.map(ss => [ss.id, ss]));
+  subSteps.forEach(source => {
+    (source.nextSubStepIds || []).forEach(targetId => {
+      const target = byId.get(targetId);
+      if (!target) return;
+      const x1 = toX(source.position.x + FLOWCHART_CARD_WIDTH);
+      const y1 = toY(source.position.y + FLOWCHART_CARD_HEIGHT / 2);
+      const x2 = toX(target.position.x);
+      const y2 = toY(target.position.y + FLOWCHART_CARD_HEIGHT / 2);
+      canvas.line(x1, y1, x2, y2, { color: theme.mutedText, width: 1 });
+      canvas.arrowHead(x1, y1, x2, y2, theme.mutedText, Math.max(3, 8 * scale));
+    });
+  });
+
+  subSteps.forEach(ss => {
+    const card = { x: toX(ss.position.x), y: toY(ss.position.y), w: FLOWCHART_CARD_WIDTH * scale, h: FLOWCHART_CARD_HEIGHT * scale };
+    const isCompleted = ss.status === SubStepStatus.COMPLETED;
+    canvas.rect(card, { fill: 'FFFFFF', stroke: FLOWCHART_STATUS_COLORS[ss.status ?? SubStepStatus.NOT_STARTED], lineWidth: 1.5 });
+    canvas.textBlock(ss.text, { x: card.x + 4, y: card.y + 2, w: card.w - 8, h: card.h - 4 }, {
+      size: Math.max(MIN_FONT_SIZE, Math.min(12, 12 * scale)), // カード内の 12px をページ上の大きさに換算
+      bold: true,
+      color: isCompleted ? '64748B' : '333333',
+      align: 'center',
+      valign: 'middle',
+      shrink: true,
+    });
+  });
+};
+
+const DATA_TEXT_SIZE = 9;
+
+const clampPercent = (percent: number) => Math.min(Math.max(percent, 0), 100);
+
+const drawDataElement = (canvas: PdfCanvas, el: DataElement, tasks: ProjectTask[], theme: SlideTheme) => {
+  const box = toBox(el.position);
+  const view = resolveSlideDataView(tasks, el);
+  if (!view) {
+    drawPlaceholder(canvas, box, 'データが見つかりません', theme);
+    return;
+  }
+
+  const titleHeight = Math.min(18, box.h * 0.25);
+  canvas.textBlock(view.title, { x: box.x + 4, y: box.y, w: box.w - 8, h: titleHeight }, { size: 10, bold: true, color: theme.text, valign: 'middle', shrink: true });
+  const area = { x: box.x + 4, y: box.y + titleHeight + 2, w: box.w - 8, h: box.h - titleHeight - 4 };
+
+  switch (view.kind) {
+    case 'metric': {
+      const valueHeight = Math.min(area.h * 0.5, 40);
+      canvas.textBlock(view.value, { ...area, h: valueHeight }, { size: valueHeight * 0.7, bold: true, color: theme.accent, align: 'center', valign: 'middle', shrink: true });
+      let y = area.y + valueHeight + 4;
+      if (view.percent !== null) {
+        const bar = { x: area.x, y, w: area.w, h: 6 };
+        canvas.rect(bar, { fill: theme.tableHeaderFill });
+        canvas.rect({ ...bar, w: (bar.w * clampPercent(view.percent)) / 100 }, { fill: theme.accent });
+        y += 10;
+      }
+      canvas.textBlock(view.caption, { x: area.x, y, w: area.w, h: area.y + area.h - y }, { size: DATA_TEXT_SIZE, color: theme.mutedText, align: 'center', shrink: true });
+      return;
+    }
+    case 'breakdown': {
+      const total = view.items.reduce((sum, item) => sum + item.count, 0);
+      const rowHeight = Math.min(area.h / Math.max(1, view.items.length), 20);
+      const size = Math.max(MIN_FONT_SIZE, Math.min(DATA_TEXT_SIZE, rowHeight * 0.5));
+      const labelWidth = area.w * 0.4;
+      const countWidth = 28;
+      view.items.forEach((item, index) => {
+        const y = area.y + index * rowHeight;
+        canvas.textBlock(item.label, { x: area.x, y, w: labelWidth - 4, h: rowHeight }, { size, color: theme.text, valign: 'middle', shrink: true });
+        const track = { x: area.x + labelWidth, y: y + rowHeight * 0.25, w: area.w - labelWidth - countWidth, h: rowHeight * 0.5 };
+        canvas.rect(track, { fill: theme.tableHeaderFill });
+        if (total > 0) canvas.rect({ ...track, w: (track.w * item.count) / total }, { fill: item.color });
+        canvas.textBlock(String(item.count), { x: track.x + track.w, y, w: countWidth, h: rowHeight }, { size, bold: true, color: theme.text, align: 'right', valign: 'middle' });
+      });
+      return;
+    }
+    case 'table':
+      drawMatrixTable(canvas, area, view, theme);
+      return;
+    case 'timeline': {
+      const size = 7;
+      const rowHeight = Math.min((area.h - size * 2) / Math.max(1, view.items.length), 18);
+      const labelWidth = area.w * 0.3;
+      const labelSize = Math.max(MIN_FONT_SIZE, Math.min(DATA_TEXT_SIZE, rowHeight * 0.6));
+      const track = { x: area.x + labelWidth, w: area.w - labelWidth };
+      view.items.forEach((item, index) => {
+        const y = area.y + index * rowHeight;
+        const label = truncateText(item.name, canvas.font(), labelSize, labelWidth - 4);
+        canvas.textBlock(label, { x: area.x, y, w: labelWidth - 4, h: rowHeight }, { size: labelSize, color: theme.text, valign: 'middle' });
+        const { left, width } = getTimelineBarFraction(view, item);
+        const bar = { x: track.x + track.w * left, y: y + rowHeight * 0.2, w: Math.max(1, track.w * width), h: rowHeight * 0.6 };
+        const color = item.isCritical ? GANTT_CRITICAL_COLOR : theme.accent;
+        canvas.rect(bar, { fill: color, opacity: 0.35 });
+        canvas.rect({ ...bar, w: (bar.w * clampPercent(item.progress)) / 100 }, { fill: color });
+      });
+      const labelY = area.y + view.items.length * rowHeight + 2;
+      canvas.text(view.start, track.x, labelY, { size, color: theme.mutedText });
+      canvas.text(view.end, track.x + track.w - canvas.measure(view.end, { size }), labelY, { size, color: theme.mutedText });
+      return;
+    }
+  }
+};
+
+const drawSlideImage = async (canvas: PdfCanvas, el: ImageElement, tasks: ProjectTask[], theme: SlideTheme, getImage: (attachment: Attachment) => Promise<PDFImage | null>) => {
+  const box = toBox(el.position);
+  const attachment = findReportActionItem(tasks, el.subStepId, el.actionItemId)?.report?.attachments?.find(a => a.id === el.attachmentId);
+  if (!attachment) {
+    drawPlaceholder(canvas, box, '画像が見つかりません', theme);
+    return;
+  }
+  const image = await getImage(attachment);
+  if (image) canvas.image(image, box);
+  else drawPlaceholder(canvas, box, `画像を読み込めませんでした: ${attachment.name}`, theme);
+};
+
+const drawSlideElement = async (canvas: PdfCanvas, el: SlideElement, tasks: ProjectTask[], theme: SlideTheme, getImage: (attachment: Attachment) => Promise<PDFImage | null>) => {
+  // 要素の枠からはみ出た描画は切り取る（エディタの overflow: hidden と同じ）
+  const box = toBox(el.position);
+  if (el.type === 'image') {
+    await drawSlideImage(canvas, el, tasks, theme, getImage);
+    return;
+  }
+  canvas.withClip(box, () => {
+    switch (el.type) {
+      case 'textbox': return drawTextbox(canvas, el, theme);
+      case 'table': return drawTable(canvas, el, tasks, theme);
+      case 'chart': return drawChart(canvas, el, tasks, theme);
+      case 'flowchart': return drawFlowchart(canvas, el, tasks, theme);
+      case 'data': return drawDataElement(canvas, el, tasks, theme);
+    }
+  });
+};
+
+// スライドマスターのロゴ（PNG または JPEG の data URL）。読み込めない場合はロゴなしで描く
+const embedLogo = async (doc: PDFDocument, theme: SlideTheme): Promise<PDFImage | null> => {
+  if (!theme.logo) return null;
+  try {
+    const { dataUrl } = theme.logo;
+    const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+    const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+    if (dataUrl.startsWith('data:image/png')) return await doc.embedPng(bytes);
+    if (dataUrl.startsWith('data:image/jpeg')) return await doc.embedJpg(bytes);
+    return null;
+  } catch (error) {
+    console.error('Failed to embed the slide master logo:', error);
+    return null;
+  }
+};
+
+// 背景・ロゴ・フッター・スライド番号（PowerPoint のスライドマスターと同じ配置）
+const drawSlideMaster = (canvas: PdfCanvas, theme: SlideTheme, logo: PDFImage | null, slideNumber: number) => {
+  canvas.rect({ x: 0, y: 0, w: canvas.width, h: canvas.height }, { fill: theme.background });
+  if (logo && theme.logo) canvas.image(logo, toBox(theme.logo.position));
+  if (theme.footerText) {
+    canvas.textBlock(theme.footerText, toBox(SLIDE_FOOTER_POSITION), { size: SLIDE_FOOTER_FONT_SIZE, color: theme.mutedText, valign: 'middle', shrink: true });
+  }
+  if (theme.showSlideNumbers) {
+    canvas.textBlock(String(slideNumber), toBox(SLIDE_NUMBER_POSITION), { size: SLIDE_FOOTER_FONT_SIZE, color: theme.mutedText, align: 'right', valign: 'middle' });
+  }
+};
+
+const drawSlide = async (doc: PDFDocument, fonts: PdfFontSet, slide: Slide, slideNumber: number, tasks: ProjectTask[], theme: SlideTheme, logo: PDFImage | null, getImage: (attachment: Attachment) => Promise<PDFImage | null>) => {
+  const canvas = new PdfCanvas(doc.addPage(SLIDE_PAGE), fonts);
+  drawSlideMaster(canvas, theme, logo, slideNumber);
+  for (const el of slide.elements) {
+    await drawSlideElement(canvas, el, tasks, theme, getImage);
+  }
+};
+
+/**
+ * Renders a slide deck as a PDF, one 16:9 page per slide, with the background, logo, footer and slide numbers of its theme.
+ * @param deck The slide deck.
+ * @param tasks The tasks the deck refers to (images, tables and charts read action item reports).
+ * @param options Fonts, image loader and metadata.
+ * @returns The PDF file contents.
+ */
+export const renderSlideDeckPdf = async (deck: SlideDeck, tasks: ProjectTask[], options: PdfRenderOptions): Promise<Uint8Array> => {
+  const { doc, fonts } = await createDocument(options);
+  const getImage = createImageCache(doc, options);
+  const theme = getSlideTheme(deck);
+  const logo = await embedLogo(doc, theme);
+  for (const [index, slide] of deck.slides.entries()) {
+    await drawSlide(doc, fonts, slide, index + 1, tasks, theme, logo, getImage);
+  }
+  return doc.save();
+};
+
+// --- ガントチャート ---
+
+export interface GanttPdfInput {
+  items: GanttItem[]; // 出力する行（表示順。展開されていない項目は含めない）
+  timelineStart: Date;
+  totalDays: number;
+  zoomLevel: GanttZoomLevel;
+  showDependencies?: boolean;
+  showCriticalPath?: boolean;
+  baseline?: ProjectBaseline | null;
+}
+
+const GANTT_MARGIN = 28;
+const GANTT_TITLE_HEIGHT = 24;
+const GANTT_HEADER_HEIGHT = 30;
+const GANTT_ROW_HEIGHT = 18;
+const GANTT_NAME_WIDTH = 170;
+// 画面の行の高さ（40px）に対するバーの高さ
+const GANTT_BAR_RATIOS: Record<GanttItem['type'], number> = { task: 24 / 40, substep: 20 / 40, actionitem: 8 / 40 };
+const ZOOM_LABELS: Record<GanttZoomLevel, string> = { day: '日', week: '週', month: '月' };
+
+/**
+ * Renders the Gantt timeline as a PDF. The timeline keeps the scale of the chosen zoom level
+ * and is tiled across A4 landscape pages: across time first, then down the rows.
+ * @param input The rows, time range and display options (as shown in the Gantt view).
+ * @param options Fonts and metadata.
+ * @returns The PDF file contents.
+ */
+export const renderGanttPdf = async (input: GanttPdfInput, options: PdfRenderOptions): Promise<Uint8Array> => {
+  const { doc, fonts } = await createDocument(options);
+  const [pageWidth, pageHeight] = A4_LANDSCAPE;
+  const dayWidth = GANTT_DAY_WIDTHS[input.zoomLevel] * PT_PER_PX;
+  const headers = buildTimelineHeaders(input.timelineStart, input.totalDays, input.zoomLevel);
+  const timelineWidth = input.totalDays * dayWidth;
+  const tileWidth = pageWidth - GANTT_MARGIN * 2 - GANTT_NAME_WIDTH;
+  const rowsPerPage = Math.max(1, Math.floor((pageHeight - GANTT_MARGIN * 2 - GANTT_TITLE_HEIGHT - GANTT_HEADER_HEIGHT) / GANTT_ROW_HEIGHT));
+  const columnTiles = Math.max(1, Math.ceil(timelineWidth / tileWidth));
+  const rowChunks = Math.max(1, Math.ceil(input.items.length / rowsPerPage));
+
+  const colorOf = createGanttColorResolver(input.items);
+  const baselineMap = new Map((input.baseline?.items || []).map(item => [item.id, item]));
+  const daysFromStart = (date: string) => {
+    const value = new Date(date);
+    return isNaN(value.getTime()) ? -1 : (value.getTime() - input.timelineStart.getTime()) / (1000 * 3600 * 24);
+  };
+  const lastDay = new Date(input.timelineStart);
+  lastDay.setDate(lastDay.getDate() + input.totalDays - 1);
+  const period = `${input.timelineStart.toLocaleDateString('ja-JP')}〜${lastDay.toLocaleDateString('ja-JP')}`;
+
+  for (let chunk = 0; chunk < rowChunks; chunk++) {
+    const rows = input.items.slice(chunk * rowsPerPage, (chunk + 1) * rowsPerPage);
+    const rowIndexMap = new Map(rows.map((item, index) => [item.id, index]));
+
+    for (let tile = 0; tile < columnTiles; tile++) {
+      const canvas = new PdfCanvas(doc.addPage(A4_LANDSCAPE), fonts);
+      const top = GANTT_MARGIN + GANTT_TITLE_HEIGHT;
+      const rowsTop = top + GANTT_HEADER_HEIGHT;
+      const timelineX = GANTT_MARGIN + GANTT_NAME_WIDTH;
+      const timelineBox = { x: timelineX, y: top, w: Math.min(tileWidth, timelineWidth - tile * tileWidth), h: GANTT_HEADER_HEIGHT + rows.length * GANTT_ROW_HEIGHT };
+      const xOf = (days: number) => timelineX + days * dayWidth - tile * tileWidth;
+      const rowMid = (index: number) => rowsTop + index * GANTT_ROW_HEIGHT + GANTT_ROW_HEIGHT / 2;
+
+      canvas.text(options.title ?? 'ガントチャート', GANTT_MARGIN, GANTT_MARGIN, { size: 12, bold: true, color: '1E293B' });
+      const pageInfo = `表示単位: ${ZOOM_LABELS[input.zoomLevel]}　期間: ${period}　行 ${chunk + 1}/${rowChunks}・列 ${tile + 1}/${columnTiles}`;
+      canvas.text(pageInfo, pageWidth - GANTT_MARGIN - canvas.measure(pageInfo, { size: 8 }), GANTT_MARGIN + 3, { size: 8, color: '64748B' });
+
+      // 項目名の列（各ページに繰り返す）
+      canvas.rect({ x: GANTT_MARGIN, y: top, w: GANTT_NAME_WIDTH, h: GANTT_HEADER_HEIGHT }, { fill: 'F1F5F9', stroke: 'CBD5E1', lineWidth: 0.5 });
+      canvas.textBlock('タスク / サブステップ', { x: GANTT_MARGIN + 4, y: top, w: GANTT_NAME_WIDTH - 8, h: GANTT_HEADER_HEIGHT }, { size: 9, bold: true, color: '1E293B', valign: 'middle' });
+      rows.forEach((item, index) => {
+        const y = rowsTop + index * GANTT_ROW_HEIGHT;
+        const indent = item.type === 'task' ? 6 : item.type === 'substep' ? 16 : 26;
+        canvas.rect({ x: GANTT_MARGIN, y, w: 2.5, h: GANTT_ROW_HEIGHT }, { fill: colorOf(item) });
+        const style = { size: 8, bold: item.type === 'task', color: item.type === 'actionitem' && item.progress === 100 ? '16A34A' : item.type === 'task' ? '1E293B' : '475569' };
+        canvas.textBlock(truncateText(item.name, canvas.font(style.bold), style.size, GANTT_NAME_WIDTH - indent - 4), { x: GANTT_MARGIN + indent, y, w: GANTT_NAME_WIDTH - indent - 4, h: GANTT_ROW_HEIGHT }, { ...style, valign: 'middle' });
+        canvas.line(GANTT_MARGIN, y + GANTT_ROW_HEIGHT, timelineX + timelineBox.w, y + GANTT_ROW_HEIGHT, { color: 'E5E7EB', width: 0.5 });
+      });
+      canvas.line(timelineX, top, timelineX, rowsTop + rows.length * GANTT_ROW_HEIGHT, { color: 'CBD5E1', width: 0.5 });
+
+      canvas.withClip(timelineBox, () => {
+        canvas.rect({ x: timelineBox.x, y: top, w: timelineBox.w, h: GANTT_HEADER_HEIGHT }, { fill: 'F8FAFC' });
+        let offset = 0;
+        headers.forEach(header => {
+          const x = xOf(0) + offset * PT_PER_PX;
+          const width = header.width * PT_PER_PX;
+          offset += header.width;
+          if (x + width < timelineBox.x || x > timelineBox.x + timelineBox.w) return;
+          canvas.line(x + width, top, x + width, rowsTop + rows.length * GANTT_ROW_HEIGHT, { color: 'E2E8F0', width: 0.5 });
+          const labelSize = input.zoomLevel === 'day' ? 9 : 8;
+          if (header.secondaryLabel) {
+            canvas.textBlock(header.secondaryLabel, { x, y: top + 3, w: width, h: 10 }, { size: 6.5, color: '475569', align: 'center' });
+          }
+          canvas.textBlock(header.label, { x, y: top + (header.secondaryLabel ? 13 : 9), w: width, h: 14 }, { size: labelSize, bold: true, color: '1E293B', align: 'center' });
+        });
+
+        rows.forEach((item, index) => {
+          const rowTop = rowsTop + index * GANTT_ROW_HEIGHT;
+          const baselineItem = baselineMap.get(item.id);
+          if (baselineItem) {
+            const baselineStart = daysFromStart(baselineItem.start);
+            if (baselineStart >= 0) {
+              const width = Math.max(0.2, daysFromStart(baselineItem.end) - baselineStart + 1) * dayWidth;
+              canvas.rect({ x: xOf(baselineStart), y: rowTop + GANTT_ROW_HEIGHT - 3.5, w: width, h: 2 }, { fill: GANTT_BASELINE_COLOR });
+            }
+          }
+
+          const startDays = daysFromStart(item.start);
+          if (startDays < 0) return;
+          const barHeight = GANTT_ROW_HEIGHT * GANTT_BAR_RATIOS[item.type];
+          const bar = {
+            x: xOf(startDays),
+            y: rowTop + (GANTT_ROW_HEIGHT - barHeight) / 2,
+            w: Math.max(0.2, daysFromStart(item.end) - startDays + 1) * dayWidth,
+            h: barHeight,
+          };
+          const isCritical = !!input.showCriticalPath && !!item.isCritical;
+          canvas.rect(bar, { fill: colorOf(item), stroke: isCritical ? GANTT_CRITICAL_COLOR : undefined, lineWidth: 1.2 });
+          if (item.progress > 0) {
+            canvas.rect({ ...bar, w: (bar.w * Math.min(100, item.progress)) / 100 }, { fill: '000000', opacity: 0.3 });
+          }
+        });
+
+        if (input.showDependencies !== false) {
+          rows.forEach((item, toIndex) => {
+            item.dependencies.forEach(depId => {
+              const fromIndex = rowIndexMap.get(depId);
+              if (fromIndex === undefined) return;
+              const fromItem = rows[fromIndex];
+              const fromEnd = daysFromStart(fromItem.end);
+              const toStart = daysFromStart(item.start);
+              if (fromEnd < 0 || toStart < 0) return;
+              const fromX = xOf(fromEnd + 1);
+              const toX = xOf(toStart);
+              const fromY = rowMid(fromIndex);
+              const toY = rowMid(toIndex);
+              const isCritical = !!input.showCriticalPath && !!fromItem.isCritical && !!item.isCritical;
+              const color = isCritical ? GANTT_CRITICAL_COLOR : '4B5563';
+              canvas.path(`M ${fromX} ${fromY} C ${fromX + 15} ${fromY}, ${toX - 15} ${toY}, ${toX} ${toY}`, { stroke: color, lineWidth: isCritical ? 1.2 : 0.6 });
+              canvas.arrowHead(toX - 4, toY, toX, toY, color, 4);
+            });
+          });
+        }
+      });
+    }
+  }
+
+  drawPageNumbers(doc, fonts, GANTT_MARGIN);
+  return doc.save();
+};
+
+// --- タスクの詳細資料 ---
+
+const DOSSIER_MARGIN = 48;
+const DOSSIER_FOOTER = 24;
+
+// 上から順に内容を流し込み、必要に応じて改ページする
+class PdfFlowWriter {
+  private canvas!: PdfCanvas;
+  private y = 0;
+
+  constructor(private doc: PDFDocument, private fonts: PdfFontSet) {
+    this.addPage();
+  }
+
+  get contentWidth() {
+    return A4_PORTRAIT[0] - DOSSIER_MARGIN * 2;
+  }
+
+  private addPage() {
+    this.canvas = new PdfCanvas(this.doc.addPage(A4_PORTRAIT), this.fonts);
+    this.y = DOSSIER_MARGIN;
+  }
+
+  private ensureSpace(height: number) {
+    if (this.y + height > A4_PORTRAIT[1] - DOSSIER_MARGIN - DOSSIER_FOOTER && this.y > DOSSIER_MARGIN) this.addPage();
+  }
+
+  spacer(height: number) {
+    this.y += height;
+  }
+
+  heading(text: string, level: 1 | 2 | 3) {
+    const size = level === 1 ? 18 : level === 2 ? 13 : 11;
+    const lines = wrapText(text, this.canvas.font(true), size, this.contentWidth);
+    this.ensureSpace(size * 1.4 * Math.min(lines.length, 2) + 24); // 見出しだけがページ末尾に残らないようにする
+    this.y += level === 1 ? 0 : 8;
+    lines.forEach(line => {
+      this.canvas.text(line, DOSSIER_MARGIN, this.y, { size, bold: true, color: level === 1 ? '0F172A' : '1E3A8A' });
+      this.y += size * 1.4;
+    });
+    if (level === 2) {
+      this.canvas.line(DOSSIER_MARGIN, this.y, DOSSIER_MARGIN + this.contentWidth, this.y, { color: 'CBD5E1', width: 0.75 });
+      this.y += 6;
+    } else {
+      this.y += 2;
+    }
+  }
+
+  paragraph(text: string, style: { size?: number; color?: string; bold?: boolean; indent?: number } = {}) {
+    const size = style.size ?? 10;
+    const indent = style.indent ?? 0;
+    wrapText(text, this.canvas.font(style.bold), size, this.contentWidth - indent).forEach(line => {
+      this.ensureSpace(size * 1.5);
+      this.canvas.text(line, DOSSIER_MARGIN + indent, this.y, { size, bold: style.bold, color: style.color ?? '334155' });
+      this.y += size * 1.5;
+    });
+    this.y += 4;
+  }
+
+  keyValues(pairs: [string, string][], indent = 0) {
+    const labelWidth = 96;
+    const size = 9.5;
+    pairs.filter(([, value]) => value).forEach(([label, value]) => {
+      const lines = wrapText(value, this.canvas.font(), size, this.contentWidth - indent - labelWidth);
+      lines.forEach((line, index) => {
+        this.ensureSpace(size * 1.5);
+        if (index === 0) this.canvas.text(label, DOSSIER_MARGIN + indent, this.y, { size, bold: true, color: '475569' });
+        this.canvas.text(line, DOSSIER_MARGIN + indent + labelWidth, this.y, { size, color: '1E293B' });
+        this.y += size * 1.5;
+      });
+    });
+    this.y += 4;
+  }
+
+  // 列幅は比率で指定する。行が改ページをまたぐ場合は見出し行を繰り返す
+  table(headers: string[], rows: string[][], widths?: number[], indent = 0) {
+    const size = 8.5;
+    const padding = 3;
+    const lineHeight = size * 1.35;
+    const totalWidth = this.contentWidth - indent;
+    const ratios = widths ?? headers.map(() => 1);
+    const ratioSum = ratios.reduce((sum, r) => sum + r, 0);
+    const columnWidths = ratios.map(r => (r / ratioSum) * totalWidth);
+
+    const layoutRow = (row: string[], bold: boolean) => {
+      const cells = columnWidths.map((width, index) => wrapText(row[index] ?? '', this.canvas.font(bold), size, width - padding * 2));
+      return { cells, height: Math.max(...cells.map(lines => lines.length)) * lineHeight + padding * 2 };
+    };
+    const drawRow = (layout: { cells: string[][]; height: number }, isHeader: boolean) => {
+      let x = DOSSIER_MARGIN + indent;
+      layout.cells.forEach((lines, index) => {
+        const cell = { x, y: this.y, w: columnWidths[index], h: layout.height };
+        this.canvas.rect(cell, { fill: isHeader ? 'E2E8F0' : undefined, stroke: 'CBD5E1', lineWidth: 0.5 });
+        lines.forEach((line, lineIndex) => {
+          this.canvas.text(line, cell.x + padding, cell.y + padding + lineIndex * lineHeight, { size, bold: isHeader, color: '1E293B' });
+        });
+        x += columnWidths[index];
+      });
+      this.y += layout.height;
+    };
+
+    const header = layoutRow(headers, true);
+    this.ensureSpace(header.height * 2);
+    drawRow(header, true);
+    rows.forEach(row => {
+      const layout = layoutRow(row, false);
+      if (this.y + layout.height > A4_PORTRAIT[1] - DOSSIER_MARGIN - DOSSIER_FOOTER) {
+        this.addPage();
+        drawRow(header, true);
+      }
+      drawRow(layout, false);
+    });
+    this.y += 8;
+  }
+
+  image(image: PDFImage, maxWidth: number, maxHeight: number, indent = 0) {
+    const scale = Math.min(1, maxWidth / image.width, maxHeight / image.height);
+    const height = image.height * scale;
+    this.ensureSpace(height + 6);
+    this.canvas.image(image, { x: DOSSIER_MARGIN + indent, y: this.y, w: image.width * scale, h: height });
+    this.y += height + 6;
+  }
+}
+
+const isImageAttachment = (attachment: Attachment) => attachment.type.startsWith('image/');
+
+const writeAttachments = async (writer: PdfFlowWriter, attachments: Attachment[] | undefined, getImage: (attachment: Attachment) => Promise<PDFImage | null>, indent: number) => {
+  if (!attachments?.length) return;
+  writer.paragraph(`添付ファイル: ${attachments.map(a => a.name).join('、')}`, { size: 9, color: '64748B', indent });
+  for (const attachment of attachments.filter(isImageAttachment)) {
+    const image = await getImage(attachment);
+    if (image) writer.image(image, 260, 180, indent);
+  }
+};
+
+const writeActionItemReport = async (writer: PdfFlowWriter, item: ActionItem, getImage: (attachment: Attachment) => Promise<PDFImage | null>) => {
+  const report = item.report;
+  if (!report || (!report.notes && !report.matrixData && !report.attachments?.length)) return;
+  writer.paragraph(`実施レポート: ${item.text}`, { size: 10, bold: true, color: '1E293B', indent: 12 });
+  if (report.notes) writer.paragraph(report.notes, { size: 9.5, indent: 12 });
+  if (report.matrixData && report.matrixData.headers.length > 0) {
+    writer.table(report.matrixData.headers, report.matrixData.rows, undefined, 12);
+  }
+  await writeAttachments(writer, report.attachments, getImage, 12);
+};
+
+/**
+ * Renders a full task dossier: task details, sub-steps with their action items and reports, and decisions.
+ * @param task The task (with its extended details).
+ * @param context The project the task belongs to, shown in the header.
+ * @param options Fonts, image loader and metadata.
+ * @returns The PDF file contents.
+ */
+export const renderTaskDossierPdf = async (
+  task: ProjectTask,
+  context: { projectGoal?: string; targetDate?: string },
+  options: PdfRenderOptions
+): Promise<Uint8Array> => {
+  const { doc, fonts } = await createDocument({ ...options, title: options.title ?? task.title });
+  const getImage = createImageCache(doc, options);
+  const writer = new PdfFlowWriter(doc, fonts);
+  const details = task.extendedDetails;
+
+  if (context.projectGoal) writer.paragraph(`プロジェクト: ${context.projectGoal}${context.targetDate ? `（目標日 ${context.targetDate}）` : ''}`, { size: 9, color: '64748B' });
+  writer.heading(task.title, 1);
+  writer.keyValues([
+    ['ステータス', TASK_STATUS_LABELS[task.status ?? TaskStatus.NOT_STARTED]],
+    ['担当者', details?.responsible ?? ''],
+    ['期限', details?.dueDate ?? ''],
+    ['見積もり工数', details?.estimatedDays !== undefined ? `${details.estimatedDays}日` : ''],
+    ['必要なリソース', details?.resources ?? ''],
+  ]);
+  if (task.description) writer.paragraph(task.description);
+
+  const target = details?.numericalTarget;
+  if (target) {
+    writer.heading('数値目標', 2);
+    writer.keyValues([
+      ['目標', target.description],
+      ['目標値', `${target.targetValue} ${target.unit}`.trim()],
+      ['現在値', target.currentValue !== undefined ? `${target.currentValue} ${target.unit}`.trim() : ''],
+      ['評価', target.status ? TARGET_STATUS_LABELS[target.status] : ''],
+      ['試験メモ', target.testNotes ?? ''],
+    ]);
+  }
+
+  if (details?.notes) {
+    writer.heading('メモ', 2);
+    writer.paragraph(details.notes);
+  }
+
+  if (details?.resourceMatrix && details.resourceMatrix.headers.length > 0) {
+    writer.heading('リソース表', 2);
+    writer.table(details.resourceMatrix.headers, details.resourceMatrix.rows);
+  }
+
+  if (details?.costLines && details.costLines.length > 0) {
+    writer.heading('予算・コスト', 2);
+    writer.table(
+      ['種別', '対象', '区分', '内容', '金額', '発生日', '承認'],
+      details.costLines.map(line => [
+        COST_LINE_KIND_LABELS[line.kind],
+        line.subStepId ? details.subSteps.find(subStep => subStep.id === line.subStepId)?.text ?? '' : 'タスク全体',
+        COST_CATEGORY_LABELS[line.category],
+        line.description,
+        formatCost(line.amount, line.currency),
+        line.date ?? '',
+        COST_APPROVAL_STATUS_LABELS[line.approvalStatus],
+      ])
+    );
+  }
+
+  const subSteps = details?.subSteps || [];
+  if (subSteps.length > 0) {
+    writer.heading('サブステップ', 2);
+    for (const [index, subStep] of subSteps.entries()) {
+      writer.heading(`${index + 1}. ${subStep.text}`, 3);
+      writer.keyValues([
+        ['状態', SUB_STEP_STATUS_LABELS[subStep.status ?? SubStepStatus.NOT_STARTED]],
+        ['担当者', subStep.responsible ?? ''],
+        ['期限', subStep.dueDate ?? ''],
+        ['見積もり工数', subStep.estimatedDays !== undefined ? `${subStep.estimatedDays}日` : ''],
+      ], 12);
+      if (subStep.notes) writer.paragraph(subStep.notes, { size: 9.5, indent: 12 });
+
+      const actionItems = subStep.actionItems || [];
+      if (actionItems.length > 0) {
+        writer.table(
+          ['完了', 'アクションアイテム', '担当者', '期限', '完了日'],
+          actionItems.map(item => [item.completed ? '✓' : '', item.text, item.responsible ?? '', item.dueDate ?? '', item.completedDate ?? '']),
+          [0.6, 4, 1.6, 1.4, 1.4],
+          12
+        );
+        for (const item of actionItems) {
+          await writeActionItemReport(writer, item, getImage);
+        }
+      }
+      await writeAttachments(writer, subStep.attachments, getImage, 12);
+    }
+  }
+
+  const decisions = details?.decisions || [];
+  if (decisions.length > 0) {
+    writer.heading('決定事項', 2);
+    writer.table(
+      ['論点', '状態', '決定内容', '理由・重要性', '決定者', '承認', '決定日'],
+      decisions.map(d => [
+        d.question,
+        DECISION_STATUS_LABELS[d.status],
+        d.decision ?? '',
+        d.reasoning ?? '',
+        d.decider ?? '',
+        DECISION_APPROVAL_STATE_LABELS[getDecisionApprovalState(d)],
+        d.date ?? '',
+      ]),
+      [3, 1.2, 3, 3, 1.4, 1.2, 1.4]
+    );
+  }
+
+  if (details?.attachments?.length) {
+    writer.heading('タスクの添付ファイル', 2);
+    await writeAttachments(writer, details.attachments, getImage, 0);
+  }
+
+  drawPageNumbers(doc, fonts, DOSSIER_MARGIN);
+  return doc.save();
+};
+
+/**
+ * Renders the project's decision log: every decision with its options, decider, approvals and affected work.
+ * @param tasks The project's tasks.
+ * @param context The project, shown in the header.
+ * @param options Fonts and metadata.
+ * @returns The PDF file contents.
+ */
+export const renderDecisionLogPdf = async (
+  tasks: ProjectTask[],
+  context: { projectGoal?: string; targetDate?: string },
+  options: PdfRenderOptions
+): Promise<Uint8Array> => {
+  const { doc, fonts } = await createDocument({ ...options, title: options.title ?? '決定ログ' });
+  const writer = new PdfFlowWriter(doc, fonts);
+  const entries = collectDecisionLog(tasks);
+  const taskTitles = new Map(tasks.map(task => [task.id, task.title]));
+  const subStepTitles = new Map(tasks.flatMap(task => (task.extendedDetails?.subSteps || []).map(subStep => [subStep.id, subStep.text] as const)));
+
+  if (context.projectGoal) writer.paragraph(`プロジェクト: ${context.projectGoal}${context.targetDate ? `（目標日 ${context.targetDate}）` : ''}`, { size: 9, color: '64748B' });
+  writer.heading('決定ログ', 1);
+  writer.keyValues([
+    ['決定事項', `${entries.length}件`],
+    ['未決定', `${entries.filter(entry => entry.decision.status === 'undecided').length}件`],
+    ['承認待ち', `${entries.filter(entry => entry.approvalState === 'pending').length}件`],
+    ['却下', `${entries.filter(entry => entry.approvalState === 'rejected').length}件`],
+  ]);
+
+  entries.forEach(({ task, decision, approvalState }) => {
+    writer.heading(decision.question || '（無題の決定事項）', 3);
+    const chosen = decision.options?.find(option => option.id === decision.chosenOptionId);
+    writer.keyValues([
+      ['タスク', task.title],
+      ['状態', `${DECISION_STATUS_LABELS[decision.status]}・${DECISION_APPROVAL_STATE_LABELS[approvalState]}`],
+      ['決定内容', decision.decision ?? ''],
+      ['理由・重要性', decision.reasoning ?? ''],
+      ['決定者', decision.decider ?? ''],
+      ['決定日', decision.date ?? ''],
+      ['採用した選択肢', chosen?.text ?? ''],
+      ['検討した選択肢', (decision.options || [])
+        .map(option => [option.text, option.pros && `利点: ${option.pros}`, option.cons && `欠点: ${option.cons}`].filter(Boolean).join(' / '))
+        .join('\n')],
+      ['承認', (decision.approvals || [])
+        .map(approval => `${approval.userName}: ${DECISION_APPROVAL_STATUS_LABELS[approval.status]}${approval.comment ? `「${approval.comment}」` : ''}`)
+        .join('\n')],
+      ['影響タスク', (decision.affectedTaskIds || []).map(id => taskTitles.get(id) ?? id).join('、')],
+      ['影響サブステップ', (decision.affectedSubStepIds || []).map(id => subStepTitles.get(id) ?? id).join('、')],
+      ['AIの提案', decision.aiProposal ? `採用待ち（${decision.aiProposal.decision || decision.aiProposal.question}）` : ''],
+    ], 12);
+  });
+
+  if (entries.length === 0) writer.paragraph('決定事項はありません。', { color: '64748B' });
+
+  drawPageNumbers(doc, fonts, DOSSIER_MARGIN);
+  return doc.save();
+};
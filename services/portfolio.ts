@@ -0,0 +1,233 @@
+import { ProjectHealthReport, ProjectTask, TaskStatus, SubStepStatus, NumericalTargetStatus } from '../types';
+import { ProjectData } from './projectService';
+import { getTaskProgress } from './projectScheduler';
+
+// 複数プロジェクトの状況をまとめるポートフォリオ。
+// 集計は取得済みのプロジェクトから行い、メンバーと最新の診断は PortfolioService が添える
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// 今日から何日先までの期日を「近づいている期日」とするか
+export const PORTFOLIO_UPCOMING_DAYS = 14;
+
+export type PortfolioMemberRole = 'owner' | 'admin' | 'member';
+export type ProjectHealthStatus = ProjectHealthReport['overallStatus'];
+
+export const PORTFOLIO_ROLE_LABELS: Record<PortfolioMemberRole, string> = {
+  owner: '所有者',
+  admin: '管理者',
+  member: 'メンバー',
+};
+
+export const HEALTH_STATUS_LABELS: Record<ProjectHealthStatus, string> = {
+  'On Track': '順調',
+  'At Risk': '要注意',
+  'Off Track': '遅延',
+  'Unknown': '不明',
+};
+
+export interface PortfolioMember {
+  userId: string;
+  userName: string;
+  role: PortfolioMemberRole;
+}
+
+export interface PortfolioHealth {
+  status: ProjectHealthStatus;
+  summary: string;
+  checkedAt: string;
+}
+
+export interface PortfolioDueItem {
+  projectId: string;
+  projectTitle: string;
+  taskId: string;
+  taskTitle: string;
+  kind: 'task' | 'substep' | 'actionitem';
+  text: string;
+  dueDate: string; // YYYY-MM-DD
+  responsible?: string;
+}
+
+export interface PortfolioTargetSummary {
+  achieved: number;
+  missed: number;
+  pending: number;
+  total: number;
+}
+
+export interface ProjectPortfolioEntry {
+  project: ProjectData;
+  members: PortfolioMember[];
+  health?: PortfolioHealth; // 診断を記録していないプロジェクトは undefined
+  statusCounts: Record<TaskStatus, number>;
+  progress: number; // 0-100
+  overdueActionItems: PortfolioDueItem[]; // 期日の古い順
+  upcomingDueItems: PortfolioDueItem[]; // 期日の近い順
+  targets: PortfolioTargetSummary;
+  timeline: { start: string; end: string }; // YYYY-MM-DD
+}
+
+export interface PortfolioSummary {
+  projectCount: number;
+  statusCounts: Record<TaskStatus, number>;
+  overdueActionItemCount: number;
+  upcomingDueItemCount: number;
+  targets: PortfolioTargetSummary;
+  healthCounts: Record<ProjectHealthStatus, number>; // 診断のないプロジェクトは Unknown に数える
+}
+
+export interface PortfolioFilter {
+  userId?: string;
+  role?: PortfolioMemberRole;
+}
+
+const isDate = (value?: string): value is string => !!value && /^\d{4}-\d{2}-\d{2}/.test(value);
+
+const toDateOnly = (value: string) => value.slice(0, 10);
+
+const addDays = (date: string, days: number): string =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * MS_PER_DAY).toISOString().slice(0, 10);
+
+const emptyStatusCounts = (): Record<TaskStatus, number> => ({
+  [TaskStatus.NOT_STARTED]: 0,
+  [TaskStatus.IN_PROGRESS]: 0,
+  [TaskStatus.COMPLETED]: 0,
+  [TaskStatus.BLOCKED]: 0,
+});
+
+const emptyTargetSummary = (): PortfolioTargetSummary => ({ achieved: 0, missed: 0, pending: 0, total: 0 });
+
+// 完了していない期日付きの項目（タスク・サブステップ・アクションアイテム）。完了したタスクの項目は含めない
+const collectOpenDueItems = (project: ProjectData): PortfolioDueItem[] =>
+  project.tasks.flatMap((task: ProjectTask) => {
+    if (task.status === TaskStatus.COMPLETED) return [];
+    const base = { projectId: project.id, projectTitle: project.title, taskId: task.id, taskTitle: task.title };
+    const items: PortfolioDueItem[] = [];
+    const details = task.extendedDetails;
+    if (isDate(details?.dueDate)) {
+      items.push({ ...base, kind: 'task', text: task.title, dueDate: toDateOnly(details.dueDate), responsible: details.responsible || undefined });
+    }
+    details?.subSteps.forEach(subStep => {
+      if (subStep.status !== SubStepStatus.COMPLETED && isDate(subStep.dueDate)) {
+        items.push({ ...base, kind: 'substep', text: subStep.text, dueDate: toDateOnly(subStep.dueDate), responsible: subStep.responsible });
+      }
+      subStep.actionItems?.forEach(item => {
+        if (!item.completed && isDate(item.dueDate)) {
+          items.push({ ...base, kind: 'actionitem', text: item.text, dueDate: toDateOnly(item.dueDate), responsible: item.responsible });
+        }
+      });
+    });
+    return items;
+  });
+
+const summarizeTargets = (tasks: ProjectTask[]): PortfolioTargetSummary =>
+  tasks.reduce((summary, task) => {
+    const target = task.extendedDetails?.numericalTarget;
+    if (!target) return summary;
+    const status = target.status ?? NumericalTargetStatus.PENDING;
+    return {
+      achieved: summary.achieved + (status === NumericalTargetStatus.ACHIEVED ? 1 : 0),
+      missed: summary.missed + (status === NumericalTargetStatus.MISSED ? 1 : 0),
+      pending: summary.pending + (status === NumericalTargetStatus.PENDING ? 1 : 0),
+      total: summary.total + 1,
+    };
+  }, emptyTargetSummary());
+
+// 保存済みの日程があればその範囲、なければ作成日から期限まで
+const getProjectTimeline = (project: ProjectData, dueItems: PortfolioDueItem[]): { start: string; end: string } => {
+  const scheduled = (project.ganttData || []).filter(item => isDate(item.start) && isDate(item.end));
+  const starts = [...scheduled.map(item => toDateOnly(item.start)), ...(isDate(project.createdAt) ? [toDateOnly(project.createdAt)] : [])];
+  const ends = [
+    ...scheduled.map(item => toDateOnly(item.end)),
+    ...(isDate(project.targetDate) ? [toDateOnly(project.targetDate)] : []),
+    ...dueItems.map(item => item.dueDate),
+  ];
+  const start = starts.length > 0 ? starts.reduce((a, b) => (a < b ? a : b)) : toDateOnly(new Date().toISOString());
+  const end = ends.length > 0 ? ends.reduce((a, b) => (a > b ? a : b)) : start;
+  return { start, end: end < start ? start : end };
+};
+
+/**
+ * Aggregates one project for the portfolio dashboard.
+ * @param project The project with its tasks.
+ * @param members The active members of the project.
+ * @param health The latest recorded health check, if any.
+ * @param today Today's date (YYYY-MM-DD). Items due before it are overdue.
+ * @returns Status counts, progress, overdue and upcoming items, target achievement and the date range.
+ */
+export const buildPortfolioEntry = (
+  project: ProjectData,
+  members: PortfolioMember[],
+  health: PortfolioHealth | undefined,
+  today: string
+): ProjectPortfolioEntry => {
+  const statusCounts = emptyStatusCounts();
+  project.tasks.forEach(task => { statusCounts[task.status ?? TaskStatus.NOT_STARTED] += 1; });
+  const progress = project.tasks.length > 0
+    ? Math.round(project.tasks.reduce((sum, task) => sum + getTaskProgress(task), 0) / project.tasks.length)
+    : 0;
+
+  const dueItems = collectOpenDueItems(project).sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+  const upcomingLimit = addDays(today, PORTFOLIO_UPCOMING_DAYS);
+
+  return {
+    project,
+    members,
+    health,
+    statusCounts,
+    progress,
+    overdueActionItems: dueItems.filter(item => item.kind === 'actionitem' && item.dueDate < today),
+    upcomingDueItems: dueItems.filter(item => item.dueDate >= today && item.dueDate <= upcomingLimit),
+    targets: summarizeTargets(project.tasks),
+    timeline: getProjectTimeline(project, dueItems),
+  };
+};
+
+/**
+ * Totals the portfolio entries for the summary cards.
+ * @param entries The entries to total, usually after filtering.
+ * @returns Counts across all the given projects.
+ */
+export const summarizePortfolio = (entries: ProjectPortfolioEntry[]): PortfolioSummary => {
+  const statusCounts = emptyStatusCounts();
+  const targets = emptyTargetSummary();
+  const healthCounts: Record<ProjectHealthStatus, number> = { 'On Track': 0, 'At Risk': 0, 'Off Track': 0, 'Unknown': 0 };
+  entries.forEach(entry => {
+    (Object.keys(statusCounts) as TaskStatus[]).forEach(status => { statusCounts[status] += entry.statusCounts[status]; });
+    (Object.keys(targets) as (keyof PortfolioTargetSummary)[]).forEach(key => { targets[key] += entry.targets[key]; });
+    healthCounts[entry.health?.status ?? 'Unknown'] += 1;
+  });
+  return {
+    projectCount: entries.length,
+    statusCounts,
+    overdueActionItemCount: entries.reduce((sum, entry) => sum + entry.overdueActionItems.length, 0),
+    upcomingDueItemCount: entries.reduce((sum, entry) => sum + entry.upcomingDueItems.length, 0),
+    targets,
+    healthCounts,
+  };
+};
+
+/**
+ * Keeps the projects that have a member matching the filter.
+ * @param entries The portfolio entries.
+ * @param filter The member and/or role to look for. Both must match the same member when given together.
+ * @returns The matching entries, in the original order.
+ */
+export const filterPortfolio = (entries: ProjectPortfolioEntry[], filter: PortfolioFilter): ProjectPortfolioEntry[] => {
+  if (!filter.userId && !filter.role) return entries;
+  return entries.filter(entry => entry.members.some(member =>
+    (!filter.userId || member.userId === filter.userId) && (!filter.role || member.role === filter.role)
+  ));
+};
+
+/**
+ * Lists every member appearing in the portfolio, for the member filter.
+ * @param entries The portfolio entries.
+ * @returns One member per user, sorted by name.
+ */
+export const listPortfolioMembers = (entries: ProjectPortfolioEntry[]): Pick<PortfolioMember, 'userId' | 'userName'>[] => {
+  const members = new Map<string, string>();
+  entries.forEach(entry => entry.members.forEach(member => members.set(member.userId, member.userName)));
+  return [...members].map(([userId, userName]) => ({ userId, userName })).sort((a, b) => a.userName.localeCompare(b.userName, 'ja'));
+};
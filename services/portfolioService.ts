@@ -0,0 +1,64 @@
+import { supabase } from '../lib/supabase';
+import { ProjectHealthReport } from '../types';
+import { ProjectService } from './projectService';
+import { PortfolioHealth, PortfolioMember, ProjectPortfolioEntry, buildPortfolioEntry } from './portfolio';
+import { localToday } from './dateUtils';
+
+export class PortfolioService {
+  // 参加しているすべてのプロジェクトを、メンバーと最新の診断を添えて集計する
+  static async getPortfolio(): Promise<ProjectPortfolioEntry[]> {
+    const projects = await ProjectService.getProjects();
+    if (projects.length === 0) return [];
+    const projectIds = projects.map(project => project.id);
+
+    const [membersResult, healthResult] = await Promise.all([
+      supabase
+        .from('project_members')
+        .select('project_id, user_id, role, users!user_id(email)')
+        .in('project_id', projectIds)
+        .eq('status', 'active'),
+      supabase
+        .from('project_health_reports')
+        .select('project_id, overall_status, report, created_at')
+        .in('project_id', projectIds)
+        .order('created_at', { ascending: false }),
+    ]);
+
+    if (membersResult.error) {
+      throw new Error(`メンバー情報の取得に失敗しました: ${membersResult.error.message}`);
+    }
+    if (healthResult.error) {
+      throw new Error(`診断結果の取得に失敗しました: ${healthResult.error.message}`);
+    }
+
+    const membersByProject = new Map<string, PortfolioMember[]>();
+    membersResult.data.forEach((row: any) => {
+      const members = membersByProject.get(row.project_id) ?? [];
+      members.push({ userId: row.user_id, userName: row.users?.email?.split('@')[0] || 'Unknown', role: row.role });
+      membersByProject.set(row.project_id, members);
+    });
+
+    // 新しい順に並んでいるため、プロジェクトごとに最初の行が最新の診断
+    const healthByProject = new Map<string, PortfolioHealth>();
+    healthResult.data.forEach((row: any) => {
+      if (healthByProject.has(row.project_id)) return;
+      healthByProject.set(row.project_id, { status: row.overall_status, summary: row.report?.summary ?? '', checkedAt: row.created_at });
+    });
+
+    const today = localToday();
+    return projects.map(project =>
+      buildPortfolioEntry(project, membersByProject.get(project.id) ?? [], healthByProject.get(project.id), today)
+    );
+  }
+
+  // プロジェクト診断の結果を記録する。ポートフォリオにはプロジェクトごとの最新の結果を表示する
+  static async saveHealthReport(projectId: string, report: ProjectHealthReport): Promise<void> {
+    const { error } = await supabase
+      .from('project_health_reports')
+      .insert({ project_id: projectId, overall_status: report.overallStatus, report });
+
+    if (error) {
+      throw new Error(`診断結果の保存に失敗しました: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,449 @@
+import PptxGenJS from 'pptxgenjs';
+import {
+  ProjectTask, SlideDeck, Slide, SlideElement, SlideElementPosition, TextboxElement, ImageElement, TableElement,
+  ChartElement, ChartSeriesType, FlowchartElement, DataElement, MatrixData, SubStep, SubStepStatus,
+} from '../types';
+import { AttachmentService } from './attachmentStorage';
+import { getChartSeriesColor } from './chartModel';
+import {
+  findReportActionItem, resolveChartModel, getSlideTheme, SlideTheme, TEXTBOX_FONT_SIZES,
+  FLOWCHART_CARD_WIDTH, FLOWCHART_CARD_HEIGHT, FLOWCHART_STATUS_COLORS,
+} from './slideDeckContent';
+import { SLIDE_FOOTER_FONT_SIZE, SLIDE_FOOTER_POSITION, SLIDE_NUMBER_POSITION } from './slideMaster';
+import { resolveSlideDataView, resolveFlowchartSubSteps, getTimelineBarFraction } from './slideDataBinding';
+import { GANTT_CRITICAL_COLOR } from './ganttTimeline';
+
+// 16:9 のスライド（インチ）。要素の位置はパーセントなので、この大きさに対する割合で配置する
+const SLIDE_WIDTH = 10;
+const SLIDE_HEIGHT = 5.625;
+const MASTER_NAME = 'REPORT_MASTER';
+
+const percent = (value: number): `${number}%` => `${Math.round(value * 100) / 100}%`;
+
+const toPercentBox = (position: SlideElementPosition) => ({
+  x: percent(position.x),
+  y: percent(position.y),
+  w: percent(position.width),
+  h: percent(position.height),
+});
+
+const toInchBox = (position: SlideElementPosition) => ({
+  x: (position.x / 100) * SLIDE_WIDTH,
+  y: (position.y / 100) * SLIDE_HEIGHT,
+  w: (position.width / 100) * SLIDE_WIDTH,
+  h: (position.height / 100) * SLIDE_HEIGHT,
+});
+
+// 参照先のデータが見つからない要素は、エディタと同じく枠とメッセージで示す
+const addPlaceholder = (slide: PptxGenJS.Slide, position: SlideElementPosition, message: string, theme: SlideTheme) => {
+  slide.addText(message, {
+    ...toPercentBox(position),
+    fontFace: theme.fontFace, fontSize: 10, color: theme.mutedText, align: 'center', valign: 'middle',
+    fill: { color: theme.tableHeaderFill }, line: { color: theme.tableBorder, dashType: 'dash' },
+  });
+};
+
+const addTextbox = (slide: PptxGenJS.Slide, el: TextboxElement, theme: SlideTheme) => {
+  slide.addText(el.content, {
+    ...toPercentBox(el.position),
+    fontFace: theme.fontFace,
+    fontSize: TEXTBOX_FONT_SIZES[el.fontSize ?? 'medium'],
+    bold: el.fontWeight === 'bold',
+    align: el.textAlign ?? 'left',
+    valign: 'top',
+    color: theme.text,
+    fit: 'shrink',
+  });
+};
+
+const loadImageSize = (dataUrl: string): Promise<{ width: number; height: number }> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve({ width: image.naturalWidth, height: image.naturalHeight });
+    image.onerror = () => reject(new Error('画像の読み込みに失敗しました'));
+    image.src = dataUrl;
+  });
+
+// object-contain と同じく、縦横比を保って枠の中央に収める
+const containBox = (position: SlideElementPosition, width: number, height: number) => {
+  const box = toInchBox(position);
+  const scale = Math.min(box.w / width, box.h / height);
+  const w = width * scale;
+  const h = height * scale;
+  return { x: box.x + (box.w - w) / 2, y: box.y + (box.h - h) / 2, w, h };
+};
+
+const addImage = async (slide: PptxGenJS.Slide, el: ImageElement, tasks: ProjectTask[], theme: SlideTheme) => {
+  const actionItem = findReportActionItem(tasks, el.subStepId, el.actionItemId);
+  const attachment = actionItem?.report?.attachments?.find(a => a.id === el.attachmentId);
+  if (!attachment) {
+    addPlaceholder(slide, el.position, '画像が見つかりません', theme);
+    return;
+  }
+
+  try {
+    const dataUrl = await AttachmentService.getDataUrl(attachment);
+    const { width, height } = await loadImageSize(dataUrl);
+    slide.addImage({
+      data: dataUrl.replace(/^data:/, ''),
+      ...containBox(el.position, width, height),
+      altText: attachment.name,
+    });
+  } catch (error) {
+    console.error(`Failed to embed image ${attachment.name}:`, error);
+    addPlaceholder(slide, el.position, `画像を読み込めませんでした: ${attachment.name}`, theme);
+  }
+};
+
+type PptxBox = Required<Pick<PptxGenJS.PositionProps, 'x' | 'y' | 'w' | 'h'>>;
+
+const addMatrixTable = (slide: PptxGenJS.Slide, box: PptxBox, matrixData: Pick<MatrixData, 'headers' | 'rows'>, theme: SlideTheme) => {
+  const rows: PptxGenJS.TableRow[] = [
+    matrixData.headers.map(header => ({
+      text: header,
+      options: { bold: true, fill: { color: theme.tableHeaderFill }, color: theme.tableHeaderText },
+    })),
+    ...matrixData.rows.map(row => matrixData.headers.map((_, index) => ({ text: row[index] ?? '' }))),
+  ];
+  slide.addTable(rows, {
+    ...box,
+    fontFace: theme.fontFace,
+    fontSize: 10,
+    color: theme.text,
+    border: { type: 'solid', pt: 0.5, color: theme.tableBorder },
+    autoPage: false,
+  });
+};
+
+const addTable = (slide: PptxGenJS.Slide, el: TableElement, tasks: ProjectTask[], theme: SlideTheme) => {
+  const matrixData = findReportActionItem(tasks, el.subStepId, el.actionItemId)?.report?.matrixData;
+  if (!matrixData) {
+    addPlaceholder(slide, el.position, 'データなし', theme);
+    return;
+  }
+  addMatrixTable(slide, toPercentBox(el.position), matrixData, theme);
+};
+
+const SERIES_CHART_TYPES: Record<ChartSeriesType, PptxGenJS.CHART_NAME> = {
+  bar: 'bar',
+  line: 'line',
+  area: 'area',
+};
+
+const TARGET_LINE_COLOR = 'DC2626';
+
+// 単位は数値の書式に含め、軸の目盛りに表示する
+const unitFormatCode = (unit: string | undefined) => unit ? `#,##0.##"${unit.replace(/"/g, '')}"` : undefined;
+
+const addChart = (slide: PptxGenJS.Slide, el: ChartElement, tasks: ProjectTask[], theme: SlideTheme) => {
+  const model = resolveChartModel(tasks, el);
+  if (!model) {
+    addPlaceholder(slide, el.position, 'チャートデータなし', theme);
+    return;
+  }
+
+  const options: PptxGenJS.IChartOpts = {
+    ...toPercentBox(el.position),
+    showTitle: !!el.title,
+    title: el.title,
+    titleFontFace: theme.fontFace,
+    titleFontSize: 12,
+    titleColor: theme.text,
+    showLegend: model.legendPosition !== 'none',
+    legendPos: model.legendPosition === 'top' ? 't' : model.legendPosition === 'right' ? 'r' : 'b',
+    legendColor: theme.text,
+    legendFontFace: theme.fontFace,
+    catAxisLabelColor: theme.mutedText,
+    valAxisLabelColor: theme.mutedText,
+    showCatAxisTitle: !!el.xAxis?.title,
+    catAxisTitle: el.xAxis?.title,
+    showValAxisTitle: !!el.yAxis?.title,
+    valAxisTitle: el.yAxis?.title,
+    valAxisLabelFormatCode: unitFormatCode(el.yAxis?.unit),
+    valAxisMinVal: el.yAxis?.min,
+    valAxisMaxVal: el.yAxis?.max,
+  };
+  const colors = model.series.map((_, index) => getChartSeriesColor(model, index, theme.chartColors));
+  // 値の無い点は空欄として書き出す
+  const valuesOf = (values: (number | null)[]) => values.map(value => value ?? NaN);
+
+  if (model.chartType === 'pie') {
+    slide.addChart('pie', [{ name: model.series[0].name, labels: model.categories, values: valuesOf(model.series[0].values) }], {
+      ...options,
+      chartColors: model.categories.map((_, index) => getChartSeriesColor(model, index, theme.chartColors)),
+    });
+    return;
+  }
+
+  if (model.chartType === 'scatter' && model.xValues) {
+    const targetSeries = model.target ? [{ name: model.target.label, values: model.xValues.map(() => model.target!.value) }] : [];
+    slide.addChart('scatter', [
+      { name: el.xAxis?.title || 'X', values: model.xValues },
+      ...model.series.map(s => ({ name: s.name, values: valuesOf(s.values) })),
+      ...targetSeries,
+    ], {
+      ...options,
+      lineSize: 0,
+      lineDataSymbolSize: 6,
+      catAxisMinVal: el.xAxis?.min,
+      catAxisMaxVal: el.xAxis?.max,
+      catLabelFormatCode: unitFormatCode(el.xAxis?.unit),
+      chartColors: model.target ? [...colors, TARGET_LINE_COLOR] : colors,
+    });
+    return;
+  }
+
+  // 系列の種類ごとにまとめ、面・棒・折れ線の順に重ねる。目標値は水平な折れ線として加える
+  const groups = (['area', 'bar', 'line'] as ChartSeriesType[])
+    .map(type => ({ type, series: model.series.map((s, index) => ({ s, index })).filter(({ s }) => s.type === type) }))
+    .filter(group => group.series.length > 0);
+  const labels = model.categories.map(label => `${label}${el.xAxis?.unit ?? ''}`);
+  const chartData = (group: typeof groups[number]) => group.series.map(({ s }) => ({ name: s.name, labels, values: valuesOf(s.values) }));
+  const grouping = (type: ChartSeriesType) => model.stacked && type !== 'line' ? 'stacked' : type === 'bar' ? 'clustered' : 'standard';
+
+  if (groups.length === 1 && !model.target) {
+    const [group] = groups;
+    slide.addChart(SERIES_CHART_TYPES[group.type], chartData(group), { ...options, barGrouping: grouping(group.type), chartColors: colors });
+    return;
+  }
+
+  const multi: PptxGenJS.IChartMulti[] = groups.map(group => ({
+    type: SERIES_CHART_TYPES[group.type],
+    data: chartData(group),
+    options: { barGrouping: grouping(group.type), chartColors: group.series.map(({ index }) => colors[index]) },
+  }));
+  if (model.target) {
+    multi.push({
+      type: 'line',
+      data: [{ name: model.target.label, labels, values: model.categories.map(() => model.target!.value) }],
+      options: { chartColors: [TARGET_LINE_COLOR], lineDataSymbol: 'none', lineDash: 'dash' },
+    });
+  }
+  // 複合グラフでは第2引数にオプションを渡す（型定義はデータ配列のみを想定している）
+  slide.addChart(multi, options as unknown as unknown[]);
+};
+
+// サブステップをカード、次のステップへのつながりを矢印付きの線にする
+const addFlowchart = (pptx: PptxGenJS, slide: PptxGenJS.Slide, el: FlowchartElement, tasks: ProjectTask[], theme: SlideTheme) => {
+  const subSteps = resolveFlowchartSubSteps(tasks, el).filter((ss): ss is SubStep & { position: { x: number; y: number } } => !!ss.position);
+  if (subSteps.length === 0) {
+    addPlaceholder(slide, el.position, 'フローチャートのデータが見つかりません。', theme);
+    return;
+  }
+
+  const box = toInchBox(el.position);
+  const contentWidth = Math.max(...subSteps.map(ss => ss.position.x + FLOWCHART_CARD_WIDTH)) + 20;
+  const contentHeight = Math.max(...subSteps.map(ss => ss.position.y + FLOWCHART_CARD_HEIGHT)) + 20;
+  const scale = Math.min(box.w / contentWidth, box.h / contentHeight);
+  const offsetX = box.x + (box.w - contentWidth * scale) / 2;
+  const offsetY = box.y + (box.h - contentHeight * scale) / 2;
+  const toX = (px: number) => offsetX + px * scale;
+  const toY = (px: number) => offsetY + px * scale;
+
+  subSteps.forEach(ss => {
+    const statusColor = FLOWCHART_STATUS_COLORS[ss.status ?? SubStepStatus.NOT_STARTED];
+    slide.addText(ss.text, {
+      shape: pptx.ShapeType.roundRect,
+      rectRadius: 0.05,
+      x: toX(ss.position.x),
+      y: toY(ss.position.y),
+      w: FLOWCHART_CARD_WIDTH * scale,
+      h: FLOWCHART_CARD_HEIGHT * scale,
+      fill: { color: 'FFFFFF' },
+      line: { color: statusColor, width: 1.5 },
+      fontFace: theme.fontFace,
+      fontSize: Math.max(6, Math.min(12, 12 * scale * 72)), // カード内の 12px をスライド上の大きさに換算
+      bold: true,
+      color: ss.status === SubStepStatus.COMPLETED ? '64748B' : '333333',
+      strike: ss.status === SubStepStatus.COMPLETED ? 'sngStrike' : undefined,
+      align: 'center',
+      valign: 'middle',
+      fit: 'shrink',
+    });
+  });
+
+  const byId = new Map(subSteps.map(ss => [ss.id, ss]));
+  subSteps.forEach(source => {
+    (source.nextSubStepIds || []).forEach(targetId => {
+      const target = byId.get(targetId);
+      if (!target) return;
+      const x1 = toX(source.position.x + FLOWCHART_CARD_WIDTH);
+      const y1 = toY(source.position.y + FLOWCHART_CARD_HEIGHT / 2);
+      const x2 = toX(target.position.x);
+      const y2 = toY(target.position.y + FLOWCHART_CARD_HEIGHT / 2);
+      slide.addShape(pptx.ShapeType.line, {
+        x: Math.min(x1, x2),
+        y: Math.min(y1, y2),
+        w: Math.abs(x2 - x1),
+        h: Math.abs(y2 - y1),
+        flipH: x2 < x1,
+        flipV: y2 < y1,
+        line: { color: theme.mutedText, width: 1.25, endArrowType: 'triangle' },
+      });
+    });
+  });
+};
+
+const clampPercent = (percent: number) => Math.min(Math.max(percent, 0), 100);
+
+// 進捗バーなどの塗りつぶした長方形
+const addBar = (pptx: PptxGenJS, slide: PptxGenJS.Slide, box: { x: number; y: number; w: number; h: number }, color: string, transparency = 0) => {
+  if (box.w <= 0) return;
+  slide.addShape(pptx.ShapeType.rect, { ...box, fill: { color, transparency }, line: { type: 'none' } });
+};
+
+// データ要素は最新の計画（固定済みならその時点の値）から、文字と図形で組み立てる
+const addDataElement = (pptx: PptxGenJS, slide: PptxGenJS.Slide, el: DataElement, tasks: ProjectTask[], theme: SlideTheme) => {
+  const view = resolveSlideDataView(tasks, el);
+  if (!view) {
+    addPlaceholder(slide, el.position, 'データが見つかりません', theme);
+    return;
+  }
+
+  const box = toInchBox(el.position);
+  const text = { fontFace: theme.fontFace, color: theme.text, valign: 'middle' as const, fit: 'shrink' as const, margin: 0 };
+  const titleHeight = Math.min(0.3, box.h * 0.25);
+  slide.addText(view.title, { ...text, x: box.x, y: box.y, w: box.w, h: titleHeight, fontSize: 12, bold: true });
+  const area = { x: box.x, y: box.y + titleHeight + 0.03, w: box.w, h: box.h - titleHeight - 0.06 };
+
+  switch (view.kind) {
+    case 'metric': {
+      const valueHeight = Math.min(area.h * 0.5, 0.6);
+      slide.addText(view.value, { ...text, x: area.x, y: area.y, w: area.w, h: valueHeight, fontSize: Math.round(valueHeight * 72 * 0.6), bold: true, color: theme.accent, align: 'center' });
+      let y = area.y + valueHeight + 0.05;
+      if (view.percent !== null) {
+        addBar(pptx, slide, { x: area.x, y, w: area.w, h: 0.08 }, theme.tableHeaderFill);
+        addBar(pptx, slide, { x: area.x, y, w: (area.w * clampPercent(view.percent)) / 100, h: 0.08 }, theme.accent);
+        y += 0.14;
+      }
+      if (view.caption) {
+        slide.addText(view.caption, { ...text, x: area.x, y, w: area.w, h: Math.max(0.2, area.y + area.h - y), fontSize: 10, color: theme.mutedText, align: 'center', valign: 'top' });
+      }
+      return;
+    }
+    case 'breakdown': {
+      const total = view.items.reduce((sum, item) => sum + item.count, 0);
+      const rowHeight = Math.min(area.h / Math.max(1, view.items.length), 0.3);
+      const labelWidth = area.w * 0.4;
+      const countWidth = 0.4;
+      view.items.forEach((item, index) => {
+        const y = area.y + index * rowHeight;
+        slide.addText(item.label, { ...text, x: area.x, y, w: labelWidth - 0.05, h: rowHeight, fontSize: 10 });
+        const track = { x: area.x + labelWidth, y: y + rowHeight * 0.25, w: area.w - labelWidth - countWidth, h: rowHeight * 0.5 };
+        addBar(pptx, slide, track, theme.tableHeaderFill);
+        if (total > 0) addBar(pptx, slide, { ...track, w: (track.w * item.count) / total }, item.color);
+        slide.addText(String(item.count), { ...text, x: track.x + track.w, y, w: countWidth, h: rowHeight, fontSize: 10, bold: true, align: 'right' });
+      });
+      return;
+    }
+    case 'table':
+      addMatrixTable(slide, area, view, theme);
+      return;
+    case 'timeline': {
+      const dateHeight = 0.18;
+      const rowHeight = Math.min((area.h - dateHeight) / Math.max(1, view.items.length), 0.28);
+      const labelWidth = area.w * 0.3;
+      const track = { x: area.x + labelWidth, w: area.w - labelWidth };
+      view.items.forEach((item, index) => {
+        const y = area.y + index * rowHeight;
+        slide.addText(item.name, { ...text, x: area.x, y, w: labelWidth - 0.05, h: rowHeight, fontSize: 9 });
+        const { left, width } = getTimelineBarFraction(view, item);
+        const bar = { x: track.x + track.w * left, y: y + rowHeight * 0.2, w: Math.max(0.01, track.w * width), h: rowHeight * 0.6 };
+        const color = item.isCritical ? GANTT_CRITICAL_COLOR.replace('#', '') : theme.accent;
+        addBar(pptx, slide, bar, color, 65);
+        addBar(pptx, slide, { ...bar, w: (bar.w * clampPercent(item.progress)) / 100 }, color);
+      });
+      const dateY = area.y + view.items.length * rowHeight;
+      slide.addText(view.start, { ...text, x: track.x, y: dateY, w: track.w / 2, h: dateHeight, fontSize: 8, color: theme.mutedText });
+      slide.addText(view.end, { ...text, x: track.x + track.w / 2, y: dateY, w: track.w / 2, h: dateHeight, fontSize: 8, color: theme.mutedText, align: 'right' });
+      return;
+    }
+  }
+};
+
+const addElement = async (pptx: PptxGenJS, slide: PptxGenJS.Slide, el: SlideElement, tasks: ProjectTask[], theme: SlideTheme) => {
+  switch (el.type) {
+    case 'textbox': return addTextbox(slide, el, theme);
+    case 'image': return addImage(slide, el, tasks, theme);
+    case 'table': return addTable(slide, el, tasks, theme);
+    case 'chart': return addChart(slide, el, tasks, theme);
+    case 'flowchart': return addFlowchart(pptx, slide, el, tasks, theme);
+    case 'data': return addDataElement(pptx, slide, el, tasks, theme);
+  }
+};
+
+// 背景・ロゴ・フッター・スライド番号はスライドマスターに置き、PowerPoint 上でも全スライド共通の部品にする
+const defineMaster = async (pptx: PptxGenJS, theme: SlideTheme) => {
+  const objects: NonNullable<PptxGenJS.SlideMasterProps['objects']> = [];
+  if (theme.logo) {
+    try {
+      const { width, height } = await loadImageSize(theme.logo.dataUrl);
+      objects.push({ image: { data: theme.logo.dataUrl.replace(/^data:/, ''), ...containBox(theme.logo.position, width, height), altText: 'ロゴ' } });
+    } catch (error) {
+      console.error('Failed to embed the slide master logo:', error);
+    }
+  }
+  if (theme.footerText) {
+    objects.push({
+      text: {
+        text: theme.footerText,
+        options: { ...toPercentBox(SLIDE_FOOTER_POSITION), fontFace: theme.fontFace, fontSize: SLIDE_FOOTER_FONT_SIZE, color: theme.mutedText, valign: 'middle' },
+      },
+    });
+  }
+  pptx.defineSlideMaster({
+    title: MASTER_NAME,
+    background: { color: theme.background },
+    objects,
+    slideNumber: theme.showSlideNumbers
+      ? { ...toPercentBox(SLIDE_NUMBER_POSITION), fontFace: theme.fontFace, fontSize: SLIDE_FOOTER_FONT_SIZE, color: theme.mutedText, align: 'right' }
+      : undefined,
+  });
+};
+
+const addSlide = async (pptx: PptxGenJS, source: Slide, tasks: ProjectTask[], theme: SlideTheme) => {
+  const slide = pptx.addSlide({ masterName: MASTER_NAME });
+  for (const el of source.elements) {
+    await addElement(pptx, slide, el, tasks, theme);
+  }
+  if (source.notes) slide.addNotes(source.notes);
+};
+
+/**
+ * Builds an editable PowerPoint presentation from a slide deck.
+ * Every element becomes a native object: text boxes, pictures, tables, charts, connected flowchart shapes and
+ * data elements drawn from the current plan (or their snapshot).
+ * The background, logo, footer and slide number of the deck's theme go on a shared slide master.
+ * @param deck The slide deck to export.
+ * @param tasks The tasks the deck refers to (images, tables and charts read action item reports).
+ * @param title The presentation title stored in the file properties.
+ * @returns The presentation, ready to be written.
+ */
+export const buildPptx = async (deck: SlideDeck, tasks: ProjectTask[], title: string): Promise<PptxGenJS> => {
+  const pptx = new PptxGenJS();
+  pptx.layout = 'LAYOUT_16x9';
+  pptx.title = title;
+  const theme = getSlideTheme(deck);
+  await defineMaster(pptx, theme);
+
+  for (const slide of deck.slides) {
+    await addSlide(pptx, slide, tasks, theme);
+  }
+  return pptx;
+};
+
+/**
+ * Exports a slide deck as a .pptx file and starts the download.
+ * @param deck The slide deck to export.
+ * @param tasks The tasks the deck refers to.
+ * @param fileName The file name, without extension.
+ */
+export const downloadSlideDeckAsPptx = async (deck: SlideDeck, tasks: ProjectTask[], fileName: string): Promise<void> => {
+  try {
+    const pptx = await buildPptx(deck, tasks, fileName);
+    await pptx.writeFile({ fileName: `${fileName}.pptx` });
+  } catch (error) {
+    console.error('PPTX export failed:', error);
+    throw new Error(`PowerPointファイルの作成に失敗しました: ${(error as Error).message}`);
+  }
+};
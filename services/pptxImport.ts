@@ -0,0 +1,558 @@
+import JSZip from 'jszip';
+import {
+  Attachment, ActionItem, ActionItemReport, ChartElement, ChartLegendPosition, ChartSeriesType, ChartType, MatrixData, Slide, SlideDeck, SlideElement, SlideElementPosition,
+  SlideLayoutType, SubStep, SubStepStatus, TextboxElement,
+} from '../types';
+import { TEXTBOX_FONT_SIZES } from './slideDeckContent';
+import { inferColumnTypes } from './spreadsheetImport';
+
+// PowerPoint ファイル（Office Open XML）を読み、スライドの要素をスライドデッキの要素に対応付ける。
+// 画像・表・グラフのデータはデッキ内に持てないため、取り込み用のサブステップのアクションアイテムに保存する
+
+const NS = {
+  p: 'http://schemas.openxmlformats.org/presentationml/2006/main',
+  a: 'http://schemas.openxmlformats.org/drawingml/2006/main',
+  r: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+  c: 'http://schemas.openxmlformats.org/drawingml/2006/chart',
+  rel: 'http://schemas.openxmlformats.org/package/2006/relationships',
+};
+
+// 既定のスライドサイズ（16:9、EMU）
+const DEFAULT_SLIDE_SIZE = { cx: 12192000, cy: 6858000 };
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', gif: 'image/gif', bmp: 'image/bmp', svg: 'image/svg+xml', webp: 'image/webp',
+};
+
+const LAYOUT_TYPES: Record<string, SlideLayoutType> = {
+  title: 'title_slide',
+  secHead: 'section_header',
+  twoObj: 'two_column',
+  twoTxTwoObj: 'two_column',
+  blank: 'blank',
+};
+
+const CHART_TYPES: Record<string, ChartType> = {
+  barChart: 'bar', bar3DChart: 'bar',
+  lineChart: 'line', line3DChart: 'line', areaChart: 'area', area3DChart: 'area', scatterChart: 'scatter',
+  pieChart: 'pie', pie3DChart: 'pie', doughnutChart: 'pie', ofPieChart: 'pie',
+};
+
+const LEGEND_POSITIONS: Record<string, ChartLegendPosition> = { t: 'top', b: 'bottom', r: 'right', l: 'right', tr: 'right' };
+
+interface ParsedTextbox {
+  kind: 'textbox';
+  position: SlideElementPosition;
+  content: string;
+  fontSize: NonNullable<TextboxElement['fontSize']>;
+  fontWeight: NonNullable<TextboxElement['fontWeight']>;
+  textAlign: NonNullable<TextboxElement['textAlign']>;
+}
+
+interface ParsedImage {
+  kind: 'image';
+  position: SlideElementPosition;
+  name: string;
+  mimeType: string;
+  data: Uint8Array;
+}
+
+interface ParsedTable {
+  kind: 'table';
+  position: SlideElementPosition;
+  matrixData: MatrixData;
+}
+
+type ParsedChartOptions = Pick<ChartElement, 'chartType' | 'title' | 'series' | 'grouping' | 'xAxis' | 'yAxis' | 'legendPosition'>;
+
+interface ParsedChart extends ParsedChartOptions {
+  kind: 'chart';
+  position: SlideElementPosition;
+  matrixData: MatrixData;
+}
+
+export type ParsedPptxElement = ParsedTextbox | ParsedImage | ParsedTable | ParsedChart;
+
+export interface ParsedPptxSlide {
+  layout: SlideLayoutType;
+  elements: ParsedPptxElement[];
+  notes?: string;
+}
+
+interface Box {
+  x: number;
+  y: number;
+  cx: number;
+  cy: number;
+}
+
+// グループ内の座標をスライドの座標に変換する
+interface Transform {
+  offsetX: number;
+  offsetY: number;
+  scaleX: number;
+  scaleY: number;
+}
+
+const IDENTITY: Transform = { offsetX: 0, offsetY: 0, scaleX: 1, scaleY: 1 };
+
+interface SlideContext {
+  zip: JSZip;
+  rels: Map<string, { target: string; type: string }>;
+  slideSize: { cx: number; cy: number };
+  placeholders: Map<string, Box>; // レイアウト・マスターで定義されたプレースホルダーの位置
+}
+
+const childElements = (parent: Element, ns: string, name: string): Element[] =>
+  Array.from(parent.childNodes).filter((node): node is Element =>
+    node.nodeType === 1 && (node as Element).namespaceURI === ns && (node as Element).localName === name);
+
+const firstChild = (parent: Element | undefined, ns: string, name: string): Element | undefined =>
+  parent ? childElements(parent, ns, name)[0] : undefined;
+
+const findAll = (parent: Element | Document, ns: string, name: string): Element[] =>
+  Array.from(parent.getElementsByTagNameNS(ns, name));
+
+const readXml = async (zip: JSZip, path: string): Promise<Document | null> => {
+  const file = zip.file(path);
+  if (!file) return null;
+  return new DOMParser().parseFromString(await file.async('string'), 'application/xml');
+};
+
+const resolvePath = (basePath: string, target: string): string => {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts = basePath.split('/').slice(0, -1);
+  target.split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+};
+
+const readRelationships = async (zip: JSZip, partPath: string) => {
+  const slash = partPath.lastIndexOf('/');
+  const relsPath = `${partPath.slice(0, slash)}/_rels/${partPath.slice(slash + 1)}.rels`;
+  const doc = await readXml(zip, relsPath);
+  const rels = new Map<string, { target: string; type: string }>();
+  if (!doc) return rels;
+  findAll(doc, NS.rel, 'Relationship').forEach(rel => {
+    if (rel.getAttribute('TargetMode') === 'External') return;
+    rels.set(rel.getAttribute('Id') ?? '', {
+      target: resolvePath(partPath, rel.getAttribute('Target') ?? ''),
+      type: rel.getAttribute('Type') ?? '',
+    });
+  });
+  return rels;
+};
+
+const findRelationshipByType = (rels: Map<string, { target: string; type: string }>, type: string) =>
+  Array.from(rels.values()).find(rel => rel.type.endsWith(`/${type}`));
+
+const readBox = (xfrm: Element | undefined): Box | null => {
+  const off = firstChild(xfrm, NS.a, 'off');
+  const ext = firstChild(xfrm, NS.a, 'ext');
+  if (!off || !ext) return null;
+  return {
+    x: Number(off.getAttribute('x') ?? 0),
+    y: Number(off.getAttribute('y') ?? 0),
+    cx: Number(ext.getAttribute('cx') ?? 0),
+    cy: Number(ext.getAttribute('cy') ?? 0),
+  };
+};
+
+const applyTransform = (box: Box, transform: Transform): Box => ({
+  x: transform.offsetX + box.x * transform.scaleX,
+  y: transform.offsetY + box.y * transform.scaleY,
+  cx: box.cx * transform.scaleX,
+  cy: box.cy * transform.scaleY,
+});
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const toPosition = (box: Box, slideSize: { cx: number; cy: number }): SlideElementPosition => ({
+  x: round((box.x / slideSize.cx) * 100),
+  y: round((box.y / slideSize.cy) * 100),
+  width: round((box.cx / slideSize.cx) * 100),
+  height: round((box.cy / slideSize.cy) * 100),
+});
+
+const readPlaceholder = (shape: Element) => {
+  const nvPr = firstChild(firstChild(shape, NS.p, 'nvSpPr') ?? firstChild(shape, NS.p, 'nvPicPr') ?? firstChild(shape, NS.p, 'nvGraphicFramePr'), NS.p, 'nvPr');
+  const ph = firstChild(nvPr, NS.p, 'ph');
+  if (!ph) return null;
+  return { type: ph.getAttribute('type') ?? 'body', idx: ph.getAttribute('idx') };
+};
+
+const placeholderKeys = (placeholder: { type: string; idx: string | null }) => [
+  ...(placeholder.idx ? [`idx:${placeholder.idx}`] : []),
+  `type:${placeholder.type === 'ctrTitle' ? 'title' : placeholder.type}`,
+];
+
+// レイアウトとマスターのプレースホルダー位置を集める（スライド側に位置がない場合に使う）
+const readPlaceholderBoxes = async (zip: JSZip, slideRels: Map<string, { target: string; type: string }>) => {
+  const boxes = new Map<string, Box>();
+  const layoutPath = findRelationshipByType(slideRels, 'slideLayout')?.target;
+  const layoutDoc = layoutPath ? await readXml(zip, layoutPath) : null;
+  const masterPath = layoutPath ? findRelationshipByType(await readRelationships(zip, layoutPath), 'slideMaster')?.target : undefined;
+  const masterDoc = masterPath ? await readXml(zip, masterPath) : null;
+
+  // マスターを先に読み、レイアウトの定義で上書きする
+  [masterDoc, layoutDoc].forEach(doc => {
+    if (!doc) return;
+    findAll(doc, NS.p, 'sp').forEach(shape => {
+      const placeholder = readPlaceholder(shape);
+      const box = readBox(firstChild(firstChild(shape, NS.p, 'spPr'), NS.a, 'xfrm'));
+      if (placeholder && box) placeholderKeys(placeholder).forEach(key => boxes.set(key, box));
+    });
+  });
+
+  const layoutType = layoutDoc?.documentElement.getAttribute('type') ?? '';
+  return { boxes, layout: LAYOUT_TYPES[layoutType] ?? 'title_and_content' };
+};
+
+const readParagraphText = (paragraph: Element): string =>
+  Array.from(paragraph.childNodes)
+    .filter((node): node is Element => node.nodeType === 1)
+    .map(node => {
+      if (node.localName === 'br') return '\n';
+      if (node.localName === 'r' || node.localName === 'fld') return firstChild(node, NS.a, 't')?.textContent ?? '';
+      return '';
+    })
+    .join('');
+
+const readTextBody = (txBody: Element | undefined): string => {
+  if (!txBody) return '';
+  return childElements(txBody, NS.a, 'p')
+    .map(paragraph => {
+      const text = readParagraphText(paragraph);
+      const hasBullet = !!firstChild(firstChild(paragraph, NS.a, 'pPr'), NS.a, 'buChar');
+      return hasBullet && text ? `・${text}` : text;
+    })
+    .join('\n')
+    .trim();
+};
+
+const nearestFontSize = (points: number): ParsedTextbox['fontSize'] =>
+  (Object.entries(TEXTBOX_FONT_SIZES) as [ParsedTextbox['fontSize'], number][])
+    .reduce<ParsedTextbox['fontSize']>((best, [key, size]) => Math.abs(size - points) < Math.abs(TEXTBOX_FONT_SIZES[best] - points) ? key : best, 'medium');
+
+const parseTextShape = (shape: Element, context: SlideContext, transform: Transform): ParsedTextbox | null => {
+  const txBody = firstChild(shape, NS.p, 'txBody');
+  const content = readTextBody(txBody);
+  if (!content) return null;
+
+  const placeholder = readPlaceholder(shape);
+  let box = readBox(firstChild(firstChild(shape, NS.p, 'spPr'), NS.a, 'xfrm'));
+  if (!box && placeholder) {
+    box = placeholderKeys(placeholder).map(key => context.placeholders.get(key)).find(Boolean) ?? null;
+  }
+  if (!box) return null;
+
+  const isTitle = placeholder?.type === 'title' || placeholder?.type === 'ctrTitle';
+  const runProps = txBody ? findAll(txBody, NS.a, 'rPr')[0] ?? findAll(txBody, NS.a, 'endParaRPr')[0] : undefined;
+  const size = runProps?.getAttribute('sz');
+  const bold = runProps?.getAttribute('b');
+  const align = txBody ? findAll(txBody, NS.a, 'pPr')[0]?.getAttribute('algn') : null;
+
+  return {
+    kind: 'textbox',
+    position: toPosition(applyTransform(box, transform), context.slideSize),
+    content,
+    fontSize: size ? nearestFontSize(Number(size) / 100) : isTitle ? 'title' : placeholder?.type === 'subTitle' ? 'large' : 'medium',
+    fontWeight: bold === '1' || (bold === null && isTitle) ? 'bold' : 'normal',
+    textAlign: align === 'ctr' || (!align && placeholder?.type === 'ctrTitle') ? 'center' : align === 'r' ? 'right' : 'left',
+  };
+};
+
+const parsePicture = async (picture: Element, context: SlideContext, transform: Transform): Promise<ParsedImage | null> => {
+  const blip = findAll(picture, NS.a, 'blip')[0];
+  const target = context.rels.get(blip?.getAttributeNS(NS.r, 'embed') ?? '')?.target;
+  const box = readBox(firstChild(firstChild(picture, NS.p, 'spPr'), NS.a, 'xfrm'));
+  const file = target ? context.zip.file(target) : null;
+  if (!target || !box || !file) return null;
+
+  const name = target.split('/').pop() ?? 'image';
+  const mimeType = IMAGE_TYPES[name.split('.').pop()?.toLowerCase() ?? ''];
+  if (!mimeType) return null; // EMF / WMF などブラウザで表示できない形式は取り込まない
+
+  return {
+    kind: 'image',
+    position: toPosition(applyTransform(box, transform), context.slideSize),
+    name,
+    mimeType,
+    data: await file.async('uint8array'),
+  };
+};
+
+// 結合されたセル（hMerge / vMerge）は結合元の値で埋める
+const parseTable = (table: Element): MatrixData | null => {
+  const grid: string[][] = [];
+  childElements(table, NS.a, 'tr').forEach((tr, rowIndex) => {
+    const row = childElements(tr, NS.a, 'tc').map((tc, columnIndex) => {
+      if (tc.getAttribute('hMerge') === '1') return null;
+      if (tc.getAttribute('vMerge') === '1') return grid[rowIndex - 1]?.[columnIndex] ?? '';
+      return readTextBody(firstChild(tc, NS.a, 'txBody')).replace(/\n/g, ' ');
+    });
+    grid.push(row.map((value, index) => value ?? row.slice(0, index).reverse().find(v => v !== null) ?? ''));
+  });
+  if (grid.length === 0) return null;
+
+  const [headers, ...rows] = grid;
+  return { headers: headers.map((header, index) => header || `列 ${index + 1}`), rows, columnTypes: inferColumnTypes(rows, headers.length) };
+};
+
+const readChartCache = (parent: Element | undefined): string[] => {
+  const cache = parent ? findAll(parent, NS.c, 'strCache')[0] ?? findAll(parent, NS.c, 'numCache')[0] ?? findAll(parent, NS.c, 'multiLvlStrCache')[0] : undefined;
+  if (!cache) return [];
+  const values: string[] = Array(Number(firstChild(cache, NS.c, 'ptCount')?.getAttribute('val') ?? 0)).fill('');
+  // 複数レベルの項目名は最初のレベル（最も内側の項目）を使う
+  const points = firstChild(cache, NS.c, 'lvl') ?? cache;
+  childElements(points, NS.c, 'pt').forEach(pt => {
+    values[Number(pt.getAttribute('idx') ?? 0)] = firstChild(pt, NS.c, 'v')?.textContent ?? '';
+  });
+  return values;
+};
+
+const readRichText = (element: Element | undefined): string =>
+  element ? findAll(element, NS.a, 't').map(t => t.textContent ?? '').join('') : '';
+
+const parseChart = async (zip: JSZip, chartPath: string): Promise<ParsedChartOptions & { matrixData: MatrixData } | null> => {
+  const doc = await readXml(zip, chartPath);
+  const chart = doc ? findAll(doc, NS.c, 'chart')[0] : undefined;
+  const plotArea = firstChild(chart, NS.c, 'plotArea');
+  // 複数の種類を重ねたグラフは plotArea に種類ごとの要素が並ぶ
+  const plots = plotArea
+    ? Array.from(plotArea.childNodes).filter((node): node is Element => node.nodeType === 1 && (node as Element).localName in CHART_TYPES)
+    : [];
+  if (!chart || plots.length === 0) return null;
+
+  const plotTypes = plots.map(plot => CHART_TYPES[plot.localName]);
+  const isCombo = plots.length > 1 && plotTypes.every(type => type === 'bar' || type === 'line' || type === 'area');
+  const chartType: ChartType = isCombo ? 'combo' : plotTypes[0];
+  const series = (isCombo ? plots : plots.slice(0, 1)).flatMap(plot =>
+    childElements(plot, NS.c, 'ser').map(ser => ({ ser, seriesType: CHART_TYPES[plot.localName] as ChartSeriesType })));
+  if (series.length === 0) return null;
+
+  const categories = readChartCache(firstChild(series[0].ser, NS.c, 'cat') ?? firstChild(series[0].ser, NS.c, 'xVal'));
+  const values = series.map(({ ser }) => readChartCache(firstChild(ser, NS.c, 'val') ?? firstChild(ser, NS.c, 'yVal')));
+  const names = series.map(({ ser }, index) => readChartCache(firstChild(ser, NS.c, 'tx'))[0] || firstChild(firstChild(ser, NS.c, 'tx'), NS.c, 'v')?.textContent || `系列${index + 1}`);
+  const rowCount = Math.max(categories.length, ...values.map(v => v.length));
+  const rows = Array.from({ length: rowCount }, (_, index) => [categories[index] || String(index + 1), ...values.map(v => v[index] ?? '')]);
+
+  const titleElement = firstChild(chart, NS.c, 'title');
+  const title = titleElement ? readRichText(titleElement) || names[0] : series.length === 1 ? names[0] : '';
+  const grouping = plots.some(plot => /stacked/i.test(firstChild(plot, NS.c, 'grouping')?.getAttribute('val') ?? '')) ? 'stacked' : undefined;
+
+  // 軸の位置（左右なら縦軸、上下なら横軸）でタイトルを振り分ける
+  const axes = plotArea ? Array.from(plotArea.childNodes).filter((node): node is Element => node.nodeType === 1 && /^(cat|val|date)Ax$/.test((node as Element).localName)) : [];
+  const axisTitle = (vertical: boolean) => {
+    const axis = axes.find(ax => /^[lr]$/.test(firstChild(ax, NS.c, 'axPos')?.getAttribute('val') ?? '') === vertical);
+    const text = readRichText(firstChild(axis, NS.c, 'title'));
+    return text ? { title: text } : undefined;
+  };
+  const legend = firstChild(chart, NS.c, 'legend');
+
+  return {
+    chartType,
+    title,
+    series: isCombo ? series.map(({ seriesType }, index) => ({ column: index + 1, seriesType })) : undefined,
+    grouping,
+    xAxis: axisTitle(false),
+    yAxis: axisTitle(true),
+    legendPosition: legend ? LEGEND_POSITIONS[firstChild(legend, NS.c, 'legendPos')?.getAttribute('val') ?? 'r'] ?? 'right' : 'none',
+    matrixData: { headers: [chartType === 'scatter' ? 'X' : '項目', ...names], rows, columnTypes: inferColumnTypes(rows, names.length + 1) },
+  };
+};
+
+const parseGraphicFrame = async (frame: Element, context: SlideContext, transform: Transform): Promise<ParsedTable | ParsedChart | null> => {
+  const box = readBox(firstChild(frame, NS.p, 'xfrm'));
+  const graphicData = findAll(frame, NS.a, 'graphicData')[0];
+  if (!box || !graphicData) return null;
+  const position = toPosition(applyTransform(box, transform), context.slideSize);
+
+  const table = firstChild(graphicData, NS.a, 'tbl');
+  if (table) {
+    const matrixData = parseTable(table);
+    return matrixData ? { kind: 'table', position, matrixData } : null;
+  }
+
+  const chartRef = firstChild(graphicData, NS.c, 'chart');
+  const chartPath = chartRef ? context.rels.get(chartRef.getAttributeNS(NS.r, 'id') ?? '')?.target : undefined;
+  const chart = chartPath ? await parseChart(context.zip, chartPath) : null;
+  return chart ? { kind: 'chart', position, ...chart } : null;
+};
+
+const parseShapeTree = async (tree: Element, context: SlideContext, transform: Transform): Promise<ParsedPptxElement[]> => {
+  const elements: ParsedPptxElement[] = [];
+  for (const node of Array.from(tree.childNodes)) {
+    if (node.nodeType !== 1 || (node as Element).namespaceURI !== NS.p) continue;
+    const shape = node as Element;
+    switch (shape.localName) {
+      case 'sp': {
+        const textbox = parseTextShape(shape, context, transform);
+        if (textbox) elements.push(textbox);
+        break;
+      }
+      case 'pic': {
+        const image = await parsePicture(shape, context, transform);
+        if (image) elements.push(image);
+        break;
+      }
+      case 'graphicFrame': {
+        const frame = await parseGraphicFrame(shape, context, transform);
+        if (frame) elements.push(frame);
+        break;
+      }
+      case 'grpSp': {
+        // グループの子要素は chOff / chExt の座標系で置かれている
+        const xfrm = firstChild(firstChild(shape, NS.p, 'grpSpPr'), NS.a, 'xfrm');
+        const box = readBox(xfrm);
+        const chOff = firstChild(xfrm, NS.a, 'chOff');
+        const chExt = firstChild(xfrm, NS.a, 'chExt');
+        let groupTransform = transform;
+        if (box && chOff && chExt) {
+          const scaleX = Number(chExt.getAttribute('cx')) ? box.cx / Number(chExt.getAttribute('cx')) : 1;
+          const scaleY = Number(chExt.getAttribute('cy')) ? box.cy / Number(chExt.getAttribute('cy')) : 1;
+          const origin = applyTransform({ x: box.x - Number(chOff.getAttribute('x')) * scaleX, y: box.y - Number(chOff.getAttribute('y')) * scaleY, cx: 0, cy: 0 }, transform);
+          groupTransform = { offsetX: origin.x, offsetY: origin.y, scaleX: transform.scaleX * scaleX, scaleY: transform.scaleY * scaleY };
+        }
+        elements.push(...await parseShapeTree(shape, context, groupTransform));
+        break;
+      }
+    }
+  }
+  return elements;
+};
+
+const readNotes = async (zip: JSZip, rels: Map<string, { target: string; type: string }>): Promise<string | undefined> => {
+  const notesPath = findRelationshipByType(rels, 'notesSlide')?.target;
+  const doc = notesPath ? await readXml(zip, notesPath) : null;
+  if (!doc) return undefined;
+  const body = findAll(doc, NS.p, 'sp').find(shape => readPlaceholder(shape)?.type === 'body');
+  return readTextBody(firstChild(body, NS.p, 'txBody')) || undefined;
+};
+
+/**
+ * Reads the slides of a PowerPoint (.pptx) file.
+ * Text shapes become text boxes, pictures images, tables tables and charts charts; other shapes are skipped.
+ * @param data The file contents.
+ * @returns The slides in presentation order, with element positions as percentages of the slide.
+ */
+export const parsePptx = async (data: ArrayBuffer | Uint8Array): Promise<ParsedPptxSlide[]> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    throw new Error('PowerPointファイルを読み込めませんでした。.pptx 形式のファイルを選択してください。');
+  }
+  const presentation = await readXml(zip, 'ppt/presentation.xml');
+  if (!presentation) throw new Error('PowerPointファイルを読み込めませんでした。.pptx 形式のファイルを選択してください。');
+
+  const size = findAll(presentation, NS.p, 'sldSz')[0];
+  const slideSize = size
+    ? { cx: Number(size.getAttribute('cx')) || DEFAULT_SLIDE_SIZE.cx, cy: Number(size.getAttribute('cy')) || DEFAULT_SLIDE_SIZE.cy }
+    : DEFAULT_SLIDE_SIZE;
+  const presentationRels = await readRelationships(zip, 'ppt/presentation.xml');
+
+  const slides: ParsedPptxSlide[] = [];
+  for (const slideId of findAll(presentation, NS.p, 'sldId')) {
+    const path = presentationRels.get(slideId.getAttributeNS(NS.r, 'id') ?? '')?.target;
+    const doc = path ? await readXml(zip, path) : null;
+    const tree = doc ? findAll(doc, NS.p, 'spTree')[0] : undefined;
+    if (!path || !tree) continue;
+
+    const rels = await readRelationships(zip, path);
+    const { boxes, layout } = await readPlaceholderBoxes(zip, rels);
+    slides.push({
+      layout,
+      elements: await parseShapeTree(tree, { zip, rels, slideSize, placeholders: boxes }, IDENTITY),
+      notes: await readNotes(zip, rels),
+    });
+  }
+  return slides;
+};
+
+export interface PptxImportOptions {
+  fileName: string;
+  generateUniqueId: (prefix: string) => string;
+  uploadImage: (attachmentId: string, file: File) => Promise<Attachment>;
+  subStepPosition?: { x: number; y: number };
+}
+
+export interface PptxImportResult {
+  deck: SlideDeck;
+  subStep: SubStep | null; // 画像・表・グラフのデータを持つサブステップ（テキストだけの場合は null）
+}
+
+/**
+ * Turns parsed slides into a slide deck. Images, tables and charts are stored in action item reports
+ * of a new sub-step (one action item per table or chart, one per slide for its images).
+ * @param slides The parsed slides.
+ * @param options The file name, id generator and image upload.
+ * @returns The deck and the sub-step holding its data.
+ */
+export const buildImportedDeck = async (slides: ParsedPptxSlide[], options: PptxImportOptions): Promise<PptxImportResult> => {
+  const { generateUniqueId } = options;
+  const subStepId = generateUniqueId('substep');
+  const actionItems: ActionItem[] = [];
+  const addActionItem = (text: string, report: Partial<ActionItemReport> = {}): ActionItem => {
+    const item: ActionItem = {
+      id: generateUniqueId('action'),
+      text,
+      completed: false,
+      report: { notes: '', attachments: [], matrixData: null, ...report },
+    };
+    actionItems.push(item);
+    return item;
+  };
+
+  const deckSlides: Slide[] = [];
+  for (const [index, parsed] of slides.entries()) {
+    const slideNumber = index + 1;
+    const elements: SlideElement[] = [];
+    let imageHolder: ActionItem | null = null;
+
+    for (const el of parsed.elements) {
+      const id = generateUniqueId('el');
+      switch (el.kind) {
+        case 'textbox':
+          elements.push({ id, type: 'textbox', position: el.position, content: el.content, fontSize: el.fontSize, fontWeight: el.fontWeight, textAlign: el.textAlign });
+          break;
+        case 'image': {
+          imageHolder ??= addActionItem(`スライド${slideNumber}の画像`);
+          const bytes = new Uint8Array(el.data);
+          const attachment = await options.uploadImage(generateUniqueId('attach'), new File([bytes], el.name, { type: el.mimeType }));
+          imageHolder.report!.attachments.push(attachment);
+          elements.push({ id, type: 'image', position: el.position, subStepId, actionItemId: imageHolder.id, attachmentId: attachment.id });
+          break;
+        }
+        case 'table': {
+          const item = addActionItem(`スライド${slideNumber}の表`, { matrixData: el.matrixData });
+          elements.push({ id, type: 'table', position: el.position, subStepId, actionItemId: item.id });
+          break;
+        }
+        case 'chart': {
+          const item = addActionItem(`スライド${slideNumber}のグラフ${el.title ? `: ${el.title}` : ''}`, { matrixData: el.matrixData });
+          const { kind, position, matrixData, ...chartOptions } = el;
+          elements.push({ id, type: 'chart', position, subStepId, actionItemId: item.id, ...chartOptions });
+          break;
+        }
+      }
+    }
+    deckSlides.push({ id: generateUniqueId('slide'), layout: parsed.layout, elements, notes: parsed.notes });
+  }
+
+  return {
+    deck: { slides: deckSlides, theme: 'light' },
+    subStep: actionItems.length > 0
+      ? {
+          id: subStepId,
+          text: `取り込んだ資料: ${options.fileName}`,
+          notes: 'PowerPointファイルから取り込んだ画像・表・グラフのデータです。スライドの要素はここを参照しています。',
+          status: SubStepStatus.NOT_STARTED,
+          position: options.subStepPosition,
+          actionItems,
+        }
+      : null,
+  };
+};
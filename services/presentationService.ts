@@ -0,0 +1,93 @@
+import { supabase } from '../lib/supabase';
+import { SharedPresentation, SlideDeck } from '../types';
+
+// 共有リンクはプロジェクトのメンバーだけが開ける（shared_presentations の RLS）。
+// デッキは共有した時点のものを保存し、計画と連動する要素は閲覧時の計画から表示する
+
+const SHARED_PRESENTATION_PARAM = 'presentation';
+
+const toSharedPresentation = (row: any): SharedPresentation => ({
+  id: row.id,
+  projectId: row.project_id,
+  taskId: row.task_id ?? undefined,
+  title: row.title,
+  deck: { ...row.deck, sharedPresentationId: row.id },
+  updatedAt: row.updated_at,
+  createdBy: row.created_by ?? undefined,
+});
+
+/**
+ * Builds the read-only presentation link for a shared deck.
+ * @param presentationId The ID of the shared presentation.
+ * @returns An absolute URL that opens the presentation in this app.
+ */
+export const buildSharedPresentationUrl = (presentationId: string): string => {
+  const url = new URL(window.location.pathname, window.location.origin);
+  url.searchParams.set(SHARED_PRESENTATION_PARAM, presentationId);
+  return url.toString();
+};
+
+/**
+ * Reads the shared presentation ID from a page URL.
+ * @param search The query string of the page, e.g. `window.location.search`.
+ * @returns The presentation ID, or null when the page was not opened from a share link.
+ */
+export const getSharedPresentationIdFromUrl = (search: string): string | null =>
+  new URLSearchParams(search).get(SHARED_PRESENTATION_PARAM);
+
+export class PresentationService {
+  // 共有リンクのプレゼンテーションを取得
+  static async getSharedPresentation(id: string): Promise<SharedPresentation> {
+    const { data, error } = await supabase
+      .from('shared_presentations')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`プレゼンテーションの取得に失敗しました: ${error.message}`);
+    }
+    if (!data) {
+      throw new Error('プレゼンテーションが見つかりません。削除されたか、このプロジェクトのメンバーではない可能性があります。');
+    }
+
+    return toSharedPresentation(data);
+  }
+
+  // デッキを共有する。共有済みのデッキは同じリンクのまま内容を更新する
+  static async shareDeck(
+    projectId: string,
+    taskId: string | undefined,
+    title: string,
+    deck: SlideDeck
+  ): Promise<SharedPresentation> {
+    const { sharedPresentationId, ...deckToShare } = deck;
+    const fields = { project_id: projectId, task_id: taskId ?? null, title, deck: deckToShare };
+    const query = sharedPresentationId
+      ? supabase.from('shared_presentations').update(fields).eq('id', sharedPresentationId)
+      : supabase.from('shared_presentations').insert(fields);
+    const { data, error } = await query.select().maybeSingle();
+
+    if (error) {
+      throw new Error(`プレゼンテーションの共有に失敗しました: ${error.message}`);
+    }
+    // 共有を取り消されたデッキは新しいリンクとして共有し直す
+    if (!data) {
+      return this.shareDeck(projectId, taskId, title, deckToShare);
+    }
+
+    return toSharedPresentation(data);
+  }
+
+  // 共有を取り消す。リンクは開けなくなる
+  static async deleteSharedPresentation(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('shared_presentations')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`共有の取り消しに失敗しました: ${error.message}`);
+    }
+  }
+}
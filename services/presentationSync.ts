@@ -0,0 +1,98 @@
+import { ProjectTask, SlideDeck } from '../types';
+
+// 発表者ビューと聴衆用ウィンドウを BroadcastChannel で同期する。
+// 表示中のスライドは発表者ビューが管理し、聴衆用ウィンドウでのキー操作は発表者ビューに送って反映する
+
+const AUDIENCE_CHANNEL_PARAM = 'audience';
+
+export type PresentationAction = 'next' | 'previous' | 'first' | 'last' | 'blackout';
+
+export type PresentationMessage =
+  | { type: 'hello' } // 聴衆用ウィンドウが開いたときに、デッキと表示位置を求める
+  | { type: 'deck'; deck: SlideDeck; tasks: ProjectTask[] }
+  | { type: 'position'; slideIndex: number; isBlackout: boolean }
+  | { type: 'action'; action: PresentationAction }
+  | { type: 'end' };
+
+export interface PresentationChannel {
+  post: (message: PresentationMessage) => void;
+  close: () => void;
+}
+
+// キーと操作の対応。発表者ビュー・聴衆用ウィンドウ・共有リンクの閲覧で共通
+const PRESENTATION_KEY_ACTIONS: Record<string, PresentationAction> = {
+  ArrowRight: 'next',
+  ArrowDown: 'next',
+  PageDown: 'next',
+  ' ': 'next',
+  Enter: 'next',
+  ArrowLeft: 'previous',
+  ArrowUp: 'previous',
+  PageUp: 'previous',
+  Backspace: 'previous',
+  Home: 'first',
+  End: 'last',
+  b: 'blackout',
+  B: 'blackout',
+  '.': 'blackout',
+};
+
+/**
+ * Maps a keyboard key to a presentation action.
+ * @param key The `KeyboardEvent.key` value.
+ * @returns The action, or null when the key does not control the presentation.
+ */
+export const getPresentationKeyAction = (key: string): PresentationAction | null =>
+  PRESENTATION_KEY_ACTIONS[key] ?? null;
+
+/**
+ * Applies a navigation action to the current slide index.
+ * @param slideIndex The index of the slide being shown.
+ * @param slideCount The number of slides in the deck.
+ * @param action The action to apply. `blackout` does not move the slide.
+ * @returns The new slide index, clamped to the deck.
+ */
+export const navigatePresentation = (slideIndex: number, slideCount: number, action: PresentationAction): number => {
+  const lastIndex = Math.max(slideCount - 1, 0);
+  switch (action) {
+    case 'next': return Math.min(slideIndex + 1, lastIndex);
+    case 'previous': return Math.max(slideIndex - 1, 0);
+    case 'first': return 0;
+    case 'last': return lastIndex;
+    default: return Math.min(slideIndex, lastIndex);
+  }
+};
+
+/**
+ * Builds the URL of the audience window for a presenter session.
+ * @param channelId The ID shared by the presenter view and the audience window.
+ * @returns An absolute URL that opens the audience view in this app.
+ */
+export const buildAudienceWindowUrl = (channelId: string): string => {
+  const url = new URL(window.location.pathname, window.location.origin);
+  url.searchParams.set(AUDIENCE_CHANNEL_PARAM, channelId);
+  return url.toString();
+};
+
+/**
+ * Reads the presenter session ID from the URL of an audience window.
+ * @param search The query string of the page, e.g. `window.location.search`.
+ * @returns The channel ID, or null when the page is not an audience window.
+ */
+export const getAudienceChannelIdFromUrl = (search: string): string | null =>
+  new URLSearchParams(search).get(AUDIENCE_CHANNEL_PARAM);
+
+/**
+ * Opens the channel between a presenter view and its audience windows.
+ * @param channelId The ID of the presenter session.
+ * @param onMessage Called for each message posted by the other side.
+ * @returns Functions to post messages and to close the channel.
+ */
+export const openPresentationChannel = (channelId: string, onMessage: (message: PresentationMessage) => void): PresentationChannel => {
+  const channel = new BroadcastChannel(`presentation-${channelId}`);
+  channel.onmessage = (event: MessageEvent<PresentationMessage>) => onMessage(event.data);
+  return {
+    post: message => channel.postMessage(message),
+    close: () => channel.close(),
+  };
+};
@@ -1,5 +1,6 @@
 import { supabase } from '../lib/supabase';
 import { ProjectTask } from '../types';
+import { DEFAULT_WEEKLY_CAPACITY_HOURS } from './resourceWorkload';
 
 export interface ProjectMember {
   id: string;
@@ -12,6 +13,7 @@ export interface ProjectMember {
   status: 'pending' | 'active' | 'inactive';
   userEmail?: string;
   userName?: string;
+  weeklyCapacityHours: number; // 週あたりの稼働可能時間
 }
 
 export interface ProjectInvitation {
@@ -37,6 +39,45 @@ export interface ActivityLogEntry {
   userName?: string;
 }
 
+// キャンバス上のプレゼンス（誰がどのタスクカードを見ている/ドラッグしているか）
+export interface CanvasPresence {
+  userId: string;
+  userName: string;
+  color: string;
+  activeTaskId: string | null;
+  activity: 'viewing' | 'dragging' | null;
+}
+
+// キャンバス上のリモートカーソル（キャンバス座標）
+export interface RemoteCursor {
+  userId: string;
+  userName: string;
+  color: string;
+  x: number;
+  y: number;
+}
+
+export interface CanvasPresenceConnection {
+  updatePresence: (updates: Pick<CanvasPresence, 'activeTaskId' | 'activity'>) => void;
+  sendCursor: (position: { x: number; y: number } | null) => void;
+  leave: () => void;
+}
+
+const PRESENCE_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#06b6d4', '#6366f1', '#a855f7', '#ec4899'];
+
+const colorForUser = (userId: string): string => {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) >>> 0;
+  }
+  return PRESENCE_COLORS[hash % PRESENCE_COLORS.length];
+};
+
+// subscribeToProjectUpdates の購読ごとのトピック番号。
+// 画面の切り替え（キャンバス → タスク詳細）で前の購読の解除が終わる前に同じプロジェクトを購読しても、
+// 解除中のチャンネルが再利用されないようにする
+let projectSubscriptionCount = 0;
+
 export class ProjectCollaborationService {
   // プロジェクトメンバーを取得
   static async getProjectMembers(projectId: string): Promise<ProjectMember[]> {
@@ -65,6 +106,7 @@ export class ProjectCollaborationService {
       status: member.status,
       userEmail: member.users?.email,
       userName: member.users?.email?.split('@')[0] || 'Unknown',
+      weeklyCapacityHours: member.weekly_capacity_hours ?? DEFAULT_WEEKLY_CAPACITY_HOURS,
     }));
   }
 
@@ -273,6 +315,19 @@ export class ProjectCollaborationService {
     }
   }
 
+  // メンバーの週あたりの稼働可能時間を更新
+  static async updateMemberCapacity(projectId: string, userId: string, weeklyCapacityHours: number): Promise<void> {
+    const { error } = await supabase
+      .from('project_members')
+      .update({ weekly_capacity_hours: weeklyCapacityHours })
+      .eq('project_id', projectId)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new Error(`稼働可能時間の更新に失敗しました: ${error.message}`);
+    }
+  }
+
   // メンバーを削除
   static async removeMember(projectId: string, userId: string): Promise<void> {
     const { error } = await supabase
@@ -338,7 +393,7 @@ export class ProjectCollaborationService {
     onUpdate: (payload: any) => void
   ) {
     return supabase
-      .channel(`project-${projectId}`)
+      .channel(`project-${projectId}-${++projectSubscriptionCount}`)
       .on(
         'postgres_changes',
         {
@@ -369,9 +424,81 @@ export class ProjectCollaborationService {
         },
         onUpdate
       )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'project_comments',
+          filter: `project_id=eq.${projectId}`,
+        },
+        onUpdate
+      )
       .subscribe();
   }
 
+  // キャンバスのプレゼンスとカーソル共有に参加
+  static async joinCanvasPresence(
+    projectId: string,
+    handlers: {
+      onPresenceChange: (others: CanvasPresence[]) => void;
+      onCursor: (cursor: RemoteCursor | null, userId: string) => void;
+    }
+  ): Promise<CanvasPresenceConnection | null> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return null;
+
+    const self: CanvasPresence = {
+      userId: user.id,
+      userName: user.email?.split('@')[0] || 'Unknown',
+      color: colorForUser(user.id),
+      activeTaskId: null,
+      activity: null,
+    };
+
+    const channel = supabase.channel(`project-canvas-${projectId}`, {
+      config: { presence: { key: user.id }, broadcast: { self: false } },
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<CanvasPresence>();
+        const others = Object.entries(state)
+          .filter(([key]) => key !== user.id)
+          .map(([, metas]) => metas[metas.length - 1])
+          .filter(Boolean);
+        handlers.onPresenceChange(others);
+      })
+      .on('presence', { event: 'leave' }, ({ key }) => {
+        handlers.onCursor(null, key);
+      })
+      .on('broadcast', { event: 'cursor' }, ({ payload }) => {
+        handlers.onCursor(payload.x === null ? null : payload, payload.userId);
+      })
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          channel.track(self);
+        }
+      });
+
+    return {
+      updatePresence: (updates) => {
+        Object.assign(self, updates);
+        channel.track(self);
+      },
+      sendCursor: (position) => {
+        channel.send({
+          type: 'broadcast',
+          event: 'cursor',
+          payload: { userId: self.userId, userName: self.userName, color: self.color, x: position?.x ?? null, y: position?.y ?? null },
+        });
+      },
+      leave: () => {
+        supabase.removeChannel(channel);
+      },
+    };
+  }
+
   // ユーザーのプロジェクト権限を確認
   static async getUserProjectRole(projectId: string): Promise<string | null> {
     const { data: { user } } = await supabase.auth.getUser();
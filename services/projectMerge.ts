@@ -0,0 +1,211 @@
+import { ProjectTask, SubStep, ActionItem, ExtendedTaskDetails } from '../types';
+
+export type MergeEntityType = 'task' | 'subStep' | 'actionItem';
+export type MergeSide = 'local' | 'remote';
+
+export interface MergeConflict {
+  id: string; // `${entityType}:${entityId}:${field}` — resolutions のキー
+  entityType: MergeEntityType;
+  entityId: string;
+  label: string; // 画面表示用のパス (例: "タスクA › サブステップB")
+  field: string; // '*' は要素そのもの（片方で削除、もう片方で変更）
+  local: unknown;
+  remote: unknown;
+}
+
+export interface MergeResult {
+  tasks: ProjectTask[];
+  conflicts: MergeConflict[];
+}
+
+type Resolutions = Record<string, MergeSide>;
+
+interface MergeContext {
+  conflicts: MergeConflict[];
+  resolutions: Resolutions;
+}
+
+/**
+ * Structural equality that ignores object key order (jsonb columns do not preserve it).
+ * `undefined` properties are treated as absent, matching JSON serialization.
+ */
+export const isDeepEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (Array.isArray(a)) {
+    const other = b as unknown[];
+    return a.length === other.length && a.every((item, index) => isDeepEqual(item, other[index]));
+  }
+  const aKeys = Object.keys(a).filter(key => (a as any)[key] !== undefined);
+  const bKeys = Object.keys(b).filter(key => (b as any)[key] !== undefined);
+  return aKeys.length === bKeys.length && aKeys.every(key => isDeepEqual((a as any)[key], (b as any)[key]));
+};
+
+const conflictId = (entityType: MergeEntityType, entityId: string, field: string) => `${entityType}:${entityId}:${field}`;
+
+/**
+ * Three-way merges a single value. Returns the merged value, recording a conflict
+ * (resolved with the chosen side, local by default) when both sides changed it differently.
+ */
+const mergeValue = <T,>(
+  ctx: MergeContext,
+  entityType: MergeEntityType,
+  entityId: string,
+  label: string,
+  field: string,
+  base: T,
+  local: T,
+  remote: T
+): T => {
+  if (isDeepEqual(local, remote)) return local;
+  if (isDeepEqual(local, base)) return remote;
+  if (isDeepEqual(remote, base)) return local;
+
+  const id = conflictId(entityType, entityId, field);
+  ctx.conflicts.push({ id, entityType, entityId, label, field, local, remote });
+  return ctx.resolutions[id] === 'remote' ? remote : local;
+};
+
+/**
+ * Merges the plain (non-nested) fields of an object. Keys listed in `skip` are handled by the caller.
+ */
+const mergeFields = <T extends object>(
+  ctx: MergeContext,
+  entityType: MergeEntityType,
+  entityId: string,
+  label: string,
+  base: T | undefined,
+  local: T,
+  remote: T,
+  skip: string[] = []
+): T => {
+  const keys = new Set([...Object.keys(local), ...Object.keys(remote), ...Object.keys(base || {})]);
+  const merged: any = {};
+  keys.forEach(key => {
+    if (skip.includes(key)) return;
+    const value = mergeValue(
+      ctx, entityType, entityId, label, key,
+      (base as any)?.[key], (local as any)[key], (remote as any)[key]
+    );
+    if (value !== undefined) merged[key] = value;
+  });
+  return merged as T;
+};
+
+/**
+ * Merges two lists of identifiable items against their common ancestor.
+ * Order follows the remote list, with items added locally appended in their local order.
+ */
+const mergeList = <T extends { id: string }>(
+  ctx: MergeContext,
+  entityType: MergeEntityType,
+  labelOf: (item: T) => string,
+  base: T[],
+  local: T[],
+  remote: T[],
+  mergeItem: (base: T | undefined, local: T, remote: T) => T
+): T[] => {
+  const baseMap = new Map(base.map(item => [item.id, item]));
+  const localMap = new Map(local.map(item => [item.id, item]));
+  const remoteMap = new Map(remote.map(item => [item.id, item]));
+
+  const orderedIds = [...remote.map(item => item.id), ...local.map(item => item.id).filter(id => !remoteMap.has(id))];
+  const result: T[] = [];
+
+  orderedIds.forEach(id => {
+    const b = baseMap.get(id);
+    const l = localMap.get(id);
+    const r = remoteMap.get(id);
+
+    if (l && r) {
+      if (isDeepEqual(l, r)) result.push(l);
+      else if (b && isDeepEqual(l, b)) result.push(r);
+      else if (b && isDeepEqual(r, b)) result.push(l);
+      else result.push(mergeItem(b, l, r));
+      return;
+    }
+
+    const survivor = (l || r)!;
+    if (!b) {
+      // 片方でのみ追加された要素
+      result.push(survivor);
+      return;
+    }
+    if (isDeepEqual(survivor, b)) {
+      // もう片方で削除され、こちらでは変更されていない
+      return;
+    }
+
+    // 片方で削除され、もう片方で変更された
+    const cid = conflictId(entityType, id, '*');
+    ctx.conflicts.push({
+      id: cid, entityType, entityId: id, label: labelOf(survivor), field: '*',
+      local: l ?? null, remote: r ?? null,
+    });
+    const chosen = ctx.resolutions[cid] === 'remote' ? r : l;
+    if (chosen) result.push(chosen);
+  });
+
+  return result;
+};
+
+const mergeActionItem = (ctx: MergeContext, parentLabel: string) =>
+  (base: ActionItem | undefined, local: ActionItem, remote: ActionItem): ActionItem =>
+    mergeFields(ctx, 'actionItem', local.id, `${parentLabel} › ${local.text}`, base, local, remote);
+
+const mergeSubStep = (ctx: MergeContext, parentLabel: string) =>
+  (base: SubStep | undefined, local: SubStep, remote: SubStep): SubStep => {
+    const label = `${parentLabel} › ${local.text}`;
+    const merged = mergeFields(ctx, 'subStep', local.id, label, base, local, remote, ['actionItems']);
+    if (local.actionItems || remote.actionItems) {
+      merged.actionItems = mergeList(
+        ctx, 'actionItem', item => `${label} › ${item.text}`,
+        base?.actionItems || [], local.actionItems || [], remote.actionItems || [],
+        mergeActionItem(ctx, label)
+      );
+    }
+    return merged;
+  };
+
+const mergeTask = (ctx: MergeContext) =>
+  (base: ProjectTask | undefined, local: ProjectTask, remote: ProjectTask): ProjectTask => {
+    const label = local.title;
+    const merged = mergeFields(ctx, 'task', local.id, label, base, local, remote, ['extendedDetails']);
+
+    const l = local.extendedDetails;
+    const r = remote.extendedDetails;
+    if (l && r) {
+      const b = base?.extendedDetails;
+      const details = mergeFields<ExtendedTaskDetails>(ctx, 'task', local.id, label, b, l, r, ['subSteps']);
+      details.subSteps = mergeList(
+        ctx, 'subStep', subStep => `${label} › ${subStep.text}`,
+        b?.subSteps || [], l.subSteps || [], r.subSteps || [],
+        mergeSubStep(ctx, label)
+      );
+      merged.extendedDetails = details;
+    } else {
+      const details = mergeValue(ctx, 'task', local.id, label, 'extendedDetails', base?.extendedDetails, l, r);
+      if (details) merged.extendedDetails = details;
+    }
+    return merged;
+  };
+
+/**
+ * Three-way merges project tasks at task / sub-step / action-item granularity.
+ * @param base The tasks as last loaded from or saved to the server.
+ * @param local The current, locally edited tasks.
+ * @param remote The latest tasks on the server.
+ * @param resolutions The side to keep for each conflict ID; unresolved conflicts keep the local value.
+ * @returns The merged tasks and every conflict encountered.
+ */
+export const mergeProjectTasks = (
+  base: ProjectTask[],
+  local: ProjectTask[],
+  remote: ProjectTask[],
+  resolutions: Resolutions = {}
+): MergeResult => {
+  const ctx: MergeContext = { conflicts: [], resolutions };
+  const tasks = mergeList(ctx, 'task', task => task.title, base, local, remote, mergeTask(ctx));
+  return { tasks, conflicts: ctx.conflicts };
+};
@@ -0,0 +1,320 @@
+import { ProjectTask, SubStep, ActionItem, Decision, DecisionApproval, DecisionOption, DecisionProposal, TaskStatus, SubStepStatus, ExtendedTaskDetails } from '../types';
+import { isDeepEqual } from './projectMerge';
+
+// --- Row shapes of the normalized project tables ---
+
+export interface TaskRow {
+  id: string;
+  sort_order: number;
+  title: string;
+  description: string;
+  status: string | null;
+  next_task_ids: string[];
+  canvas_position: { x: number; y: number } | null;
+  responsible: string | null;
+  responsible_user_id: string | null;
+  due_date: string | null;
+  details: Omit<ExtendedTaskDetails, 'subSteps' | 'decisions' | 'responsible' | 'responsibleUserId' | 'dueDate'>;
+}
+
+export interface SubStepRow {
+  id: string;
+  task_id: string;
+  sort_order: number;
+  text: string;
+  notes: string | null;
+  next_sub_step_ids: string[];
+  canvas_position: { x: number; y: number } | null;
+  responsible: string | null;
+  responsible_user_id: string | null;
+  due_date: string | null;
+  status: string | null;
+  attachments: SubStep['attachments'];
+  estimated_days: number | null;
+  estimated_hours: number | null;
+}
+
+export interface ActionItemRow {
+  id: string;
+  sub_step_id: string;
+  sort_order: number;
+  text: string;
+  completed: boolean;
+  due_date: string | null;
+  completed_date: string | null;
+  responsible: string | null;
+  responsible_user_id: string | null;
+  report: ActionItem['report'] | null;
+  estimated_days: number | null;
+  estimated_hours: number | null;
+}
+
+export interface DecisionRow {
+  id: string;
+  task_id: string;
+  sort_order: number;
+  question: string;
+  decision: string | null;
+  reasoning: string | null;
+  date: string | null;
+  status: Decision['status'];
+  options: DecisionOption[];
+  chosen_option_id: string | null;
+  decider: string | null;
+  decider_user_id: string | null;
+  affected_task_ids: string[];
+  affected_sub_step_ids: string[];
+  ai_proposal: DecisionProposal | null;
+}
+
+// Approvals live in their own table: approvers are added and removed directly, and only the approver can record a response
+export interface DecisionApprovalRow {
+  decision_id: string;
+  user_id: string;
+  user_name: string;
+  status: DecisionApproval['status'];
+  comment: string | null;
+  responded_at: string | null;
+}
+
+export interface ProjectRows {
+  tasks: TaskRow[];
+  sub_steps: SubStepRow[];
+  action_items: ActionItemRow[];
+  decisions: DecisionRow[];
+}
+
+export interface ProjectRowChanges {
+  upserts: ProjectRows;
+  deletes: Record<keyof ProjectRows, string[]>;
+}
+
+const ROW_TABLES: (keyof ProjectRows)[] = ['tasks', 'sub_steps', 'action_items', 'decisions'];
+
+// Date columns are typed `date`, so empty strings are stored as NULL.
+const toDateColumn = (value?: string): string | null => (value ? value : null);
+
+/** Adds `key` to `target` only when the column holds a value, so assembled objects match what the app created. */
+const assignIfPresent = <T extends object, K extends keyof T>(target: T, key: K, value: T[K] | null | undefined) => {
+  if (value !== null && value !== undefined) target[key] = value;
+};
+
+/**
+ * Flattens the nested task tree into one row list per table.
+ * @param tasks The project's tasks.
+ * @returns Rows for project_tasks, project_sub_steps, project_action_items and project_decisions.
+ */
+export const flattenTasks = (tasks: ProjectTask[]): ProjectRows => {
+  const rows: ProjectRows = { tasks: [], sub_steps: [], action_items: [], decisions: [] };
+
+  tasks.forEach((task, taskIndex) => {
+    const { subSteps = [], decisions = [], responsible, responsibleUserId, dueDate, ...details } = task.extendedDetails || ({} as ExtendedTaskDetails);
+    rows.tasks.push({
+      id: task.id,
+      sort_order: taskIndex,
+      title: task.title,
+      description: task.description,
+      status: task.status ?? null,
+      next_task_ids: task.nextTaskIds || [],
+      canvas_position: task.position ?? null,
+      responsible: responsible || null,
+      responsible_user_id: responsibleUserId ?? null,
+      due_date: toDateColumn(dueDate),
+      details,
+    });
+
+    subSteps.forEach((subStep, subStepIndex) => {
+      rows.sub_steps.push({
+        id: subStep.id,
+        task_id: task.id,
+        sort_order: subStepIndex,
+        text: subStep.text,
+        notes: subStep.notes ?? null,
+        next_sub_step_ids: subStep.nextSubStepIds || [],
+        canvas_position: subStep.position ?? null,
+        responsible: subStep.responsible ?? null,
+        responsible_user_id: subStep.responsibleUserId ?? null,
+        due_date: toDateColumn(subStep.dueDate),
+        status: subStep.status ?? null,
+        attachments: subStep.attachments || [],
+        estimated_days: subStep.estimatedDays ?? null,
+        estimated_hours: subStep.estimatedHours ?? null,
+      });
+
+      (subStep.actionItems || []).forEach((item, itemIndex) => {
+        rows.action_items.push({
+          id: item.id,
+          sub_step_id: subStep.id,
+          sort_order: itemIndex,
+          text: item.text,
+          completed: item.completed,
+          due_date: toDateColumn(item.dueDate),
+          completed_date: toDateColumn(item.completedDate),
+          responsible: item.responsible ?? null,
+          responsible_user_id: item.responsibleUserId ?? null,
+          report: item.report ?? null,
+          estimated_days: item.estimatedDays ?? null,
+          estimated_hours: item.estimatedHours ?? null,
+        });
+      });
+    });
+
+    decisions.forEach((decision, decisionIndex) => {
+      rows.decisions.push({
+        id: decision.id,
+        task_id: task.id,
+        sort_order: decisionIndex,
+        question: decision.question,
+        decision: decision.decision || null,
+        reasoning: decision.reasoning || null,
+        date: toDateColumn(decision.date),
+        status: decision.status,
+        options: decision.options || [],
+        chosen_option_id: decision.chosenOptionId ?? null,
+        decider: decision.decider || null,
+        decider_user_id: decision.deciderUserId ?? null,
+        affected_task_ids: decision.affectedTaskIds || [],
+        affected_sub_step_ids: decision.affectedSubStepIds || [],
+        ai_proposal: decision.aiProposal ?? null,
+      });
+    });
+  });
+
+  return rows;
+};
+
+const bySortOrder = (a: { sort_order: number }, b: { sort_order: number }) => a.sort_order - b.sort_order;
+
+const groupBy = <T,>(rows: T[], keyOf: (row: T) => string): Map<string, T[]> => {
+  const groups = new Map<string, T[]>();
+  rows.forEach(row => {
+    const key = keyOf(row);
+    groups.set(key, [...(groups.get(key) || []), row]);
+  });
+  return groups;
+};
+
+/**
+ * Converts a project_decision_approvals row into an approval.
+ * @param row The row as returned by Supabase.
+ * @returns The approval.
+ */
+export const toDecisionApproval = (row: DecisionApprovalRow): DecisionApproval => {
+  const approval: DecisionApproval = { userId: row.user_id, userName: row.user_name, status: row.status };
+  assignIfPresent(approval, 'comment', row.comment);
+  assignIfPresent(approval, 'respondedAt', row.responded_at);
+  return approval;
+};
+
+/**
+ * Rebuilds the nested task tree from the rows of the normalized tables.
+ * @param rows Rows as returned by Supabase, in any order.
+ * @param approvalRows Rows of project_decision_approvals, attached to their decisions in the order they were added.
+ * @returns The project's tasks in their saved order.
+ */
+export const assembleTasks = (rows: ProjectRows, approvalRows: (DecisionApprovalRow & { created_at?: string })[] = []): ProjectTask[] => {
+  const itemsBySubStep = groupBy([...rows.action_items].sort(bySortOrder), row => row.sub_step_id);
+  const subStepsByTask = groupBy([...rows.sub_steps].sort(bySortOrder), row => row.task_id);
+  const decisionsByTask = groupBy([...rows.decisions].sort(bySortOrder), row => row.task_id);
+  const approvalsByDecision = groupBy(
+    [...approvalRows].sort((a, b) => (a.created_at || '').localeCompare(b.created_at || '')),
+    row => row.decision_id
+  );
+
+  return [...rows.tasks].sort(bySortOrder).map(row => {
+    const subSteps: SubStep[] = (subStepsByTask.get(row.id) || []).map(subStepRow => {
+      const subStep: SubStep = { id: subStepRow.id, text: subStepRow.text };
+      assignIfPresent(subStep, 'notes', subStepRow.notes);
+      subStep.nextSubStepIds = subStepRow.next_sub_step_ids || [];
+      assignIfPresent(subStep, 'position', subStepRow.canvas_position);
+      assignIfPresent(subStep, 'responsible', subStepRow.responsible);
+      assignIfPresent(subStep, 'responsibleUserId', subStepRow.responsible_user_id);
+      assignIfPresent(subStep, 'dueDate', subStepRow.due_date);
+      assignIfPresent(subStep, 'status', subStepRow.status as SubStepStatus | null);
+      subStep.actionItems = (itemsBySubStep.get(subStepRow.id) || []).map(itemRow => {
+        const item: ActionItem = { id: itemRow.id, text: itemRow.text, completed: itemRow.completed };
+        assignIfPresent(item, 'dueDate', itemRow.due_date);
+        assignIfPresent(item, 'completedDate', itemRow.completed_date);
+        assignIfPresent(item, 'responsible', itemRow.responsible);
+        assignIfPresent(item, 'responsibleUserId', itemRow.responsible_user_id);
+        assignIfPresent(item, 'report', itemRow.report);
+        assignIfPresent(item, 'estimatedDays', itemRow.estimated_days);
+        assignIfPresent(item, 'estimatedHours', itemRow.estimated_hours);
+        return item;
+      });
+      subStep.attachments = subStepRow.attachments || [];
+      assignIfPresent(subStep, 'estimatedDays', subStepRow.estimated_days);
+      assignIfPresent(subStep, 'estimatedHours', subStepRow.estimated_hours);
+      return subStep;
+    });
+
+    const decisions: Decision[] = (decisionsByTask.get(row.id) || []).map(decisionRow => {
+      const decision: Decision = { id: decisionRow.id, question: decisionRow.question, status: decisionRow.status };
+      assignIfPresent(decision, 'decision', decisionRow.decision);
+      assignIfPresent(decision, 'reasoning', decisionRow.reasoning);
+      assignIfPresent(decision, 'date', decisionRow.date);
+      // 空の一覧は項目ごと省き、アプリで作った決定事項と同じ形にする
+      assignIfPresent(decision, 'options', decisionRow.options?.length ? decisionRow.options : null);
+      assignIfPresent(decision, 'chosenOptionId', decisionRow.chosen_option_id);
+      assignIfPresent(decision, 'decider', decisionRow.decider);
+      assignIfPresent(decision, 'deciderUserId', decisionRow.decider_user_id);
+      const approvals = approvalsByDecision.get(decisionRow.id);
+      assignIfPresent(decision, 'approvals', approvals ? approvals.map(toDecisionApproval) : null);
+      assignIfPresent(decision, 'affectedTaskIds', decisionRow.affected_task_ids?.length ? decisionRow.affected_task_ids : null);
+      assignIfPresent(decision, 'affectedSubStepIds', decisionRow.affected_sub_step_ids?.length ? decisionRow.affected_sub_step_ids : null);
+      assignIfPresent(decision, 'aiProposal', decisionRow.ai_proposal);
+      return decision;
+    });
+
+    const task: ProjectTask = {
+      id: row.id,
+      title: row.title,
+      description: row.description,
+      nextTaskIds: row.next_task_ids || [],
+      extendedDetails: {
+        ...(row.details as ExtendedTaskDetails),
+        subSteps,
+        decisions,
+        responsible: row.responsible || '',
+        dueDate: row.due_date || '',
+      },
+    };
+    assignIfPresent(task.extendedDetails!, 'responsibleUserId', row.responsible_user_id);
+    assignIfPresent(task, 'position', row.canvas_position);
+    assignIfPresent(task, 'status', row.status as TaskStatus | null);
+    return task;
+  });
+};
+
+/**
+ * Computes the rows that differ between two snapshots of a project.
+ * @param base Rows as last saved; pass null to treat every row as changed.
+ * @param next Rows to be saved.
+ * @returns Rows to upsert and IDs to delete per table.
+ */
+export const diffProjectRows = (base: ProjectRows | null, next: ProjectRows): ProjectRowChanges => {
+  const changes: ProjectRowChanges = {
+    upserts: { tasks: [], sub_steps: [], action_items: [], decisions: [] },
+    deletes: { tasks: [], sub_steps: [], action_items: [], decisions: [] },
+  };
+
+  ROW_TABLES.forEach(table => {
+    const baseRows = new Map<string, unknown>((base?.[table] || []).map(row => [row.id, row]));
+    const nextIds = new Set<string>();
+
+    (next[table] as { id: string }[]).forEach(row => {
+      nextIds.add(row.id);
+      if (!isDeepEqual(baseRows.get(row.id), row)) {
+        (changes.upserts[table] as { id: string }[]).push(row);
+      }
+    });
+    baseRows.forEach((_, id) => {
+      if (!nextIds.has(id)) changes.deletes[table].push(id);
+    });
+  });
+
+  return changes;
+};
+
+export const hasRowChanges = (changes: ProjectRowChanges): boolean =>
+  ROW_TABLES.some(table => changes.upserts[table].length > 0 || changes.deletes[table].length > 0);
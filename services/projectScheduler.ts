@@ -0,0 +1,454 @@
+import { ProjectTask, SubStep, ActionItem, GanttItem, TaskStatus, SubStepStatus } from '../types';
+
+// 見積もりがない場合の既定の工数（日）
+export const DEFAULT_TASK_DAYS = 5;
+export const DEFAULT_SUB_STEP_DAYS = 3;
+export const DEFAULT_ACTION_ITEM_DAYS = 1;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface ScheduleOptions {
+  startDate: string; // YYYY-MM-DD。保存されているプロジェクトの開始日
+  targetDate?: string; // YYYY-MM-DD。プロジェクト全体の期限
+  statusDate?: string; // YYYY-MM-DD。進捗の基準日（省略時は今日）。未完了の残作業はこの日より前に置かない
+}
+
+interface ScheduleNode {
+  id: string;
+  duration: number;
+  predecessors: string[];
+  notBefore?: number; // この日（開始日からの日数）より前には開始しない
+  deadline?: number; // この日（開始日からの日数、終了日を含まない）までに終える必要がある
+  fixedStart?: number; // 実績のある項目の開始日。先行項目・開始制約に関係なくこの日に置く
+  statusFloor?: number; // 未完了の項目の最も早い開始日。残作業が基準日以降に収まるようにする
+}
+
+interface NodeSchedule {
+  earlyStart: number;
+  earlyFinish: number;
+  lateStart: number;
+  lateFinish: number;
+  totalFloat: number;
+}
+
+// 計画の階層（タスク › サブステップ › アクションアイテム）を共通の形で扱う
+interface PlanItem {
+  id: string;
+  name: string;
+  type: GanttItem['type'];
+  parentId: string | null;
+  progress: number;
+  duration: number; // 子を持つ項目では最低限の期間（見積もりがなければ 0）
+  dueDate?: string;
+  completedDate?: string; // 完了済みのアクションアイテムの完了日
+  predecessors: string[]; // 同じ親を持つ先行項目
+  children: PlanItem[];
+}
+
+export type GanttChange =
+  | { type: 'move'; itemId: string; days: number }
+  | { type: 'resize'; itemId: string; edge: 'start' | 'end'; days: number }
+  | { type: 'link'; fromId: string; toId: string }
+  | { type: 'unlink'; fromId: string; toId: string };
+
+// --- 日付ユーティリティ（タイムゾーンの影響を受けないよう UTC で扱う） ---
+
+const parseDate = (value?: string): number | null => {
+  if (!value) return null;
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) return null;
+  return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+};
+
+const formatDate = (time: number): string => new Date(time).toISOString().split('T')[0];
+
+const todayUtc = (): number => {
+  const now = new Date();
+  return Date.UTC(now.getFullYear(), now.getMonth(), now.getDate());
+};
+
+const addDays = (date: string, days: number): string => formatDate((parseDate(date) ?? todayUtc()) + days * MS_PER_DAY);
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round(((parseDate(to) ?? 0) - (parseDate(from) ?? 0)) / MS_PER_DAY);
+
+const toDuration = (estimate: number | undefined, fallback: number): number =>
+  estimate !== undefined && estimate > 0 ? Math.ceil(estimate) : fallback;
+
+/**
+ * Runs the critical path method over a dependency network.
+ * Cycles are broken by ignoring edges that point back to nodes not yet scheduled.
+ * @param nodes The activities with their durations, predecessors and date constraints.
+ * @param deadline The day the whole network must finish by, if any.
+ * @returns Early/late start and finish and total float per node ID.
+ */
+const computeSchedule = (nodes: ScheduleNode[], deadline?: number): Map<string, NodeSchedule> => {
+  const nodeMap = new Map(nodes.map(node => [node.id, node]));
+  const successors = new Map<string, string[]>(nodes.map(node => [node.id, []]));
+  const inDegree = new Map<string, number>();
+  nodes.forEach(node => {
+    const predecessors = node.predecessors.filter(id => nodeMap.has(id) && id !== node.id);
+    inDegree.set(node.id, predecessors.length);
+    predecessors.forEach(id => successors.get(id)!.push(node.id));
+  });
+
+  // トポロジカル順序（Kahn 法）。循環に含まれるノードは元の順序で末尾に追加する
+  const order: string[] = [];
+  const queue = nodes.filter(node => inDegree.get(node.id) === 0).map(node => node.id);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    successors.get(id)!.forEach(next => {
+      inDegree.set(next, inDegree.get(next)! - 1);
+      if (inDegree.get(next) === 0) queue.push(next);
+    });
+  }
+  const ordered = new Set(order);
+  nodes.forEach(node => { if (!ordered.has(node.id)) order.push(node.id); });
+  const position = new Map(order.map((id, index) => [id, index]));
+
+  const result = new Map<string, NodeSchedule>();
+
+  // 前進計算。先行項目も開始制約もなければプロジェクト開始日から
+  order.forEach(id => {
+    const node = nodeMap.get(id)!;
+    const predecessorFinishes = node.predecessors
+      .filter(pred => position.has(pred) && position.get(pred)! < position.get(id)!)
+      .map(pred => result.get(pred)!.earlyFinish);
+    const base = node.notBefore ?? (predecessorFinishes.length > 0 ? -Infinity : 0);
+    const earlyStart = node.fixedStart ?? Math.max(base, node.statusFloor ?? -Infinity, ...predecessorFinishes);
+    result.set(id, { earlyStart, earlyFinish: earlyStart + node.duration, lateStart: 0, lateFinish: 0, totalFloat: 0 });
+  });
+
+  const earliestFinish = Math.max(0, ...Array.from(result.values()).map(schedule => schedule.earlyFinish));
+  const projectFinish = deadline !== undefined ? Math.min(earliestFinish, deadline) : earliestFinish;
+
+  // 後退計算
+  [...order].reverse().forEach(id => {
+    const node = nodeMap.get(id)!;
+    const schedule = result.get(id)!;
+    let lateFinish = Math.min(projectFinish, node.deadline ?? Infinity);
+    successors.get(id)!
+      .filter(next => position.get(next)! > position.get(id)!)
+      .forEach(next => { lateFinish = Math.min(lateFinish, result.get(next)!.lateStart); });
+    schedule.lateFinish = lateFinish;
+    schedule.lateStart = lateFinish - node.duration;
+    schedule.totalFloat = schedule.lateStart - schedule.earlyStart;
+  });
+
+  return result;
+};
+
+// --- 進捗率 ---
+
+const actionItemProgress = (item: ActionItem): number => (item.completed ? 100 : 0);
+
+const subStepProgress = (subStep: SubStep): number => {
+  const items = subStep.actionItems || [];
+  if (items.length > 0) {
+    return Math.round((items.filter(item => item.completed).length / items.length) * 100);
+  }
+  switch (subStep.status) {
+    case SubStepStatus.COMPLETED: return 100;
+    case SubStepStatus.IN_PROGRESS: return 50;
+    default: return 0;
+  }
+};
+
+/**
+ * Estimates how far a task has progressed, from its status and the completion of its sub-steps' action items.
+ * @param task The task.
+ * @returns The progress in percent (0-100).
+ */
+export const getTaskProgress = (task: ProjectTask): number => {
+  if (task.status === TaskStatus.COMPLETED) return 100;
+  if (!task.status || task.status === TaskStatus.NOT_STARTED) return 0;
+  const subSteps = task.extendedDetails?.subSteps || [];
+  if (subSteps.length === 0) return 50;
+  return Math.round(subSteps.reduce((sum, subStep) => sum + subStepProgress(subStep), 0) / subSteps.length);
+};
+
+// --- 計画の階層 ---
+
+const toPlanItems = (tasks: ProjectTask[]): PlanItem[] =>
+  tasks.map(task => {
+    const subSteps = task.extendedDetails?.subSteps || [];
+    return {
+      id: task.id,
+      name: task.title,
+      type: 'task',
+      parentId: null,
+      progress: getTaskProgress(task),
+      duration: toDuration(task.extendedDetails?.estimatedDays, subSteps.length > 0 ? 0 : DEFAULT_TASK_DAYS),
+      dueDate: task.extendedDetails?.dueDate,
+      predecessors: tasks.filter(other => other.nextTaskIds?.includes(task.id)).map(other => other.id),
+      children: subSteps.map(subStep => {
+        const actionItems = subStep.actionItems || [];
+        return {
+          id: subStep.id,
+          name: subStep.text,
+          type: 'substep',
+          parentId: task.id,
+          progress: subStepProgress(subStep),
+          duration: toDuration(subStep.estimatedDays, actionItems.length > 0 ? 0 : DEFAULT_SUB_STEP_DAYS),
+          dueDate: subStep.dueDate,
+          predecessors: subSteps.filter(other => other.nextSubStepIds?.includes(subStep.id)).map(other => other.id),
+          // アクションアイテムはサブステップ内で順番に実施する
+          children: actionItems.map((item, itemIndex) => ({
+            id: item.id,
+            name: item.text,
+            type: 'actionitem',
+            parentId: subStep.id,
+            progress: actionItemProgress(item),
+            duration: toDuration(item.estimatedDays, DEFAULT_ACTION_ITEM_DAYS),
+            dueDate: item.dueDate,
+            completedDate: item.completed ? item.completedDate : undefined,
+            predecessors: itemIndex > 0 ? [actionItems[itemIndex - 1].id] : [],
+            children: [],
+          })),
+        };
+      }),
+    };
+  });
+
+const flattenPlan = (items: PlanItem[]): PlanItem[] => items.flatMap(item => [item, ...flattenPlan(item.children)]);
+
+// 子を持つ項目は終了マイルストーン、そうでなければ項目そのものが後続の先行ノードになる
+const exitNodeId = (item: PlanItem) => (item.children.length > 0 ? `${item.id}#end` : item.id);
+const estimateNodeId = (id: string) => `${id}#estimate`;
+
+/**
+ * Computes a dependency-respecting schedule for the whole project and returns it as Gantt chart rows.
+ * Tasks are ordered by `nextTaskIds`, sub-steps within a task by `nextSubStepIds`, and action items run
+ * sequentially within their sub-step. Durations come from `estimatedDays` (falling back to defaults).
+ * An item without children is planned to finish on its due date unless its predecessors push it later;
+ * an item with children spans them, and its due date and the project target date act as deadlines that reduce float.
+ * A completed action item with a completion date is pinned to end on that date.
+ * Days are counted from the stored project start date. The remaining work of an unfinished item without
+ * children is moved so that it starts no earlier than the status date, so overdue work shows up as delay.
+ * @param tasks The project's tasks.
+ * @param options The project start date, target date and status date.
+ * @returns Gantt items for every task, sub-step and action item, with total float and critical flags.
+ */
+export const scheduleProject = (tasks: ProjectTask[], options: ScheduleOptions): GanttItem[] => {
+  // 開始日が読めない場合のみ今日を起点にする
+  const projectStart = parseDate(options.startDate) ?? todayUtc();
+  const toDay = (date?: string): number | undefined => {
+    const time = parseDate(date);
+    return time === null ? undefined : Math.round((time - projectStart) / MS_PER_DAY) + 1;
+  };
+  const dateOf = (day: number) => formatDate(projectStart + day * MS_PER_DAY);
+  // 基準日（開始日からの日数）。この日以降に残作業を行う
+  const statusDay = Math.round(((parseDate(options.statusDate) ?? todayUtc()) - projectStart) / MS_PER_DAY);
+
+  const planItems = toPlanItems(tasks);
+  const allItems = flattenPlan(planItems);
+  const itemMap = new Map(allItems.map(item => [item.id, item]));
+
+  // 親の先行項目は、その子すべての先行項目として扱う
+  const nodes: ScheduleNode[] = [];
+  const addNodes = (item: PlanItem, inherited: string[]) => {
+    const predecessors = [
+      ...inherited,
+      ...item.predecessors.filter(id => itemMap.has(id)).map(id => exitNodeId(itemMap.get(id)!)),
+    ];
+    const dueDay = toDay(item.dueDate);
+
+    if (item.children.length === 0) {
+      const completedDay = toDay(item.completedDate);
+      const remaining = Math.ceil(item.duration * (100 - item.progress) / 100);
+      nodes.push({
+        id: item.id,
+        duration: item.duration,
+        predecessors,
+        notBefore: dueDay !== undefined ? dueDay - item.duration : undefined,
+        fixedStart: completedDay !== undefined ? completedDay - item.duration : undefined,
+        statusFloor: remaining > 0 ? statusDay + remaining - item.duration : undefined,
+      });
+      return;
+    }
+
+    item.children.forEach(child => addNodes(child, predecessors));
+    const exits = item.children.map(exitNodeId);
+    if (item.duration > 0) {
+      nodes.push({ id: estimateNodeId(item.id), duration: item.duration, predecessors });
+      exits.push(estimateNodeId(item.id));
+    }
+    nodes.push({ id: exitNodeId(item), duration: 0, predecessors: exits, deadline: dueDay });
+  };
+  planItems.forEach(item => addNodes(item, []));
+
+  const schedule = computeSchedule(nodes, toDay(options.targetDate));
+
+  const startOf = (item: PlanItem): number => {
+    if (item.children.length === 0) return schedule.get(item.id)!.earlyStart;
+    const starts = item.children.map(startOf);
+    if (item.duration > 0) starts.push(schedule.get(estimateNodeId(item.id))!.earlyStart);
+    return Math.min(...starts);
+  };
+
+  return allItems.map(item => {
+    const exit = schedule.get(exitNodeId(item))!;
+    return {
+      id: item.id,
+      name: item.name,
+      start: dateOf(startOf(item)),
+      end: dateOf(exit.earlyFinish - 1),
+      progress: item.progress,
+      dependencies: item.predecessors,
+      type: item.type,
+      parentId: item.parentId,
+      totalFloat: exit.totalFloat,
+      isCritical: exit.totalFloat <= 0,
+    };
+  });
+};
+
+/**
+ * Writes effort estimates into the plan, keeping any estimate the user already entered.
+ * @param tasks The project's tasks.
+ * @param estimates Estimated days keyed by task, sub-step or action item ID.
+ * @returns The tasks with `estimatedDays` filled in where it was missing.
+ */
+export const applyDurationEstimates = (tasks: ProjectTask[], estimates: Record<string, number>): ProjectTask[] =>
+  tasks.map(task => {
+    if (!task.extendedDetails) return task;
+    const details = task.extendedDetails;
+    return {
+      ...task,
+      extendedDetails: {
+        ...details,
+        estimatedDays: details.estimatedDays ?? estimates[task.id],
+        subSteps: details.subSteps.map(subStep => ({
+          ...subStep,
+          estimatedDays: subStep.estimatedDays ?? estimates[subStep.id],
+          actionItems: subStep.actionItems?.map(item => ({
+            ...item,
+            estimatedDays: item.estimatedDays ?? estimates[item.id],
+          })),
+        })),
+      },
+    };
+  });
+
+// --- ガントチャートからの編集 ---
+
+type ScheduleFields = { dueDate?: string; estimatedDays?: number };
+
+// 指定した ID の期限・工数を書き換える（タスク・サブステップ・アクションアイテム共通）
+const updateScheduleFields = (
+  tasks: ProjectTask[],
+  updates: Map<string, (fields: ScheduleFields) => ScheduleFields>
+): ProjectTask[] =>
+  tasks.map(task => {
+    if (!task.extendedDetails) return task;
+    const details = task.extendedDetails;
+    const taskUpdate = updates.get(task.id);
+    return {
+      ...task,
+      extendedDetails: {
+        ...details,
+        ...(taskUpdate ? taskUpdate({ dueDate: details.dueDate, estimatedDays: details.estimatedDays }) : {}),
+        subSteps: details.subSteps.map(subStep => {
+          const subStepUpdate = updates.get(subStep.id);
+          return {
+            ...subStep,
+            ...(subStepUpdate ? subStepUpdate({ dueDate: subStep.dueDate, estimatedDays: subStep.estimatedDays }) : {}),
+            actionItems: subStep.actionItems?.map(item => {
+              const itemUpdate = updates.get(item.id);
+              return itemUpdate ? { ...item, ...itemUpdate({ dueDate: item.dueDate, estimatedDays: item.estimatedDays }) } : item;
+            }),
+          };
+        }),
+      },
+    };
+  });
+
+// 依存関係（nextTaskIds / nextSubStepIds）を書き換える
+const updateLinks = (tasks: ProjectTask[], fromId: string, update: (ids: string[]) => string[]): ProjectTask[] =>
+  tasks.map(task => {
+    if (task.id === fromId) return { ...task, nextTaskIds: update(task.nextTaskIds || []) };
+    if (!task.extendedDetails?.subSteps.some(subStep => subStep.id === fromId)) return task;
+    return {
+      ...task,
+      extendedDetails: {
+        ...task.extendedDetails,
+        subSteps: task.extendedDetails.subSteps.map(subStep =>
+          subStep.id === fromId ? { ...subStep, nextSubStepIds: update(subStep.nextSubStepIds || []) } : subStep
+        ),
+      },
+    };
+  });
+
+/**
+ * Checks whether a dependency arrow can be drawn from one Gantt item to another.
+ * Only tasks, or sub-steps of the same task, can be linked, and the link must not create a cycle.
+ * @param items The current Gantt items.
+ * @param fromId The ID of the predecessor.
+ * @param toId The ID of the successor.
+ * @returns True if the link is allowed.
+ */
+export const canLinkGanttItems = (items: GanttItem[], fromId: string, toId: string): boolean => {
+  const from = items.find(item => item.id === fromId);
+  const to = items.find(item => item.id === toId);
+  if (!from || !to || from.id === to.id) return false;
+  if (from.type !== to.type || from.type === 'actionitem' || from.parentId !== to.parentId) return false;
+  if (to.dependencies.includes(from.id)) return false;
+
+  // to から後続をたどって from に戻れる場合は循環になる
+  const visited = new Set<string>();
+  const stack = [to.id];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === from.id) return false;
+    if (visited.has(id)) continue;
+    visited.add(id);
+    items.filter(item => item.dependencies.includes(id)).forEach(item => stack.push(item.id));
+  }
+  return true;
+};
+
+/**
+ * Writes an edit made on the Gantt chart back into the plan.
+ * Moving a bar shifts the due dates of the item and everything under it; resizing an item without
+ * children sets its due date and `estimatedDays`; linking and unlinking edit `nextTaskIds`/`nextSubStepIds`.
+ * @param tasks The project's tasks.
+ * @param change The edit made on the chart.
+ * @param items The Gantt items the edit was made against.
+ * @returns The updated tasks, or the same array if the edit is not applicable.
+ */
+export const applyGanttChange = (tasks: ProjectTask[], change: GanttChange, items: GanttItem[]): ProjectTask[] => {
+  if (change.type === 'link') {
+    if (!canLinkGanttItems(items, change.fromId, change.toId)) return tasks;
+    return updateLinks(tasks, change.fromId, ids => [...ids, change.toId]);
+  }
+  if (change.type === 'unlink') {
+    return updateLinks(tasks, change.fromId, ids => ids.filter(id => id !== change.toId));
+  }
+
+  const item = items.find(candidate => candidate.id === change.itemId);
+  if (!item || change.days === 0) return tasks;
+  const hasChildren = (id: string) => items.some(candidate => candidate.parentId === id);
+  const updates = new Map<string, (fields: ScheduleFields) => ScheduleFields>();
+
+  if (change.type === 'move') {
+    // 子を持つ項目は子の期限をすべてずらし、自身の期限は設定されている場合のみずらす
+    const shift = (target: GanttItem) => {
+      if (hasChildren(target.id)) {
+        updates.set(target.id, fields => ({ ...fields, dueDate: fields.dueDate ? addDays(fields.dueDate, change.days) : fields.dueDate }));
+        items.filter(child => child.parentId === target.id).forEach(shift);
+      } else {
+        updates.set(target.id, fields => ({ ...fields, dueDate: addDays(target.end, change.days) }));
+      }
+    };
+    shift(item);
+    return updateScheduleFields(tasks, updates);
+  }
+
+  // 期間の変更は子を持たない項目のみ。開始日・終了日が逆転しないようにする
+  if (hasChildren(item.id)) return tasks;
+  const start = change.edge === 'start' ? addDays(item.start, Math.min(change.days, daysBetween(item.start, item.end))) : item.start;
+  const end = change.edge === 'end' ? addDays(item.end, Math.max(change.days, -daysBetween(item.start, item.end))) : item.end;
+  updates.set(item.id, () => ({ dueDate: end, estimatedDays: daysBetween(start, end) + 1 }));
+  return updateScheduleFields(tasks, updates);
+};
@@ -1,48 +1,98 @@
 import { supabase } from '../lib/supabase';
 import { ProjectTask, GanttItem } from '../types';
+import { flattenTasks, assembleTasks, diffProjectRows, ProjectRowChanges } from './projectRows';
 
 export interface ProjectData {
   id: string;
   title: string;
   goal: string;
   targetDate: string;
+  startDate: string; // 日程の起点。作成時に決まり、以後は変わらない
   tasks: ProjectTask[];
   ganttData?: GanttItem[] | null;
   createdAt: string;
   updatedAt: string;
+  version: number;
 }
 
+// 楽観的排他制御で保存が拒否されたときのエラー。最新のサーバー側データを保持する
+export class ProjectConflictError extends Error {
+  remote: ProjectData;
+
+  constructor(remote: ProjectData) {
+    super('他のメンバーがプロジェクトを更新しました。変更を統合してから保存してください。');
+    this.name = 'ProjectConflictError';
+    this.remote = remote;
+  }
+}
+
+// タスク関連のテーブルを埋め込んで取得する
+const PROJECT_SELECT = '*, project_tasks(*), project_sub_steps(*), project_action_items(*), project_decisions(*), project_decision_approvals(*)';
+
+// projects テーブルの行（埋め込んだタスク関連の行を含む）を ProjectData に変換
+const toProjectData = (row: any): ProjectData => ({
+  id: row.id,
+  title: row.title,
+  goal: row.goal,
+  targetDate: row.target_date,
+  startDate: row.start_date,
+  tasks: assembleTasks({
+    tasks: row.project_tasks || [],
+    sub_steps: row.project_sub_steps || [],
+    action_items: row.project_action_items || [],
+    decisions: row.project_decisions || [],
+  }, row.project_decision_approvals || []),
+  ganttData: row.gantt_data,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  version: row.version ?? 1,
+});
+
 export class ProjectService {
+  // 変更行を一括保存し、新しい version を返す。version が一致しない場合は null
+  private static async saveChanges(
+    id: string,
+    projectFields: Record<string, unknown>,
+    changes: ProjectRowChanges,
+    expectedVersion?: number
+  ): Promise<number | null> {
+    const { data, error } = await supabase.rpc('save_project_changes', {
+      p_project_id: id,
+      p_expected_version: expectedVersion ?? null,
+      p_project: projectFields,
+      p_upserts: changes.upserts,
+      p_deletes: changes.deletes,
+    });
+
+    if (error) {
+      throw new Error(`プロジェクトの更新に失敗しました: ${error.message}`);
+    }
+
+    return data;
+  }
+
   // プロジェクト一覧を取得
   static async getProjects(): Promise<ProjectData[]> {
     const { data, error } = await supabase
       .from('projects')
-      .select('*')
+      .select(PROJECT_SELECT)
       .order('updated_at', { ascending: false });
 
     if (error) {
       throw new Error(`プロジェクトの取得に失敗しました: ${error.message}`);
     }
 
-    return data.map(project => ({
-      id: project.id,
-      title: project.title,
-      goal: project.goal,
-      targetDate: project.target_date,
-      tasks: project.tasks_data || [],
-      ganttData: project.gantt_data,
-      createdAt: project.created_at,
-      updatedAt: project.updated_at,
-    }));
+    return data.map(toProjectData);
   }
 
-  // プロジェクトを作成
+  // プロジェクトを作成（startDate を省略するとサーバーの今日が開始日になる）
   static async createProject(
     title: string,
     goal: string,
     targetDate: string,
     tasks: ProjectTask[] = [],
-    ganttData?: GanttItem[] | null
+    ganttData?: GanttItem[] | null,
+    startDate?: string
   ): Promise<ProjectData> {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) {
@@ -56,7 +106,7 @@ export class ProjectService {
         title,
         goal,
         target_date: targetDate,
-        tasks_data: tasks,
+        start_date: startDate,
         gantt_data: ganttData,
       })
       .select()
@@ -66,19 +116,18 @@ export class ProjectService {
       throw new Error(`プロジェクトの作成に失敗しました: ${error.message}`);
     }
 
-    return {
-      id: data.id,
-      title: data.title,
-      goal: data.goal,
-      targetDate: data.target_date,
-      tasks: data.tasks_data || [],
-      ganttData: data.gantt_data,
-      createdAt: data.created_at,
-      updatedAt: data.updated_at,
-    };
+    const project = toProjectData(data);
+    if (tasks.length === 0) {
+      return project;
+    }
+
+    const version = await ProjectService.saveChanges(project.id, {}, diffProjectRows(null, flattenTasks(tasks)), project.version);
+    return { ...project, tasks, version: version ?? project.version };
   }
 
-  // プロジェクトを更新
+  // プロジェクトを更新し、新しい version を返す
+  // baseTasks（前回サーバーと同期した tasks）を渡すと、変更のあった行のみを保存する
+  // expectedVersion を渡すと、読み込み時から version が変わっていない場合のみ更新する
   static async updateProject(
     id: string,
     updates: {
@@ -87,37 +136,33 @@ export class ProjectService {
       targetDate?: string;
       tasks?: ProjectTask[];
       ganttData?: GanttItem[] | null;
-    }
-  ): Promise<ProjectData> {
-    const updateData: any = {};
-    
-    if (updates.title !== undefined) updateData.title = updates.title;
-    if (updates.goal !== undefined) updateData.goal = updates.goal;
-    if (updates.targetDate !== undefined) updateData.target_date = updates.targetDate;
-    if (updates.tasks !== undefined) updateData.tasks_data = updates.tasks;
-    if (updates.ganttData !== undefined) updateData.gantt_data = updates.ganttData;
-
-    const { data, error } = await supabase
-      .from('projects')
-      .update(updateData)
-      .eq('id', id)
-      .select()
-      .single();
-
-    if (error) {
-      throw new Error(`プロジェクトの更新に失敗しました: ${error.message}`);
+    },
+    expectedVersion?: number,
+    baseTasks?: ProjectTask[]
+  ): Promise<number> {
+    const projectFields: Record<string, unknown> = {};
+
+    if (updates.title !== undefined) projectFields.title = updates.title;
+    if (updates.goal !== undefined) projectFields.goal = updates.goal;
+    if (updates.targetDate !== undefined) projectFields.target_date = updates.targetDate;
+    if (updates.ganttData !== undefined) projectFields.gantt_data = updates.ganttData;
+
+    const changes = diffProjectRows(
+      baseTasks ? flattenTasks(baseTasks) : null,
+      flattenTasks(updates.tasks ?? baseTasks ?? [])
+    );
+
+    const version = await ProjectService.saveChanges(id, projectFields, changes, expectedVersion);
+
+    // 更新対象の行がない = 他のユーザーが先に保存して version が進んでいる
+    if (version === null) {
+      if (expectedVersion === undefined) {
+        throw new Error('プロジェクトの更新に失敗しました: プロジェクトが見つかりません');
+      }
+      throw new ProjectConflictError(await ProjectService.getProject(id));
     }
 
-    return {
-      id: data.id,
-      title: data.title,
-      goal: data.goal,
-      targetDate: data.target_date,
-      tasks: data.tasks_data || [],
-      ganttData: data.gantt_data,
-      createdAt: data.created_at,
-      updatedAt: data.updated_at,
-    };
+    return version;
   }
 
   // プロジェクトを削除
@@ -136,7 +181,7 @@ export class ProjectService {
   static async getProject(id: string): Promise<ProjectData> {
     const { data, error } = await supabase
       .from('projects')
-      .select('*')
+      .select(PROJECT_SELECT)
       .eq('id', id)
       .single();
 
@@ -144,15 +189,6 @@ export class ProjectService {
       throw new Error(`プロジェクトの取得に失敗しました: ${error.message}`);
     }
 
-    return {
-      id: data.id,
-      title: data.title,
-      goal: data.goal,
-      targetDate: data.target_date,
-      tasks: data.tasks_data || [],
-      ganttData: data.gantt_data,
-      createdAt: data.created_at,
-      updatedAt: data.updated_at,
-    };
+    return toProjectData(data);
   }
 }
\ No newline at end of file
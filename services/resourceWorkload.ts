@@ -0,0 +1,280 @@
+import { ProjectTask, GanttItem } from '../types';
+import { ProjectMember } from './projectCollaborationService';
+
+// 担当者ごとの作業負荷。日程はガントチャートと同じ scheduleProject の結果から求める。
+// スケジューラーの1日はフルタイムで1日分の作業とみなし、週40時間を7日に均して時間に換算する
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const EPSILON = 1e-6;
+
+export const DEFAULT_WEEKLY_CAPACITY_HOURS = 40;
+const HOURS_PER_SCHEDULED_DAY = DEFAULT_WEEKLY_CAPACITY_HOURS / 7;
+
+export type WorkloadMember = Pick<ProjectMember, 'userId' | 'userName' | 'userEmail' | 'weeklyCapacityHours'>;
+
+export interface WorkloadAssignment {
+  itemId: string;
+  name: string;
+  type: GanttItem['type'];
+  userId: string | null; // メンバーに紐付かない（未設定、または名前が一致しない）場合は null
+  responsible: string; // 表示名。未設定なら空
+  start: string; // YYYY-MM-DD
+  end: string;   // YYYY-MM-DD
+  totalFloat: number;
+  isCritical: boolean;
+}
+
+export interface WorkloadCell {
+  weekStart: string; // 週の月曜日 (YYYY-MM-DD)
+  hours: number;
+  capacityHours: number;
+  utilization: number; // hours / capacityHours。稼働可能時間が 0 で作業がある週は Infinity
+  itemIds: string[];
+}
+
+export interface MemberWorkload {
+  userId: string | null; // 未割り当ての行は null
+  userName: string;
+  weeklyCapacityHours: number;
+  cells: WorkloadCell[]; // ResourceWorkload.weeks と同じ順
+  totalHours: number;
+}
+
+export interface OverAllocation {
+  userId: string;
+  userName: string;
+  weekStart: string;
+  hours: number;
+  capacityHours: number;
+  itemIds: string[];
+}
+
+export interface LevelingSuggestion {
+  itemId: string;
+  name: string;
+  userId: string;
+  userName: string;
+  days: number; // 後ろにずらす日数（totalFloat 以内）
+  from: { start: string; end: string };
+  to: { start: string; end: string };
+  totalFloat: number;
+}
+
+export interface ResourceWorkload {
+  weeks: string[];
+  rows: MemberWorkload[]; // メンバーの順。未割り当ての作業があれば最後に1行
+  assignments: WorkloadAssignment[];
+  overAllocations: OverAllocation[];
+  suggestions: LevelingSuggestion[];
+}
+
+interface Owner {
+  responsible?: string;
+  responsibleUserId?: string;
+}
+
+const toEpochDay = (date: string): number => Math.round(Date.parse(`${date.slice(0, 10)}T00:00:00Z`) / MS_PER_DAY);
+
+const fromEpochDay = (day: number): string => new Date(day * MS_PER_DAY).toISOString().slice(0, 10);
+
+// 月曜日始まりの週
+const weekStartOf = (day: number): number => day - ((new Date(day * MS_PER_DAY).getUTCDay() + 6) % 7);
+
+const memberName = (member: Pick<WorkloadMember, 'userName'>): string => member.userName || 'Unknown';
+
+const daysOf = (start: number, end: number): number[] => Array.from({ length: Math.max(end - start + 1, 0) }, (_, i) => start + i);
+
+/**
+ * Finds the project member a responsible person refers to.
+ * Items assigned before members could be picked only have a name, so it is matched against the member's name or email.
+ * @param responsible The responsible person's display name.
+ * @param responsibleUserId The member the item is assigned to, if picked from the member list.
+ * @param members The project's members.
+ * @returns The member's user ID, or null when the item is not assigned to a member.
+ */
+export const resolveResponsibleUserId = (
+  responsible: string | undefined,
+  responsibleUserId: string | undefined,
+  members: Pick<WorkloadMember, 'userId' | 'userName' | 'userEmail'>[]
+): string | null => {
+  if (responsibleUserId && members.some(member => member.userId === responsibleUserId)) return responsibleUserId;
+  const name = responsible?.trim().toLowerCase();
+  if (!name) return null;
+  const match = members.find(member => member.userName?.toLowerCase() === name || member.userEmail?.toLowerCase() === name);
+  return match?.userId ?? null;
+};
+
+const collectOwners = (tasks: ProjectTask[]): Map<string, Owner> => {
+  const owners = new Map<string, Owner>();
+  tasks.forEach(task => {
+    const details = task.extendedDetails;
+    owners.set(task.id, { responsible: details?.responsible, responsibleUserId: details?.responsibleUserId });
+    details?.subSteps.forEach(subStep => {
+      owners.set(subStep.id, { responsible: subStep.responsible, responsibleUserId: subStep.responsibleUserId });
+      subStep.actionItems?.forEach(item => owners.set(item.id, { responsible: item.responsible, responsibleUserId: item.responsibleUserId }));
+    });
+  });
+  return owners;
+};
+
+/**
+ * Lists the scheduled work of each responsible person.
+ * Only items without children are counted, so that work is not counted twice; an item without a responsible
+ * person is counted as work of its sub-step's or task's responsible person. Completed items are left out.
+ * @param tasks The project's tasks.
+ * @param items The scheduled Gantt items.
+ * @param members The project's members.
+ * @returns One assignment per remaining item.
+ */
+export const collectWorkloadAssignments = (tasks: ProjectTask[], items: GanttItem[], members: WorkloadMember[]): WorkloadAssignment[] => {
+  const owners = collectOwners(tasks);
+  const itemMap = new Map(items.map(item => [item.id, item]));
+  const parentIds = new Set(items.map(item => item.parentId).filter((id): id is string => !!id));
+
+  const ownerOf = (item: GanttItem | undefined): Owner => {
+    for (let current = item; current; current = current.parentId ? itemMap.get(current.parentId) : undefined) {
+      const owner = owners.get(current.id);
+      if (owner?.responsible?.trim() || owner?.responsibleUserId) return owner;
+    }
+    return {};
+  };
+
+  return items
+    .filter(item => !parentIds.has(item.id) && item.progress < 100)
+    .map(item => {
+      const owner = ownerOf(item);
+      const userId = resolveResponsibleUserId(owner.responsible, owner.responsibleUserId, members);
+      const member = members.find(candidate => candidate.userId === userId);
+      return {
+        itemId: item.id,
+        name: item.name,
+        type: item.type,
+        userId,
+        responsible: member ? memberName(member) : owner.responsible?.trim() ?? '',
+        start: item.start,
+        end: item.end,
+        totalFloat: Math.max(item.totalFloat ?? 0, 0),
+        isCritical: item.isCritical ?? false,
+      };
+    });
+};
+
+// 1人分の作業を、余裕日数の範囲で後ろにずらして日ごとの過負荷を減らす（貪欲法）。
+// 後続の項目への影響は考慮しないため、提案は1件ずつ適用して再計算する前提
+const suggestLevelingForMember = (member: WorkloadMember, assignments: WorkloadAssignment[]): LevelingSuggestion[] => {
+  const dailyCapacity = member.weeklyCapacityHours / 7;
+  const load = new Map<number, number>();
+  const addLoad = (start: number, end: number, sign: 1 | -1) =>
+    daysOf(start, end).forEach(day => load.set(day, (load.get(day) ?? 0) + sign * HOURS_PER_SCHEDULED_DAY));
+  assignments.forEach(assignment => addLoad(toEpochDay(assignment.start), toEpochDay(assignment.end), 1));
+
+  // その位置に置いたときに新たに生じる過負荷（時間）
+  const placementCost = (start: number, end: number) =>
+    daysOf(start, end).reduce((sum, day) => {
+      const current = load.get(day) ?? 0;
+      return sum + Math.max(current + HOURS_PER_SCHEDULED_DAY - dailyCapacity, 0) - Math.max(current - dailyCapacity, 0);
+    }, 0);
+
+  const candidates = assignments
+    .filter(assignment => !assignment.isCritical && assignment.totalFloat >= 1)
+    .sort((a, b) => b.totalFloat - a.totalFloat || b.start.localeCompare(a.start));
+
+  const suggestions: LevelingSuggestion[] = [];
+  candidates.forEach(assignment => {
+    const start = toEpochDay(assignment.start);
+    const end = toEpochDay(assignment.end);
+    if (!daysOf(start, end).some(day => (load.get(day) ?? 0) > dailyCapacity + EPSILON)) return;
+
+    addLoad(start, end, -1);
+    const stayCost = placementCost(start, end);
+    let best = { shift: 0, cost: stayCost };
+    for (let shift = 1; shift <= Math.floor(assignment.totalFloat); shift++) {
+      const cost = placementCost(start + shift, end + shift);
+      if (cost < best.cost - EPSILON) best = { shift, cost };
+    }
+    addLoad(start + best.shift, end + best.shift, 1);
+
+    if (best.shift > 0) {
+      suggestions.push({
+        itemId: assignment.itemId,
+        name: assignment.name,
+        userId: member.userId,
+        userName: memberName(member),
+        days: best.shift,
+        from: { start: assignment.start, end: assignment.end },
+        to: { start: fromEpochDay(start + best.shift), end: fromEpochDay(end + best.shift) },
+        totalFloat: assignment.totalFloat,
+      });
+    }
+  });
+  return suggestions;
+};
+
+const buildRow = (
+  userId: string | null,
+  userName: string,
+  weeklyCapacityHours: number,
+  assignments: WorkloadAssignment[],
+  weeks: number[]
+): MemberWorkload => {
+  const cells = new Map<number, WorkloadCell>(weeks.map(week => [week, {
+    weekStart: fromEpochDay(week), hours: 0, capacityHours: weeklyCapacityHours, utilization: 0, itemIds: [],
+  }]));
+  assignments.forEach(assignment => {
+    daysOf(toEpochDay(assignment.start), toEpochDay(assignment.end)).forEach(day => {
+      const cell = cells.get(weekStartOf(day))!;
+      cell.hours += HOURS_PER_SCHEDULED_DAY;
+      if (!cell.itemIds.includes(assignment.itemId)) cell.itemIds.push(assignment.itemId);
+    });
+  });
+  const rowCells = weeks.map(week => {
+    const cell = cells.get(week)!;
+    const hours = Math.round(cell.hours * 10) / 10;
+    const utilization = weeklyCapacityHours > 0 ? hours / weeklyCapacityHours : hours > 0 ? Infinity : 0;
+    return { ...cell, hours, utilization };
+  });
+  return {
+    userId,
+    userName,
+    weeklyCapacityHours,
+    cells: rowCells,
+    totalHours: Math.round(rowCells.reduce((sum, cell) => sum + cell.hours, 0) * 10) / 10,
+  };
+};
+
+/**
+ * Computes the weekly workload of every member from the scheduled plan.
+ * @param tasks The project's tasks, for their responsible people.
+ * @param items The Gantt items from `scheduleProject`.
+ * @param members The project's members with their weekly capacity.
+ * @returns The weekly heatmap rows, the weeks over capacity and suggestions to level them.
+ */
+export const computeResourceWorkload = (tasks: ProjectTask[], items: GanttItem[], members: WorkloadMember[]): ResourceWorkload => {
+  const assignments = collectWorkloadAssignments(tasks, items, members);
+  if (assignments.length === 0) {
+    return { weeks: [], rows: [], assignments, overAllocations: [], suggestions: [] };
+  }
+
+  const firstWeek = weekStartOf(Math.min(...assignments.map(assignment => toEpochDay(assignment.start))));
+  const lastWeek = weekStartOf(Math.max(...assignments.map(assignment => toEpochDay(assignment.end))));
+  const weeks: number[] = [];
+  for (let week = firstWeek; week <= lastWeek; week += 7) weeks.push(week);
+
+  const rows = members.map(member =>
+    buildRow(member.userId, memberName(member), member.weeklyCapacityHours, assignments.filter(assignment => assignment.userId === member.userId), weeks)
+  );
+  const unassigned = assignments.filter(assignment => assignment.userId === null);
+  if (unassigned.length > 0) rows.push(buildRow(null, '未割り当て', 0, unassigned, weeks));
+
+  const overAllocations: OverAllocation[] = rows.flatMap(row =>
+    row.userId === null ? [] : row.cells
+      .filter(cell => cell.hours > cell.capacityHours + EPSILON)
+      .map(cell => ({ userId: row.userId!, userName: row.userName, weekStart: cell.weekStart, hours: cell.hours, capacityHours: cell.capacityHours, itemIds: cell.itemIds }))
+  );
+
+  const suggestions = members
+    .flatMap(member => suggestLevelingForMember(member, assignments.filter(assignment => assignment.userId === member.userId)))
+    .sort((a, b) => a.from.start.localeCompare(b.from.start));
+
+  return { weeks: weeks.map(fromEpochDay), rows, assignments, overAllocations, suggestions };
+};
@@ -0,0 +1,121 @@
+import { ProjectRisk, ProposedRisk, RiskLevel, RiskStatus } from '../types';
+import { RiskInput } from './riskService';
+
+// リスク登録簿の評価（発生確率 × 影響度）と、AI 診断の提案を登録簿の形に変換する処理
+
+export type RiskSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export const RISK_LEVELS: RiskLevel[] = [1, 2, 3, 4, 5];
+
+export const RISK_LEVEL_LABELS: Record<RiskLevel, string> = {
+  1: '非常に低い',
+  2: '低い',
+  3: '中',
+  4: '高い',
+  5: '非常に高い',
+};
+
+export const RISK_STATUS_LABELS: Record<RiskStatus, string> = {
+  open: '未対応',
+  mitigating: '対策中',
+  occurred: '顕在化',
+  closed: 'クローズ',
+};
+
+export const RISK_SEVERITY_LABELS: Record<RiskSeverity, string> = {
+  low: '低',
+  medium: '中',
+  high: '高',
+  critical: '重大',
+};
+
+export interface RiskMatrixCell {
+  probability: RiskLevel;
+  impact: RiskLevel;
+  severity: RiskSeverity;
+  risks: ProjectRisk[];
+}
+
+/**
+ * Scores a risk as probability × impact.
+ * @param risk The risk, or anything with a probability and an impact.
+ * @returns The score from 1 to 25.
+ */
+export const getRiskScore = (risk: Pick<ProjectRisk, 'probability' | 'impact'>): number => risk.probability * risk.impact;
+
+/**
+ * Classifies a risk score.
+ * @param score The probability × impact score.
+ * @returns The severity: up to 4 is low, up to 9 medium, up to 14 high and 15 or more critical.
+ */
+export const getRiskSeverity = (score: number): RiskSeverity =>
+  score >= 15 ? 'critical' : score >= 10 ? 'high' : score >= 5 ? 'medium' : 'low';
+
+/**
+ * Tells whether a risk still needs attention, i.e. it has not been closed.
+ * @param risk The risk.
+ * @returns False for closed risks.
+ */
+export const isActiveRisk = (risk: ProjectRisk): boolean => risk.status !== 'closed';
+
+/**
+ * Sorts risks by score, highest first; closed risks come last.
+ * @param risks The risks.
+ * @returns A new sorted array.
+ */
+export const sortRisks = (risks: ProjectRisk[]): ProjectRisk[] =>
+  [...risks].sort((a, b) =>
+    Number(isActiveRisk(b)) - Number(isActiveRisk(a))
+    || getRiskScore(b) - getRiskScore(a)
+    || a.createdAt.localeCompare(b.createdAt));
+
+/**
+ * Places the active risks on a 5 × 5 probability × impact matrix.
+ * @param risks The project's risks. Closed risks are left out.
+ * @returns The cells row by row, from the highest probability down, each row from the lowest impact up.
+ */
+export const buildRiskMatrix = (risks: ProjectRisk[]): RiskMatrixCell[] => {
+  const active = risks.filter(isActiveRisk);
+  return [...RISK_LEVELS].reverse().flatMap(probability => RISK_LEVELS.map(impact => ({
+    probability,
+    impact,
+    severity: getRiskSeverity(probability * impact),
+    risks: active.filter(risk => risk.probability === probability && risk.impact === impact),
+  })));
+};
+
+const normalizeTitle = (title: string) => title.toLowerCase().replace(/[\s\p{P}\p{S}]/gu, '');
+
+/**
+ * Looks for a risk already in the register under the same title, ignoring spacing and punctuation.
+ * @param title The title of the new risk.
+ * @param risks The risks in the register.
+ * @returns The matching risk, if any.
+ */
+export const findDuplicateRisk = (title: string, risks: ProjectRisk[]): ProjectRisk | undefined => {
+  const normalized = normalizeTitle(title);
+  return normalized ? risks.find(risk => normalizeTitle(risk.title) === normalized) : undefined;
+};
+
+/**
+ * Turns a risk proposed by the health report into a new register entry.
+ * @param proposal The proposed risk.
+ * @param taskIds The IDs of the tasks in the plan; links to other IDs are dropped.
+ * @param generateUniqueId Creates IDs for the mitigation actions.
+ * @returns The risk to register, open and without an owner.
+ */
+export const proposedRiskToInput = (
+  proposal: ProposedRisk,
+  taskIds: string[],
+  generateUniqueId: (prefix: string) => string
+): RiskInput => ({
+  title: proposal.title,
+  description: proposal.description,
+  probability: proposal.probability,
+  impact: proposal.impact,
+  owner: '',
+  mitigationActions: proposal.mitigations.filter(text => text.trim()).map(text => ({ id: generateUniqueId('mitigation'), text, completed: false })),
+  status: 'open',
+  relatedTaskIds: proposal.relatedTaskIds.filter(id => taskIds.includes(id)),
+  source: 'health_report',
+});
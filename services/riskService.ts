@@ -0,0 +1,98 @@
+import { supabase } from '../lib/supabase';
+import { ProjectRisk } from '../types';
+
+// プロジェクトのリスク登録簿。計画のデータとは別のテーブルに保存し、AI 診断を再実行しても消えない
+
+export type RiskInput = Omit<ProjectRisk, 'id' | 'projectId' | 'createdAt' | 'updatedAt'>;
+
+const toProjectRisk = (row: any): ProjectRisk => ({
+  id: row.id,
+  projectId: row.project_id,
+  title: row.title,
+  description: row.description ?? '',
+  probability: row.probability,
+  impact: row.impact,
+  owner: row.owner ?? '',
+  ownerUserId: row.owner_user_id ?? undefined,
+  mitigationActions: row.mitigation_actions || [],
+  status: row.status,
+  relatedTaskIds: row.related_task_ids || [],
+  source: row.source,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const toRow = (risk: Partial<RiskInput>) => {
+  const row: Record<string, unknown> = {};
+  if (risk.title !== undefined) row.title = risk.title;
+  if (risk.description !== undefined) row.description = risk.description;
+  if (risk.probability !== undefined) row.probability = risk.probability;
+  if (risk.impact !== undefined) row.impact = risk.impact;
+  if (risk.owner !== undefined) row.owner = risk.owner;
+  if ('ownerUserId' in risk) row.owner_user_id = risk.ownerUserId ?? null;
+  if (risk.mitigationActions !== undefined) row.mitigation_actions = risk.mitigationActions;
+  if (risk.status !== undefined) row.status = risk.status;
+  if (risk.relatedTaskIds !== undefined) row.related_task_ids = risk.relatedTaskIds;
+  if (risk.source !== undefined) row.source = risk.source;
+  return row;
+};
+
+export class RiskService {
+  // プロジェクトのリスクを登録日時の古い順に取得
+  static async getRisks(projectId: string): Promise<ProjectRisk[]> {
+    const { data, error } = await supabase
+      .from('project_risks')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`リスクの取得に失敗しました: ${error.message}`);
+    }
+
+    return data.map(toProjectRisk);
+  }
+
+  // リスクを登録
+  static async createRisk(projectId: string, risk: RiskInput): Promise<ProjectRisk> {
+    const { data, error } = await supabase
+      .from('project_risks')
+      .insert({ project_id: projectId, ...toRow(risk) })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`リスクの登録に失敗しました: ${error.message}`);
+    }
+
+    return toProjectRisk(data);
+  }
+
+  // リスクを更新（指定した項目のみ）
+  static async updateRisk(id: string, updates: Partial<RiskInput>): Promise<ProjectRisk> {
+    const { data, error } = await supabase
+      .from('project_risks')
+      .update(toRow(updates))
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`リスクの更新に失敗しました: ${error.message}`);
+    }
+
+    return toProjectRisk(data);
+  }
+
+  // リスクを削除
+  static async deleteRisk(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('project_risks')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`リスクの削除に失敗しました: ${error.message}`);
+    }
+  }
+}
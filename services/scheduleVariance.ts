@@ -0,0 +1,174 @@
+import {
+  ProjectTask, GanttItem, BaselineItem, ProjectBaseline, ProjectHealthReport,
+  ScheduleVarianceItem, ScheduleVarianceSummary, ScheduleVarianceTrendPoint,
+} from '../types';
+import { scheduleProject } from './projectScheduler';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// 何日以上の遅れを「遅延」とみなすか
+const SLIP_THRESHOLD_DAYS = 1;
+
+const toUtcDay = (value: string): number => {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return match ? Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) / MS_PER_DAY : NaN;
+};
+
+const daysBetween = (from: string, to: string): number => {
+  const days = toUtcDay(to) - toUtcDay(from);
+  return isNaN(days) ? 0 : days;
+};
+
+const latestDate = (dates: string[]): string =>
+  dates.filter(date => !isNaN(toUtcDay(date))).reduce((latest, date) => (date > latest ? date : latest), '');
+
+// 計画上の期日を ID ごとに集める
+const collectDueDates = (tasks: ProjectTask[]): Map<string, string | undefined> => {
+  const dueDates = new Map<string, string | undefined>();
+  tasks.forEach(task => {
+    dueDates.set(task.id, task.extendedDetails?.dueDate);
+    task.extendedDetails?.subSteps.forEach(subStep => {
+      dueDates.set(subStep.id, subStep.dueDate);
+      subStep.actionItems?.forEach(item => dueDates.set(item.id, item.dueDate));
+    });
+  });
+  return dueDates;
+};
+
+/**
+ * Captures the current schedule and due dates as baseline items.
+ * @param tasks The project's tasks.
+ * @param schedule The current Gantt items (from `scheduleProject`).
+ * @returns The items to store in a baseline.
+ */
+export const createBaselineItems = (tasks: ProjectTask[], schedule: GanttItem[]): BaselineItem[] => {
+  const dueDates = collectDueDates(tasks);
+  return schedule.map(item => ({
+    id: item.id,
+    name: item.name,
+    type: item.type,
+    parentId: item.parentId,
+    start: item.start,
+    end: item.end,
+    dueDate: dueDates.get(item.id),
+  }));
+};
+
+/**
+ * Schedules the current plan from the same start date the baseline was captured with, as of the status date.
+ * Plan edits and unfinished work that has fallen behind the status date both show up as slip;
+ * a plan that is on time does not drift as days pass.
+ * @param tasks The project's tasks.
+ * @param baseline The baseline to compare against.
+ * @param targetDate The project target date.
+ * @param statusDate The day progress is measured at. Defaults to today.
+ * @returns The current Gantt items to pass to `computeScheduleVariance`.
+ */
+export const scheduleForBaseline = (
+  tasks: ProjectTask[],
+  baseline: ProjectBaseline,
+  targetDate?: string,
+  statusDate?: string
+): GanttItem[] =>
+  scheduleProject(tasks, { startDate: baseline.scheduleStart, targetDate, statusDate });
+
+/**
+ * Compares the current schedule with a baseline.
+ * @param baseline The baseline to compare against.
+ * @param schedule The current Gantt items (from `scheduleProject`).
+ * @param baselines All baselines of the project, used to build the finish-date trend.
+ * @returns Project-level slip, slipped items and the trend of the planned finish over time.
+ */
+export const computeScheduleVariance = (
+  baseline: ProjectBaseline,
+  schedule: GanttItem[],
+  baselines: ProjectBaseline[] = [baseline]
+): ScheduleVarianceSummary => {
+  const currentMap = new Map(schedule.map(item => [item.id, item]));
+  const baselineIds = new Set(baseline.items.map(item => item.id));
+
+  const compared: ScheduleVarianceItem[] = baseline.items
+    .filter(item => currentMap.has(item.id))
+    .map(item => {
+      const current = currentMap.get(item.id)!;
+      return {
+        id: item.id,
+        name: current.name,
+        type: item.type,
+        baselineStart: item.start,
+        baselineEnd: item.end,
+        currentStart: current.start,
+        currentEnd: current.end,
+        startSlipDays: daysBetween(item.start, current.start),
+        finishSlipDays: daysBetween(item.end, current.end),
+        isCritical: current.isCritical,
+      };
+    });
+
+  const baselineFinish = latestDate(baseline.items.map(item => item.end));
+  const currentFinish = latestDate(schedule.map(item => item.end));
+
+  // 各ベースライン保存時点の完了予定日と、現在の完了予定日を時系列に並べる
+  const trend: ScheduleVarianceTrendPoint[] = [...baselines]
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .map(other => {
+      const plannedFinish = latestDate(other.items.map(item => item.end));
+      return {
+        label: other.name,
+        date: other.createdAt.split('T')[0],
+        plannedFinish,
+        slipDays: daysBetween(baselineFinish, plannedFinish),
+      };
+    });
+  trend.push({
+    label: '現在',
+    date: new Date().toISOString().split('T')[0],
+    plannedFinish: currentFinish,
+    slipDays: daysBetween(baselineFinish, currentFinish),
+  });
+
+  return {
+    baselineId: baseline.id,
+    baselineName: baseline.name,
+    baselineFinish,
+    currentFinish,
+    projectSlipDays: daysBetween(baselineFinish, currentFinish),
+    slippedItems: compared
+      .filter(item => item.finishSlipDays >= SLIP_THRESHOLD_DAYS)
+      .sort((a, b) => b.finishSlipDays - a.finishSlipDays),
+    comparedItemCount: compared.length,
+    addedItemCount: schedule.filter(item => !baselineIds.has(item.id)).length,
+    removedItemCount: baseline.items.filter(item => !currentMap.has(item.id)).length,
+    trend,
+  };
+};
+
+/**
+ * Derives the schedule status from the variance: the project finish slipping is off track,
+ * any slipped item is at risk.
+ * @param variance The schedule variance against the baseline.
+ * @returns The status implied by the schedule data alone.
+ */
+export const scheduleStatusFromVariance = (variance: ScheduleVarianceSummary): ProjectHealthReport['overallStatus'] => {
+  if (variance.projectSlipDays >= SLIP_THRESHOLD_DAYS) return 'Off Track';
+  if (variance.slippedItems.length > 0) return 'At Risk';
+  return 'On Track';
+};
+
+const STATUS_SEVERITY: Record<ProjectHealthReport['overallStatus'], number> = {
+  'Unknown': 0,
+  'On Track': 1,
+  'At Risk': 2,
+  'Off Track': 3,
+};
+
+/**
+ * Returns the more severe of two health statuses.
+ * @param a A status.
+ * @param b Another status.
+ * @returns The more severe status.
+ */
+export const worseHealthStatus = (
+  a: ProjectHealthReport['overallStatus'],
+  b: ProjectHealthReport['overallStatus']
+): ProjectHealthReport['overallStatus'] => (STATUS_SEVERITY[b] > STATUS_SEVERITY[a] ? b : a);
@@ -0,0 +1,303 @@
+import {
+  ProjectTask, Decision, SlideDeck, SlideElement, DataElement, FlowchartElement, SlideDataBinding, SlideDataView, SubStep,
+  TaskStatus, SubStepStatus, NumericalTargetStatus,
+} from '../types';
+import { getTaskProgress, scheduleProject } from './projectScheduler';
+import { parseChartValue } from './chartModel';
+import { localToday } from './dateUtils';
+
+// データ要素とサブステップのフローチャートは、デッキを表示するたびに最新の計画から描き直す。
+// 正式な報告用に「固定」すると、その時点の値を要素に保存して以後は計画の変更に追従しない
+
+export const SLIDE_DATA_BINDING_LABELS: Record<SlideDataBinding, string> = {
+  status_summary: '状況サマリー',
+  progress: '進捗率',
+  numerical_target: '数値目標',
+  decisions: '決定事項',
+  gantt: 'ガントチャート',
+};
+
+export const TASK_STATUS_LABELS: Record<TaskStatus, string> = {
+  [TaskStatus.NOT_STARTED]: '未着手',
+  [TaskStatus.IN_PROGRESS]: '進行中',
+  [TaskStatus.COMPLETED]: '完了',
+  [TaskStatus.BLOCKED]: '停滞中',
+};
+
+export const SUB_STEP_STATUS_LABELS: Record<SubStepStatus, string> = {
+  [SubStepStatus.NOT_STARTED]: '未着手',
+  [SubStepStatus.IN_PROGRESS]: '進行中',
+  [SubStepStatus.COMPLETED]: '完了',
+};
+
+export const TARGET_STATUS_LABELS: Record<NumericalTargetStatus, string> = {
+  [NumericalTargetStatus.PENDING]: '評価待ち',
+  [NumericalTargetStatus.ACHIEVED]: '達成',
+  [NumericalTargetStatus.MISSED]: '未達',
+};
+
+const TASK_STATUS_COLORS: Record<TaskStatus, string> = {
+  [TaskStatus.NOT_STARTED]: '94A3B8',
+  [TaskStatus.IN_PROGRESS]: '3B82F6',
+  [TaskStatus.COMPLETED]: '22C55E',
+  [TaskStatus.BLOCKED]: 'EF4444',
+};
+
+const SUB_STEP_STATUS_COLORS: Record<SubStepStatus, string> = {
+  [SubStepStatus.NOT_STARTED]: '94A3B8',
+  [SubStepStatus.IN_PROGRESS]: '3B82F6',
+  [SubStepStatus.COMPLETED]: '22C55E',
+};
+
+// スライドに収まるよう、表とタイムラインの行数を抑える
+const MAX_TABLE_ROWS = 10;
+const MAX_TIMELINE_ROWS = 12;
+
+const limitRows = (rows: string[][], columnCount: number): string[][] =>
+  rows.length <= MAX_TABLE_ROWS
+    ? rows
+    : [...rows.slice(0, MAX_TABLE_ROWS - 1), [`他 ${rows.length - MAX_TABLE_ROWS + 1} 件`, ...Array(columnCount - 1).fill('')]];
+
+const formatTargetValue = (value: number | string | undefined, unit: string): string =>
+  value === undefined || value === '' ? '—' : `${value}${unit ? ` ${unit}` : ''}`;
+
+const buildStatusSummary = (tasks: ProjectTask[], task: ProjectTask | undefined): SlideDataView => {
+  if (!task) {
+    return {
+      kind: 'breakdown',
+      title: 'タスクの状況',
+      items: (Object.values(TaskStatus) as TaskStatus[]).map(status => ({
+        label: TASK_STATUS_LABELS[status],
+        count: tasks.filter(t => (t.status ?? TaskStatus.NOT_STARTED) === status).length,
+        color: TASK_STATUS_COLORS[status],
+      })),
+    };
+  }
+  const subSteps = task.extendedDetails?.subSteps || [];
+  return {
+    kind: 'breakdown',
+    title: `${task.title}（${TASK_STATUS_LABELS[task.status ?? TaskStatus.NOT_STARTED]}）`,
+    items: (Object.values(SubStepStatus) as SubStepStatus[]).map(status => ({
+      label: `サブステップ: ${SUB_STEP_STATUS_LABELS[status]}`,
+      count: subSteps.filter(ss => (ss.status ?? SubStepStatus.NOT_STARTED) === status).length,
+      color: SUB_STEP_STATUS_COLORS[status],
+    })),
+  };
+};
+
+const buildProgress = (tasks: ProjectTask[], task: ProjectTask | undefined): SlideDataView => {
+  if (!task) {
+    const percent = tasks.length > 0 ? Math.round(tasks.reduce((sum, t) => sum + getTaskProgress(t), 0) / tasks.length) : 0;
+    const completed = tasks.filter(t => t.status === TaskStatus.COMPLETED).length;
+    return { kind: 'metric', title: 'プロジェクトの進捗', value: `${percent}%`, percent, caption: `完了したタスク ${completed} / ${tasks.length}` };
+  }
+  const percent = getTaskProgress(task);
+  const subSteps = task.extendedDetails?.subSteps || [];
+  const actionItems = subSteps.flatMap(ss => ss.actionItems || []);
+  const caption = actionItems.length > 0
+    ? `完了したアクションアイテム ${actionItems.filter(item => item.completed).length} / ${actionItems.length}`
+    : `完了したサブステップ ${subSteps.filter(ss => ss.status === SubStepStatus.COMPLETED).length} / ${subSteps.length}`;
+  return { kind: 'metric', title: `${task.title} の進捗`, value: `${percent}%`, percent, caption };
+};
+
+const buildNumericalTarget = (tasks: ProjectTask[], task: ProjectTask | undefined): SlideDataView | null => {
+  if (!task) {
+    const headers = ['タスク', '指標', '現在値', '目標値', '評価'];
+    const rows = tasks.flatMap(t => {
+      const target = t.extendedDetails?.numericalTarget;
+      if (!target) return [];
+      return [[
+        t.title, target.description, formatTargetValue(target.currentValue, target.unit),
+        formatTargetValue(target.targetValue, target.unit), target.status ? TARGET_STATUS_LABELS[target.status] : '',
+      ]];
+    });
+    return { kind: 'table', title: '数値目標', headers, rows: limitRows(rows, headers.length) };
+  }
+  const target = task.extendedDetails?.numericalTarget;
+  if (!target) return null;
+  const current = typeof target.currentValue === 'number' ? target.currentValue : parseChartValue(target.currentValue);
+  const goal = typeof target.targetValue === 'number' ? target.targetValue : parseChartValue(target.targetValue);
+  return {
+    kind: 'metric',
+    title: target.description || '数値目標',
+    value: `${target.currentValue ?? '—'} / ${formatTargetValue(target.targetValue, target.unit)}`,
+    percent: current !== null && goal ? Math.round((current / goal) * 100) : null,
+    caption: target.status ? `評価: ${TARGET_STATUS_LABELS[target.status]}` : '',
+  };
+};
+
+const buildDecisions = (tasks: ProjectTask[], task: ProjectTask | undefined): SlideDataView => {
+  const decisionRow = (d: Decision) => [d.question, d.status === 'decided' ? d.decision ?? '' : '未決定', d.date ?? ''];
+  if (!task) {
+    const headers = ['タスク', '論点', '決定内容', '日付'];
+    const rows = tasks.flatMap(t => (t.extendedDetails?.decisions || []).map(d => [t.title, ...decisionRow(d)]));
+    return { kind: 'table', title: '決定事項', headers, rows: limitRows(rows, headers.length) };
+  }
+  const headers = ['論点', '決定内容', '日付'];
+  const rows = (task.extendedDetails?.decisions || []).map(decisionRow);
+  return { kind: 'table', title: `${task.title} の決定事項`, headers, rows: limitRows(rows, headers.length) };
+};
+
+const buildGantt = (tasks: ProjectTask[], task: ProjectTask | undefined, scheduleStart?: string): SlideDataView | null => {
+  // 開始日を記録していない古い要素は、エディターで開いて記録されるまで今日を起点にする
+  const schedule = scheduleProject(tasks, { startDate: scheduleStart ?? localToday() });
+  let items = task
+    ? schedule.filter(item => item.type === 'substep' && item.parentId === task.id)
+    : schedule.filter(item => item.type === 'task');
+  if (task && items.length === 0) items = schedule.filter(item => item.id === task.id);
+  if (items.length === 0) return null;
+  items = items.slice(0, MAX_TIMELINE_ROWS);
+  return {
+    kind: 'timeline',
+    title: task ? `${task.title} のスケジュール` : 'スケジュール',
+    start: items.reduce((min, item) => item.start < min ? item.start : min, items[0].start),
+    end: items.reduce((max, item) => item.end > max ? item.end : max, items[0].end),
+    items: items.map(item => ({ name: item.name, start: item.start, end: item.end, progress: item.progress, isCritical: !!item.isCritical })),
+  };
+};
+
+/**
+ * Computes what a data element shows from the current plan.
+ * @param tasks The project's tasks.
+ * @param binding The kind of data.
+ * @param taskId The task to report on, or undefined for the whole project.
+ * @param scheduleStart The project start date the gantt binding schedules from.
+ * @returns The view, or null when the task (or its numerical target) no longer exists.
+ */
+export const buildSlideDataView = (
+  tasks: ProjectTask[], binding: SlideDataBinding, taskId?: string, scheduleStart?: string,
+): SlideDataView | null => {
+  const task = taskId ? tasks.find(t => t.id === taskId) : undefined;
+  if (taskId && !task) return null;
+  switch (binding) {
+    case 'status_summary': return buildStatusSummary(tasks, task);
+    case 'progress': return buildProgress(tasks, task);
+    case 'numerical_target': return buildNumericalTarget(tasks, task);
+    case 'decisions': return buildDecisions(tasks, task);
+    case 'gantt': return buildGantt(tasks, task, scheduleStart);
+  }
+};
+
+/**
+ * Resolves the view of a data element: the frozen values when it has a snapshot, otherwise the live plan.
+ * @param tasks The project's tasks.
+ * @param el The data element.
+ * @returns The view, or null when the data no longer exists.
+ */
+export const resolveSlideDataView = (tasks: ProjectTask[], el: DataElement): SlideDataView | null =>
+  el.snapshot?.view ?? buildSlideDataView(tasks, el.binding, el.taskId, el.scheduleStart);
+
+/**
+ * Computes where a timeline row's bar sits within the view's date range.
+ * @param view The timeline view.
+ * @param item The row.
+ * @returns The left edge and width as fractions (0-1) of the track.
+ */
+export const getTimelineBarFraction = (
+  view: Extract<SlideDataView, { kind: 'timeline' }>, item: { start: string; end: string },
+): { left: number; width: number } => {
+  const toTime = (date: string) => Date.parse(`${date}T00:00:00Z`);
+  const DAY = 24 * 60 * 60 * 1000;
+  const rangeStart = toTime(view.start);
+  const span = toTime(view.end) + DAY - rangeStart;
+  return { left: (toTime(item.start) - rangeStart) / span, width: (toTime(item.end) + DAY - toTime(item.start)) / span };
+};
+
+// taskId の無い古いフローチャートは、先頭のサブステップを含むタスクを参照先とみなす
+const findFlowchartTask = (tasks: ProjectTask[], el: FlowchartElement): ProjectTask | undefined => {
+  if (el.taskId) return tasks.find(t => t.id === el.taskId);
+  const firstId = el.data?.subSteps?.[0]?.id;
+  return firstId ? tasks.find(t => t.extendedDetails?.subSteps?.some(ss => ss.id === firstId)) : undefined;
+};
+
+/**
+ * Resolves the sub-steps a flowchart element shows: the frozen copy when it has a snapshot, otherwise the task's current sub-steps.
+ * @param tasks The project's tasks.
+ * @param el The flowchart element.
+ * @returns The sub-steps to draw.
+ */
+export const resolveFlowchartSubSteps = (tasks: ProjectTask[], el: FlowchartElement): SubStep[] => {
+  if (el.snapshotAt) return el.data?.subSteps || [];
+  return findFlowchartTask(tasks, el)?.extendedDetails?.subSteps ?? el.data?.subSteps ?? [];
+};
+
+/**
+ * Tells whether an element follows the plan (a data element or flowchart without a snapshot).
+ * @param el The slide element.
+ * @returns True when the element is drawn from live data.
+ */
+export const isLiveBoundElement = (el: SlideElement): boolean =>
+  (el.type === 'data' && !el.snapshot) || (el.type === 'flowchart' && !el.snapshotAt);
+
+/**
+ * Freezes the current values of a bound element.
+ * @param el The slide element.
+ * @param tasks The project's tasks.
+ * @param takenAt The ISO timestamp recorded with the snapshot.
+ * @returns The frozen element. Other elements and elements without data are returned unchanged.
+ */
+export const snapshotSlideElement = (el: SlideElement, tasks: ProjectTask[], takenAt: string): SlideElement => {
+  if (el.type === 'data' && !el.snapshot) {
+    const view = buildSlideDataView(tasks, el.binding, el.taskId, el.scheduleStart);
+    return view ? { ...el, snapshot: { takenAt, view } } : el;
+  }
+  if (el.type === 'flowchart' && !el.snapshotAt) {
+    return { ...el, snapshotAt: takenAt, data: { subSteps: resolveFlowchartSubSteps(tasks, el) } };
+  }
+  return el;
+};
+
+/**
+ * Releases the snapshot of a bound element so that it follows the plan again.
+ * @param el The slide element.
+ * @returns The live element.
+ */
+export const releaseSlideElementSnapshot = (el: SlideElement): SlideElement => {
+  if (el.type === 'data' && el.snapshot) return { ...el, snapshot: undefined };
+  if (el.type === 'flowchart' && el.snapshotAt) return { ...el, snapshotAt: undefined };
+  return el;
+};
+
+/**
+ * Freezes every bound element of a deck, e.g. before sending a formal report.
+ * @param deck The slide deck.
+ * @param tasks The project's tasks.
+ * @param takenAt The ISO timestamp recorded with the snapshots.
+ * @returns The deck with frozen values.
+ */
+export const snapshotSlideDeck = (deck: SlideDeck, tasks: ProjectTask[], takenAt: string): SlideDeck => ({
+  ...deck,
+  slides: deck.slides.map(slide => ({ ...slide, elements: slide.elements.map(el => snapshotSlideElement(el, tasks, takenAt)) })),
+});
+
+/**
+ * Releases every snapshot of a deck.
+ * @param deck The slide deck.
+ * @returns The deck with all bound elements following the plan again.
+ */
+export const releaseSlideDeckSnapshots = (deck: SlideDeck): SlideDeck => ({
+  ...deck,
+  slides: deck.slides.map(slide => ({ ...slide, elements: slide.elements.map(releaseSlideElementSnapshot) })),
+});
+
+/**
+ * Copies the current sub-steps into live flowchart elements, so that the saved deck (and its JSON export) matches the plan.
+ * Live gantt data elements record the project start date so that they keep the same schedule wherever the deck is shown.
+ * Frozen elements are kept as they are.
+ * @param deck The slide deck.
+ * @param tasks The project's tasks.
+ * @param scheduleStart The project start date, if known.
+ * @returns The refreshed deck.
+ */
+export const refreshSlideDeckBindings = (deck: SlideDeck, tasks: ProjectTask[], scheduleStart?: string): SlideDeck => ({
+  ...deck,
+  slides: deck.slides.map(slide => ({
+    ...slide,
+    elements: slide.elements.map(el => {
+      if (el.type === 'data' && el.binding === 'gantt' && !el.snapshot && scheduleStart) return { ...el, scheduleStart };
+      if (el.type !== 'flowchart' || el.snapshotAt) return el;
+      const task = findFlowchartTask(tasks, el);
+      return task ? { ...el, taskId: task.id, data: { subSteps: task.extendedDetails?.subSteps || [] } } : el;
+    }),
+  })),
+});
@@ -0,0 +1,105 @@
+import { ProjectTask, ActionItem, SlideDeck, SlideMaster, TextboxElement, ChartElement, SubStepStatus } from '../types';
+import { buildChartModel, ChartModel } from './chartModel';
+import { DEFAULT_SLIDE_PLACEHOLDERS } from './slideMaster';
+
+// スライドの画像・表・グラフ要素は、アクションアイテムのレポートを参照してデータを得る。
+// エディタと各種エクスポートで同じ解釈になるよう、参照の解決はここにまとめる
+
+const findReportSource = (tasks: ProjectTask[], subStepId: string, actionItemId: string): { task: ProjectTask; actionItem: ActionItem } | undefined => {
+  for (const task of tasks) {
+    const subStep = task.extendedDetails?.subSteps?.find(ss => ss.id === subStepId);
+    const actionItem = subStep?.actionItems?.find(ai => ai.id === actionItemId);
+    if (actionItem) return { task, actionItem };
+  }
+  return undefined;
+};
+
+/**
+ * Finds the action item that a slide element points to.
+ * @param tasks The tasks the deck was generated from.
+ * @param subStepId The sub-step containing the action item.
+ * @param actionItemId The action item id.
+ * @returns The action item, or undefined when it no longer exists.
+ */
+export const findReportActionItem = (tasks: ProjectTask[], subStepId: string, actionItemId: string): ActionItem | undefined =>
+  findReportSource(tasks, subStepId, actionItemId)?.actionItem;
+
+/**
+ * Finds the task that owns the action item a slide element points to.
+ * @param tasks The tasks the deck was generated from.
+ * @param subStepId The sub-step containing the action item.
+ * @param actionItemId The action item id.
+ * @returns The task, or undefined when the action item no longer exists.
+ */
+export const findReportTask = (tasks: ProjectTask[], subStepId: string, actionItemId: string): ProjectTask | undefined =>
+  findReportSource(tasks, subStepId, actionItemId)?.task;
+
+/**
+ * Builds the chart model of a chart element from the matrix it points to. The target line uses the
+ * numerical target of the task that owns the action item.
+ * @param tasks The tasks the deck was generated from.
+ * @param el The chart element.
+ * @returns The model, or null when the data is missing or has nothing to plot.
+ */
+export const resolveChartModel = (tasks: ProjectTask[], el: ChartElement): ChartModel | null => {
+  const source = findReportSource(tasks, el.subStepId, el.actionItemId);
+  return buildChartModel(el, source?.actionItem.report?.matrixData, source?.task.extendedDetails?.numericalTarget);
+};
+
+// --- エクスポート共通の見た目 ---
+
+// 色は先頭の # を除いた16進数（PowerPoint の指定形式）。ワークスペースのスライドマスターと同じ形で、
+// 組み込みテーマはロゴ・フッターを持たないマスターとして扱う
+export type SlideTheme = Omit<SlideMaster, 'id' | 'name'>;
+
+export const SLIDE_THEMES: Record<NonNullable<SlideDeck['theme']>, SlideTheme> = {
+  light: {
+    background: 'FFFFFF', text: '333333', mutedText: '64748B', accent: '4A90E2',
+    tableHeaderFill: 'E2E8F0', tableHeaderText: '333333', tableBorder: 'CBD5E1', fontFace: 'Meiryo',
+    chartColors: ['4A90E2', '50E3C2', 'F5A623', 'F8E71C', '7ED321', '9013FE'],
+    placeholders: DEFAULT_SLIDE_PLACEHOLDERS,
+  },
+  dark: {
+    background: '1E293B', text: 'F1F5F9', mutedText: '94A3B8', accent: '60A5FA',
+    tableHeaderFill: '334155', tableHeaderText: 'F1F5F9', tableBorder: '475569', fontFace: 'Meiryo',
+    chartColors: ['60A5FA', '34D399', 'FBBF24', 'F472B6', 'A78BFA', 'F87171'],
+    placeholders: DEFAULT_SLIDE_PLACEHOLDERS,
+  },
+  business: {
+    background: 'F8FAFC', text: '0F172A', mutedText: '475569', accent: '1E3A8A',
+    tableHeaderFill: '1E3A8A', tableHeaderText: 'FFFFFF', tableBorder: '94A3B8', fontFace: 'Yu Gothic',
+    chartColors: ['1E3A8A', '0E7490', 'B45309', '15803D', '7C3AED', 'BE123C'],
+    placeholders: DEFAULT_SLIDE_PLACEHOLDERS,
+  },
+};
+
+export const SLIDE_THEME_LABELS: Record<NonNullable<SlideDeck['theme']>, string> = {
+  light: 'ライト',
+  dark: 'ダーク',
+  business: 'ビジネス',
+};
+
+/**
+ * Resolves the design of a deck: its slide master when one is set, otherwise the built-in theme.
+ * @param deck The slide deck.
+ * @returns The theme used by the editor and every export.
+ */
+export const getSlideTheme = (deck: SlideDeck): SlideTheme => deck.master ?? SLIDE_THEMES[deck.theme ?? 'light'];
+
+// テキストボックスの文字サイズ（pt）
+export const TEXTBOX_FONT_SIZES: Record<NonNullable<TextboxElement['fontSize']>, number> = {
+  small: 12,
+  medium: 16,
+  large: 24,
+  title: 36,
+};
+
+// フローチャート要素のカード（エディタの描画と同じ px 単位）と状態ごとの枠の色
+export const FLOWCHART_CARD_WIDTH = 192;
+export const FLOWCHART_CARD_HEIGHT = 76;
+
+export const FLOWCHART_STATUS_COLORS: Record<SubStepStatus, string> = {
+  [SubStepStatus.COMPLETED]: '22C55E',
+  [SubStepStatus.IN_PROGRESS]: '3B82F6',
+  [SubStepStatus.NOT_STARTED]: '94A3B8',
+};
@@ -0,0 +1,310 @@
+import { SlideElement, SlideElementPosition } from '../types';
+
+// スライドエディタの直接操作（移動・サイズ変更・スナップ・整列・グループ・重なり順・複製）。
+// 位置はすべてスライドに対するパーセントで扱い、DOM には依存しない
+
+export type ResizeHandle = 'n' | 's' | 'e' | 'w' | 'ne' | 'nw' | 'se' | 'sw';
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+export type ZOrderMove = 'front' | 'forward' | 'backward' | 'back';
+
+export interface SnapGuides {
+  vertical: number[]; // x 座標（%）
+  horizontal: number[]; // y 座標（%）
+}
+
+export const MIN_ELEMENT_SIZE = 2;
+export const SNAP_THRESHOLD = 1;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const roundPosition = (position: SlideElementPosition): SlideElementPosition => ({
+  x: round(position.x), y: round(position.y), width: round(position.width), height: round(position.height),
+});
+
+/**
+ * Computes the box that encloses several positions.
+ * @param positions The positions.
+ * @returns The enclosing box.
+ */
+export const getBounds = (positions: SlideElementPosition[]): SlideElementPosition => {
+  const x = Math.min(...positions.map(p => p.x));
+  const y = Math.min(...positions.map(p => p.y));
+  return {
+    x, y,
+    width: Math.max(...positions.map(p => p.x + p.width)) - x,
+    height: Math.max(...positions.map(p => p.y + p.height)) - y,
+  };
+};
+
+/**
+ * Adds the other members of every group touched by the selection.
+ * @param elements The elements of the slide.
+ * @param ids The selected element ids.
+ * @returns The selected ids including whole groups, in slide order.
+ */
+export const expandToGroups = (elements: SlideElement[], ids: string[]): string[] => {
+  const groupIds = new Set(elements.filter(el => ids.includes(el.id) && el.groupId).map(el => el.groupId));
+  return elements.filter(el => ids.includes(el.id) || (el.groupId && groupIds.has(el.groupId))).map(el => el.id);
+};
+
+// 整列・分布ではグループを1つのまとまりとして扱う
+const getUnits = (elements: SlideElement[], ids: string[]): SlideElement[][] => {
+  const units = new Map<string, SlideElement[]>();
+  elements.filter(el => ids.includes(el.id)).forEach(el => {
+    const key = el.groupId ?? `element:${el.id}`;
+    units.set(key, [...(units.get(key) ?? []), el]);
+  });
+  return [...units.values()];
+};
+
+const shiftElements = (elements: SlideElement[], offsets: Map<string, { dx: number; dy: number }>): SlideElement[] =>
+  elements.map(el => {
+    const offset = offsets.get(el.id);
+    if (!offset || (offset.dx === 0 && offset.dy === 0)) return el;
+    return { ...el, position: roundPosition({ ...el.position, x: el.position.x + offset.dx, y: el.position.y + offset.dy }) };
+  });
+
+// スライドの端・中央と、動かしていない要素の端・中央に吸着する
+const getSnapTargets = (elements: SlideElement[], excludeIds: string[]): SnapGuides => {
+  const others = elements.filter(el => !excludeIds.includes(el.id)).map(el => el.position);
+  return {
+    vertical: [0, 50, 100, ...others.flatMap(p => [p.x, p.x + p.width / 2, p.x + p.width])],
+    horizontal: [0, 50, 100, ...others.flatMap(p => [p.y, p.y + p.height / 2, p.y + p.height])],
+  };
+};
+
+// 候補の中で最も近い吸着先までの差。閾値を超える場合は null
+const nearestSnap = (values: number[], targets: number[]): { offset: number; target: number } | null => {
+  let best: { offset: number; target: number } | null = null;
+  values.forEach(value => targets.forEach(target => {
+    const offset = target - value;
+    if (Math.abs(offset) <= SNAP_THRESHOLD && (!best || Math.abs(offset) < Math.abs(best.offset))) best = { offset, target };
+  }));
+  return best;
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), Math.max(min, max));
+
+export interface DragResult {
+  positions: Record<string, SlideElementPosition>;
+  guides: SnapGuides;
+}
+
+/**
+ * Moves elements together, keeping them on the slide and optionally snapping the moved box to guides.
+ * @param elements The elements of the slide.
+ * @param startPositions The positions of the moved elements when the drag started.
+ * @param dx The horizontal movement in percent.
+ * @param dy The vertical movement in percent.
+ * @param snap Whether to snap to the slide and the other elements.
+ * @returns The new positions and the guides that were snapped to.
+ */
+export const computeMove = (
+  elements: SlideElement[], startPositions: Record<string, SlideElementPosition>, dx: number, dy: number, snap: boolean,
+): DragResult => {
+  const ids = Object.keys(startPositions);
+  const bounds = getBounds(Object.values(startPositions));
+  let moveX = clamp(dx, -bounds.x, 100 - bounds.x - bounds.width);
+  let moveY = clamp(dy, -bounds.y, 100 - bounds.y - bounds.height);
+  const guides: SnapGuides = { vertical: [], horizontal: [] };
+
+  if (snap) {
+    const targets = getSnapTargets(elements, ids);
+    const x = bounds.x + moveX;
+    const y = bounds.y + moveY;
+    const snapX = nearestSnap([x, x + bounds.width / 2, x + bounds.width], targets.vertical);
+    const snapY = nearestSnap([y, y + bounds.height / 2, y + bounds.height], targets.horizontal);
+    if (snapX) { moveX += snapX.offset; guides.vertical.push(snapX.target); }
+    if (snapY) { moveY += snapY.offset; guides.horizontal.push(snapY.target); }
+  }
+
+  const positions: Record<string, SlideElementPosition> = {};
+  Object.entries(startPositions).forEach(([id, position]) => {
+    positions[id] = roundPosition({ ...position, x: position.x + moveX, y: position.y + moveY });
+  });
+  return { positions, guides };
+};
+
+/**
+ * Resizes one element by dragging a handle. Edges that move snap to the slide and the other elements.
+ * @param elements The elements of the slide.
+ * @param id The resized element.
+ * @param start The position when the drag started.
+ * @param handle The dragged handle.
+ * @param dx The horizontal movement in percent.
+ * @param dy The vertical movement in percent.
+ * @param snap Whether to snap the moving edges.
+ * @returns The new position and the guides that were snapped to.
+ */
+export const computeResize = (
+  elements: SlideElement[], id: string, start: SlideElementPosition, handle: ResizeHandle, dx: number, dy: number, snap: boolean,
+): DragResult => {
+  let left = start.x;
+  let top = start.y;
+  let right = start.x + start.width;
+  let bottom = start.y + start.height;
+  const guides: SnapGuides = { vertical: [], horizontal: [] };
+  const targets = snap ? getSnapTargets(elements, [id]) : { vertical: [], horizontal: [] };
+
+  const moveEdge = (value: number, targetList: number[], guideList: number[]) => {
+    const snapped = snap ? nearestSnap([value], targetList) : null;
+    if (snapped) guideList.push(snapped.target);
+    return clamp(value + (snapped?.offset ?? 0), 0, 100);
+  };
+
+  if (handle.includes('w')) left = Math.min(moveEdge(left + dx, targets.vertical, guides.vertical), right - MIN_ELEMENT_SIZE);
+  if (handle.includes('e')) right = Math.max(moveEdge(right + dx, targets.vertical, guides.vertical), left + MIN_ELEMENT_SIZE);
+  if (handle.includes('n')) top = Math.min(moveEdge(top + dy, targets.horizontal, guides.horizontal), bottom - MIN_ELEMENT_SIZE);
+  if (handle.includes('s')) bottom = Math.max(moveEdge(bottom + dy, targets.horizontal, guides.horizontal), top + MIN_ELEMENT_SIZE);
+
+  return { positions: { [id]: roundPosition({ x: left, y: top, width: right - left, height: bottom - top }) }, guides };
+};
+
+/**
+ * Moves the selected elements by a fixed amount, keeping them on the slide (keyboard nudging).
+ * @param elements The elements of the slide.
+ * @param ids The selected element ids.
+ * @param dx The horizontal movement in percent.
+ * @param dy The vertical movement in percent.
+ * @returns The updated elements.
+ */
+export const nudgeElements = (elements: SlideElement[], ids: string[], dx: number, dy: number): SlideElement[] => {
+  const startPositions = Object.fromEntries(elements.filter(el => ids.includes(el.id)).map(el => [el.id, el.position]));
+  if (Object.keys(startPositions).length === 0) return elements;
+  const { positions } = computeMove(elements, startPositions, dx, dy, false);
+  return elements.map(el => positions[el.id] ? { ...el, position: positions[el.id] } : el);
+};
+
+/**
+ * Aligns the selected elements (groups move as one). A single element or group is aligned to the slide.
+ * @param elements The elements of the slide.
+ * @param ids The selected element ids.
+ * @param mode The edge or center to align.
+ * @returns The updated elements.
+ */
+export const alignElements = (elements: SlideElement[], ids: string[], mode: AlignMode): SlideElement[] => {
+  const units = getUnits(elements, ids);
+  if (units.length === 0) return elements;
+  const reference = units.length === 1 ? { x: 0, y: 0, width: 100, height: 100 } : getBounds(units.flat().map(el => el.position));
+  const offsets = new Map<string, { dx: number; dy: number }>();
+  units.forEach(unit => {
+    const box = getBounds(unit.map(el => el.position));
+    const dx = mode === 'left' ? reference.x - box.x
+      : mode === 'center' ? reference.x + reference.width / 2 - (box.x + box.width / 2)
+      : mode === 'right' ? reference.x + reference.width - (box.x + box.width)
+      : 0;
+    const dy = mode === 'top' ? reference.y - box.y
+      : mode === 'middle' ? reference.y + reference.height / 2 - (box.y + box.height / 2)
+      : mode === 'bottom' ? reference.y + reference.height - (box.y + box.height)
+      : 0;
+    unit.forEach(el => offsets.set(el.id, { dx, dy }));
+  });
+  return shiftElements(elements, offsets);
+};
+
+/**
+ * Spaces the selected elements (groups move as one) evenly between the outermost two. Needs three or more.
+ * @param elements The elements of the slide.
+ * @param ids The selected element ids.
+ * @param axis The direction to distribute along.
+ * @returns The updated elements.
+ */
+export const distributeElements = (elements: SlideElement[], ids: string[], axis: DistributeAxis): SlideElement[] => {
+  const units = getUnits(elements, ids).map(unit => ({ unit, box: getBounds(unit.map(el => el.position)) }));
+  if (units.length < 3) return elements;
+  const start = (box: SlideElementPosition) => axis === 'horizontal' ? box.x : box.y;
+  const size = (box: SlideElementPosition) => axis === 'horizontal' ? box.width : box.height;
+  units.sort((a, b) => start(a.box) - start(b.box));
+
+  const first = units[0].box;
+  const last = units[units.length - 1].box;
+  const span = start(last) + size(last) - start(first);
+  const gap = (span - units.reduce((sum, { box }) => sum + size(box), 0)) / (units.length - 1);
+
+  const offsets = new Map<string, { dx: number; dy: number }>();
+  let cursor = start(first);
+  units.forEach(({ unit, box }) => {
+    const delta = cursor - start(box);
+    unit.forEach(el => offsets.set(el.id, axis === 'horizontal' ? { dx: delta, dy: 0 } : { dx: 0, dy: delta }));
+    cursor += size(box) + gap;
+  });
+  return shiftElements(elements, offsets);
+};
+
+/**
+ * Changes the stacking order of the selected elements. Later elements are drawn on top.
+ * @param elements The elements of the slide, back to front.
+ * @param ids The selected element ids.
+ * @param move Where to move the selection.
+ * @returns The reordered elements.
+ */
+export const reorderElements = (elements: SlideElement[], ids: string[], move: ZOrderMove): SlideElement[] => {
+  const selected = elements.filter(el => ids.includes(el.id));
+  const others = elements.filter(el => !ids.includes(el.id));
+  if (selected.length === 0) return elements;
+  if (move === 'front') return [...others, ...selected];
+  if (move === 'back') return [...selected, ...others];
+
+  // 1段だけ動かす場合は、選択範囲の前後にある1つの要素と入れ替える
+  const indexes = elements.map((el, index) => ids.includes(el.id) ? index : -1).filter(index => index >= 0);
+  if (move === 'forward') {
+    const next = elements.findIndex((el, index) => index > indexes[indexes.length - 1] && !ids.includes(el.id));
+    if (next < 0) return elements;
+    const insertAt = others.indexOf(elements[next]) + 1;
+    return [...others.slice(0, insertAt), ...selected, ...others.slice(insertAt)];
+  }
+  const previous = elements.slice(0, indexes[0]).map((el, index) => ids.includes(el.id) ? -1 : index).filter(index => index >= 0).pop();
+  if (previous === undefined) return elements;
+  const insertAt = others.indexOf(elements[previous]);
+  return [...others.slice(0, insertAt), ...selected, ...others.slice(insertAt)];
+};
+
+/**
+ * Groups the selected elements. Existing groups in the selection are merged.
+ * @param elements The elements of the slide.
+ * @param ids The selected element ids.
+ * @param groupId The id of the new group.
+ * @returns The updated elements.
+ */
+export const groupElements = (elements: SlideElement[], ids: string[], groupId: string): SlideElement[] => {
+  const members = expandToGroups(elements, ids);
+  if (members.length < 2) return elements;
+  return elements.map(el => members.includes(el.id) ? { ...el, groupId } : el);
+};
+
+/**
+ * Removes the groups that contain the selected elements.
+ * @param elements The elements of the slide.
+ * @param ids The selected element ids.
+ * @returns The updated elements.
+ */
+export const ungroupElements = (elements: SlideElement[], ids: string[]): SlideElement[] => {
+  const members = expandToGroups(elements, ids);
+  return elements.map(el => members.includes(el.id) && el.groupId ? { ...el, groupId: undefined } : el);
+};
+
+/**
+ * Copies elements with new ids, e.g. when pasting. Groups inside the copy stay grouped under new group ids.
+ * @param elements The elements to copy.
+ * @param generateId Creates a unique id for the given prefix.
+ * @param offset How far to shift the copies, in percent.
+ * @returns The copies.
+ */
+export const cloneElements = (elements: SlideElement[], generateId: (prefix: string) => string, offset: number): SlideElement[] => {
+  const groupIds = new Map<string, string>();
+  return elements.map(el => {
+    const copy: SlideElement = JSON.parse(JSON.stringify(el));
+    copy.id = generateId('el');
+    if (el.groupId) {
+      if (!groupIds.has(el.groupId)) groupIds.set(el.groupId, generateId('group'));
+      copy.groupId = groupIds.get(el.groupId);
+    }
+    copy.position = roundPosition({
+      ...el.position,
+      x: clamp(el.position.x + offset, 0, 100 - el.position.width),
+      y: clamp(el.position.y + offset, 0, 100 - el.position.height),
+    });
+    return copy;
+  });
+};
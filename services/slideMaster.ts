@@ -0,0 +1,140 @@
+import { Slide, SlideElement, SlideElementPosition, SlideLayoutType, SlideMaster, SlidePlaceholderLayout, SlidePlaceholderRole } from '../types';
+
+// スライドマスター（ワークスペースごとのデザイン）のプレースホルダーとフッター。
+// AI 生成後の配置、エディタの表示、PowerPoint・PDF の出力がこの定義を共有する
+
+export const SLIDE_LAYOUTS: SlideLayoutType[] = ['title_slide', 'title_and_content', 'section_header', 'two_column', 'blank'];
+
+export const SLIDE_LAYOUT_LABELS: Record<SlideLayoutType, string> = {
+  title_slide: 'タイトル',
+  title_and_content: 'タイトルとコンテンツ',
+  section_header: 'セクション見出し',
+  two_column: '2段組み',
+  blank: '白紙',
+};
+
+export const SLIDE_PLACEHOLDER_ROLE_LABELS: Record<SlidePlaceholderRole, string> = {
+  title: 'タイトル',
+  subtitle: 'サブタイトル',
+  body: '本文',
+  left: '左段',
+  right: '右段',
+};
+
+// 下端はフッターとスライド番号のために空けておく
+export const DEFAULT_SLIDE_PLACEHOLDERS: Record<SlideLayoutType, SlidePlaceholderLayout> = {
+  title_slide: {
+    title: { x: 10, y: 30, width: 80, height: 20 },
+    subtitle: { x: 10, y: 52, width: 80, height: 12 },
+  },
+  title_and_content: {
+    title: { x: 5, y: 5, width: 90, height: 14 },
+    body: { x: 5, y: 22, width: 90, height: 66 },
+  },
+  section_header: {
+    title: { x: 10, y: 38, width: 80, height: 16 },
+    subtitle: { x: 10, y: 56, width: 80, height: 10 },
+  },
+  two_column: {
+    title: { x: 5, y: 5, width: 90, height: 14 },
+    left: { x: 5, y: 22, width: 43, height: 66 },
+    right: { x: 52, y: 22, width: 43, height: 66 },
+  },
+  blank: {},
+};
+
+export const SLIDE_FOOTER_POSITION: SlideElementPosition = { x: 5, y: 92, width: 70, height: 6 };
+export const SLIDE_NUMBER_POSITION: SlideElementPosition = { x: 85, y: 92, width: 10, height: 6 };
+export const SLIDE_FOOTER_FONT_SIZE = 9; // pt
+
+const PLACEHOLDER_GAP = 2;
+
+/**
+ * Returns the placeholders of a layout, falling back to the defaults for layouts the master does not define.
+ * @param master The master (or built-in theme) providing the placeholders.
+ * @param layout The slide layout.
+ * @returns The placeholder positions by role.
+ */
+export const getSlidePlaceholders = (master: Pick<SlideMaster, 'placeholders'>, layout: SlideLayoutType): SlidePlaceholderLayout =>
+  master.placeholders[layout] ?? DEFAULT_SLIDE_PLACEHOLDERS[layout];
+
+// 1つの領域に複数の要素を置く場合は縦に等分する
+const stackPositions = (area: SlideElementPosition, count: number): SlideElementPosition[] => {
+  const height = (area.height - PLACEHOLDER_GAP * (count - 1)) / count;
+  return Array.from({ length: count }, (_, index) => ({ ...area, y: area.y + index * (height + PLACEHOLDER_GAP), height }));
+};
+
+const boundingPosition = (positions: (SlideElementPosition | undefined)[]): SlideElementPosition | undefined => {
+  const present = positions.filter((p): p is SlideElementPosition => !!p);
+  if (present.length === 0) return undefined;
+  const x = Math.min(...present.map(p => p.x));
+  const y = Math.min(...present.map(p => p.y));
+  return {
+    x, y,
+    width: Math.max(...present.map(p => p.x + p.width)) - x,
+    height: Math.max(...present.map(p => p.y + p.height)) - y,
+  };
+};
+
+const layoutSlide = (slide: Slide, placeholders: SlidePlaceholderLayout): Slide => {
+  if (Object.keys(placeholders).length === 0) return slide;
+  const positions = new Map<string, SlideElementPosition>();
+  const place = (el: SlideElement, position: SlideElementPosition) => positions.set(el.id, { ...position });
+
+  // タイトルはタイトル用の文字サイズの要素、無ければ先頭のテキストボックス
+  const first = slide.elements[0];
+  const title = placeholders.title
+    ? slide.elements.find(el => el.type === 'textbox' && el.fontSize === 'title') ?? (first?.type === 'textbox' ? first : undefined)
+    : undefined;
+  if (title && placeholders.title) place(title, placeholders.title);
+  let rest = slide.elements.filter(el => el !== title);
+
+  const subtitle = placeholders.subtitle ? rest.find(el => el.type === 'textbox') : undefined;
+  if (subtitle && placeholders.subtitle) {
+    place(subtitle, placeholders.subtitle);
+    rest = rest.filter(el => el !== subtitle);
+  }
+
+  if (placeholders.left && placeholders.right && rest.length >= 2) {
+    const [left, ...right] = rest;
+    place(left, placeholders.left);
+    stackPositions(placeholders.right, right.length).forEach((position, index) => place(right[index], position));
+  } else {
+    const area = placeholders.body ?? boundingPosition([placeholders.left, placeholders.right]);
+    if (area && rest.length > 0) stackPositions(area, rest.length).forEach((position, index) => place(rest[index], position));
+  }
+
+  return { ...slide, elements: slide.elements.map(el => positions.has(el.id) ? { ...el, position: positions.get(el.id)! } : el) };
+};
+
+/**
+ * Moves the elements of every unlocked slide into the placeholders of the master: the title into the title
+ * placeholder, the next textbox into the subtitle, and the remaining elements into the body (or the two columns).
+ * Elements with no matching placeholder keep their position.
+ * @param slides The slides to lay out.
+ * @param master The master (or built-in theme) providing the placeholders.
+ * @returns The laid out slides.
+ */
+export const applySlideMasterLayout = (slides: Slide[], master: Pick<SlideMaster, 'placeholders'>): Slide[] =>
+  slides.map(slide => slide.isLocked ? slide : layoutSlide(slide, getSlidePlaceholders(master, slide.layout)));
+
+const formatPosition = ({ x, y, width, height }: SlideElementPosition) =>
+  `{"x": ${Math.round(x)}, "y": ${Math.round(y)}, "width": ${Math.round(width)}, "height": ${Math.round(height)}}`;
+
+/**
+ * Describes the placeholders and the reserved areas of a master for generation prompts.
+ * @param master The master (or built-in theme).
+ * @returns One line per layout, followed by the areas that must stay empty.
+ */
+export const describeSlideMasterForPrompt = (master: Pick<SlideMaster, 'placeholders' | 'logo' | 'footerText' | 'showSlideNumbers'>): string => {
+  const layouts = SLIDE_LAYOUTS.map(layout => {
+    const entries = Object.entries(getSlidePlaceholders(master, layout)) as [SlidePlaceholderRole, SlideElementPosition][];
+    return `- ${layout}: ${entries.length > 0 ? entries.map(([role, position]) => `${role} ${formatPosition(position)}`).join(', ') : 'no placeholders (free layout)'}`;
+  });
+  const reserved = [
+    master.logo && `logo ${formatPosition(master.logo.position)}`,
+    master.footerText && `footer ${formatPosition(SLIDE_FOOTER_POSITION)}`,
+    master.showSlideNumbers && `slide number ${formatPosition(SLIDE_NUMBER_POSITION)}`,
+  ].filter(Boolean);
+  return reserved.length > 0 ? `${layouts.join('\n')}\n- Keep these areas empty: ${reserved.join(', ')}` : layouts.join('\n');
+};
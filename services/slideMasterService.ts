@@ -0,0 +1,123 @@
+import { supabase } from '../lib/supabase';
+import { SlideMaster, WorkspaceSlideMasters } from '../types';
+import { WorkspaceService } from './workspaceService';
+
+// スライドマスターはワークスペース（プロジェクトの所有者）ごとに保存する。
+// メンバーは所有者のマスターを参照でき、編集は所有者のみ
+
+const toSlideMaster = (row: any): SlideMaster => ({
+  ...row.definition,
+  id: row.id,
+  name: row.name,
+  chartColors: row.definition?.chartColors || [],
+  placeholders: row.definition?.placeholders || {},
+});
+
+const toDefinition = ({ id, name, ...definition }: SlideMaster) => definition;
+
+export class SlideMasterService {
+  // ワークスペースのスライドマスターを作成日時の古い順に取得
+  static async getSlideMasters(projectId: string | null): Promise<WorkspaceSlideMasters> {
+    const { ownerId, userId } = await WorkspaceService.getWorkspaceOwnerId(projectId);
+    if (!ownerId) return { masters: [], defaultMasterId: null, canEdit: false };
+
+    const { data, error } = await supabase
+      .from('slide_masters')
+      .select('*')
+      .eq('owner_id', ownerId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`スライドマスターの取得に失敗しました: ${error.message}`);
+    }
+
+    return {
+      masters: data.map(toSlideMaster),
+      defaultMasterId: data.find(row => row.is_default)?.id ?? null,
+      canEdit: ownerId === userId,
+    };
+  }
+
+  // レポート生成に使う既定のマスター。取得できない場合は組み込みテーマで生成できるよう undefined を返す
+  static async getDefaultSlideMaster(projectId: string | null): Promise<SlideMaster | undefined> {
+    try {
+      const { masters, defaultMasterId } = await this.getSlideMasters(projectId);
+      return masters.find(master => master.id === defaultMasterId);
+    } catch (error) {
+      console.warn('Failed to load the default slide master:', error);
+      return undefined;
+    }
+  }
+
+  // 自分のワークスペースにマスターを追加
+  static async createSlideMaster(master: SlideMaster): Promise<SlideMaster> {
+    const { data, error } = await supabase
+      .from('slide_masters')
+      .insert({ name: master.name, definition: toDefinition(master) })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`スライドマスターの保存に失敗しました: ${error.message}`);
+    }
+
+    return toSlideMaster(data);
+  }
+
+  // マスターの内容を更新
+  static async updateSlideMaster(master: SlideMaster): Promise<SlideMaster> {
+    const { data, error } = await supabase
+      .from('slide_masters')
+      .update({ name: master.name, definition: toDefinition(master) })
+      .eq('id', master.id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`スライドマスターの保存に失敗しました: ${error.message}`);
+    }
+
+    return toSlideMaster(data);
+  }
+
+  // マスターを削除
+  static async deleteSlideMaster(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('slide_masters')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`スライドマスターの削除に失敗しました: ${error.message}`);
+    }
+  }
+
+  // 既定のマスターを切り替える。null を渡すと組み込みテーマに戻す
+  static async setDefaultSlideMaster(id: string | null): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('ログインが必要です');
+    }
+
+    // 既定は1つだけなので、先に現在の既定を外す
+    const { error: clearError } = await supabase
+      .from('slide_masters')
+      .update({ is_default: false })
+      .eq('owner_id', user.id)
+      .eq('is_default', true);
+
+    if (clearError) {
+      throw new Error(`既定のスライドマスターの変更に失敗しました: ${clearError.message}`);
+    }
+    if (!id) return;
+
+    const { error } = await supabase
+      .from('slide_masters')
+      .update({ is_default: true })
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`既定のスライドマスターの変更に失敗しました: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,190 @@
+import type { CellObject, WorkSheet } from 'xlsx';
+import { MatrixColumnType, MatrixData } from '../types';
+
+// Excel / CSV をレポートのデータ・マトリクスとして取り込む。
+// セルの値はすべて文字列にし、グラフが数値として読めるよう数値は書式を付けずに残す
+
+export interface SpreadsheetSheet {
+  name: string;
+  cells: string[][]; // 空の行・列を除き、結合セルは左上の値で埋めたもの
+  headerRowIndex: number; // 自動判定した見出し行
+}
+
+export const MATRIX_COLUMN_TYPE_LABELS: Record<MatrixColumnType, string> = {
+  text: 'テキスト',
+  number: '数値',
+  percent: '割合',
+  date: '日付',
+  boolean: '真偽',
+};
+
+// 見出し行を探す範囲（表の上にタイトルや注記がある場合を想定）
+const HEADER_SEARCH_ROWS = 10;
+
+const NUMBER_PATTERN = /^[-+]?(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?([eE][-+]?\d+)?$/;
+const PERCENT_PATTERN = /^[-+]?\d+(\.\d+)?%$/;
+const DATE_PATTERN = /^\d{4}[-/.]\d{1,2}[-/.]\d{1,2}([ T]\d{1,2}:\d{2}(:\d{2})?)?$/;
+const BOOLEAN_PATTERN = /^(true|false|はい|いいえ)$/i;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const formatDate = (date: Date): string => {
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  return date.getHours() || date.getMinutes() ? `${day} ${pad(date.getHours())}:${pad(date.getMinutes())}` : day;
+};
+
+const cellToString = (cell: CellObject | undefined): string => {
+  if (!cell || cell.v === undefined || cell.v === null) return '';
+  switch (cell.t) {
+    case 'n':
+      // 割合の書式は % 付きの値にする（0.25 → 25%）
+      if (typeof cell.z === 'string' && cell.z.includes('%')) return `${parseFloat(((cell.v as number) * 100).toPrecision(12))}%`;
+      return String(cell.v);
+    case 'd':
+      return cell.v instanceof Date ? formatDate(cell.v) : String(cell.v);
+    case 'b':
+      return cell.v ? 'TRUE' : 'FALSE';
+    case 'e':
+      return cell.w ?? '';
+    default:
+      return String(cell.v).trim();
+  }
+};
+
+const isNumeric = (value: string) => value !== '' && NUMBER_PATTERN.test(value) && /\d/.test(value);
+
+const readSheetCells = (worksheet: WorkSheet, utils: typeof import('xlsx').utils): string[][] => {
+  if (!worksheet['!ref']) return [];
+  const range = utils.decode_range(worksheet['!ref']);
+  const cells: string[][] = [];
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const row: string[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      row.push(cellToString(worksheet[utils.encode_cell({ r, c })]));
+    }
+    cells.push(row);
+  }
+
+  // 結合セルは範囲内のすべてのセルに左上の値を入れる
+  (worksheet['!merges'] || []).forEach(merge => {
+    const value = cells[merge.s.r - range.s.r]?.[merge.s.c - range.s.c] ?? '';
+    for (let r = merge.s.r; r <= merge.e.r; r++) {
+      for (let c = merge.s.c; c <= merge.e.c; c++) {
+        const row = cells[r - range.s.r];
+        if (row && c - range.s.c < row.length) row[c - range.s.c] = value;
+      }
+    }
+  });
+
+  const usedColumns = cells[0]?.map((_, c) => cells.some(row => row[c] !== '')) ?? [];
+  return cells
+    .filter(row => row.some(value => value !== ''))
+    .map(row => row.filter((_, c) => usedColumns[c]));
+};
+
+const isTextRow = (row: string[]) => {
+  const values = row.filter(value => value !== '');
+  return values.length > 0 && values.every(value => !isNumeric(value) && !PERCENT_PATTERN.test(value) && !DATE_PATTERN.test(value));
+};
+
+// 横に結合されたセルは同じ値が隣り合う
+const hasRepeatedNeighbours = (row: string[]) => row.some((value, index) => value !== '' && value === row[index + 1]);
+
+/**
+ * Finds the header row of a table: the first row whose cells are all text and that covers at least
+ * half of the columns. Titles merged across the table (one value repeated in every cell) are skipped.
+ * @param cells The sheet cells.
+ * @returns The index of the header row (0 when nothing looks like a header).
+ */
+export const detectHeaderRow = (cells: string[][]): number => {
+  const columnCount = Math.max(0, ...cells.map(row => row.length));
+  const limit = Math.min(cells.length - 1, HEADER_SEARCH_ROWS);
+  for (let r = 0; r < limit; r++) {
+    const values = cells[r].filter(value => value !== '');
+    const isMergedTitle = values.length > 1 && new Set(values).size === 1;
+    if (isTextRow(cells[r]) && !isMergedTitle && values.length >= Math.max(1, columnCount / 2)) return r;
+  }
+  return 0;
+};
+
+/**
+ * Infers the type of each column from its non-empty values.
+ * @param rows The data rows.
+ * @param columnCount The number of columns.
+ * @returns One type per column; columns with mixed or no values are text.
+ */
+export const inferColumnTypes = (rows: string[][], columnCount: number): MatrixColumnType[] =>
+  Array.from({ length: columnCount }, (_, c) => {
+    const values = rows.map(row => (row[c] ?? '').trim()).filter(value => value !== '');
+    if (values.length === 0) return 'text';
+    if (values.every(isNumeric)) return 'number';
+    if (values.every(value => PERCENT_PATTERN.test(value))) return 'percent';
+    if (values.every(value => DATE_PATTERN.test(value))) return 'date';
+    if (values.every(value => BOOLEAN_PATTERN.test(value))) return 'boolean';
+    return 'text';
+  });
+
+/**
+ * Checks whether a cell value fits the column type. Empty cells always fit.
+ * @param value The cell value.
+ * @param type The column type.
+ * @returns True when the value can be read as the type.
+ */
+export const matchesColumnType = (value: string, type: MatrixColumnType): boolean => {
+  const trimmed = value.trim();
+  if (trimmed === '') return true;
+  switch (type) {
+    case 'number': return isNumeric(trimmed);
+    case 'percent': return PERCENT_PATTERN.test(trimmed);
+    case 'date': return DATE_PATTERN.test(trimmed);
+    case 'boolean': return BOOLEAN_PATTERN.test(trimmed);
+    default: return true;
+  }
+};
+
+/**
+ * Reads every sheet of an Excel or CSV file.
+ * The xlsx library is loaded on first use, as it is only needed when a file is imported.
+ * @param data The file contents.
+ * @returns The non-empty sheets in workbook order, with merged cells filled and the header row detected.
+ */
+export const readSpreadsheet = async (data: ArrayBuffer): Promise<SpreadsheetSheet[]> => {
+  const XLSX = await import('xlsx');
+  const workbook = XLSX.read(data, { type: 'array', cellDates: true, cellNF: true });
+  return workbook.SheetNames
+    .map(name => {
+      const cells = readSheetCells(workbook.Sheets[name], XLSX.utils);
+      return { name, cells, headerRowIndex: detectHeaderRow(cells) };
+    })
+    .filter(sheet => sheet.cells.length > 0);
+};
+
+/**
+ * Converts a sheet to matrix data using the given header row. Rows above the header are dropped.
+ * When the header was merged horizontally (a grouped header), the text row below it is combined into it.
+ * @param sheet The sheet.
+ * @param headerRowIndex The header row.
+ * @returns The matrix with inferred column types.
+ */
+export const toMatrixData = (sheet: SpreadsheetSheet, headerRowIndex: number): MatrixData => {
+  const columnCount = Math.max(0, ...sheet.cells.map(row => row.length));
+  const normalize = (row: string[]) => Array.from({ length: columnCount }, (_, c) => row[c] ?? '');
+
+  let headers = normalize(sheet.cells[headerRowIndex] ?? []);
+  let dataStart = headerRowIndex + 1;
+  const subHeader = sheet.cells[dataStart];
+  if (subHeader && hasRepeatedNeighbours(headers) && isTextRow(subHeader)) {
+    headers = headers.map((header, c) => {
+      const sub = subHeader[c] ?? '';
+      return sub && sub !== header ? `${header} ${sub}`.trim() : header;
+    });
+    dataStart++;
+  }
+
+  const rows = sheet.cells.slice(dataStart).map(normalize);
+  return {
+    headers: headers.map((header, c) => header || `列 ${c + 1}`),
+    rows,
+    columnTypes: inferColumnTypes(rows, columnCount),
+  };
+};
@@ -0,0 +1,120 @@
+import { supabase } from '../lib/supabase';
+import { TimeEntry } from '../types';
+import { localToday } from './dateUtils';
+
+// アクションアイテムの作業時間の記録（手入力とタイマー）。タイマーの開始・停止の時刻と
+// 作業時間はサーバーの関数が記録し、計測中のタイマーはユーザーごとに1つまで
+
+const toTimeEntry = (row: any): TimeEntry => ({
+  id: row.id,
+  projectId: row.project_id,
+  actionItemId: row.action_item_id,
+  userId: row.user_id,
+  userName: row.users?.email?.split('@')[0] || 'Unknown',
+  entryDate: row.entry_date,
+  minutes: row.minutes,
+  note: row.note ?? undefined,
+  startedAt: row.started_at ?? undefined,
+  endedAt: row.ended_at ?? undefined,
+  createdAt: row.created_at,
+});
+
+export class TimeTrackingService {
+  // プロジェクト（またはアクションアイテム）の作業時間の記録を新しい順に取得
+  static async getTimeEntries(projectId: string, actionItemId?: string): Promise<TimeEntry[]> {
+    let query = supabase
+      .from('action_item_time_entries')
+      .select('*, users!user_id(email)')
+      .eq('project_id', projectId);
+    if (actionItemId) query = query.eq('action_item_id', actionItemId);
+
+    const { data, error } = await query
+      .order('entry_date', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`作業時間の記録の取得に失敗しました: ${error.message}`);
+    }
+
+    return data.map(toTimeEntry);
+  }
+
+  // 作業時間を手入力で記録
+  static async addTimeEntry(
+    projectId: string,
+    actionItemId: string,
+    entry: { entryDate: string; minutes: number; note?: string }
+  ): Promise<TimeEntry> {
+    const { data, error } = await supabase
+      .from('action_item_time_entries')
+      .insert({
+        project_id: projectId,
+        action_item_id: actionItemId,
+        entry_date: entry.entryDate,
+        minutes: entry.minutes,
+        note: entry.note || null,
+      })
+      .select('*, users!user_id(email)')
+      .single();
+
+    if (error) {
+      throw new Error(`作業時間の記録に失敗しました: ${error.message}`);
+    }
+
+    return toTimeEntry(data);
+  }
+
+  // タイマーを開始する。停止するまでは作業時間 0 分の記録として残る（開始時刻はサーバーが記録する）
+  static async startTimer(projectId: string, actionItemId: string): Promise<TimeEntry> {
+    const { data, error } = await supabase
+      .rpc('start_time_entry', {
+        p_project_id: projectId,
+        p_action_item_id: actionItemId,
+        p_entry_date: localToday(),
+      })
+      .select('*, users!user_id(email)')
+      .single();
+
+    if (error) {
+      // 計測中のタイマーはユーザーごとに1つまで（部分一意インデックス）
+      if (error.code === '23505') {
+        throw new Error('ほかのアクションアイテムでタイマーが計測中です。停止してから開始してください。');
+      }
+      throw new Error(`タイマーの開始に失敗しました: ${error.message}`);
+    }
+
+    return toTimeEntry(data);
+  }
+
+  // タイマーを停止する。停止時刻と開始からの経過時間（分）はサーバーの時刻で記録する
+  static async stopTimer(entry: TimeEntry): Promise<TimeEntry> {
+    const { data, error } = await supabase
+      .rpc('stop_time_entry', { p_entry_id: entry.id })
+      .select('*, users!user_id(email)')
+      .single();
+
+    if (error) {
+      throw new Error(`タイマーの停止に失敗しました: ${error.message}`);
+    }
+
+    return toTimeEntry(data);
+  }
+
+  // 作業時間の記録を削除（自分の記録のみ）
+  static async deleteTimeEntry(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('action_item_time_entries')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`作業時間の記録の削除に失敗しました: ${error.message}`);
+    }
+  }
+
+  // ログイン中のユーザーの ID（自分の記録だけ削除・停止できるようにするため）
+  static async getCurrentUserId(): Promise<string | null> {
+    const { data: { user } } = await supabase.auth.getUser();
+    return user?.id ?? null;
+  }
+}
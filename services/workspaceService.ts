@@ -0,0 +1,25 @@
+import { supabase } from '../lib/supabase';
+
+// ワークスペース = プロジェクトの所有者。スライドマスターや AI の設定はワークスペースごとに保存し、
+// メンバーは所有者の設定を参照できる（編集は所有者のみ）
+
+export class WorkspaceService {
+  // プロジェクトを開いていればその所有者、無ければログイン中のユーザーのワークスペース
+  static async getWorkspaceOwnerId(projectId: string | null): Promise<{ ownerId: string | null; userId: string | null }> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return { ownerId: null, userId: null };
+    if (!projectId) return { ownerId: user.id, userId: user.id };
+
+    const { data, error } = await supabase
+      .from('projects')
+      .select('user_id')
+      .eq('id', projectId)
+      .single();
+
+    if (error) {
+      throw new Error(`ワークスペースの取得に失敗しました: ${error.message}`);
+    }
+
+    return { ownerId: data.user_id, userId: user.id };
+  }
+}
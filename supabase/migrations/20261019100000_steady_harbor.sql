@@ -0,0 +1,331 @@
+/*
+  # タスクデータの正規化
+
+  1. 新しいテーブル
+    - `project_tasks`
+      - `project_id` (uuid, foreign key to projects)
+      - `id` (text) - アプリ側のタスクID（プロジェクト内で一意）
+      - `sort_order` (integer)
+      - `title`, `description`, `status` (text)
+      - `next_task_ids` (text[])
+      - `canvas_position` (jsonb) - フロー上の座標
+      - `responsible` (text), `due_date` (date)
+      - `details` (jsonb) - その他の extendedDetails（サブステップ・決定事項を除く）
+    - `project_sub_steps`
+      - `project_id`, `id`, `task_id` (foreign key to project_tasks)
+      - `sort_order`, `text`, `notes`, `next_sub_step_ids`, `canvas_position`
+      - `responsible`, `due_date`, `status`, `attachments` (jsonb)
+    - `project_action_items`
+      - `project_id`, `id`, `sub_step_id` (foreign key to project_sub_steps)
+      - `sort_order`, `text`, `completed`, `due_date`, `completed_date`, `responsible`
+      - `report` (jsonb)
+    - `project_decisions`
+      - `project_id`, `id`, `task_id` (foreign key to project_tasks)
+      - `sort_order`, `question`, `decision`, `reasoning`, `date`, `status`
+
+  2. セキュリティ
+    - 各テーブルでRLSを有効化
+    - プロジェクトを閲覧・更新できるユーザーのみアクセス可能
+
+  3. 変更
+    - `save_project_changes` 関数: version を確認したうえで変更行のみを一括保存し、projects.version を進める
+    - 既存の `projects.tasks_data` を各テーブルへ変換（tasks_data は以後書き込まない）
+*/
+
+CREATE TABLE IF NOT EXISTS project_tasks (
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  id text NOT NULL,
+  sort_order integer NOT NULL DEFAULT 0,
+  title text NOT NULL DEFAULT '',
+  description text NOT NULL DEFAULT '',
+  status text,
+  next_task_ids text[] NOT NULL DEFAULT '{}',
+  canvas_position jsonb,
+  responsible text,
+  due_date date,
+  details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (project_id, id)
+);
+
+CREATE TABLE IF NOT EXISTS project_sub_steps (
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  id text NOT NULL,
+  task_id text NOT NULL,
+  sort_order integer NOT NULL DEFAULT 0,
+  text text NOT NULL DEFAULT '',
+  notes text,
+  next_sub_step_ids text[] NOT NULL DEFAULT '{}',
+  canvas_position jsonb,
+  responsible text,
+  due_date date,
+  status text,
+  attachments jsonb NOT NULL DEFAULT '[]'::jsonb,
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (project_id, id),
+  FOREIGN KEY (project_id, task_id) REFERENCES project_tasks(project_id, id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS project_action_items (
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  id text NOT NULL,
+  sub_step_id text NOT NULL,
+  sort_order integer NOT NULL DEFAULT 0,
+  text text NOT NULL DEFAULT '',
+  completed boolean NOT NULL DEFAULT false,
+  due_date date,
+  completed_date date,
+  responsible text,
+  report jsonb,
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (project_id, id),
+  FOREIGN KEY (project_id, sub_step_id) REFERENCES project_sub_steps(project_id, id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS project_decisions (
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  id text NOT NULL,
+  task_id text NOT NULL,
+  sort_order integer NOT NULL DEFAULT 0,
+  question text NOT NULL DEFAULT '',
+  decision text,
+  reasoning text,
+  date date,
+  status text NOT NULL DEFAULT 'undecided' CHECK (status IN ('decided', 'undecided')),
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (project_id, id),
+  FOREIGN KEY (project_id, task_id) REFERENCES project_tasks(project_id, id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS project_sub_steps_task_idx ON project_sub_steps (project_id, task_id);
+CREATE INDEX IF NOT EXISTS project_action_items_sub_step_idx ON project_action_items (project_id, sub_step_id);
+CREATE INDEX IF NOT EXISTS project_decisions_task_idx ON project_decisions (project_id, task_id);
+CREATE INDEX IF NOT EXISTS project_action_items_due_date_idx ON project_action_items (due_date) WHERE completed = false;
+
+-- RLSを有効化
+ALTER TABLE project_tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE project_sub_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE project_action_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE project_decisions ENABLE ROW LEVEL SECURITY;
+
+-- projects のポリシー（所有者またはアクティブなメンバー）に従ってアクセスを許可
+CREATE POLICY "Project members can manage tasks"
+  ON project_tasks
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM projects p WHERE p.id = project_tasks.project_id))
+  WITH CHECK (EXISTS (SELECT 1 FROM projects p WHERE p.id = project_tasks.project_id));
+
+CREATE POLICY "Project members can manage sub steps"
+  ON project_sub_steps
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM projects p WHERE p.id = project_sub_steps.project_id))
+  WITH CHECK (EXISTS (SELECT 1 FROM projects p WHERE p.id = project_sub_steps.project_id));
+
+CREATE POLICY "Project members can manage action items"
+  ON project_action_items
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM projects p WHERE p.id = project_action_items.project_id))
+  WITH CHECK (EXISTS (SELECT 1 FROM projects p WHERE p.id = project_action_items.project_id));
+
+CREATE POLICY "Project members can manage decisions"
+  ON project_decisions
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM projects p WHERE p.id = project_decisions.project_id))
+  WITH CHECK (EXISTS (SELECT 1 FROM projects p WHERE p.id = project_decisions.project_id));
+
+-- 変更行のみを保存する。version が一致しない場合は何もせず NULL を返す
+CREATE OR REPLACE FUNCTION save_project_changes(
+  p_project_id uuid,
+  p_expected_version integer,
+  p_project jsonb,
+  p_upserts jsonb,
+  p_deletes jsonb
+)
+RETURNS integer AS $$
+DECLARE
+  new_version integer;
+BEGIN
+  -- projects 行の更新で update_project_version トリガーが version を進める
+  UPDATE projects SET
+    title = COALESCE(p_project->>'title', title),
+    goal = COALESCE(p_project->>'goal', goal),
+    target_date = COALESCE((p_project->>'target_date')::date, target_date),
+    gantt_data = CASE WHEN p_project ? 'gantt_data' THEN p_project->'gantt_data' ELSE gantt_data END
+  WHERE id = p_project_id
+    AND (p_expected_version IS NULL OR version = p_expected_version)
+  RETURNING version INTO new_version;
+
+  IF new_version IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- 削除（子から順に。親の削除は外部キーでカスケードされる）
+  DELETE FROM project_action_items
+    WHERE project_id = p_project_id
+    AND id IN (SELECT jsonb_array_elements_text(COALESCE(p_deletes->'action_items', '[]'::jsonb)));
+  DELETE FROM project_decisions
+    WHERE project_id = p_project_id
+    AND id IN (SELECT jsonb_array_elements_text(COALESCE(p_deletes->'decisions', '[]'::jsonb)));
+  DELETE FROM project_sub_steps
+    WHERE project_id = p_project_id
+    AND id IN (SELECT jsonb_array_elements_text(COALESCE(p_deletes->'sub_steps', '[]'::jsonb)));
+  DELETE FROM project_tasks
+    WHERE project_id = p_project_id
+    AND id IN (SELECT jsonb_array_elements_text(COALESCE(p_deletes->'tasks', '[]'::jsonb)));
+
+  -- 追加・更新（親から順に）
+  INSERT INTO project_tasks (project_id, id, sort_order, title, description, status, next_task_ids, canvas_position, responsible, due_date, details, updated_at)
+  SELECT p_project_id, r.id, r.sort_order, r.title, r.description, r.status, COALESCE(r.next_task_ids, '{}'), r.canvas_position, r.responsible, r.due_date, COALESCE(r.details, '{}'::jsonb), now()
+  FROM jsonb_populate_recordset(NULL::project_tasks, COALESCE(p_upserts->'tasks', '[]'::jsonb)) r
+  ON CONFLICT (project_id, id) DO UPDATE SET
+    sort_order = EXCLUDED.sort_order,
+    title = EXCLUDED.title,
+    description = EXCLUDED.description,
+    status = EXCLUDED.status,
+    next_task_ids = EXCLUDED.next_task_ids,
+    canvas_position = EXCLUDED.canvas_position,
+    responsible = EXCLUDED.responsible,
+    due_date = EXCLUDED.due_date,
+    details = EXCLUDED.details,
+    updated_at = now();
+
+  INSERT INTO project_sub_steps (project_id, id, task_id, sort_order, text, notes, next_sub_step_ids, canvas_position, responsible, due_date, status, attachments, updated_at)
+  SELECT p_project_id, r.id, r.task_id, r.sort_order, r.text, r.notes, COALESCE(r.next_sub_step_ids, '{}'), r.canvas_position, r.responsible, r.due_date, r.status, COALESCE(r.attachments, '[]'::jsonb), now()
+  FROM jsonb_populate_recordset(NULL::project_sub_steps, COALESCE(p_upserts->'sub_steps', '[]'::jsonb)) r
+  ON CONFLICT (project_id, id) DO UPDATE SET
+    task_id = EXCLUDED.task_id,
+    sort_order = EXCLUDED.sort_order,
+    text = EXCLUDED.text,
+    notes = EXCLUDED.notes,
+    next_sub_step_ids = EXCLUDED.next_sub_step_ids,
+    canvas_position = EXCLUDED.canvas_position,
+    responsible = EXCLUDED.responsible,
+    due_date = EXCLUDED.due_date,
+    status = EXCLUDED.status,
+    attachments = EXCLUDED.attachments,
+    updated_at = now();
+
+  INSERT INTO project_action_items (project_id, id, sub_step_id, sort_order, text, completed, due_date, completed_date, responsible, report, updated_at)
+  SELECT p_project_id, r.id, r.sub_step_id, r.sort_order, r.text, COALESCE(r.completed, false), r.due_date, r.completed_date, r.responsible, r.report, now()
+  FROM jsonb_populate_recordset(NULL::project_action_items, COALESCE(p_upserts->'action_items', '[]'::jsonb)) r
+  ON CONFLICT (project_id, id) DO UPDATE SET
+    sub_step_id = EXCLUDED.sub_step_id,
+    sort_order = EXCLUDED.sort_order,
+    text = EXCLUDED.text,
+    completed = EXCLUDED.completed,
+    due_date = EXCLUDED.due_date,
+    completed_date = EXCLUDED.completed_date,
+    responsible = EXCLUDED.responsible,
+    report = EXCLUDED.report,
+    updated_at = now();
+
+  INSERT INTO project_decisions (project_id, id, task_id, sort_order, question, decision, reasoning, date, status, updated_at)
+  SELECT p_project_id, r.id, r.task_id, r.sort_order, r.question, r.decision, r.reasoning, r.date, COALESCE(r.status, 'undecided'), now()
+  FROM jsonb_populate_recordset(NULL::project_decisions, COALESCE(p_upserts->'decisions', '[]'::jsonb)) r
+  ON CONFLICT (project_id, id) DO UPDATE SET
+    task_id = EXCLUDED.task_id,
+    sort_order = EXCLUDED.sort_order,
+    question = EXCLUDED.question,
+    decision = EXCLUDED.decision,
+    reasoning = EXCLUDED.reasoning,
+    date = EXCLUDED.date,
+    status = EXCLUDED.status,
+    updated_at = now();
+
+  RETURN new_version;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- 空文字や不正な日付を NULL として扱う
+CREATE OR REPLACE FUNCTION try_parse_date(value text)
+RETURNS date AS $$
+BEGIN
+  IF value IS NULL OR value = '' THEN
+    RETURN NULL;
+  END IF;
+  RETURN value::date;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- 既存の tasks_data を各テーブルへ変換
+INSERT INTO project_tasks (project_id, id, sort_order, title, description, status, next_task_ids, canvas_position, responsible, due_date, details)
+SELECT
+  p.id,
+  t.value->>'id',
+  (t.ordinality - 1)::integer,
+  COALESCE(t.value->>'title', ''),
+  COALESCE(t.value->>'description', ''),
+  t.value->>'status',
+  COALESCE(ARRAY(SELECT jsonb_array_elements_text(COALESCE(t.value->'nextTaskIds', '[]'::jsonb))), '{}'),
+  t.value->'position',
+  t.value->'extendedDetails'->>'responsible',
+  try_parse_date(t.value->'extendedDetails'->>'dueDate'),
+  COALESCE(t.value->'extendedDetails', '{}'::jsonb) - 'subSteps' - 'decisions' - 'responsible' - 'dueDate'
+FROM projects p
+CROSS JOIN LATERAL jsonb_array_elements(COALESCE(p.tasks_data, '[]'::jsonb)) WITH ORDINALITY AS t(value, ordinality)
+WHERE t.value ? 'id'
+ON CONFLICT (project_id, id) DO NOTHING;
+
+INSERT INTO project_sub_steps (project_id, id, task_id, sort_order, text, notes, next_sub_step_ids, canvas_position, responsible, due_date, status, attachments)
+SELECT
+  p.id,
+  s.value->>'id',
+  t.value->>'id',
+  (s.ordinality - 1)::integer,
+  COALESCE(s.value->>'text', ''),
+  s.value->>'notes',
+  COALESCE(ARRAY(SELECT jsonb_array_elements_text(COALESCE(s.value->'nextSubStepIds', '[]'::jsonb))), '{}'),
+  s.value->'position',
+  s.value->>'responsible',
+  try_parse_date(s.value->>'dueDate'),
+  s.value->>'status',
+  COALESCE(s.value->'attachments', '[]'::jsonb)
+FROM projects p
+CROSS JOIN LATERAL jsonb_array_elements(COALESCE(p.tasks_data, '[]'::jsonb)) AS t(value)
+CROSS JOIN LATERAL jsonb_array_elements(COALESCE(t.value->'extendedDetails'->'subSteps', '[]'::jsonb)) WITH ORDINALITY AS s(value, ordinality)
+WHERE t.value ? 'id' AND s.value ? 'id'
+ON CONFLICT (project_id, id) DO NOTHING;
+
+INSERT INTO project_action_items (project_id, id, sub_step_id, sort_order, text, completed, due_date, completed_date, responsible, report)
+SELECT
+  p.id,
+  a.value->>'id',
+  s.value->>'id',
+  (a.ordinality - 1)::integer,
+  COALESCE(a.value->>'text', ''),
+  COALESCE((a.value->>'completed')::boolean, false),
+  try_parse_date(a.value->>'dueDate'),
+  try_parse_date(a.value->>'completedDate'),
+  a.value->>'responsible',
+  a.value->'report'
+FROM projects p
+CROSS JOIN LATERAL jsonb_array_elements(COALESCE(p.tasks_data, '[]'::jsonb)) AS t(value)
+CROSS JOIN LATERAL jsonb_array_elements(COALESCE(t.value->'extendedDetails'->'subSteps', '[]'::jsonb)) AS s(value)
+CROSS JOIN LATERAL jsonb_array_elements(COALESCE(s.value->'actionItems', '[]'::jsonb)) WITH ORDINALITY AS a(value, ordinality)
+WHERE t.value ? 'id' AND s.value ? 'id' AND a.value ? 'id'
+ON CONFLICT (project_id, id) DO NOTHING;
+
+INSERT INTO project_decisions (project_id, id, task_id, sort_order, question, decision, reasoning, date, status)
+SELECT
+  p.id,
+  d.value->>'id',
+  t.value->>'id',
+  (d.ordinality - 1)::integer,
+  COALESCE(d.value->>'question', ''),
+  NULLIF(d.value->>'decision', ''),
+  NULLIF(d.value->>'reasoning', ''),
+  try_parse_date(d.value->>'date'),
+  CASE WHEN d.value->>'status' = 'decided' THEN 'decided' ELSE 'undecided' END
+FROM projects p
+CROSS JOIN LATERAL jsonb_array_elements(COALESCE(p.tasks_data, '[]'::jsonb)) AS t(value)
+CROSS JOIN LATERAL jsonb_array_elements(COALESCE(t.value->'extendedDetails'->'decisions', '[]'::jsonb)) WITH ORDINALITY AS d(value, ordinality)
+WHERE t.value ? 'id' AND d.value ? 'id'
+ON CONFLICT (project_id, id) DO NOTHING;
+
+COMMENT ON COLUMN projects.tasks_data IS '非推奨: project_tasks / project_sub_steps / project_action_items / project_decisions に移行済み';
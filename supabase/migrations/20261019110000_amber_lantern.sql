@@ -0,0 +1,46 @@
+/*
+  # 添付ファイルのオブジェクトストレージ化
+
+  1. 新しいバケット
+    - `attachments` (非公開)
+      - オブジェクトのパスは `<project_id>/<attachment_id>/<ファイル名>`
+      - 画像のサムネイルは `<project_id>/<attachment_id>/thumbnail.jpg`
+
+  2. セキュリティ
+    - パス先頭のプロジェクトを閲覧できるユーザーのみ、オブジェクトの読み書き・削除が可能
+
+  3. 変更
+    - 添付ファイルは `storageKey` で参照し、base64 の `dataUrl` は新規に保存しない
+*/
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('attachments', 'attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- projects のポリシー（所有者またはアクティブなメンバー）に従ってアクセスを許可
+CREATE POLICY "Project members can read attachments"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'attachments' AND
+    EXISTS (SELECT 1 FROM projects p WHERE p.id::text = (storage.foldername(name))[1])
+  );
+
+CREATE POLICY "Project members can upload attachments"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'attachments' AND
+    EXISTS (SELECT 1 FROM projects p WHERE p.id::text = (storage.foldername(name))[1])
+  );
+
+CREATE POLICY "Project members can delete attachments"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'attachments' AND
+    EXISTS (SELECT 1 FROM projects p WHERE p.id::text = (storage.foldername(name))[1])
+  );
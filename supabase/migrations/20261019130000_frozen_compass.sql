@@ -0,0 +1,51 @@
+/*
+  # スケジュールのベースライン
+
+  1. 新しいテーブル
+    - `project_baselines`
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, foreign key to projects)
+      - `name` (text) - ベースライン名（例: 「キックオフ承認版」）
+      - `target_date` (date) - 保存時点のプロジェクト期限
+      - `items` (jsonb) - 保存時点のガントチャート項目（開始日・終了日・期日）
+      - `created_by` (uuid, foreign key to auth.users)
+      - `created_at` (timestamptz)
+
+  2. セキュリティ
+    - RLSを有効化
+    - プロジェクトを閲覧できるユーザーのみ参照・作成・削除が可能
+    - ベースラインは凍結された計画のため、更新は許可しない
+*/
+
+CREATE TABLE IF NOT EXISTS project_baselines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  target_date date,
+  items jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS project_baselines_project_id_idx ON project_baselines(project_id, created_at);
+
+ALTER TABLE project_baselines ENABLE ROW LEVEL SECURITY;
+
+-- projects のポリシー（所有者またはアクティブなメンバー）に従ってアクセスを許可
+CREATE POLICY "Project members can read baselines"
+  ON project_baselines
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM projects p WHERE p.id = project_baselines.project_id));
+
+CREATE POLICY "Project members can create baselines"
+  ON project_baselines
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM projects p WHERE p.id = project_baselines.project_id));
+
+CREATE POLICY "Project members can delete baselines"
+  ON project_baselines
+  FOR DELETE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM projects p WHERE p.id = project_baselines.project_id));
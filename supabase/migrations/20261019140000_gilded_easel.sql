@@ -0,0 +1,69 @@
+/*
+  # ワークスペースのスライドマスター
+
+  1. 新しいテーブル
+    - `slide_masters`
+      - `id` (uuid, primary key)
+      - `owner_id` (uuid, foreign key to auth.users) - ワークスペースの所有者（プロジェクトの所有者）
+      - `name` (text) - マスター名（例: 「コーポレート標準」）
+      - `definition` (jsonb) - 色・フォント・ロゴ・フッター・スライド番号・レイアウトごとのプレースホルダー
+      - `is_default` (boolean) - レポート生成時に使うマスター
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. セキュリティ
+    - RLSを有効化
+    - 所有者と、所有者のプロジェクトを閲覧できるメンバーが参照可能
+    - 作成・更新・削除は所有者のみ
+*/
+
+CREATE TABLE IF NOT EXISTS slide_masters (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL DEFAULT auth.uid(),
+  name text NOT NULL,
+  definition jsonb NOT NULL DEFAULT '{}'::jsonb,
+  is_default boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS slide_masters_owner_id_idx ON slide_masters(owner_id, created_at);
+
+-- 既定のマスターはワークスペースごとに1つだけ
+CREATE UNIQUE INDEX IF NOT EXISTS slide_masters_default_idx ON slide_masters(owner_id) WHERE is_default;
+
+ALTER TABLE slide_masters ENABLE ROW LEVEL SECURITY;
+
+-- projects のポリシーにより、メンバーは所有者のプロジェクトを参照できる
+CREATE POLICY "Workspace members can read slide masters"
+  ON slide_masters
+  FOR SELECT
+  TO authenticated
+  USING (
+    owner_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM projects p WHERE p.user_id = slide_masters.owner_id)
+  );
+
+CREATE POLICY "Owners can create slide masters"
+  ON slide_masters
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Owners can update slide masters"
+  ON slide_masters
+  FOR UPDATE
+  TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Owners can delete slide masters"
+  ON slide_masters
+  FOR DELETE
+  TO authenticated
+  USING (owner_id = auth.uid());
+
+CREATE TRIGGER update_slide_masters_updated_at
+    BEFORE UPDATE ON slide_masters
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,65 @@
+/*
+  # 共有プレゼンテーション
+
+  1. 新しいテーブル
+    - `shared_presentations`
+      - `id` (uuid, primary key) - 共有リンクに含める ID
+      - `project_id` (uuid, foreign key to projects)
+      - `task_id` (text) - タスクレポートの場合の対象タスク。プロジェクト全体レポートは NULL
+      - `title` (text) - 表示用のタイトル
+      - `deck` (jsonb) - 共有した時点のスライドデッキ。計画と連動する要素は閲覧時の計画から表示する
+      - `created_by` (uuid, foreign key to auth.users)
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. セキュリティ
+    - RLSを有効化
+    - プロジェクトを閲覧できるユーザー（所有者とメンバー）のみ参照・作成・更新・削除が可能
+    - リンクを知っていても、プロジェクトのメンバーでなければ閲覧できない
+*/
+
+CREATE TABLE IF NOT EXISTS shared_presentations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  task_id text,
+  title text NOT NULL DEFAULT '',
+  deck jsonb NOT NULL,
+  created_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS shared_presentations_project_id_idx ON shared_presentations(project_id, created_at);
+
+ALTER TABLE shared_presentations ENABLE ROW LEVEL SECURITY;
+
+-- projects のポリシー（所有者またはアクティブなメンバー）に従ってアクセスを許可
+CREATE POLICY "Project members can read shared presentations"
+  ON shared_presentations
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM projects p WHERE p.id = shared_presentations.project_id));
+
+CREATE POLICY "Project members can create shared presentations"
+  ON shared_presentations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM projects p WHERE p.id = shared_presentations.project_id));
+
+CREATE POLICY "Project members can update shared presentations"
+  ON shared_presentations
+  FOR UPDATE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM projects p WHERE p.id = shared_presentations.project_id))
+  WITH CHECK (EXISTS (SELECT 1 FROM projects p WHERE p.id = shared_presentations.project_id));
+
+CREATE POLICY "Project members can delete shared presentations"
+  ON shared_presentations
+  FOR DELETE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM projects p WHERE p.id = shared_presentations.project_id));
+
+CREATE TRIGGER update_shared_presentations_updated_at
+    BEFORE UPDATE ON shared_presentations
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,47 @@
+/*
+  # プロジェクト診断の記録
+
+  1. 新しいテーブル
+    - `project_health_reports`
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, foreign key to projects)
+      - `overall_status` (text) - 'On Track', 'At Risk', 'Off Track', 'Unknown'
+      - `report` (jsonb) - 診断レポート全体（概要・懸念事項・提案・遅延状況）
+      - `created_by` (uuid, foreign key to auth.users)
+      - `created_at` (timestamptz)
+
+  2. セキュリティ
+    - RLSを有効化
+    - プロジェクトを閲覧できるユーザーのみ参照・作成が可能
+    - 診断はその時点の記録のため、更新は許可しない
+
+  3. 補足
+    - projects 行とは別に保存するため、診断を記録してもプロジェクトの version は変わらない
+    - ポートフォリオではプロジェクトごとに最新の診断を表示する
+*/
+
+CREATE TABLE IF NOT EXISTS project_health_reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  overall_status text NOT NULL CHECK (overall_status IN ('On Track', 'At Risk', 'Off Track', 'Unknown')),
+  report jsonb NOT NULL,
+  created_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS project_health_reports_project_id_idx ON project_health_reports(project_id, created_at DESC);
+
+ALTER TABLE project_health_reports ENABLE ROW LEVEL SECURITY;
+
+-- projects のポリシー（所有者またはアクティブなメンバー）に従ってアクセスを許可
+CREATE POLICY "Project members can read health reports"
+  ON project_health_reports
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM projects p WHERE p.id = project_health_reports.project_id));
+
+CREATE POLICY "Project members can create health reports"
+  ON project_health_reports
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM projects p WHERE p.id = project_health_reports.project_id));
@@ -0,0 +1,193 @@
+/*
+  # 作業時間の記録と見積もり
+
+  1. 新しいテーブル
+    - `action_item_time_entries`
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, foreign key to projects)
+      - `action_item_id` (text) - アクションアイテムのID
+      - `user_id` (uuid, foreign key to auth.users) - 作業したメンバー
+      - `entry_date` (date) - 作業日
+      - `minutes` (integer) - 作業時間（分）。タイマーの計測中は 0
+      - `note` (text) - メモ
+      - `started_at` (timestamptz) - タイマーの開始時刻
+      - `ended_at` (timestamptz) - タイマーの停止時刻。計測中は NULL
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. セキュリティ
+    - RLSを有効化
+    - プロジェクトを閲覧できるユーザーは全員の記録を参照可能
+    - 記録の作成・更新・削除は本人のみ
+
+  3. 変更
+    - `project_sub_steps.estimated_hours` (numeric) - 作業時間の見積もり
+    - `project_action_items.estimated_hours` (numeric) - 作業時間の見積もり
+    - `save_project_changes` 関数: 上記の列を保存するよう更新
+    - タスクの見積もりは `project_tasks.details` に含まれる
+*/
+
+CREATE TABLE IF NOT EXISTS action_item_time_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  action_item_id text NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL DEFAULT auth.uid(),
+  entry_date date NOT NULL DEFAULT CURRENT_DATE,
+  minutes integer NOT NULL DEFAULT 0 CHECK (minutes >= 0),
+  note text,
+  started_at timestamptz,
+  ended_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS action_item_time_entries_project_id_idx ON action_item_time_entries(project_id, action_item_id);
+
+ALTER TABLE action_item_time_entries ENABLE ROW LEVEL SECURITY;
+
+-- projects のポリシー（所有者またはアクティブなメンバー）に従ってアクセスを許可
+CREATE POLICY "Project members can read time entries"
+  ON action_item_time_entries
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM projects p WHERE p.id = action_item_time_entries.project_id));
+
+CREATE POLICY "Project members can log their own time"
+  ON action_item_time_entries
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM projects p WHERE p.id = action_item_time_entries.project_id)
+  );
+
+CREATE POLICY "Users can update their own time entries"
+  ON action_item_time_entries
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own time entries"
+  ON action_item_time_entries
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE TRIGGER update_action_item_time_entries_updated_at
+  BEFORE UPDATE ON action_item_time_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE project_sub_steps ADD COLUMN IF NOT EXISTS estimated_hours numeric;
+ALTER TABLE project_action_items ADD COLUMN IF NOT EXISTS estimated_hours numeric;
+
+-- 変更行のみを保存する。version が一致しない場合は何もせず NULL を返す
+CREATE OR REPLACE FUNCTION save_project_changes(
+  p_project_id uuid,
+  p_expected_version integer,
+  p_project jsonb,
+  p_upserts jsonb,
+  p_deletes jsonb
+)
+RETURNS integer AS $$
+DECLARE
+  new_version integer;
+BEGIN
+  -- projects 行の更新で update_project_version トリガーが version を進める
+  UPDATE projects SET
+    title = COALESCE(p_project->>'title', title),
+    goal = COALESCE(p_project->>'goal', goal),
+    target_date = COALESCE((p_project->>'target_date')::date, target_date),
+    gantt_data = CASE WHEN p_project ? 'gantt_data' THEN p_project->'gantt_data' ELSE gantt_data END
+  WHERE id = p_project_id
+    AND (p_expected_version IS NULL OR version = p_expected_version)
+  RETURNING version INTO new_version;
+
+  IF new_version IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- 削除（子から順に。親の削除は外部キーでカスケードされる）
+  DELETE FROM project_action_items
+    WHERE project_id = p_project_id
+    AND id IN (SELECT jsonb_array_elements_text(COALESCE(p_deletes->'action_items', '[]'::jsonb)));
+  DELETE FROM project_decisions
+    WHERE project_id = p_project_id
+    AND id IN (SELECT jsonb_array_elements_text(COALESCE(p_deletes->'decisions', '[]'::jsonb)));
+  DELETE FROM project_sub_steps
+    WHERE project_id = p_project_id
+    AND id IN (SELECT jsonb_array_elements_text(COALESCE(p_deletes->'sub_steps', '[]'::jsonb)));
+  DELETE FROM project_tasks
+    WHERE project_id = p_project_id
+    AND id IN (SELECT jsonb_array_elements_text(COALESCE(p_deletes->'tasks', '[]'::jsonb)));
+
+  -- 追加・更新（親から順に）
+  INSERT INTO project_tasks (project_id, id, sort_order, title, description, status, next_task_ids, canvas_position, responsible, responsible_user_id, due_date, details, updated_at)
+  SELECT p_project_id, r.id, r.sort_order, r.title, r.description, r.status, COALESCE(r.next_task_ids, '{}'), r.canvas_position, r.responsible, r.responsible_user_id, r.due_date, COALESCE(r.details, '{}'::jsonb), now()
+  FROM jsonb_populate_recordset(NULL::project_tasks, COALESCE(p_upserts->'tasks', '[]'::jsonb)) r
+  ON CONFLICT (project_id, id) DO UPDATE SET
+    sort_order = EXCLUDED.sort_order,
+    title = EXCLUDED.title,
+    description = EXCLUDED.description,
+    status = EXCLUDED.status,
+    next_task_ids = EXCLUDED.next_task_ids,
+    canvas_position = EXCLUDED.canvas_position,
+    responsible = EXCLUDED.responsible,
+    responsible_user_id = EXCLUDED.responsible_user_id,
+    due_date = EXCLUDED.due_date,
+    details = EXCLUDED.details,
+    updated_at = now();
+
+  INSERT INTO project_sub_steps (project_id, id, task_id, sort_order, text, notes, next_sub_step_ids, canvas_position, responsible, responsible_user_id, due_date, status, attachments, estimated_days, estimated_hours, updated_at)
+  SELECT p_project_id, r.id, r.task_id, r.sort_order, r.text, r.notes, COALESCE(r.next_sub_step_ids, '{}'), r.canvas_position, r.responsible, r.responsible_user_id, r.due_date, r.status, COALESCE(r.attachments, '[]'::jsonb), r.estimated_days, r.estimated_hours, now()
+  FROM jsonb_populate_recordset(NULL::project_sub_steps, COALESCE(p_upserts->'sub_steps', '[]'::jsonb)) r
+  ON CONFLICT (project_id, id) DO UPDATE SET
+    task_id = EXCLUDED.task_id,
+    sort_order = EXCLUDED.sort_order,
+    text = EXCLUDED.text,
+    notes = EXCLUDED.notes,
+    next_sub_step_ids = EXCLUDED.next_sub_step_ids,
+    canvas_position = EXCLUDED.canvas_position,
+    responsible = EXCLUDED.responsible,
+    responsible_user_id = EXCLUDED.responsible_user_id,
+    due_date = EXCLUDED.due_date,
+    status = EXCLUDED.status,
+    attachments = EXCLUDED.attachments,
+    estimated_days = EXCLUDED.estimated_days,
+    estimated_hours = EXCLUDED.estimated_hours,
+    updated_at = now();
+
+  INSERT INTO project_action_items (project_id, id, sub_step_id, sort_order, text, completed, due_date, completed_date, responsible, responsible_user_id, report, estimated_days, estimated_hours, updated_at)
+  SELECT p_project_id, r.id, r.sub_step_id, r.sort_order, r.text, COALESCE(r.completed, false), r.due_date, r.completed_date, r.responsible, r.responsible_user_id, r.report, r.estimated_days, r.estimated_hours, now()
+  FROM jsonb_populate_recordset(NULL::project_action_items, COALESCE(p_upserts->'action_items', '[]'::jsonb)) r
+  ON CONFLICT (project_id, id) DO UPDATE SET
+    sub_step_id = EXCLUDED.sub_step_id,
+    sort_order = EXCLUDED.sort_order,
+    text = EXCLUDED.text,
+    completed = EXCLUDED.completed,
+    due_date = EXCLUDED.due_date,
+    completed_date = EXCLUDED.completed_date,
+    responsible = EXCLUDED.responsible,
+    responsible_user_id = EXCLUDED.responsible_user_id,
+    report = EXCLUDED.report,
+    estimated_days = EXCLUDED.estimated_days,
+    estimated_hours = EXCLUDED.estimated_hours,
+    updated_at = now();
+
+  INSERT INTO project_decisions (project_id, id, task_id, sort_order, question, decision, reasoning, date, status, updated_at)
+  SELECT p_project_id, r.id, r.task_id, r.sort_order, r.question, r.decision, r.reasoning, r.date, COALESCE(r.status, 'undecided'), now()
+  FROM jsonb_populate_recordset(NULL::project_decisions, COALESCE(p_upserts->'decisions', '[]'::jsonb)) r
+  ON CONFLICT (project_id, id) DO UPDATE SET
+    task_id = EXCLUDED.task_id,
+    sort_order = EXCLUDED.sort_order,
+    question = EXCLUDED.question,
+    decision = EXCLUDED.decision,
+    reasoning = EXCLUDED.reasoning,
+    date = EXCLUDED.date,
+    status = EXCLUDED.status,
+    updated_at = now();
+
+  RETURN new_version;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
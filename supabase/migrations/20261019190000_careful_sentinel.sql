@@ -0,0 +1,78 @@
+/*
+  # リスク登録簿
+
+  1. 新しいテーブル
+    - `project_risks`
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, foreign key to projects)
+      - `title` (text) - リスクの名前
+      - `description` (text) - 内容・発生した場合の影響
+      - `probability` (smallint) - 発生確率（1〜5）
+      - `impact` (smallint) - 影響度（1〜5）
+      - `owner` (text) - 担当者名
+      - `owner_user_id` (uuid, foreign key to auth.users) - 担当者（プロジェクトメンバー）
+      - `mitigation_actions` (jsonb) - 対策のアクションアイテム
+      - `status` (text) - 'open', 'mitigating', 'occurred', 'closed'
+      - `related_task_ids` (text[]) - 関連するタスクのID
+      - `source` (text) - 'manual'（手動）または 'health_report'（AI診断の提案）
+      - `created_by` (uuid, foreign key to auth.users)
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. セキュリティ
+    - RLSを有効化
+    - プロジェクトを閲覧できるユーザーのみ参照・作成・更新・削除が可能
+*/
+
+CREATE TABLE IF NOT EXISTS project_risks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  title text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  probability smallint NOT NULL DEFAULT 3 CHECK (probability BETWEEN 1 AND 5),
+  impact smallint NOT NULL DEFAULT 3 CHECK (impact BETWEEN 1 AND 5),
+  owner text NOT NULL DEFAULT '',
+  owner_user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  mitigation_actions jsonb NOT NULL DEFAULT '[]'::jsonb,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'mitigating', 'occurred', 'closed')),
+  related_task_ids text[] NOT NULL DEFAULT '{}',
+  source text NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'health_report')),
+  created_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS project_risks_project_id_idx ON project_risks(project_id, created_at);
+
+ALTER TABLE project_risks ENABLE ROW LEVEL SECURITY;
+
+-- projects のポリシー（所有者またはアクティブなメンバー）に従ってアクセスを許可
+CREATE POLICY "Project members can read risks"
+  ON project_risks
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM projects p WHERE p.id = project_risks.project_id));
+
+CREATE POLICY "Project members can create risks"
+  ON project_risks
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM projects p WHERE p.id = project_risks.project_id));
+
+CREATE POLICY "Project members can update risks"
+  ON project_risks
+  FOR UPDATE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM projects p WHERE p.id = project_risks.project_id))
+  WITH CHECK (EXISTS (SELECT 1 FROM projects p WHERE p.id = project_risks.project_id));
+
+CREATE POLICY "Project members can delete risks"
+  ON project_risks
+  FOR DELETE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM projects p WHERE p.id = project_risks.project_id));
+
+CREATE TRIGGER update_project_risks_updated_at
+  BEFORE UPDATE ON project_risks
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
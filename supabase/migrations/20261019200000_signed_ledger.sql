@@ -0,0 +1,147 @@
+/*
+  # 決定ログ（選択肢・決定者・承認）
+
+  1. 新しいテーブル
+    - なし
+
+  2. セキュリティ
+    - 変更なし（決定事項は既存のポリシーによりプロジェクトのメンバーが更新できる）
+
+  3. 変更
+    - `project_decisions.options` (jsonb) - 検討した選択肢
+    - `project_decisions.chosen_option_id` (text) - 採用した選択肢
+    - `project_decisions.decider` (text) - 決定者の表示名
+    - `project_decisions.decider_user_id` (uuid) - 決定者のユーザー
+    - `project_decisions.approvals` (jsonb) - 承認者とその回答（承認・却下・コメント）
+    - `project_decisions.affected_task_ids` (text[]) - 影響するタスク
+    - `project_decisions.affected_sub_step_ids` (text[]) - 影響するサブステップ
+    - `project_decisions.ai_proposal` (jsonb) - 採用待ちの AI の提案
+    - `save_project_changes` 関数: 上記の列を保存するよう更新
+*/
+
+ALTER TABLE project_decisions ADD COLUMN IF NOT EXISTS options jsonb NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE project_decisions ADD COLUMN IF NOT EXISTS chosen_option_id text;
+ALTER TABLE project_decisions ADD COLUMN IF NOT EXISTS decider text;
+ALTER TABLE project_decisions ADD COLUMN IF NOT EXISTS decider_user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE project_decisions ADD COLUMN IF NOT EXISTS approvals jsonb NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE project_decisions ADD COLUMN IF NOT EXISTS affected_task_ids text[] NOT NULL DEFAULT '{}';
+ALTER TABLE project_decisions ADD COLUMN IF NOT EXISTS affected_sub_step_ids text[] NOT NULL DEFAULT '{}';
+ALTER TABLE project_decisions ADD COLUMN IF NOT EXISTS ai_proposal jsonb;
+
+-- 変更行のみを保存する。version が一致しない場合は何もせず NULL を返す
+CREATE OR REPLACE FUNCTION save_project_changes(
+  p_project_id uuid,
+  p_expected_version integer,
+  p_project jsonb,
+  p_upserts jsonb,
+  p_deletes jsonb
+)
+RETURNS integer AS $$
+DECLARE
+  new_version integer;
+BEGIN
+  -- projects 行の更新で update_project_version トリガーが version を進める
+  UPDATE projects SET
+    title = COALESCE(p_project->>'title', title),
+    goal = COALESCE(p_project->>'goal', goal),
+    target_date = COALESCE((p_project->>'target_date')::date, target_date),
+    gantt_data = CASE WHEN p_project ? 'gantt_data' THEN p_project->'gantt_data' ELSE gantt_data END
+  WHERE id = p_project_id
+    AND (p_expected_version IS NULL OR version = p_expected_version)
+  RETURNING version INTO new_version;
+
+  IF new_version IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- 削除（子から順に。親の削除は外部キーでカスケードされる）
+  DELETE FROM project_action_items
+    WHERE project_id = p_project_id
+    AND id IN (SELECT jsonb_array_elements_text(COALESCE(p_deletes->'action_items', '[]'::jsonb)));
+  DELETE FROM project_decisions
+    WHERE project_id = p_project_id
+    AND id IN (SELECT jsonb_array_elements_text(COALESCE(p_deletes->'decisions', '[]'::jsonb)));
+  DELETE FROM project_sub_steps
+    WHERE project_id = p_project_id
+    AND id IN (SELECT jsonb_array_elements_text(COALESCE(p_deletes->'sub_steps', '[]'::jsonb)));
+  DELETE FROM project_tasks
+    WHERE project_id = p_project_id
+    AND id IN (SELECT jsonb_array_elements_text(COALESCE(p_deletes->'tasks', '[]'::jsonb)));
+
+  -- 追加・更新（親から順に）
+  INSERT INTO project_tasks (project_id, id, sort_order, title, description, status, next_task_ids, canvas_position, responsible, responsible_user_id, due_date, details, updated_at)
+  SELECT p_project_id, r.id, r.sort_order, r.title, r.description, r.status, COALESCE(r.next_task_ids, '{}'), r.canvas_position, r.responsible, r.responsible_user_id, r.due_date, COALESCE(r.details, '{}'::jsonb), now()
+  FROM jsonb_populate_recordset(NULL::project_tasks, COALESCE(p_upserts->'tasks', '[]'::jsonb)) r
+  ON CONFLICT (project_id, id) DO UPDATE SET
+    sort_order = EXCLUDED.sort_order,
+    title = EXCLUDED.title,
+    description = EXCLUDED.description,
+    status = EXCLUDED.status,
+    next_task_ids = EXCLUDED.next_task_ids,
+    canvas_position = EXCLUDED.canvas_position,
+    responsible = EXCLUDED.responsible,
+    responsible_user_id = EXCLUDED.responsible_user_id,
+    due_date = EXCLUDED.due_date,
+    details = EXCLUDED.details,
+    updated_at = now();
+
+  INSERT INTO project_sub_steps (project_id, id, task_id, sort_order, text, notes, next_sub_step_ids, canvas_position, responsible, responsible_user_id, due_date, status, attachments, estimated_days, estimated_hours, updated_at)
+  SELECT p_project_id, r.id, r.task_id, r.sort_order, r.text, r.notes, COALESCE(r.next_sub_step_ids, '{}'), r.canvas_position, r.responsible, r.responsible_user_id, r.due_date, r.status, COALESCE(r.attachments, '[]'::jsonb), r.estimated_days, r.estimated_hours, now()
+  FROM jsonb_populate_recordset(NULL::project_sub_steps, COALESCE(p_upserts->'sub_steps', '[]'::jsonb)) r
+  ON CONFLICT (project_id, id) DO UPDATE SET
+    task_id = EXCLUDED.task_id,
+    sort_order = EXCLUDED.sort_order,
+    text = EXCLUDED.text,
+    notes = EXCLUDED.notes,
+    next_sub_step_ids = EXCLUDED.next_sub_step_ids,
+    canvas_position = EXCLUDED.canvas_position,
+    responsible = EXCLUDED.responsible,
+    responsible_user_id = EXCLUDED.responsible_user_id,
+    due_date = EXCLUDED.due_date,
+    status = EXCLUDED.status,
+    attachments = EXCLUDED.attachments,
+    estimated_days = EXCLUDED.estimated_days,
+    estimated_hours = EXCLUDED.estimated_hours,
+    updated_at = now();
+
+  INSERT INTO project_action_items (project_id, id, sub_step_id, sort_order, text, completed, due_date, completed_date, responsible, responsible_user_id, report, estimated_days, estimated_hours, updated_at)
+  SELECT p_project_id, r.id, r.sub_step_id, r.sort_order, r.text, COALESCE(r.completed, false), r.due_date, r.completed_date, r.responsible, r.responsible_user_id, r.report, r.estimated_days, r.estimated_hours, now()
+  FROM jsonb_populate_recordset(NULL::project_action_items, COALESCE(p_upserts->'action_items', '[]'::jsonb)) r
+  ON CONFLICT (project_id, id) DO UPDATE SET
+    sub_step_id = EXCLUDED.sub_step_id,
+    sort_order = EXCLUDED.sort_order,
+    text = EXCLUDED.text,
+    completed = EXCLUDED.completed,
+    due_date = EXCLUDED.due_date,
+    completed_date = EXCLUDED.completed_date,
+    responsible = EXCLUDED.responsible,
+    responsible_user_id = EXCLUDED.responsible_user_id,
+    report = EXCLUDED.report,
+    estimated_days = EXCLUDED.estimated_days,
+    estimated_hours = EXCLUDED.estimated_hours,
+    updated_at = now();
+
+  INSERT INTO project_decisions (project_id, id, task_id, sort_order, question, decision, reasoning, date, status, options, chosen_option_id, decider, decider_user_id, approvals, affected_task_ids, affected_sub_step_ids, ai_proposal, updated_at)
+  SELECT p_project_id, r.id, r.task_id, r.sort_order, r.question, r.decision, r.reasoning, r.date, COALESCE(r.status, 'undecided'), COALESCE(r.options, '[]'::jsonb), r.chosen_option_id, r.decider, r.decider_user_id, COALESCE(r.approvals, '[]'::jsonb), COALESCE(r.affected_task_ids, '{}'), COALESCE(r.affected_sub_step_ids, '{}'), r.ai_proposal, now()
+  FROM jsonb_populate_recordset(NULL::project_decisions, COALESCE(p_upserts->'decisions', '[]'::jsonb)) r
+  ON CONFLICT (project_id, id) DO UPDATE SET
+    task_id = EXCLUDED.task_id,
+    sort_order = EXCLUDED.sort_order,
+    question = EXCLUDED.question,
+    decision = EXCLUDED.decision,
+    reasoning = EXCLUDED.reasoning,
+    date = EXCLUDED.date,
+    status = EXCLUDED.status,
+    options = EXCLUDED.options,
+    chosen_option_id = EXCLUDED.chosen_option_id,
+    decider = EXCLUDED.decider,
+    decider_user_id = EXCLUDED.decider_user_id,
+    approvals = EXCLUDED.approvals,
+    affected_task_ids = EXCLUDED.affected_task_ids,
+    affected_sub_step_ids = EXCLUDED.affected_sub_step_ids,
+    ai_proposal = EXCLUDED.ai_proposal,
+    updated_at = now();
+
+  RETURN new_version;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
@@ -0,0 +1,125 @@
+/*
+  # コメントスレッドとメンション
+
+  1. 新しいテーブル
+    - `project_comments`
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, foreign key to projects)
+      - `task_id` (text) - コメント対象が属するタスクのID
+      - `target_type` (text) - 'task', 'sub_step', 'action_item', 'decision', 'slide'
+      - `target_id` (text) - コメント対象のID
+      - `parent_id` (uuid, foreign key to project_comments) - 返信先のスレッド。スレッドの最初のコメントは NULL
+      - `user_id` (uuid, foreign key to auth.users) - 投稿者
+      - `body` (text) - 本文
+      - `mentions` (uuid[]) - メンションされたメンバー
+      - `resolved` (boolean) - スレッドが解決済みか（スレッドの最初のコメントに設定）
+      - `resolved_by` (uuid, foreign key to auth.users) - 解決済みにしたメンバー
+      - `resolved_at` (timestamptz)
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+    - `project_comment_reads`
+      - `project_id` (uuid, foreign key to projects)
+      - `user_id` (uuid, foreign key to auth.users)
+      - `task_id` (text) - 既読にしたタスクのID
+      - `last_read_at` (timestamptz) - 最後にタスクのコメントを読んだ日時
+
+  2. セキュリティ
+    - RLSを有効化
+    - プロジェクトを閲覧できるユーザーはコメントの参照・投稿・解決が可能
+    - コメントの削除は投稿者のみ
+    - 既読の記録は本人のみ参照・更新が可能
+
+  3. 変更
+    - `project_comments` をリアルタイム配信の対象に追加
+*/
+
+CREATE TABLE IF NOT EXISTS project_comments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  task_id text NOT NULL,
+  target_type text NOT NULL CHECK (target_type IN ('task', 'sub_step', 'action_item', 'decision', 'slide')),
+  target_id text NOT NULL,
+  parent_id uuid REFERENCES project_comments(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL DEFAULT auth.uid(),
+  body text NOT NULL CHECK (length(trim(body)) > 0),
+  mentions uuid[] NOT NULL DEFAULT '{}',
+  resolved boolean NOT NULL DEFAULT false,
+  resolved_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS project_comments_project_id_idx ON project_comments(project_id, task_id, created_at);
+
+ALTER TABLE project_comments ENABLE ROW LEVEL SECURITY;
+
+-- projects のポリシー（所有者またはアクティブなメンバー）に従ってアクセスを許可
+CREATE POLICY "Project members can read comments"
+  ON project_comments
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM projects p WHERE p.id = project_comments.project_id));
+
+CREATE POLICY "Project members can post comments"
+  ON project_comments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM projects p WHERE p.id = project_comments.project_id)
+  );
+
+-- スレッドの解決・未解決の切り替えはメンバー全員が行える
+CREATE POLICY "Project members can update comments"
+  ON project_comments
+  FOR UPDATE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM projects p WHERE p.id = project_comments.project_id))
+  WITH CHECK (EXISTS (SELECT 1 FROM projects p WHERE p.id = project_comments.project_id));
+
+CREATE POLICY "Users can delete their own comments"
+  ON project_comments
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE TRIGGER update_project_comments_updated_at
+  BEFORE UPDATE ON project_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS project_comment_reads (
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL DEFAULT auth.uid(),
+  task_id text NOT NULL,
+  last_read_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (project_id, user_id, task_id)
+);
+
+ALTER TABLE project_comment_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own comment reads"
+  ON project_comment_reads
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can record their own comment reads"
+  ON project_comment_reads
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM projects p WHERE p.id = project_comment_reads.project_id)
+  );
+
+CREATE POLICY "Users can update their own comment reads"
+  ON project_comment_reads
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- リアルタイム更新のためのパブリケーション
+ALTER PUBLICATION supabase_realtime ADD TABLE project_comments;
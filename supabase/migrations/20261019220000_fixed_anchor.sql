@@ -0,0 +1,20 @@
+/*
+  # プロジェクトの開始日
+
+  1. 新しいテーブル
+    - なし
+
+  2. セキュリティ
+    - 変更なし
+
+  3. 変更
+    - `projects.start_date` (date) - 日程の起点。作成時に決まり、`save_project_changes` では更新しない
+    - 既存のプロジェクトは作成日を開始日とする
+*/
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS start_date date;
+
+UPDATE projects SET start_date = created_at::date WHERE start_date IS NULL;
+
+ALTER TABLE projects ALTER COLUMN start_date SET DEFAULT CURRENT_DATE;
+ALTER TABLE projects ALTER COLUMN start_date SET NOT NULL;
@@ -0,0 +1,19 @@
+/*
+  # ベースラインの日程の起点
+
+  1. 新しいテーブル
+    - なし
+
+  2. セキュリティ
+    - 変更なし
+
+  3. 変更
+    - `project_baselines.schedule_start` (date) - 保存時点の日程を計算した起点の日。差異は現在の計画を同じ起点で計算して比較する
+    - 既存のベースラインは保存日を起点とする（保存時点では今日を起点に日程を計算していたため）
+*/
+
+ALTER TABLE project_baselines ADD COLUMN IF NOT EXISTS schedule_start date;
+
+UPDATE project_baselines SET schedule_start = created_at::date WHERE schedule_start IS NULL;
+
+ALTER TABLE project_baselines ALTER COLUMN schedule_start SET NOT NULL;
@@ -0,0 +1,271 @@
+/*
+  # 決定事項の承認をサーバー側で記録
+
+  1. 新しいテーブル
+    - `project_decision_approvals`
+      - `project_id` (uuid, foreign key to projects)
+      - `decision_id` (text) - 決定事項のID
+      - `user_id` (uuid, foreign key to auth.users) - 承認者
+      - `user_name` (text) - 承認者の表示名
+      - `status` (text) - 'pending', 'approved', 'rejected'
+      - `comment` (text) - 承認者のコメント
+      - `responded_at` (timestamptz) - 回答した日時（サーバーの時刻）
+      - `created_at` (timestamptz)
+
+  2. セキュリティ
+    - `20261019200000_signed_ledger.sql` で追加した `project_decisions.approvals` は、決定事項の既存のポリシーにより
+      メンバーなら誰でも他人の回答を書き換えられた。承認を本人のみが回答を記録できる専用のテーブルに移す
+    - RLSを有効化
+    - プロジェクトを閲覧できるユーザーは承認者の参照・追加・削除が可能（追加できるのは未回答の状態のみ）
+    - 更新のポリシーは設けない。回答は `respond_to_decision` 関数で本人の行にのみ記録する
+    - `respond_to_decision` は SECURITY DEFINER。auth.uid() の行だけを更新し、回答日時はサーバーの now() とする
+
+  3. 変更
+    - `project_decisions.approvals` の内容を `project_decision_approvals` に移し、列を削除
+    - 決定事項の結論（論点・決定内容・状態・採用した選択肢）が変わったら、回答を未回答に戻すトリガー
+    - 決定事項を削除したら承認者も削除するトリガー
+    - `save_project_changes` 関数: 承認を保存しないよう更新（クライアントは承認を書き込めない）
+*/
+
+CREATE TABLE IF NOT EXISTS project_decision_approvals (
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  decision_id text NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  user_name text NOT NULL DEFAULT '',
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  comment text,
+  responded_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (project_id, decision_id, user_id)
+);
+
+ALTER TABLE project_decision_approvals ENABLE ROW LEVEL SECURITY;
+
+-- projects のポリシー（所有者またはアクティブなメンバー）に従ってアクセスを許可
+CREATE POLICY "Project members can read decision approvals"
+  ON project_decision_approvals
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM projects p WHERE p.id = project_decision_approvals.project_id));
+
+-- 承認者の指定は決定事項の編集と同じくメンバーが行えるが、回答済みの状態では追加できない
+CREATE POLICY "Project members can add decision approvers"
+  ON project_decision_approvals
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    status = 'pending'
+    AND comment IS NULL
+    AND responded_at IS NULL
+    AND EXISTS (SELECT 1 FROM projects p WHERE p.id = project_decision_approvals.project_id)
+  );
+
+CREATE POLICY "Project members can remove decision approvers"
+  ON project_decision_approvals
+  FOR DELETE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM projects p WHERE p.id = project_decision_approvals.project_id));
+
+-- 既存の承認を移す
+INSERT INTO project_decision_approvals (project_id, decision_id, user_id, user_name, status, comment, responded_at)
+SELECT d.project_id, d.id, (a->>'userId')::uuid, COALESCE(a->>'userName', ''), COALESCE(a->>'status', 'pending'), a->>'comment', (a->>'respondedAt')::timestamptz
+FROM project_decisions d, jsonb_array_elements(d.approvals) a
+WHERE a->>'userId' IS NOT NULL
+  AND EXISTS (SELECT 1 FROM auth.users u WHERE u.id = (a->>'userId')::uuid)
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE project_decisions DROP COLUMN IF EXISTS approvals;
+
+-- 承認者本人の回答を記録する。回答者と日時はクライアントから受け取らない
+CREATE OR REPLACE FUNCTION respond_to_decision(
+  p_project_id uuid,
+  p_decision_id text,
+  p_status text,
+  p_comment text
+)
+RETURNS project_decision_approvals AS $$
+DECLARE
+  result project_decision_approvals;
+BEGIN
+  IF p_status NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'invalid approval status: %', p_status;
+  END IF;
+
+  UPDATE project_decision_approvals SET
+    status = p_status,
+    comment = NULLIF(trim(p_comment), ''),
+    responded_at = now()
+  WHERE project_id = p_project_id
+    AND decision_id = p_decision_id
+    AND user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM project_members m
+      WHERE m.project_id = p_project_id AND m.user_id = auth.uid() AND m.status = 'active'
+    )
+  RETURNING * INTO result;
+
+  IF result IS NULL THEN
+    RAISE EXCEPTION 'not an approver of this decision';
+  END IF;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 結論が変わった決定事項は承認をやり直す
+CREATE OR REPLACE FUNCTION reset_decision_approvals()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE project_decision_approvals SET
+    status = 'pending',
+    comment = NULL,
+    responded_at = NULL
+  WHERE project_id = NEW.project_id
+    AND decision_id = NEW.id
+    AND status <> 'pending';
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER reset_decision_approvals_trigger
+  AFTER UPDATE ON project_decisions
+  FOR EACH ROW
+  WHEN (
+    OLD.question IS DISTINCT FROM NEW.question
+    OR OLD.decision IS DISTINCT FROM NEW.decision
+    OR OLD.status IS DISTINCT FROM NEW.status
+    OR OLD.chosen_option_id IS DISTINCT FROM NEW.chosen_option_id
+  )
+  EXECUTE FUNCTION reset_decision_approvals();
+
+CREATE OR REPLACE FUNCTION delete_decision_approvals()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM project_decision_approvals
+  WHERE project_id = OLD.project_id
+    AND decision_id = OLD.id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER delete_decision_approvals_trigger
+  AFTER DELETE ON project_decisions
+  FOR EACH ROW
+  EXECUTE FUNCTION delete_decision_approvals();
+
+-- 変更行のみを保存する。version が一致しない場合は何もせず NULL を返す
+CREATE OR REPLACE FUNCTION save_project_changes(
+  p_project_id uuid,
+  p_expected_version integer,
+  p_project jsonb,
+  p_upserts jsonb,
+  p_deletes jsonb
+)
+RETURNS integer AS $$
+DECLARE
+  new_version integer;
+BEGIN
+  -- projects 行の更新で update_project_version トリガーが version を進める
+  UPDATE projects SET
+    title = COALESCE(p_project->>'title', title),
+    goal = COALESCE(p_project->>'goal', goal),
+    target_date = COALESCE((p_project->>'target_date')::date, target_date),
+    gantt_data = CASE WHEN p_project ? 'gantt_data' THEN p_project->'gantt_data' ELSE gantt_data END
+  WHERE id = p_project_id
+    AND (p_expected_version IS NULL OR version = p_expected_version)
+  RETURNING version INTO new_version;
+
+  IF new_version IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- 削除（子から順に。親の削除は外部キーでカスケードされる）
+  DELETE FROM project_action_items
+    WHERE project_id = p_project_id
+    AND id IN (SELECT jsonb_array_elements_text(COALESCE(p_deletes->'action_items', '[]'::jsonb)));
+  DELETE FROM project_decisions
+    WHERE project_id = p_project_id
+    AND id IN (SELECT jsonb_array_elements_text(COALESCE(p_deletes->'decisions', '[]'::jsonb)));
+  DELETE FROM project_sub_steps
+    WHERE project_id = p_project_id
+    AND id IN (SELECT jsonb_array_elements_text(COALESCE(p_deletes->'sub_steps', '[]'::jsonb)));
+  DELETE FROM project_tasks
+    WHERE project_id = p_project_id
+    AND id IN (SELECT jsonb_array_elements_text(COALESCE(p_deletes->'tasks', '[]'::jsonb)));
+
+  -- 追加・更新（親から順に）
+  INSERT INTO project_tasks (project_id, id, sort_order, title, description, status, next_task_ids, canvas_position, responsible, responsible_user_id, due_date, details, updated_at)
+  SELECT p_project_id, r.id, r.sort_order, r.title, r.description, r.status, COALESCE(r.next_task_ids, '{}'), r.canvas_position, r.responsible, r.responsible_user_id, r.due_date, COALESCE(r.details, '{}'::jsonb), now()
+  FROM jsonb_populate_recordset(NULL::project_tasks, COALESCE(p_upserts->'tasks', '[]'::jsonb)) r
+  ON CONFLICT (project_id, id) DO UPDATE SET
+    sort_order = EXCLUDED.sort_order,
+    title = EXCLUDED.title,
+    description = EXCLUDED.description,
+    status = EXCLUDED.status,
+    next_task_ids = EXCLUDED.next_task_ids,
+    canvas_position = EXCLUDED.canvas_position,
+    responsible = EXCLUDED.responsible,
+    responsible_user_id = EXCLUDED.responsible_user_id,
+    due_date = EXCLUDED.due_date,
+    details = EXCLUDED.details,
+    updated_at = now();
+
+  INSERT INTO project_sub_steps (project_id, id, task_id, sort_order, text, notes, next_sub_step_ids, canvas_position, responsible, responsible_user_id, due_date, status, attachments, estimated_days, estimated_hours, updated_at)
+  SELECT p_project_id, r.id, r.task_id, r.sort_order, r.text, r.notes, COALESCE(r.next_sub_step_ids, '{}'), r.canvas_position, r.responsible, r.responsible_user_id, r.due_date, r.status, COALESCE(r.attachments, '[]'::jsonb), r.estimated_days, r.estimated_hours, now()
+  FROM jsonb_populate_recordset(NULL::project_sub_steps, COALESCE(p_upserts->'sub_steps', '[]'::jsonb)) r
+  ON CONFLICT (project_id, id) DO UPDATE SET
+    task_id = EXCLUDED.task_id,
+    sort_order = EXCLUDED.sort_order,
+    text = EXCLUDED.text,
+    notes = EXCLUDED.notes,
+    next_sub_step_ids = EXCLUDED.next_sub_step_ids,
+    canvas_position = EXCLUDED.canvas_position,
+    responsible = EXCLUDED.responsible,
+    responsible_user_id = EXCLUDED.responsible_user_id,
+    due_date = EXCLUDED.due_date,
+    status = EXCLUDED.status,
+    attachments = EXCLUDED.attachments,
+    estimated_days = EXCLUDED.estimated_days,
+    estimated_hours = EXCLUDED.estimated_hours,
+    updated_at = now();
+
+  INSERT INTO project_action_items (project_id, id, sub_step_id, sort_order, text, completed, due_date, completed_date, responsible, responsible_user_id, report, estimated_days, estimated_hours, updated_at)
+  SELECT p_project_id, r.id, r.sub_step_id, r.sort_order, r.text, COALESCE(r.completed, false), r.due_date, r.completed_date, r.responsible, r.responsible_user_id, r.report, r.estimated_days, r.estimated_hours, now()
+  FROM jsonb_populate_recordset(NULL::project_action_items, COALESCE(p_upserts->'action_items', '[]'::jsonb)) r
+  ON CONFLICT (project_id, id) DO UPDATE SET
+    sub_step_id = EXCLUDED.sub_step_id,
+    sort_order = EXCLUDED.sort_order,
+    text = EXCLUDED.text,
+    completed = EXCLUDED.completed,
+    due_date = EXCLUDED.due_date,
+    completed_date = EXCLUDED.completed_date,
+    responsible = EXCLUDED.responsible,
+    responsible_user_id = EXCLUDED.responsible_user_id,
+    report = EXCLUDED.report,
+    estimated_days = EXCLUDED.estimated_days,
+    estimated_hours = EXCLUDED.estimated_hours,
+    updated_at = now();
+
+  INSERT INTO project_decisions (project_id, id, task_id, sort_order, question, decision, reasoning, date, status, options, chosen_option_id, decider, decider_user_id, affected_task_ids, affected_sub_step_ids, ai_proposal, updated_at)
+  SELECT p_project_id, r.id, r.task_id, r.sort_order, r.question, r.decision, r.reasoning, r.date, COALESCE(r.status, 'undecided'), COALESCE(r.options, '[]'::jsonb), r.chosen_option_id, r.decider, r.decider_user_id, COALESCE(r.affected_task_ids, '{}'), COALESCE(r.affected_sub_step_ids, '{}'), r.ai_proposal, now()
+  FROM jsonb_populate_recordset(NULL::project_decisions, COALESCE(p_upserts->'decisions', '[]'::jsonb)) r
+  ON CONFLICT (project_id, id) DO UPDATE SET
+    task_id = EXCLUDED.task_id,
+    sort_order = EXCLUDED.sort_order,
+    question = EXCLUDED.question,
+    decision = EXCLUDED.decision,
+    reasoning = EXCLUDED.reasoning,
+    date = EXCLUDED.date,
+    status = EXCLUDED.status,
+    options = EXCLUDED.options,
+    chosen_option_id = EXCLUDED.chosen_option_id,
+    decider = EXCLUDED.decider,
+    decider_user_id = EXCLUDED.decider_user_id,
+    affected_task_ids = EXCLUDED.affected_task_ids,
+    affected_sub_step_ids = EXCLUDED.affected_sub_step_ids,
+    ai_proposal = EXCLUDED.ai_proposal,
+    updated_at = now();
+
+  RETURN new_version;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
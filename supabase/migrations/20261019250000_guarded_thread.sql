@@ -0,0 +1,56 @@
+/*
+  # コメントの更新を投稿者に限定し、スレッドの解決は関数で記録
+
+  1. 新しいテーブル
+    - なし
+
+  2. セキュリティ
+    - `project_comments` の更新ポリシーを投稿者本人のみに変更
+    - クライアントから更新できる列を本文とメンションに限定（解決の状態は直接書き換えられない）
+    - `set_comment_thread_resolved` は SECURITY DEFINER。プロジェクトのメンバーであることを確認し、
+      `resolved` / `resolved_by` / `resolved_at` のみを更新する。解決したユーザーは auth.uid()、日時は now()
+
+  3. 変更
+    - `set_comment_thread_resolved` 関数を追加
+*/
+
+DROP POLICY IF EXISTS "Project members can update comments" ON project_comments;
+
+CREATE POLICY "Users can update their own comments"
+  ON project_comments
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+REVOKE UPDATE ON project_comments FROM authenticated;
+GRANT UPDATE (body, mentions) ON project_comments TO authenticated;
+
+-- スレッド（最初のコメント）を解決済み・未解決にする。メンバー全員が行える
+CREATE OR REPLACE FUNCTION set_comment_thread_resolved(
+  p_comment_id uuid,
+  p_resolved boolean
+)
+RETURNS project_comments AS $$
+DECLARE
+  result project_comments;
+BEGIN
+  UPDATE project_comments c SET
+    resolved = p_resolved,
+    resolved_by = CASE WHEN p_resolved THEN auth.uid() ELSE NULL END,
+    resolved_at = CASE WHEN p_resolved THEN now() ELSE NULL END
+  WHERE c.id = p_comment_id
+    AND c.parent_id IS NULL
+    AND EXISTS (
+      SELECT 1 FROM project_members m
+      WHERE m.project_id = c.project_id AND m.user_id = auth.uid() AND m.status = 'active'
+    )
+  RETURNING c.* INTO result;
+
+  IF result IS NULL THEN
+    RAISE EXCEPTION 'comment thread not found';
+  END IF;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,31 @@
+/*
+  # 既読の記録をサーバーの時刻で行う
+
+  1. 新しいテーブル
+    - なし
+
+  2. セキュリティ
+    - 変更なし（`mark_task_comments_read` は SECURITY INVOKER のため、既存の本人のみのポリシーが適用される）
+
+  3. 変更
+    - `mark_task_comments_read` 関数を追加。既読の日時はコメントの投稿日時と同じくサーバーの now() とし、
+      クライアントの時計のずれで未読数が狂わないようにする
+*/
+
+CREATE OR REPLACE FUNCTION mark_task_comments_read(
+  p_project_id uuid,
+  p_task_id text
+)
+RETURNS timestamptz AS $$
+DECLARE
+  read_at timestamptz;
+BEGIN
+  INSERT INTO project_comment_reads (project_id, user_id, task_id, last_read_at)
+  VALUES (p_project_id, auth.uid(), p_task_id, now())
+  ON CONFLICT (project_id, user_id, task_id) DO UPDATE SET
+    last_read_at = now()
+  RETURNING last_read_at INTO read_at;
+
+  RETURN read_at;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
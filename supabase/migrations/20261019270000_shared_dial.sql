@@ -0,0 +1,57 @@
+/*
+  # ワークスペースの AI 設定
+
+  1. 新しいテーブル
+    - `workspace_llm_settings`
+      - `owner_id` (uuid, primary key, foreign key to auth.users) - ワークスペースの所有者（プロジェクトの所有者）
+      - `provider` (text) - 'gemini', 'openai', 'local'
+      - `model` (text) - モデル名
+      - `base_url` (text) - OpenAI 互換・ローカルのエンドポイント
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. セキュリティ
+    - RLSを有効化
+    - 所有者と、所有者のプロジェクトを閲覧できるメンバーが参照可能
+    - 作成・更新は所有者のみ
+    - APIキーは保存しない（ブラウザのセッション中のみ保持する）
+*/
+
+CREATE TABLE IF NOT EXISTS workspace_llm_settings (
+  owner_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  provider text NOT NULL CHECK (provider IN ('gemini', 'openai', 'local')),
+  model text NOT NULL,
+  base_url text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE workspace_llm_settings ENABLE ROW LEVEL SECURITY;
+
+-- projects のポリシーにより、メンバーは所有者のプロジェクトを参照できる
+CREATE POLICY "Workspace members can read LLM settings"
+  ON workspace_llm_settings
+  FOR SELECT
+  TO authenticated
+  USING (
+    owner_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM projects p WHERE p.user_id = workspace_llm_settings.owner_id)
+  );
+
+CREATE POLICY "Owners can create LLM settings"
+  ON workspace_llm_settings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Owners can update LLM settings"
+  ON workspace_llm_settings
+  FOR UPDATE
+  TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+CREATE TRIGGER update_workspace_llm_settings_updated_at
+    BEFORE UPDATE ON workspace_llm_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
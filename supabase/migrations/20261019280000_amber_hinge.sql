@@ -0,0 +1,27 @@
+/*
+  # 添付ファイルの上書きを許可
+
+  1. 新しいテーブル
+    - なし
+
+  2. セキュリティ
+    - `attachments` バケットのオブジェクトの更新ポリシーを追加（読み書き・削除と同じく、パス先頭のプロジェクトを閲覧できるユーザーのみ）
+    - アップロードは upsert で行うため、同じキーへの再アップロード（base64 の添付ファイルの移行の再試行など）に必要
+
+  3. 変更
+    - base64 の `dataUrl` のまま計画に含まれている添付ファイルは、SQL では Storage にアップロードできないため、
+      アプリがプロジェクトを開いたときにストレージへ移して `storageKey` に置き換える
+*/
+
+CREATE POLICY "Project members can update attachments"
+  ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'attachments' AND
+    EXISTS (SELECT 1 FROM projects p WHERE p.id::text = (storage.foldername(name))[1])
+  )
+  WITH CHECK (
+    bucket_id = 'attachments' AND
+    EXISTS (SELECT 1 FROM projects p WHERE p.id::text = (storage.foldername(name))[1])
+  );
@@ -0,0 +1,92 @@
+/*
+  # タイマーの時刻と作業時間をサーバーで記録し、計測中のタイマーをユーザーごとに1つに限定
+
+  1. 新しいテーブル
+    - なし
+
+  2. セキュリティ
+    - クライアントから `action_item_time_entries` の `started_at` / `ended_at` を書き込めないように、
+      追加・更新できる列を限定する（手入力の記録に使う列のみ）
+    - `start_time_entry` / `stop_time_entry` は SECURITY DEFINER。プロジェクトのメンバーであることと
+      本人の記録であることを確認し、開始・停止の時刻は now()、作業時間（分）は開始からの経過時間で記録する
+
+  3. 変更
+    - 計測中のタイマーが複数あるユーザーは、新しいタイマーの開始時刻で古いタイマーを停止する
+    - `action_item_time_entries` に計測中（`ended_at` が NULL）のタイマーをユーザーごとに1つに限定する部分一意インデックスを追加
+    - `start_time_entry` / `stop_time_entry` 関数を追加
+*/
+
+-- 同じユーザーの次のタイマーが開始された時点で停止したものとして扱う
+WITH superseded AS (
+  SELECT e.id, next_started_at
+  FROM (
+    SELECT id, lead(started_at) OVER (PARTITION BY user_id ORDER BY started_at, created_at) AS next_started_at
+    FROM action_item_time_entries
+    WHERE started_at IS NOT NULL AND ended_at IS NULL
+  ) e
+  WHERE e.next_started_at IS NOT NULL
+)
+UPDATE action_item_time_entries t SET
+  ended_at = s.next_started_at,
+  minutes = GREATEST(round(extract(epoch FROM s.next_started_at - t.started_at) / 60)::integer, 0)
+FROM superseded s
+WHERE t.id = s.id;
+
+-- 手入力の記録（started_at が NULL）は ended_at も NULL のため、計測中のタイマーに限定する
+CREATE UNIQUE INDEX IF NOT EXISTS action_item_time_entries_running_user_idx
+  ON action_item_time_entries(user_id)
+  WHERE started_at IS NOT NULL AND ended_at IS NULL;
+
+REVOKE INSERT, UPDATE ON action_item_time_entries FROM authenticated;
+GRANT INSERT (project_id, action_item_id, entry_date, minutes, note) ON action_item_time_entries TO authenticated;
+GRANT UPDATE (entry_date, minutes, note) ON action_item_time_entries TO authenticated;
+
+-- ログイン中のユーザーのタイマーを開始する。停止するまでは作業時間 0 分の記録として残る
+CREATE OR REPLACE FUNCTION start_time_entry(
+  p_project_id uuid,
+  p_action_item_id text,
+  p_entry_date date
+)
+RETURNS action_item_time_entries AS $$
+DECLARE
+  result action_item_time_entries;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM project_members m
+    WHERE m.project_id = p_project_id AND m.user_id = auth.uid() AND m.status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'project not found';
+  END IF;
+
+  INSERT INTO action_item_time_entries (project_id, action_item_id, user_id, entry_date, minutes, started_at)
+  VALUES (p_project_id, p_action_item_id, auth.uid(), p_entry_date, 0, now())
+  RETURNING * INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ログイン中のユーザーのタイマーを停止し、開始からの経過時間（分）を記録する
+CREATE OR REPLACE FUNCTION stop_time_entry(
+  p_entry_id uuid
+)
+RETURNS action_item_time_entries AS $$
+DECLARE
+  result action_item_time_entries;
+BEGIN
+  UPDATE action_item_time_entries t SET
+    ended_at = now(),
+    minutes = GREATEST(round(extract(epoch FROM now() - t.started_at) / 60)::integer, 0)
+  WHERE t.id = p_entry_id
+    AND t.user_id = auth.uid()
+    AND t.started_at IS NOT NULL
+    AND t.ended_at IS NULL
+  RETURNING t.* INTO result;
+
+  IF result IS NULL THEN
+    RAISE EXCEPTION 'running time entry not found';
+  END IF;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
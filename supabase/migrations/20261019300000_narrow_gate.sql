@@ -0,0 +1,89 @@
+/*
+  # 計画データの書き込みを編集できるロールに限定
+
+  1. 新しいテーブル
+    - なし
+
+  2. セキュリティ
+    - `project_tasks` / `project_sub_steps` / `project_action_items` / `project_decisions` のポリシーを閲覧と書き込みに分ける
+    - 閲覧はこれまでどおりプロジェクトを閲覧できるユーザー全員
+    - 追加・更新・削除はプロジェクトの所有者と、編集できるロール（owner / admin / member）のアクティブなメンバーのみ。
+      招待中・削除済みのメンバーや、これ以外のロールでは `save_project_changes` を経由しても直接でも書き込めない
+    - `can_edit_project` は SECURITY DEFINER（project_members のポリシーを経由せずにロールを確認するため）
+
+  3. 変更
+    - `can_edit_project` 関数を追加
+*/
+
+-- ログイン中のユーザーがプロジェクトの計画を編集できるか
+CREATE OR REPLACE FUNCTION can_edit_project(p_project_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM projects p
+    WHERE p.id = p_project_id AND p.user_id = auth.uid()
+  ) OR EXISTS (
+    SELECT 1 FROM project_members m
+    WHERE m.project_id = p_project_id
+      AND m.user_id = auth.uid()
+      AND m.status = 'active'
+      AND m.role IN ('owner', 'admin', 'member')
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Project members can manage tasks" ON project_tasks;
+DROP POLICY IF EXISTS "Project members can manage sub steps" ON project_sub_steps;
+DROP POLICY IF EXISTS "Project members can manage action items" ON project_action_items;
+DROP POLICY IF EXISTS "Project members can manage decisions" ON project_decisions;
+
+-- projects のポリシー（所有者またはアクティブなメンバー）に従って閲覧を許可
+CREATE POLICY "Project members can read tasks"
+  ON project_tasks
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM projects p WHERE p.id = project_tasks.project_id));
+
+CREATE POLICY "Project editors can write tasks"
+  ON project_tasks
+  FOR ALL
+  TO authenticated
+  USING (can_edit_project(project_tasks.project_id))
+  WITH CHECK (can_edit_project(project_tasks.project_id));
+
+CREATE POLICY "Project members can read sub steps"
+  ON project_sub_steps
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM projects p WHERE p.id = project_sub_steps.project_id));
+
+CREATE POLICY "Project editors can write sub steps"
+  ON project_sub_steps
+  FOR ALL
+  TO authenticated
+  USING (can_edit_project(project_sub_steps.project_id))
+  WITH CHECK (can_edit_project(project_sub_steps.project_id));
+
+CREATE POLICY "Project members can read action items"
+  ON project_action_items
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM projects p WHERE p.id = project_action_items.project_id));
+
+CREATE POLICY "Project editors can write action items"
+  ON project_action_items
+  FOR ALL
+  TO authenticated
+  USING (can_edit_project(project_action_items.project_id))
+  WITH CHECK (can_edit_project(project_action_items.project_id));
+
+CREATE POLICY "Project members can read decisions"
+  ON project_decisions
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM projects p WHERE p.id = project_decisions.project_id));
+
+CREATE POLICY "Project editors can write decisions"
+  ON project_decisions
+  FOR ALL
+  TO authenticated
+  USING (can_edit_project(project_decisions.project_id))
+  WITH CHECK (can_edit_project(project_decisions.project_id));
@@ -0,0 +1,17 @@
+/*
+  # タイマーの作業時間をクライアントから書き換えられないようにする
+
+  1. 新しいテーブル
+    - なし
+
+  2. セキュリティ
+    - `action_item_time_entries` の更新できる列から `minutes` を外す。
+      タイマーの記録（計測中を含む）の作業時間は `stop_time_entry` だけが書き込む
+    - 手入力の記録の作業時間は追加時に指定する。修正する場合は削除して記録し直す
+
+  3. 変更
+    - なし
+*/
+
+REVOKE UPDATE ON action_item_time_entries FROM authenticated;
+GRANT UPDATE (entry_date, note) ON action_item_time_entries TO authenticated;
@@ -0,0 +1,99 @@
+/*
+  # メンションされたメンバーへの通知
+
+  1. 新しいテーブル
+    - `comment_mention_notifications`
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, foreign key to projects)
+      - `comment_id` (uuid, foreign key to project_comments) - メンションを含むコメント
+      - `user_id` (uuid, foreign key to auth.users) - メンションされたメンバー（通知の宛先）
+      - `read_at` (timestamptz) - 通知を既読にした日時。未読は NULL
+      - `created_at` (timestamptz)
+
+  2. セキュリティ
+    - RLSを有効化
+    - 通知は宛先のユーザーのみ参照できる。クライアントからは追加できず、更新できるのは `read_at` のみ
+    - `notify_comment_mentions` は SECURITY DEFINER（宛先ごとの行を投稿者の権限で作れないため）。
+      メンションのうちプロジェクトのアクティブなメンバーで、投稿者本人以外にのみ通知を作る
+    - `mark_comment_mentions_read` は SECURITY INVOKER。既読の日時はサーバーの now()
+
+  3. 変更
+    - コメントの投稿時と、編集でメンションが増えたときに通知を作るトリガー
+    - `comment_mention_notifications` をリアルタイム配信の対象に追加
+*/
+
+CREATE TABLE IF NOT EXISTS comment_mention_notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  comment_id uuid REFERENCES project_comments(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (comment_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS comment_mention_notifications_unread_idx
+  ON comment_mention_notifications(user_id, created_at)
+  WHERE read_at IS NULL;
+
+ALTER TABLE comment_mention_notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own mention notifications"
+  ON comment_mention_notifications
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can mark their own mention notifications read"
+  ON comment_mention_notifications
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+REVOKE INSERT, UPDATE ON comment_mention_notifications FROM authenticated;
+GRANT UPDATE (read_at) ON comment_mention_notifications TO authenticated;
+
+-- コメントでメンションされたメンバーごとに通知を作る（同じコメントで同じメンバーには1件まで）
+CREATE OR REPLACE FUNCTION notify_comment_mentions()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO comment_mention_notifications (project_id, comment_id, user_id)
+  SELECT NEW.project_id, NEW.id, m.user_id
+  FROM project_members m
+  WHERE m.project_id = NEW.project_id
+    AND m.status = 'active'
+    AND m.user_id = ANY (NEW.mentions)
+    AND m.user_id <> NEW.user_id
+  ON CONFLICT (comment_id, user_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_comment_mentions_on_insert
+  AFTER INSERT ON project_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_comment_mentions();
+
+CREATE TRIGGER notify_comment_mentions_on_update
+  AFTER UPDATE OF mentions ON project_comments
+  FOR EACH ROW
+  WHEN (NEW.mentions IS DISTINCT FROM OLD.mentions)
+  EXECUTE FUNCTION notify_comment_mentions();
+
+-- ログイン中のユーザーの通知を既読にする
+CREATE OR REPLACE FUNCTION mark_comment_mentions_read(
+  p_ids uuid[]
+)
+RETURNS void AS $$
+BEGIN
+  UPDATE comment_mention_notifications
+  SET read_at = now()
+  WHERE id = ANY (p_ids)
+    AND user_id = auth.uid()
+    AND read_at IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- リアルタイム更新のためのパブリケーション
+ALTER PUBLICATION supabase_realtime ADD TABLE comment_mention_notifications;
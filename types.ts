@@ -3,7 +3,10 @@ export interface Attachment {
   id: string;
   name: string;
   type: string;
-  dataUrl: string; // Base64 encoded URL for image preview
+  size?: number; // Bytes
+  storageKey?: string; // Key of the file in attachment storage
+  thumbnailKey?: string; // Key of the image thumbnail in attachment storage
+  dataUrl?: string; // Legacy inline base64 data; also used when the project is not saved yet
 }
 
 export enum SubStepStatus {
@@ -12,11 +15,20 @@ export enum SubStepStatus {
   COMPLETED = 'Completed',
 }
 
+export type MatrixColumnType = 'text' | 'number' | 'percent' | 'date' | 'boolean';
+
+// A table of strings. Cells stay strings; columnTypes only guides editing and display.
+export interface MatrixData {
+  headers: string[];
+  rows: string[][];
+  columnTypes?: MatrixColumnType[]; // Inferred from the values when absent
+}
+
 // This interface defines the structure for an action item's implementation report.
 export interface ActionItemReport {
   notes: string;
   attachments: Attachment[];
-  matrixData: { headers: string[]; rows:string[][] } | null;
+  matrixData: MatrixData | null;
 }
 
 export interface ActionItem {
@@ -26,7 +38,10 @@ export interface ActionItem {
   dueDate?: string; // Due date for the specific action item
   completedDate?: string; // Date when the action item was marked as completed
   responsible?: string; // Responsible person for the specific action item
+  responsibleUserId?: string; // Project member the item is assigned to; `responsible` keeps the display name
   report?: ActionItemReport; // Each action item can have its own detailed implementation report
+  estimatedDays?: number; // Effort estimate used by the scheduler
+  estimatedHours?: number; // Estimated working hours, compared with the logged time entries
 }
 
 export interface SubStep {
@@ -38,10 +53,13 @@ export interface SubStep {
   
   // New detailed fields for sub-steps
   responsible?: string;
+  responsibleUserId?: string; // Project member the sub-step is assigned to
   dueDate?: string;
   status?: SubStepStatus;
   actionItems?: ActionItem[]; // Checklist for the sub-step
   attachments?: Attachment[]; // For sub-step specific files
+  estimatedDays?: number; // Effort estimate used by the scheduler
+  estimatedHours?: number; // Estimated working hours; the sum of the action items' estimates when absent
 }
 
 
@@ -69,9 +87,11 @@ export enum TaskStatus {
 
 // --- NEW SLIDE DECK REPORTING MODEL ---
 
-export type SlideElementType = 'textbox' | 'image' | 'table' | 'chart' | 'flowchart';
+export type SlideElementType = 'textbox' | 'image' | 'table' | 'chart' | 'flowchart' | 'data';
 export type SlideLayoutType = 'title_slide' | 'title_and_content' | 'section_header' | 'two_column' | 'blank';
-export type ChartType = 'bar' | 'pie' | 'line';
+export type ChartType = 'bar' | 'pie' | 'line' | 'area' | 'scatter' | 'combo';
+export type ChartSeriesType = 'bar' | 'line' | 'area';
+export type ChartLegendPosition = 'none' | 'top' | 'bottom' | 'right';
 
 export interface SlideElementPosition {
   x: number; // percentage
@@ -84,6 +104,7 @@ export interface BaseSlideElement {
   id: string;
   type: SlideElementType;
   position: SlideElementPosition;
+  groupId?: string; // Elements sharing a groupId are selected and moved together
 }
 
 export interface TextboxElement extends BaseSlideElement {
@@ -116,16 +137,57 @@ export interface ChartElement extends BaseSlideElement {
   actionItemId: string;
   chartType: ChartType;
   title: string;
+  categoryColumn?: number; // Column of matrixData used for labels (x values for scatter). Defaults to 0
+  series?: ChartSeries[]; // Defaults to every numeric column except the category column
+  grouping?: 'grouped' | 'stacked'; // Bar and area series
+  xAxis?: ChartAxisOptions;
+  yAxis?: ChartAxisOptions;
+  legendPosition?: ChartLegendPosition; // Defaults to showing the legend only when it is needed
+  showTargetLine?: boolean; // Draws the owning task's NumericalTarget.targetValue
+}
+
+export interface ChartSeries {
+  column: number; // Column index in matrixData
+  name?: string; // Defaults to the column header
+  seriesType?: ChartSeriesType; // Combo charts only
+  color?: string; // Hex color without '#'. Defaults to the theme palette
+}
+
+export interface ChartAxisOptions {
+  title?: string;
+  unit?: string; // Appended to tick labels, e.g. "%" or "件"
+  min?: number;
+  max?: number;
 }
 
 export interface FlowchartElement extends BaseSlideElement {
   type: 'flowchart';
+  taskId?: string; // Task whose sub-steps are shown live; data.subSteps then only holds the last known copy
+  snapshotAt?: string; // ISO timestamp. When set, data.subSteps is frozen and no longer follows the plan
   data: {
     subSteps: SubStep[];
   };
 }
 
-export type SlideElement = TextboxElement | ImageElement | TableElement | ChartElement | FlowchartElement;
+// Values computed from the plan every time the deck is shown
+export type SlideDataBinding = 'status_summary' | 'progress' | 'numerical_target' | 'decisions' | 'gantt';
+
+// What a data element draws. Colors are hex without '#'
+export type SlideDataView =
+  | { kind: 'metric'; title: string; value: string; percent: number | null; caption: string }
+  | { kind: 'breakdown'; title: string; items: { label: string; count: number; color: string }[] }
+  | { kind: 'table'; title: string; headers: string[]; rows: string[][] }
+  | { kind: 'timeline'; title: string; start: string; end: string; items: { name: string; start: string; end: string; progress: number; isCritical: boolean }[] };
+
+export interface DataElement extends BaseSlideElement {
+  type: 'data';
+  binding: SlideDataBinding;
+  taskId?: string; // Omitted for the whole project
+  scheduleStart?: string; // YYYY-MM-DD. Project start date a gantt binding schedules from
+  snapshot?: { takenAt: string; view: SlideDataView }; // Values frozen for a formal report. Live data is shown when absent
+}
+
+export type SlideElement = TextboxElement | ImageElement | TableElement | ChartElement | FlowchartElement | DataElement;
 
 export interface Slide {
   id: string;
@@ -138,32 +200,118 @@ export interface Slide {
 export interface SlideDeck {
   slides: Slide[];
   theme?: 'light' | 'dark' | 'business';
+  master?: SlideMaster; // Snapshot of a workspace slide master. Takes precedence over theme
+  sharedPresentationId?: string; // Set once the deck is shared, so sharing again keeps the same link
+}
+
+// A deck shared as a read-only presentation with the members of a project
+export interface SharedPresentation {
+  id: string;
+  projectId: string;
+  taskId?: string; // Set for a task report. Live elements then resolve against that task only
+  title: string;
+  deck: SlideDeck;
+  updatedAt: string;
+  createdBy?: string;
+}
+
+// Areas of a layout that generated content is placed into
+export type SlidePlaceholderRole = 'title' | 'subtitle' | 'body' | 'left' | 'right';
+export type SlidePlaceholderLayout = Partial<Record<SlidePlaceholderRole, SlideElementPosition>>;
+
+// A user-defined slide design stored per workspace. Colors are hex without '#'
+export interface SlideMaster {
+  id: string;
+  name: string;
+  background: string;
+  text: string;
+  mutedText: string;
+  accent: string;
+  tableHeaderFill: string;
+  tableHeaderText: string;
+  tableBorder: string;
+  fontFace: string;
+  chartColors: string[];
+  logo?: { dataUrl: string; position: SlideElementPosition }; // PNG or JPEG data URL
+  footerText?: string;
+  showSlideNumbers?: boolean;
+  placeholders: Partial<Record<SlideLayoutType, SlidePlaceholderLayout>>; // Layouts left out use the default placeholders
+}
+
+export interface WorkspaceSlideMasters {
+  masters: SlideMaster[];
+  defaultMasterId: string | null; // Used when generating new report decks
+  canEdit: boolean; // Only the workspace owner can add, change or delete masters
 }
 
 
 // --- Main Project Interfaces ---
 
+export type DecisionStatus = 'decided' | 'undecided';
+export type DecisionApprovalStatus = 'pending' | 'approved' | 'rejected';
+
+export interface DecisionOption {
+  id: string;
+  text: string;
+  pros?: string;
+  cons?: string;
+}
+
+export interface DecisionApproval {
+  userId: string; // Project member whose approval is required
+  userName: string;
+  status: DecisionApprovalStatus;
+  comment?: string;
+  respondedAt?: string; // ISO timestamp of the approval or rejection
+}
+
+// What the AI suggests for a decision; it only takes effect once accepted
+export interface DecisionProposal {
+  question: string;
+  decision?: string;
+  reasoning?: string;
+  date?: string;
+  status: DecisionStatus;
+  isNew: boolean; // The AI found a new decision point, rather than an update to an existing one
+  proposedAt: string; // ISO timestamp
+}
+
 export interface Decision {
   id: string;
   question: string; // What needed to be decided
   decision?: string; // The final outcome, undefined if not decided
   reasoning?: string; // Justification for the decision, or importance if undecided
   date?: string; // YYYY-MM-DD, undefined if not decided
-  status: 'decided' | 'undecided';
+  status: DecisionStatus;
+  options?: DecisionOption[]; // Options considered
+  chosenOptionId?: string;
+  decider?: string;
+  deciderUserId?: string; // Project member who makes the decision
+  approvals?: DecisionApproval[]; // Required approvers and their responses
+  affectedTaskIds?: string[]; // Other tasks the decision affects
+  affectedSubStepIds?: string[];
+  aiProposal?: DecisionProposal; // Pending AI suggestion
 }
 
+// The fields generateDecisions reads and returns
+export type GeneratedDecision = Pick<Decision, 'id' | 'question' | 'decision' | 'reasoning' | 'date' | 'status'>;
+
 export interface ExtendedTaskDetails {
   subSteps: SubStep[];
   resources: string;
   responsible: string;
+  responsibleUserId?: string; // Project member the task is assigned to
   notes: string; 
   numericalTarget?: NumericalTarget;
   dueDate?: string; 
   reportDeck?: SlideDeck; // Replaces ReportData
-  resourceMatrix?: { headers: string[]; rows: string[][] } | null;
+  resourceMatrix?: MatrixData | null;
   attachments?: Attachment[]; // For task-level files
   decisions?: Decision[];
   subStepCanvasSize?: { width: number; height: number };
+  estimatedDays?: number; // Effort estimate used by the scheduler when the task has no sub-steps
+  estimatedHours?: number; // Estimated working hours; the sum of the sub-steps' estimates when absent
+  costLines?: CostLine[]; // Planned and actual costs of the task and its sub-steps
 }
 
 export interface ProjectTask {
@@ -192,6 +340,7 @@ export enum ViewState {
 export interface ProjectFileContent {
   projectGoal: string;
   targetDate: string;
+  startDate?: string; // Project start date the schedule is anchored to. Missing in older files
   tasks: ProjectTask[];
   ganttData?: GanttItem[] | null;
 }
@@ -220,6 +369,9 @@ export interface ProjectHealthReport {
       relatedTaskIds: string[];
   }[];
   suggestions: string[];
+  scheduleVariance?: ScheduleVarianceSummary; // Computed from the baseline, not by the AI
+  effortSummary?: ProjectEffortSummary; // Computed from the time entries, not by the AI
+  proposedRisks?: ProposedRisk[]; // New risks the AI suggests adding to the risk register
 }
 
 export interface GanttItem {
@@ -231,4 +383,191 @@ export interface GanttItem {
   dependencies: string[];
   type: 'task' | 'substep' | 'actionitem';
   parentId: string | null; // ID of the parent task or sub-step
-}
\ No newline at end of file
+  totalFloat?: number; // Days the item can slip without delaying the project or a due date
+  isCritical?: boolean; // On the critical path (no float left)
+}
+// --- Baselines & schedule variance ---
+
+export interface BaselineItem {
+  id: string;
+  name: string;
+  type: GanttItem['type'];
+  parentId: string | null;
+  start: string; // YYYY-MM-DD
+  end: string;   // YYYY-MM-DD
+  dueDate?: string; // Due date in the plan when the baseline was saved
+}
+
+export interface ProjectBaseline {
+  id: string;
+  projectId: string;
+  name: string;
+  targetDate?: string;
+  scheduleStart: string; // Project start date the captured schedule was computed from
+  items: BaselineItem[];
+  createdAt: string;
+  createdBy?: string;
+}
+
+export interface ScheduleVarianceItem {
+  id: string;
+  name: string;
+  type: GanttItem['type'];
+  baselineStart: string;
+  baselineEnd: string;
+  currentStart: string;
+  currentEnd: string;
+  startSlipDays: number; // Positive = later than the baseline
+  finishSlipDays: number;
+  isCritical?: boolean;
+}
+
+export interface ScheduleVarianceTrendPoint {
+  label: string; // Baseline name, or '現在' for the current plan
+  date: string; // When the plan was captured (YYYY-MM-DD)
+  plannedFinish: string; // YYYY-MM-DD
+  slipDays: number; // Planned finish relative to the compared baseline
+}
+
+export interface ScheduleVarianceSummary {
+  baselineId: string;
+  baselineName: string;
+  baselineFinish: string;
+  currentFinish: string;
+  projectSlipDays: number;
+  slippedItems: ScheduleVarianceItem[]; // Sorted by days of slip, largest first
+  comparedItemCount: number;
+  addedItemCount: number; // In the current plan but not in the baseline
+  removedItemCount: number; // In the baseline but no longer in the plan
+  trend: ScheduleVarianceTrendPoint[];
+}
+
+// --- Time tracking ---
+
+export interface TimeEntry {
+  id: string;
+  projectId: string;
+  actionItemId: string;
+  userId: string;
+  userName?: string;
+  entryDate: string; // YYYY-MM-DD
+  minutes: number; // 0 while the timer is running
+  note?: string;
+  startedAt?: string; // Set when recorded with the timer
+  endedAt?: string; // Absent while the timer is running
+  createdAt: string;
+}
+
+export interface EffortComparison {
+  estimatedHours: number | null; // null when nothing under the item has an estimate
+  actualHours: number;
+}
+
+export interface TaskEffortSummary extends EffortComparison {
+  taskId: string;
+  title: string;
+}
+
+export interface ProjectEffortSummary extends EffortComparison {
+  tasks: TaskEffortSummary[]; // Tasks with an estimate or logged time, largest overrun first
+  members: { userId: string; userName: string; actualHours: number }[];
+}
+
+// --- Budget & cost ---
+
+export type CostCategory = 'labor' | 'material' | 'equipment';
+
+export type CostLineKind = 'planned' | 'actual';
+
+export type CostApprovalStatus = 'draft' | 'pending' | 'approved' | 'rejected';
+
+export interface CostLine {
+  id: string;
+  kind: CostLineKind;
+  subStepId?: string; // Cost of a sub-step; the task itself when absent
+  category: CostCategory;
+  description: string;
+  amount: number;
+  currency: string; // ISO 4217 code, e.g. 'JPY'
+  date?: string; // YYYY-MM-DD the actual cost was incurred
+  approvalStatus: CostApprovalStatus; // Rejected lines are left out of the budget and actuals
+}
+
+// --- Risk register ---
+
+export type RiskLevel = 1 | 2 | 3 | 4 | 5; // 1 = very low, 5 = very high
+
+export type RiskStatus = 'open' | 'mitigating' | 'occurred' | 'closed';
+
+export interface RiskMitigationAction {
+  id: string;
+  text: string;
+  completed: boolean;
+  dueDate?: string; // YYYY-MM-DD
+}
+
+export interface ProjectRisk {
+  id: string;
+  projectId: string;
+  title: string;
+  description: string;
+  probability: RiskLevel;
+  impact: RiskLevel;
+  owner: string; // Display name; empty when unassigned
+  ownerUserId?: string; // Project member who owns the risk
+  mitigationActions: RiskMitigationAction[];
+  status: RiskStatus;
+  relatedTaskIds: string[];
+  source: 'manual' | 'health_report';
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProposedRisk {
+  title: string;
+  description: string;
+  probability: RiskLevel;
+  impact: RiskLevel;
+  relatedTaskIds: string[];
+  mitigations: string[]; // Suggested mitigation actions
+}
+
+// --- Comments ---
+
+export type CommentTargetType = 'task' | 'sub_step' | 'action_item' | 'decision' | 'slide';
+
+export interface ProjectComment {
+  id: string;
+  projectId: string;
+  taskId: string; // Task the target belongs to, for unread badges on the canvas
+  targetType: CommentTargetType;
+  targetId: string; // ID of the task, sub-step, action item, decision or slide
+  parentId?: string; // Absent on the first comment of a thread
+  userId: string;
+  userName: string;
+  body: string;
+  mentions: string[]; // User IDs of the mentioned project members
+  resolved: boolean; // Set on the first comment of a thread
+  resolvedBy?: string;
+  resolvedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CommentMentionNotification {
+  id: string;
+  projectId: string;
+  projectTitle: string;
+  commentId: string;
+  taskId: string; // Task the comment belongs to, to open it from the notification
+  authorName: string;
+  body: string;
+  createdAt: string;
+}
+
+export interface CommentTarget {
+  taskId: string;
+  type: CommentTargetType;
+  id: string;
+  label: string; // Shown in the thread header, e.g. the sub-step's text
+}